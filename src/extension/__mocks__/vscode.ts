@@ -44,6 +44,53 @@ export class Uri {
   }
 }
 
+export class Position {
+  constructor(
+    public readonly line: number,
+    public readonly character: number,
+  ) {}
+}
+
+export class Range {
+  constructor(
+    public readonly start: Position,
+    public readonly end: Position,
+  ) {}
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export class Diagnostic {
+  source?: string;
+
+  constructor(
+    public readonly range: Range,
+    public readonly message: string,
+    public readonly severity: DiagnosticSeverity = DiagnosticSeverity.Error,
+  ) {}
+}
+
+/** Mock DiagnosticCollection：以 fsPath 為 key 保存最後一次 set 的 diagnostics */
+export function createMockDiagnosticCollection() {
+  const entries = new Map<string, Diagnostic[]>();
+  return {
+    entries,
+    set: vi.fn((uri: { fsPath: string }, diagnostics: Diagnostic[]) => { entries.set(uri.fsPath, diagnostics); }),
+    delete: vi.fn((uri: { fsPath: string }) => { entries.delete(uri.fsPath); }),
+    clear: vi.fn(() => entries.clear()),
+    dispose: vi.fn(),
+  };
+}
+
+export const languages = {
+  createDiagnosticCollection: vi.fn(() => createMockDiagnosticCollection()),
+};
+
 export const env = {
   openExternal: vi.fn().mockResolvedValue(true),
 };
@@ -72,6 +119,13 @@ export const mockFileWatchers: Array<ReturnType<typeof createMockFileSystemWatch
 /** workspace folder 變更事件（測試用） */
 export const mockWorkspaceFoldersChangeEmitter = new EventEmitter<void>();
 
+/** 文件存檔 / 關閉事件（測試用） */
+export const mockSaveTextDocumentEmitter = new EventEmitter<unknown>();
+export const mockCloseTextDocumentEmitter = new EventEmitter<unknown>();
+
+/** 設定變更事件（測試用） */
+export const mockConfigurationChangeEmitter = new EventEmitter<{ affectsConfiguration: (section: string) => boolean }>();
+
 export const workspace = {
   workspaceFolders: undefined as Array<{ uri: { fsPath: string }; name?: string }> | undefined,
   createFileSystemWatcher: vi.fn().mockImplementation(() => {
@@ -80,6 +134,13 @@ export const workspace = {
     return mock.watcher;
   }),
   onDidChangeWorkspaceFolders: mockWorkspaceFoldersChangeEmitter.event,
+  onDidChangeConfiguration: mockConfigurationChangeEmitter.event,
+  onDidSaveTextDocument: mockSaveTextDocumentEmitter.event,
+  onDidCloseTextDocument: mockCloseTextDocumentEmitter.event,
+  getWorkspaceFolder: vi.fn(() => undefined as { uri: { fsPath: string } } | undefined),
+  getConfiguration: vi.fn(() => ({
+    get: vi.fn(<T>(_key: string, defaultValue?: T) => defaultValue),
+  })),
   fs: {
     writeFile: vi.fn().mockResolvedValue(undefined),
     readFile: vi.fn().mockResolvedValue(Buffer.from('')),
@@ -92,6 +153,9 @@ export const window = {
   showSaveDialog: vi.fn(),
   showOpenDialog: vi.fn(),
   showInformationMessage: vi.fn(),
+  showWarningMessage: vi.fn(),
+  showErrorMessage: vi.fn(),
+  showQuickPick: vi.fn(),
 };
 
 export const commands = {
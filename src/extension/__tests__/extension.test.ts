@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { commands, window, mockWorkspaceFoldersChangeEmitter } from 'vscode';
+import { commands, window, mockWorkspaceFoldersChangeEmitter, mockConfigurationChangeEmitter } from 'vscode';
 import { COMMANDS } from '../constants';
 
 vi.mock('fs/promises', () => ({
@@ -22,6 +22,11 @@ const state = vi.hoisted(() => ({
   mcpDispose: vi.fn(),
   settingsInvalidateScanCache: vi.fn(),
   fileWatcherDispose: vi.fn(),
+  schedulerStart: vi.fn(),
+  editorShowPluginUpdates: vi.fn(),
+  preferencesWrite: vi.fn().mockResolvedValue(undefined),
+  schedulerDispose: vi.fn(),
+  diagnosticsDispose: vi.fn(),
   editorManagerInstance: null as null | { openPanel: ReturnType<typeof vi.fn>; dispose: ReturnType<typeof vi.fn> },
   sidebarProviderInstance: null as null | { dispose: ReturnType<typeof vi.fn> },
 }));
@@ -90,6 +95,30 @@ vi.mock('../services/SkillService', () => ({
 vi.mock('../services/PreferencesService', () => ({
   PreferencesService: vi.fn().mockImplementation(function PreferencesServiceMock() {
     this.migrateFromFile = vi.fn().mockResolvedValue(undefined);
+    this.write = state.preferencesWrite;
+  }),
+}));
+
+vi.mock('../services/AutoUpdateScheduler', () => ({
+  AutoUpdateScheduler: vi.fn().mockImplementation(function AutoUpdateSchedulerMock() {
+    this.start = state.schedulerStart;
+    this.dispose = state.schedulerDispose;
+  }),
+}));
+
+vi.mock('../services/MarketplaceManifestLinter', () => ({
+  MarketplaceManifestLinter: vi.fn().mockImplementation(function MarketplaceManifestLinterMock() {}),
+}));
+
+vi.mock('../services/MarketplaceDiagnosticsService', () => ({
+  MarketplaceDiagnosticsService: vi.fn().mockImplementation(function MarketplaceDiagnosticsServiceMock() {
+    this.dispose = state.diagnosticsDispose;
+  }),
+}));
+
+vi.mock('../services/PluginDevLinkService', () => ({
+  PluginDevLinkService: vi.fn().mockImplementation(function PluginDevLinkServiceMock() {
+    this.dispose = vi.fn();
   }),
 }));
 
@@ -102,6 +131,7 @@ vi.mock('../messaging/MessageRouter', () => ({
 vi.mock('../providers/EditorPanelManager', () => ({
   EditorPanelManager: vi.fn().mockImplementation(function EditorPanelManagerMock() {
     this.openPanel = state.editorOpenPanel;
+    this.showPluginUpdates = state.editorShowPluginUpdates;
     this.dispose = state.editorDispose;
     state.editorManagerInstance = this;
   }),
@@ -122,6 +152,7 @@ describe('activate', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockWorkspaceFoldersChangeEmitter.dispose();
+    mockConfigurationChangeEmitter.dispose();
     state.marketplaceHandlers.length = 0;
     state.pluginHandlers.length = 0;
     state.mcpHandlers.length = 0;
@@ -146,8 +177,8 @@ describe('activate', () => {
       'mock.sidebar.view',
       state.sidebarProviderInstance,
     );
-    expect(commands.registerCommand).toHaveBeenCalledTimes(6);
-    expect(context.subscriptions).toHaveLength(12);
+    expect(commands.registerCommand).toHaveBeenCalledTimes(8);
+    expect(context.subscriptions).toHaveLength(18);
 
     const commandCalls = commands.registerCommand.mock.calls;
     commandCalls.find(([id]) => id === COMMANDS.openMarketplace)?.[1]();
@@ -187,6 +218,38 @@ describe('activate', () => {
     expect(state.sidebarDispose).toHaveBeenCalledTimes(1);
     expect(state.mcpDispose).toHaveBeenCalledTimes(1);
     expect(state.fileWatcherDispose).toHaveBeenCalledTimes(1);
+    expect(state.schedulerDispose).toHaveBeenCalledTimes(1);
+    expect(state.diagnosticsDispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('啟動 auto-update scheduler，interval 設定變更時重啟', async () => {
+    const context = {
+      extensionUri: { fsPath: '/extension' },
+      globalStorageUri: { fsPath: '/tmp/test-global-storage' },
+      globalState: { get: vi.fn(), update: vi.fn().mockResolvedValue(undefined), keys: vi.fn().mockReturnValue([]) },
+      extension: { packageJSON: { version: '0.0.0', displayName: 'Test', publisher: 'test' } },
+      subscriptions: [] as Array<{ dispose?: () => void }>,
+    };
+
+    await activate(context as never);
+    expect(state.schedulerStart).toHaveBeenCalledTimes(1);
+
+    mockConfigurationChangeEmitter.fire({ affectsConfiguration: (section) => section === 'other.setting' });
+    expect(state.schedulerStart).toHaveBeenCalledTimes(1);
+
+    mockConfigurationChangeEmitter.fire({
+      affectsConfiguration: (section) => section === 'claude-plugins-manager.autoUpdate.intervalHours',
+    });
+    expect(state.schedulerStart).toHaveBeenCalledTimes(2);
+
+    const showUpdates = commands.registerCommand.mock.calls.find(([id]) => id === COMMANDS.showPluginUpdates)?.[1];
+    await showUpdates();
+    expect(state.preferencesWrite).toHaveBeenCalledWith('plugin.filter.updates', true);
+    expect(state.editorShowPluginUpdates).toHaveBeenCalled();
+
+    for (const disposable of context.subscriptions) {
+      disposable.dispose?.();
+    }
   });
 
   it('workspace folder listener 會加入 subscriptions，dispose 後不再觸發 mcp cache invalidate', async () => {
@@ -200,7 +263,7 @@ describe('activate', () => {
 
     await activate(context as never);
 
-    expect(context.subscriptions).toHaveLength(12);
+    expect(context.subscriptions).toHaveLength(18);
 
     for (const disposable of context.subscriptions) {
       disposable.dispose?.();
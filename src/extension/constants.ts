@@ -12,8 +12,16 @@ export const COMMANDS = {
   openSkill: `${EXTENSION_ID}.openSkill`,
   openSettings: `${EXTENSION_ID}.openSettings`,
   openInfo: `${EXTENSION_ID}.openInfo`,
+  showPluginUpdates: `${EXTENSION_ID}.showPluginUpdates`,
+  applyPluginProfile: `${EXTENSION_ID}.applyPluginProfile`,
 } as const;
 
+/** 背景自動更新間隔設定 key（`claude-plugins-manager.` 之後的部分，單位：小時） */
+export const AUTO_UPDATE_INTERVAL_SETTING = 'autoUpdate.intervalHours';
+
+/** Plugin 頁「有更新」篩選的偏好 key（須與 webview filterUtils 的 PLUGIN_FILTER_UPDATES_KEY 一致） */
+export const PLUGIN_FILTER_UPDATES_PREF_KEY = 'plugin.filter.updates';
+
 /** Editor panel 分類 */
 export type PanelCategory = 'marketplace' | 'plugin' | 'mcp' | 'skill' | 'settings' | 'info';
 
@@ -42,6 +50,9 @@ export const CLI_BASE_BACKOFF_MS = 1_000;
 /** 可重試的系統錯誤碼（暫時性網路/連線問題） */
 export const CLI_RETRYABLE_CODES = new Set(['ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN']);
 
+/** 每個 plugin 保留的歷史版本數（cache 目錄不被 pruneUnusedCache 刪除） */
+export const PLUGIN_HISTORY_LIMIT = 5;
+
 /** MCP 狀態輪詢間隔（毫秒）— fallback，主要由 FileWatcher 驅動 */
 export const MCP_POLL_INTERVAL_MS = 60_000;
 
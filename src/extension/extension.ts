@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { join } from 'path';
 import { mkdir, cp, rm, readdir } from 'fs/promises';
 import { PLUGINS_DIR } from './paths';
-import { COMMANDS } from './constants';
+import { AUTO_UPDATE_INTERVAL_SETTING, COMMANDS, EXTENSION_ID, PLUGIN_FILTER_UPDATES_PREF_KEY } from './constants';
 import { CliService } from './services/CliService';
 import { MarketplaceService } from './services/MarketplaceService';
 import { PluginService } from './services/PluginService';
@@ -14,6 +14,15 @@ import { HookExplanationService } from './services/HookExplanationService';
 import { ExtensionInfoService } from './services/ExtensionInfoService';
 import { SkillService } from './services/SkillService';
 import { PreferencesService } from './services/PreferencesService';
+import { ConfigBundleService } from './services/ConfigBundleService';
+import { AutoUpdateScheduler } from './services/AutoUpdateScheduler';
+import { PluginScaffoldService } from './services/PluginScaffoldService';
+import { PluginProfileService } from './services/PluginProfileService';
+import { MarketplaceManifestLinter } from './services/MarketplaceManifestLinter';
+import { MarketplaceDiagnosticsService } from './services/MarketplaceDiagnosticsService';
+import { PluginDevLinkService } from './services/PluginDevLinkService';
+import { PluginUsageService } from './services/PluginUsageService';
+import { PluginLockfileService } from './services/PluginLockfileService';
 import { MessageRouter } from './messaging/MessageRouter';
 import { SidebarViewProvider } from './providers/SidebarViewProvider';
 import { EditorPanelManager } from './providers/EditorPanelManager';
@@ -48,7 +57,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   const cli = new CliService();
   const settingsFileService = new SettingsFileService();
   const marketplaceService = new MarketplaceService(cli, settingsFileService);
-  const pluginService = new PluginService(cli, settingsFileService);
+  const pluginService = new PluginService(cli, settingsFileService, marketplaceService);
   const mcpService = new McpService(cli, settingsFileService);
   const translationService = new TranslationService(cacheDir);
   const fileWatcherService = new FileWatcherService();
@@ -62,7 +71,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   const skillService = new SkillService(cacheDir);
   const preferencesService = new PreferencesService(context.globalState);
   await preferencesService.migrateFromFile();
-  const router = new MessageRouter(marketplaceService, pluginService, mcpService, translationService, settingsFileService, preferencesService, hookExplanationService, extensionInfoService, cacheDir, skillService, context.extensionUri.fsPath);
+  const configBundleService = new ConfigBundleService(marketplaceService, pluginService, settingsFileService);
+  const pluginScaffoldService = new PluginScaffoldService(marketplaceService);
+  const pluginProfileService = new PluginProfileService(settingsFileService, preferencesService, pluginService);
+  const manifestLinter = new MarketplaceManifestLinter(settingsFileService);
+  const pluginDevLinkService = new PluginDevLinkService(settingsFileService, fileWatcherService, manifestLinter);
+  const pluginUsageService = new PluginUsageService(pluginService);
+  const pluginLockfileService = new PluginLockfileService(settingsFileService, pluginService, marketplaceService);
+  const router = new MessageRouter(marketplaceService, pluginService, mcpService, translationService, settingsFileService, preferencesService, hookExplanationService, extensionInfoService, cacheDir, skillService, configBundleService, pluginScaffoldService, pluginProfileService, pluginDevLinkService, pluginUsageService, pluginLockfileService, context.extensionUri.fsPath);
   // Marketplace 檔案變更 → invalidate scan cache（plugin settings 變更不影響 marketplace 掃描）
   fileWatcherService.onMarketplaceFilesChanged(() => settingsFileService.invalidateScanCache());
   // plugin settings 也會影響 plugin-provided MCP 的 enabled 狀態
@@ -79,7 +95,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   const workspaceFolderDisposable = vscode.workspace.onDidChangeWorkspaceFolders(() => {
     mcpService.invalidateMetadataCache();
   });
-  const editorManager = new EditorPanelManager(context.extensionUri, router, mcpService, marketplaceService, fileWatcherService);
+  const editorManager = new EditorPanelManager(context.extensionUri, router, mcpService, marketplaceService, fileWatcherService, configBundleService, pluginService, pluginDevLinkService);
+
+  const autoUpdateScheduler = new AutoUpdateScheduler(
+    marketplaceService,
+    context.globalState,
+    () => void vscode.commands.executeCommand(COMMANDS.showPluginUpdates),
+  );
+  autoUpdateScheduler.start();
+  const configurationDisposable = vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration(`${EXTENSION_ID}.${AUTO_UPDATE_INTERVAL_SETTING}`)) {
+      autoUpdateScheduler.start();
+    }
+  });
+
+  // workspace 內的 marketplace.json 存檔 → lint 並發佈到 Problems panel
+  const marketplaceDiagnostics = new MarketplaceDiagnosticsService(manifestLinter);
 
   const sidebarProvider = new SidebarViewProvider(
     context.extensionUri,
@@ -120,7 +151,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       COMMANDS.openInfo,
       () => editorManager.openPanel('info'),
     ),
+    vscode.commands.registerCommand(
+      COMMANDS.showPluginUpdates,
+      async () => {
+        await preferencesService.write(PLUGIN_FILTER_UPDATES_PREF_KEY, true);
+        editorManager.showPluginUpdates();
+      },
+    ),
+    vscode.commands.registerCommand(
+      COMMANDS.applyPluginProfile,
+      (name?: string) => pluginProfileService.pickAndApply(name),
+    ),
     workspaceFolderDisposable,
+    configurationDisposable,
+    autoUpdateScheduler,
+    marketplaceDiagnostics,
+    pluginDevLinkService,
     { dispose: () => editorManager.dispose() },
     { dispose: () => sidebarProvider.dispose() },
     { dispose: () => mcpService.dispose() },
@@ -12,17 +12,33 @@ import type { PreferencesService } from '../services/PreferencesService';
 import type { HookExplanationService } from '../services/HookExplanationService';
 import type { ExtensionInfoService } from '../services/ExtensionInfoService';
 import type { SkillService } from '../services/SkillService';
+import type { ConfigBundleService } from '../services/ConfigBundleService';
+import type { PluginScaffoldService } from '../services/PluginScaffoldService';
+import type { PluginProfileService } from '../services/PluginProfileService';
+import type { PluginDevLinkService } from '../services/PluginDevLinkService';
+import type { PluginUsageService } from '../services/PluginUsageService';
+import type { PluginLockfileService } from '../services/PluginLockfileService';
 import type { RequestMessage, ResponseMessage } from './protocol';
 import { toErrorMessage } from '../../shared/errorUtils';
 import { expandTildePath } from '../utils/pathUtils';
 
 type PostFn = (msg: ResponseMessage) => void;
 
+/** 可由 `operation.cancel` 取消的長時間 request */
+const CANCELLABLE_REQUESTS: ReadonlySet<RequestMessage['type']> = new Set([
+  'marketplace.update',
+  'marketplace.reinstallAll',
+  'plugin.install',
+]);
+
 /**
  * 路由 Webview 訊息到對應 Service，回傳結果或錯誤。
  * 每個 request 都帶 requestId，用於 webview 端配對 Promise。
  */
 export class MessageRouter {
+  /** 進行中的可取消 request（requestId → AbortController） */
+  private readonly pendingOperations = new Map<string, AbortController>();
+
   constructor(
     private readonly marketplace: MarketplaceService,
     private readonly plugin: PluginService,
@@ -34,30 +50,52 @@ export class MessageRouter {
     private readonly extensionInfo: ExtensionInfoService,
     private readonly cacheDir: string,
     private readonly skill: SkillService,
+    private readonly configBundle: ConfigBundleService,
+    private readonly scaffold: PluginScaffoldService,
+    private readonly pluginProfile: PluginProfileService,
+    private readonly pluginDevLink: PluginDevLinkService,
+    private readonly pluginUsage: PluginUsageService,
+    private readonly pluginLockfile: PluginLockfileService,
     private readonly extensionPath: string = '',
   ) {}
 
   /** 處理來自 webview 的訊息 */
   async handle(message: RequestMessage, post: PostFn): Promise<void> {
     // sidebar 導航訊息不需 response
-    if (message.type === 'sidebar.openCategory') {
+    if (message.type === 'sidebar.openCategory' || message.type === 'sidebar.applyProfile') {
       return;
     }
 
     const { requestId } = message;
+    const controller = CANCELLABLE_REQUESTS.has(message.type) ? new AbortController() : undefined;
+    if (controller) {
+      this.pendingOperations.set(requestId, controller);
+    }
 
     try {
-      const data = await this.dispatch(message);
+      const data = await this.dispatch(message, controller?.signal);
       post({ type: 'response', requestId, data });
     } catch (error: unknown) {
       const msg = toErrorMessage(error);
       console.error(`[MessageRouter] ${message.type} failed:`, msg);
       post({ type: 'error', requestId, error: msg });
+    } finally {
+      if (controller) {
+        this.pendingOperations.delete(requestId);
+      }
     }
   }
 
-  /** 依 message type 分派到對應 service method */
-  private async dispatch(message: RequestMessage): Promise<unknown> {
+  /** 取消進行中的 request；已結束或不可取消時回傳 false */
+  private cancelOperation(targetRequestId: string): boolean {
+    const controller = this.pendingOperations.get(targetRequestId);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  /** 依 message type 分派到對應 service method；signal 僅傳給 CANCELLABLE_REQUESTS */
+  private async dispatch(message: RequestMessage, signal?: AbortSignal): Promise<unknown> {
     switch (message.type) {
       // Marketplace
       case 'marketplace.list':
@@ -69,18 +107,36 @@ export class MessageRouter {
       case 'marketplace.remove':
         return this.marketplace.remove(message.name);
       case 'marketplace.update':
-        return this.marketplace.update(message.name);
+        return this.marketplace.update(message.name, signal);
       case 'marketplace.toggleAutoUpdate':
         return this.marketplace.toggleAutoUpdate(message.name);
       case 'marketplace.reinstallAll':
-        return this.marketplace.reinstallAll();
+        return this.marketplace.reinstallAll(signal);
+      case 'marketplace.reinstall':
+        return this.marketplace.reinstall(message.name);
+      case 'marketplace.pin':
+        return this.marketplace.pin(message.name, message.ref);
+      case 'marketplace.unpin':
+        return this.marketplace.unpin(message.name);
+      case 'marketplace.readManifest':
+        return this.marketplace.readManifest(message.name);
+      case 'marketplace.saveManifest':
+        return this.marketplace.saveManifestPlugins(message.name, message.plugins);
+      case 'marketplace.exportConfig':
+        return this.configBundle.exportToFile();
+      case 'marketplace.previewImportConfig':
+        return this.configBundle.pickImportFile();
+      case 'marketplace.importConfig':
+        return this.configBundle.importBundle(message.bundle);
       // Plugin
       case 'plugin.listInstalled':
         return this.plugin.listInstalled();
       case 'plugin.listAvailable':
         return this.plugin.listAvailable();
       case 'plugin.install':
-        return this.plugin.install(message.plugin, message.scope);
+        return this.plugin.install(message.plugin, message.scope, signal);
+      case 'plugin.installFromSource':
+        return this.plugin.installFromSource(message.source, message.scope, message.subdir);
       case 'plugin.uninstall':
         return this.plugin.uninstall(message.plugin, message.scope);
       case 'plugin.enable':
@@ -89,14 +145,66 @@ export class MessageRouter {
         return this.plugin.disable(message.plugin, message.scope);
       case 'plugin.disableAll':
         return this.plugin.disableAll();
+      case 'plugin.bulk':
+        return this.plugin.bulk(message.action, message.plugins, message.scope);
       case 'plugin.update':
         return this.plugin.update(message.plugin, message.scope);
+      case 'plugin.updateAll':
+        return this.plugin.updateAll(message.plugins);
+      case 'plugin.retryUpdates':
+        return this.plugin.retryUpdates(message.targets);
+      case 'plugin.changelog':
+        return this.plugin.getChangelog(message.plugin);
+      case 'plugin.details':
+        return this.plugin.getDetails(message.plugin);
+      case 'plugin.securityReview':
+        return this.plugin.getSecurityReview(message.plugin);
+      case 'plugin.sourceSecurityReview':
+        return this.plugin.getSourceSecurityReview(message.source, message.subdir);
+      case 'plugin.acknowledgeSecurityReview':
+        return this.plugin.acknowledgeSecurityReview(message.plugin, message.reviewKey);
+      case 'plugin.history':
+        return this.plugin.getHistory(message.plugin);
+      case 'plugin.rollback':
+        return this.plugin.rollback(message.plugin, message.scope, message.installPath);
       case 'plugin.removeOrphaned':
         return this.plugin.removeOrphaned(message.plugin, message.scope, message.projectPath);
       case 'plugin.removeAllOrphaned':
         return this.plugin.removeAllOrphaned();
       case 'plugin.pruneUnusedCache':
         return this.plugin.pruneUnusedCache();
+      case 'plugin.storage.usage':
+        return this.plugin.getStorageUsage();
+      case 'plugin.storage.delete':
+        return this.plugin.deleteStorageEntries(message.paths);
+      case 'plugin.profile.list':
+        return this.pluginProfile.list();
+      case 'plugin.profile.save':
+        return this.pluginProfile.save(message.name);
+      case 'plugin.profile.delete':
+        return this.pluginProfile.remove(message.name);
+      case 'plugin.profile.preview':
+        return this.pluginProfile.preview(message.name);
+      case 'plugin.profile.apply':
+        return this.pluginProfile.apply(message.name);
+      case 'plugin.devLink.list':
+        return this.pluginDevLink.list();
+      case 'plugin.devLink.link':
+        return this.pluginDevLink.link(message.plugin, message.scope, message.path);
+      case 'plugin.devLink.unlink':
+        return this.pluginDevLink.unlink(message.plugin, message.scope);
+      case 'plugin.usage':
+        return this.pluginUsage.getUsage();
+      case 'plugin.lock.status':
+        return this.pluginLockfile.status();
+      case 'plugin.lock.write':
+        return this.pluginLockfile.write();
+      case 'plugin.lock.sync':
+        return this.pluginLockfile.sync();
+      case 'plugin.pickScaffoldDirectory':
+        return this.scaffold.pickParentDirectory();
+      case 'plugin.scaffold':
+        return this.scaffold.scaffold(message.options);
       case 'plugin.getContentDetail': {
         const resolvedDetail = expandTildePath(message.path);
         this.assertAllowedPath(resolvedDetail);
@@ -122,6 +230,9 @@ export class MessageRouter {
         this.mcp.restartPolling();
         return;
 
+      case 'operation.cancel':
+        return this.cancelOperation(message.targetRequestId);
+
       // Workspace
       case 'workspace.getFolders':
         return (vscode.workspace.workspaceFolders ?? []).map((f) => ({
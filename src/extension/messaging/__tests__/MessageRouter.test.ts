@@ -8,6 +8,12 @@ import type { SettingsFileService } from '../../services/SettingsFileService';
 import type { PreferencesService } from '../../services/PreferencesService';
 import type { HookExplanationService } from '../../services/HookExplanationService';
 import type { SkillService } from '../../services/SkillService';
+import type { ConfigBundleService } from '../../services/ConfigBundleService';
+import type { PluginScaffoldService } from '../../services/PluginScaffoldService';
+import type { PluginProfileService } from '../../services/PluginProfileService';
+import type { PluginDevLinkService } from '../../services/PluginDevLinkService';
+import type { PluginUsageService } from '../../services/PluginUsageService';
+import type { PluginLockfileService } from '../../services/PluginLockfileService';
 import type { RequestMessage, ResponseMessage } from '../protocol';
 
 function createMockServices() {
@@ -17,16 +23,31 @@ function createMockServices() {
       add: vi.fn().mockResolvedValue(undefined),
       remove: vi.fn().mockResolvedValue(undefined),
       update: vi.fn().mockResolvedValue(undefined),
+      reinstall: vi.fn().mockResolvedValue({ name: 'mp', restored: 0, failed: [] }),
+      pin: vi.fn().mockResolvedValue(undefined),
+      unpin: vi.fn().mockResolvedValue(undefined),
+      readManifest: vi.fn().mockResolvedValue({ name: 'mp', plugins: [] }),
+      saveManifestPlugins: vi.fn().mockResolvedValue(undefined),
     },
     plugin: {
       listInstalled: vi.fn().mockResolvedValue([]),
       listAvailable: vi.fn().mockResolvedValue({ installed: [], available: [] }),
       install: vi.fn().mockResolvedValue(undefined),
+      installFromSource: vi.fn().mockResolvedValue('tool@direct'),
+      getSourceSecurityReview: vi.fn().mockResolvedValue({ pluginId: 'tool@direct' }),
       uninstall: vi.fn().mockResolvedValue(undefined),
       enable: vi.fn().mockResolvedValue(undefined),
       disable: vi.fn().mockResolvedValue(undefined),
       disableAll: vi.fn().mockResolvedValue(undefined),
+      bulk: vi.fn().mockResolvedValue({ action: 'enable', scope: 'user', results: [] }),
+      updateAll: vi.fn().mockResolvedValue({ results: [] }),
+      retryUpdates: vi.fn().mockResolvedValue({ results: [] }),
       update: vi.fn().mockResolvedValue(undefined),
+      getHistory: vi.fn().mockResolvedValue([]),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      acknowledgeSecurityReview: vi.fn().mockResolvedValue(undefined),
+      getStorageUsage: vi.fn().mockResolvedValue({ marketplaces: [], caches: [], totalBytes: 0 }),
+      deleteStorageEntries: vi.fn().mockResolvedValue({ removedDirs: 1, freedBytes: 2048 }),
     },
     mcp: {
       list: vi.fn().mockResolvedValue([]),
@@ -71,6 +92,35 @@ function createMockServices() {
       fetchRegistry: vi.fn().mockResolvedValue([]),
       invalidateCache: vi.fn(),
     },
+    configBundle: {
+      exportToFile: vi.fn().mockResolvedValue({ path: '/tmp/bundle.json' }),
+      pickImportFile: vi.fn().mockResolvedValue(null),
+      importBundle: vi.fn().mockResolvedValue({ marketplacesAdded: 0, pluginsEnabled: 0, failed: [] }),
+    },
+    scaffold: {
+      pickParentDirectory: vi.fn().mockResolvedValue('/home/user/dev'),
+      scaffold: vi.fn().mockResolvedValue({ marketplaceDir: '/home/user/dev/mp', pluginDir: '/home/user/dev/mp/plugins/p', files: [] }),
+    },
+    pluginProfile: {
+      list: vi.fn().mockReturnValue({ profiles: [] }),
+      save: vi.fn().mockResolvedValue({ name: 'frontend', enabledPlugins: { user: [] }, updatedAt: '' }),
+      remove: vi.fn().mockResolvedValue(undefined),
+      preview: vi.fn().mockResolvedValue({ name: 'frontend', toEnable: [], toDisable: [] }),
+      apply: vi.fn().mockResolvedValue({ name: 'frontend', toEnable: [], toDisable: [] }),
+    },
+    pluginDevLink: {
+      list: vi.fn().mockResolvedValue([]),
+      link: vi.fn().mockResolvedValue(null),
+      unlink: vi.fn().mockResolvedValue(undefined),
+    },
+    pluginUsage: {
+      getUsage: vi.fn().mockResolvedValue({ 'tool@mp': { lastUsed: '2026-01-01T00:00:00.000Z', recentUses: 3 } }),
+    },
+    pluginLockfile: {
+      status: vi.fn().mockResolvedValue({ path: '/ws/.claude/plugins.lock.json', exists: true, drift: [] }),
+      write: vi.fn().mockResolvedValue({ version: 1, plugins: {} }),
+      sync: vi.fn().mockResolvedValue({ results: [{ pluginId: 'tool@mp', status: 'synced' }] }),
+    },
   };
 }
 
@@ -93,6 +143,12 @@ describe('MessageRouter', () => {
       services.extensionInfo as never,
       '/tmp/test-cache',
       services.skill as unknown as SkillService,
+      services.configBundle as unknown as ConfigBundleService,
+      services.scaffold as unknown as PluginScaffoldService,
+      services.pluginProfile as unknown as PluginProfileService,
+      services.pluginDevLink as unknown as PluginDevLinkService,
+      services.pluginUsage as unknown as PluginUsageService,
+      services.pluginLockfile as unknown as PluginLockfileService,
       '/tmp/test-extensions/claude-plugins',
     );
     posted = [];
@@ -121,6 +177,91 @@ describe('MessageRouter', () => {
       );
       expect(services.marketplace.add).toHaveBeenCalledWith('owner/repo');
     });
+
+    it('marketplace.reinstall → 帶 name 呼叫 reinstall', async () => {
+      await router.handle(
+        { type: 'marketplace.reinstall', requestId: 'r-reinstall', name: 'mp' } as RequestMessage,
+        post,
+      );
+      expect(services.marketplace.reinstall).toHaveBeenCalledWith('mp');
+      expect(posted[0]).toEqual({
+        type: 'response',
+        requestId: 'r-reinstall',
+        data: { name: 'mp', restored: 0, failed: [] },
+      });
+    });
+
+    it('marketplace.pin / unpin → 帶 name 與 ref', async () => {
+      await router.handle(
+        { type: 'marketplace.pin', requestId: 'r-pin', name: 'mp', ref: 'v1.2.0' } as RequestMessage,
+        post,
+      );
+      await router.handle(
+        { type: 'marketplace.unpin', requestId: 'r-unpin', name: 'mp' } as RequestMessage,
+        post,
+      );
+      expect(services.marketplace.pin).toHaveBeenCalledWith('mp', 'v1.2.0');
+      expect(services.marketplace.unpin).toHaveBeenCalledWith('mp');
+    });
+
+    it('marketplace.readManifest / saveManifest → 呼叫 marketplace.readManifest / saveManifestPlugins', async () => {
+      const plugins = [{ name: 'alpha', source: './plugins/alpha' }];
+      await router.handle(
+        { type: 'marketplace.readManifest', requestId: 'r-read', name: 'mp' } as RequestMessage,
+        post,
+      );
+      await router.handle(
+        { type: 'marketplace.saveManifest', requestId: 'r-save', name: 'mp', plugins } as RequestMessage,
+        post,
+      );
+      expect(services.marketplace.readManifest).toHaveBeenCalledWith('mp');
+      expect(posted[0]).toEqual({ type: 'response', requestId: 'r-read', data: { name: 'mp', plugins: [] } });
+      expect(services.marketplace.saveManifestPlugins).toHaveBeenCalledWith('mp', plugins);
+    });
+
+    it('marketplace.exportConfig → 呼叫 configBundle.exportToFile', async () => {
+      await router.handle(
+        { type: 'marketplace.exportConfig', requestId: 'r-export' } as RequestMessage,
+        post,
+      );
+      expect(services.configBundle.exportToFile).toHaveBeenCalled();
+      expect(posted[0]).toEqual({ type: 'response', requestId: 'r-export', data: { path: '/tmp/bundle.json' } });
+    });
+
+    it('plugin.scaffold → 帶 options 呼叫 scaffold.scaffold', async () => {
+      const options = {
+        parentDir: '/home/user/dev',
+        marketplaceName: 'mp',
+        pluginName: 'p',
+        description: 'Demo',
+        includeHooks: true,
+        includeMcp: false,
+      };
+      await router.handle(
+        { type: 'plugin.scaffold', requestId: 'r-scaffold', options } as RequestMessage,
+        post,
+      );
+      expect(services.scaffold.scaffold).toHaveBeenCalledWith(options);
+      expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r-scaffold' });
+    });
+
+    it('plugin.pickScaffoldDirectory → 回傳選擇的目錄', async () => {
+      await router.handle(
+        { type: 'plugin.pickScaffoldDirectory', requestId: 'r-pick' } as RequestMessage,
+        post,
+      );
+      expect(posted[0]).toEqual({ type: 'response', requestId: 'r-pick', data: '/home/user/dev' });
+    });
+
+    it('marketplace.importConfig → 帶 bundle 呼叫 importBundle', async () => {
+      const bundle = { version: 1, exportedAt: '', marketplaces: [], enabledPlugins: { user: {}, project: {}, local: {} } };
+      await router.handle(
+        { type: 'marketplace.importConfig', requestId: 'r-import', bundle } as RequestMessage,
+        post,
+      );
+      expect(services.configBundle.importBundle).toHaveBeenCalledWith(bundle);
+      expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r-import' });
+    });
   });
 
   describe('plugin 路由', () => {
@@ -129,10 +270,79 @@ describe('MessageRouter', () => {
         { type: 'plugin.install', requestId: 'r3', plugin: 'my-plugin', scope: 'user' } as RequestMessage,
         post,
       );
-      expect(services.plugin.install).toHaveBeenCalledWith('my-plugin', 'user');
+      expect(services.plugin.install).toHaveBeenCalledWith('my-plugin', 'user', expect.any(AbortSignal));
       expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r3' });
     });
 
+    it('plugin.installFromSource → 帶 source / scope / subdir，回傳 pluginId', async () => {
+      await router.handle(
+        {
+          type: 'plugin.installFromSource', requestId: 'r-src', source: 'owner/repo', subdir: 'plugins/tool', scope: 'project',
+        } as RequestMessage,
+        post,
+      );
+      expect(services.plugin.installFromSource).toHaveBeenCalledWith('owner/repo', 'project', 'plugins/tool');
+      expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r-src', data: 'tool@direct' });
+    });
+
+    it('plugin.sourceSecurityReview → 帶 source / subdir，回傳審查結果', async () => {
+      await router.handle(
+        { type: 'plugin.sourceSecurityReview', requestId: 'r-rev', source: './tool', subdir: 'plugins/tool' } as RequestMessage,
+        post,
+      );
+      expect(services.plugin.getSourceSecurityReview).toHaveBeenCalledWith('./tool', 'plugins/tool');
+      expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r-rev', data: { pluginId: 'tool@direct' } });
+    });
+
+    it('operation.cancel → abort 進行中 request 的 signal，結束後再取消回傳 false', async () => {
+      services.plugin.install.mockImplementation((_plugin: string, _scope: string, signal: AbortSignal) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('Operation cancelled')));
+        }));
+
+      const pending = router.handle(
+        { type: 'plugin.install', requestId: 'r-install', plugin: 'my-plugin', scope: 'user' } as RequestMessage,
+        post,
+      );
+      await router.handle(
+        { type: 'operation.cancel', requestId: 'r-cancel', targetRequestId: 'r-install' } as RequestMessage,
+        post,
+      );
+      await pending;
+      await router.handle(
+        { type: 'operation.cancel', requestId: 'r-cancel-2', targetRequestId: 'r-install' } as RequestMessage,
+        post,
+      );
+
+      expect(posted).toEqual([
+        { type: 'response', requestId: 'r-cancel', data: true },
+        { type: 'error', requestId: 'r-install', error: 'Operation cancelled' },
+        { type: 'response', requestId: 'r-cancel-2', data: false },
+      ]);
+    });
+
+    it('plugin.rollback → 帶 scope 與 installPath 呼叫 service', async () => {
+      await router.handle(
+        {
+          type: 'plugin.rollback', requestId: 'r-rollback', plugin: 'my-plugin@mp', scope: 'user', installPath: '/cache/old',
+        } as RequestMessage,
+        post,
+      );
+      expect(services.plugin.rollback).toHaveBeenCalledWith('my-plugin@mp', 'user', '/cache/old');
+      expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r-rollback' });
+    });
+
+    it('plugin.acknowledgeSecurityReview → 帶 reviewKey 呼叫 service', async () => {
+      await router.handle(
+        {
+          type: 'plugin.acknowledgeSecurityReview', requestId: 'r-ack', plugin: 'my-plugin@mp', reviewKey: 'abc123',
+        } as RequestMessage,
+        post,
+      );
+      expect(services.plugin.acknowledgeSecurityReview).toHaveBeenCalledWith('my-plugin@mp', 'abc123');
+      expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r-ack' });
+    });
+
     it('plugin.disableAll → 呼叫 service', async () => {
       await router.handle(
         { type: 'plugin.disableAll', requestId: 'r4' } as RequestMessage,
@@ -140,6 +350,85 @@ describe('MessageRouter', () => {
       );
       expect(services.plugin.disableAll).toHaveBeenCalled();
     });
+
+    it('plugin.bulk → 帶 action / plugins / scope 呼叫 service', async () => {
+      await router.handle(
+        { type: 'plugin.bulk', requestId: 'r-bulk', action: 'enable', plugins: ['a@mp', 'b@mp'], scope: 'user' } as RequestMessage,
+        post,
+      );
+      expect(services.plugin.bulk).toHaveBeenCalledWith('enable', ['a@mp', 'b@mp'], 'user');
+      expect(posted[0]).toMatchObject({ type: 'response', requestId: 'r-bulk' });
+    });
+
+    it('plugin.updateAll / retryUpdates → 帶 plugins / targets 呼叫 service', async () => {
+      await router.handle({ type: 'plugin.updateAll', requestId: 'r-ua', plugins: ['a@mp'] } as RequestMessage, post);
+      await router.handle(
+        { type: 'plugin.retryUpdates', requestId: 'r-ru', targets: [{ pluginId: 'a@mp', scope: 'project' }] } as RequestMessage,
+        post,
+      );
+      expect(services.plugin.updateAll).toHaveBeenCalledWith(['a@mp']);
+      expect(services.plugin.retryUpdates).toHaveBeenCalledWith([{ pluginId: 'a@mp', scope: 'project' }]);
+    });
+
+    it('plugin.profile.preview / apply → 帶 profile name 呼叫 PluginProfileService', async () => {
+      await router.handle({ type: 'plugin.profile.preview', requestId: 'r-pp', name: 'frontend' } as RequestMessage, post);
+      await router.handle({ type: 'plugin.profile.apply', requestId: 'r-pa', name: 'frontend' } as RequestMessage, post);
+      expect(services.pluginProfile.preview).toHaveBeenCalledWith('frontend');
+      expect(services.pluginProfile.apply).toHaveBeenCalledWith('frontend');
+      expect(posted.map((m) => m.type)).toEqual(['response', 'response']);
+    });
+
+    it('plugin.profile.delete → 呼叫 remove', async () => {
+      await router.handle({ type: 'plugin.profile.delete', requestId: 'r-pd', name: 'infra' } as RequestMessage, post);
+      expect(services.pluginProfile.remove).toHaveBeenCalledWith('infra');
+    });
+
+    it('plugin.devLink.link / unlink → 帶 plugin、scope、path 呼叫 PluginDevLinkService', async () => {
+      await router.handle(
+        { type: 'plugin.devLink.link', requestId: 'r-dl', plugin: 'tool@mp', scope: 'user', path: '/work/tool' } as RequestMessage,
+        post,
+      );
+      await router.handle({ type: 'plugin.devLink.unlink', requestId: 'r-du', plugin: 'tool@mp', scope: 'user' } as RequestMessage, post);
+      await router.handle({ type: 'plugin.devLink.list', requestId: 'r-dls' } as RequestMessage, post);
+      expect(services.pluginDevLink.link).toHaveBeenCalledWith('tool@mp', 'user', '/work/tool');
+      expect(services.pluginDevLink.unlink).toHaveBeenCalledWith('tool@mp', 'user');
+      expect(services.pluginDevLink.list).toHaveBeenCalled();
+      expect(posted.map((m) => m.type)).toEqual(['response', 'response', 'response']);
+    });
+
+    it('plugin.usage → 回傳 PluginUsageService 的使用統計', async () => {
+      await router.handle({ type: 'plugin.usage', requestId: 'r-us' } as RequestMessage, post);
+      expect(services.pluginUsage.getUsage).toHaveBeenCalled();
+      expect(posted[0]).toMatchObject({
+        type: 'response',
+        requestId: 'r-us',
+        data: { 'tool@mp': { lastUsed: '2026-01-01T00:00:00.000Z', recentUses: 3 } },
+      });
+    });
+
+    it('plugin.lock.status / write / sync → 呼叫 PluginLockfileService', async () => {
+      await router.handle({ type: 'plugin.lock.status', requestId: 'r-ls' } as RequestMessage, post);
+      await router.handle({ type: 'plugin.lock.write', requestId: 'r-lw' } as RequestMessage, post);
+      await router.handle({ type: 'plugin.lock.sync', requestId: 'r-ly' } as RequestMessage, post);
+      expect(services.pluginLockfile.status).toHaveBeenCalled();
+      expect(services.pluginLockfile.write).toHaveBeenCalled();
+      expect(posted[2]).toMatchObject({
+        type: 'response',
+        requestId: 'r-ly',
+        data: { results: [{ pluginId: 'tool@mp', status: 'synced' }] },
+      });
+    });
+
+    it('plugin.storage.usage / delete → 呼叫 PluginService 的 storage 方法', async () => {
+      await router.handle({ type: 'plugin.storage.usage', requestId: 'r-su' } as RequestMessage, post);
+      await router.handle(
+        { type: 'plugin.storage.delete', requestId: 'r-sd', paths: ['/cache/mp/tool/0.9.0'] } as RequestMessage,
+        post,
+      );
+      expect(services.plugin.getStorageUsage).toHaveBeenCalled();
+      expect(services.plugin.deleteStorageEntries).toHaveBeenCalledWith(['/cache/mp/tool/0.9.0']);
+      expect(posted[1]).toMatchObject({ type: 'response', requestId: 'r-sd', data: { removedDirs: 1, freedBytes: 2048 } });
+    });
   });
 
   describe('mcp 路由', () => {
@@ -335,6 +624,12 @@ describe('MessageRouter', () => {
         services.extensionInfo as never,
         allowedDir,
         services.skill as unknown as SkillService,
+        services.configBundle as unknown as ConfigBundleService,
+        services.scaffold as unknown as PluginScaffoldService,
+        services.pluginProfile as unknown as PluginProfileService,
+        services.pluginDevLink as unknown as PluginDevLinkService,
+        services.pluginUsage as unknown as PluginUsageService,
+        services.pluginLockfile as unknown as PluginLockfileService,
         '/tmp/test-extensions/claude-plugins',
       );
       fs.rmSync(allowedDir, { recursive: true, force: true });
@@ -373,6 +668,12 @@ describe('MessageRouter', () => {
         services.extensionInfo as never,
         allowedDir,
         services.skill as unknown as SkillService,
+        services.configBundle as unknown as ConfigBundleService,
+        services.scaffold as unknown as PluginScaffoldService,
+        services.pluginProfile as unknown as PluginProfileService,
+        services.pluginDevLink as unknown as PluginDevLinkService,
+        services.pluginUsage as unknown as PluginUsageService,
+        services.pluginLockfile as unknown as PluginLockfileService,
         '/tmp/test-extensions/claude-plugins',
       );
       fs.rmSync(allowedDir, { recursive: true, force: true });
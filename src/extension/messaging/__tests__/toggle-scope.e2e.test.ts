@@ -111,8 +111,8 @@ describe('Plugin scope toggle（E2E：MessageRouter → Service → Filesystem
 
     settingsSvc = new SettingsFileService();
     const cli = createMockCli();
-    const pluginSvc = new PluginService(cli, settingsSvc);
     const stubs = createStubServices();
+    const pluginSvc = new PluginService(cli, settingsSvc, stubs.marketplace);
     router = new MessageRouter(stubs.marketplace, pluginSvc, stubs.mcp, stubs.translation, settingsSvc);
   });
 
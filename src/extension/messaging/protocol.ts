@@ -1,9 +1,16 @@
 import type {
+  ConfigBundle,
+  ConfigImportProgress,
+  MarketplacePluginEntry,
   MarketplaceReinstallProgress,
   McpAddParams,
   McpScope,
   McpServer,
+  PluginBulkAction,
+  PluginScaffoldOptions,
   PluginScope,
+  PluginUpdateAllProgress,
+  PluginUpdateTarget,
   RegistrySort,
   SkillScope,
 } from '../../shared/types';
@@ -20,18 +27,53 @@ export type RequestMessage =
   | { type: 'marketplace.update'; requestId: string; name?: string }
   | { type: 'marketplace.toggleAutoUpdate'; requestId: string; name: string }
   | { type: 'marketplace.reinstallAll'; requestId: string }
+  | { type: 'marketplace.reinstall'; requestId: string; name: string }
+  | { type: 'marketplace.pin'; requestId: string; name: string; ref: string }
+  | { type: 'marketplace.unpin'; requestId: string; name: string }
+  | { type: 'marketplace.readManifest'; requestId: string; name: string }
+  | { type: 'marketplace.saveManifest'; requestId: string; name: string; plugins: MarketplacePluginEntry[] }
+  | { type: 'marketplace.exportConfig'; requestId: string }
+  | { type: 'marketplace.previewImportConfig'; requestId: string }
+  | { type: 'marketplace.importConfig'; requestId: string; bundle: ConfigBundle }
   | { type: 'plugin.listInstalled'; requestId: string }
   | { type: 'plugin.listAvailable'; requestId: string }
   | { type: 'plugin.install'; requestId: string; plugin: string; scope: PluginScope }
+  | { type: 'plugin.installFromSource'; requestId: string; source: string; subdir?: string; scope: PluginScope }
   | { type: 'plugin.uninstall'; requestId: string; plugin: string; scope: PluginScope }
   | { type: 'plugin.enable'; requestId: string; plugin: string; scope?: PluginScope }
   | { type: 'plugin.disable'; requestId: string; plugin: string; scope?: PluginScope }
   | { type: 'plugin.disableAll'; requestId: string }
+  | { type: 'plugin.bulk'; requestId: string; action: PluginBulkAction; plugins: string[]; scope: PluginScope }
   | { type: 'plugin.update'; requestId: string; plugin: string; scope?: PluginScope }
+  | { type: 'plugin.updateAll'; requestId: string; plugins?: string[] }
+  | { type: 'plugin.retryUpdates'; requestId: string; targets: PluginUpdateTarget[] }
+  | { type: 'plugin.history'; requestId: string; plugin: string }
+  | { type: 'plugin.changelog'; requestId: string; plugin: string }
+  | { type: 'plugin.details'; requestId: string; plugin: string }
+  | { type: 'plugin.securityReview'; requestId: string; plugin: string }
+  | { type: 'plugin.sourceSecurityReview'; requestId: string; source: string; subdir?: string }
+  | { type: 'plugin.acknowledgeSecurityReview'; requestId: string; plugin: string; reviewKey?: string }
+  | { type: 'plugin.rollback'; requestId: string; plugin: string; scope: PluginScope; installPath: string }
   | { type: 'plugin.removeOrphaned'; requestId: string; plugin: string; scope: PluginScope; projectPath?: string }
   | { type: 'plugin.removeAllOrphaned'; requestId: string }
   | { type: 'plugin.pruneUnusedCache'; requestId: string }
+  | { type: 'plugin.storage.usage'; requestId: string }
+  | { type: 'plugin.storage.delete'; requestId: string; paths: string[] }
   | { type: 'plugin.getContentDetail'; requestId: string; path: string }
+  | { type: 'plugin.profile.list'; requestId: string }
+  | { type: 'plugin.profile.save'; requestId: string; name: string }
+  | { type: 'plugin.profile.delete'; requestId: string; name: string }
+  | { type: 'plugin.profile.preview'; requestId: string; name: string }
+  | { type: 'plugin.profile.apply'; requestId: string; name: string }
+  | { type: 'plugin.devLink.list'; requestId: string }
+  | { type: 'plugin.devLink.link'; requestId: string; plugin: string; scope: PluginScope; path?: string }
+  | { type: 'plugin.devLink.unlink'; requestId: string; plugin: string; scope: PluginScope }
+  | { type: 'plugin.usage'; requestId: string }
+  | { type: 'plugin.lock.status'; requestId: string }
+  | { type: 'plugin.lock.write'; requestId: string }
+  | { type: 'plugin.lock.sync'; requestId: string }
+  | { type: 'plugin.pickScaffoldDirectory'; requestId: string }
+  | { type: 'plugin.scaffold'; requestId: string; options: PluginScaffoldOptions }
   | { type: 'mcp.list'; requestId: string }
   | { type: 'mcp.add'; requestId: string; params: McpAddParams }
   | { type: 'mcp.remove'; requestId: string; name: string; scope?: McpScope }
@@ -43,6 +85,7 @@ export type RequestMessage =
   | { type: 'workspace.getFolders'; requestId: string }
   | { type: 'openExternal'; requestId: string; url: string }
   | { type: 'sidebar.openCategory'; category: string }
+  | { type: 'sidebar.applyProfile' }
   | { type: 'preferences.read'; requestId: string }
   | { type: 'preferences.write'; requestId: string; key: string; value: unknown }
   | { type: 'settings.get'; requestId: string; scope: PluginScope }
@@ -57,6 +100,7 @@ export type RequestMessage =
   | { type: 'extension.getInfo'; requestId: string }
   | { type: 'extension.revealPath'; requestId: string; path: string }
   | { type: 'extension.clearCache'; requestId: string }
+  | { type: 'operation.cancel'; requestId: string; targetRequestId: string }
   | { type: 'skill.list'; requestId: string; scope?: SkillScope }
   | { type: 'skill.add'; requestId: string; source: string; scope: SkillScope; agents?: string[]; skillName?: string }
   | { type: 'skill.remove'; requestId: string; name: string; scope: SkillScope }
@@ -86,7 +130,11 @@ export type PushMessage =
   | { type: 'mcp.statusUpdate'; servers: McpServer[] }
   | { type: 'mcp.pollUnavailable' }
   | { type: 'plugin.refresh' }
+  | { type: 'plugin.showUpdates' }
   | { type: 'marketplace.refresh' }
   | { type: 'marketplace.reinstallProgress'; progress: MarketplaceReinstallProgress }
+  | { type: 'plugin.updateAllProgress'; progress: PluginUpdateAllProgress }
+  | { type: 'plugin.devLinkChanged' }
+  | { type: 'marketplace.importProgress'; progress: ConfigImportProgress }
   | { type: 'settings.refresh' }
   | { type: 'skill.refresh' };
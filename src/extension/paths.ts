@@ -7,6 +7,9 @@ export const CLAUDE_DIR = join(homedir(), '.claude');
 /** ~/.claude.json（user + local scope MCP 設定） */
 export const CLAUDE_JSON_PATH = join(homedir(), '.claude.json');
 
+/** ~/.claude/projects（Claude Code session transcripts） */
+export const CLAUDE_PROJECTS_DIR = join(CLAUDE_DIR, 'projects');
+
 /** ~/.claude/plugins */
 export const PLUGINS_DIR = join(CLAUDE_DIR, 'plugins');
 
@@ -22,5 +25,23 @@ export const MARKETPLACES_DIR = join(PLUGINS_DIR, 'marketplaces');
 /** ~/.claude/plugins/known_marketplaces.json */
 export const KNOWN_MARKETPLACES_PATH = join(PLUGINS_DIR, 'known_marketplaces.json');
 
+/** ~/.claude/plugins/marketplace_pins.json（本擴充維護的 marketplace git ref 釘選） */
+export const MARKETPLACE_PINS_PATH = join(PLUGINS_DIR, 'marketplace_pins.json');
+
+/** ~/.claude/plugins/plugin_history.json（本擴充維護的 plugin 歷史版本，供 rollback） */
+export const PLUGIN_HISTORY_PATH = join(PLUGINS_DIR, 'plugin_history.json');
+
+/** ~/.claude/plugins/plugin_security_reviews.json（本擴充維護的 plugin 安全審查快取與確認紀錄） */
+export const PLUGIN_SECURITY_REVIEWS_PATH = join(PLUGINS_DIR, 'plugin_security_reviews.json');
+
+/** ~/.claude/plugins/plugin_sources.json（本擴充維護的 source 安裝來源，plugin card 顯示用） */
+export const PLUGIN_SOURCES_PATH = join(PLUGINS_DIR, 'plugin_sources.json');
+
+/** ~/.claude/plugins/plugin_usage.json（本擴充維護的 transcript 掃描進度與 plugin 使用統計） */
+export const PLUGIN_USAGE_PATH = join(PLUGINS_DIR, 'plugin_usage.json');
+
+/** ~/.claude/plugins/plugin_dev_links.json（本擴充維護的 dev link，unlink 時還原原本的 installPath） */
+export const PLUGIN_DEV_LINKS_PATH = join(PLUGINS_DIR, 'plugin_dev_links.json');
+
 /** ~/.claude/settings.json */
 export const USER_SETTINGS_PATH = join(CLAUDE_DIR, 'settings.json');
@@ -6,6 +6,9 @@ import type { RequestMessage } from '../messaging/protocol';
 import type { McpService } from '../services/McpService';
 import type { MarketplaceService } from '../services/MarketplaceService';
 import type { FileWatcherService } from '../services/FileWatcherService';
+import type { ConfigBundleService } from '../services/ConfigBundleService';
+import type { PluginService } from '../services/PluginService';
+import type { PluginDevLinkService } from '../services/PluginDevLinkService';
 import { getWebviewHtml } from './webviewHtml';
 
 /**
@@ -23,6 +26,9 @@ export class EditorPanelManager {
     private readonly mcpService: McpService,
     private readonly marketplaceService: MarketplaceService,
     private readonly fileWatcherService: FileWatcherService,
+    private readonly configBundleService: ConfigBundleService,
+    private readonly pluginService: PluginService,
+    private readonly pluginDevLinkService: PluginDevLinkService,
   ) {
     this.pushDisposables.push(
       this.mcpService.onStatusChange.event((servers) => {
@@ -50,6 +56,22 @@ export class EditorPanelManager {
           this.panel.webview.postMessage({ type: 'marketplace.reinstallProgress', progress });
         }
       }),
+      this.configBundleService.onImportProgress((progress) => {
+        if (this.panel?.visible && this.currentCategory === 'plugin') {
+          this.panel.webview.postMessage({ type: 'marketplace.importProgress', progress });
+        }
+      }),
+      this.pluginService.onUpdateAllProgress((progress) => {
+        if (this.panel?.visible && this.currentCategory === 'plugin') {
+          this.panel.webview.postMessage({ type: 'plugin.updateAllProgress', progress });
+        }
+      }),
+      // dev link 工作目錄變更 → webview 重新掃描 contents 並讀取驗證結果
+      this.pluginDevLinkService.onDidChange(() => {
+        if (this.panel?.visible && this.currentCategory === 'plugin') {
+          this.panel.webview.postMessage({ type: 'plugin.devLinkChanged' });
+        }
+      }),
       this.fileWatcherService.onSkillFilesChanged(() => {
         if (this.panel?.visible && this.currentCategory === 'skill') {
           this.panel.webview.postMessage({ type: 'skill.refresh' });
@@ -124,6 +146,16 @@ export class EditorPanelManager {
     this.currentCategory = category;
   }
 
+  /**
+   * 打開 Plugin 頁並切到「有更新」篩選。
+   * 新建的 panel 由偏好設定初始化篩選；已存在的 panel 透過 push message 切換。
+   */
+  showPluginUpdates(): void {
+    const existingPanel = this.panel;
+    this.openPanel('plugin');
+    existingPanel?.webview.postMessage({ type: 'plugin.showUpdates' });
+  }
+
   /** 釋放資源 */
   dispose(): void {
     for (const d of this.pushDisposables) d.dispose();
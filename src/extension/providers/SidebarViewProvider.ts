@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { PANEL_TITLES, SIDEBAR_VIEW_ID } from '../constants';
+import { COMMANDS, PANEL_TITLES, SIDEBAR_VIEW_ID } from '../constants';
 import type { PanelCategory } from '../constants';
 import type { MessageRouter } from '../messaging/MessageRouter';
 import type { RequestMessage } from '../messaging/protocol';
@@ -70,6 +70,8 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
           && VALID_CATEGORIES.has((message as { category: string }).category)
         ) {
           this.editorManager.openPanel((message as { category: string }).category as PanelCategory);
+        } else if (message.type === 'sidebar.applyProfile') {
+          void vscode.commands.executeCommand(COMMANDS.applyPluginProfile);
         } else {
           this.router.handle(message, (response) => {
             webviewView.webview.postMessage(response);
@@ -39,6 +39,21 @@ function createManager() {
     onReinstallProgress: reinstallProgressEmitter.event,
     emitReinstallProgress: (value: unknown) => reinstallProgressEmitter.fire(value),
   };
+  const importProgressEmitter = new EventEmitter<unknown>();
+  const configBundleService = {
+    onImportProgress: importProgressEmitter.event,
+    emitImportProgress: (value: unknown) => importProgressEmitter.fire(value),
+  };
+  const updateAllProgressEmitter = new EventEmitter<unknown>();
+  const pluginService = {
+    onUpdateAllProgress: updateAllProgressEmitter.event,
+    emitUpdateAllProgress: (value: unknown) => updateAllProgressEmitter.fire(value),
+  };
+  const devLinkEmitter = new EventEmitter<void>();
+  const pluginDevLinkService = {
+    onDidChange: devLinkEmitter.event,
+    emitChange: () => devLinkEmitter.fire(),
+  };
   const fileWatcherService = {
     onPluginFilesChanged: vi.fn(() => ({ dispose: vi.fn() })),
     onMarketplaceFilesChanged: vi.fn(() => ({ dispose: vi.fn() })),
@@ -55,9 +70,14 @@ function createManager() {
     mcpService as any,
     marketplaceService as any,
     fileWatcherService as any,
+    configBundleService as any,
+    pluginService as any,
+    pluginDevLinkService as any,
   );
 
-  return { manager, mcpService, marketplaceService, fileWatcherService, router };
+  return {
+    manager, mcpService, marketplaceService, fileWatcherService, configBundleService, pluginService, pluginDevLinkService, router,
+  };
 }
 
 describe('EditorPanelManager', () => {
@@ -207,6 +227,74 @@ describe('EditorPanelManager', () => {
     });
   });
 
+  it('config import progress + category=plugin → push marketplace.importProgress', () => {
+    const panel = createMockPanel();
+    vi.mocked(window.createWebviewPanel).mockReturnValue(panel as any);
+    const { manager, configBundleService } = createManager();
+
+    manager.openPanel('plugin');
+
+    Object.defineProperty(panel, 'visible', { value: true });
+    configBundleService.emitImportProgress({ phase: 'enablingPlugins', current: 1, total: 3, detail: 'foo@mp (user)' });
+
+    expect(panel.webview.postMessage).toHaveBeenCalledWith({
+      type: 'marketplace.importProgress',
+      progress: { phase: 'enablingPlugins', current: 1, total: 3, detail: 'foo@mp (user)' },
+    });
+  });
+
+  it('update all progress + category=plugin → push plugin.updateAllProgress', () => {
+    const panel = createMockPanel();
+    vi.mocked(window.createWebviewPanel).mockReturnValue(panel as any);
+    const { manager, pluginService } = createManager();
+
+    manager.openPanel('plugin');
+
+    Object.defineProperty(panel, 'visible', { value: true });
+    pluginService.emitUpdateAllProgress({ pluginId: 'foo@mp', scope: 'user', current: 1, total: 2 });
+
+    expect(panel.webview.postMessage).toHaveBeenCalledWith({
+      type: 'plugin.updateAllProgress',
+      progress: { pluginId: 'foo@mp', scope: 'user', current: 1, total: 2 },
+    });
+  });
+
+  it('dev link 目錄變更 + category=plugin → push plugin.devLinkChanged', () => {
+    const panel = createMockPanel();
+    vi.mocked(window.createWebviewPanel).mockReturnValue(panel as any);
+    const { manager, pluginDevLinkService } = createManager();
+
+    manager.openPanel('plugin');
+
+    Object.defineProperty(panel, 'visible', { value: true });
+    pluginDevLinkService.emitChange();
+
+    expect(panel.webview.postMessage).toHaveBeenCalledWith({ type: 'plugin.devLinkChanged' });
+  });
+
+  it('showPluginUpdates：panel 已存在 → 切到 plugin 並 push plugin.showUpdates', () => {
+    const panel = createMockPanel();
+    vi.mocked(window.createWebviewPanel).mockReturnValue(panel as any);
+    const { manager } = createManager();
+
+    manager.openPanel('mcp');
+    manager.showPluginUpdates();
+
+    expect(panel.webview.postMessage).toHaveBeenCalledWith({ type: 'navigate', category: 'plugin' });
+    expect(panel.webview.postMessage).toHaveBeenCalledWith({ type: 'plugin.showUpdates' });
+  });
+
+  it('showPluginUpdates：無 panel → 建立 plugin panel，不 push（由偏好設定初始化篩選）', () => {
+    const panel = createMockPanel();
+    vi.mocked(window.createWebviewPanel).mockReturnValue(panel as any);
+    const { manager } = createManager();
+
+    manager.showPluginUpdates();
+
+    expect(window.createWebviewPanel).toHaveBeenCalled();
+    expect(panel.webview.postMessage).not.toHaveBeenCalledWith({ type: 'plugin.showUpdates' });
+  });
+
   it('skill 檔案變更 + category≠skill → 不 push', () => {
     const panel = createMockPanel();
     vi.mocked(window.createWebviewPanel).mockReturnValue(panel as any);
@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { EventEmitter, env, Uri } from 'vscode';
+import { EventEmitter, commands, env, Uri } from 'vscode';
 import { SidebarViewProvider } from '../SidebarViewProvider';
 
 const { getWebviewHtmlMock } = vi.hoisted(() => ({
@@ -113,6 +113,30 @@ describe('SidebarViewProvider', () => {
     });
   });
 
+  it('sidebar.applyProfile → 執行 applyPluginProfile command，不經過 router', () => {
+    const editorManager = { openPanel: vi.fn() };
+    const router = { handle: vi.fn() };
+    const fileWatcherService = {
+      onPluginFilesChanged: vi.fn(() => ({ dispose: vi.fn() })),
+      onSettingsFilesChanged: vi.fn(() => ({ dispose: vi.fn() })),
+      onMarketplaceFilesChanged: vi.fn(() => ({ dispose: vi.fn() })),
+    };
+    const provider = new SidebarViewProvider(
+      Uri.file('/extension') as never,
+      editorManager as never,
+      router as never,
+      { onStatusChange: new EventEmitter<unknown[]>() } as never,
+      fileWatcherService as never,
+    );
+    const { webviewView, receiveMessage } = createWebviewView();
+
+    provider.resolveWebviewView(webviewView as never);
+    receiveMessage({ type: 'sidebar.applyProfile' });
+
+    expect(commands.executeCommand).toHaveBeenCalledWith('claude-plugins-manager.applyPluginProfile');
+    expect(router.handle).not.toHaveBeenCalled();
+  });
+
   it('push events 會轉發到目前的 sidebar webview，dispose 後停止轉發', () => {
     const mcpEmitter = new EventEmitter<unknown[]>();
     let onPluginFilesChanged: (() => void) | undefined;
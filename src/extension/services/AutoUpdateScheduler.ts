@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { AUTO_UPDATE_INTERVAL_SETTING, EXTENSION_ID } from '../constants';
+import type { MarketplaceUpdateSummary } from '../../shared/types';
+import type { MarketplaceService } from './MarketplaceService';
+
+/** 未設定時的預設背景更新間隔（小時） */
+const DEFAULT_INTERVAL_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** setTimeout 的上限（32-bit signed）；超過時 Node 會改成約 1ms 後觸發 */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** globalState key：上次背景更新的開始時間（epoch ms），跨 VS Code session 保留 */
+const LAST_RUN_AT_KEY = 'autoUpdate.lastRunAt';
+
+/** 通知中最多列出的 plugin 名稱數 */
+const MAX_NOTIFIED_NAMES = 5;
+
+/** 一次背景更新的結果 */
+export interface AutoUpdateRunResult {
+  summaries: MarketplaceUpdateSummary[];
+  /** 更新失敗的 marketplace 名稱 */
+  failed: string[];
+}
+
+/**
+ * 依 known_marketplaces.json 的 autoUpdate flag 定期更新 marketplace。
+ * 間隔由 `claude-plugins-manager.autoUpdate.intervalHours` 設定（0 = 停用）；
+ * 上次執行時間存於 globalState，啟動時已到期（或從未執行）即立刻跑一次，否則等剩餘時間。
+ * 每次 update 都經 MarketplaceService 的 mutation queue 序列化。
+ */
+export class AutoUpdateScheduler implements vscode.Disposable {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+
+  constructor(
+    private readonly marketplace: MarketplaceService,
+    private readonly state: vscode.Memento,
+    /** 使用者點通知的「Show Updates」時呼叫 */
+    private readonly onShowUpdates: () => void,
+  ) {}
+
+  /** 依目前設定（重新）啟動 timer */
+  start(): void {
+    this.stop();
+    const hours = vscode.workspace
+      .getConfiguration(EXTENSION_ID)
+      .get<number>(AUTO_UPDATE_INTERVAL_SETTING, DEFAULT_INTERVAL_HOURS);
+    if (!Number.isFinite(hours) || hours <= 0) return;
+    const intervalMs = hours * HOUR_MS;
+    this.schedule(intervalMs, this.remainingMs(intervalMs));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+
+  /** 執行一次背景更新；上一次尚未結束時略過並回傳 null */
+  async runOnce(): Promise<AutoUpdateRunResult | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      await this.state.update(LAST_RUN_AT_KEY, Date.now());
+      const marketplaces = await this.marketplace.list();
+      const names = marketplaces.filter((m) => m.autoUpdate).map((m) => m.name);
+      const summaries: MarketplaceUpdateSummary[] = [];
+      const failed: string[] = [];
+
+      for (const name of names) {
+        try {
+          summaries.push(...await this.marketplace.update(name));
+        } catch (err) {
+          failed.push(name);
+          console.warn(`[AutoUpdateScheduler] update failed (${name}):`, err);
+        }
+      }
+
+      this.notify(summaries);
+      return { summaries, failed };
+    } catch (err) {
+      console.error('[AutoUpdateScheduler] run failed:', err);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** delay 超過 setTimeout 上限時分段等待，到期才執行，之後每 intervalMs 一次 */
+  private schedule(intervalMs: number, delayMs: number): void {
+    this.timer = setTimeout(() => {
+      const remaining = this.remainingMs(intervalMs);
+      if (remaining > 0) {
+        this.schedule(intervalMs, remaining);
+        return;
+      }
+      void this.runOnce();
+      this.schedule(intervalMs, intervalMs);
+    }, Math.max(0, Math.min(delayMs, MAX_TIMER_DELAY_MS)));
+  }
+
+  /** 距離下次到期的毫秒數；從未執行過視為已到期 */
+  private remainingMs(intervalMs: number): number {
+    const lastRunAt = this.state.get<number>(LAST_RUN_AT_KEY);
+    // 系統時間倒退時最多等一個間隔
+    return typeof lastRunAt === 'number' ? Math.min(intervalMs, lastRunAt + intervalMs - Date.now()) : 0;
+  }
+
+  /** 有新增或變更的 plugin 時跳通知（不 await，避免通知未關閉時卡住下一輪） */
+  private notify(summaries: MarketplaceUpdateSummary[]): void {
+    const message = formatAutoUpdateMessage(summaries);
+    if (!message) return;
+    void vscode.window.showInformationMessage(message, SHOW_UPDATES_ACTION).then((choice) => {
+      if (choice === SHOW_UPDATES_ACTION) {
+        this.onShowUpdates();
+      }
+    });
+  }
+}
+
+const SHOW_UPDATES_ACTION = 'Show Updates';
+
+/** 組出通知文字；沒有新增/變更的 plugin 時回傳 null */
+export function formatAutoUpdateMessage(summaries: MarketplaceUpdateSummary[]): string | null {
+  const added = summaries.flatMap((s) => s.added.map((p) => p.name));
+  const updated = summaries.flatMap((s) => s.changed.map((c) => c.name));
+  if (added.length === 0 && updated.length === 0) return null;
+
+  const parts: string[] = [];
+  if (added.length > 0) {
+    parts.push(`${added.length} new (${formatNames(added)})`);
+  }
+  if (updated.length > 0) {
+    parts.push(`${updated.length} updated (${formatNames(updated)})`);
+  }
+  return `Marketplace auto-update: ${parts.join(', ')} plugin${added.length + updated.length === 1 ? '' : 's'}.`;
+}
+
+function formatNames(names: string[]): string {
+  const shown = names.slice(0, MAX_NOTIFIED_NAMES).join(', ');
+  return names.length > MAX_NOTIFIED_NAMES ? `${shown}, …` : shown;
+}
@@ -4,7 +4,7 @@ import { homedir } from 'os';
 import { CLI_TIMEOUT_MS, CLI_MAX_RETRIES, CLI_BASE_BACKOFF_MS, CLI_RETRYABLE_CODES } from '../constants';
 import { spawnWithTimeout } from '../utils/spawnRunner';
 import type { SpawnError } from '../utils/spawnRunner';
-import { CommandError } from '../utils/errors';
+import { CommandError, OperationCancelledError } from '../utils/errors';
 
 /** CLI 執行錯誤 */
 export class CliError extends CommandError {}
@@ -15,6 +15,8 @@ export interface CliExecOptions {
   timeout?: number;
   /** 工作目錄（project scope 操作需要） */
   cwd?: string;
+  /** abort 時 kill CLI process 並拋出 OperationCancelledError（不重試） */
+  signal?: AbortSignal;
 }
 
 /**
@@ -47,9 +49,12 @@ export class CliService {
 
     try {
       return await this.withRetry(async (remainingTimeout) => {
-        return this.runCommand(args, env, options?.cwd, remainingTimeout);
+        return this.runCommand(args, env, options?.cwd, remainingTimeout, options?.signal);
       }, totalTimeout);
     } catch (error: unknown) {
+      if ((error as SpawnError).code === 'ABORT_ERR') {
+        throw new OperationCancelledError(`Cancelled: ${command}`);
+      }
       throw this.toCliError(error, command, totalTimeout);
     }
   }
@@ -133,6 +138,7 @@ export class CliService {
     env: NodeJS.ProcessEnv,
     cwd: string | undefined,
     timeout: number,
+    signal: AbortSignal | undefined,
   ): Promise<string> {
     const result = await spawnWithTimeout({
       command: this.claudePath,
@@ -140,6 +146,7 @@ export class CliService {
       env,
       cwd,
       timeout,
+      signal,
     });
     return result.stdout;
   }
@@ -0,0 +1,278 @@
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import * as vscode from 'vscode';
+import {
+  CONFIG_BUNDLE_VERSION,
+  type ConfigBundle,
+  type ConfigBundleMarketplace,
+  type ConfigImportPhase,
+  type ConfigImportPluginItem,
+  type ConfigImportPreview,
+  type ConfigImportProgress,
+  type ConfigImportResult,
+  type EnabledPluginsMap,
+  type InstalledPluginsFile,
+  type PluginScope,
+} from '../../shared/types';
+import type { MarketplaceService } from './MarketplaceService';
+import type { PluginService } from './PluginService';
+import type { SettingsFileService } from './SettingsFileService';
+import { writeJsonFileAtomic } from '../utils/jsonFile';
+import { getWorkspacePath } from '../utils/workspace';
+import { toErrorMessage } from '../../shared/errorUtils';
+
+const SCOPES: PluginScope[] = ['user', 'project', 'local'];
+
+/** 匯出檔預設檔名 */
+const DEFAULT_BUNDLE_FILENAME = 'claude-plugins-config.json';
+
+/**
+ * Marketplace + enabledPlugins 設定包的匯出 / 匯入。
+ * 匯入透過 MarketplaceService.add 與 PluginService.install/enable 重播，
+ * 不直接寫 known_marketplaces.json。
+ */
+export class ConfigBundleService {
+  private readonly _onImportProgress = new vscode.EventEmitter<ConfigImportProgress>();
+  readonly onImportProgress = this._onImportProgress.event;
+
+  constructor(
+    private readonly marketplace: MarketplaceService,
+    private readonly plugin: PluginService,
+    private readonly settings: SettingsFileService,
+  ) {}
+
+  /** 從 known_marketplaces.json + 各 scope settings 組出設定包 */
+  async buildBundle(): Promise<ConfigBundle> {
+    const [marketplaces, enabledPlugins] = await Promise.all([
+      this.marketplace.list(),
+      this.settings.readAllEnabledPlugins(),
+    ]);
+    return {
+      version: CONFIG_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      marketplaces: marketplaces
+        .map((mp) => ({
+          name: mp.name,
+          source: mp.url ?? mp.repo ?? mp.path ?? '',
+          autoUpdate: mp.autoUpdate,
+        }))
+        .filter((mp) => mp.source !== ''),
+      enabledPlugins,
+    };
+  }
+
+  /** 詢問存檔位置並寫出設定包，使用者取消時回傳 null */
+  async exportToFile(): Promise<{ path: string } | null> {
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(join(homedir(), DEFAULT_BUNDLE_FILENAME)),
+      filters: { JSON: ['json'] },
+    });
+    if (!uri) return null;
+
+    await writeJsonFileAtomic(uri.fsPath, await this.buildBundle());
+    return { path: uri.fsPath };
+  }
+
+  /** 詢問設定包檔案並產生匯入預覽，使用者取消時回傳 null */
+  async pickImportFile(): Promise<{ bundle: ConfigBundle; preview: ConfigImportPreview } | null> {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { JSON: ['json'] },
+    });
+    const uri = uris?.[0];
+    if (!uri) return null;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(uri.fsPath, 'utf-8'));
+    } catch (cause) {
+      throw new Error(`Invalid JSON in ${uri.fsPath}: ${toErrorMessage(cause)}`, { cause });
+    }
+    const bundle = parseConfigBundle(raw);
+    return { bundle, preview: await this.previewImport(bundle) };
+  }
+
+  /** 比對目前狀態，列出將新增 / 啟用 / 略過的項目（不寫入） */
+  async previewImport(bundle: ConfigBundle): Promise<ConfigImportPreview> {
+    const [current, enabledByScope] = await Promise.all([
+      this.marketplace.list(),
+      this.settings.readAllEnabledPlugins(),
+    ]);
+    const currentNames = new Set(current.map((mp) => mp.name));
+    const knownNames = new Set([...currentNames, ...bundle.marketplaces.map((mp) => mp.name)]);
+    const hasWorkspace = this.hasWorkspace();
+
+    const preview: ConfigImportPreview = {
+      marketplacesToAdd: [],
+      marketplacesSkipped: [],
+      pluginsToEnable: [],
+      pluginsSkipped: [],
+    };
+
+    for (const mp of bundle.marketplaces) {
+      (currentNames.has(mp.name) ? preview.marketplacesSkipped : preview.marketplacesToAdd).push(mp);
+    }
+
+    for (const scope of SCOPES) {
+      for (const [pluginId, enabled] of Object.entries(bundle.enabledPlugins[scope] ?? {})) {
+        if (enabled !== true) continue;
+        const item: ConfigImportPluginItem = { pluginId, scope };
+        const marketplaceName = getMarketplaceName(pluginId);
+        if (scope !== 'user' && !hasWorkspace) {
+          preview.pluginsSkipped.push({ ...item, reason: 'noWorkspace' });
+        } else if (!marketplaceName || !knownNames.has(marketplaceName)) {
+          preview.pluginsSkipped.push({ ...item, reason: 'unknownMarketplace' });
+        } else if (enabledByScope[scope]?.[pluginId] === true) {
+          preview.pluginsSkipped.push({ ...item, reason: 'alreadyEnabled' });
+        } else {
+          preview.pluginsToEnable.push(item);
+        }
+      }
+    }
+
+    return preview;
+  }
+
+  /**
+   * 重播設定包：先加入缺少的 marketplace，再安裝 / 啟用 plugin。
+   * 安裝 / 啟用前以一個安全審查 modal 確認全部 plugin，未確認者略過。
+   * 單一項目失敗不中斷，彙整於 failed 回傳。
+   */
+  async importBundle(bundle: ConfigBundle): Promise<ConfigImportResult> {
+    const preview = await this.previewImport(parseConfigBundle(bundle));
+    const failed: string[] = [];
+    const failedMarketplaces = new Set<string>();
+    let marketplacesAdded = 0;
+    let pluginsEnabled = 0;
+
+    const toAdd = preview.marketplacesToAdd;
+    this.emitProgress('addingMarketplaces', 0, toAdd.length);
+    for (const [index, mp] of toAdd.entries()) {
+      this.emitProgress('addingMarketplaces', index + 1, toAdd.length, mp.name);
+      try {
+        await this.marketplace.add(mp.source);
+        marketplacesAdded++;
+      } catch (error) {
+        failedMarketplaces.add(mp.name);
+        failed.push(`${mp.name}: ${toErrorMessage(error)}`);
+      }
+    }
+    await this.restoreAutoUpdate(toAdd.filter((mp) => !failedMarketplaces.has(mp.name)));
+
+    const toEnable = preview.pluginsToEnable;
+    const installed = await this.settings.readInstalledPlugins();
+    const workspacePath = this.hasWorkspace() ? getWorkspacePath() : undefined;
+    const declined = new Set(await this.plugin.confirmSecurityReviews(
+      toEnable
+        .map((item) => item.pluginId)
+        .filter((pluginId) => !failedMarketplaces.has(getMarketplaceName(pluginId) ?? '')),
+    ));
+    this.emitProgress('enablingPlugins', 0, toEnable.length);
+    for (const [index, { pluginId, scope }] of toEnable.entries()) {
+      this.emitProgress('enablingPlugins', index + 1, toEnable.length, `${pluginId} (${scope})`);
+      const marketplaceName = getMarketplaceName(pluginId);
+      if (marketplaceName && failedMarketplaces.has(marketplaceName)) {
+        failed.push(`${pluginId} (${scope}): marketplace "${marketplaceName}" was not added`);
+        continue;
+      }
+      if (declined.has(pluginId)) {
+        failed.push(`${pluginId} (${scope}): security review not confirmed`);
+        continue;
+      }
+      try {
+        if (isInstalledInScope(installed, pluginId, scope, workspacePath)) {
+          await this.plugin.enable(pluginId, scope);
+        } else {
+          await this.plugin.install(pluginId, scope);
+        }
+        pluginsEnabled++;
+      } catch (error) {
+        failed.push(`${pluginId} (${scope}): ${toErrorMessage(error)}`);
+      }
+    }
+
+    this.emitProgress('completed', 1, 1);
+    return { marketplacesAdded, pluginsEnabled, failed };
+  }
+
+  /** marketplace add 會預設開啟 autoUpdate，依設定包還原為關閉 */
+  private async restoreAutoUpdate(added: ConfigBundleMarketplace[]): Promise<void> {
+    const disabled = added.filter((mp) => !mp.autoUpdate);
+    if (disabled.length === 0) return;
+    const current = new Map((await this.marketplace.list()).map((mp) => [mp.name, mp]));
+    for (const mp of disabled) {
+      if (current.get(mp.name)?.autoUpdate) {
+        await this.marketplace.toggleAutoUpdate(mp.name);
+      }
+    }
+  }
+
+  private hasWorkspace(): boolean {
+    try {
+      getWorkspacePath();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private emitProgress(phase: ConfigImportPhase, current: number, total: number, detail?: string): void {
+    this._onImportProgress.fire({ phase, current, total, ...(detail ? { detail } : {}) });
+  }
+}
+
+/** 驗證設定包結構，不合法時拋錯 */
+export function parseConfigBundle(raw: unknown): ConfigBundle {
+  if (!isRecord(raw)) {
+    throw new Error('Invalid config bundle: expected a JSON object.');
+  }
+  if (raw.version !== CONFIG_BUNDLE_VERSION) {
+    throw new Error(`Unsupported config bundle version: ${String(raw.version)}`);
+  }
+  if (!Array.isArray(raw.marketplaces)) {
+    throw new Error('Invalid config bundle: "marketplaces" must be an array.');
+  }
+  const marketplaces = raw.marketplaces.map((mp, index): ConfigBundleMarketplace => {
+    if (!isRecord(mp) || typeof mp.name !== 'string' || typeof mp.source !== 'string' || !mp.name || !mp.source) {
+      throw new Error(`Invalid config bundle: marketplaces[${index}] needs "name" and "source".`);
+    }
+    return { name: mp.name, source: mp.source, autoUpdate: mp.autoUpdate !== false };
+  });
+
+  const rawEnabled = isRecord(raw.enabledPlugins) ? raw.enabledPlugins : {};
+  const enabledPlugins = {} as Record<PluginScope, EnabledPluginsMap>;
+  for (const scope of SCOPES) {
+    const map = rawEnabled[scope];
+    enabledPlugins[scope] = isRecord(map)
+      ? Object.fromEntries(Object.entries(map).filter(([, v]) => typeof v === 'boolean')) as EnabledPluginsMap
+      : {};
+  }
+
+  return {
+    version: CONFIG_BUNDLE_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    marketplaces,
+    enabledPlugins,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getMarketplaceName(pluginId: string): string | null {
+  const lastAt = pluginId.lastIndexOf('@');
+  return lastAt > 0 ? pluginId.slice(lastAt + 1) : null;
+}
+
+function isInstalledInScope(
+  installed: InstalledPluginsFile,
+  pluginId: string,
+  scope: PluginScope,
+  workspacePath: string | undefined,
+): boolean {
+  return (installed.plugins[pluginId] ?? []).some(
+    (entry) => entry.scope === scope && (scope === 'user' || entry.projectPath === workspacePath),
+  );
+}
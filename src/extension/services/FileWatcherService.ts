@@ -12,6 +12,7 @@ enum FileChangeCategory {
   Mcp = 'mcp',
   Settings = 'settings',
   Skill = 'skill',
+  DevLink = 'devLink',
 }
 
 /**
@@ -21,6 +22,7 @@ enum FileChangeCategory {
 export class FileWatcherService implements vscode.Disposable {
   private readonly disposables: vscode.Disposable[] = [];
   private readonly workspaceWatchers: vscode.Disposable[] = [];
+  private readonly devLinkWatchers: vscode.Disposable[] = [];
   private readonly debounceTimers = new Map<FileChangeCategory, ReturnType<typeof setTimeout>>();
   private disposed = false;
 
@@ -44,6 +46,10 @@ export class FileWatcherService implements vscode.Disposable {
   private readonly _onSkillFilesChanged = new vscode.EventEmitter<void>();
   readonly onSkillFilesChanged = this._onSkillFilesChanged.event;
 
+  /** dev link 的 plugin 工作目錄內任一檔案變更 */
+  private readonly _onDevLinkFilesChanged = new vscode.EventEmitter<void>();
+  readonly onDevLinkFilesChanged = this._onDevLinkFilesChanged.event;
+
   constructor() {
     this.setupWatchers();
     this.disposables.push(
@@ -99,12 +105,30 @@ export class FileWatcherService implements vscode.Disposable {
 
     // workspace .claude/skills/** → skill refresh
     this.watchWorkspaceFile('.claude/skills/**/*', FileChangeCategory.Skill);
+
+    // workspace .claude/plugins.lock.json → plugin refresh（重新比對 lockfile 差異）
+    this.watchWorkspaceFile('.claude/plugins.lock.json', FileChangeCategory.Plugin);
+  }
+
+  /** 以新的 dev link 目錄清單取代現有 dev link watchers */
+  watchDevLinkDirs(dirs: string[]): void {
+    if (this.disposed) return;
+    for (const d of this.devLinkWatchers) d.dispose();
+    this.devLinkWatchers.length = 0;
+    for (const dir of new Set(dirs)) {
+      this.watchDir(dir, '**/*', FileChangeCategory.DevLink, this.devLinkWatchers);
+    }
   }
 
   /** 監控絕對路徑目錄（glob pattern） */
-  private watchDir(absoluteDir: string, glob: string, category: FileChangeCategory): void {
+  private watchDir(
+    absoluteDir: string,
+    glob: string,
+    category: FileChangeCategory,
+    target: vscode.Disposable[] = this.disposables,
+  ): void {
     const pattern = new vscode.RelativePattern(vscode.Uri.file(absoluteDir), glob);
-    this.createWatcher(pattern, category);
+    this.createWatcher(pattern, category, target);
   }
 
   /** 監控絕對路徑檔案 */
@@ -112,7 +136,7 @@ export class FileWatcherService implements vscode.Disposable {
     const dir = dirname(absolutePath);
     const filename = basename(absolutePath);
     const pattern = new vscode.RelativePattern(vscode.Uri.file(dir), filename);
-    this.createWatcher(pattern, category);
+    this.createWatcher(pattern, category, this.disposables);
   }
 
   /** 監控 workspace 相對路徑檔案 */
@@ -122,7 +146,7 @@ export class FileWatcherService implements vscode.Disposable {
 
     for (const folder of folders) {
       const pattern = new vscode.RelativePattern(folder, relativePath);
-      this.createWatcher(pattern, category, true);
+      this.createWatcher(pattern, category, this.workspaceWatchers);
     }
   }
 
@@ -135,10 +159,11 @@ export class FileWatcherService implements vscode.Disposable {
     this.watchWorkspaceFile('.claude/settings.local.json', FileChangeCategory.Settings);
     this.watchWorkspaceFile('.mcp.json', FileChangeCategory.Mcp);
     this.watchWorkspaceFile('.claude/skills/**/*', FileChangeCategory.Skill);
+    this.watchWorkspaceFile('.claude/plugins.lock.json', FileChangeCategory.Plugin);
   }
 
   /** 建立 watcher 並綁定 change/create/delete 事件 */
-  private createWatcher(pattern: vscode.RelativePattern, category: FileChangeCategory, isWorkspace = false): void {
+  private createWatcher(pattern: vscode.RelativePattern, category: FileChangeCategory, target: vscode.Disposable[]): void {
     const watcher = vscode.workspace.createFileSystemWatcher(pattern);
     const handler = () => this.debouncedEmit(category);
 
@@ -146,11 +171,7 @@ export class FileWatcherService implements vscode.Disposable {
     watcher.onDidCreate(handler);
     watcher.onDidDelete(handler);
 
-    if (isWorkspace) {
-      this.workspaceWatchers.push(watcher);
-    } else {
-      this.disposables.push(watcher);
-    }
+    target.push(watcher);
   }
 
   /** Debounce 後觸發對應分類的事件 */
@@ -170,6 +191,8 @@ export class FileWatcherService implements vscode.Disposable {
           this._onSettingsFilesChanged.fire();
         } else if (category === FileChangeCategory.Skill) {
           this._onSkillFilesChanged.fire();
+        } else if (category === FileChangeCategory.DevLink) {
+          this._onDevLinkFilesChanged.fire();
         } else {
           this._onMcpFilesChanged.fire();
         }
@@ -183,11 +206,14 @@ export class FileWatcherService implements vscode.Disposable {
     this.debounceTimers.clear();
     for (const d of this.workspaceWatchers) d.dispose();
     this.workspaceWatchers.length = 0;
+    for (const d of this.devLinkWatchers) d.dispose();
+    this.devLinkWatchers.length = 0;
     this._onPluginFilesChanged.dispose();
     this._onMarketplaceFilesChanged.dispose();
     this._onMcpFilesChanged.dispose();
     this._onSettingsFilesChanged.dispose();
     this._onSkillFilesChanged.dispose();
+    this._onDevLinkFilesChanged.dispose();
     for (const d of this.disposables) d.dispose();
   }
 }
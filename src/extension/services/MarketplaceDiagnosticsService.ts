@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { EXTENSION_ID } from '../constants';
+import type { ManifestLintIssue, MarketplaceManifestLinter } from './MarketplaceManifestLinter';
+
+/** marketplace manifest 的相對路徑後綴 */
+const MANIFEST_SUFFIX = '/.claude-plugin/marketplace.json';
+
+/**
+ * workspace 內的 marketplace.json 存檔時跑 MarketplaceManifestLinter，
+ * 結果發佈到 DiagnosticCollection（Problems panel）。關閉檔案時清除。
+ */
+export class MarketplaceDiagnosticsService implements vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly linter: MarketplaceManifestLinter,
+  ) {
+    this.collection = vscode.languages.createDiagnosticCollection(`${EXTENSION_ID}.marketplace`);
+    this.disposables.push(
+      this.collection,
+      vscode.workspace.onDidSaveTextDocument((doc) => {
+        void this.lintDocument(doc);
+      }),
+      vscode.workspace.onDidCloseTextDocument((doc) => {
+        this.collection.delete(doc.uri);
+      }),
+    );
+  }
+
+  /** 檢查單一 document；非 workspace 內的 marketplace manifest 直接略過 */
+  async lintDocument(doc: vscode.TextDocument): Promise<void> {
+    if (!isWorkspaceManifest(doc)) return;
+    try {
+      const issues = await this.linter.lint(doc.uri.fsPath, doc.getText());
+      this.collection.set(doc.uri, issues.map((issue) => toDiagnostic(doc, issue)));
+    } catch (err) {
+      console.warn(`[MarketplaceDiagnosticsService] lint failed (${doc.uri.fsPath}):`, err);
+    }
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+  }
+}
+
+function isWorkspaceManifest(doc: vscode.TextDocument): boolean {
+  return doc.uri.fsPath.replace(/\\/g, '/').endsWith(MANIFEST_SUFFIX)
+    && vscode.workspace.getWorkspaceFolder(doc.uri) !== undefined;
+}
+
+function toDiagnostic(doc: vscode.TextDocument, issue: ManifestLintIssue): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    findIssueRange(doc, issue),
+    issue.message,
+    issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+  );
+  diagnostic.source = 'Claude marketplace';
+  return diagnostic;
+}
+
+/** plugin 相關問題定位到該 plugin 的 `"name": "<plugin>"`（duplicate 定位到最後一筆）；找不到時標在第一行 */
+function findIssueRange(doc: vscode.TextDocument, issue: ManifestLintIssue): vscode.Range {
+  const text = doc.getText();
+  if (issue.pluginName !== undefined) {
+    const pattern = new RegExp(`"name"\\s*:\\s*${escapeRegExp(JSON.stringify(issue.pluginName))}`, 'g');
+    const matches = [...text.matchAll(pattern)];
+    const match = issue.duplicate ? matches[matches.length - 1] : matches[0];
+    if (match) {
+      return new vscode.Range(doc.positionAt(match.index), doc.positionAt(match.index + match[0].length));
+    }
+  }
+  const firstLineEnd = text.indexOf('\n');
+  return new vscode.Range(doc.positionAt(0), doc.positionAt(firstLineEnd === -1 ? text.length : firstLineEnd));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
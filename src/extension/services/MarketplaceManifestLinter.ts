@@ -0,0 +1,217 @@
+import { readFile, stat } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import type { MarketplaceManifest, MarketplacePluginEntry, PluginContentItem } from '../../shared/types';
+import { toErrorMessage } from '../../shared/errorUtils';
+import type { SettingsFileService } from './SettingsFileService';
+import { getSourceFormat } from '../../shared/marketplaceManifest';
+import { isRealPathWithinDirectory, isWithinDirectory } from './PluginCatalogScanner';
+
+export type ManifestLintSeverity = 'error' | 'warning';
+
+/** marketplace.json 的單一檢查結果 */
+export interface ManifestLintIssue {
+  severity: ManifestLintSeverity;
+  message: string;
+  /** 問題所屬的 plugin entry（用於定位 diagnostic range）；manifest 層級問題為 undefined */
+  pluginName?: string;
+  /** 重複的 plugin entry（定位到最後一筆同名 entry） */
+  duplicate?: boolean;
+}
+
+/** 需要 frontmatter description 的 contents 類型 */
+const DESCRIBED_KINDS = [
+  ['commands', 'Command'],
+  ['skills', 'Skill'],
+  ['agents', 'Agent'],
+] as const;
+
+/**
+ * 檢查 `.claude-plugin/marketplace.json` 與其 local plugin 目錄，
+ * 找出會讓 plugin 在 Plugin 頁「默默消失」的錯誤。
+ */
+export class MarketplaceManifestLinter {
+  constructor(
+    private readonly settings: SettingsFileService,
+  ) {}
+
+  /** manifestPath 為 `<marketplace>/.claude-plugin/marketplace.json`；text 為其內容 */
+  async lint(manifestPath: string, text: string): Promise<ManifestLintIssue[]> {
+    let manifest: MarketplaceManifest;
+    try {
+      manifest = JSON.parse(text) as MarketplaceManifest;
+    } catch (err) {
+      return [{ severity: 'error', message: `Invalid JSON: ${toErrorMessage(err)}` }];
+    }
+    if (!isPlainObject(manifest) || !Array.isArray(manifest.plugins)) {
+      return [{ severity: 'error', message: '"plugins" must be an array' }];
+    }
+
+    const marketplaceDir = resolve(dirname(manifestPath), '..');
+    const issues: ManifestLintIssue[] = [];
+    const seenNames = new Set<string>();
+    const entries: MarketplacePluginEntry[] = [];
+
+    for (const plugin of manifest.plugins as unknown[]) {
+      if (!isPlainObject(plugin) || typeof plugin.name !== 'string' || !plugin.name.trim()) {
+        issues.push({ severity: 'error', message: 'Plugin entry is missing a "name"' });
+        continue;
+      }
+      const entry = plugin as unknown as MarketplacePluginEntry;
+      if (seenNames.has(entry.name)) {
+        issues.push({
+          severity: 'error',
+          pluginName: entry.name,
+          duplicate: true,
+          message: `Duplicate plugin name "${entry.name}"`,
+        });
+        continue;
+      }
+      seenNames.add(entry.name);
+      entries.push(entry);
+    }
+
+    const perPlugin = await Promise.all(entries.map((entry) => this.lintPlugin(marketplaceDir, entry)));
+    return [...issues, ...perPlugin.flat()];
+  }
+
+  private async lintPlugin(marketplaceDir: string, plugin: MarketplacePluginEntry): Promise<ManifestLintIssue[]> {
+    const { name, source } = plugin;
+    const issue = pluginIssue(name);
+
+    if (source === undefined || source === null || source === '') {
+      return [issue('error', 'missing "source"')];
+    }
+    if (typeof source !== 'string') {
+      return getSourceFormat(source)
+        ? []
+        : [issue('warning', `unknown source format ${JSON.stringify((source as { source?: unknown }).source ?? null)}`)];
+    }
+
+    const pluginDir = resolve(marketplaceDir, source);
+    if (!isWithinDirectory(marketplaceDir, pluginDir)) {
+      return [issue('error', `source "${source}" escapes the marketplace directory`)];
+    }
+    try {
+      if (!(await stat(pluginDir)).isDirectory()) {
+        return [issue('error', `source "${source}" is not a directory`)];
+      }
+    } catch {
+      return [issue('error', `source "${source}" does not exist`)];
+    }
+    if (!(await isRealPathWithinDirectory(marketplaceDir, pluginDir))) {
+      return [issue('error', `source "${source}" resolves outside the marketplace directory`)];
+    }
+
+    return this.lintPluginDir(pluginDir, marketplaceDir, name);
+  }
+
+  /**
+   * 檢查單一 plugin 目錄：plugin.json、hooks/hooks.json、.mcp.json 結構與 contents 的 frontmatter description。
+   * trustedParentDir 限制 contents 掃描範圍（dev link 時為 plugin 目錄本身）。
+   */
+  async lintPluginDir(pluginDir: string, trustedParentDir: string, name: string): Promise<ManifestLintIssue[]> {
+    const issue = pluginIssue(name);
+
+    const issues: ManifestLintIssue[] = [];
+    if (!(await fileExists(join(pluginDir, '.claude-plugin', 'plugin.json')))) {
+      issues.push(issue('warning', 'missing .claude-plugin/plugin.json'));
+    }
+
+    const hooksError = await validateJsonFile(join(pluginDir, 'hooks', 'hooks.json'), validateHooks);
+    if (hooksError) {
+      issues.push(issue('error', `malformed hooks/hooks.json: ${hooksError}`));
+    }
+    const mcpError = await validateJsonFile(join(pluginDir, '.mcp.json'), validateMcp);
+    if (mcpError) {
+      issues.push(issue('error', `malformed .mcp.json: ${mcpError}`));
+      // 掃描 contents 時 .mcp.json 錯誤會讓整個掃描失敗，已回報就不再重複
+      return issues;
+    }
+
+    try {
+      const contents = await this.settings.scanPluginContentsAt(pluginDir, trustedParentDir);
+      for (const [kind, label] of DESCRIBED_KINDS) {
+        for (const item of contents[kind] as PluginContentItem[]) {
+          if (!item.description) {
+            issues.push(issue('warning', `${label} "${item.name}" has no frontmatter description`));
+          }
+        }
+      }
+    } catch (err) {
+      issues.push(issue('error', `failed to scan plugin contents: ${toErrorMessage(err)}`));
+    }
+    return issues;
+  }
+}
+
+/** 產生以 plugin 名稱為前綴的 issue */
+function pluginIssue(name: string): (severity: ManifestLintSeverity, message: string) => ManifestLintIssue {
+  return (severity, message) => ({ severity, pluginName: name, message: `${name}: ${message}` });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return stat(filePath).then(() => true).catch(() => false);
+}
+
+/** 檔案不存在 → null；JSON 或結構錯誤 → 錯誤訊息 */
+async function validateJsonFile(
+  filePath: string,
+  validate: (data: unknown) => string | null,
+): Promise<string | null> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (err) {
+    return toErrorMessage(err);
+  }
+  return validate(data);
+}
+
+/** hooks.json：`{ hooks: { [event]: [{ matcher?, hooks: [{ type, command? }] }] } }` */
+function validateHooks(data: unknown): string | null {
+  if (!isPlainObject(data) || !isPlainObject(data.hooks)) {
+    return '"hooks" must be an object';
+  }
+  for (const [event, matchers] of Object.entries(data.hooks)) {
+    if (!Array.isArray(matchers)) {
+      return `"${event}" must be an array`;
+    }
+    for (const matcher of matchers) {
+      if (!isPlainObject(matcher) || !Array.isArray(matcher.hooks)) {
+        return `each "${event}" entry needs a "hooks" array`;
+      }
+      for (const hook of matcher.hooks) {
+        if (!isPlainObject(hook) || typeof hook.type !== 'string') {
+          return `each "${event}" hook needs a "type"`;
+        }
+        if (hook.type === 'command' && typeof hook.command !== 'string') {
+          return `"${event}" command hook is missing "command"`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/** .mcp.json：`{ mcpServers: { [name]: config } }` 或直接 `{ [name]: config }` */
+function validateMcp(data: unknown): string | null {
+  if (!isPlainObject(data)) {
+    return 'must be an object';
+  }
+  const servers = 'mcpServers' in data ? data.mcpServers : data;
+  if (!isPlainObject(servers)) {
+    return '"mcpServers" must be an object';
+  }
+  const invalid = Object.entries(servers).find(([, config]) => !isPlainObject(config));
+  return invalid ? `server "${invalid[0]}" must be an object` : null;
+}
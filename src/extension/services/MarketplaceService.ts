@@ -9,20 +9,29 @@ import type {
   MarketplaceSourceType,
   PreviewPlugin,
   MarketplaceManifest,
+  MarketplacePluginEntry,
   InstalledPluginsFile,
   PluginScope,
   EnabledPluginsMap,
   MarketplaceReinstallProgress,
   MarketplaceReinstallPhase,
+  MarketplaceReinstallResult,
+  MarketplaceUpdateSummary,
+  PluginRestoreFailure,
 } from '../../shared/types';
 import type { CliService } from './CliService';
 import type { SettingsFileService } from './SettingsFileService';
 import { WriteQueue } from '../utils/WriteQueue';
 import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
-import { KNOWN_MARKETPLACES_PATH, PLUGINS_CACHE_DIR } from '../paths';
+import { KNOWN_MARKETPLACES_PATH, MARKETPLACE_PINS_PATH, PLUGINS_CACHE_DIR } from '../paths';
 import { fixScriptPermissions } from '../utils/fixScriptPermissions';
 import { expandTildePath } from '../utils/pathUtils';
 import { NoWorkspaceError } from '../utils/workspace';
+import { OperationCancelledError, throwIfCancelled } from '../utils/errors';
+import { getSourceFormat, validateMarketplacePluginEntries } from '../../shared/marketplaceManifest';
+import { buildMarketplaceUpdateSummary, type MarketplaceUpdateSnapshot } from './marketplaceUpdateSummary';
+import { readGitHead, runGit } from '../utils/git';
+import { collectPluginCacheReferences } from './PluginService';
 
 /** Git clone timeout (30s — shallow clone should be fast) */
 const GIT_CLONE_TIMEOUT_MS = 30_000;
@@ -46,6 +55,17 @@ interface RawMarketplaceEntry {
 /** known_marketplaces.json 的完整結構 */
 type RawMarketplaceConfig = Record<string, RawMarketplaceEntry>;
 
+/** marketplace_pins.json 內每個釘選 */
+interface MarketplacePin {
+  ref: string;
+  /** 釘選前所在 branch，unpin 時切回 */
+  previousBranch?: string;
+  /** 釘選前的 autoUpdate，unpin 時還原 */
+  previousAutoUpdate: boolean;
+}
+
+type MarketplacePins = Record<string, MarketplacePin>;
+
 /**
  * Marketplace CRUD + autoUpdate toggle。
  * 讀取 known_marketplaces.json 取得完整資訊（含 lastUpdated、autoUpdate）。
@@ -68,8 +88,9 @@ export class MarketplaceService {
   async list(): Promise<Marketplace[]> {
     const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
     if (Object.keys(config).length === 0) return [];
+    const pins = await readPins();
 
-    return Object.entries(config).map(([name, entry]) => ({
+    return Promise.all(Object.entries(config).map(async ([name, entry]) => ({
       name,
       source: entry.source.source,
       url: entry.source.url,
@@ -78,7 +99,10 @@ export class MarketplaceService {
       installLocation: entry.installLocation,
       lastUpdated: entry.lastUpdated,
       autoUpdate: entry.autoUpdate,
-    }));
+      pinnedRef: pins[name]?.ref,
+      headSha: isGitSource(entry) && entry.installLocation ? await readGitHead(entry.installLocation) : undefined,
+      editable: isWorkspaceDirectorySource(entry),
+    })));
   }
 
   /** 新增 marketplace（Git URL / GitHub repo / 本地路徑） */
@@ -122,21 +146,152 @@ export class MarketplaceService {
   async remove(name: string): Promise<void> {
     return this.mutationQueue.enqueue(async () => {
       await this.cli.exec(['plugin', 'marketplace', 'remove', name]);
+      const pins = await readPins();
+      if (pins[name]) {
+        delete pins[name];
+        await writeJsonFileAtomic(MARKETPLACE_PINS_PATH, pins);
+      }
     });
   }
 
-  /** 更新 marketplace（不指定 name 則更新全部） */
-  async update(name?: string): Promise<void> {
+  /**
+   * 將 git/github marketplace 釘選到指定 branch / tag / commit。
+   * 釘選期間關閉 autoUpdate，update 只會重新 checkout 該 ref。
+   */
+  async pin(name: string, ref: string): Promise<void> {
     return this.mutationQueue.enqueue(async () => {
-      const args = ['plugin', 'marketplace', 'update'];
+      const trimmedRef = ref.trim();
+      if (!trimmedRef || trimmedRef.startsWith('-')) {
+        throw new Error(`Invalid git ref "${ref}".`);
+      }
+      const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+      const entry = config[name];
+      if (!entry) {
+        throw new Error(`Marketplace "${name}" not found in config.`);
+      }
+      if (!isGitSource(entry)) {
+        throw new Error(`Marketplace "${name}" is not a git marketplace and cannot be pinned.`);
+      }
+
+      const pins = await readPins();
+      const existing = pins[name];
+      const previousBranch = existing ? existing.previousBranch : await readGitBranch(entry.installLocation);
+      await checkoutGitRef(entry.installLocation, trimmedRef);
+
+      pins[name] = {
+        ref: trimmedRef,
+        previousBranch,
+        previousAutoUpdate: existing ? existing.previousAutoUpdate : entry.autoUpdate,
+      };
+      await writeJsonFileAtomic(MARKETPLACE_PINS_PATH, pins);
+      if (entry.autoUpdate) {
+        entry.autoUpdate = false;
+        await writeJsonFileAtomic(KNOWN_MARKETPLACES_PATH, config);
+      }
+      await this.fixMarketplacePermissions(name);
+    });
+  }
+
+  /** 取消釘選：切回原 branch、還原 autoUpdate，並透過 CLI 更新到最新 */
+  async unpin(name: string): Promise<void> {
+    return this.mutationQueue.enqueue(async () => {
+      const pins = await readPins();
+      const pin = pins[name];
+      if (!pin) return;
+      const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+      const entry = config[name];
+
+      if (entry?.installLocation && pin.previousBranch) {
+        await runGit(entry.installLocation, ['checkout', pin.previousBranch]);
+      }
+      delete pins[name];
+      await writeJsonFileAtomic(MARKETPLACE_PINS_PATH, pins);
+      if (entry && entry.autoUpdate !== pin.previousAutoUpdate) {
+        entry.autoUpdate = pin.previousAutoUpdate;
+        await writeJsonFileAtomic(KNOWN_MARKETPLACES_PATH, config);
+      }
+      if (entry) {
+        await this.cli.exec(['plugin', 'marketplace', 'update', name], { timeout: CLI_LONG_TIMEOUT_MS });
+        await this.fixMarketplacePermissions(name);
+      }
+    });
+  }
+
+  /** 對已釘選的 marketplace 重新 checkout 釘選的 ref（branch 會前進到最新），並保持 autoUpdate 關閉 */
+  private async reapplyPins(names: Iterable<string>): Promise<void> {
+    const pins = await readPins();
+    const pinnedNames = [...names].filter((n) => pins[n]);
+    if (pinnedNames.length === 0) return;
+
+    const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+    let changed = false;
+    for (const name of pinnedNames) {
+      const entry = config[name];
+      if (!entry?.installLocation) continue;
+      await checkoutGitRef(entry.installLocation, pins[name].ref);
+      if (entry.autoUpdate) {
+        entry.autoUpdate = false;
+        changed = true;
+      }
+    }
+    if (changed) {
+      await writeJsonFileAtomic(KNOWN_MARKETPLACES_PATH, config);
+    }
+  }
+
+  /**
+   * 更新 marketplace（不指定 name 則更新全部）。
+   * 已釘選的 marketplace 不經 CLI，只重新 checkout 釘選的 ref。
+   * 前後各擷取一次 catalog snapshot 與 git HEAD，回傳每個 marketplace 的變更摘要。
+   * signal abort 時 kill 進行中的 CLI 並拋出 OperationCancelledError。
+   */
+  async update(name?: string, signal?: AbortSignal): Promise<MarketplaceUpdateSummary[]> {
+    return this.mutationQueue.enqueue(async () => {
+      const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+      const names = name ? [name] : Object.keys(config);
+      const pins = await readPins();
+      const before = await this.captureUpdateSnapshots(names);
+
+      const unpinnedNames = names.filter((n) => !pins[n]);
       if (name) {
-        args.push(name);
+        if (unpinnedNames.length > 0) {
+          await this.cli.exec(['plugin', 'marketplace', 'update', name], { timeout: CLI_LONG_TIMEOUT_MS, signal });
+        }
+      } else if (unpinnedNames.length === names.length) {
+        await this.cli.exec(['plugin', 'marketplace', 'update'], { timeout: CLI_LONG_TIMEOUT_MS, signal });
+      } else {
+        // 有釘選時逐一更新未釘選者，避免 CLI 拉動釘選的 clone
+        for (const n of unpinnedNames) {
+          await this.cli.exec(['plugin', 'marketplace', 'update', n], { timeout: CLI_LONG_TIMEOUT_MS, signal });
+        }
       }
-      await this.cli.exec(args, { timeout: CLI_LONG_TIMEOUT_MS });
+      throwIfCancelled(signal);
+      await this.reapplyPins(names);
       await this.fixMarketplacePermissions(name);
+
+      const after = await this.captureUpdateSnapshots(names);
+      return names.map((n) => buildMarketplaceUpdateSummary(
+        n,
+        before.get(n) ?? { plugins: [] },
+        after.get(n) ?? { plugins: [] },
+      ));
     });
   }
 
+  /** 擷取指定 marketplace 的 plugin catalog 與 clone HEAD commit */
+  private async captureUpdateSnapshots(names: string[]): Promise<Map<string, MarketplaceUpdateSnapshot>> {
+    const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+    const plugins = await this.settings.scanMarketplacePlugins(names);
+    const commits = await Promise.all(
+      names.map((n) => (config[n]?.installLocation ? readGitHead(config[n].installLocation) : undefined)),
+    );
+
+    return new Map(names.map((n, i) => [n, {
+      commit: commits[i],
+      plugins: plugins.filter((p) => p.marketplaceName === n),
+    }]));
+  }
+
   /** 切換 autoUpdate flag，直接寫入 config file */
   async toggleAutoUpdate(name: string): Promise<void> {
     return this.mutationQueue.enqueue(async () => {
@@ -153,70 +308,250 @@ export class MarketplaceService {
     });
   }
 
-  /** 重新安裝所有 marketplace（remove all → re-add each from original source） */
-  async reinstallAll(): Promise<{ total: number; succeeded: number; failed: string[] }> {
+  /** 讀取可編輯（workspace 內 directory source）marketplace 的 marketplace.json */
+  async readManifest(name: string): Promise<MarketplaceManifest> {
+    const manifestPath = await this.getEditableManifestPath(name);
+    return readJsonFile<MarketplaceManifest>(manifestPath, { name, plugins: [] });
+  }
+
+  /** 以新的 plugin entries 覆寫 marketplace.json（保留其他欄位），寫入後 invalidate scan cache */
+  async saveManifestPlugins(name: string, plugins: MarketplacePluginEntry[]): Promise<void> {
+    const errors = validateMarketplacePluginEntries(plugins)
+      .map((error, i) => (error ? `#${i + 1} ${plugins[i]?.name || '(unnamed)'}: ${error}` : null))
+      .filter((error): error is string => error !== null);
+    if (errors.length > 0) {
+      throw new Error(`Invalid plugin entries — ${errors.join('; ')}`);
+    }
+
+    return this.mutationQueue.enqueue(async () => {
+      const manifestPath = await this.getEditableManifestPath(name);
+      const manifest = await readJsonFile<Record<string, unknown>>(manifestPath, { name });
+      await writeJsonFileAtomic(manifestPath, { ...manifest, plugins });
+      this.settings.invalidateScanCache();
+    });
+  }
+
+  /** 只允許編輯 workspace 內的 directory marketplace（git clone 會被 update 覆寫） */
+  private async getEditableManifestPath(name: string): Promise<string> {
+    const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+    const entry = config[name];
+    if (!entry) {
+      throw new Error(`Marketplace "${name}" not found in config.`);
+    }
+    if (!isWorkspaceDirectorySource(entry)) {
+      throw new Error(`Marketplace "${name}" is not a directory marketplace inside the workspace.`);
+    }
+    return path.join(entry.installLocation, '.claude-plugin', 'marketplace.json');
+  }
+
+  /**
+   * 重新安裝所有 marketplace（remove all → re-add each from original source）。
+   * signal abort 時中止目前階段，並回復到操作前的 marketplaces、已安裝 plugins 與 enabled 狀態。
+   */
+  async reinstallAll(signal?: AbortSignal): Promise<{ total: number; succeeded: number; failed: string[] }> {
     return this.mutationQueue.enqueue(async () => {
       const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
       const entries = Object.entries(config)
         .map(([name, entry]) => ({
           name,
-          source: entry.source.url ?? entry.source.repo ?? entry.source.path ?? '',
+          source: getEntrySource(entry),
         }))
         .filter((e) => e.source !== '');
 
-      const total = entries.length;
-      if (total === 0) return { total: 0, succeeded: 0, failed: [] };
-      const marketplaceNames = new Set(entries.map((entry) => entry.name));
+      if (entries.length === 0) return { total: 0, succeeded: 0, failed: [] };
       const [installedSnapshot, enabledSnapshot] = await Promise.all([
         this.settings.readInstalledPlugins(),
         this.settings.readAllEnabledPlugins(),
       ]);
 
-      // Phase 1: Clear plugin cache
-      this.emitReinstallProgress('clearingCache', 0, 1);
-      await fs.rm(PLUGINS_CACHE_DIR, { recursive: true, force: true }).catch(() => {});
+      try {
+        return await this.runReinstallAll(entries, installedSnapshot, enabledSnapshot, signal);
+      } catch (error) {
+        if (!(error instanceof OperationCancelledError)) throw error;
+        await this.rollbackReinstallAll(config, installedSnapshot, enabledSnapshot);
+        throw new OperationCancelledError('Reinstall cancelled; previous marketplaces and plugins were restored.');
+      }
+    });
+  }
+
+  /** reinstallAll 的五個階段；CLI 呼叫帶 signal，階段之間檢查是否已取消 */
+  private async runReinstallAll(
+    entries: Array<{ name: string; source: string }>,
+    installedSnapshot: InstalledPluginsFile,
+    enabledSnapshot: Record<PluginScope, EnabledPluginsMap>,
+    signal: AbortSignal | undefined,
+  ): Promise<{ total: number; succeeded: number; failed: string[] }> {
+    const total = entries.length;
+    const marketplaceNames = new Set(entries.map((entry) => entry.name));
+
+    // Phase 1: Clear plugin cache
+    this.emitReinstallProgress('clearingCache', 0, 1);
+    await clearPluginCache(PLUGINS_CACHE_DIR, omitMarketplacePlugins(installedSnapshot, marketplaceNames))
+      .catch(() => {});
+    throwIfCancelled(signal);
+
+    // Phase 2: Remove all
+    this.emitReinstallProgress('removingMarketplaces', 0, entries.length);
+    for (const [index, { name }] of entries.entries()) {
+      this.emitReinstallProgress('removingMarketplaces', index + 1, entries.length, name);
+      await this.cli.exec(['plugin', 'marketplace', 'remove', name], { signal });
+    }
 
-      // Phase 2: Remove all
-      this.emitReinstallProgress('removingMarketplaces', 0, entries.length);
-      for (const [index, { name }] of entries.entries()) {
-        this.emitReinstallProgress('removingMarketplaces', index + 1, entries.length, name);
-        await this.cli.exec(['plugin', 'marketplace', 'remove', name]);
+    // Phase 3: Re-add each（直接呼叫 CLI，不經 this.add() 避免 enqueue deadlock）
+    const failed: string[] = [];
+    this.emitReinstallProgress('addingMarketplaces', 0, entries.length);
+    for (const [index, { name, source }] of entries.entries()) {
+      this.emitReinstallProgress('addingMarketplaces', index + 1, entries.length, name);
+      try {
+        await this.cli.exec(['plugin', 'marketplace', 'add', source], { timeout: CLI_LONG_TIMEOUT_MS, signal });
+      } catch (error) {
+        if (error instanceof OperationCancelledError) throw error;
+        failed.push(name);
       }
+    }
+    throwIfCancelled(signal);
 
-      // Phase 3: Re-add each（直接呼叫 CLI，不經 this.add() 避免 enqueue deadlock）
-      const failed: string[] = [];
-      this.emitReinstallProgress('addingMarketplaces', 0, entries.length);
-      for (const [index, { name, source }] of entries.entries()) {
-        this.emitReinstallProgress('addingMarketplaces', index + 1, entries.length, name);
-        try {
-          await this.cli.exec(['plugin', 'marketplace', 'add', source], { timeout: CLI_LONG_TIMEOUT_MS });
-        } catch {
-          failed.push(name);
-        }
+    // Phase 4: autoUpdate + permissions
+    const afterConfig = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+    let changed = false;
+    for (const entry of Object.values(afterConfig)) {
+      if (entry.autoUpdate !== true) { entry.autoUpdate = true; changed = true; }
+    }
+    if (changed) {
+      await writeJsonFileAtomic(KNOWN_MARKETPLACES_PATH, afterConfig);
+    }
+    await this.reapplyPins(marketplaceNames);
+    await Promise.all(
+      Object.values(afterConfig).map((e) => e.installLocation).filter(Boolean).map((dir) => fixScriptPermissions(dir)),
+    );
+
+    // Phase 5: Restore enabled settings and reinstall previously installed plugins
+    throwIfCancelled(signal);
+    await this.restoreEnabledPlugins(enabledSnapshot, new Set(failed));
+    const { failures } = await this.reinstallPlugins(installedSnapshot, marketplaceNames, new Set(failed), signal);
+    if (failures.length > 0) {
+      throw new Error(`Failed to reinstall plugins: ${failures.map(formatRestoreFailure).join('; ')}`);
+    }
+    this.emitReinstallProgress('completed', 1, 1);
+
+    return { total, succeeded: total - failed.length, failed };
+  }
+
+  /**
+   * reinstallAll 被取消後的回復（本身不可取消）：
+   * 補回被移除的 marketplace、還原 autoUpdate / pins / enabled 狀態，並重裝 snapshot 中的 plugins。
+   */
+  private async rollbackReinstallAll(
+    config: RawMarketplaceConfig,
+    installedSnapshot: InstalledPluginsFile,
+    enabledSnapshot: Record<PluginScope, EnabledPluginsMap>,
+  ): Promise<void> {
+    const names = Object.keys(config);
+    const current = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+    const missing = names.filter((name) => !current[name]);
+    const failed = new Set<string>();
+
+    this.emitReinstallProgress('rollingBack', 0, missing.length);
+    for (const [index, name] of missing.entries()) {
+      this.emitReinstallProgress('rollingBack', index + 1, missing.length, name);
+      try {
+        await this.cli.exec(['plugin', 'marketplace', 'add', getEntrySource(config[name])], { timeout: CLI_LONG_TIMEOUT_MS });
+      } catch {
+        failed.add(name);
       }
+    }
 
-      // Phase 4: autoUpdate + permissions
-      const afterConfig = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
-      let changed = false;
-      for (const entry of Object.values(afterConfig)) {
-        if (entry.autoUpdate !== true) { entry.autoUpdate = true; changed = true; }
+    const afterConfig = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+    let changed = false;
+    for (const name of names) {
+      if (afterConfig[name] && afterConfig[name].autoUpdate !== config[name].autoUpdate) {
+        afterConfig[name].autoUpdate = config[name].autoUpdate;
+        changed = true;
       }
-      if (changed) {
+    }
+    if (changed) {
+      await writeJsonFileAtomic(KNOWN_MARKETPLACES_PATH, afterConfig);
+    }
+    await this.reapplyPins(names);
+    await this.fixMarketplacePermissions();
+
+    await this.restoreEnabledPlugins(enabledSnapshot, failed);
+    const { failures } = await this.reinstallPlugins(installedSnapshot, new Set(names), failed);
+    this.emitReinstallProgress('completed', 1, 1);
+    if (failed.size > 0 || failures.length > 0) {
+      const details = [
+        ...[...failed].map((name) => `marketplace ${name}`),
+        ...failures.map(formatRestoreFailure),
+      ];
+      throw new Error(`Reinstall cancelled, but rollback was incomplete: ${details.join('; ')}`);
+    }
+  }
+
+  /**
+   * 重新安裝單一 marketplace（清其 plugin cache → remove → re-add）。
+   * 只 snapshot / 還原屬於它的已安裝 plugins 與 enabled 狀態，其他 marketplace 不受影響。
+   * 個別 plugin 重裝失敗不中斷，彙整於 failed 回傳。
+   */
+  async reinstall(name: string): Promise<MarketplaceReinstallResult> {
+    return this.mutationQueue.enqueue(async () => {
+      const config = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+      const entry = config[name];
+      if (!entry) {
+        throw new Error(`Marketplace "${name}" not found in config.`);
+      }
+      const source = getEntrySource(entry);
+      if (!source) {
+        throw new Error(`Marketplace "${name}" has no source to reinstall from.`);
+      }
+
+      const [installedSnapshot, enabledSnapshot] = await Promise.all([
+        this.settings.readInstalledPlugins(),
+        this.settings.readAllEnabledPlugins(),
+      ]);
+
+      this.emitReinstallProgress('clearingCache', 0, 1, name);
+      await clearPluginCache(
+        path.join(PLUGINS_CACHE_DIR, name),
+        omitMarketplacePlugins(installedSnapshot, new Set([name])),
+      ).catch(() => {});
+
+      this.emitReinstallProgress('removingMarketplaces', 1, 1, name);
+      await this.cli.exec(['plugin', 'marketplace', 'remove', name]);
+
+      this.emitReinstallProgress('addingMarketplaces', 1, 1, name);
+      await this.cli.exec(['plugin', 'marketplace', 'add', source], { timeout: CLI_LONG_TIMEOUT_MS });
+
+      // 還原原本的 autoUpdate（add 後 CLI 可能給預設值）
+      const afterConfig = await readJsonFile<RawMarketplaceConfig>(KNOWN_MARKETPLACES_PATH, {} as RawMarketplaceConfig);
+      if (afterConfig[name] && afterConfig[name].autoUpdate !== entry.autoUpdate) {
+        afterConfig[name].autoUpdate = entry.autoUpdate;
         await writeJsonFileAtomic(KNOWN_MARKETPLACES_PATH, afterConfig);
       }
-      await Promise.all(
-        Object.values(afterConfig).map((e) => e.installLocation).filter(Boolean).map((dir) => fixScriptPermissions(dir)),
-      );
+      await this.reapplyPins([name]);
+      await this.fixMarketplacePermissions(name);
 
-      // Phase 5: Restore enabled settings and reinstall previously installed plugins
-      await this.restoreEnabledPlugins(enabledSnapshot, new Set(failed));
-      await this.reinstallPlugins(installedSnapshot, marketplaceNames, new Set(failed));
+      await this.mergeEnabledPlugins(pickMarketplacePlugins(enabledSnapshot, name));
+      const { total, failures } = await this.reinstallPlugins(installedSnapshot, new Set([name]), new Set());
       this.emitReinstallProgress('completed', 1, 1);
 
-      return { total, succeeded: total - failed.length, failed };
+      return { name, restored: total - failures.length, failed: failures };
     });
   }
 
+  /** 將 snapshot 的 enabled 狀態合併回各 scope 現有設定（只寫有變動的 scope） */
+  private async mergeEnabledPlugins(snapshot: Record<PluginScope, EnabledPluginsMap>): Promise<void> {
+    const scopes = (['user', 'project', 'local'] as PluginScope[])
+      .filter((scope) => Object.keys(snapshot[scope]).length > 0);
+    if (scopes.length === 0) return;
+
+    const current = await this.settings.readAllEnabledPlugins();
+    this.emitReinstallProgress('restoringSettings', 0, scopes.length);
+    for (const [index, scope] of scopes.entries()) {
+      this.emitReinstallProgress('restoringSettings', index + 1, scopes.length, scope);
+      await this.settings.replaceEnabledPlugins(scope, { ...current[scope], ...snapshot[scope] });
+    }
+  }
+
   private async restoreEnabledPlugins(
     enabledByScope: Record<PluginScope, EnabledPluginsMap>,
     failedMarketplaces: Set<string>,
@@ -245,8 +580,9 @@ export class MarketplaceService {
     installedSnapshot: InstalledPluginsFile,
     marketplaceNames: Set<string>,
     failedMarketplaces: Set<string>,
-  ): Promise<void> {
-    const restoreFailures: string[] = [];
+    signal?: AbortSignal,
+  ): Promise<{ total: number; failures: PluginRestoreFailure[] }> {
+    const failures: PluginRestoreFailure[] = [];
     const reinstallTargets = Object.entries(installedSnapshot.plugins)
       .filter(([pluginId]) => {
         const marketplaceName = getMarketplaceName(pluginId);
@@ -262,17 +598,16 @@ export class MarketplaceService {
       try {
         await this.cli.exec(
           ['plugin', 'install', pluginId, '--scope', entry.scope],
-          { timeout: CLI_LONG_TIMEOUT_MS, ...(cwd ? { cwd } : {}) },
+          { timeout: CLI_LONG_TIMEOUT_MS, ...(cwd ? { cwd } : {}), ...(signal ? { signal } : {}) },
         );
       } catch (error) {
+        if (error instanceof OperationCancelledError) throw error;
         const reason = error instanceof Error ? error.message : String(error);
-        restoreFailures.push(`${pluginId} (${entry.scope}): ${reason}`);
+        failures.push({ pluginId, scope: entry.scope, error: reason });
       }
     }
 
-    if (restoreFailures.length > 0) {
-      throw new Error(`Failed to reinstall plugins: ${restoreFailures.join('; ')}`);
-    }
+    return { total: reinstallTargets.length, failures };
   }
 
   private emitReinstallProgress(
@@ -339,18 +674,16 @@ export class MarketplaceService {
       const baseRealDir = await fs.realpath(baseDir);
       const plugins = await Promise.all(
         (manifest.plugins ?? []).map(async (p): Promise<PreviewPlugin> => {
-          let description = p.description ?? '';
-          let version = p.version;
+          const preview: PreviewPlugin = {
+            name: p.name,
+            description: p.description ?? '',
+            version: p.version,
+            sourceFormat: getSourceFormat(p.source),
+          };
+          const pluginDir = await resolvePreviewPluginDir(baseDir, baseRealDir, p.source);
+          if (!pluginDir) return preview;
+
           try {
-            if (typeof p.source !== 'string') throw new Error('Remote source, skip local scan');
-            const pluginDir = path.resolve(dir, p.source);
-            // 防止 path traversal（惡意 marketplace.json 的 source 欄位）
-            if (!pluginDir.startsWith(baseDir + path.sep) && pluginDir !== baseDir) {
-              throw new Error('Path traversal detected');
-            }
-            if (!(await isRealPathWithinDirectory(baseRealDir, pluginDir))) {
-              throw new Error('Plugin source escapes preview root');
-            }
             const pluginJsonPath = path.join(pluginDir, '.claude-plugin', 'plugin.json');
             if (!(await isRealPathWithinDirectory(baseRealDir, pluginJsonPath))) {
               throw new Error('Plugin metadata escapes preview root');
@@ -358,12 +691,18 @@ export class MarketplaceService {
             const pluginMeta = JSON.parse(
               await fs.readFile(pluginJsonPath, 'utf-8'),
             ) as { description?: string; version?: string };
-            if (pluginMeta.description) description = pluginMeta.description;
-            if (pluginMeta.version) version = pluginMeta.version;
+            if (pluginMeta.description) preview.description = pluginMeta.description;
+            if (pluginMeta.version) preview.version = pluginMeta.version;
           } catch {
             // plugin.json 可能不存在或路徑不合法，使用 manifest 資訊
           }
-          return { name: p.name, description, version };
+
+          try {
+            Object.assign(preview, await this.settings.scanPreviewPluginAt(pluginDir, baseRealDir));
+          } catch (err) {
+            console.warn(`[MarketplaceService] preview scan failed (${p.name}):`, err);
+          }
+          return preview;
         }),
       );
 
@@ -377,12 +716,155 @@ export class MarketplaceService {
 
 }
 
+/**
+ * 解析 preview 中 plugin 的本地目錄；remote source、path traversal 或 symlink 逃出 preview root 時回傳 null
+ * （防止惡意 marketplace.json 的 source 欄位讀到 repo 外的檔案）
+ */
+async function resolvePreviewPluginDir(
+  baseDir: string,
+  baseRealDir: string,
+  source: MarketplacePluginEntry['source'],
+): Promise<string | null> {
+  if (typeof source !== 'string') return null;
+  const pluginDir = path.resolve(baseDir, source);
+  if (!pluginDir.startsWith(baseDir + path.sep) && pluginDir !== baseDir) {
+    return null;
+  }
+  try {
+    return await isRealPathWithinDirectory(baseRealDir, pluginDir) ? pluginDir : null;
+  } catch {
+    // 目錄不存在
+    return null;
+  }
+}
+
+/** directory source 且位於目前開啟的 workspace folder 內 */
+function isWorkspaceDirectorySource(entry: RawMarketplaceEntry): boolean {
+  if (entry.source.source !== 'directory' || !entry.installLocation) return false;
+  const location = path.resolve(entry.installLocation);
+  return (vscode.workspace.workspaceFolders ?? []).some((folder) => {
+    const rel = path.relative(folder.uri.fsPath, location);
+    return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+  });
+}
+
+/** 目前所在 branch；detached HEAD 或非 git 目錄回傳 undefined */
+async function readGitBranch(dir: string): Promise<string | undefined> {
+  const branch = await runGit(dir, ['rev-parse', '--abbrev-ref', 'HEAD']).catch(() => '');
+  return branch && branch !== 'HEAD' ? branch : undefined;
+}
+
+/**
+ * 從 origin fetch 指定 ref 後 detached checkout。
+ * fetch 失敗（離線、ref 只存在本地）時直接 checkout 本地 ref。
+ */
+async function checkoutGitRef(dir: string, ref: string): Promise<void> {
+  try {
+    await runGit(dir, ['fetch', 'origin', ref], GIT_CLONE_TIMEOUT_MS);
+    await runGit(dir, ['checkout', '--detach', 'FETCH_HEAD']);
+  } catch {
+    await runGit(dir, ['checkout', '--detach', ref]);
+  }
+}
+
+function isGitSource(entry: RawMarketplaceEntry): boolean {
+  return entry.source.source === 'git' || entry.source.source === 'github';
+}
+
+/**
+ * 去掉 marketplaceNames 內的 plugin：這些會由 reinstallPlugins 重裝，其餘（如 source 安裝的 direct）不會，
+ * 清 cache 時須保留其 installPath，否則 installed_plugins.json 會指向已刪除的目錄
+ */
+function omitMarketplacePlugins(installed: InstalledPluginsFile, marketplaceNames: Set<string>): InstalledPluginsFile {
+  return {
+    ...installed,
+    plugins: Object.fromEntries(
+      Object.entries(installed.plugins).filter(([pluginId]) => !marketplaceNames.has(getMarketplaceName(pluginId) ?? '')),
+    ),
+  };
+}
+
+/**
+ * 清除 plugin cache 目錄，保留仍被引用的版本目錄：不會重裝的 installed plugin、
+ * dev link 的 link 前版本（unlink 還原用）與 plugin_history.json（rollback 用）
+ */
+async function clearPluginCache(dir: string, installed: InstalledPluginsFile): Promise<void> {
+  const root = path.resolve(dir);
+  const keep = [...(await collectPluginCacheReferences(installed)).keys()]
+    .map((installPath) => path.resolve(installPath))
+    .filter((installPath) => {
+      const rel = path.relative(root, installPath);
+      return rel !== '' && !rel.startsWith('..') && !path.isAbsolute(rel);
+    });
+  if (keep.length === 0) {
+    await fs.rm(root, { recursive: true, force: true });
+    return;
+  }
+  await removeAllExcept(root, new Set(keep));
+}
+
+/** 刪除 dir 底下除了 keep（及其上層目錄）以外的所有項目 */
+async function removeAllExcept(dir: string, keep: Set<string>): Promise<void> {
+  let dirents: import('fs').Dirent[];
+  try {
+    dirents = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const dirent of dirents) {
+    const entryPath = path.join(dir, dirent.name);
+    if (keep.has(entryPath)) continue;
+    const isAncestor = [...keep].some((kept) => kept.startsWith(entryPath + path.sep));
+    if (isAncestor && dirent.isDirectory()) {
+      await removeAllExcept(entryPath, keep);
+    } else {
+      await fs.rm(entryPath, { recursive: true, force: true });
+    }
+  }
+}
+
+/** 讀取 marketplace_pins.json，忽略格式不符的 entry */
+async function readPins(): Promise<MarketplacePins> {
+  const raw = await readJsonFile<Record<string, unknown>>(MARKETPLACE_PINS_PATH, {});
+  return Object.fromEntries(
+    Object.entries(raw).filter(([, pin]) => (
+      typeof pin === 'object'
+      && pin !== null
+      && typeof (pin as MarketplacePin).ref === 'string'
+    )),
+  ) as MarketplacePins;
+}
+
 async function isRealPathWithinDirectory(parentDir: string, candidatePath: string): Promise<boolean> {
   const realCandidate = await fs.realpath(candidatePath);
   const rel = path.relative(parentDir, realCandidate);
   return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
 }
 
+/** known_marketplaces entry 可交給 CLI `marketplace add` 的 source 字串 */
+function getEntrySource(entry: RawMarketplaceEntry): string {
+  return entry.source.url ?? entry.source.repo ?? entry.source.path ?? '';
+}
+
+function formatRestoreFailure(failure: PluginRestoreFailure): string {
+  return `${failure.pluginId} (${failure.scope}): ${failure.error}`;
+}
+
+/** 從各 scope 的 enabledPlugins 只取出屬於指定 marketplace 的 entries */
+function pickMarketplacePlugins(
+  enabledByScope: Record<PluginScope, EnabledPluginsMap>,
+  marketplaceName: string,
+): Record<PluginScope, EnabledPluginsMap> {
+  const pick = (map: EnabledPluginsMap = {}): EnabledPluginsMap => Object.fromEntries(
+    Object.entries(map).filter(([pluginId]) => getMarketplaceName(pluginId) === marketplaceName),
+  );
+  return {
+    user: pick(enabledByScope.user),
+    project: pick(enabledByScope.project),
+    local: pick(enabledByScope.local),
+  };
+}
+
 function getMarketplaceName(pluginId: string): string | null {
   const lastAt = pluginId.lastIndexOf('@');
   return lastAt > 0 ? pluginId.slice(lastAt + 1) : null;
@@ -6,10 +6,22 @@ import type {
   MarketplacePluginEntry,
   PluginContentItem,
   PluginContents,
-  SourceFormatType,
+  PluginExecutables,
+  PluginHook,
 } from '../../shared/types';
+import { getSourceFormat } from '../../shared/marketplaceManifest';
+import { estimatePluginTokens } from '../../shared/pluginTokenEstimate';
 import { readJsonFile } from '../utils/jsonFile';
 
+/** 視為 shell script 的副檔名 */
+const SHELL_SCRIPT_EXTENSIONS = ['.sh', '.bash', '.zsh'];
+
+/** 掃描 shell script 時略過的目錄 */
+const SCRIPT_SCAN_SKIP_DIRS = new Set(['.git', 'node_modules']);
+
+/** hook command 內 `${CLAUDE_PLUGIN_ROOT}/<path>`（或 `$CLAUDE_PLUGIN_ROOT/<path>`）引用的檔案 */
+const PLUGIN_ROOT_SCRIPT_RE = /\$\{?CLAUDE_PLUGIN_ROOT\}?\/([^\s"';|&]+)/;
+
 interface PluginCatalogScannerOptions {
   knownMarketplacesPath: string;
   marketplacesDir: string;
@@ -20,12 +32,26 @@ export interface PluginCatalogSnapshot {
   scannableMarketplaceNames: Set<string>;
 }
 
+/** plugin.json 中卡片用到的欄位 */
+interface PluginMeta {
+  description?: string;
+  version?: string;
+  author?: string;
+}
+
+/** local plugin 在 marketplace clone 中的位置 */
+export interface PluginSourceLocation {
+  marketplaceDir: string;
+  pluginDir: string;
+}
+
 export class PluginCatalogScanner {
   constructor(
     private readonly options: PluginCatalogScannerOptions,
   ) {}
 
-  async scanCatalog(): Promise<PluginCatalogSnapshot> {
+  /** 掃描 marketplace catalog；指定 onlyMarketplaces 時只掃描這些 marketplace */
+  async scanCatalog(onlyMarketplaces?: ReadonlySet<string>): Promise<PluginCatalogSnapshot> {
     let knownMarketplaces: Record<string, { installLocation?: string }>;
     try {
       knownMarketplaces = await readJsonFile<Record<string, { installLocation?: string }>>(
@@ -39,8 +65,10 @@ export class PluginCatalogScanner {
       };
     }
 
+    const marketplaceEntries = Object.entries(knownMarketplaces)
+      .filter(([mpName]) => !onlyMarketplaces || onlyMarketplaces.has(mpName));
     const perMarketplace = await Promise.all(
-      Object.entries(knownMarketplaces).map(async ([mpName, mpEntry]) => {
+      marketplaceEntries.map(async ([mpName, mpEntry]) => {
         const mpDir = mpEntry.installLocation ?? join(this.options.marketplacesDir, mpName);
         const manifestPath = join(mpDir, '.claude-plugin', 'marketplace.json');
         try {
@@ -61,7 +89,7 @@ export class PluginCatalogScanner {
                 ? resolvedPluginDir
                 : null;
               let contents: AvailablePlugin['contents'];
-              let pluginMeta: { description?: string; version?: string } = {};
+              let pluginMeta: PluginMeta = {};
               let lastUpdated: string | undefined;
 
               // localSource 有值但目錄不存在 → 視為外部（不可安裝）
@@ -83,9 +111,15 @@ export class PluginCatalogScanner {
                   this.scanPluginContents(pluginDir, marketplaceDir),
                   this.readPluginMeta(pluginDir),
                 ]);
-                contents = declaredSkillPaths.length > 0
-                  ? { ...scannedContents, skills: await this.scanDeclaredSkills(pluginDir, declaredSkillPaths) }
-                  : scannedContents;
+                if (declaredSkillPaths.length > 0) {
+                  const declaredContents = {
+                    ...scannedContents,
+                    skills: await this.scanDeclaredSkills(pluginDir, declaredSkillPaths),
+                  };
+                  contents = { ...declaredContents, tokenEstimate: estimatePluginTokens(declaredContents) };
+                } else {
+                  contents = scannedContents;
+                }
                 pluginMeta = scannedMeta;
                 lastUpdated = await this.readLastUpdated(pluginDir);
               }
@@ -96,6 +130,7 @@ export class PluginCatalogScanner {
                 description: pluginMeta.description ?? plugin.description ?? '',
                 marketplaceName: mpName,
                 version: pluginMeta.version ?? plugin.version,
+                ...(pluginMeta.author ? { author: pluginMeta.author } : {}),
                 contents,
                 sourceDir: dirExists ? (localSource ?? undefined) : undefined,
                 sourceUrl,
@@ -147,6 +182,36 @@ export class PluginCatalogScanner {
     return result;
   }
 
+  /** 解析 `<plugin>@<marketplace>` 在 marketplace 中的來源目錄；remote source、不存在或逃出 marketplace 時回傳 null */
+  async resolvePluginSource(pluginId: string): Promise<PluginSourceLocation | null> {
+    const lastAt = pluginId.lastIndexOf('@');
+    if (lastAt <= 0) return null;
+    const pluginName = pluginId.slice(0, lastAt);
+    const mpName = pluginId.slice(lastAt + 1);
+
+    const known = await readJsonFile<Record<string, { installLocation?: string }>>(
+      this.options.knownMarketplacesPath,
+      {},
+    );
+    if (!known[mpName]) return null;
+    const marketplaceDir = resolve(known[mpName].installLocation ?? join(this.options.marketplacesDir, mpName));
+    const manifest = await readJsonFile<MarketplaceManifest>(
+      join(marketplaceDir, '.claude-plugin', 'marketplace.json'),
+      {} as MarketplaceManifest,
+    );
+    const entry = (manifest.plugins ?? []).find((p) => p.name === pluginName);
+    if (!entry || typeof entry.source !== 'string') return null;
+
+    const pluginDir = resolve(marketplaceDir, entry.source);
+    if (!isWithinDirectory(marketplaceDir, pluginDir)) return null;
+    try {
+      if (!(await stat(pluginDir)).isDirectory()) return null;
+      return await isRealPathWithinDirectory(marketplaceDir, pluginDir) ? { marketplaceDir, pluginDir } : null;
+    } catch {
+      return null;
+    }
+  }
+
   async scanPluginContents(pluginDir: string, trustedParentDir?: string): Promise<PluginContents> {
     const pluginRoot = resolve(pluginDir);
     const contents: PluginContents = {
@@ -154,7 +219,7 @@ export class PluginCatalogScanner {
       skills: [],
       agents: [],
       mcpServers: [],
-      hooks: false,
+      hooks: [],
     };
 
     if (trustedParentDir) {
@@ -165,33 +230,59 @@ export class PluginCatalogScanner {
       return contents;
     }
 
-    const [commands, skills, agents, mcpKeys, hasHooks] = await Promise.all([
+    const [commands, skills, agents, mcpKeys, hooks] = await Promise.all([
       this.scanMdDir(join(pluginRoot, 'commands'), pluginRoot),
       this.scanSkillsDir(join(pluginRoot, 'skills'), pluginRoot),
       this.scanMdDir(join(pluginRoot, 'agents'), pluginRoot),
       this.readMcpServerKeys(pluginRoot),
-      this.hasHooks(pluginRoot),
+      this.readHooks(pluginRoot),
     ]);
 
     contents.commands = commands;
     contents.skills = skills;
     contents.agents = agents;
     contents.mcpServers = mcpKeys;
-    contents.hooks = hasHooks;
+    contents.hooks = hooks;
+    contents.tokenEstimate = estimatePluginTokens(contents);
 
     return contents;
   }
 
-  private async readPluginMeta(pluginDir: string): Promise<{ description?: string; version?: string }> {
+  /** 列出 plugin 目錄內的 shell scripts 與 hooks.json 宣告的 hook commands（加入前審查用） */
+  async scanPluginExecutables(pluginDir: string, trustedParentDir: string): Promise<PluginExecutables> {
+    const pluginRoot = resolve(pluginDir);
+    if (!(await isRealPathWithinDirectory(resolve(trustedParentDir), pluginRoot))) {
+      return { scripts: [], hookCommands: [] };
+    }
+    const [scripts, hooks] = await Promise.all([
+      this.scanShellScripts(pluginRoot, pluginRoot),
+      this.readHooks(pluginRoot),
+    ]);
+    const hookCommands = hooks
+      .filter((hook) => hook.type === 'command')
+      .map(({ event, matcher, command }) => ({ event, matcher, command }));
+    return { scripts: scripts.sort(), hookCommands };
+  }
+
+  private async readPluginMeta(pluginDir: string): Promise<PluginMeta> {
     const pluginRoot = resolve(pluginDir);
     const pluginJsonPath = join(pluginRoot, '.claude-plugin', 'plugin.json');
     if (!(await isRealPathWithinDirectory(pluginRoot, pluginJsonPath))) {
       return {};
     }
-    return readJsonFile<{ description?: string; version?: string }>(
-      pluginJsonPath,
-      {},
-    ).catch(() => ({} as { description?: string; version?: string }));
+    let raw: unknown;
+    try {
+      raw = await readJsonFile<unknown>(pluginJsonPath, {});
+    } catch {
+      return {};
+    }
+    if (!isPlainObject(raw)) return {};
+    const author = normalizePluginAuthor(raw.author);
+    return {
+      ...(typeof raw.description === 'string' ? { description: raw.description } : {}),
+      ...(typeof raw.version === 'string' ? { version: raw.version } : {}),
+      ...(author ? { author } : {}),
+    };
   }
 
   private async readMcpServerKeys(pluginRoot: string): Promise<string[]> {
@@ -212,14 +303,80 @@ export class PluginCatalogScanner {
     return Object.keys(servers);
   }
 
-  private async hasHooks(pluginRoot: string): Promise<boolean> {
+  /** 遞迴收集 shell script 相對路徑；不跟隨 symlink */
+  private async scanShellScripts(dir: string, pluginRoot: string): Promise<string[]> {
+    let dirents;
+    try {
+      dirents = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const nested = await Promise.all(
+      dirents.map(async (dirent) => {
+        const fullPath = join(dir, dirent.name);
+        if (dirent.isDirectory()) {
+          return SCRIPT_SCAN_SKIP_DIRS.has(dirent.name) ? [] : this.scanShellScripts(fullPath, pluginRoot);
+        }
+        if (dirent.isFile() && SHELL_SCRIPT_EXTENSIONS.some((ext) => dirent.name.endsWith(ext))) {
+          return [normalizeRelativePath(relative(pluginRoot, fullPath))];
+        }
+        return [];
+      }),
+    );
+    return nested.flat();
+  }
+
+  /** 解析 hooks/hooks.json：`{ hooks: { [event]: [{ matcher?, hooks: [{ type, command | prompt | url ... }] }] } }` */
+  private async readHooks(pluginRoot: string): Promise<PluginHook[]> {
     const hooksPath = join(pluginRoot, 'hooks', 'hooks.json');
     if (!(await isRealPathWithinDirectory(pluginRoot, hooksPath))) {
-      return false;
+      return [];
+    }
+    let hooksFile: { hooks?: unknown } | undefined;
+    try {
+      hooksFile = await readJsonFile<{ hooks?: unknown }>(hooksPath, {});
+    } catch (error) {
+      console.warn(`[PluginCatalogScanner] invalid hooks.json: ${hooksPath}`, error);
+      return [];
+    }
+    if (!isPlainObject(hooksFile?.hooks)) {
+      return [];
+    }
+
+    const hooks: PluginHook[] = [];
+    for (const [event, matchers] of Object.entries(hooksFile.hooks)) {
+      if (!Array.isArray(matchers)) continue;
+      for (const matcherEntry of matchers) {
+        if (!isPlainObject(matcherEntry) || !Array.isArray(matcherEntry.hooks)) continue;
+        const matcher = typeof matcherEntry.matcher === 'string' && matcherEntry.matcher
+          ? matcherEntry.matcher
+          : undefined;
+        for (const hook of matcherEntry.hooks) {
+          if (!isPlainObject(hook)) continue;
+          const type = typeof hook.type === 'string' ? hook.type : 'command';
+          const command = getHookContent(type, hook);
+          if (!command) continue;
+          const scriptPath = type === 'command' ? await this.resolveHookScript(pluginRoot, command) : undefined;
+          hooks.push({ event, matcher, type, command, ...(scriptPath ? { scriptPath } : {}) });
+        }
+      }
+    }
+    return hooks;
+  }
+
+  /** command 內 `${CLAUDE_PLUGIN_ROOT}/<path>` 指向 plugin 內既有檔案時回傳絕對路徑 */
+  private async resolveHookScript(pluginRoot: string, command: string): Promise<string | undefined> {
+    const match = PLUGIN_ROOT_SCRIPT_RE.exec(command);
+    if (!match) return undefined;
+    const scriptPath = resolve(pluginRoot, match[1]);
+    if (!isWithinDirectory(pluginRoot, scriptPath)) return undefined;
+    try {
+      if (!(await stat(scriptPath)).isFile()) return undefined;
+    } catch {
+      return undefined;
     }
-    return stat(hooksPath)
-      .then(() => true)
-      .catch(() => false);
+    return await isRealPathWithinDirectory(pluginRoot, scriptPath) ? scriptPath : undefined;
   }
 
   private async readLastUpdated(pluginDir: string): Promise<string | undefined> {
@@ -403,7 +560,8 @@ export class PluginCatalogScanner {
   }
 }
 
-function unwrapMcpServers(mcp: Record<string, unknown>): Record<string, unknown> {
+/** `.mcp.json` 可能是 `{ mcpServers: {...} }` 或直接 `{ [name]: config }` */
+export function unwrapMcpServers(mcp: Record<string, unknown>): Record<string, unknown> {
   const candidate = 'mcpServers' in mcp ? mcp.mcpServers : mcp;
   if (typeof candidate !== 'object' || candidate === null || Array.isArray(candidate)) {
     throw new Error('mcpServers must be an object');
@@ -411,19 +569,33 @@ function unwrapMcpServers(mcp: Record<string, unknown>): Record<string, unknown>
   return candidate as Record<string, unknown>;
 }
 
-function getSourceFormat(source: string | Record<string, unknown>): SourceFormatType | undefined {
-  if (typeof source === 'string') {
-    return source.includes('external_plugins') ? 'local-external' : 'local-internal';
-  }
-  if (typeof source === 'object' && source !== null) {
-    const src = source.source;
-    if (src === 'github') return 'github';
-    if (src === 'git-subdir') return 'git-subdir';
-    if (src === 'url') return typeof source.path === 'string' ? 'url-subdir' : 'url';
+/** 各 hook type 的主要內容（對應 settings hooks 的 getHookContent） */
+function getHookContent(type: string, hook: Record<string, unknown>): string | undefined {
+  const text = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+  switch (type) {
+    case 'prompt':
+    case 'agent':
+      return text(hook.prompt);
+    case 'http':
+      return text(hook.url);
+    case 'mcp_tool':
+      return text(hook.server) && text(hook.tool) ? `${hook.server}/${hook.tool}` : undefined;
+    default:
+      return text(hook.command);
   }
+}
+
+/** plugin.json 的 author 可能是 string 或 `{ name, email?, url? }`，正規化為名稱 */
+export function normalizePluginAuthor(author: unknown): string | undefined {
+  if (typeof author === 'string') return author.trim() || undefined;
+  if (isPlainObject(author) && typeof author.name === 'string') return author.name.trim() || undefined;
   return undefined;
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 function extractSourceUrl(src: Record<string, unknown>): string | undefined {
   // npm → npmjs.com browsable URL
   if (src.source === 'npm' && typeof src.package === 'string') {
@@ -496,7 +668,7 @@ function normalizeRelativePath(relativePath: string): string {
   return normalized === '' ? '.' : normalized;
 }
 
-function isWithinDirectory(parentDir: string, candidatePath: string): boolean {
+export function isWithinDirectory(parentDir: string, candidatePath: string): boolean {
   const rel = relative(resolve(parentDir), resolve(candidatePath));
   return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
 }
@@ -512,7 +684,7 @@ async function isSymbolicLink(candidatePath: string): Promise<boolean> {
   }
 }
 
-async function isRealPathWithinDirectory(parentDir: string, candidatePath: string): Promise<boolean> {
+export async function isRealPathWithinDirectory(parentDir: string, candidatePath: string): Promise<boolean> {
   try {
     const [realParent, realCandidate] = await Promise.all([
       realpath(parentDir),
@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { stat } from 'fs/promises';
+import { resolve } from 'path';
+import { PLUGIN_DEV_LINKS_PATH } from '../paths';
+import type {
+  PluginDevLink,
+  PluginDevLinkIssue,
+  PluginInstallEntry,
+  PluginScope,
+} from '../../shared/types';
+import type { SettingsFileService } from './SettingsFileService';
+import type { FileWatcherService } from './FileWatcherService';
+import type { MarketplaceManifestLinter } from './MarketplaceManifestLinter';
+import { readSourcePluginManifest } from './pluginSourceInstall';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { WriteQueue } from '../utils/WriteQueue';
+import { expandTildePath } from '../utils/pathUtils';
+import { getWorkspacePath } from '../utils/workspace';
+
+/** 單一 scope 的 dev link；previous 為 link 前的 install entry 欄位，unlink 時寫回 */
+interface DevLinkRecord {
+  scope: PluginScope;
+  projectPath?: string;
+  path: string;
+  previous: Pick<PluginInstallEntry, 'installPath' | 'version' | 'gitCommitSha' | 'lastUpdated'>;
+}
+
+/** plugin_dev_links.json：pluginId → 各 scope 的 dev link */
+type DevLinksFile = Record<string, DevLinkRecord[]>;
+
+/**
+ * Plugin dev link：把某 scope 的 installPath 指向本地工作目錄，免重裝即可測試修改。
+ * 工作目錄由 FileWatcherService 監控，變更時重跑 manifest / frontmatter 驗證並發出 onDidChange。
+ * unlink 還原原本的 cache installPath（link 期間由 pruneUnusedCache 保留）。
+ */
+export class PluginDevLinkService implements vscode.Disposable {
+  private readonly queue = new WriteQueue();
+  /** 工作目錄 → 驗證結果（目錄變更時清除） */
+  private readonly issueCache = new Map<string, PluginDevLinkIssue[]>();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+  private readonly disposables: vscode.Disposable[] = [this._onDidChange];
+
+  constructor(
+    private readonly settings: SettingsFileService,
+    private readonly fileWatcher: FileWatcherService,
+    private readonly linter: MarketplaceManifestLinter,
+  ) {
+    this.disposables.push(
+      fileWatcher.onDevLinkFilesChanged(() => {
+        this.issueCache.clear();
+        this._onDidChange.fire();
+      }),
+    );
+    void this.refreshWatchers().catch((err) => {
+      console.warn('[PluginDevLinkService] failed to watch dev links:', err);
+    });
+  }
+
+  /** 目前 workspace 可見且仍生效（installPath 未被 update 取代）的 dev links，含驗證結果 */
+  async list(): Promise<PluginDevLink[]> {
+    const active = await this.readActiveLinks();
+    const currentWorkspace = getCurrentWorkspacePath();
+    const visible = active.filter(({ record }) => (
+      record.scope === 'user' || (currentWorkspace !== null && record.projectPath === currentWorkspace)
+    ));
+    return Promise.all(visible.map(async ({ pluginId, record }) => ({
+      pluginId,
+      scope: record.scope,
+      ...(record.projectPath ? { projectPath: record.projectPath } : {}),
+      path: record.path,
+      issues: await this.validate(pluginId, record.path),
+    })));
+  }
+
+  /**
+   * 將 plugin 在 scope 的 installPath 指向工作目錄；dir 省略時開啟資料夾選擇，取消回傳 null。
+   * 工作目錄的 plugin.json name 必須與 plugin 相同。
+   */
+  async link(plugin: string, scope: PluginScope, dir?: string): Promise<PluginDevLink | null> {
+    const projectPath = scope === 'user' ? undefined : getWorkspacePath();
+    const entry = (await this.settings.readInstalledPlugins()).plugins[plugin]
+      ?.find((e) => e.scope === scope && e.projectPath === projectPath);
+    if (!entry) {
+      throw new Error(`Plugin "${plugin}" is not installed in ${scope} scope.`);
+    }
+
+    const picked = dir ?? await pickFolder();
+    if (!picked) return null;
+    const path = resolve(expandTildePath(picked));
+    if (!(await stat(path).then((s) => s.isDirectory(), () => false))) {
+      throw new Error(`Directory not found: ${path}`);
+    }
+    const manifest = await readSourcePluginManifest(path);
+    const expected = pluginName(plugin);
+    if (manifest.name !== expected) {
+      throw new Error(`Folder contains plugin "${manifest.name}", expected "${expected}".`);
+    }
+
+    await this.updateLinks((links) => {
+      const records = links[plugin] ?? [];
+      const existing = records.find((r) => r.scope === scope && r.projectPath === projectPath);
+      // 已 link 時換資料夾：保留最初的 cache 版本供 unlink 還原
+      const previous = existing?.previous ?? {
+        installPath: entry.installPath,
+        version: entry.version,
+        lastUpdated: entry.lastUpdated,
+        ...(entry.gitCommitSha ? { gitCommitSha: entry.gitCommitSha } : {}),
+      };
+      links[plugin] = [
+        ...records.filter((r) => r !== existing),
+        { scope, ...(projectPath ? { projectPath } : {}), path, previous },
+      ];
+    });
+    await this.settings.updateInstallEntry(plugin, scope, projectPath, {
+      installPath: path,
+      version: manifest.version ?? entry.version,
+      gitCommitSha: undefined,
+      lastUpdated: new Date().toISOString(),
+    });
+    this.issueCache.delete(path);
+    await this.refreshWatchers();
+
+    return {
+      pluginId: plugin,
+      scope,
+      ...(projectPath ? { projectPath } : {}),
+      path,
+      issues: await this.validate(plugin, path),
+    };
+  }
+
+  /** 還原 link 前的 installPath；plugin 已被移除時只清除記錄 */
+  async unlink(plugin: string, scope: PluginScope): Promise<void> {
+    const projectPath = scope === 'user' ? undefined : getWorkspacePath();
+    let removed: DevLinkRecord | undefined;
+    await this.updateLinks((links) => {
+      const records = links[plugin] ?? [];
+      removed = records.find((r) => r.scope === scope && r.projectPath === projectPath);
+      const rest = records.filter((r) => r !== removed);
+      if (rest.length > 0) links[plugin] = rest;
+      else delete links[plugin];
+    });
+    if (!removed) {
+      throw new Error(`Plugin "${plugin}" is not dev-linked in ${scope} scope.`);
+    }
+
+    await this.settings.updateInstallEntry(plugin, scope, projectPath, {
+      installPath: removed.previous.installPath,
+      version: removed.previous.version,
+      gitCommitSha: removed.previous.gitCommitSha,
+      lastUpdated: removed.previous.lastUpdated,
+    });
+    await this.refreshWatchers();
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+  }
+
+  /** 依仍生效的 dev links 重建工作目錄 watchers */
+  private async refreshWatchers(): Promise<void> {
+    const active = await this.readActiveLinks();
+    this.fileWatcher.watchDevLinkDirs(active.map(({ record }) => record.path));
+  }
+
+  /** installed_plugins.json 的 installPath 仍指向工作目錄的記錄 */
+  private async readActiveLinks(): Promise<Array<{ pluginId: string; record: DevLinkRecord }>> {
+    const [links, installed] = await Promise.all([readDevLinks(), this.settings.readInstalledPlugins()]);
+    return Object.entries(links).flatMap(([pluginId, records]) => records
+      .filter((record) => installed.plugins[pluginId]?.some((e) => (
+        e.scope === record.scope && e.projectPath === record.projectPath && e.installPath === record.path
+      )))
+      .map((record) => ({ pluginId, record })));
+  }
+
+  private async validate(plugin: string, path: string): Promise<PluginDevLinkIssue[]> {
+    const cached = this.issueCache.get(path);
+    if (cached) return cached;
+    const issues = (await this.linter.lintPluginDir(path, path, pluginName(plugin)))
+      .map(({ severity, message }) => ({ severity, message }));
+    this.issueCache.set(path, issues);
+    return issues;
+  }
+
+  private async updateLinks(update: (links: DevLinksFile) => void): Promise<void> {
+    await this.queue.enqueue(async () => {
+      const links = await readDevLinks();
+      update(links);
+      await writeJsonFileAtomic(PLUGIN_DEV_LINKS_PATH, links);
+    });
+  }
+}
+
+/** 讀取 plugin_dev_links.json（PluginService.pruneUnusedCache 也用來保留 link 前的 cache 目錄） */
+export async function readDevLinks(): Promise<DevLinksFile> {
+  const raw = await readJsonFile<Record<string, unknown>>(PLUGIN_DEV_LINKS_PATH, {});
+  return Object.fromEntries(
+    Object.entries(raw)
+      .filter(([, records]) => Array.isArray(records))
+      .map(([pluginId, records]) => [
+        pluginId,
+        (records as unknown[]).filter((r): r is DevLinkRecord => (
+          typeof r === 'object' && r !== null
+          && typeof (r as DevLinkRecord).path === 'string'
+          && typeof (r as DevLinkRecord).previous?.installPath === 'string'
+        )),
+      ]),
+  );
+}
+
+/** `<plugin>@<marketplace>` → plugin 名稱 */
+function pluginName(pluginId: string): string {
+  const lastAt = pluginId.lastIndexOf('@');
+  return lastAt > 0 ? pluginId.slice(0, lastAt) : pluginId;
+}
+
+async function pickFolder(): Promise<string | null> {
+  const uris = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    openLabel: 'Link Folder',
+  });
+  return uris?.[0]?.fsPath ?? null;
+}
+
+function getCurrentWorkspacePath(): string | null {
+  try {
+    return getWorkspacePath();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,396 @@
+import * as vscode from 'vscode';
+import { mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import type {
+  Marketplace,
+  MarketplaceSourceType,
+  PluginInstallEntry,
+  PluginLockDrift,
+  PluginLockDriftKind,
+  PluginLockEntry,
+  PluginLockfile,
+  PluginLockStatus,
+  PluginLockSyncItemResult,
+  PluginLockSyncResult,
+  PluginSourceOrigin,
+} from '../../shared/types';
+import type { SettingsFileService } from './SettingsFileService';
+import type { MarketplaceService } from './MarketplaceService';
+import { readPluginSources, type PluginService } from './PluginService';
+import { readDevLinks } from './PluginDevLinkService';
+import { parsePluginSource } from './pluginSourceInstall';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { WriteQueue } from '../utils/WriteQueue';
+import { getWorkspacePath, NoWorkspaceError } from '../utils/workspace';
+import { toErrorMessage } from '../../shared/errorUtils';
+
+/** workspace 內的 lockfile 位置 */
+export const PLUGIN_LOCKFILE_RELATIVE_PATH = join('.claude', 'plugins.lock.json');
+
+/** 需要安裝 / 更新才能修正的差異 */
+const INSTALL_DRIFT_KINDS: ReadonlySet<PluginLockDriftKind> = new Set(['missing', 'commit', 'version']);
+
+const SYNC_ACTION = 'Sync';
+
+/** lockfile marketplace source → 記錄來源的欄位與 parsePluginSource 應解析出的類型 */
+const MARKETPLACE_SOURCE_FIELDS: Record<MarketplaceSourceType, { field: 'repo' | 'url' | 'path'; origin: PluginSourceOrigin['type'] }> = {
+  github: { field: 'repo', origin: 'github' },
+  git: { field: 'url', origin: 'git' },
+  directory: { field: 'path', origin: 'local' },
+};
+
+/** 取得 lockfile 路徑，無 workspace 時回傳 undefined */
+function currentLockfilePath(): string | undefined {
+  try {
+    return join(getWorkspacePath(), PLUGIN_LOCKFILE_RELATIVE_PATH);
+  } catch (e) {
+    if (e instanceof NoWorkspaceError) return undefined;
+    throw e;
+  }
+}
+
+/** `<plugin>@<marketplace>` → marketplace 名稱 */
+function marketplaceName(pluginId: string): string {
+  const lastAt = pluginId.lastIndexOf('@');
+  return lastAt > 0 ? pluginId.slice(lastAt + 1) : '';
+}
+
+/** marketplace add 的 source 參數 */
+function marketplaceAddSource(entry: PluginLockEntry): string | undefined {
+  const mp = entry.marketplace;
+  return mp ? mp[MARKETPLACE_SOURCE_FIELDS[mp.source].field] : undefined;
+}
+
+/** modal 顯示的 plugin 來源 */
+function describeEntrySource(pluginId: string, entry: PluginLockEntry): string {
+  if (entry.origin) {
+    return entry.origin.subdir ? `${entry.origin.source} (${entry.origin.subdir})` : entry.origin.source;
+  }
+  return `marketplace "${marketplaceName(pluginId)}"`;
+}
+
+/**
+ * 專案 plugin lockfile（`.claude/plugins.lock.json`）：記錄 project scope plugin 的來源、版本與 commit，
+ * 讓團隊成員開啟 repo 後可一鍵同步成相同的 plugin 設定。
+ * Sync 先以 modal 列出將加入的 marketplace、釘選與每個 plugin 的動作和來源，確認後補上缺少的 marketplace、
+ * 把 git marketplace 釘選到記錄的 commit，再安裝 / 更新 / 啟用 plugin（install / enable 經安全審查）。
+ */
+export class PluginLockfileService {
+  /** 序列化 write / sync，避免同時改寫 installed_plugins.json */
+  private readonly queue = new WriteQueue();
+
+  constructor(
+    private readonly settings: SettingsFileService,
+    private readonly plugins: PluginService,
+    private readonly marketplaces: MarketplaceService,
+  ) {}
+
+  /** 以目前 workspace 的 project scope entries 產生 lockfile（覆寫既有檔案） */
+  async write(): Promise<PluginLockfile> {
+    return this.queue.enqueue(async () => {
+      const path = currentLockfilePath();
+      if (!path) throw new NoWorkspaceError();
+
+      const workspacePath = getWorkspacePath();
+      const [data, enabled, marketplaces, sources, devLinks] = await Promise.all([
+        this.settings.readInstalledPlugins(),
+        this.settings.readEnabledPlugins('project'),
+        this.marketplaces.list(),
+        readPluginSources(),
+        readDevLinks(),
+      ]);
+      const marketplaceByName = new Map(marketplaces.map((mp) => [mp.name, mp]));
+
+      const plugins: Record<string, PluginLockEntry> = {};
+      for (const pluginId of Object.keys(data.plugins).sort()) {
+        const entry = data.plugins[pluginId].find((e) => e.scope === 'project' && e.projectPath === workspacePath);
+        if (!entry) continue;
+        // dev link 期間記錄 link 前的 cache 版本
+        const installed = devLinks[pluginId]
+          ?.find((r) => r.scope === 'project' && r.projectPath === workspacePath)?.previous ?? entry;
+        const mp = marketplaceByName.get(marketplaceName(pluginId));
+        plugins[pluginId] = {
+          ...(sources[pluginId]
+            ? { origin: sources[pluginId] }
+            : mp ? { marketplace: { name: mp.name, source: mp.source, repo: mp.repo, url: mp.url, path: mp.path } } : {}),
+          version: installed.version,
+          ...(installed.gitCommitSha ? { gitCommitSha: installed.gitCommitSha } : {}),
+          enabled: enabled[pluginId] === true,
+        };
+      }
+
+      const lockfile: PluginLockfile = { version: 1, plugins };
+      await mkdir(dirname(path), { recursive: true });
+      await writeJsonFileAtomic(path, lockfile);
+      return lockfile;
+    });
+  }
+
+  /** 比對 lockfile 與目前 workspace 的 project scope 安裝 / 啟用狀態 */
+  async status(): Promise<PluginLockStatus> {
+    const path = currentLockfilePath();
+    if (!path) return { exists: false, drift: [] };
+    let lockfile: PluginLockfile | null;
+    try {
+      lockfile = await readLockfile(path);
+    } catch (e) {
+      return { path, exists: true, drift: [], error: toErrorMessage(e) };
+    }
+    if (!lockfile) return { path, exists: false, drift: [] };
+    return { path, exists: true, drift: await this.computeDrift(lockfile) };
+  }
+
+  /**
+   * 依 lockfile 修正所有差異：使用者確認 sync 內容後，逐一 plugin 處理，單一失敗不中斷其他 plugin。
+   * 同一 marketplace 只釘選一次（第一個需要的 commit）。取消時回傳空結果。
+   */
+  async sync(): Promise<PluginLockSyncResult> {
+    return this.queue.enqueue(async () => {
+      const path = currentLockfilePath();
+      if (!path) throw new NoWorkspaceError();
+      const lockfile = await readLockfile(path);
+      if (!lockfile) {
+        throw new Error(`No lockfile found at ${path}.`);
+      }
+
+      const kindsByPlugin = new Map<string, Set<PluginLockDriftKind>>();
+      for (const { pluginId, kind } of await this.computeDrift(lockfile)) {
+        const kinds = kindsByPlugin.get(pluginId) ?? new Set<PluginLockDriftKind>();
+        kinds.add(kind);
+        kindsByPlugin.set(pluginId, kinds);
+      }
+
+      if (kindsByPlugin.size === 0) return { results: [] };
+
+      // lockfile 來自 repo，不可信任：先列出所有來源與動作讓使用者確認
+      const choice = await vscode.window.showWarningMessage(
+        `Sync ${kindsByPlugin.size} plugin(s) from .claude/plugins.lock.json? Only continue if you trust the sources it lists.`,
+        { modal: true, detail: (await this.describeSync(lockfile, kindsByPlugin)).join('\n') },
+        SYNC_ACTION,
+      );
+      if (choice !== SYNC_ACTION) return { results: [] };
+
+      const errors = new Map<string, unknown>();
+      // 1. 補上 marketplace 並釘選，marketplace plugin 才能在安裝前審查
+      const pinned = new Set<string>();
+      for (const [pluginId, kinds] of kindsByPlugin) {
+        const entry = lockfile.plugins[pluginId];
+        if (entry.origin || !needsInstall(kinds)) continue;
+        try {
+          await this.prepareMarketplace(pluginId, entry, pinned);
+        } catch (error) {
+          errors.set(pluginId, error);
+        }
+      }
+
+      // 2. 需要 install / enable 的 plugin 以一個安全審查 modal 確認（source 安裝在 installFromSource 內審查）
+      const toReview = [...kindsByPlugin]
+        .filter(([pluginId, kinds]) => !errors.has(pluginId) && (
+          (kinds.has('missing') && !lockfile.plugins[pluginId].origin)
+          || (lockfile.plugins[pluginId].enabled && kinds.has('enabled'))
+        ))
+        .map(([pluginId]) => pluginId);
+      for (const pluginId of await this.plugins.confirmSecurityReviews(toReview)) {
+        errors.set(pluginId, new Error('Skipped: security review not confirmed'));
+      }
+
+      // 3. 逐一安裝 / 更新 / 套用啟用狀態
+      const results: PluginLockSyncItemResult[] = [];
+      for (const [pluginId, kinds] of kindsByPlugin) {
+        if (!errors.has(pluginId)) {
+          try {
+            await this.syncPlugin(pluginId, lockfile.plugins[pluginId], kinds);
+          } catch (error) {
+            errors.set(pluginId, error);
+          }
+        }
+        results.push(errors.has(pluginId)
+          ? { pluginId, status: 'failed', error: toErrorMessage(errors.get(pluginId)) }
+          : { pluginId, status: 'synced' });
+      }
+      return { results };
+    });
+  }
+
+  /** 確認 modal 的內容：將加入 / 釘選的 marketplace（含來源），以及每個 plugin 的動作與來源 */
+  private async describeSync(
+    lockfile: PluginLockfile,
+    kindsByPlugin: Map<string, Set<PluginLockDriftKind>>,
+  ): Promise<string[]> {
+    const known = new Map((await this.marketplaces.list()).map((mp) => [mp.name, mp]));
+    const marketplaceLines = new Map<string, string[]>();
+    const pluginLines: string[] = [];
+    for (const [pluginId, kinds] of kindsByPlugin) {
+      const entry = lockfile.plugins[pluginId];
+      const actions: string[] = [];
+      if (needsInstall(kinds)) actions.push(kinds.has('missing') ? 'install' : 'update');
+      if (entry.enabled && kinds.has('enabled')) actions.push('enable');
+      else if (!entry.enabled && (kinds.has('missing') || kinds.has('disabled'))) actions.push('disable');
+      pluginLines.push(`${pluginId}: ${actions.join(' + ')} from ${describeEntrySource(pluginId, entry)}`);
+
+      const name = marketplaceName(pluginId);
+      if (entry.origin || !needsInstall(kinds) || marketplaceLines.has(name)) continue;
+      const marketplace = known.get(name);
+      const lines: string[] = [];
+      if (!marketplace) {
+        lines.push(`Add marketplace "${name}" from ${marketplaceAddSource(entry) ?? '(no source)'}`);
+      }
+      const source = marketplace?.source ?? entry.marketplace?.source;
+      if ((source === 'git' || source === 'github') && entry.gitCommitSha && marketplace?.headSha !== entry.gitCommitSha) {
+        lines.push(`Pin marketplace "${name}" to ${entry.gitCommitSha.slice(0, 12)}`);
+      }
+      marketplaceLines.set(name, lines);
+    }
+    return [...[...marketplaceLines.values()].flat(), ...pluginLines];
+  }
+
+  /** 套用單一 plugin 的差異（marketplace 已在 sync 第 1 步準備好） */
+  private async syncPlugin(
+    pluginId: string,
+    entry: PluginLockEntry,
+    kinds: Set<PluginLockDriftKind>,
+  ): Promise<void> {
+    const missing = kinds.has('missing');
+    if (needsInstall(kinds)) {
+      if (entry.origin) {
+        if (!missing) {
+          throw new Error(`Plugins installed from source cannot be pinned to ${entry.gitCommitSha ?? entry.version}; reinstall it from ${entry.origin.source}.`);
+        }
+        await this.plugins.installFromSource(entry.origin.source, 'project', entry.origin.subdir);
+      } else {
+        if (missing) {
+          await this.plugins.install(pluginId, 'project');
+        } else {
+          await this.plugins.update(pluginId, 'project');
+        }
+      }
+    }
+
+    // install 一律啟用；lockfile 記錄停用時再關閉
+    if (entry.enabled && kinds.has('enabled')) {
+      await this.plugins.enable(pluginId, 'project');
+    } else if (!entry.enabled && (missing || kinds.has('disabled'))) {
+      await this.plugins.disable(pluginId, 'project');
+    }
+  }
+
+  /** 補上未註冊的 marketplace，並把 git marketplace 釘選到 lockfile 記錄的 commit */
+  private async prepareMarketplace(pluginId: string, entry: PluginLockEntry, pinned: Set<string>): Promise<void> {
+    const name = marketplaceName(pluginId);
+    let marketplace = await this.findMarketplace(name);
+    if (!marketplace) {
+      const source = marketplaceAddSource(entry);
+      if (!source) {
+        throw new Error(`Marketplace "${name}" is not installed and the lockfile has no source for it.`);
+      }
+      await this.marketplaces.add(source);
+      marketplace = await this.findMarketplace(name);
+      if (!marketplace) {
+        throw new Error(`Adding ${source} did not register marketplace "${name}".`);
+      }
+    }
+
+    const isGit = marketplace.source === 'git' || marketplace.source === 'github';
+    if (isGit && entry.gitCommitSha && !pinned.has(name) && marketplace.headSha !== entry.gitCommitSha) {
+      await this.marketplaces.pin(name, entry.gitCommitSha);
+      pinned.add(name);
+    }
+  }
+
+  private async findMarketplace(name: string): Promise<Marketplace | undefined> {
+    return (await this.marketplaces.list()).find((mp) => mp.name === name);
+  }
+
+  /** lockfile 內每個 plugin 與目前 project scope entry 的差異（dev link 中的 plugin 以 link 前的版本比對） */
+  private async computeDrift(lockfile: PluginLockfile): Promise<PluginLockDrift[]> {
+    const workspacePath = getWorkspacePath();
+    const [data, enabled, devLinks] = await Promise.all([
+      this.settings.readInstalledPlugins(),
+      this.settings.readEnabledPlugins('project'),
+      readDevLinks(),
+    ]);
+
+    const drift: PluginLockDrift[] = [];
+    for (const [pluginId, locked] of Object.entries(lockfile.plugins)) {
+      const entry = data.plugins[pluginId]?.find((e) => e.scope === 'project' && e.projectPath === workspacePath);
+      if (!entry) {
+        drift.push({ pluginId, kind: 'missing' });
+        continue;
+      }
+      const installed: Pick<PluginInstallEntry, 'version' | 'gitCommitSha'> = devLinks[pluginId]
+        ?.find((r) => r.scope === 'project' && r.projectPath === workspacePath)?.previous ?? entry;
+      if (locked.gitCommitSha && installed.gitCommitSha !== locked.gitCommitSha) {
+        drift.push({ pluginId, kind: 'commit', expected: locked.gitCommitSha, actual: installed.gitCommitSha });
+      } else if (!locked.gitCommitSha && installed.version !== locked.version) {
+        drift.push({ pluginId, kind: 'version', expected: locked.version, actual: installed.version });
+      }
+      const isEnabled = enabled[pluginId] === true;
+      if (locked.enabled !== isEnabled) {
+        drift.push({ pluginId, kind: locked.enabled ? 'enabled' : 'disabled' });
+      }
+    }
+    return drift;
+  }
+}
+
+/** 有需要安裝 / 更新才能修正的差異 */
+function needsInstall(kinds: Set<PluginLockDriftKind>): boolean {
+  return [...kinds].some((kind) => INSTALL_DRIFT_KINDS.has(kind));
+}
+
+/** origin 必須是 parsePluginSource 可接受、且類型相符的 source */
+function isValidOrigin(origin: unknown): boolean {
+  if (typeof origin !== 'object' || origin === null) return false;
+  const { type, source, subdir } = origin as Partial<PluginSourceOrigin>;
+  if (typeof source !== 'string' || (subdir !== undefined && typeof subdir !== 'string')) return false;
+  try {
+    return parsePluginSource(source, subdir).type === type;
+  } catch {
+    return false;
+  }
+}
+
+/** marketplace 名稱須與 pluginId 相符，source 欄位須是對應類型的 repo / URL / 路徑 */
+function isValidMarketplace(pluginId: string, marketplace: unknown): boolean {
+  if (typeof marketplace !== 'object' || marketplace === null) return false;
+  const mp = marketplace as Partial<PluginLockEntry['marketplace'] & object>;
+  if (mp.name !== marketplaceName(pluginId) || !mp.source || !Object.hasOwn(MARKETPLACE_SOURCE_FIELDS, mp.source)) {
+    return false;
+  }
+  const { field, origin } = MARKETPLACE_SOURCE_FIELDS[mp.source];
+  const value = mp[field];
+  if (typeof value !== 'string') return false;
+  try {
+    return parsePluginSource(value).type === origin;
+  } catch {
+    return false;
+  }
+}
+
+/** 讀取並驗證 lockfile；檔案不存在回傳 null，格式不符拋錯 */
+async function readLockfile(path: string): Promise<PluginLockfile | null> {
+  const raw = await readJsonFile<unknown>(path, null);
+  if (raw === null) return null;
+  const plugins = (raw as Partial<PluginLockfile>).plugins;
+  if (typeof raw !== 'object' || typeof plugins !== 'object' || plugins === null || Array.isArray(plugins)) {
+    throw new Error(`Invalid lockfile ${path}: missing "plugins".`);
+  }
+  for (const [pluginId, entry] of Object.entries(plugins)) {
+    if (
+      typeof entry !== 'object' || entry === null
+      || typeof entry.version !== 'string' || typeof entry.enabled !== 'boolean'
+    ) {
+      throw new Error(`Invalid lockfile ${path}: entry "${pluginId}" needs "version" and "enabled".`);
+    }
+    if (entry.origin !== undefined && entry.marketplace !== undefined) {
+      throw new Error(`Invalid lockfile ${path}: entry "${pluginId}" cannot have both "origin" and "marketplace".`);
+    }
+    if (entry.origin !== undefined && !isValidOrigin(entry.origin)) {
+      throw new Error(`Invalid lockfile ${path}: entry "${pluginId}" has an invalid "origin".`);
+    }
+    if (entry.marketplace !== undefined && !isValidMarketplace(pluginId, entry.marketplace)) {
+      throw new Error(`Invalid lockfile ${path}: entry "${pluginId}" has an invalid "marketplace".`);
+    }
+  }
+  return { version: 1, plugins };
+}
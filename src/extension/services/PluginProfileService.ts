@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import type {
+  PluginProfile,
+  PluginProfileChange,
+  PluginProfileDiff,
+  PluginProfileList,
+  PluginScope,
+} from '../../shared/types';
+import type { PluginService } from './PluginService';
+import type { PreferencesService } from './PreferencesService';
+import type { SettingsFileService } from './SettingsFileService';
+import { getWorkspacePath, NoWorkspaceError } from '../utils/workspace';
+import { toErrorMessage } from '../../shared/errorUtils';
+
+const SCOPES: PluginScope[] = ['user', 'project', 'local'];
+
+/** Profile 清單的偏好 key */
+const PROFILES_PREF_KEY = 'plugin.profiles';
+/** 各 workspace 最後套用的 profile（workspace path → profile name） */
+const ACTIVE_PROFILES_PREF_KEY = 'plugin.profiles.active';
+/** 無 workspace 時 active profile 的 key */
+const NO_WORKSPACE_KEY = '';
+
+const APPLY_ACTION = 'Apply';
+
+/** 取得目前 workspace path，無 workspace 時回傳 undefined */
+function currentWorkspace(): string | undefined {
+  try {
+    return getWorkspacePath();
+  } catch (e) {
+    if (e instanceof NoWorkspaceError) return undefined;
+    throw e;
+  }
+}
+
+/** 供 modal detail 顯示的 diff 文字 */
+export function formatProfileDiff(diff: PluginProfileDiff): string {
+  const lines = [
+    ...diff.toEnable.map((c) => `+ ${c.pluginId} (${c.scope})`),
+    ...diff.toDisable.map((c) => `- ${c.pluginId} (${c.scope})`),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * 具名 plugin profile：儲存 / 套用各 scope enabledPlugins 的快照。
+ * Profile 存在 PreferencesService（跨 workspace 共用），active profile 依 workspace 記錄。
+ * 套用前先算出 diff；啟用經 PluginService（安全審查閘門），停用透過 SettingsFileService.setPluginEnabled。
+ */
+export class PluginProfileService {
+  constructor(
+    private readonly settings: SettingsFileService,
+    private readonly preferences: PreferencesService,
+    private readonly plugin: PluginService,
+  ) {}
+
+  /** 列出所有 profile 與目前 workspace 的 active profile */
+  list(): PluginProfileList {
+    const prefs = this.preferences.readAll();
+    const profiles = Array.isArray(prefs[PROFILES_PREF_KEY])
+      ? (prefs[PROFILES_PREF_KEY] as PluginProfile[])
+      : [];
+    const active = (prefs[ACTIVE_PROFILES_PREF_KEY] ?? {}) as Record<string, string>;
+    const activeProfile = active[currentWorkspace() ?? NO_WORKSPACE_KEY];
+    return {
+      profiles,
+      activeProfile: profiles.some((p) => p.name === activeProfile) ? activeProfile : undefined,
+    };
+  }
+
+  /** 以目前 enabledPlugins 建立（或覆寫同名）profile */
+  async save(name: string): Promise<PluginProfile> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required.');
+    }
+    const profile: PluginProfile = {
+      name: trimmed,
+      enabledPlugins: await this.readSnapshot(),
+      updatedAt: new Date().toISOString(),
+    };
+    const { profiles } = this.list();
+    const index = profiles.findIndex((p) => p.name === trimmed);
+    const next = index >= 0
+      ? profiles.map((p, i) => (i === index ? profile : p))
+      : [...profiles, profile];
+    await this.preferences.write(PROFILES_PREF_KEY, next);
+    await this.setActive(trimmed);
+    return profile;
+  }
+
+  /** 刪除 profile */
+  async remove(name: string): Promise<void> {
+    const { profiles } = this.list();
+    this.find(profiles, name);
+    await this.preferences.write(PROFILES_PREF_KEY, profiles.filter((p) => p.name !== name));
+  }
+
+  /** 計算套用 profile 會啟用 / 停用的 plugin（不寫入） */
+  async preview(name: string): Promise<PluginProfileDiff> {
+    const profile = this.find(this.list().profiles, name);
+    const current = await this.readSnapshot();
+    const toEnable: PluginProfileChange[] = [];
+    const toDisable: PluginProfileChange[] = [];
+
+    for (const scope of SCOPES) {
+      const target = profile.enabledPlugins[scope];
+      const enabled = current[scope];
+      // profile 未記錄此 scope，或目前無 workspace 無法寫入 → 不動
+      if (!target || !enabled) continue;
+      const targetSet = new Set(target);
+      const enabledSet = new Set(enabled);
+      for (const pluginId of target) {
+        if (!enabledSet.has(pluginId)) toEnable.push({ pluginId, scope });
+      }
+      for (const pluginId of enabled) {
+        if (!targetSet.has(pluginId)) toDisable.push({ pluginId, scope });
+      }
+    }
+    return { name: profile.name, toEnable, toDisable };
+  }
+
+  /** 套用 profile：依 diff 逐一寫入 enabled 狀態，回傳實際套用的 diff（安全審查未確認的 plugin 不啟用） */
+  async apply(name: string): Promise<PluginProfileDiff> {
+    const preview = await this.preview(name);
+    const declined = new Set(await this.plugin.confirmSecurityReviews(preview.toEnable.map((c) => c.pluginId)));
+    const diff = { ...preview, toEnable: preview.toEnable.filter((c) => !declined.has(c.pluginId)) };
+    for (const { pluginId, scope } of diff.toEnable) {
+      await this.plugin.enable(pluginId, scope);
+    }
+    for (const { pluginId, scope } of diff.toDisable) {
+      await this.settings.setPluginEnabled(pluginId, scope, false);
+    }
+    await this.setActive(diff.name);
+    return diff;
+  }
+
+  /**
+   * Command palette / sidebar 入口：QuickPick 選 profile → modal 顯示 diff → 確認後套用。
+   * 錯誤以 error message 呈現，不往外拋。
+   */
+  async pickAndApply(name?: string): Promise<void> {
+    try {
+      const { profiles, activeProfile } = this.list();
+      if (profiles.length === 0) {
+        void vscode.window.showInformationMessage('No plugin profiles yet. Save one from the Plugins page.');
+        return;
+      }
+      const target = name ?? (await vscode.window.showQuickPick(
+        profiles.map((p) => ({
+          label: p.name,
+          description: p.name === activeProfile ? 'active' : undefined,
+          detail: SCOPES
+            .filter((scope) => p.enabledPlugins[scope])
+            .map((scope) => `${scope}: ${p.enabledPlugins[scope]!.length}`)
+            .join(' · '),
+        })),
+        { placeHolder: 'Select a plugin profile to apply' },
+      ))?.label;
+      if (!target) return;
+
+      const diff = await this.preview(target);
+      if (diff.toEnable.length === 0 && diff.toDisable.length === 0) {
+        await this.setActive(diff.name);
+        void vscode.window.showInformationMessage(`Plugins already match profile "${diff.name}".`);
+        return;
+      }
+      const choice = await vscode.window.showWarningMessage(
+        `Apply plugin profile "${diff.name}"? ${diff.toEnable.length} to enable, ${diff.toDisable.length} to disable.`,
+        { modal: true, detail: formatProfileDiff(diff) },
+        APPLY_ACTION,
+      );
+      if (choice !== APPLY_ACTION) return;
+
+      const applied = await this.apply(diff.name);
+      const skipped = diff.toEnable.length - applied.toEnable.length;
+      void vscode.window.showInformationMessage(skipped > 0
+        ? `Applied plugin profile "${diff.name}". ${skipped} plugin(s) skipped: security review not confirmed.`
+        : `Applied plugin profile "${diff.name}".`);
+    } catch (e) {
+      void vscode.window.showErrorMessage(`Failed to apply plugin profile: ${toErrorMessage(e)}`);
+    }
+  }
+
+  private find(profiles: PluginProfile[], name: string): PluginProfile {
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) {
+      throw new Error(`Plugin profile "${name}" not found.`);
+    }
+    return profile;
+  }
+
+  /** 目前各 scope 啟用的 plugin；無 workspace 時只含 user */
+  private async readSnapshot(): Promise<Partial<Record<PluginScope, string[]>>> {
+    const all = await this.settings.readAllEnabledPlugins();
+    const scopes = currentWorkspace() ? SCOPES : (['user'] as PluginScope[]);
+    const snapshot: Partial<Record<PluginScope, string[]>> = {};
+    for (const scope of scopes) {
+      snapshot[scope] = Object.entries(all[scope])
+        .filter(([, enabled]) => enabled === true)
+        .map(([pluginId]) => pluginId)
+        .sort();
+    }
+    return snapshot;
+  }
+
+  /** 記錄目前 workspace 最後套用的 profile */
+  private async setActive(name: string): Promise<void> {
+    const prefs = this.preferences.readAll();
+    const active = { ...((prefs[ACTIVE_PROFILES_PREF_KEY] ?? {}) as Record<string, string>) };
+    active[currentWorkspace() ?? NO_WORKSPACE_KEY] = name;
+    await this.preferences.write(ACTIVE_PROFILES_PREF_KEY, active);
+  }
+}
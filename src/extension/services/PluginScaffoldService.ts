@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { access, mkdir, stat, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, join } from 'path';
+import type { PluginScaffoldOptions, PluginScaffoldResult } from '../../shared/types';
+import { toErrorMessage } from '../../shared/errorUtils';
+import { expandTildePath } from '../utils/pathUtils';
+import type { MarketplaceService } from './MarketplaceService';
+
+/** marketplace / plugin 名稱：kebab-case（與 `<plugin>@<marketplace>` id 相容） */
+const SCAFFOLD_NAME_RE = /^[a-z0-9][a-z0-9-]*$/;
+
+/** 新 plugin 的初始版本 */
+const INITIAL_VERSION = '0.1.0';
+
+/**
+ * 建立本地 directory marketplace 與 plugin skeleton，並透過 MarketplaceService.add 註冊。
+ * 目錄結構與 PluginCatalogScanner 掃描的 layout 一致。
+ */
+export class PluginScaffoldService {
+  constructor(
+    private readonly marketplace: MarketplaceService,
+  ) {}
+
+  /** 選擇 marketplace 的建立位置，使用者取消時回傳 null */
+  async pickParentDirectory(): Promise<string | null> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const uris = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: folder?.uri,
+      openLabel: 'Select Folder',
+    });
+    return uris?.[0]?.fsPath ?? null;
+  }
+
+  async scaffold(options: PluginScaffoldOptions): Promise<PluginScaffoldResult> {
+    const { marketplaceName, pluginName } = options;
+    for (const [label, name] of [['Marketplace', marketplaceName], ['Plugin', pluginName]] as const) {
+      if (!SCAFFOLD_NAME_RE.test(name)) {
+        throw new Error(`${label} name must be lowercase letters, digits and dashes: "${name}"`);
+      }
+    }
+
+    const parentDir = expandTildePath(options.parentDir.trim());
+    if (!isAbsolute(parentDir)) {
+      throw new Error(`Location must be an absolute path: "${options.parentDir}"`);
+    }
+    const parentStat = await stat(parentDir).catch(() => null);
+    if (!parentStat?.isDirectory()) {
+      throw new Error(`Location does not exist: ${parentDir}`);
+    }
+
+    const marketplaceDir = join(parentDir, marketplaceName);
+    if (await access(marketplaceDir).then(() => true, () => false)) {
+      throw new Error(`${marketplaceDir} already exists`);
+    }
+
+    const files = buildScaffoldFiles(options);
+    for (const [relativePath, content] of Object.entries(files)) {
+      const filePath = join(marketplaceDir, relativePath);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, content, { flag: 'wx' });
+    }
+
+    try {
+      await this.marketplace.add(marketplaceDir);
+    } catch (err) {
+      throw new Error(`Created ${marketplaceDir} but failed to add it as a marketplace: ${toErrorMessage(err)}`, { cause: err });
+    }
+
+    return {
+      marketplaceDir,
+      pluginDir: join(marketplaceDir, 'plugins', pluginName),
+      files: Object.keys(files),
+    };
+  }
+}
+
+/** 產生 skeleton 檔案內容（key 為相對 marketplace 目錄的路徑） */
+export function buildScaffoldFiles(options: PluginScaffoldOptions): Record<string, string> {
+  const { marketplaceName, pluginName, includeHooks, includeMcp } = options;
+  const description = options.description.trim() || `${pluginName} plugin`;
+  const author = options.author?.trim();
+  const pluginRoot = `plugins/${pluginName}`;
+
+  const files: Record<string, string> = {
+    '.claude-plugin/marketplace.json': toJson({
+      name: marketplaceName,
+      owner: { name: author || marketplaceName },
+      plugins: [{
+        name: pluginName,
+        description,
+        version: INITIAL_VERSION,
+        source: `./${pluginRoot}`,
+      }],
+    }),
+    [`${pluginRoot}/.claude-plugin/plugin.json`]: toJson({
+      name: pluginName,
+      version: INITIAL_VERSION,
+      description,
+      ...(author ? { author: { name: author } } : {}),
+    }),
+    [`${pluginRoot}/commands/hello.md`]: frontmatter(
+      { description: `Say hello from ${pluginName}` },
+      'Greet the user and briefly explain what this plugin provides.\n\n$ARGUMENTS',
+    ),
+    [`${pluginRoot}/skills/${pluginName}/SKILL.md`]: frontmatter(
+      { name: pluginName, description: `Use when working with ${pluginName}` },
+      `# ${pluginName}\n\nDescribe when and how Claude should use this skill.`,
+    ),
+    [`${pluginRoot}/agents/${pluginName}-agent.md`]: frontmatter(
+      { name: `${pluginName}-agent`, description: `Specialist agent for ${pluginName} tasks` },
+      `You are a specialist for ${pluginName}. Describe the agent's responsibilities here.`,
+    ),
+  };
+
+  if (includeHooks) {
+    files[`${pluginRoot}/hooks/hooks.json`] = toJson({
+      hooks: {
+        SessionStart: [{
+          hooks: [{ type: 'command', command: `echo "${pluginName} loaded"` }],
+        }],
+      },
+    });
+  }
+  if (includeMcp) {
+    files[`${pluginRoot}/.mcp.json`] = toJson({ mcpServers: {} });
+  }
+  return files;
+}
+
+function toJson(data: unknown): string {
+  return JSON.stringify(data, null, 2) + '\n';
+}
+
+function frontmatter(fields: Record<string, string>, body: string): string {
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${value}`);
+  return `---\n${lines.join('\n')}\n---\n\n${body}\n`;
+}
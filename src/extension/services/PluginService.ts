@@ -1,30 +1,102 @@
+import * as vscode from 'vscode';
 import { readFile, readdir, rm, stat } from 'fs/promises';
 import { join } from 'path';
-import { PLUGINS_CACHE_DIR } from '../paths';
-import { CLI_LONG_TIMEOUT_MS } from '../constants';
+import {
+  KNOWN_MARKETPLACES_PATH,
+  MARKETPLACES_DIR,
+  PLUGIN_HISTORY_PATH,
+  PLUGIN_SECURITY_REVIEWS_PATH,
+  PLUGIN_SOURCES_PATH,
+  PLUGINS_CACHE_DIR,
+} from '../paths';
+import { CLI_LONG_TIMEOUT_MS, PLUGIN_HISTORY_LIMIT } from '../constants';
 import type {
   AvailablePlugin,
   InstalledPlugin,
   InstalledPluginsFile,
+  MarketplaceCloneUsage,
   OrphanedPlugin,
+  PluginBulkAction,
+  PluginBulkItemResult,
+  PluginBulkResult,
+  PluginCacheReference,
+  PluginCacheUsage,
+  PluginChangelog,
+  PluginDetails,
   PluginListResponse,
   PluginScope,
   PluginInstallEntry,
+  PluginSecurityReport,
+  PluginSourceOrigin,
+  PluginStorageUsage,
+  PluginUpdateAllProgress,
+  PluginUpdateAllResult,
+  PluginUpdateItemResult,
+  PluginUpdateTarget,
+  PluginVersionSnapshot,
 } from '../../shared/types';
 import type { CliService } from './CliService';
 import type { SettingsFileService } from './SettingsFileService';
+import type { MarketplaceService } from './MarketplaceService';
 import { getWorkspacePath, NoWorkspaceError } from '../utils/workspace';
+import { toErrorMessage } from '../../shared/errorUtils';
+import { isUpdateAvailable } from '../../shared/pluginUpdates';
+import { needsSecurityAcknowledgement } from '../../shared/pluginSecurityReview';
+import { SecurityReviewDeclinedError } from '../utils/errors';
 import { fixScriptPermissions } from '../utils/fixScriptPermissions';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { WriteQueue } from '../utils/WriteQueue';
+import { readGitHead } from '../utils/git';
+import { diffPluginContentFiles, readPluginChangelog, readPluginGitLog } from './pluginChangelog';
+import { analyzePluginExecutables, readPluginMcpCommands } from './pluginSecurity';
+import { readPluginManifestMetadata, readPluginReadme } from './pluginDetails';
+import { readDevLinks } from './PluginDevLinkService';
+import {
+  copyPluginToCache,
+  fetchPluginSource,
+  parsePluginSource,
+  readSourcePluginManifest,
+  SOURCE_INSTALL_MARKETPLACE,
+} from './pluginSourceInstall';
+
+/** CLI 回報已是最新版本的錯誤訊息 */
+const UP_TO_DATE_RE = /already up[\s-]to[\s-]date|up-to-date|no updates available/i;
+
+const CONTINUE_ACTION = 'Continue';
+/** 批次操作中安全審查未獲確認的 plugin 的失敗訊息 */
+const SECURITY_REVIEW_SKIPPED = 'Skipped: security review not confirmed';
+
+/** plugin_history.json：pluginId → 被取代的版本（新 → 舊） */
+type PluginHistoryFile = Record<string, PluginVersionSnapshot[]>;
+
+/** plugin_security_reviews.json：pluginId → 最近一次審查（reviewKey 相同時沿用）與確認時間 */
+type SecurityReviewFile = Record<string, {
+  report: Omit<PluginSecurityReport, 'acknowledged'>;
+  acknowledgedAt?: string;
+}>;
+
+/** plugin_sources.json：pluginId → 直接從 source 安裝時的來源 */
+type PluginSourcesFile = Record<string, PluginSourceOrigin>;
 
 /**
  * Plugin CRUD。
  * 讀取 / enable / disable / install / uninstall 直接操作設定檔。
  * update 保留 CLI（需 git pull + re-cache）。
+ * update 前的版本記入 plugin_history.json，cache 目錄保留供 rollback。
  */
 export class PluginService {
+  private readonly historyQueue = new WriteQueue();
+  private readonly securityReviewQueue = new WriteQueue();
+  private readonly sourcesQueue = new WriteQueue();
+  /** 來源無法審查（無 reviewKey）但已確認的 plugin，只對下一次 install / enable 有效 */
+  private readonly oneTimeAcknowledgements = new Set<string>();
+  private readonly _onUpdateAllProgress = new vscode.EventEmitter<PluginUpdateAllProgress>();
+  readonly onUpdateAllProgress = this._onUpdateAllProgress.event;
+
   constructor(
     private readonly cli: CliService,
     private readonly settings: SettingsFileService,
+    private readonly marketplaces: MarketplaceService,
   ) {}
 
   private getScopedProjectPath(scope?: PluginScope): string | undefined {
@@ -113,12 +185,13 @@ export class PluginService {
       }
     }
 
-    // 並行讀取 mcpServers + contents（已安裝 plugin 從 installPath 掃描）
-    const [mcpServersResults, contentsResults] = await Promise.all([
+    // 並行讀取 mcpServers + contents（已安裝 plugin 從 installPath 掃描）+ source 來源
+    const [mcpServersResults, contentsResults, origins] = await Promise.all([
       Promise.all(entries.map(({ entry }) => this.readMcpServers(entry.installPath))),
       Promise.all(entries.map(({ entry }) =>
         this.settings.scanPluginContentsAt(entry.installPath).catch(() => undefined),
       )),
+      readPluginSources().catch((): PluginSourcesFile => ({})),
     ]);
 
     // 組裝結果
@@ -134,81 +207,161 @@ export class PluginService {
       description,
       mcpServers: mcpServersResults[i],
       contents: contentsResults[i],
+      ...(origins[pluginId] ? { origin: origins[pluginId] } : {}),
     }));
   }
 
-  /** 安裝 plugin（寫入 installed_plugins.json + enable） */
-  async install(plugin: string, scope: PluginScope): Promise<void> {
+  /** 安裝 plugin（寫入 installed_plugins.json + enable）；signal abort 時 kill CLI 並拋出 OperationCancelledError */
+  async install(plugin: string, scope: PluginScope, signal?: AbortSignal): Promise<void> {
+    await this.requireSecurityReview(plugin);
     // 優先檢查是否已有其他 scope 安裝（可複用 installPath，不需 marketplace scan）
     const data = await this.settings.readInstalledPlugins();
-    const existing = data.plugins[plugin];
-    let installPath: string;
-    let version: string;
-
-    const reusable = existing?.length ? await this.findReusableInstallEntry(existing) : undefined;
-    if (reusable) {
-      // 已有其他 scope 安裝，複用同一個 cache path
-      installPath = reusable.installPath;
-      version = reusable.version;
-    } else {
+    const entry = await this.prepareReusedInstall(plugin, data.plugins[plugin] ?? [], scope);
+    if (!entry) {
       // 尚未安裝：用 CLI 安裝（下載 cache + 寫 installed_plugins.json + enable）
-      const cwd = this.getScopedProjectPath(scope);
-      try {
-        await this.cli.exec(
-          ['plugin', 'install', plugin, '--scope', scope],
-          { timeout: CLI_LONG_TIMEOUT_MS, cwd },
-        );
-      } catch (err) {
-        // source path 不存在 → marketplace 可能未同步，先 update 再重試一次
-        if (isSourcePathMissing(err)) {
-          const lastAt = plugin.lastIndexOf('@');
-          const marketplaceName = lastAt > 0 ? plugin.slice(lastAt + 1) : undefined;
-          if (marketplaceName) {
-            await this.cli.exec(
-              ['plugin', 'marketplace', 'update', marketplaceName],
-              { timeout: CLI_LONG_TIMEOUT_MS },
-            );
-            await this.cli.exec(
-              ['plugin', 'install', plugin, '--scope', scope],
-              { timeout: CLI_LONG_TIMEOUT_MS, cwd },
-            );
-          } else {
-            throw err;
-          }
-        } else {
-          throw err;
-        }
-      }
+      await this.installWithCli(plugin, scope, signal);
       await this.fixPluginPermissions(plugin);
       return;
     }
-    const projectPath = this.getScopedProjectPath(scope);
-    await this.removeStaleScopedInstallEntry(plugin, existing ?? [], scope, projectPath, installPath);
 
-    const entry: PluginInstallEntry = {
+    await this.settings.addInstallEntry(plugin, entry);
+    await this.settings.setPluginEnabled(plugin, scope, true);
+    await this.fixPluginPermissions(plugin);
+  }
+
+  /**
+   * 已有其他 scope 安裝時，建立複用同一個 cache path 的 entry（並清掉指向已不存在目錄的同 scope entry）。
+   * 無可複用的安裝回傳 undefined（需走 CLI install）。
+   */
+  private async prepareReusedInstall(
+    plugin: string,
+    existing: PluginInstallEntry[],
+    scope: PluginScope,
+  ): Promise<PluginInstallEntry | undefined> {
+    const reusable = existing.length ? await this.findReusableInstallEntry(existing) : undefined;
+    if (!reusable) return undefined;
+
+    const projectPath = this.getScopedProjectPath(scope);
+    await this.removeStaleScopedInstallEntry(plugin, existing, scope, projectPath, reusable.installPath);
+    return {
       scope,
-      installPath,
-      version,
+      installPath: reusable.installPath,
+      version: reusable.version,
       installedAt: new Date().toISOString(),
       lastUpdated: new Date().toISOString(),
       ...(projectPath ? { projectPath } : {}),
     };
+  }
 
-    await this.settings.addInstallEntry(plugin, entry);
-    await this.settings.setPluginEnabled(plugin, scope, true);
-    await this.fixPluginPermissions(plugin);
+  /** CLI install；source path 不存在時先 update marketplace（保留釘選）再重試一次 */
+  private async installWithCli(plugin: string, scope: PluginScope, signal?: AbortSignal): Promise<void> {
+    const cwd = this.getScopedProjectPath(scope);
+    try {
+      await this.cli.exec(
+        ['plugin', 'install', plugin, '--scope', scope],
+        { timeout: CLI_LONG_TIMEOUT_MS, cwd, signal },
+      );
+    } catch (err) {
+      // source path 不存在 → marketplace 可能未同步，先 update 再重試一次（釘選的 marketplace 只重新 checkout）
+      if (isSourcePathMissing(err)) {
+        const lastAt = plugin.lastIndexOf('@');
+        const marketplaceName = lastAt > 0 ? plugin.slice(lastAt + 1) : undefined;
+        if (marketplaceName) {
+          await this.marketplaces.update(marketplaceName, signal);
+          await this.cli.exec(
+            ['plugin', 'install', plugin, '--scope', scope],
+            { timeout: CLI_LONG_TIMEOUT_MS, cwd, signal },
+          );
+        } else {
+          throw err;
+        }
+      } else {
+        throw err;
+      }
+    }
   }
 
-  /** 移除 plugin（從 installed_plugins.json 移除 entry + disable） */
+  /**
+   * 不經 marketplace，從 owner/repo、git URL 或本地目錄安裝 plugin。
+   * 以 scanner 驗證 layout、安全審查獲確認後複製到 cache/direct/<name>/<version>，寫入 installed_plugins.json + enable，
+   * 來源記入 plugin_sources.json。回傳 pluginId（`<name>@direct`）。
+   */
+  async installFromSource(source: string, scope: PluginScope, subdir?: string): Promise<string> {
+    const origin = parsePluginSource(source, subdir);
+    const projectPath = this.getScopedProjectPath(scope);
+    const fetched = await fetchPluginSource(origin);
+    try {
+      const manifest = await readSourcePluginManifest(fetched.pluginDir);
+      const contents = await this.settings.scanPluginContentsAt(fetched.pluginDir, fetched.rootDir);
+      const isEmpty = [contents.commands, contents.skills, contents.agents, contents.mcpServers, contents.hooks]
+        .every((items) => items.length === 0);
+      if (isEmpty) {
+        throw new Error(`No commands, skills, agents, hooks or MCP servers found in "${manifest.name}".`);
+      }
+
+      const pluginId = `${manifest.name}@${SOURCE_INSTALL_MARKETPLACE}`;
+      const report = await this.reviewPluginDir(pluginId, fetched.pluginDir, fetched.rootDir, fetched.gitCommitSha);
+      if (needsSecurityAcknowledgement(report)) {
+        const declined = await this.promptSecurityReviews([
+          { plugin: pluginId, reviewKey: report.reviewKey, summary: formatSecurityReviewSummary(report) },
+        ]);
+        if (declined.length > 0) {
+          throw new SecurityReviewDeclinedError(declined);
+        }
+      }
+
+      const version = manifest.version ?? fetched.gitCommitSha?.slice(0, 12) ?? 'local';
+      const pluginCacheDir = join(PLUGINS_CACHE_DIR, SOURCE_INSTALL_MARKETPLACE, manifest.name);
+      const installPath = join(pluginCacheDir, version);
+      await copyPluginToCache(fetched.pluginDir, installPath, pluginCacheDir);
+      await fixScriptPermissions(installPath);
+
+      const now = new Date().toISOString();
+      const existing = (await this.settings.readInstalledPlugins()).plugins[pluginId]
+        ?.find((e) => e.scope === scope && e.projectPath === projectPath);
+      const gitCommitSha = fetched.gitCommitSha;
+      if (existing) {
+        await this.settings.updateInstallEntry(pluginId, scope, projectPath, {
+          installPath, version, gitCommitSha, lastUpdated: now,
+        });
+      } else {
+        await this.settings.addInstallEntry(pluginId, {
+          scope,
+          installPath,
+          version,
+          installedAt: now,
+          lastUpdated: now,
+          ...(gitCommitSha ? { gitCommitSha } : {}),
+          ...(projectPath ? { projectPath } : {}),
+        });
+      }
+      await this.settings.setPluginEnabled(pluginId, scope, true);
+      await this.updateSources((sources) => {
+        sources[pluginId] = { ...origin, ...(gitCommitSha ? { gitCommitSha } : {}) };
+      });
+      return pluginId;
+    } finally {
+      await fetched.cleanup();
+    }
+  }
+
+  /** 移除 plugin（從 installed_plugins.json 移除 entry + disable）；最後一個 scope 移除時一併清除歷史版本與來源 */
   async uninstall(plugin: string, scope: PluginScope): Promise<void> {
     const projectPath = this.getScopedProjectPath(scope);
 
     await this.settings.removeInstallEntry(plugin, scope, projectPath);
     await this.settings.setPluginEnabled(plugin, scope, false);
+
+    const remaining = (await this.settings.readInstalledPlugins()).plugins[plugin];
+    if (!remaining?.length) {
+      await this.updateHistory(plugin, () => []);
+      await this.updateSources((sources) => { delete sources[plugin]; });
+    }
   }
 
   /** 啟用 plugin（寫入對應 scope 的 settings.json） */
   async enable(plugin: string, scope?: PluginScope): Promise<void> {
+    await this.requireSecurityReview(plugin);
     await this.settings.setPluginEnabled(plugin, scope ?? 'user', true);
   }
 
@@ -234,8 +387,132 @@ export class PluginService {
     }
   }
 
-  /** 更新 plugin（保留 CLI — 需 git pull + re-cache） */
+  /**
+   * 多選批次操作，回傳每個 plugin 的成功 / 失敗（單一失敗不中斷其他 plugin）。
+   * enable / disable / uninstall 與複用 cache 的 install 對 settings 檔、installed_plugins.json 各只寫一次；
+   * 需要 CLI 的 install / update 逐一執行。
+   */
+  async bulk(action: PluginBulkAction, plugins: string[], scope: PluginScope): Promise<PluginBulkResult> {
+    const targets = [...new Set(plugins)];
+    const projectPath = this.getScopedProjectPath(scope);
+    const data = await this.settings.readInstalledPlugins();
+    const results = new Map<string, PluginBulkItemResult>();
+    const succeed = (plugin: string): void => {
+      results.set(plugin, { pluginId: plugin, ok: true });
+    };
+    const fail = (plugin: string, error: unknown): void => {
+      results.set(plugin, { pluginId: plugin, ok: false, error: toErrorMessage(error) });
+    };
+    const isInstalledInScope = (plugin: string): boolean => (data.plugins[plugin] ?? []).some(
+      (e) => e.scope === scope && e.projectPath === projectPath,
+    );
+    /** 未安裝在此 scope 的 plugin 直接記為失敗，回傳其餘 */
+    const requireInstalled = (ids: string[]): string[] => ids.filter((plugin) => {
+      if (isInstalledInScope(plugin)) return true;
+      fail(plugin, `Not installed in ${scope} scope`);
+      return false;
+    });
+    /** 一次寫入整批；失敗時整批記為失敗 */
+    const writeBatch = async (ids: string[], write: () => Promise<void>): Promise<void> => {
+      if (ids.length === 0) return;
+      try {
+        await write();
+        ids.forEach(succeed);
+      } catch (error) {
+        ids.forEach((plugin) => fail(plugin, error));
+      }
+    };
+
+    // install / enable 前的安全審查：未確認的 plugin 記為失敗，不寫入
+    let allowed = targets;
+    if (action === 'install' || action === 'enable') {
+      const declined = new Set(await this.confirmSecurityReviews(
+        targets.filter((plugin) => isInstalledInScope(plugin) === (action === 'enable')),
+      ));
+      declined.forEach((plugin) => fail(plugin, SECURITY_REVIEW_SKIPPED));
+      allowed = targets.filter((plugin) => !declined.has(plugin));
+      allowed.forEach((plugin) => this.oneTimeAcknowledgements.delete(plugin));
+    }
+
+    switch (action) {
+      case 'enable': {
+        const ids = requireInstalled(allowed);
+        await writeBatch(ids, () => this.settings.setPluginsEnabled(ids, scope, true));
+        break;
+      }
+      case 'disable':
+        // 只在 settings 中啟用（無 install entry）的 plugin 也能停用
+        await writeBatch(targets, () => this.settings.setPluginsEnabled(targets, scope, false));
+        break;
+      case 'uninstall': {
+        const ids = requireInstalled(targets);
+        await writeBatch(ids, async () => {
+          await this.settings.removeInstallEntries(ids, scope, projectPath);
+          await this.settings.setPluginsEnabled(ids, scope, false);
+        });
+        const remaining = (await this.settings.readInstalledPlugins()).plugins;
+        const removed = ids.filter((plugin) => results.get(plugin)?.ok && !remaining[plugin]?.length);
+        for (const plugin of removed) {
+          await this.updateHistory(plugin, () => []);
+        }
+        if (removed.length > 0) {
+          await this.updateSources((sources) => {
+            for (const plugin of removed) delete sources[plugin];
+          });
+        }
+        break;
+      }
+      case 'install': {
+        const reused: { pluginId: string; entry: PluginInstallEntry }[] = [];
+        for (const plugin of allowed) {
+          if (isInstalledInScope(plugin)) {
+            succeed(plugin);
+            continue;
+          }
+          try {
+            const entry = await this.prepareReusedInstall(plugin, data.plugins[plugin] ?? [], scope);
+            if (entry) {
+              reused.push({ pluginId: plugin, entry });
+              continue;
+            }
+            await this.installWithCli(plugin, scope);
+            await this.fixPluginPermissions(plugin);
+            succeed(plugin);
+          } catch (error) {
+            fail(plugin, error);
+          }
+        }
+        const ids = reused.map((r) => r.pluginId);
+        await writeBatch(ids, async () => {
+          await this.settings.addInstallEntries(reused);
+          await this.settings.setPluginsEnabled(ids, scope, true);
+        });
+        for (const plugin of ids) {
+          if (!results.get(plugin)?.ok) continue;
+          await this.fixPluginPermissions(plugin).catch((error) => fail(plugin, error));
+        }
+        break;
+      }
+      case 'update':
+        for (const plugin of requireInstalled(targets)) {
+          try {
+            await this.update(plugin, scope);
+            succeed(plugin);
+          } catch (error) {
+            // 已是最新版本不算失敗
+            if (UP_TO_DATE_RE.test(toErrorMessage(error))) succeed(plugin);
+            else fail(plugin, error);
+          }
+        }
+        break;
+    }
+
+    return { action, scope, results: targets.map((plugin) => results.get(plugin)!) };
+  }
+
+  /** 更新 plugin（保留 CLI — 需 git pull + re-cache）；被取代的 installPath 記入歷史 */
   async update(plugin: string, scope?: PluginScope): Promise<void> {
+    const previous = (await this.settings.readInstalledPlugins()).plugins[plugin] ?? [];
     const args = ['plugin', 'update', plugin];
     if (scope) {
       args.push('--scope', scope);
@@ -246,7 +523,7 @@ export class PluginService {
     } catch (error) {
       // 只有「already up to date」類錯誤才更新 timestamp，避免隱藏真正需要重試的失敗
       const msg = error instanceof Error ? error.message : '';
-      if (/already up[\s-]to[\s-]date|up-to-date|no updates available/i.test(msg)) {
+      if (UP_TO_DATE_RE.test(msg)) {
         await this.settings.updateInstallEntryTimestamp(plugin, scope);
       }
       throw error;
@@ -255,6 +532,383 @@ export class PluginService {
       this.fixPluginPermissions(plugin),
       this.settings.updateInstallEntryTimestamp(plugin, scope),
     ]);
+    await this.recordReplacedVersions(plugin, previous);
+  }
+
+  /**
+   * 更新所有有可用更新的已啟用 plugin（與 webview hasPluginUpdate 相同判斷），
+   * 逐一對每個已安裝 scope 執行 update 並發出進度；單一失敗不中斷其他目標。
+   * @param plugins 只考慮這些 plugin（例如 Plugin 頁目前篩選結果）
+   */
+  async updateAll(plugins?: string[]): Promise<PluginUpdateAllResult> {
+    const [data, enabledByScope, available] = await Promise.all([
+      this.settings.readInstalledPlugins(),
+      this.settings.readAllEnabledPlugins(),
+      this.settings.scanAvailablePlugins(),
+    ]);
+    const only = plugins ? new Set(plugins) : undefined;
+    const availableLastUpdated = new Map(available.map((a) => [a.pluginId, a.lastUpdated]));
+    const workspacePath = this.getCurrentWorkspacePath();
+    const targets: PluginUpdateTarget[] = [];
+
+    for (const [pluginId, pluginEntries] of Object.entries(data.plugins)) {
+      if (only && !only.has(pluginId)) continue;
+      // 與 listInstalled 相同：只看 user scope 與目前 workspace 的 project / local entries
+      const entries = pluginEntries.filter(
+        (e) => e.scope === 'user' || (workspacePath !== null && e.projectPath === workspacePath),
+      );
+      const enabled = (['user', 'project', 'local'] as const).some((scope) => enabledByScope[scope][pluginId] === true);
+      if (!enabled || !isUpdateAvailable(availableLastUpdated.get(pluginId), entries.map((e) => e.lastUpdated))) {
+        continue;
+      }
+      for (const scope of new Set(entries.map((e) => e.scope))) {
+        targets.push({ pluginId, scope });
+      }
+    }
+    return this.runUpdates(targets);
+  }
+
+  /** 重試指定的 plugin + scope（Update All 摘要的 Retry failed） */
+  async retryUpdates(targets: PluginUpdateTarget[]): Promise<PluginUpdateAllResult> {
+    return this.runUpdates(targets);
+  }
+
+  /** 依序更新目標；「already up to date」記為 upToDate 而非失敗 */
+  private async runUpdates(targets: PluginUpdateTarget[]): Promise<PluginUpdateAllResult> {
+    const results: PluginUpdateItemResult[] = [];
+    for (const [index, target] of targets.entries()) {
+      this._onUpdateAllProgress.fire({ ...target, current: index + 1, total: targets.length });
+      try {
+        await this.update(target.pluginId, target.scope);
+        results.push({ ...target, status: 'updated' });
+      } catch (error) {
+        const message = toErrorMessage(error);
+        results.push(UP_TO_DATE_RE.test(message)
+          ? { ...target, status: 'upToDate' }
+          : { ...target, status: 'failed', error: message });
+      }
+    }
+    return { results };
+  }
+
+  /**
+   * 已安裝版本 → marketplace clone 目前版本的變更：
+   * installed gitCommitSha..HEAD 的 git log、commands/skills/agents 檔案差異與 CHANGELOG.md。
+   */
+  async getChangelog(plugin: string): Promise<PluginChangelog> {
+    const entries = (await this.settings.readInstalledPlugins()).plugins[plugin] ?? [];
+    const installed = entries.find((e) => e.scope === 'user') ?? entries[0];
+    if (!installed) {
+      throw new Error(`Plugin "${plugin}" is not installed.`);
+    }
+    const source = await this.settings.resolvePluginSource(plugin);
+    if (!source) {
+      throw new Error(`Plugin "${plugin}" has no local source in its marketplace; changes cannot be shown.`);
+    }
+
+    const [available, toCommit, fileChanges, changelog] = await Promise.all([
+      this.settings.scanAvailablePlugins().then((list) => list.find((p) => p.pluginId === plugin)),
+      readGitHead(source.marketplaceDir),
+      diffPluginContentFiles(installed.installPath, source.pluginDir),
+      readPluginChangelog(source.pluginDir),
+    ]);
+    const commits = installed.gitCommitSha && toCommit
+      ? await readPluginGitLog(source.marketplaceDir, source.pluginDir, installed.gitCommitSha)
+      : undefined;
+
+    return {
+      pluginId: plugin,
+      installedVersion: installed.version,
+      availableVersion: available?.version,
+      fromCommit: installed.gitCommitSha,
+      toCommit,
+      commits,
+      fileChanges,
+      changelog,
+    };
+  }
+
+  /**
+   * Plugin 詳情頁：plugin.json metadata、README、各 scope 安裝的 commit 與磁碟用量。
+   * metadata / README 優先讀已安裝版本，未安裝時讀 marketplace 的 local source。
+   */
+  async getDetails(plugin: string): Promise<PluginDetails> {
+    const workspacePath = this.getCurrentWorkspacePath();
+    const entries = ((await this.settings.readInstalledPlugins()).plugins[plugin] ?? [])
+      .filter((e) => e.scope === 'user' || (workspacePath !== null && e.projectPath === workspacePath));
+    const [installed, source] = await Promise.all([
+      entries.length ? this.findReusableInstallEntry(entries) : undefined,
+      this.settings.resolvePluginSource(plugin),
+    ]);
+    const contentDir = installed?.installPath ?? source?.pluginDir;
+
+    const [metadata, readme, availableSha, diskSizes] = await Promise.all([
+      contentDir ? readPluginManifestMetadata(contentDir) : { keywords: [] },
+      contentDir ? readPluginReadme(contentDir) : undefined,
+      source ? readGitHead(source.marketplaceDir) : undefined,
+      Promise.all(entries.map((e) => this.calcDirSize(e.installPath))),
+    ]);
+
+    return {
+      pluginId: plugin,
+      metadata,
+      ...(readme !== undefined ? { readme } : {}),
+      ...(availableSha ? { availableSha } : {}),
+      installs: entries.map((e, i) => ({
+        scope: e.scope,
+        ...(e.projectPath ? { projectPath: e.projectPath } : {}),
+        version: e.version,
+        installPath: e.installPath,
+        ...(e.gitCommitSha ? { gitCommitSha: e.gitCommitSha } : {}),
+        lastUpdated: e.lastUpdated,
+        diskBytes: diskSizes[i],
+      })),
+    };
+  }
+
+  /**
+   * install / 首次 enable 前的安全審查：hook commands、shell scripts、MCP server 指令的風險樣式。
+   * 審查對象與 install 實際使用的來源一致（已有其他 scope 安裝 → 該 installPath，否則 marketplace 的 local source）。
+   * 同一 gitCommitSha 沿用快取結果；remote source 安裝前無法取得內容，回傳 sourceAvailable=false。
+   */
+  async getSecurityReview(plugin: string): Promise<PluginSecurityReport> {
+    const entries = (await this.settings.readInstalledPlugins()).plugins[plugin] ?? [];
+    const reusable = entries.length ? await this.findReusableInstallEntry(entries) : undefined;
+    let pluginDir: string;
+    let trustedDir: string;
+    let gitCommitSha: string | undefined;
+    if (reusable) {
+      pluginDir = trustedDir = reusable.installPath;
+      gitCommitSha = reusable.gitCommitSha;
+    } else {
+      const source = await this.settings.resolvePluginSource(plugin);
+      if (!source) {
+        return {
+          pluginId: plugin,
+          sourceAvailable: false,
+          hookCommands: [],
+          scripts: [],
+          mcpServers: [],
+          findings: [],
+          acknowledged: false,
+        };
+      }
+      pluginDir = source.pluginDir;
+      trustedDir = source.marketplaceDir;
+      gitCommitSha = await readGitHead(source.marketplaceDir);
+    }
+    return this.reviewPluginDir(plugin, pluginDir, trustedDir, gitCommitSha);
+  }
+
+  /**
+   * 審查 source（owner/repo、git URL 或本地目錄）中的 plugin，不安裝。
+   * 結果以 `<name>@direct` 快取，確認後 installFromSource 取得同一版本時不再詢問。
+   */
+  async getSourceSecurityReview(source: string, subdir?: string): Promise<PluginSecurityReport> {
+    const fetched = await fetchPluginSource(parsePluginSource(source, subdir));
+    try {
+      const manifest = await readSourcePluginManifest(fetched.pluginDir);
+      return await this.reviewPluginDir(
+        `${manifest.name}@${SOURCE_INSTALL_MARKETPLACE}`,
+        fetched.pluginDir,
+        fetched.rootDir,
+        fetched.gitCommitSha,
+      );
+    } finally {
+      await fetched.cleanup();
+    }
+  }
+
+  /** 掃描 plugin 目錄的可執行內容並寫入審查快取；同一 gitCommitSha 沿用快取結果 */
+  private async reviewPluginDir(
+    plugin: string,
+    pluginDir: string,
+    trustedDir: string,
+    gitCommitSha: string | undefined,
+  ): Promise<PluginSecurityReport> {
+    const cached = (await readSecurityReviews())[plugin];
+    if (gitCommitSha && cached?.report.reviewKey === gitCommitSha) {
+      return { ...cached.report, acknowledged: !!cached.acknowledgedAt };
+    }
+
+    const [executables, mcpServers] = await Promise.all([
+      this.settings.scanPluginExecutablesAt(pluginDir, trustedDir),
+      readPluginMcpCommands(pluginDir),
+    ]);
+    const { findings, contentHash } = await analyzePluginExecutables(pluginDir, executables, mcpServers);
+    const report: Omit<PluginSecurityReport, 'acknowledged'> = {
+      pluginId: plugin,
+      reviewKey: gitCommitSha ?? `content:${contentHash}`,
+      ...(gitCommitSha ? { gitCommitSha } : {}),
+      sourceAvailable: true,
+      hookCommands: executables.hookCommands,
+      scripts: executables.scripts,
+      mcpServers,
+      findings,
+    };
+    // 無 git 資訊時內容 hash 相同即視為同一版本，保留確認紀錄
+    const acknowledgedAt = cached?.report.reviewKey === report.reviewKey ? cached.acknowledgedAt : undefined;
+    await this.securityReviewQueue.enqueue(async () => {
+      const reviews = await readSecurityReviews();
+      reviews[plugin] = { report, ...(acknowledgedAt ? { acknowledgedAt } : {}) };
+      await writeJsonFileAtomic(PLUGIN_SECURITY_REVIEWS_PATH, reviews);
+    });
+    return { ...report, acknowledged: !!acknowledgedAt };
+  }
+
+  /**
+   * 記錄使用者已確認審查結果；reviewKey 與快取不符（內容已變）時拋錯。
+   * 來源無法審查時沒有 reviewKey，確認只對下一次 install / enable 有效。
+   */
+  async acknowledgeSecurityReview(plugin: string, reviewKey?: string): Promise<void> {
+    if (!reviewKey) {
+      this.oneTimeAcknowledgements.add(plugin);
+      return;
+    }
+    await this.securityReviewQueue.enqueue(async () => {
+      const reviews = await readSecurityReviews();
+      const cached = reviews[plugin];
+      if (cached?.report.reviewKey !== reviewKey) {
+        throw new Error(`Security review for "${plugin}" is out of date. Review it again before continuing.`);
+      }
+      reviews[plugin] = { ...cached, acknowledgedAt: new Date().toISOString() };
+      await writeJsonFileAtomic(PLUGIN_SECURITY_REVIEWS_PATH, reviews);
+    });
+  }
+
+  /**
+   * install / enable 前的安全閘門：有未確認的可執行內容（或來源無法審查）時，以一個 modal 列出並要求確認。
+   * 確認後寫入審查紀錄（無 reviewKey 者記為一次性確認）；回傳未獲確認的 pluginId。
+   */
+  async confirmSecurityReviews(plugins: string[]): Promise<string[]> {
+    const pending: PendingSecurityReview[] = [];
+    for (const plugin of new Set(plugins)) {
+      let report: PluginSecurityReport;
+      try {
+        report = await this.getSecurityReview(plugin);
+      } catch (error) {
+        pending.push({ plugin, summary: `review failed: ${toErrorMessage(error)}` });
+        continue;
+      }
+      if (!needsSecurityAcknowledgement(report)) continue;
+      if (!report.reviewKey && this.oneTimeAcknowledgements.has(plugin)) continue;
+      pending.push({ plugin, reviewKey: report.reviewKey, summary: formatSecurityReviewSummary(report) });
+    }
+    return this.promptSecurityReviews(pending);
+  }
+
+  /** 以一個 modal 列出待確認的審查；確認後寫入審查紀錄，回傳未獲確認的 pluginId */
+  private async promptSecurityReviews(pending: PendingSecurityReview[]): Promise<string[]> {
+    if (pending.length === 0) return [];
+
+    const choice = await vscode.window.showWarningMessage(
+      `${pending.length} plugin(s) can run hooks, scripts or MCP servers that have not been reviewed. Continue?`,
+      { modal: true, detail: pending.map((p) => `${p.plugin}: ${p.summary}`).join('\n') },
+      CONTINUE_ACTION,
+    );
+    if (choice !== CONTINUE_ACTION) return pending.map((p) => p.plugin);
+
+    for (const { plugin, reviewKey } of pending) {
+      await this.acknowledgeSecurityReview(plugin, reviewKey);
+    }
+    return [];
+  }
+
+  /** 單一 install / enable 的安全閘門：未確認時拋出 SecurityReviewDeclinedError；通過後消耗一次性確認 */
+  private async requireSecurityReview(plugin: string): Promise<void> {
+    const declined = await this.confirmSecurityReviews([plugin]);
+    if (declined.length > 0) {
+      throw new SecurityReviewDeclinedError(declined);
+    }
+    this.oneTimeAcknowledgements.delete(plugin);
+  }
+
+  /** 列出 plugin 的歷史版本（新 → 舊），只含 cache 目錄仍存在的版本 */
+  async getHistory(plugin: string): Promise<PluginVersionSnapshot[]> {
+    const snapshots = (await readPluginHistory())[plugin] ?? [];
+    const exists = await Promise.all(
+      snapshots.map((snapshot) => stat(snapshot.installPath).then(() => true, () => false)),
+    );
+    return snapshots.filter((_, i) => exists[i]);
+  }
+
+  /**
+   * 將指定 scope 的 installPath 指回歷史版本（不經 CLI，只改 installed_plugins.json）。
+   * 目前版本改記入歷史，可再切回。
+   */
+  async rollback(plugin: string, scope: PluginScope, installPath: string): Promise<void> {
+    const target = (await this.getHistory(plugin)).find((s) => s.installPath === installPath);
+    if (!target) {
+      throw new Error(`Version at ${installPath} is no longer available for ${plugin}.`);
+    }
+    const projectPath = this.getScopedProjectPath(scope);
+    const data = await this.settings.readInstalledPlugins();
+    const current = data.plugins[plugin]?.find(
+      (e) => e.scope === scope && e.projectPath === projectPath,
+    );
+    if (!current) {
+      throw new Error(`Plugin "${plugin}" is not installed in ${scope} scope.`);
+    }
+    if (current.installPath === installPath) return;
+
+    await this.settings.updateInstallEntry(plugin, scope, projectPath, {
+      installPath: target.installPath,
+      version: target.version,
+      gitCommitSha: target.gitCommitSha,
+      lastUpdated: target.lastUpdated,
+    });
+    await this.updateHistory(plugin, (snapshots) => [
+      toSnapshot(current),
+      ...snapshots.filter((s) => s.installPath !== installPath && s.installPath !== current.installPath),
+    ]);
+    await fixScriptPermissions(target.installPath);
+  }
+
+  /** update 後，把已不被此 plugin 任何 entry 引用的舊 installPath 記入歷史 */
+  private async recordReplacedVersions(plugin: string, previous: PluginInstallEntry[]): Promise<void> {
+    const current = (await this.settings.readInstalledPlugins()).plugins[plugin] ?? [];
+    const currentPaths = new Set(current.map((e) => e.installPath));
+    const replaced = new Map<string, PluginVersionSnapshot>();
+    for (const entry of previous) {
+      if (!currentPaths.has(entry.installPath) && !replaced.has(entry.installPath)) {
+        replaced.set(entry.installPath, toSnapshot(entry));
+      }
+    }
+    if (replaced.size === 0) return;
+
+    await this.updateHistory(plugin, (snapshots) => [
+      ...replaced.values(),
+      ...snapshots.filter((s) => !replaced.has(s.installPath) && !currentPaths.has(s.installPath)),
+    ]);
+  }
+
+  /** 序列化修改單一 plugin 的歷史，超過 PLUGIN_HISTORY_LIMIT 的舊版本捨棄（cache 交給 pruneUnusedCache） */
+  private async updateHistory(
+    plugin: string,
+    update: (snapshots: PluginVersionSnapshot[]) => PluginVersionSnapshot[],
+  ): Promise<void> {
+    await this.historyQueue.enqueue(async () => {
+      const history = await readPluginHistory();
+      const next = update(history[plugin] ?? []).slice(0, PLUGIN_HISTORY_LIMIT);
+      if (next.length === 0 && !history[plugin]) return;
+      if (next.length > 0) {
+        history[plugin] = next;
+      } else {
+        delete history[plugin];
+      }
+      await writeJsonFileAtomic(PLUGIN_HISTORY_PATH, history);
+    });
+  }
+
+  /** 序列化修改 plugin_sources.json；不存在且無變更時不建立檔案 */
+  private async updateSources(update: (sources: PluginSourcesFile) => void): Promise<void> {
+    await this.sourcesQueue.enqueue(async () => {
+      const sources = await readPluginSources();
+      const before = JSON.stringify(sources);
+      update(sources);
+      if (JSON.stringify(sources) === before) return;
+      await writeJsonFileAtomic(PLUGIN_SOURCES_PATH, sources);
+    });
   }
 
   /** 移除單一 orphaned entry（從 installed_plugins.json） */
@@ -274,33 +928,124 @@ export class PluginService {
   }
 
   /**
-   * 清除 PLUGINS_CACHE_DIR 下未被任何 installed entry 引用的目錄。
+   * 清除 PLUGINS_CACHE_DIR 下未被任何 installed entry 或歷史版本引用的目錄。
    * 三層結構：marketplace/plugin/hash — 比對所有 installPath，刪除未引用的 hash 目錄，
    * 再清空變空的 plugin/marketplace 父目錄。
    */
   async pruneUnusedCache(): Promise<{ removedDirs: number; freedBytes: number }> {
-    const collectReferenced = (data: InstalledPluginsFile): Set<string> => {
-      const paths = new Set<string>();
-      for (const entries of Object.values(data.plugins)) {
-        for (const entry of entries) {
-          paths.add(entry.installPath);
-        }
+    // 收集所有 installPath（跨所有 scope/project + 保留供 rollback 的歷史版本 + dev link 前的版本）
+    const referencedPaths = await this.collectCacheReferences();
+
+    const unreferenced = (await this.listCacheVersionDirs())
+      .map((dir) => dir.path)
+      .filter((p) => !referencedPaths.has(p));
+
+    if (unreferenced.length === 0) return { removedDirs: 0, freedBytes: 0 };
+
+    // 先算各候選目錄大小（遞迴 IO，較慢），放在 re-read 之前，縮小 re-read → rm 的競態窗口
+    const sizeByPath = new Map<string, number>();
+    await Promise.all(
+      unreferenced.map(async (p) => { sizeByPath.set(p, await this.calcDirSize(p)); }),
+    );
+
+    // 刪除前 re-read：排除初次掃描後才被安裝引用的目錄，避免與並發 install 競態
+    // （新安裝的 cache 目錄不在 t0 快照、會被誤判 unreferenced 而刪除）。
+    const latestReferenced = await this.collectCacheReferences();
+    const toDelete = unreferenced.filter((p) => !latestReferenced.has(p));
+    if (toDelete.length === 0) return { removedDirs: 0, freedBytes: 0 };
+
+    const freedBytes = toDelete.reduce((sum, p) => sum + (sizeByPath.get(p) ?? 0), 0);
+
+    await Promise.all(
+      toDelete.map((p) => rm(p, { recursive: true, force: true })),
+    );
+
+    // 清空變空的父目錄（plugin level → marketplace level）
+    await this.cleanEmptyParents(PLUGINS_CACHE_DIR);
+
+    return { removedDirs: toDelete.length, freedBytes };
+  }
+
+  /**
+   * Plugin 相關目錄的磁碟用量：marketplaces/ 下的 clone，以及 cache 下每個 plugin 與版本目錄。
+   * 版本目錄附上引用來源；未引用的版本即 pruneUnusedCache 會刪除的目錄（dry-run 預覽）。
+   */
+  async getStorageUsage(): Promise<PluginStorageUsage> {
+    const [references, versionDirs, marketplaces] = await Promise.all([
+      this.collectCacheReferences(),
+      this.listCacheVersionDirs(),
+      this.listMarketplaceClones(),
+    ]);
+
+    const caches = new Map<string, PluginCacheUsage>();
+    for (const dir of versionDirs) {
+      const pluginPath = join(PLUGINS_CACHE_DIR, dir.marketplace, dir.plugin);
+      let cache = caches.get(pluginPath);
+      if (!cache) {
+        cache = { marketplace: dir.marketplace, plugin: dir.plugin, path: pluginPath, bytes: 0, versions: [] };
+        caches.set(pluginPath, cache);
       }
-      return paths;
-    };
+      const bytes = await this.calcDirSize(dir.path);
+      const reference = references.get(dir.path);
+      cache.bytes += bytes;
+      cache.versions.push({ version: dir.version, path: dir.path, bytes, ...(reference ? { reference } : {}) });
+    }
+
+    const cacheList = [...caches.values()];
+    const totalBytes = [...marketplaces, ...cacheList].reduce((sum, item) => sum + item.bytes, 0);
+    return { marketplaces, caches: cacheList, totalBytes };
+  }
+
+  /**
+   * 選擇性刪除 storage 目錄：僅允許未被 installed / dev link 引用的 cache 版本目錄
+   * （僅供 rollback 的歷史版本可刪，刪除後即無法 rollback 到該版本），
+   * 以及已不在 known_marketplaces.json 中的 marketplace clone。
+   */
+  async deleteStorageEntries(paths: string[]): Promise<{ removedDirs: number; freedBytes: number }> {
+    const [references, versionDirs, marketplaces] = await Promise.all([
+      this.collectCacheReferences(),
+      this.listCacheVersionDirs(),
+      this.listMarketplaceClones(),
+    ]);
+    const deletable = new Set([
+      ...versionDirs
+        .filter((dir) => {
+          const reference = references.get(dir.path);
+          return !reference || reference === 'history';
+        })
+        .map((dir) => dir.path),
+      ...marketplaces.filter((mp) => !mp.known).map((mp) => mp.path),
+    ]);
+
+    const targets = [...new Set(paths)];
+    const rejected = targets.find((p) => !deletable.has(p));
+    if (rejected) {
+      throw new Error(`Cannot delete ${rejected}: it is in use or not a plugin storage directory.`);
+    }
+
+    let freedBytes = 0;
+    for (const target of targets) {
+      freedBytes += await this.calcDirSize(target);
+      await rm(target, { recursive: true, force: true });
+    }
+    await this.cleanEmptyParents(PLUGINS_CACHE_DIR);
+    return { removedDirs: targets.length, freedBytes };
+  }
 
-    // 收集所有 installPath（跨所有 scope/project）
-    const referencedPaths = collectReferenced(await this.settings.readInstalledPlugins());
+  private async collectCacheReferences(): Promise<Map<string, PluginCacheReference>> {
+    return collectPluginCacheReferences(await this.settings.readInstalledPlugins());
+  }
 
-    // 列舉 cache 下所有 hash-level 目錄
+  /** 列舉 cache 下所有 hash-level 目錄（略過 CLI 安裝中的 temp_subdir_*） */
+  private async listCacheVersionDirs(): Promise<Array<{ marketplace: string; plugin: string; version: string; path: string }>> {
     let mpDirents: import('fs').Dirent[];
     try {
       mpDirents = await readdir(PLUGINS_CACHE_DIR, { withFileTypes: true });
     } catch {
-      return { removedDirs: 0, freedBytes: 0 };
+      return [];
     }
 
-    const unreferenced: string[] = [];
+    const dirs: Array<{ marketplace: string; plugin: string; version: string; path: string }> = [];
     for (const mpDirent of mpDirents) {
       if (!mpDirent.isDirectory() || mpDirent.name.startsWith('temp_subdir_')) continue;
       const mpPath = join(PLUGINS_CACHE_DIR, mpDirent.name);
@@ -317,38 +1062,42 @@ export class PluginService {
 
         for (const hashDirent of hashDirents) {
           if (!hashDirent.isDirectory()) continue;
-          const hashPath = join(pluginPath, hashDirent.name);
-          if (!referencedPaths.has(hashPath)) {
-            unreferenced.push(hashPath);
-          }
+          dirs.push({
+            marketplace: mpDirent.name,
+            plugin: pluginDirent.name,
+            version: hashDirent.name,
+            path: join(pluginPath, hashDirent.name),
+          });
         }
       }
     }
+    return dirs;
+  }
 
-    if (unreferenced.length === 0) return { removedDirs: 0, freedBytes: 0 };
-
-    // 先算各候選目錄大小（遞迴 IO，較慢），放在 re-read 之前，縮小 re-read → rm 的競態窗口
-    const sizeByPath = new Map<string, number>();
-    await Promise.all(
-      unreferenced.map(async (p) => { sizeByPath.set(p, await this.calcDirSize(p)); }),
-    );
-
-    // 刪除前 re-read：排除初次掃描後才被安裝引用的目錄，避免與並發 install 競態
-    // （新安裝的 cache 目錄不在 t0 快照、會被誤判 unreferenced 而刪除）。
-    const latestReferenced = collectReferenced(await this.settings.readInstalledPlugins());
-    const toDelete = unreferenced.filter((p) => !latestReferenced.has(p));
-    if (toDelete.length === 0) return { removedDirs: 0, freedBytes: 0 };
-
-    const freedBytes = toDelete.reduce((sum, p) => sum + (sizeByPath.get(p) ?? 0), 0);
-
-    await Promise.all(
-      toDelete.map((p) => rm(p, { recursive: true, force: true })),
-    );
-
-    // 清空變空的父目錄（plugin level → marketplace level）
-    await this.cleanEmptyParents(PLUGINS_CACHE_DIR);
+  /** 列舉 marketplaces/ 下的 clone 與大小；名稱或 installLocation 登記於 known_marketplaces.json 者為 known */
+  private async listMarketplaceClones(): Promise<MarketplaceCloneUsage[]> {
+    let dirents: import('fs').Dirent[];
+    try {
+      dirents = await readdir(MARKETPLACES_DIR, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const config = await readJsonFile<Record<string, { installLocation?: string }>>(KNOWN_MARKETPLACES_PATH, {});
+    const knownNames = new Set(Object.keys(config));
+    const knownLocations = new Set(Object.values(config).map((entry) => entry?.installLocation));
 
-    return { removedDirs: toDelete.length, freedBytes };
+    const clones: MarketplaceCloneUsage[] = [];
+    for (const dirent of dirents) {
+      if (!dirent.isDirectory()) continue;
+      const path = join(MARKETPLACES_DIR, dirent.name);
+      clones.push({
+        name: dirent.name,
+        path,
+        bytes: await this.calcDirSize(path),
+        known: knownNames.has(dirent.name) || knownLocations.has(path),
+      });
+    }
+    return clones;
   }
 
   /** 遞迴計算目錄大小（bytes） */
@@ -549,6 +1298,101 @@ export class PluginService {
 
 }
 
+function toSnapshot(entry: PluginInstallEntry): PluginVersionSnapshot {
+  return {
+    installPath: entry.installPath,
+    version: entry.version,
+    ...(entry.gitCommitSha ? { gitCommitSha: entry.gitCommitSha } : {}),
+    lastUpdated: entry.lastUpdated,
+    replacedAt: new Date().toISOString(),
+  };
+}
+
+/** 安全閘門中待使用者確認的 plugin（reviewKey 缺少時確認只對下一次操作有效） */
+interface PendingSecurityReview {
+  plugin: string;
+  reviewKey?: string;
+  summary: string;
+}
+
+/** 安全審查 modal 中單一 plugin 的摘要 */
+function formatSecurityReviewSummary(report: PluginSecurityReport): string {
+  if (!report.sourceAvailable) return "source can't be reviewed before install";
+  const parts = [
+    `${report.hookCommands.length} hook command(s)`,
+    `${report.scripts.length} script(s)`,
+    `${report.mcpServers.length} MCP server(s)`,
+  ];
+  if (report.findings.length > 0) parts.push(`${report.findings.length} risky pattern(s)`);
+  return parts.join(', ');
+}
+
+/**
+ * cache 版本目錄 → 引用來源。同一目錄有多個來源時取最強的：
+ * installed（使用中）> devLink（unlink 時還原）> history（供 rollback）。
+ * MarketplaceService 重裝清 cache 時也用來決定要保留的目錄。
+ */
+export async function collectPluginCacheReferences(
+  installed: InstalledPluginsFile,
+): Promise<Map<string, PluginCacheReference>> {
+  const [history, devLinks] = await Promise.all([readPluginHistory(), readDevLinks()]);
+  const references = new Map<string, PluginCacheReference>();
+  for (const snapshots of Object.values(history)) {
+    for (const snapshot of snapshots) {
+      references.set(snapshot.installPath, 'history');
+    }
+  }
+  // dev link 期間 installPath 指向工作目錄，link 前的 cache 版本需保留供 unlink 還原
+  for (const records of Object.values(devLinks)) {
+    for (const record of records) {
+      references.set(record.previous.installPath, 'devLink');
+    }
+  }
+  for (const entries of Object.values(installed.plugins)) {
+    for (const entry of entries) {
+      references.set(entry.installPath, 'installed');
+    }
+  }
+  return references;
+}
+
+/** 讀取 plugin_history.json（pluginId → 被取代的版本），忽略格式不符的 entry */
+export async function readPluginHistory(): Promise<PluginHistoryFile> {
+  const raw = await readJsonFile<Record<string, unknown>>(PLUGIN_HISTORY_PATH, {});
+  return Object.fromEntries(
+    Object.entries(raw)
+      .filter(([, snapshots]) => Array.isArray(snapshots))
+      .map(([pluginId, snapshots]) => [
+        pluginId,
+        (snapshots as unknown[]).filter((s): s is PluginVersionSnapshot => (
+          typeof s === 'object' && s !== null && typeof (s as PluginVersionSnapshot).installPath === 'string'
+        )),
+      ]),
+  );
+}
+
+async function readSecurityReviews(): Promise<SecurityReviewFile> {
+  const raw = await readJsonFile<Record<string, unknown>>(PLUGIN_SECURITY_REVIEWS_PATH, {});
+  return Object.fromEntries(
+    Object.entries(raw).filter(([, review]) => (
+      typeof review === 'object' && review !== null
+      && typeof (review as SecurityReviewFile[string]).report?.reviewKey === 'string'
+    )),
+  ) as SecurityReviewFile;
+}
+
+/** 讀取 plugin_sources.json（pluginId → source 安裝來源），忽略格式不符的 entry */
+export async function readPluginSources(): Promise<PluginSourcesFile> {
+  const raw = await readJsonFile<Record<string, unknown>>(PLUGIN_SOURCES_PATH, {});
+  return Object.fromEntries(
+    Object.entries(raw).filter(([, origin]) => (
+      typeof origin === 'object' && origin !== null
+      && typeof (origin as PluginSourceOrigin).type === 'string'
+      && typeof (origin as PluginSourceOrigin).source === 'string'
+    )),
+  ) as PluginSourcesFile;
+}
+
 /** CLI 的 "Source path does not exist" 錯誤 — marketplace 本地檔案未同步 */
 function isSourcePathMissing(err: unknown): boolean {
   const msg = err instanceof Error ? err.message : String(err);
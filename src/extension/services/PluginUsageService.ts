@@ -0,0 +1,62 @@
+import { CLAUDE_PROJECTS_DIR, PLUGIN_USAGE_PATH } from '../paths';
+import type { PluginContents, PluginUsageStats } from '../../shared/types';
+import type { PluginService } from './PluginService';
+import {
+  createEmptyUsageIndex,
+  findSharedInvocationKeys,
+  scanTranscripts,
+  summarizePluginUsage,
+  type PluginUsageIndex,
+} from './pluginUsage';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { WriteQueue } from '../utils/WriteQueue';
+
+/**
+ * Plugin 使用統計：增量掃描 ~/.claude/projects 下所有 `.jsonl` transcript，
+ * 依 plugin 的 commands / skills / agents / MCP servers 比對 invocation；
+ * 未加 namespace 的名稱若有多個 plugin 共用則不計入（無法判斷屬於誰）。
+ * 掃描進度（每個 transcript 的 offset）與彙總結果存於 plugin_usage.json，下次只讀新增的部分。
+ */
+export class PluginUsageService {
+  /** 序列化同時發生的掃描，避免重複計數 */
+  private readonly queue = new WriteQueue();
+
+  constructor(private readonly pluginService: PluginService) {}
+
+  /** 掃描新增的 transcript 內容後，回傳已安裝 plugin 的使用統計（pluginId → stats） */
+  async getUsage(): Promise<Record<string, PluginUsageStats>> {
+    const index = await this.queue.enqueue(async () => {
+      const scanned = await scanTranscripts(CLAUDE_PROJECTS_DIR, await readUsageIndex());
+      await writeJsonFileAtomic(PLUGIN_USAGE_PATH, scanned);
+      return scanned;
+    });
+
+    // 同一 plugin 可能裝在多個 scope，依 id 去重後再判斷哪些名稱被多個 plugin 共用
+    const contentsById = new Map<string, PluginContents>();
+    for (const plugin of await this.pluginService.listInstalled()) {
+      if (plugin.contents && !contentsById.has(plugin.id)) contentsById.set(plugin.id, plugin.contents);
+    }
+    const sharedKeys = findSharedInvocationKeys([...contentsById.values()]);
+
+    const usage: Record<string, PluginUsageStats> = {};
+    for (const [id, contents] of contentsById) {
+      const lastAt = id.lastIndexOf('@');
+      const name = lastAt > 0 ? id.slice(0, lastAt) : id;
+      usage[id] = summarizePluginUsage(name, contents, index, sharedKeys);
+    }
+    return usage;
+  }
+}
+
+/** 讀取 plugin_usage.json；格式不符時從頭掃描 */
+async function readUsageIndex(): Promise<PluginUsageIndex> {
+  const raw = await readJsonFile<Partial<PluginUsageIndex> | null>(PLUGIN_USAGE_PATH, null).catch(() => null);
+  if (
+    !raw || typeof raw !== 'object'
+    || typeof raw.files !== 'object' || raw.files === null
+    || typeof raw.invocations !== 'object' || raw.invocations === null
+  ) {
+    return createEmptyUsageIndex();
+  }
+  return { files: raw.files, invocations: raw.invocations };
+}
@@ -10,10 +10,11 @@ import type {
   AvailablePlugin,
   PluginInstallEntry,
   PluginContents,
+  PluginExecutables,
 } from '../../shared/types';
 import { KeyedWriteQueue } from '../utils/WriteQueue';
 import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
-import { PluginCatalogScanner, type PluginCatalogSnapshot } from './PluginCatalogScanner';
+import { PluginCatalogScanner, type PluginCatalogSnapshot, type PluginSourceLocation } from './PluginCatalogScanner';
 import {
   INSTALLED_PLUGINS_PATH,
   MARKETPLACES_DIR,
@@ -169,14 +170,25 @@ export class SettingsFileService {
     pluginId: string,
     scope: PluginScope,
     enabled: boolean,
+  ): Promise<void> {
+    return this.setPluginsEnabled([pluginId], scope, enabled);
+  }
+
+  /** 批次寫入多個 plugin 的 enabled 狀態（同一 settings 檔單次 read-write） */
+  async setPluginsEnabled(
+    pluginIds: string[],
+    scope: PluginScope,
+    enabled: boolean,
   ): Promise<void> {
     return this.updateScopedSettingsFile(scope, (settings) => {
       const plugins = (settings.enabledPlugins ?? {}) as EnabledPluginsMap;
 
-      if (enabled) {
-        plugins[pluginId] = true;
-      } else {
-        delete plugins[pluginId];
+      for (const pluginId of pluginIds) {
+        if (enabled) {
+          plugins[pluginId] = true;
+        } else {
+          delete plugins[pluginId];
+        }
       }
 
       settings.enabledPlugins = plugins;
@@ -201,17 +213,30 @@ export class SettingsFileService {
   async addInstallEntry(
     pluginId: string,
     entry: PluginInstallEntry,
+  ): Promise<void> {
+    return this.addInstallEntries([{ pluginId, entry }]);
+  }
+
+  /** 批次新增安裝 entries（installed_plugins.json 單次 read-write） */
+  async addInstallEntries(
+    items: { pluginId: string; entry: PluginInstallEntry }[],
   ): Promise<void> {
     return this.settingsWriteQueues.enqueue(INSTALLED_PLUGINS_PATH, async () => {
       const data = await this.readInstalledPlugins();
-      const entries = data.plugins[pluginId] ?? [];
-      // 避免重複（同 scope + 同 projectPath）
-      const exists = entries.some(
-        (e) => e.scope === entry.scope && e.projectPath === entry.projectPath,
-      );
-      if (!exists) {
-        entries.push(entry);
-        data.plugins[pluginId] = entries;
+      let changed = false;
+      for (const { pluginId, entry } of items) {
+        const entries = data.plugins[pluginId] ?? [];
+        // 避免重複（同 scope + 同 projectPath）
+        const exists = entries.some(
+          (e) => e.scope === entry.scope && e.projectPath === entry.projectPath,
+        );
+        if (!exists) {
+          entries.push(entry);
+          data.plugins[pluginId] = entries;
+          changed = true;
+        }
+      }
+      if (changed) {
         await this.writeInstalledPlugins(data);
       }
     });
@@ -222,18 +247,52 @@ export class SettingsFileService {
     pluginId: string,
     scope: PluginScope,
     projectPath?: string,
+  ): Promise<void> {
+    return this.removeInstallEntries([pluginId], scope, projectPath);
+  }
+
+  /** 批次移除多個 plugin 在同一 scope + projectPath 的 entry（installed_plugins.json 單次 read-write） */
+  async removeInstallEntries(
+    pluginIds: string[],
+    scope: PluginScope,
+    projectPath?: string,
   ): Promise<void> {
     return this.settingsWriteQueues.enqueue(INSTALLED_PLUGINS_PATH, async () => {
       const data = await this.readInstalledPlugins();
-      const entries = data.plugins[pluginId];
-      if (!entries) return;
+      let changed = false;
+      for (const pluginId of pluginIds) {
+        const entries = data.plugins[pluginId];
+        if (!entries) continue;
 
-      data.plugins[pluginId] = entries.filter(
-        (e) => !(e.scope === scope && e.projectPath === projectPath),
-      );
-      if (data.plugins[pluginId].length === 0) {
-        delete data.plugins[pluginId];
+        data.plugins[pluginId] = entries.filter(
+          (e) => !(e.scope === scope && e.projectPath === projectPath),
+        );
+        if (data.plugins[pluginId].length === 0) {
+          delete data.plugins[pluginId];
+        }
+        changed = true;
       }
+      if (changed) {
+        await this.writeInstalledPlugins(data);
+      }
+    });
+  }
+
+  /** 覆寫一筆安裝 entry（by scope + projectPath）的欄位；值為 undefined 的欄位寫入時會被移除 */
+  async updateInstallEntry(
+    pluginId: string,
+    scope: PluginScope,
+    projectPath: string | undefined,
+    patch: Partial<Pick<PluginInstallEntry, 'installPath' | 'version' | 'gitCommitSha' | 'lastUpdated'>>,
+  ): Promise<void> {
+    return this.settingsWriteQueues.enqueue(INSTALLED_PLUGINS_PATH, async () => {
+      const data = await this.readInstalledPlugins();
+      const entry = data.plugins[pluginId]?.find(
+        (e) => e.scope === scope && e.projectPath === projectPath,
+      );
+      if (!entry) return;
+
+      Object.assign(entry, patch);
       await this.writeInstalledPlugins(data);
     });
   }
@@ -283,6 +342,12 @@ export class SettingsFileService {
     return this.pluginCatalogScanner.scanCatalog();
   }
 
+  /** 不經快取重新掃描指定 marketplace 的 plugins（用於 update 前後比對） */
+  async scanMarketplacePlugins(names: string[]): Promise<AvailablePlugin[]> {
+    const snapshot = await this.pluginCatalogScanner.scanCatalog(new Set(names));
+    return snapshot.availablePlugins;
+  }
+
   /** 回傳 manifest 可讀的 marketplace 名稱集合（用於 stale entry pruning） */
   async readScannableMarketplaceNames(): Promise<Set<string>> {
     const snapshot = await this.scanPluginCatalog();
@@ -297,9 +362,31 @@ export class SettingsFileService {
     return this.pluginCatalogScanner.readMarketplaceSources();
   }
 
-  /** 掃描指定目錄的 plugin contents（commands/skills/agents/mcp/hooks） */
-  async scanPluginContentsAt(dir: string): Promise<PluginContents> {
-    return this.pluginCatalogScanner.scanPluginContents(dir);
+  /** 解析 plugin 在 marketplace clone 中的 local 來源目錄（remote source 回傳 null） */
+  async resolvePluginSource(pluginId: string): Promise<PluginSourceLocation | null> {
+    return this.pluginCatalogScanner.resolvePluginSource(pluginId);
+  }
+
+  /** 掃描指定目錄的 plugin contents（commands/skills/agents/mcp/hooks）；指定 trustedParentDir 時不得逃出該目錄 */
+  async scanPluginContentsAt(dir: string, trustedParentDir?: string): Promise<PluginContents> {
+    return this.pluginCatalogScanner.scanPluginContents(dir, trustedParentDir);
+  }
+
+  /** 列出 plugin 目錄內的 shell scripts 與 hook commands（不得逃出 trustedParentDir） */
+  async scanPluginExecutablesAt(dir: string, trustedParentDir: string): Promise<PluginExecutables> {
+    return this.pluginCatalogScanner.scanPluginExecutables(dir, trustedParentDir);
+  }
+
+  /** 掃描 preview 中（尚未加入）marketplace 的 plugin 目錄：contents + shell scripts + hook commands */
+  async scanPreviewPluginAt(
+    dir: string,
+    rootDir: string,
+  ): Promise<{ contents: PluginContents } & PluginExecutables> {
+    const [contents, executables] = await Promise.all([
+      this.pluginCatalogScanner.scanPluginContents(dir, rootDir),
+      this.pluginCatalogScanner.scanPluginExecutables(dir, rootDir),
+    ]);
+    return { contents, ...executables };
   }
 
   /** 取得當前 workspace 根路徑 */
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { window, workspace } from 'vscode';
+import { AutoUpdateScheduler, formatAutoUpdateMessage } from '../AutoUpdateScheduler';
+import type { Memento } from 'vscode';
+import type { MarketplaceService } from '../MarketplaceService';
+import type { Marketplace, MarketplaceUpdateSummary } from '../../../shared/types';
+
+function createMarketplace(overrides: Partial<Marketplace> = {}): Marketplace {
+  return { name: 'mp', source: 'github', repo: 'o/r', installLocation: '/mp', autoUpdate: true, ...overrides };
+}
+
+function createSummary(overrides: Partial<MarketplaceUpdateSummary> = {}): MarketplaceUpdateSummary {
+  return { name: 'mp', added: [], removed: [], changed: [], ...overrides };
+}
+
+const emptyDiff = { added: [], removed: [] };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createMockMemento(): Memento & { store: Record<string, unknown> } {
+  const store: Record<string, unknown> = {};
+  return {
+    store,
+    keys: () => Object.keys(store),
+    get: <T>(key: string, defaultValue?: T): T => (key in store ? store[key] as T : defaultValue as T),
+    update: vi.fn(async (key: string, value: unknown) => { store[key] = value; }),
+  };
+}
+
+function createMockMarketplaceService() {
+  return {
+    list: vi.fn().mockResolvedValue([]),
+    update: vi.fn().mockResolvedValue([]),
+  };
+}
+
+describe('AutoUpdateScheduler', () => {
+  let marketplace: ReturnType<typeof createMockMarketplaceService>;
+  let state: ReturnType<typeof createMockMemento>;
+  let onShowUpdates: ReturnType<typeof vi.fn>;
+  let scheduler: AutoUpdateScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    marketplace = createMockMarketplaceService();
+    state = createMockMemento();
+    onShowUpdates = vi.fn();
+    scheduler = new AutoUpdateScheduler(marketplace as unknown as MarketplaceService, state, onShowUpdates);
+    window.showInformationMessage.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    vi.useRealTimers();
+  });
+
+  it('只更新 autoUpdate: true 的 marketplace，逐一呼叫 update(name)', async () => {
+    marketplace.list.mockResolvedValue([
+      createMarketplace({ name: 'a' }),
+      createMarketplace({ name: 'b', autoUpdate: false }),
+      createMarketplace({ name: 'c' }),
+    ]);
+
+    const result = await scheduler.runOnce();
+
+    expect(marketplace.update.mock.calls).toEqual([['a'], ['c']]);
+    expect(result).toEqual({ summaries: [], failed: [] });
+  });
+
+  it('單一 marketplace 失敗 → 記錄於 failed，其餘繼續', async () => {
+    marketplace.list.mockResolvedValue([createMarketplace({ name: 'a' }), createMarketplace({ name: 'b' })]);
+    marketplace.update
+      .mockRejectedValueOnce(new Error('network'))
+      .mockResolvedValueOnce([createSummary({ name: 'b' })]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await scheduler.runOnce();
+
+    expect(result?.failed).toEqual(['a']);
+    expect(result?.summaries.map((s) => s.name)).toEqual(['b']);
+  });
+
+  it('上一輪尚未結束 → 略過並回傳 null', async () => {
+    let release!: () => void;
+    marketplace.list.mockResolvedValue([createMarketplace()]);
+    marketplace.update.mockReturnValue(new Promise((resolve) => { release = () => resolve([]); }));
+
+    const first = scheduler.runOnce();
+    await vi.waitFor(() => expect(marketplace.update).toHaveBeenCalled());
+    expect(await scheduler.runOnce()).toBeNull();
+
+    release();
+    expect(await first).toEqual({ summaries: [], failed: [] });
+  });
+
+  it('有新增/更新 plugin → 通知；點 Show Updates 呼叫 onShowUpdates', async () => {
+    marketplace.list.mockResolvedValue([createMarketplace()]);
+    marketplace.update.mockResolvedValue([createSummary({
+      added: [{ pluginId: 'new@mp', name: 'new', description: '', marketplaceName: 'mp' }],
+    })]);
+    window.showInformationMessage.mockResolvedValue('Show Updates');
+
+    await scheduler.runOnce();
+
+    expect(window.showInformationMessage).toHaveBeenCalledWith(
+      'Marketplace auto-update: 1 new (new) plugin.',
+      'Show Updates',
+    );
+    await vi.waitFor(() => expect(onShowUpdates).toHaveBeenCalled());
+  });
+
+  it('沒有任何變更 → 不通知', async () => {
+    marketplace.list.mockResolvedValue([createMarketplace()]);
+    marketplace.update.mockResolvedValue([createSummary({ fromCommit: 'a', toCommit: 'b' })]);
+
+    await scheduler.runOnce();
+
+    expect(window.showInformationMessage).not.toHaveBeenCalled();
+  });
+
+  it('start → 依設定的小時數定期執行；0 → 不啟動', async () => {
+    vi.useFakeTimers();
+    state.store['autoUpdate.lastRunAt'] = Date.now();
+    workspace.getConfiguration.mockReturnValueOnce({ get: vi.fn().mockReturnValue(2) });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(2 * HOUR_MS - 1);
+    expect(marketplace.list).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(marketplace.list).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2 * HOUR_MS);
+    expect(marketplace.list).toHaveBeenCalledTimes(2);
+
+    workspace.getConfiguration.mockReturnValueOnce({ get: vi.fn().mockReturnValue(0) });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(10 * HOUR_MS);
+    expect(marketplace.list).toHaveBeenCalledTimes(2);
+  });
+
+  it('start → 從未執行或已到期時立即執行並記錄時間；未到期時只等剩餘時間', async () => {
+    vi.useFakeTimers();
+    workspace.getConfiguration
+      .mockReturnValueOnce({ get: vi.fn().mockReturnValue(24) })
+      .mockReturnValueOnce({ get: vi.fn().mockReturnValue(24) });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(marketplace.list).toHaveBeenCalledTimes(1);
+    expect(state.store['autoUpdate.lastRunAt']).toBe(Date.now());
+
+    // 重新啟動（如 VS Code 重開）時上次執行在 23 小時前 → 1 小時後執行
+    state.store['autoUpdate.lastRunAt'] = Date.now() - 23 * HOUR_MS;
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(HOUR_MS - 1);
+    expect(marketplace.list).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(marketplace.list).toHaveBeenCalledTimes(2);
+  });
+
+  it('start → 間隔超過 setTimeout 上限時分段等待，不會連續觸發', async () => {
+    vi.useFakeTimers();
+    state.store['autoUpdate.lastRunAt'] = Date.now();
+    workspace.getConfiguration.mockReturnValueOnce({ get: vi.fn().mockReturnValue(1000) });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(HOUR_MS);
+    expect(marketplace.list).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(999 * HOUR_MS - 1);
+    expect(marketplace.list).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(marketplace.list).toHaveBeenCalledTimes(1);
+  });
+
+  describe('formatAutoUpdateMessage', () => {
+    it('彙整新增與變更的 plugin 名稱，超過上限以 … 省略', () => {
+      const changed = ['a', 'b', 'c', 'd', 'e', 'f'].map((name) => ({
+        pluginId: `${name}@mp`,
+        name,
+        commands: emptyDiff,
+        skills: emptyDiff,
+        agents: emptyDiff,
+        mcpServers: emptyDiff,
+        hooksChanged: false,
+      }));
+      expect(formatAutoUpdateMessage([createSummary({ changed })])).toBe(
+        'Marketplace auto-update: 6 updated (a, b, c, d, e, …) plugins.',
+      );
+    });
+
+    it('只有 removed → null', () => {
+      expect(formatAutoUpdateMessage([createSummary({
+        removed: [{ pluginId: 'x@mp', name: 'x', description: '', marketplaceName: 'mp' }],
+      })])).toBeNull();
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { EventEmitter } from 'events';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CliService } from '../CliService';
 import { CliError } from '../CliService';
+import { OperationCancelledError } from '../../utils/errors';
 
 const { mockSpawn } = vi.hoisted(() => ({
   mockSpawn: vi.fn(),
@@ -119,6 +120,30 @@ describe('CliService', () => {
       expect(options.env.CLAUDECODE).toBeUndefined();
       delete process.env.CLAUDECODE;
     });
+
+    it('signal abort → SIGTERM child process，拋出 OperationCancelledError 且不重試', async () => {
+      const child = createMockChild();
+      mockSpawn.mockReturnValue(child);
+      const controller = new AbortController();
+
+      const pending = cli.exec(['plugin', 'install', 'p@mp'], { signal: controller.signal }).catch((e: unknown) => e);
+      controller.abort();
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(OperationCancelledError);
+      expect((error as Error).message).toBe('Cancelled: claude plugin install p@mp');
+      expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+    });
+
+    it('signal 已 abort → 不 spawn', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(cli.exec(['plugin', 'list'], { signal: controller.signal }))
+        .rejects.toBeInstanceOf(OperationCancelledError);
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
   });
 
   describe('execJson()', () => {
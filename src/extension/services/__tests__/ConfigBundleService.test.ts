@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { window, workspace } from 'vscode';
+import { ConfigBundleService, parseConfigBundle } from '../ConfigBundleService';
+import type { MarketplaceService } from '../MarketplaceService';
+import type { PluginService } from '../PluginService';
+import type { SettingsFileService } from '../SettingsFileService';
+import type { ConfigBundle, ConfigImportProgress, Marketplace } from '../../../shared/types';
+
+const mockReadFile = vi.hoisted(() => vi.fn());
+vi.mock('fs/promises', () => ({
+  readFile: mockReadFile,
+}));
+
+const mockWriteJsonFileAtomic = vi.hoisted(() => vi.fn().mockResolvedValue(undefined));
+vi.mock('../../utils/jsonFile', () => ({
+  writeJsonFileAtomic: mockWriteJsonFileAtomic,
+}));
+
+const MARKETPLACES: Marketplace[] = [
+  { name: 'mp-a', source: 'github', repo: 'owner/mp-a', installLocation: '/mp/a', autoUpdate: true },
+  { name: 'mp-local', source: 'directory', path: '/local/mp', installLocation: '/local/mp', autoUpdate: false },
+];
+
+function createMocks() {
+  const marketplace = {
+    list: vi.fn().mockResolvedValue(MARKETPLACES),
+    add: vi.fn().mockResolvedValue(undefined),
+    toggleAutoUpdate: vi.fn().mockResolvedValue(undefined),
+  };
+  const plugin = {
+    install: vi.fn().mockResolvedValue(undefined),
+    enable: vi.fn().mockResolvedValue(undefined),
+    confirmSecurityReviews: vi.fn().mockResolvedValue([]),
+  };
+  const settings = {
+    readAllEnabledPlugins: vi.fn().mockResolvedValue({ user: { 'foo@mp-a': true }, project: {}, local: {} }),
+    readInstalledPlugins: vi.fn().mockResolvedValue({ version: 2, plugins: {} }),
+  };
+  const service = new ConfigBundleService(
+    marketplace as unknown as MarketplaceService,
+    plugin as unknown as PluginService,
+    settings as unknown as SettingsFileService,
+  );
+  return { marketplace, plugin, settings, service };
+}
+
+function makeBundle(overrides: Partial<ConfigBundle> = {}): ConfigBundle {
+  return {
+    version: 1,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    marketplaces: [],
+    enabledPlugins: { user: {}, project: {}, local: {} },
+    ...overrides,
+  };
+}
+
+describe('ConfigBundleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workspace.workspaceFolders = undefined;
+  });
+
+  describe('buildBundle', () => {
+    it('組合 marketplace source 與各 scope enabledPlugins', async () => {
+      const { service } = createMocks();
+
+      const bundle = await service.buildBundle();
+
+      expect(bundle.version).toBe(1);
+      expect(bundle.marketplaces).toEqual([
+        { name: 'mp-a', source: 'owner/mp-a', autoUpdate: true },
+        { name: 'mp-local', source: '/local/mp', autoUpdate: false },
+      ]);
+      expect(bundle.enabledPlugins.user).toEqual({ 'foo@mp-a': true });
+    });
+  });
+
+  describe('exportToFile', () => {
+    it('使用者取消存檔 → 回傳 null 且不寫檔', async () => {
+      const { service } = createMocks();
+      vi.mocked(window.showSaveDialog).mockResolvedValue(undefined);
+
+      expect(await service.exportToFile()).toBeNull();
+      expect(mockWriteJsonFileAtomic).not.toHaveBeenCalled();
+    });
+
+    it('選定路徑 → 寫入 bundle', async () => {
+      const { service } = createMocks();
+      vi.mocked(window.showSaveDialog).mockResolvedValue({ fsPath: '/tmp/out.json' } as never);
+
+      expect(await service.exportToFile()).toEqual({ path: '/tmp/out.json' });
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledWith(
+        '/tmp/out.json',
+        expect.objectContaining({ version: 1, marketplaces: expect.any(Array) }),
+      );
+    });
+  });
+
+  describe('pickImportFile', () => {
+    it('讀取檔案並回傳 bundle + preview', async () => {
+      const { service } = createMocks();
+      vi.mocked(window.showOpenDialog).mockResolvedValue([{ fsPath: '/tmp/in.json' }] as never);
+      mockReadFile.mockResolvedValue(JSON.stringify(makeBundle({
+        marketplaces: [{ name: 'mp-new', source: 'owner/mp-new', autoUpdate: true }],
+      })));
+
+      const result = await service.pickImportFile();
+
+      expect(result?.bundle.marketplaces).toHaveLength(1);
+      expect(result?.preview.marketplacesToAdd).toEqual([{ name: 'mp-new', source: 'owner/mp-new', autoUpdate: true }]);
+    });
+
+    it('JSON 格式錯誤 → 拋錯', async () => {
+      const { service } = createMocks();
+      vi.mocked(window.showOpenDialog).mockResolvedValue([{ fsPath: '/tmp/in.json' }] as never);
+      mockReadFile.mockResolvedValue('{ broken');
+
+      await expect(service.pickImportFile()).rejects.toThrow('Invalid JSON in /tmp/in.json');
+    });
+  });
+
+  describe('previewImport', () => {
+    it('分類 marketplace 新增 / 略過與 plugin 啟用 / 略過原因', async () => {
+      const { service } = createMocks();
+
+      const preview = await service.previewImport(makeBundle({
+        marketplaces: [
+          { name: 'mp-a', source: 'owner/mp-a', autoUpdate: true },
+          { name: 'mp-new', source: 'owner/mp-new', autoUpdate: true },
+        ],
+        enabledPlugins: {
+          user: { 'foo@mp-a': true, 'bar@mp-new': true, 'baz@unknown': true, 'off@mp-a': false },
+          project: { 'foo@mp-a': true },
+          local: {},
+        },
+      }));
+
+      expect(preview.marketplacesToAdd.map((m) => m.name)).toEqual(['mp-new']);
+      expect(preview.marketplacesSkipped.map((m) => m.name)).toEqual(['mp-a']);
+      expect(preview.pluginsToEnable).toEqual([{ pluginId: 'bar@mp-new', scope: 'user' }]);
+      expect(preview.pluginsSkipped).toEqual([
+        { pluginId: 'foo@mp-a', scope: 'user', reason: 'alreadyEnabled' },
+        { pluginId: 'baz@unknown', scope: 'user', reason: 'unknownMarketplace' },
+        { pluginId: 'foo@mp-a', scope: 'project', reason: 'noWorkspace' },
+      ]);
+    });
+  });
+
+  describe('importBundle', () => {
+    it('依序 add marketplace → install 未安裝 / enable 已安裝，並發送進度', async () => {
+      const { service, marketplace, plugin, settings } = createMocks();
+      workspace.workspaceFolders = [{ uri: { fsPath: '/ws' } }];
+      settings.readAllEnabledPlugins.mockResolvedValue({ user: {}, project: {}, local: {} });
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: { 'old@mp-a': [{ scope: 'project', projectPath: '/ws', installPath: '/c', version: '1', installedAt: '', lastUpdated: '' }] },
+      });
+      const progress: ConfigImportProgress[] = [];
+      service.onImportProgress((p) => progress.push(p));
+
+      const result = await service.importBundle(makeBundle({
+        marketplaces: [{ name: 'mp-new', source: 'owner/mp-new', autoUpdate: true }],
+        enabledPlugins: { user: { 'new@mp-new': true }, project: { 'old@mp-a': true }, local: {} },
+      }));
+
+      expect(marketplace.add).toHaveBeenCalledWith('owner/mp-new');
+      expect(plugin.confirmSecurityReviews).toHaveBeenCalledTimes(1);
+      expect(plugin.confirmSecurityReviews).toHaveBeenCalledWith(['new@mp-new', 'old@mp-a']);
+      expect(plugin.install).toHaveBeenCalledWith('new@mp-new', 'user');
+      expect(plugin.enable).toHaveBeenCalledWith('old@mp-a', 'project');
+      expect(result).toEqual({ marketplacesAdded: 1, pluginsEnabled: 2, failed: [] });
+      expect(progress.map((p) => p.phase)).toEqual([
+        'addingMarketplaces', 'addingMarketplaces',
+        'enablingPlugins', 'enablingPlugins', 'enablingPlugins',
+        'completed',
+      ]);
+    });
+
+    it('marketplace 加入失敗 → 其 plugin 記為失敗，不嘗試安裝', async () => {
+      const { service, marketplace, plugin, settings } = createMocks();
+      settings.readAllEnabledPlugins.mockResolvedValue({ user: {}, project: {}, local: {} });
+      marketplace.add.mockRejectedValue(new Error('clone failed'));
+
+      const result = await service.importBundle(makeBundle({
+        marketplaces: [{ name: 'mp-new', source: 'owner/mp-new', autoUpdate: true }],
+        enabledPlugins: { user: { 'new@mp-new': true }, project: {}, local: {} },
+      }));
+
+      expect(plugin.install).not.toHaveBeenCalled();
+      expect(result.marketplacesAdded).toBe(0);
+      expect(result.failed).toEqual([
+        'mp-new: clone failed',
+        'new@mp-new (user): marketplace "mp-new" was not added',
+      ]);
+    });
+
+    it('安全審查未確認的 plugin → 記為失敗，不安裝', async () => {
+      const { service, plugin, settings } = createMocks();
+      settings.readAllEnabledPlugins.mockResolvedValue({ user: {}, project: {}, local: {} });
+      plugin.confirmSecurityReviews.mockResolvedValue(['risky@mp-a']);
+
+      const result = await service.importBundle(makeBundle({
+        enabledPlugins: { user: { 'risky@mp-a': true, 'safe@mp-a': true }, project: {}, local: {} },
+      }));
+
+      expect(plugin.install).toHaveBeenCalledTimes(1);
+      expect(plugin.install).toHaveBeenCalledWith('safe@mp-a', 'user');
+      expect(result.failed).toEqual(['risky@mp-a (user): security review not confirmed']);
+    });
+
+    it('bundle autoUpdate=false → 加入後關閉 autoUpdate', async () => {
+      const { service, marketplace } = createMocks();
+      marketplace.list
+        .mockResolvedValueOnce(MARKETPLACES)
+        .mockResolvedValueOnce([...MARKETPLACES, { name: 'mp-new', source: 'github', installLocation: '/mp/new', autoUpdate: true }]);
+
+      await service.importBundle(makeBundle({
+        marketplaces: [{ name: 'mp-new', source: 'owner/mp-new', autoUpdate: false }],
+      }));
+
+      expect(marketplace.toggleAutoUpdate).toHaveBeenCalledWith('mp-new');
+    });
+  });
+
+  describe('parseConfigBundle', () => {
+    it('不支援的版本 → 拋錯', () => {
+      expect(() => parseConfigBundle({ version: 99, marketplaces: [] })).toThrow('Unsupported config bundle version: 99');
+    });
+
+    it('marketplace 缺 source → 拋錯', () => {
+      expect(() => parseConfigBundle({ version: 1, marketplaces: [{ name: 'x' }] })).toThrow('marketplaces[0]');
+    });
+
+    it('缺少的 scope 補空物件，非 boolean 值被濾除', () => {
+      const bundle = parseConfigBundle({ version: 1, marketplaces: [], enabledPlugins: { user: { a: true, b: 'yes' } } });
+      expect(bundle.enabledPlugins).toEqual({ user: { a: true }, project: {}, local: {} });
+    });
+  });
+});
@@ -25,11 +25,11 @@ describe('FileWatcherService', () => {
   });
 
   describe('watcher 初始化', () => {
-    it('建立 10 個 file watcher（6 home + 4 workspace）', () => {
+    it('建立 11 個 file watcher（6 home + 5 workspace）', () => {
       svc = new FileWatcherService();
-      // 6 home dir (5 files + 1 skills glob) + 4 workspace (3 files + 1 skills glob) = 10
-      expect(workspace.createFileSystemWatcher).toHaveBeenCalledTimes(10);
-      expect(mockFileWatchers).toHaveLength(10);
+      // 6 home dir (5 files + 1 skills glob) + 5 workspace (4 files + 1 skills glob) = 11
+      expect(workspace.createFileSystemWatcher).toHaveBeenCalledTimes(11);
+      expect(mockFileWatchers).toHaveLength(11);
     });
 
     it('無 workspace 時只建立 6 個 home dir watcher', () => {
@@ -91,6 +91,19 @@ describe('FileWatcherService', () => {
     });
   });
 
+  describe('plugins.lock.json 變更 → onPluginFilesChanged 事件', () => {
+    it('workspace .claude/plugins.lock.json 變更觸發 plugin 事件', async () => {
+      svc = new FileWatcherService();
+      const handler = vi.fn();
+      svc.onPluginFilesChanged(handler);
+
+      // watcher 10 = workspace .claude/plugins.lock.json
+      mockFileWatchers[10].fireChange();
+      await vi.advanceTimersByTimeAsync(FILE_WATCHER_DEBOUNCE_MS);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('marketplace 檔案變更 → onMarketplaceFilesChanged 事件', () => {
     it('known_marketplaces.json 變更後 debounce 觸發事件', async () => {
       svc = new FileWatcherService();
@@ -235,8 +248,8 @@ describe('FileWatcherService', () => {
   describe('workspace folder 變更', () => {
     it('workspace folder 新增後重建 workspace watchers', async () => {
       svc = new FileWatcherService();
-      const initialCount = mockFileWatchers.length; // 10 (6 home + 4 workspace)
-      expect(initialCount).toBe(10);
+      const initialCount = mockFileWatchers.length; // 11 (6 home + 5 workspace)
+      expect(initialCount).toBe(11);
 
       // 模擬新增第二個 workspace folder
       workspace.workspaceFolders = [
@@ -246,26 +259,26 @@ describe('FileWatcherService', () => {
 
       mockWorkspaceFoldersChangeEmitter.fire();
 
-      // 舊的 4 個 workspace watcher 被 dispose
-      // 新建 8 個 workspace watcher（2 folders × 4 patterns）
-      // 總共 = 10 (initial) + 8 (new workspace) = 18
+      // 舊的 5 個 workspace watcher 被 dispose
+      // 新建 10 個 workspace watcher（2 folders × 5 patterns）
+      // 總共 = 11 (initial) + 10 (new workspace) = 21
       const totalWatchers = mockFileWatchers.length;
-      expect(totalWatchers).toBe(18);
+      expect(totalWatchers).toBe(21);
 
       // 新的 workspace settings watcher 能觸發事件
       const handler = vi.fn();
       svc.onSettingsFilesChanged(handler);
-      // 新 workspace watcher 順序：settings.json × 2, settings.local.json × 2, .mcp.json × 2, skills/**/* × 2
-      // watcher[10] = first folder settings.json (Settings)
-      mockFileWatchers[10].fireChange();
+      // 新 workspace watcher 順序：settings.json × 2, settings.local.json × 2, .mcp.json × 2, skills/**/* × 2, plugins.lock.json × 2
+      // watcher[11] = first folder settings.json (Settings)
+      mockFileWatchers[11].fireChange();
       await vi.advanceTimersByTimeAsync(FILE_WATCHER_DEBOUNCE_MS);
       expect(handler).toHaveBeenCalledTimes(1);
     });
 
     it('舊 workspace watcher 被 dispose', () => {
       svc = new FileWatcherService();
-      // watcher 3, 4, 7, 9 是 workspace watchers（settings.json, settings.local.json, .mcp.json, skills/**/*）
-      const oldWorkspaceWatchers = [mockFileWatchers[3], mockFileWatchers[4], mockFileWatchers[7], mockFileWatchers[9]];
+      // watcher 3, 4, 7, 9, 10 是 workspace watchers（settings.json, settings.local.json, .mcp.json, skills/**/*, plugins.lock.json）
+      const oldWorkspaceWatchers = [3, 4, 7, 9, 10].map((i) => mockFileWatchers[i]);
 
       workspace.workspaceFolders = [
         { uri: { fsPath: '/other/project' } },
@@ -279,6 +292,32 @@ describe('FileWatcherService', () => {
     });
   });
 
+  describe('dev link 目錄', () => {
+    it('watchDevLinkDirs → 每個目錄一個 watcher，變更觸發 onDevLinkFilesChanged', async () => {
+      svc = new FileWatcherService();
+      const handler = vi.fn();
+      svc.onDevLinkFilesChanged(handler);
+      const before = mockFileWatchers.length;
+
+      svc.watchDevLinkDirs(['/dev/a', '/dev/b', '/dev/a']);
+
+      expect(mockFileWatchers).toHaveLength(before + 2);
+      mockFileWatchers[before + 1].fireCreate();
+      await vi.advanceTimersByTimeAsync(FILE_WATCHER_DEBOUNCE_MS);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('再次呼叫 → dispose 舊的 dev link watchers', () => {
+      svc = new FileWatcherService();
+      svc.watchDevLinkDirs(['/dev/a']);
+      const oldWatcher = mockFileWatchers[mockFileWatchers.length - 1];
+
+      svc.watchDevLinkDirs([]);
+
+      expect(oldWatcher.watcher.dispose).toHaveBeenCalled();
+    });
+  });
+
   describe('dispose', () => {
     it('dispose 後不再觸發事件（timer 被清除）', async () => {
       svc = new FileWatcherService();
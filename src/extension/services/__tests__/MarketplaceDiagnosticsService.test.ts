@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DiagnosticSeverity,
+  languages,
+  mockCloseTextDocumentEmitter,
+  mockSaveTextDocumentEmitter,
+  workspace,
+} from 'vscode';
+import { MarketplaceDiagnosticsService } from '../MarketplaceDiagnosticsService';
+import type { MarketplaceManifestLinter } from '../MarketplaceManifestLinter';
+
+const MANIFEST_TEXT = [
+  '{',
+  '  "plugins": [',
+  '    { "name": "dup", "source": "./a" },',
+  '    { "name": "dup", "source": "./b" }',
+  '  ]',
+  '}',
+].join('\n');
+
+/** 以 offset 換算行列的簡易 TextDocument */
+function createDocument(fsPath: string, text = MANIFEST_TEXT) {
+  return {
+    uri: { fsPath },
+    getText: () => text,
+    positionAt: (offset: number) => {
+      const before = text.slice(0, offset).split('\n');
+      return { line: before.length - 1, character: before[before.length - 1].length };
+    },
+  };
+}
+
+function getCollection() {
+  return vi.mocked(languages.createDiagnosticCollection).mock.results.at(-1)!.value as {
+    entries: Map<string, Array<{ message: string; severity: number; source?: string; range: { start: { line: number } } }>>;
+  };
+}
+
+describe('MarketplaceDiagnosticsService', () => {
+  const lint = vi.fn();
+  let service: MarketplaceDiagnosticsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lint.mockResolvedValue([]);
+    vi.mocked(workspace.getWorkspaceFolder).mockReturnValue({ uri: { fsPath: '/ws' } });
+    service?.dispose();
+    service = new MarketplaceDiagnosticsService({ lint } as unknown as MarketplaceManifestLinter);
+  });
+
+  it('workspace 內的 marketplace.json 存檔 → 發佈 diagnostics 並定位到 plugin entry', async () => {
+    lint.mockResolvedValue([
+      { severity: 'error', pluginName: 'dup', duplicate: true, message: 'Duplicate plugin name "dup"' },
+      { severity: 'warning', pluginName: 'dup', message: 'dup: missing .claude-plugin/plugin.json' },
+      { severity: 'error', message: 'manifest level' },
+    ]);
+    const doc = createDocument('/ws/mp/.claude-plugin/marketplace.json');
+
+    await service.lintDocument(doc as never);
+
+    expect(lint).toHaveBeenCalledWith('/ws/mp/.claude-plugin/marketplace.json', MANIFEST_TEXT);
+    const diagnostics = getCollection().entries.get('/ws/mp/.claude-plugin/marketplace.json')!;
+    expect(diagnostics.map((d) => [d.severity, d.range.start.line])).toEqual([
+      [DiagnosticSeverity.Error, 3],
+      [DiagnosticSeverity.Warning, 2],
+      [DiagnosticSeverity.Error, 0],
+    ]);
+    expect(diagnostics[0].source).toBe('Claude marketplace');
+  });
+
+  it('非 marketplace.json 或不在 workspace 內 → 不 lint', async () => {
+    await service.lintDocument(createDocument('/ws/package.json') as never);
+    vi.mocked(workspace.getWorkspaceFolder).mockReturnValue(undefined);
+    await service.lintDocument(createDocument('/elsewhere/.claude-plugin/marketplace.json') as never);
+
+    expect(lint).not.toHaveBeenCalled();
+  });
+
+  it('onDidSaveTextDocument 觸發 lint；關閉檔案時清除 diagnostics', async () => {
+    lint.mockResolvedValue([{ severity: 'error', message: 'broken' }]);
+    const doc = createDocument('/ws/mp/.claude-plugin/marketplace.json');
+
+    mockSaveTextDocumentEmitter.fire(doc);
+    await vi.waitFor(() => expect(getCollection().entries.size).toBe(1));
+
+    mockCloseTextDocumentEmitter.fire(doc);
+    expect(getCollection().entries.size).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * MarketplaceManifestLinter 整合測試。
+ * 真實 filesystem 建立 directory marketplace，驗證各類 manifest 錯誤。
+ */
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdirSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const { SUITE_TMP, SUITE_HOME } = vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const os = require('os');
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const fs = require('fs');
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const path = require('path');
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-int-'));
+  return { SUITE_TMP: tmpDir, SUITE_HOME: path.join(tmpDir, 'home') };
+});
+
+vi.mock('os', () => ({ homedir: () => SUITE_HOME }));
+
+import { MarketplaceManifestLinter } from '../MarketplaceManifestLinter';
+import { SettingsFileService } from '../SettingsFileService';
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+function writeFile(path: string, content: string): void {
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, content);
+}
+
+describe('MarketplaceManifestLinter（integration / 真實 filesystem）', () => {
+  const mpDir = join(SUITE_TMP, 'mp');
+  const manifestPath = join(mpDir, '.claude-plugin', 'marketplace.json');
+  let linter: MarketplaceManifestLinter;
+
+  beforeEach(() => {
+    rmSync(mpDir, { recursive: true, force: true });
+    mkdirSync(join(mpDir, '.claude-plugin'), { recursive: true });
+    linter = new MarketplaceManifestLinter(new SettingsFileService());
+  });
+
+  function lint(plugins: unknown[]) {
+    return linter.lint(manifestPath, JSON.stringify({ name: 'mp', plugins }));
+  }
+
+  it('合法的 plugin → 無 issue', async () => {
+    writeFile(join(mpDir, 'plugins/good/.claude-plugin/plugin.json'), '{"name":"good"}');
+    writeFile(join(mpDir, 'plugins/good/commands/run.md'), '---\ndescription: Run it\n---\n');
+    writeFile(join(mpDir, 'plugins/good/hooks/hooks.json'), JSON.stringify({
+      hooks: { Stop: [{ hooks: [{ type: 'command', command: 'echo done' }] }] },
+    }));
+    writeFile(join(mpDir, 'plugins/good/.mcp.json'), '{"mcpServers":{"db":{"command":"db"}}}');
+
+    expect(await lint([
+      { name: 'good', source: './plugins/good' },
+      { name: 'remote', source: { source: 'github', repo: 'owner/remote' } },
+    ])).toEqual([]);
+  });
+
+  it('JSON 格式錯誤 / plugins 非陣列 → manifest 層級 error', async () => {
+    const invalid = await linter.lint(manifestPath, '{ "plugins": [');
+    expect(invalid).toEqual([{ severity: 'error', message: expect.stringMatching(/^Invalid JSON: /) }]);
+
+    expect(await linter.lint(manifestPath, '{"plugins": {}}')).toEqual([
+      { severity: 'error', message: '"plugins" must be an array' },
+    ]);
+  });
+
+  it('重複名稱、缺 source、未知來源格式', async () => {
+    const issues = await lint([
+      { name: 'dup', source: { source: 'github', repo: 'a/b' } },
+      { name: 'dup', source: { source: 'github', repo: 'a/c' } },
+      { name: 'nosource' },
+      { name: 'weird', source: { source: 'ftp', url: 'ftp://example.com' } },
+    ]);
+
+    expect(issues).toEqual([
+      { severity: 'error', pluginName: 'dup', duplicate: true, message: 'Duplicate plugin name "dup"' },
+      { severity: 'error', pluginName: 'nosource', message: 'nosource: missing "source"' },
+      { severity: 'warning', pluginName: 'weird', message: 'weird: unknown source format "ftp"' },
+    ]);
+  });
+
+  it('source 不存在、逃出 marketplace 目錄、symlink 指向外部', async () => {
+    mkdirSync(join(SUITE_TMP, 'outside'), { recursive: true });
+    mkdirSync(join(mpDir, 'plugins'), { recursive: true });
+    symlinkSync(join(SUITE_TMP, 'outside'), join(mpDir, 'plugins', 'link'));
+
+    const issues = await lint([
+      { name: 'missing', source: './plugins/missing' },
+      { name: 'escape', source: '../outside' },
+      { name: 'link', source: './plugins/link' },
+    ]);
+
+    expect(issues.map((i) => i.message)).toEqual([
+      'missing: source "./plugins/missing" does not exist',
+      'escape: source "../outside" escapes the marketplace directory',
+      'link: source "./plugins/link" resolves outside the marketplace directory',
+    ]);
+  });
+
+  it('缺 plugin.json、hooks.json / .mcp.json 格式錯誤、缺 frontmatter description', async () => {
+    writeFile(join(mpDir, 'plugins/a/commands/bare.md'), '# no frontmatter\n');
+    writeFile(join(mpDir, 'plugins/a/agents/helper.md'), '---\nname: helper\n---\n');
+    writeFile(join(mpDir, 'plugins/a/hooks/hooks.json'), '{"hooks":{"Stop":{}}}');
+    writeFile(join(mpDir, 'plugins/b/.claude-plugin/plugin.json'), '{}');
+    writeFile(join(mpDir, 'plugins/b/.mcp.json'), '{ broken');
+
+    const issues = await lint([
+      { name: 'a', source: './plugins/a' },
+      { name: 'b', source: './plugins/b' },
+    ]);
+
+    expect(issues).toEqual([
+      { severity: 'warning', pluginName: 'a', message: 'a: missing .claude-plugin/plugin.json' },
+      { severity: 'error', pluginName: 'a', message: 'a: malformed hooks/hooks.json: "Stop" must be an array' },
+      { severity: 'warning', pluginName: 'a', message: 'a: Command "bare" has no frontmatter description' },
+      { severity: 'warning', pluginName: 'a', message: 'a: Agent "helper" has no frontmatter description' },
+      expect.objectContaining({ severity: 'error', pluginName: 'b', message: expect.stringMatching(/^b: malformed \.mcp\.json: /) }),
+    ]);
+  });
+});
@@ -1,10 +1,10 @@
 /**
  * MarketplaceService 整合測試。
  * 真實 filesystem，只 mock CLI。
- * 驗證新增 marketplace 後預設 autoUpdate=true。
+ * 驗證新增 marketplace 後預設 autoUpdate=true，以及 Reinstall All 保留 dev link 前的 cache 版本。
  */
 import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
-import { mkdirSync, rmSync } from 'fs';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
 import { readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 
@@ -25,7 +25,10 @@ vi.mock('os', () => ({ homedir: () => SUITE_HOME }));
 
 import { MarketplaceService } from '../MarketplaceService';
 import { SettingsFileService } from '../SettingsFileService';
+import { PluginDevLinkService } from '../PluginDevLinkService';
 import type { CliService } from '../CliService';
+import type { FileWatcherService } from '../FileWatcherService';
+import type { MarketplaceManifestLinter } from '../MarketplaceManifestLinter';
 
 afterAll(() => {
   rmSync(SUITE_TMP, { recursive: true, force: true });
@@ -132,4 +135,38 @@ describe('MarketplaceService（integration / 真實 filesystem）', () => {
     expect(final.fresh.autoUpdate).toBe(true);
   });
 
+  it('dev link → Reinstall All → unlink：link 前的 cache 版本仍在，installPath 還原後可用', async () => {
+    const cacheDir = join(SUITE_HOME, '.claude', 'plugins', 'cache', 'existing', 'tool', '1.0.0');
+    const workDir = join(SUITE_TMP, 'tool-work');
+    for (const dir of [cacheDir, workDir]) {
+      mkdirSync(join(dir, '.claude-plugin'), { recursive: true });
+      writeFileSync(join(dir, '.claude-plugin', 'plugin.json'), JSON.stringify({ name: 'tool', version: '1.0.0' }));
+    }
+    await writeFile(join(SUITE_HOME, '.claude', 'plugins', 'installed_plugins.json'), JSON.stringify({
+      version: 2,
+      plugins: {
+        'tool@existing': [{
+          scope: 'user',
+          installPath: cacheDir,
+          version: '1.0.0',
+          installedAt: '2026-03-02T00:00:00.000Z',
+          lastUpdated: '2026-03-02T00:00:00.000Z',
+        }],
+      },
+    }));
+    const devLinks = new PluginDevLinkService(
+      settings,
+      { onDevLinkFilesChanged: () => ({ dispose: () => {} }), watchDevLinkDirs: vi.fn() } as unknown as FileWatcherService,
+      { lintPluginDir: vi.fn().mockResolvedValue([]) } as unknown as MarketplaceManifestLinter,
+    );
+
+    await devLinks.link('tool@existing', 'user', workDir);
+    await svc.reinstallAll();
+    await devLinks.unlink('tool@existing', 'user');
+
+    const installed = await settings.readInstalledPlugins();
+    expect(installed.plugins['tool@existing'][0].installPath).toBe(cacheDir);
+    expect(existsSync(join(cacheDir, '.claude-plugin', 'plugin.json'))).toBe(true);
+    devLinks.dispose();
+  });
 });
@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { workspace } from 'vscode';
+import { join } from 'path';
 import { MarketplaceService } from '../MarketplaceService';
 import { CLI_LONG_TIMEOUT_MS } from '../../constants';
 import { NoWorkspaceError } from '../../utils/workspace';
-import { KNOWN_MARKETPLACES_PATH } from '../../paths';
+import { OperationCancelledError } from '../../utils/errors';
+import { KNOWN_MARKETPLACES_PATH, MARKETPLACE_PINS_PATH, PLUGIN_HISTORY_PATH, PLUGINS_CACHE_DIR } from '../../paths';
 import type { CliService } from '../CliService';
 import type { SettingsFileService } from '../SettingsFileService';
 import type { InstalledPluginsFile } from '../../../shared/types';
@@ -12,6 +15,7 @@ const mockWriteFile = vi.hoisted(() => vi.fn());
 const mockRename = vi.hoisted(() => vi.fn());
 const mockMkdtemp = vi.hoisted(() => vi.fn());
 const mockRm = vi.hoisted(() => vi.fn());
+const mockReaddir = vi.hoisted(() => vi.fn());
 const mockAccess = vi.hoisted(() => vi.fn());
 const mockRealpath = vi.hoisted(() => vi.fn());
 const mockExecFile = vi.hoisted(() => vi.fn());
@@ -23,6 +27,7 @@ vi.mock('fs/promises', () => ({
   rename: mockRename,
   mkdtemp: mockMkdtemp,
   rm: mockRm,
+  readdir: mockReaddir,
   access: mockAccess,
   realpath: mockRealpath,
 }));
@@ -47,6 +52,13 @@ function createMockSettings(): SettingsFileService & Record<string, ReturnType<t
     readInstalledPlugins: vi.fn().mockResolvedValue({ version: 2, plugins: {} } satisfies InstalledPluginsFile),
     readAllEnabledPlugins: vi.fn().mockResolvedValue({ user: {}, project: {}, local: {} }),
     replaceEnabledPlugins: vi.fn().mockResolvedValue(undefined),
+    scanMarketplacePlugins: vi.fn().mockResolvedValue([]),
+    invalidateScanCache: vi.fn(),
+    scanPreviewPluginAt: vi.fn().mockResolvedValue({
+      contents: { commands: [], skills: [], agents: [], mcpServers: [], hooks: [] },
+      scripts: [],
+      hookCommands: [],
+    }),
   } as unknown as SettingsFileService & Record<string, ReturnType<typeof vi.fn>>;
 }
 
@@ -75,13 +87,45 @@ describe('MarketplaceService', () => {
     cli = createMockCli();
     settings = createMockSettings();
     svc = new MarketplaceService(cli, settings);
+    workspace.workspaceFolders = undefined;
     mockReadFile.mockResolvedValue(JSON.stringify(MOCK_CONFIG));
     mockWriteFile.mockResolvedValue(undefined);
     mockRename.mockResolvedValue(undefined);
     mockRm.mockResolvedValue(undefined);
     mockRealpath.mockImplementation(async (filePath: string) => filePath);
+    mockExecFile.mockImplementation((_cmd: string, _args: string[], _opts: unknown, cb: (err: Error | null, stdout: string) => void) => {
+      cb(new Error('not a git repository'), '');
+    });
   });
 
+  /** 依路徑回傳 known_marketplaces.json / marketplace_pins.json 內容 */
+  function mockConfigFiles(config: unknown, pins: unknown = {}): void {
+    mockReadFile.mockImplementation(async (filePath: string) => {
+      if (filePath === MARKETPLACE_PINS_PATH) return JSON.stringify(pins);
+      return JSON.stringify(config);
+    });
+  }
+
+  /** 記錄 git 呼叫，依子指令回傳 stdout（handler 拋錯 → callback error） */
+  function mockGit(handler: (args: string[]) => string): string[][] {
+    const calls: string[][] = [];
+    mockExecFile.mockImplementation((_cmd: string, args: string[], _opts: unknown, cb: (err: Error | null, stdout: string, stderr: string) => void) => {
+      const gitArgs = args.slice(2);
+      calls.push(gitArgs);
+      try {
+        cb(null, handler(gitArgs), '');
+      } catch (err) {
+        cb(err as Error, '', (err as Error).message);
+      }
+    });
+    return calls;
+  }
+
+  function writtenJson(filePath: string): unknown {
+    const call = mockWriteFile.mock.calls.findLast(([tmpPath]) => String(tmpPath).startsWith(filePath));
+    return call ? JSON.parse(String(call[1])) : undefined;
+  }
+
   describe('list()', () => {
     it('讀取 config file 並 flatten 為 Marketplace[]', async () => {
       const result = await svc.list();
@@ -96,6 +140,7 @@ describe('MarketplaceService', () => {
           installLocation: '/path/to/marketplace',
           lastUpdated: '2026-02-09T06:00:00.000Z',
           autoUpdate: true,
+          editable: false,
         },
         {
           name: 'local-plugins',
@@ -106,9 +151,71 @@ describe('MarketplaceService', () => {
           installLocation: '/local/path',
           lastUpdated: '2026-02-08T12:00:00.000Z',
           autoUpdate: false,
+          editable: false,
         },
       ]);
     });
+
+    it('workspace 內的 directory marketplace 標記為 editable，git source 不標記', async () => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/local' } }];
+
+      const result = await svc.list();
+
+      expect(result.find((m) => m.name === 'local-plugins')?.editable).toBe(true);
+      expect(result.find((m) => m.name === 'my-marketplace')?.editable).toBe(false);
+    });
+  });
+
+  describe('readManifest() / saveManifestPlugins()', () => {
+    const MANIFEST_PATH = '/local/path/.claude-plugin/marketplace.json';
+    const MANIFEST = {
+      name: 'local-plugins',
+      owner: { name: 'me' },
+      plugins: [{ name: 'alpha', source: './plugins/alpha' }],
+    };
+
+    beforeEach(() => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/local' } }];
+      mockReadFile.mockImplementation(async (filePath: string) => (
+        JSON.stringify(filePath === MANIFEST_PATH ? MANIFEST : MOCK_CONFIG)
+      ));
+    });
+
+    it('讀取 workspace 內 directory marketplace 的 marketplace.json', async () => {
+      await expect(svc.readManifest('local-plugins')).resolves.toEqual(MANIFEST);
+    });
+
+    it('workspace 外或非 directory marketplace 拒絕讀寫', async () => {
+      await expect(svc.readManifest('my-marketplace'))
+        .rejects.toThrow('Marketplace "my-marketplace" is not a directory marketplace inside the workspace.');
+
+      workspace.workspaceFolders = [{ uri: { fsPath: '/elsewhere' } }];
+      await expect(svc.saveManifestPlugins('local-plugins', []))
+        .rejects.toThrow('is not a directory marketplace inside the workspace');
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+
+    it('覆寫 plugins 並保留其他欄位，寫入後 invalidate scan cache', async () => {
+      const plugins = [
+        { name: 'beta', source: { source: 'github', repo: 'owner/beta' } },
+        { name: 'alpha', source: './plugins/alpha', version: '1.0.0' },
+      ];
+
+      await svc.saveManifestPlugins('local-plugins', plugins);
+
+      expect(writtenJson(MANIFEST_PATH)).toEqual({ ...MANIFEST, plugins });
+      expect(mockRename).toHaveBeenCalledWith(MANIFEST_PATH + '.tmp', MANIFEST_PATH);
+      expect(settings.invalidateScanCache).toHaveBeenCalledTimes(1);
+    });
+
+    it('entry 不合法 → 拋錯且不寫檔', async () => {
+      await expect(svc.saveManifestPlugins('local-plugins', [
+        { name: 'alpha', source: './plugins/alpha' },
+        { name: 'alpha', source: '../outside' },
+      ])).rejects.toThrow('#2 alpha: Local source must be a relative path');
+      expect(mockWriteFile).not.toHaveBeenCalled();
+      expect(settings.invalidateScanCache).not.toHaveBeenCalled();
+    });
   });
 
   describe('add()', () => {
@@ -176,7 +283,109 @@ describe('MarketplaceService', () => {
     });
   });
 
+  describe('pin() / unpin()', () => {
+    it('pin → fetch + detached checkout，記錄原 branch/autoUpdate 並關閉 autoUpdate', async () => {
+      mockConfigFiles(MOCK_CONFIG);
+      const calls = mockGit((args) => (args[0] === 'rev-parse' ? 'main' : ''));
+
+      await svc.pin('my-marketplace', ' v1.2.0 ');
+
+      expect(calls).toEqual([
+        ['rev-parse', '--abbrev-ref', 'HEAD'],
+        ['fetch', 'origin', 'v1.2.0'],
+        ['checkout', '--detach', 'FETCH_HEAD'],
+      ]);
+      expect(writtenJson(MARKETPLACE_PINS_PATH)).toEqual({
+        'my-marketplace': { ref: 'v1.2.0', previousBranch: 'main', previousAutoUpdate: true },
+      });
+      expect((writtenJson(KNOWN_MARKETPLACES_PATH) as typeof MOCK_CONFIG)['my-marketplace'].autoUpdate).toBe(false);
+    });
+
+    it('pin fetch 失敗 → 改 checkout 本地 ref', async () => {
+      mockConfigFiles(MOCK_CONFIG);
+      const calls = mockGit((args) => {
+        if (args[0] === 'fetch') throw new Error('offline');
+        return args[0] === 'rev-parse' ? 'main' : '';
+      });
+
+      await svc.pin('my-marketplace', 'abc1234');
+
+      expect(calls.at(-1)).toEqual(['checkout', '--detach', 'abc1234']);
+    });
+
+    it('本地目錄 marketplace / 空 ref → 拋錯且不寫檔', async () => {
+      mockConfigFiles(MOCK_CONFIG);
+      await expect(svc.pin('local-plugins', 'main')).rejects.toThrow('not a git marketplace');
+      await expect(svc.pin('my-marketplace', '  ')).rejects.toThrow('Invalid git ref');
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+
+    it('list → 帶出 pinnedRef 與 git HEAD sha', async () => {
+      mockConfigFiles(MOCK_CONFIG, { 'my-marketplace': { ref: 'v1.2.0', previousAutoUpdate: true } });
+      mockGit(() => 'deadbeef');
+
+      const result = await svc.list();
+
+      expect(result[0]).toMatchObject({ name: 'my-marketplace', pinnedRef: 'v1.2.0', headSha: 'deadbeef' });
+      expect(result[1].pinnedRef).toBeUndefined();
+      expect(result[1].headSha).toBeUndefined();
+    });
+
+    it('已釘選 → update 不呼叫 CLI，只重新 checkout 釘選的 ref', async () => {
+      mockConfigFiles(MOCK_CONFIG, { 'my-marketplace': { ref: 'release', previousAutoUpdate: true } });
+      const calls = mockGit(() => '');
+
+      await svc.update('my-marketplace');
+
+      expect(cli.exec).not.toHaveBeenCalled();
+      expect(calls).toContainEqual(['fetch', 'origin', 'release']);
+    });
+
+    it('update 全部且有釘選 → 只逐一更新未釘選的 marketplace', async () => {
+      mockConfigFiles(MOCK_CONFIG, { 'my-marketplace': { ref: 'release', previousAutoUpdate: true } });
+      mockGit(() => '');
+
+      await svc.update();
+
+      expect(cli.exec).toHaveBeenCalledTimes(1);
+      expect(cli.exec).toHaveBeenCalledWith(
+        ['plugin', 'marketplace', 'update', 'local-plugins'],
+        { timeout: CLI_LONG_TIMEOUT_MS },
+      );
+    });
+
+    it('unpin → 切回原 branch、還原 autoUpdate、移除釘選後透過 CLI 更新', async () => {
+      const config = structuredClone(MOCK_CONFIG);
+      config['my-marketplace'].autoUpdate = false;
+      mockConfigFiles(config, { 'my-marketplace': { ref: 'v1.2.0', previousBranch: 'main', previousAutoUpdate: true } });
+      const calls = mockGit(() => '');
+
+      await svc.unpin('my-marketplace');
+
+      expect(calls).toEqual([['checkout', 'main']]);
+      expect(writtenJson(MARKETPLACE_PINS_PATH)).toEqual({});
+      expect((writtenJson(KNOWN_MARKETPLACES_PATH) as typeof MOCK_CONFIG)['my-marketplace'].autoUpdate).toBe(true);
+      expect(cli.exec).toHaveBeenCalledWith(
+        ['plugin', 'marketplace', 'update', 'my-marketplace'],
+        { timeout: CLI_LONG_TIMEOUT_MS },
+      );
+    });
+
+    it('未釘選 → unpin 不做任何事', async () => {
+      mockConfigFiles(MOCK_CONFIG);
+      await svc.unpin('my-marketplace');
+      expect(cli.exec).not.toHaveBeenCalled();
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('update()', () => {
+    beforeEach(() => {
+      mockExecFile.mockImplementation((_cmd: string, _args: string[], _opts: unknown, cb: (err: Error | null, stdout: string) => void) => {
+        cb(null, 'abc123\n');
+      });
+    });
+
     it('無 name → 不帶 name arg', async () => {
       await svc.update();
       expect(cli.exec).toHaveBeenCalledWith(
@@ -210,6 +419,67 @@ describe('MarketplaceService', () => {
       expect(mockFixScriptPermissions).toHaveBeenCalledWith('/local/path');
       expect(mockFixScriptPermissions).toHaveBeenCalledTimes(2);
     });
+
+    it('回傳變更摘要：新增/移除/版本與內容變更 + 前後 git commit', async () => {
+      const contents = (commands: string[], hooks: string[] = []) => ({
+        commands: commands.map((name) => ({ name, description: '', path: `/c/${name}.md` })),
+        skills: [],
+        agents: [],
+        mcpServers: [],
+        hooks: hooks.map((command) => ({ event: 'Stop', type: 'command', command })),
+      });
+      settings.scanMarketplacePlugins
+        .mockResolvedValueOnce([
+          { pluginId: 'keep@my-marketplace', name: 'keep', description: '', marketplaceName: 'my-marketplace', version: '1.0.0', contents: contents(['a']) },
+          { pluginId: 'same@my-marketplace', name: 'same', description: '', marketplaceName: 'my-marketplace', version: '1.0.0', contents: contents(['x']) },
+          { pluginId: 'gone@my-marketplace', name: 'gone', description: '', marketplaceName: 'my-marketplace' },
+        ])
+        .mockResolvedValueOnce([
+          { pluginId: 'keep@my-marketplace', name: 'keep', description: '', marketplaceName: 'my-marketplace', version: '1.1.0', contents: contents(['b'], ['echo done']) },
+          { pluginId: 'same@my-marketplace', name: 'same', description: '', marketplaceName: 'my-marketplace', version: '1.0.0', contents: contents(['x']) },
+          { pluginId: 'new@my-marketplace', name: 'new', description: '', marketplaceName: 'my-marketplace' },
+        ]);
+      mockExecFile
+        .mockImplementationOnce((_c: string, _a: string[], _o: unknown, cb: (err: Error | null, stdout: string) => void) => cb(null, 'old111\n'))
+        .mockImplementationOnce((_c: string, _a: string[], _o: unknown, cb: (err: Error | null, stdout: string) => void) => cb(null, 'new222\n'));
+
+      const [summary] = await svc.update('my-marketplace');
+
+      expect(settings.scanMarketplacePlugins).toHaveBeenCalledWith(['my-marketplace']);
+      expect(mockExecFile).toHaveBeenCalledWith(
+        'git', ['-C', '/path/to/marketplace', 'rev-parse', 'HEAD'], expect.any(Object), expect.any(Function),
+      );
+      expect(summary.name).toBe('my-marketplace');
+      expect(summary.fromCommit).toBe('old111');
+      expect(summary.toCommit).toBe('new222');
+      expect(summary.added.map((p) => p.pluginId)).toEqual(['new@my-marketplace']);
+      expect(summary.removed.map((p) => p.pluginId)).toEqual(['gone@my-marketplace']);
+      expect(summary.changed).toEqual([expect.objectContaining({
+        pluginId: 'keep@my-marketplace',
+        fromVersion: '1.0.0',
+        toVersion: '1.1.0',
+        commands: { added: ['b'], removed: ['a'] },
+        hooksChanged: true,
+      })]);
+    });
+
+    it('非 git 目錄 → commit 為 undefined，無 name 時每個 marketplace 各一份摘要', async () => {
+      mockExecFile.mockImplementation((_c: string, _a: string[], _o: unknown, cb: (err: Error | null, stdout: string) => void) => {
+        cb(new Error('not a git repository'), '');
+      });
+
+      const summaries = await svc.update();
+
+      expect(summaries.map((s) => s.name)).toEqual(['my-marketplace', 'local-plugins']);
+      expect(summaries[1]).toEqual({
+        name: 'local-plugins',
+        fromCommit: undefined,
+        toCommit: undefined,
+        added: [],
+        removed: [],
+        changed: [],
+      });
+    });
   });
 
   describe('toggleAutoUpdate()', () => {
@@ -330,6 +600,219 @@ describe('MarketplaceService', () => {
         { timeout: CLI_LONG_TIMEOUT_MS, cwd: '/Users/test/.claude' },
       );
     });
+    it('清除 cache 時保留不會重裝的 plugin（source 安裝的 direct）目前版本目錄', async () => {
+      const directDir = join(PLUGINS_CACHE_DIR, 'direct', 'tool');
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: {
+          'looping@my-marketplace': [{
+            scope: 'user',
+            installPath: join(PLUGINS_CACHE_DIR, 'my-marketplace', 'looping', '1.0.0'),
+            version: '1.0.0',
+            installedAt: '2026-04-08T00:00:00.000Z',
+            lastUpdated: '2026-04-08T00:00:00.000Z',
+          }],
+          'tool@direct': [{
+            scope: 'user',
+            installPath: join(directDir, '1.0.0'),
+            version: '1.0.0',
+            installedAt: '2026-04-08T00:00:00.000Z',
+            lastUpdated: '2026-04-08T00:00:00.000Z',
+          }],
+        },
+      } satisfies InstalledPluginsFile);
+      const dirent = (name: string) => ({ name, isDirectory: () => true });
+      mockReaddir.mockImplementation(async (dir: string) => {
+        if (dir === PLUGINS_CACHE_DIR) return [dirent('my-marketplace'), dirent('direct')];
+        if (dir === join(PLUGINS_CACHE_DIR, 'direct')) return [dirent('tool')];
+        if (dir === directDir) return [dirent('0.9.0'), dirent('1.0.0')];
+        return [];
+      });
+
+      await svc.reinstallAll();
+
+      expect(mockRm).toHaveBeenCalledWith(join(PLUGINS_CACHE_DIR, 'my-marketplace'), { recursive: true, force: true });
+      expect(mockRm).toHaveBeenCalledWith(join(directDir, '0.9.0'), { recursive: true, force: true });
+      expect(mockRm).not.toHaveBeenCalledWith(join(directDir, '1.0.0'), expect.anything());
+      expect(cli.exec).not.toHaveBeenCalledWith(
+        expect.arrayContaining(['tool@direct']),
+        expect.anything(),
+      );
+    });
+
+    it('取消 → 補回被移除的 marketplace，還原 enabled 狀態並重裝原本的 plugins', async () => {
+      const config: Record<string, unknown> = structuredClone(MOCK_CONFIG);
+      mockConfigFiles(config);
+      settings.readAllEnabledPlugins.mockResolvedValue({
+        user: { 'looping@my-marketplace': true },
+        project: {},
+        local: {},
+      });
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: {
+          'looping@my-marketplace': [{
+            scope: 'user',
+            installPath: '/cache/my-marketplace/looping/hash',
+            version: '1.0.0',
+            installedAt: '2026-04-08T00:00:00.000Z',
+            lastUpdated: '2026-04-08T00:00:00.000Z',
+          }],
+        },
+      } satisfies InstalledPluginsFile);
+      const controller = new AbortController();
+      cli.exec.mockImplementation(async (args: string[], options?: { signal?: AbortSignal }) => {
+        const [, , action, target] = args;
+        if (action === 'remove') delete config[target];
+        if (action === 'add') {
+          // 第一個 re-add 時使用者按下取消；rollback 的 add 不帶 signal
+          if (options?.signal) {
+            controller.abort();
+            throw new OperationCancelledError();
+          }
+          const name = target === 'owner/repo' ? 'my-marketplace' : 'local-plugins';
+          config[name] = MOCK_CONFIG[name];
+        }
+        return '';
+      });
+
+      await expect(svc.reinstallAll(controller.signal))
+        .rejects.toThrow('Reinstall cancelled; previous marketplaces and plugins were restored.');
+
+      expect(config).toEqual(MOCK_CONFIG);
+      expect(settings.replaceEnabledPlugins).toHaveBeenCalledWith('user', { 'looping@my-marketplace': true });
+      expect(cli.exec).toHaveBeenLastCalledWith(
+        ['plugin', 'install', 'looping@my-marketplace', '--scope', 'user'],
+        { timeout: CLI_LONG_TIMEOUT_MS },
+      );
+    });
+  });
+
+  describe('reinstall()', () => {
+    const INSTALLED: InstalledPluginsFile = {
+      version: 2,
+      plugins: {
+        'looping@my-marketplace': [{
+          scope: 'user',
+          installPath: '/cache/my-marketplace/looping/hash',
+          version: '1.0.0',
+          installedAt: '2026-04-08T00:00:00.000Z',
+          lastUpdated: '2026-04-08T00:00:00.000Z',
+        }],
+        'stock@local-plugins': [{
+          scope: 'user',
+          installPath: '/cache/local-plugins/stock/hash',
+          version: '1.0.0',
+          installedAt: '2026-04-08T00:00:00.000Z',
+          lastUpdated: '2026-04-08T00:00:00.000Z',
+        }],
+      },
+    };
+
+    it('只清除 / remove / re-add 指定 marketplace，不動其他 marketplace', async () => {
+      await svc.reinstall('my-marketplace');
+
+      expect(mockRm).toHaveBeenCalledWith(
+        expect.stringMatching(/cache\/my-marketplace$/),
+        { recursive: true, force: true },
+      );
+      expect(cli.exec).toHaveBeenCalledWith(['plugin', 'marketplace', 'remove', 'my-marketplace']);
+      expect(cli.exec).toHaveBeenCalledWith(
+        ['plugin', 'marketplace', 'add', 'owner/repo'],
+        { timeout: CLI_LONG_TIMEOUT_MS },
+      );
+      expect(cli.exec).not.toHaveBeenCalledWith(['plugin', 'marketplace', 'remove', 'local-plugins']);
+    });
+
+    it('只重裝該 marketplace 的 plugins，並合併還原其 enabled 狀態', async () => {
+      settings.readInstalledPlugins.mockResolvedValue(INSTALLED);
+      settings.readAllEnabledPlugins
+        .mockResolvedValueOnce({
+          user: { 'looping@my-marketplace': true, 'stock@local-plugins': true },
+          project: {},
+          local: {},
+        })
+        .mockResolvedValueOnce({ user: { 'stock@local-plugins': true }, project: {}, local: {} });
+
+      const result = await svc.reinstall('my-marketplace');
+
+      expect(cli.exec).toHaveBeenCalledWith(
+        ['plugin', 'install', 'looping@my-marketplace', '--scope', 'user'],
+        { timeout: CLI_LONG_TIMEOUT_MS },
+      );
+      expect(cli.exec).not.toHaveBeenCalledWith(
+        ['plugin', 'install', 'stock@local-plugins', '--scope', 'user'],
+        expect.anything(),
+      );
+      expect(settings.replaceEnabledPlugins).toHaveBeenCalledTimes(1);
+      expect(settings.replaceEnabledPlugins).toHaveBeenCalledWith('user', {
+        'stock@local-plugins': true,
+        'looping@my-marketplace': true,
+      });
+      expect(result).toEqual({ name: 'my-marketplace', restored: 1, failed: [] });
+    });
+
+    it('plugin 重裝失敗 → 回傳逐一失敗報告而不拋錯', async () => {
+      settings.readInstalledPlugins.mockResolvedValue(INSTALLED);
+      cli.exec.mockImplementation(async (args: string[]) => {
+        if (args[1] === 'install') throw new Error('network down');
+        return '';
+      });
+
+      const result = await svc.reinstall('my-marketplace');
+
+      expect(result.restored).toBe(0);
+      expect(result.failed).toEqual([
+        { pluginId: 'looping@my-marketplace', scope: 'user', error: 'network down' },
+      ]);
+    });
+
+    it('發送 MarketplaceReinstallProgress 直到 completed', async () => {
+      const phases: string[] = [];
+      svc.onReinstallProgress((p) => phases.push(p.phase));
+
+      await svc.reinstall('my-marketplace');
+
+      expect(phases[0]).toBe('clearingCache');
+      expect(phases).toContain('addingMarketplaces');
+      expect(phases[phases.length - 1]).toBe('completed');
+    });
+
+    it('清除 cache 時保留 plugin_history.json 記錄的歷史版本目錄', async () => {
+      const mpDir = join(PLUGINS_CACHE_DIR, 'my-marketplace');
+      const historyDir = join(mpDir, 'looping', '0.9.0');
+      mockReadFile.mockImplementation(async (filePath: string) => {
+        if (filePath === PLUGIN_HISTORY_PATH) {
+          return JSON.stringify({
+            'looping@my-marketplace': [{
+              installPath: historyDir,
+              version: '0.9.0',
+              lastUpdated: '2026-04-01T00:00:00.000Z',
+              replacedAt: '2026-04-08T00:00:00.000Z',
+            }],
+          });
+        }
+        return JSON.stringify(MOCK_CONFIG);
+      });
+      const dirent = (name: string) => ({ name, isDirectory: () => true });
+      mockReaddir.mockImplementation(async (dir: string) => {
+        if (dir === mpDir) return [dirent('looping'), dirent('other')];
+        if (dir === join(mpDir, 'looping')) return [dirent('0.9.0'), dirent('1.0.0')];
+        return [];
+      });
+
+      await svc.reinstall('my-marketplace');
+
+      expect(mockRm).not.toHaveBeenCalledWith(mpDir, expect.anything());
+      expect(mockRm).not.toHaveBeenCalledWith(historyDir, expect.anything());
+      expect(mockRm).toHaveBeenCalledWith(join(mpDir, 'other'), { recursive: true, force: true });
+      expect(mockRm).toHaveBeenCalledWith(join(mpDir, 'looping', '1.0.0'), { recursive: true, force: true });
+    });
+
+    it('不存在的 marketplace → 拋錯且不呼叫 CLI', async () => {
+      await expect(svc.reinstall('ghost')).rejects.toThrow('Marketplace "ghost" not found');
+      expect(cli.exec).not.toHaveBeenCalled();
+    });
   });
 
   describe('preview()', () => {
@@ -356,8 +839,50 @@ describe('MarketplaceService', () => {
       const result = await svc.preview('/local/marketplace');
 
       expect(result).toEqual([
-        { name: 'plugin-a', description: 'Plugin A from json', version: '2.0.0' },
-        { name: 'plugin-b', description: 'Plugin B', version: undefined },
+        expect.objectContaining({ name: 'plugin-a', description: 'Plugin A from json', version: '2.0.0' }),
+        expect.objectContaining({ name: 'plugin-b', description: 'Plugin B', version: undefined }),
+      ]);
+    });
+
+    it('local plugin → 附帶來源格式、contents、shell scripts 與 hook commands', async () => {
+      const contents = {
+        commands: [{ name: 'deploy', description: '', path: '/local/marketplace/plugins/a/commands/deploy.md' }],
+        skills: [],
+        agents: [],
+        mcpServers: ['db'],
+        hooks: [{ event: 'PreToolUse', matcher: 'Bash', type: 'command', command: './scripts/guard.sh' }],
+      };
+      const hookCommands = [{ event: 'PreToolUse', matcher: 'Bash', command: './scripts/guard.sh' }];
+      settings.scanPreviewPluginAt.mockResolvedValue({ contents, scripts: ['scripts/guard.sh'], hookCommands });
+      mockReadFile.mockImplementation(async (filePath: string) => {
+        if (typeof filePath === 'string' && filePath.includes('marketplace.json')) {
+          return JSON.stringify({
+            name: 'mp',
+            plugins: [
+              { name: 'plugin-a', description: 'Plugin A', source: './plugins/a' },
+              { name: 'remote', description: 'Remote', source: { source: 'github', repo: 'owner/remote' } },
+            ],
+          });
+        }
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      });
+      mockAccess.mockResolvedValue(undefined);
+
+      const result = await svc.preview('/local/marketplace');
+
+      expect(settings.scanPreviewPluginAt).toHaveBeenCalledTimes(1);
+      expect(settings.scanPreviewPluginAt).toHaveBeenCalledWith('/local/marketplace/plugins/a', '/local/marketplace');
+      expect(result).toEqual([
+        {
+          name: 'plugin-a',
+          description: 'Plugin A',
+          version: undefined,
+          sourceFormat: 'local-internal',
+          contents,
+          scripts: ['scripts/guard.sh'],
+          hookCommands,
+        },
+        { name: 'remote', description: 'Remote', version: undefined, sourceFormat: 'github' },
       ]);
     });
 
@@ -471,10 +996,11 @@ describe('MarketplaceService', () => {
 
       const result = await svc.preview('/safe/marketplace');
 
-      // evil-plugin 使用 manifest fallback（path traversal 被阻擋）
-      expect(result[0]).toEqual({ name: 'evil-plugin', description: 'Evil', version: undefined });
+      // evil-plugin 使用 manifest fallback（path traversal 被阻擋，也不掃描 contents）
+      expect(result[0]).toEqual({ name: 'evil-plugin', description: 'Evil', version: undefined, sourceFormat: 'local-internal' });
+      expect(settings.scanPreviewPluginAt).not.toHaveBeenCalledWith(expect.stringContaining('/etc'), expect.anything());
       // good-plugin 正常讀取 plugin.json
-      expect(result[1]).toEqual({ name: 'good-plugin', description: 'Good from json', version: '1.0.0' });
+      expect(result[1]).toEqual(expect.objectContaining({ name: 'good-plugin', description: 'Good from json', version: '1.0.0' }));
     });
 
     it('plugin.json symlink 逃出 preview root → 不讀取外部 metadata，fallback manifest', async () => {
@@ -501,7 +1027,7 @@ describe('MarketplaceService', () => {
       const result = await svc.preview('/safe/marketplace');
 
       expect(result).toEqual([
-        { name: 'linked-plugin', description: 'Manifest description', version: '1.0.0' },
+        expect.objectContaining({ name: 'linked-plugin', description: 'Manifest description', version: '1.0.0' }),
       ]);
       expect(mockReadFile).not.toHaveBeenCalledWith(pluginJsonPath, 'utf-8');
     });
@@ -17,6 +17,7 @@ vi.mock('../../utils/jsonFile', () => ({
 
 import { lstat, readFile, readdir, realpath, stat } from 'fs/promises';
 import { readJsonFile } from '../../utils/jsonFile';
+import { estimatePluginTokens, MCP_SERVER_TOKEN_ESTIMATE } from '../../../shared/pluginTokenEstimate';
 
 describe('PluginCatalogScanner', () => {
   const defaultOptions = {
@@ -41,7 +42,26 @@ describe('PluginCatalogScanner', () => {
       expect(result.scannableMarketplaceNames.size).toBe(0);
     });
 
-    it('掃描單一 marketplace 的 plugins', async () => {
+    it('指定 onlyMarketplaces 時只掃描該 marketplace', async () => {
+      vi.mocked(readJsonFile).mockImplementation(async (path: string) => {
+        if (path.includes('known_marketplaces')) {
+          return { official: { installLocation: '/mp/official' }, other: { installLocation: '/mp/other' } };
+        }
+        if (path.includes('marketplace.json')) {
+          return { plugins: [{ name: 'remote', source: { source: 'url', url: 'https://example.com/r.git' } }] };
+        }
+        return {};
+      });
+
+      const scanner = new PluginCatalogScanner(defaultOptions);
+      const result = await scanner.scanCatalog(new Set(['other']));
+
+      expect(result.availablePlugins.map((p) => p.pluginId)).toEqual(['remote@other']);
+      expect([...result.scannableMarketplaceNames]).toEqual(['other']);
+      expect(readJsonFile).not.toHaveBeenCalledWith('/mp/official/.claude-plugin/marketplace.json', expect.anything());
+    });
+
+    it('掃描單一 marketplace 的 plugins（author 物件正規化為名稱）', async () => {
       // Mock known_marketplaces.json 和 marketplace.json
       vi.mocked(readJsonFile)
         .mockImplementation(async (path: string) => {
@@ -56,7 +76,7 @@ describe('PluginCatalogScanner', () => {
             };
           }
           if (path.includes('plugin.json')) {
-            return { description: 'Detailed A', version: '1.0.0' };
+            return { description: 'Detailed A', version: '1.0.0', author: { name: 'Ada', email: 'ada@example.com' } };
           }
           if (path.includes('.mcp.json')) {
             return {};
@@ -94,6 +114,7 @@ describe('PluginCatalogScanner', () => {
         name: 'plugin-a',
         description: 'Detailed A',
         version: '1.0.0',
+        author: 'Ada',
         marketplaceName: 'official',
         sourceDir: './plugins/a',
       });
@@ -453,10 +474,19 @@ describe('PluginCatalogScanner', () => {
         throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
       });
 
-      // .mcp.json
-      vi.mocked(readJsonFile).mockResolvedValueOnce({
-        mcpServers: { 'server-1': { command: 'node' } },
-      });
+      // .mcp.json + hooks/hooks.json（讀取順序不固定，依路徑回傳）
+      const readPluginJson = async (filePath: string) => {
+        if (filePath.endsWith('.mcp.json')) {
+          return { mcpServers: { 'server-1': { command: 'node' } } };
+        }
+        return {
+          hooks: {
+            PreToolUse: [{ matcher: 'Bash', hooks: [{ type: 'command', command: '${CLAUDE_PLUGIN_ROOT}/scripts/guard.sh' }] }],
+            Stop: [{ hooks: [{ type: 'prompt', prompt: 'Summarize the session' }, { type: 'http' }] }],
+          },
+        };
+      };
+      vi.mocked(readJsonFile).mockImplementationOnce(readPluginJson).mockImplementationOnce(readPluginJson);
 
       const scanner = new PluginCatalogScanner(defaultOptions);
       const contents = await scanner.scanPluginContents('/plugin/dir');
@@ -468,7 +498,39 @@ describe('PluginCatalogScanner', () => {
       expect(contents.agents).toHaveLength(1);
       expect(contents.agents[0].name).toBe('My Agent');
       expect(contents.mcpServers).toEqual(['server-1']);
-      expect(contents.hooks).toBe(true);
+      expect(contents.hooks).toEqual([
+        { event: 'PreToolUse', matcher: 'Bash', type: 'command', command: '${CLAUDE_PLUGIN_ROOT}/scripts/guard.sh' },
+        { event: 'Stop', matcher: undefined, type: 'prompt', command: 'Summarize the session' },
+      ]);
+      // 掃描時一併估計 context token 用量
+      expect(contents.tokenEstimate).toEqual(estimatePluginTokens(contents));
+      expect(contents.tokenEstimate?.mcpServers).toBe(MCP_SERVER_TOKEN_ESTIMATE);
+    });
+
+    it('hook command 引用 ${CLAUDE_PLUGIN_ROOT} 內既有檔案 → 附 scriptPath；逃出 plugin 目錄則忽略', async () => {
+      vi.mocked(readdir).mockResolvedValue([] as never);
+      vi.mocked(stat).mockImplementation(async (filePath) => {
+        const p = String(filePath);
+        if (p.endsWith('/hooks/hooks.json') || p.endsWith('.sh')) return { isFile: () => true } as never;
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      });
+      const readPluginJson = async (filePath: string) => (filePath.endsWith('.mcp.json') ? {} : {
+        hooks: {
+          PostToolUse: [{
+            matcher: 'Write|Edit',
+            hooks: [
+              { type: 'command', command: 'bash "${CLAUDE_PLUGIN_ROOT}/scripts/format.sh" --fix' },
+              { type: 'command', command: '$CLAUDE_PLUGIN_ROOT/../outside.sh' },
+            ],
+          }],
+        },
+      });
+      vi.mocked(readJsonFile).mockImplementationOnce(readPluginJson).mockImplementationOnce(readPluginJson);
+
+      const scanner = new PluginCatalogScanner(defaultOptions);
+      const contents = await scanner.scanPluginContents('/plugin/dir');
+
+      expect(contents.hooks.map((h) => h.scriptPath)).toEqual(['/plugin/dir/scripts/format.sh', undefined]);
     });
 
     it('目錄不存在時回傳空陣列', async () => {
@@ -483,7 +545,7 @@ describe('PluginCatalogScanner', () => {
       expect(contents.skills).toEqual([]);
       expect(contents.agents).toEqual([]);
       expect(contents.mcpServers).toEqual([]);
-      expect(contents.hooks).toBe(false);
+      expect(contents.hooks).toEqual([]);
     });
 
     it('.mcp.json invalid JSON → 不吞成空 MCP servers', async () => {
@@ -548,7 +610,7 @@ describe('PluginCatalogScanner', () => {
         skills: [],
         agents: [],
         mcpServers: [],
-        hooks: false,
+        hooks: [],
       });
       expect(readFile).not.toHaveBeenCalledWith(
         '/safe/cache/plugin-link/commands/secret.md',
@@ -557,6 +619,73 @@ describe('PluginCatalogScanner', () => {
     });
   });
 
+  describe('scanPluginExecutables', () => {
+    const dirent = (name: string, type: 'file' | 'dir' | 'symlink') => ({
+      name,
+      isDirectory: () => type === 'dir',
+      isFile: () => type === 'file',
+    });
+
+    it('遞迴列出 shell scripts（略過 .git / node_modules / symlink）並解析 hook commands', async () => {
+      vi.mocked(readdir).mockImplementation(async (filePath) => {
+        const p = String(filePath);
+        if (p === '/mp/plugins/a') {
+          return [
+            dirent('scripts', 'dir'),
+            dirent('.git', 'dir'),
+            dirent('node_modules', 'dir'),
+            dirent('install.sh', 'file'),
+            dirent('link.sh', 'symlink'),
+            dirent('README.md', 'file'),
+          ] as never;
+        }
+        if (p === '/mp/plugins/a/scripts') return [dirent('lint.bash', 'file')] as never;
+        return [dirent('hidden.sh', 'file')] as never;
+      });
+      vi.mocked(readJsonFile).mockResolvedValueOnce({
+        hooks: {
+          PreToolUse: [
+            { matcher: 'Bash', hooks: [{ type: 'command', command: '${CLAUDE_PLUGIN_ROOT}/scripts/lint.bash' }] },
+          ],
+          Stop: [{ hooks: [{ type: 'command', command: 'echo done' }, { type: 'prompt' }] }],
+        },
+      });
+
+      const scanner = new PluginCatalogScanner(defaultOptions);
+      const result = await scanner.scanPluginExecutables('/mp/plugins/a', '/mp');
+
+      expect(result.scripts).toEqual(['install.sh', 'scripts/lint.bash']);
+      expect(result.hookCommands).toEqual([
+        { event: 'PreToolUse', matcher: 'Bash', command: '${CLAUDE_PLUGIN_ROOT}/scripts/lint.bash' },
+        { event: 'Stop', matcher: undefined, command: 'echo done' },
+      ]);
+    });
+
+    it('plugin 目錄逃出 trusted parent → 不掃描', async () => {
+      vi.mocked(realpath).mockImplementation(async (filePath) => (
+        String(filePath) === '/mp/plugins/link' ? '/outside' : String(filePath)
+      ) as never);
+
+      const scanner = new PluginCatalogScanner(defaultOptions);
+      const result = await scanner.scanPluginExecutables('/mp/plugins/link', '/mp');
+
+      expect(result).toEqual({ scripts: [], hookCommands: [] });
+      expect(readdir).not.toHaveBeenCalled();
+    });
+
+    it('hooks.json 格式錯誤 → hookCommands 為空', async () => {
+      vi.mocked(readdir).mockResolvedValue([] as never);
+      vi.mocked(readJsonFile).mockRejectedValueOnce(new Error('Invalid JSON'));
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const scanner = new PluginCatalogScanner(defaultOptions);
+      const result = await scanner.scanPluginExecutables('/mp/plugins/a', '/mp');
+
+      expect(result.hookCommands).toEqual([]);
+      warnSpy.mockRestore();
+    });
+  });
+
   describe('readMarketplaceSources', () => {
     it('從 known_marketplaces 提取 source URLs', async () => {
       vi.mocked(readJsonFile).mockResolvedValueOnce({
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { EventEmitter, window, workspace } from 'vscode';
+import { PluginDevLinkService, readDevLinks } from '../PluginDevLinkService';
+import { PLUGIN_DEV_LINKS_PATH } from '../../paths';
+import type { SettingsFileService } from '../SettingsFileService';
+import type { FileWatcherService } from '../FileWatcherService';
+import type { MarketplaceManifestLinter } from '../MarketplaceManifestLinter';
+import type { InstalledPluginsFile, PluginInstallEntry, PluginScope } from '../../../shared/types';
+
+vi.mock('../../paths', async () => {
+  const { tmpdir } = await import('os');
+  const { join: joinPath } = await import('path');
+  return { PLUGIN_DEV_LINKS_PATH: joinPath(tmpdir(), `dev-link-test-${process.pid}`, 'plugin_dev_links.json') };
+});
+
+const LINKS_PATH = PLUGIN_DEV_LINKS_PATH;
+const SUITE_TMP = dirname(LINKS_PATH);
+
+beforeAll(() => {
+  mkdirSync(SUITE_TMP, { recursive: true });
+});
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+/** 建立含 plugin.json 的工作目錄 */
+function createWorkDir(dirName: string, pluginName: string): string {
+  const dir = join(SUITE_TMP, dirName);
+  mkdirSync(join(dir, '.claude-plugin'), { recursive: true });
+  writeFileSync(join(dir, '.claude-plugin', 'plugin.json'), JSON.stringify({ name: pluginName, version: '2.0.0-dev' }));
+  return dir;
+}
+
+function createMockSettings() {
+  const installed: InstalledPluginsFile = {
+    version: 2,
+    plugins: {
+      'tool@mp': [{
+        scope: 'user',
+        installPath: '/cache/mp/tool/1.0.0',
+        version: '1.0.0',
+        installedAt: '2026-01-01T00:00:00.000Z',
+        lastUpdated: '2026-01-01T00:00:00.000Z',
+        gitCommitSha: 'abc123',
+      }],
+    },
+  };
+  return {
+    installed,
+    readInstalledPlugins: vi.fn(async () => structuredClone(installed)),
+    updateInstallEntry: vi.fn(async (
+      pluginId: string,
+      scope: PluginScope,
+      projectPath: string | undefined,
+      patch: Partial<PluginInstallEntry>,
+    ) => {
+      const entry = installed.plugins[pluginId]?.find((e) => e.scope === scope && e.projectPath === projectPath);
+      if (entry) Object.assign(entry, patch);
+    }),
+  };
+}
+
+describe('PluginDevLinkService', () => {
+  let settings: ReturnType<typeof createMockSettings>;
+  let devLinkEmitter: EventEmitter<void>;
+  let fileWatcher: { onDevLinkFilesChanged: EventEmitter<void>['event']; watchDevLinkDirs: ReturnType<typeof vi.fn> };
+  let linter: { lintPluginDir: ReturnType<typeof vi.fn> };
+  let service: PluginDevLinkService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(LINKS_PATH, { force: true });
+    workspace.workspaceFolders = [{ uri: { fsPath: '/ws' } }];
+    settings = createMockSettings();
+    devLinkEmitter = new EventEmitter<void>();
+    fileWatcher = { onDevLinkFilesChanged: devLinkEmitter.event, watchDevLinkDirs: vi.fn() };
+    linter = {
+      lintPluginDir: vi.fn().mockResolvedValue([
+        { severity: 'warning', pluginName: 'tool', message: 'Missing description', file: 'commands/a.md' },
+      ]),
+    };
+    service = new PluginDevLinkService(
+      settings as unknown as SettingsFileService,
+      fileWatcher as unknown as FileWatcherService,
+      linter as unknown as MarketplaceManifestLinter,
+    );
+  });
+
+  it('link → installPath 指向工作目錄、記錄原 cache 版本並監控目錄', async () => {
+    const dir = createWorkDir('tool-work', 'tool');
+
+    const link = await service.link('tool@mp', 'user', dir);
+
+    expect(link).toEqual({
+      pluginId: 'tool@mp',
+      scope: 'user',
+      path: dir,
+      issues: [{ severity: 'warning', message: 'Missing description' }],
+    });
+    expect(settings.installed.plugins['tool@mp'][0]).toMatchObject({
+      installPath: dir,
+      version: '2.0.0-dev',
+      gitCommitSha: undefined,
+    });
+    expect((await readDevLinks())['tool@mp'][0].previous).toEqual({
+      installPath: '/cache/mp/tool/1.0.0',
+      version: '1.0.0',
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+      gitCommitSha: 'abc123',
+    });
+    expect(fileWatcher.watchDevLinkDirs).toHaveBeenLastCalledWith([dir]);
+  });
+
+  it('link 未指定目錄 → 開啟資料夾選擇，取消回傳 null 且不寫入', async () => {
+    vi.mocked(window.showOpenDialog).mockResolvedValueOnce(undefined);
+
+    expect(await service.link('tool@mp', 'user')).toBeNull();
+    expect(window.showOpenDialog).toHaveBeenCalledWith(expect.objectContaining({ canSelectFolders: true }));
+    expect(settings.updateInstallEntry).not.toHaveBeenCalled();
+  });
+
+  it('plugin.json name 不符或 plugin 未安裝 → 拋錯', async () => {
+    const other = createWorkDir('other-work', 'other');
+    await expect(service.link('tool@mp', 'user', other))
+      .rejects.toThrow('Folder contains plugin "other", expected "tool".');
+    await expect(service.link('tool@mp', 'project', other))
+      .rejects.toThrow('Plugin "tool@mp" is not installed in project scope.');
+    expect(settings.updateInstallEntry).not.toHaveBeenCalled();
+  });
+
+  it('重新 link 到另一個目錄 → unlink 仍還原最初的 cache 版本', async () => {
+    await service.link('tool@mp', 'user', createWorkDir('tool-a', 'tool'));
+    await service.link('tool@mp', 'user', createWorkDir('tool-b', 'tool'));
+
+    await service.unlink('tool@mp', 'user');
+
+    expect(settings.installed.plugins['tool@mp'][0]).toMatchObject({
+      installPath: '/cache/mp/tool/1.0.0',
+      version: '1.0.0',
+      gitCommitSha: 'abc123',
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+    });
+    expect(JSON.parse(readFileSync(LINKS_PATH, 'utf-8'))).toEqual({});
+    expect(fileWatcher.watchDevLinkDirs).toHaveBeenLastCalledWith([]);
+  });
+
+  it('unlink 未 link 的 plugin → 拋錯', async () => {
+    await expect(service.unlink('tool@mp', 'user'))
+      .rejects.toThrow('Plugin "tool@mp" is not dev-linked in user scope.');
+  });
+
+  it('list → 略過 installPath 已被更新取代的 link', async () => {
+    const dir = createWorkDir('tool-list', 'tool');
+    await service.link('tool@mp', 'user', dir);
+    expect(await service.list()).toHaveLength(1);
+
+    settings.installed.plugins['tool@mp'][0].installPath = '/cache/mp/tool/1.1.0';
+    expect(await service.list()).toEqual([]);
+  });
+
+  it('工作目錄變更 → 清除驗證快取並觸發 onDidChange', async () => {
+    const dir = createWorkDir('tool-watch', 'tool');
+    await service.link('tool@mp', 'user', dir);
+    await service.list();
+    expect(linter.lintPluginDir).toHaveBeenCalledTimes(1);
+
+    const listener = vi.fn();
+    service.onDidChange(listener);
+    devLinkEmitter.fire();
+    await service.list();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(linter.lintPluginDir).toHaveBeenCalledTimes(2);
+  });
+});
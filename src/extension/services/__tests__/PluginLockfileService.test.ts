@@ -0,0 +1,305 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { window, workspace } from 'vscode';
+import { PluginLockfileService } from '../PluginLockfileService';
+import type { SettingsFileService } from '../SettingsFileService';
+import type { PluginService } from '../PluginService';
+import type { MarketplaceService } from '../MarketplaceService';
+import type { InstalledPluginsFile, Marketplace, PluginLockfile } from '../../../shared/types';
+
+const mockReadPluginSources = vi.hoisted(() => vi.fn());
+vi.mock('../PluginService', () => ({ readPluginSources: mockReadPluginSources }));
+const mockReadDevLinks = vi.hoisted(() => vi.fn());
+vi.mock('../PluginDevLinkService', () => ({ readDevLinks: mockReadDevLinks }));
+
+const SUITE_TMP = mkdtempSync(join(tmpdir(), 'plugin-lockfile-test-'));
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+const MARKETPLACE: Marketplace = {
+  name: 'mp',
+  source: 'github',
+  repo: 'acme/plugins',
+  installLocation: '/home/.claude/plugins/marketplaces/mp',
+  autoUpdate: true,
+  headSha: 'sha-new',
+};
+
+function entry(scope: 'user' | 'project', projectPath: string | undefined, gitCommitSha: string, version = '1.0.0') {
+  return {
+    scope,
+    installPath: `/cache/${gitCommitSha}`,
+    version,
+    installedAt: '2026-01-01T00:00:00.000Z',
+    lastUpdated: '2026-01-01T00:00:00.000Z',
+    gitCommitSha,
+    ...(projectPath ? { projectPath } : {}),
+  };
+}
+
+describe('PluginLockfileService', () => {
+  let workspacePath: string;
+  let lockPath: string;
+  let installed: InstalledPluginsFile;
+  let enabled: Record<string, boolean>;
+  let settings: { readInstalledPlugins: ReturnType<typeof vi.fn>; readEnabledPlugins: ReturnType<typeof vi.fn> };
+  let plugins: Record<
+    'install' | 'installFromSource' | 'update' | 'enable' | 'disable' | 'confirmSecurityReviews',
+    ReturnType<typeof vi.fn>
+  >;
+  let marketplaces: { list: ReturnType<typeof vi.fn>; add: ReturnType<typeof vi.fn>; pin: ReturnType<typeof vi.fn> };
+  let service: PluginLockfileService;
+
+  function writeLockfile(lockfile: PluginLockfile): void {
+    mkdirSync(join(workspacePath, '.claude'), { recursive: true });
+    writeFileSync(lockPath, JSON.stringify(lockfile));
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(window.showWarningMessage).mockResolvedValue('Sync' as never);
+    workspacePath = mkdtempSync(join(SUITE_TMP, 'ws-'));
+    lockPath = join(workspacePath, '.claude', 'plugins.lock.json');
+    workspace.workspaceFolders = [{ uri: { fsPath: workspacePath } }];
+    installed = {
+      version: 2,
+      plugins: {
+        'tool@mp': [entry('user', undefined, 'sha-user'), entry('project', workspacePath, 'sha-old')],
+        'lint@direct': [entry('project', workspacePath, 'sha-lint', '0.3.0')],
+        'other@mp': [entry('project', '/elsewhere', 'sha-other')],
+      },
+    };
+    enabled = { 'tool@mp': true, 'lint@direct': false };
+    settings = {
+      readInstalledPlugins: vi.fn(async () => structuredClone(installed)),
+      readEnabledPlugins: vi.fn(async () => ({ ...enabled })),
+    };
+    plugins = {
+      install: vi.fn().mockResolvedValue(undefined),
+      installFromSource: vi.fn().mockResolvedValue('lint@direct'),
+      update: vi.fn().mockResolvedValue(undefined),
+      enable: vi.fn().mockResolvedValue(undefined),
+      disable: vi.fn().mockResolvedValue(undefined),
+      confirmSecurityReviews: vi.fn().mockResolvedValue([]),
+    };
+    marketplaces = {
+      list: vi.fn().mockResolvedValue([MARKETPLACE]),
+      add: vi.fn().mockResolvedValue(undefined),
+      pin: vi.fn().mockResolvedValue(undefined),
+    };
+    mockReadPluginSources.mockResolvedValue({ 'lint@direct': { type: 'github', source: 'acme/lint', gitCommitSha: 'sha-lint' } });
+    mockReadDevLinks.mockResolvedValue({});
+    service = new PluginLockfileService(
+      settings as unknown as SettingsFileService,
+      plugins as unknown as PluginService,
+      marketplaces as unknown as MarketplaceService,
+    );
+  });
+
+  it('write → 只記錄目前 workspace 的 project scope entries（含來源、commit 與啟用狀態）', async () => {
+    await service.write();
+
+    expect(JSON.parse(readFileSync(lockPath, 'utf-8'))).toEqual({
+      version: 1,
+      plugins: {
+        'lint@direct': {
+          origin: { type: 'github', source: 'acme/lint', gitCommitSha: 'sha-lint' },
+          version: '0.3.0',
+          gitCommitSha: 'sha-lint',
+          enabled: false,
+        },
+        'tool@mp': {
+          marketplace: { name: 'mp', source: 'github', repo: 'acme/plugins' },
+          version: '1.0.0',
+          gitCommitSha: 'sha-old',
+          enabled: true,
+        },
+      },
+    });
+    expect(await service.status()).toEqual({ path: lockPath, exists: true, drift: [] });
+  });
+
+  it('dev link 中的 plugin → 記錄 link 前的 cache 版本', async () => {
+    mockReadDevLinks.mockResolvedValue({
+      'tool@mp': [{
+        scope: 'project',
+        projectPath: workspacePath,
+        path: '/work/tool',
+        previous: { installPath: '/cache/sha-old', version: '1.0.0', gitCommitSha: 'sha-old', lastUpdated: '2026-01-01' },
+      }],
+    });
+    installed.plugins['tool@mp'][1] = { ...entry('project', workspacePath, ''), installPath: '/work/tool', version: '2.0.0-dev' };
+
+    const lockfile = await service.write();
+
+    expect(lockfile.plugins['tool@mp']).toMatchObject({ version: '1.0.0', gitCommitSha: 'sha-old' });
+  });
+
+  it('status → 無 lockfile、無 workspace、格式錯誤', async () => {
+    expect(await service.status()).toEqual({ path: lockPath, exists: false, drift: [] });
+
+    writeLockfile({ version: 1, plugins: { 'tool@mp': { version: '1.0.0' } } } as unknown as PluginLockfile);
+    expect((await service.status()).error).toBe(`Invalid lockfile ${lockPath}: entry "tool@mp" needs "version" and "enabled".`);
+
+    workspace.workspaceFolders = undefined;
+    expect(await service.status()).toEqual({ exists: false, drift: [] });
+  });
+
+  it('status → origin / marketplace 來源不合法時回報錯誤', async () => {
+    const invalid: [string, Record<string, unknown>][] = [
+      ['origin', { origin: { type: 'git', source: 'ext::sh -c touch% /tmp/pwned' } }],
+      ['origin', { origin: { type: 'local', source: 'acme/lint' } }],
+      ['origin', { origin: { type: 'github', source: 'acme/lint', subdir: '../../etc' } }],
+      ['marketplace', { marketplace: { name: 'other', source: 'github', repo: 'acme/plugins' } }],
+      ['marketplace', { marketplace: { name: 'mp', source: 'git', url: 'ext::sh -c id' } }],
+      ['marketplace', { marketplace: { name: 'mp', source: 'npm', repo: 'acme/plugins' } }],
+    ];
+    for (const [field, source] of invalid) {
+      writeLockfile({ version: 1, plugins: { 'lint@mp': { version: '1.0.0', enabled: true, ...source } } } as unknown as PluginLockfile);
+      expect((await service.status()).error).toBe(`Invalid lockfile ${lockPath}: entry "lint@mp" has an invalid "${field}".`);
+    }
+  });
+
+  it('status → 列出缺少、commit 不同與啟用狀態不同的 plugin', async () => {
+    writeLockfile({
+      version: 1,
+      plugins: {
+        'tool@mp': { marketplace: { name: 'mp', source: 'github', repo: 'acme/plugins' }, version: '1.1.0', gitCommitSha: 'sha-new', enabled: false },
+        'lint@direct': { origin: { type: 'github', source: 'acme/lint' }, version: '0.3.0', enabled: true },
+        'docs@mp': { marketplace: { name: 'mp', source: 'github', repo: 'acme/plugins' }, version: '1.0.0', enabled: true },
+      },
+    });
+
+    expect((await service.status()).drift).toEqual([
+      { pluginId: 'tool@mp', kind: 'commit', expected: 'sha-new', actual: 'sha-old' },
+      { pluginId: 'tool@mp', kind: 'disabled' },
+      { pluginId: 'lint@direct', kind: 'enabled' },
+      { pluginId: 'docs@mp', kind: 'missing' },
+    ]);
+  });
+
+  it('sync → 補 marketplace、釘選 commit 後安裝 / 更新，並套用啟用狀態', async () => {
+    marketplaces.list
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValue([{ ...MARKETPLACE, name: 'team' }]);
+    writeLockfile({
+      version: 1,
+      plugins: {
+        'review@team': {
+          marketplace: { name: 'team', source: 'git', url: 'https://git.example.com/team.git' },
+          version: '2.0.0',
+          gitCommitSha: 'sha-team',
+          enabled: false,
+        },
+      },
+    });
+
+    const result = await service.sync();
+
+    expect(result).toEqual({ results: [{ pluginId: 'review@team', status: 'synced' }] });
+    expect(marketplaces.add).toHaveBeenCalledWith('https://git.example.com/team.git');
+    expect(marketplaces.pin).toHaveBeenCalledWith('team', 'sha-team');
+    expect(plugins.install).toHaveBeenCalledWith('review@team', 'project');
+    expect(plugins.disable).toHaveBeenCalledWith('review@team', 'project');
+    expect(plugins.confirmSecurityReviews).toHaveBeenCalledWith(['review@team']);
+    // 確認 modal 列出將加入 / 釘選的 marketplace 與 plugin 來源
+    expect(window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining('Sync 1 plugin(s)'),
+      {
+        modal: true,
+        detail: [
+          'Add marketplace "team" from https://git.example.com/team.git',
+          'Pin marketplace "team" to sha-team',
+          'review@team: install + disable from marketplace "team"',
+        ].join('\n'),
+      },
+      'Sync',
+    );
+  });
+
+  it('sync → 取消確認 modal 時不做任何變更', async () => {
+    vi.mocked(window.showWarningMessage).mockResolvedValue(undefined as never);
+    writeLockfile({
+      version: 1,
+      plugins: {
+        'lint@direct': { origin: { type: 'github', source: 'acme/lint', subdir: 'plugins/lint' }, version: '0.3.0', enabled: true },
+        'docs@team': { marketplace: { name: 'team', source: 'github', repo: 'acme/team' }, version: '1.0.0', enabled: true },
+      },
+    });
+
+    expect(await service.sync()).toEqual({ results: [] });
+
+    expect(vi.mocked(window.showWarningMessage).mock.calls[0][1]).toEqual({
+      modal: true,
+      detail: [
+        'Add marketplace "team" from acme/team',
+        'lint@direct: enable from acme/lint (plugins/lint)',
+        'docs@team: install from marketplace "team"',
+      ].join('\n'),
+    });
+    expect(marketplaces.add).not.toHaveBeenCalled();
+    expect(plugins.confirmSecurityReviews).not.toHaveBeenCalled();
+    expect(plugins.install).not.toHaveBeenCalled();
+    expect(plugins.enable).not.toHaveBeenCalled();
+  });
+
+  it('sync → 安全審查未確認的 plugin 不安裝也不啟用', async () => {
+    plugins.confirmSecurityReviews.mockResolvedValue(['docs@mp']);
+    writeLockfile({
+      version: 1,
+      plugins: {
+        'lint@direct': { origin: { type: 'github', source: 'acme/lint' }, version: '0.3.0', enabled: true },
+        'docs@mp': { marketplace: { name: 'mp', source: 'github', repo: 'acme/plugins' }, version: '1.0.0', enabled: true },
+      },
+    });
+
+    const { results } = await service.sync();
+
+    expect(plugins.confirmSecurityReviews).toHaveBeenCalledWith(['lint@direct', 'docs@mp']);
+    expect(results).toEqual([
+      { pluginId: 'lint@direct', status: 'synced' },
+      { pluginId: 'docs@mp', status: 'failed', error: 'Skipped: security review not confirmed' },
+    ]);
+    expect(plugins.install).not.toHaveBeenCalled();
+    expect(plugins.enable).toHaveBeenCalledTimes(1);
+    expect(plugins.enable).toHaveBeenCalledWith('lint@direct', 'project');
+  });
+
+  it('sync → 單一 plugin 失敗不中斷其他；source 安裝的 plugin 無法釘選 commit', async () => {
+    installed.plugins['lint@direct'][0].gitCommitSha = 'sha-lint-new';
+    plugins.update.mockRejectedValueOnce(new Error('CLI failed'));
+    writeLockfile({
+      version: 1,
+      plugins: {
+        'tool@mp': { marketplace: { name: 'mp', source: 'github', repo: 'acme/plugins' }, version: '1.1.0', gitCommitSha: 'sha-new', enabled: true },
+        'lint@direct': { origin: { type: 'github', source: 'acme/lint' }, version: '0.3.0', gitCommitSha: 'sha-lint', enabled: false },
+        'docs@mp': { marketplace: { name: 'mp', source: 'github', repo: 'acme/plugins' }, version: '1.0.0', enabled: true },
+      },
+    });
+
+    const { results } = await service.sync();
+
+    expect(results).toEqual([
+      { pluginId: 'tool@mp', status: 'failed', error: 'CLI failed' },
+      {
+        pluginId: 'lint@direct',
+        status: 'failed',
+        error: 'Plugins installed from source cannot be pinned to sha-lint; reinstall it from acme/lint.',
+      },
+      { pluginId: 'docs@mp', status: 'synced' },
+    ]);
+    // marketplace HEAD 已是 sha-new → 不重複釘選
+    expect(marketplaces.pin).not.toHaveBeenCalled();
+    expect(plugins.install).toHaveBeenCalledWith('docs@mp', 'project');
+    expect(plugins.enable).not.toHaveBeenCalled();
+  });
+
+  it('sync → 無 lockfile 拋錯', async () => {
+    await expect(service.sync()).rejects.toThrow(`No lockfile found at ${lockPath}.`);
+  });
+});
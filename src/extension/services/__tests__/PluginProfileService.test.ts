@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { window, workspace } from 'vscode';
+import { PluginProfileService, formatProfileDiff } from '../PluginProfileService';
+import { PreferencesService } from '../PreferencesService';
+import type { PluginService } from '../PluginService';
+import type { SettingsFileService } from '../SettingsFileService';
+import type { Memento } from 'vscode';
+import type { EnabledPluginsMap, PluginScope } from '../../../shared/types';
+
+function createMockMemento(): Memento {
+  const store: Record<string, unknown> = {};
+  return {
+    keys: () => Object.keys(store),
+    get: <T>(key: string, defaultValue?: T): T => (key in store ? store[key] as T : defaultValue as T),
+    update: vi.fn(async (key: string, value: unknown) => { store[key] = value; }),
+  };
+}
+
+function createMockSettings(initial: Record<PluginScope, EnabledPluginsMap>) {
+  const enabled = initial;
+  return {
+    enabled,
+    readAllEnabledPlugins: vi.fn(async () => ({
+      user: { ...enabled.user },
+      project: { ...enabled.project },
+      local: { ...enabled.local },
+    })),
+    setPluginEnabled: vi.fn(async (pluginId: string, scope: PluginScope, value: boolean) => {
+      if (value) enabled[scope][pluginId] = true;
+      else delete enabled[scope][pluginId];
+    }),
+  };
+}
+
+/** enable 轉給 settings；安全審查預設全部確認 */
+function createMockPlugin(settings: ReturnType<typeof createMockSettings>) {
+  return {
+    confirmSecurityReviews: vi.fn(async (): Promise<string[]> => []),
+    enable: vi.fn((pluginId: string, scope: PluginScope) => settings.setPluginEnabled(pluginId, scope, true)),
+  };
+}
+
+describe('PluginProfileService', () => {
+  let settings: ReturnType<typeof createMockSettings>;
+  let plugin: ReturnType<typeof createMockPlugin>;
+  let service: PluginProfileService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workspace.workspaceFolders = [{ uri: { fsPath: '/ws' } }];
+    settings = createMockSettings({
+      user: { 'a@mp': true, 'b@mp': true, 'off@mp': false },
+      project: { 'p@mp': true },
+      local: {},
+    });
+    plugin = createMockPlugin(settings);
+    service = new PluginProfileService(
+      settings as unknown as SettingsFileService,
+      new PreferencesService(createMockMemento()),
+      plugin as unknown as PluginService,
+    );
+  });
+
+  it('save → 只記錄啟用的 plugin，並成為目前 workspace 的 active profile', async () => {
+    const profile = await service.save('  frontend ');
+
+    expect(profile.name).toBe('frontend');
+    expect(profile.enabledPlugins).toEqual({ user: ['a@mp', 'b@mp'], project: ['p@mp'], local: [] });
+    expect(service.list()).toEqual({ profiles: [profile], activeProfile: 'frontend' });
+  });
+
+  it('save 同名 profile → 覆寫而非新增', async () => {
+    await service.save('frontend');
+    settings.enabled.user = { 'c@mp': true };
+    await service.save('frontend');
+
+    const { profiles } = service.list();
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].enabledPlugins.user).toEqual(['c@mp']);
+  });
+
+  it('save 空白名稱 → 拋錯', async () => {
+    await expect(service.save('  ')).rejects.toThrow('Profile name is required.');
+  });
+
+  it('無 workspace 時 save 只含 user scope', async () => {
+    workspace.workspaceFolders = undefined;
+    const profile = await service.save('writing');
+    expect(profile.enabledPlugins).toEqual({ user: ['a@mp', 'b@mp'] });
+  });
+
+  it('preview → 依 scope 列出將啟用 / 停用的 plugin，不寫入', async () => {
+    await service.save('frontend');
+    settings.enabled.user = { 'a@mp': true, 'x@mp': true };
+    settings.enabled.project = {};
+
+    const diff = await service.preview('frontend');
+
+    expect(diff).toEqual({
+      name: 'frontend',
+      toEnable: [
+        { pluginId: 'b@mp', scope: 'user' },
+        { pluginId: 'p@mp', scope: 'project' },
+      ],
+      toDisable: [{ pluginId: 'x@mp', scope: 'user' }],
+    });
+    expect(settings.setPluginEnabled).not.toHaveBeenCalled();
+  });
+
+  it('apply → 透過 setPluginEnabled 寫入 diff，之後 preview 無差異', async () => {
+    await service.save('frontend');
+    settings.enabled.user = { 'x@mp': true };
+
+    await service.apply('frontend');
+
+    expect(settings.setPluginEnabled).toHaveBeenCalledWith('a@mp', 'user', true);
+    expect(settings.setPluginEnabled).toHaveBeenCalledWith('b@mp', 'user', true);
+    expect(settings.setPluginEnabled).toHaveBeenCalledWith('x@mp', 'user', false);
+    expect(await service.preview('frontend')).toMatchObject({ toEnable: [], toDisable: [] });
+  });
+
+  it('apply → 安全審查未確認的 plugin 不啟用，且不列入回傳的 diff', async () => {
+    await service.save('frontend');
+    settings.enabled.user = {};
+    plugin.confirmSecurityReviews.mockResolvedValue(['b@mp']);
+
+    const diff = await service.apply('frontend');
+
+    expect(plugin.confirmSecurityReviews).toHaveBeenCalledWith(['a@mp', 'b@mp']);
+    expect(plugin.enable).toHaveBeenCalledWith('a@mp', 'user');
+    expect(plugin.enable).not.toHaveBeenCalledWith('b@mp', 'user');
+    expect(diff.toEnable).toEqual([{ pluginId: 'a@mp', scope: 'user' }]);
+  });
+
+  it('profile 未記錄的 scope 套用時不動', async () => {
+    workspace.workspaceFolders = undefined;
+    await service.save('writing');
+    workspace.workspaceFolders = [{ uri: { fsPath: '/ws' } }];
+
+    const diff = await service.preview('writing');
+    expect(diff.toDisable).toEqual([]);
+  });
+
+  it('active profile 依 workspace 分開記錄', async () => {
+    await service.save('frontend');
+    workspace.workspaceFolders = [{ uri: { fsPath: '/other' } }];
+    expect(service.list().activeProfile).toBeUndefined();
+    await service.save('infra');
+    workspace.workspaceFolders = [{ uri: { fsPath: '/ws' } }];
+    expect(service.list().activeProfile).toBe('frontend');
+  });
+
+  it('remove → 刪除 profile；不存在時拋錯', async () => {
+    await service.save('frontend');
+    await service.remove('frontend');
+    expect(service.list().profiles).toEqual([]);
+    await expect(service.remove('frontend')).rejects.toThrow('Plugin profile "frontend" not found.');
+  });
+
+  describe('pickAndApply', () => {
+    it('QuickPick 選擇後以 modal 顯示 diff，確認才寫入', async () => {
+      await service.save('frontend');
+      settings.enabled.user = {};
+      vi.mocked(window.showQuickPick).mockResolvedValue({ label: 'frontend' } as never);
+      vi.mocked(window.showWarningMessage).mockResolvedValue('Apply' as never);
+
+      await service.pickAndApply();
+
+      expect(window.showWarningMessage).toHaveBeenCalledWith(
+        expect.stringContaining('2 to enable, 0 to disable'),
+        { modal: true, detail: '+ a@mp (user)\n+ b@mp (user)' },
+        'Apply',
+      );
+      expect(settings.setPluginEnabled).toHaveBeenCalledTimes(2);
+    });
+
+    it('modal 取消 → 不寫入', async () => {
+      await service.save('frontend');
+      settings.enabled.user = {};
+      vi.mocked(window.showWarningMessage).mockResolvedValue(undefined as never);
+
+      await service.pickAndApply('frontend');
+
+      expect(window.showQuickPick).not.toHaveBeenCalled();
+      expect(settings.setPluginEnabled).not.toHaveBeenCalled();
+    });
+
+    it('沒有任何 profile → 顯示提示，不開 QuickPick', async () => {
+      await service.pickAndApply();
+      expect(window.showInformationMessage).toHaveBeenCalledWith(expect.stringContaining('No plugin profiles yet'));
+      expect(window.showQuickPick).not.toHaveBeenCalled();
+    });
+
+    it('profile 不存在 → showErrorMessage，不往外拋', async () => {
+      await service.save('frontend');
+      await service.pickAndApply('missing');
+      expect(window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('not found'));
+    });
+  });
+
+  it('formatProfileDiff → 啟用以 + 開頭、停用以 - 開頭', () => {
+    expect(formatProfileDiff({
+      name: 'x',
+      toEnable: [{ pluginId: 'a@mp', scope: 'project' }],
+      toDisable: [{ pluginId: 'b@mp', scope: 'local' }],
+    })).toBe('+ a@mp (project)\n- b@mp (local)');
+  });
+});
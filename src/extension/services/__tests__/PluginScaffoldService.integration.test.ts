@@ -0,0 +1,119 @@
+/**
+ * PluginScaffoldService 整合測試。
+ * 真實 filesystem，只 mock MarketplaceService.add；驗證產出的 layout 可被 scanner / linter 正確讀取。
+ */
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+
+const { SUITE_TMP, SUITE_HOME } = vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const os = require('os');
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const fs = require('fs');
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const path = require('path');
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scaffold-int-'));
+  return { SUITE_TMP: tmpDir, SUITE_HOME: path.join(tmpDir, 'home') };
+});
+
+vi.mock('os', () => ({ homedir: () => SUITE_HOME }));
+
+import { PluginScaffoldService } from '../PluginScaffoldService';
+import { SettingsFileService } from '../SettingsFileService';
+import { MarketplaceManifestLinter } from '../MarketplaceManifestLinter';
+import type { MarketplaceService } from '../MarketplaceService';
+import type { PluginScaffoldOptions } from '../../../shared/types';
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+describe('PluginScaffoldService（integration / 真實 filesystem）', () => {
+  const parentDir = join(SUITE_TMP, 'dev');
+  let add: ReturnType<typeof vi.fn>;
+  let svc: PluginScaffoldService;
+
+  const baseOptions: PluginScaffoldOptions = {
+    parentDir,
+    marketplaceName: 'team-mp',
+    pluginName: 'deploy-kit',
+    description: 'Deployment helpers',
+    author: 'Platform Team',
+    includeHooks: true,
+    includeMcp: true,
+  };
+
+  beforeEach(() => {
+    rmSync(parentDir, { recursive: true, force: true });
+    mkdirSync(parentDir, { recursive: true });
+    add = vi.fn().mockResolvedValue(undefined);
+    svc = new PluginScaffoldService({ add } as unknown as MarketplaceService);
+  });
+
+  it('建立 marketplace + plugin skeleton 並註冊 marketplace', async () => {
+    const result = await svc.scaffold(baseOptions);
+    const marketplaceDir = join(parentDir, 'team-mp');
+
+    expect(result.marketplaceDir).toBe(marketplaceDir);
+    expect(result.pluginDir).toBe(join(marketplaceDir, 'plugins', 'deploy-kit'));
+    expect(result.files).toEqual([
+      '.claude-plugin/marketplace.json',
+      'plugins/deploy-kit/.claude-plugin/plugin.json',
+      'plugins/deploy-kit/commands/hello.md',
+      'plugins/deploy-kit/skills/deploy-kit/SKILL.md',
+      'plugins/deploy-kit/agents/deploy-kit-agent.md',
+      'plugins/deploy-kit/hooks/hooks.json',
+      'plugins/deploy-kit/.mcp.json',
+    ]);
+    expect(add).toHaveBeenCalledWith(marketplaceDir);
+
+    const manifest = JSON.parse(readFileSync(join(marketplaceDir, '.claude-plugin', 'marketplace.json'), 'utf-8'));
+    expect(manifest).toEqual({
+      name: 'team-mp',
+      owner: { name: 'Platform Team' },
+      plugins: [{ name: 'deploy-kit', description: 'Deployment helpers', version: '0.1.0', source: './plugins/deploy-kit' }],
+    });
+
+    const settings = new SettingsFileService();
+    const contents = await settings.scanPluginContentsAt(result.pluginDir);
+    expect(contents.commands.map((c) => c.name)).toEqual(['hello']);
+    expect(contents.skills.map((s) => s.name)).toEqual(['deploy-kit']);
+    expect(contents.agents.map((a) => a.name)).toEqual(['deploy-kit-agent']);
+    expect(contents.hooks).toEqual([
+      { event: 'SessionStart', matcher: undefined, type: 'command', command: 'echo "deploy-kit loaded"' },
+    ]);
+
+    const manifestPath = join(marketplaceDir, '.claude-plugin', 'marketplace.json');
+    const issues = await new MarketplaceManifestLinter(settings).lint(manifestPath, readFileSync(manifestPath, 'utf-8'));
+    expect(issues).toEqual([]);
+  });
+
+  it('不含 hooks / MCP 時不建立對應檔案', async () => {
+    const result = await svc.scaffold({ ...baseOptions, includeHooks: false, includeMcp: false });
+
+    expect(existsSync(join(result.pluginDir, 'hooks'))).toBe(false);
+    expect(existsSync(join(result.pluginDir, '.mcp.json'))).toBe(false);
+  });
+
+  it('名稱不合法、位置不存在、目錄已存在 → 拋錯且不註冊', async () => {
+    await expect(svc.scaffold({ ...baseOptions, pluginName: 'Bad Name' }))
+      .rejects.toThrow('Plugin name must be lowercase letters, digits and dashes');
+    await expect(svc.scaffold({ ...baseOptions, parentDir: join(SUITE_TMP, 'missing') }))
+      .rejects.toThrow('Location does not exist');
+    await expect(svc.scaffold({ ...baseOptions, parentDir: 'relative/dir' }))
+      .rejects.toThrow('Location must be an absolute path');
+
+    mkdirSync(join(parentDir, 'team-mp'));
+    await expect(svc.scaffold(baseOptions)).rejects.toThrow('already exists');
+    expect(add).not.toHaveBeenCalled();
+  });
+
+  it('marketplace add 失敗 → 保留檔案並回報建立位置', async () => {
+    add.mockRejectedValueOnce(new Error('CLI not found'));
+
+    await expect(svc.scaffold(baseOptions))
+      .rejects.toThrow(`Created ${join(parentDir, 'team-mp')} but failed to add it as a marketplace: CLI not found`);
+    expect(existsSync(join(parentDir, 'team-mp', '.claude-plugin', 'marketplace.json'))).toBe(true);
+  });
+});
@@ -7,7 +7,7 @@ import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
 import { mkdirSync, rmSync } from 'fs';
 import { readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
-import { workspace } from 'vscode';
+import { window, workspace } from 'vscode';
 
 /* ── 建立 suite 共用的 tmpdir，mock os.homedir 指向它 ── */
 const { SUITE_TMP, SUITE_HOME } = vi.hoisted(() => {
@@ -28,6 +28,7 @@ vi.mock('os', () => ({ homedir: () => SUITE_HOME }));
 import { SettingsFileService } from '../SettingsFileService';
 import { PluginService } from '../PluginService';
 import type { CliService } from '../CliService';
+import type { MarketplaceService } from '../MarketplaceService';
 
 afterAll(() => {
   rmSync(SUITE_TMP, { recursive: true, force: true });
@@ -84,7 +85,9 @@ describe('PluginService（integration / 真實 SettingsFileService + filesystem
 
     settings = new SettingsFileService();
     cli = createMockCli();
-    svc = new PluginService(cli, settings);
+    svc = new PluginService(cli, settings, { update: vi.fn() } as unknown as MarketplaceService);
+    // 安全審查 modal 一律確認
+    vi.mocked(window.showWarningMessage).mockResolvedValue('Continue' as never);
   });
 
   /* ═══════ install (reuse 路徑) → listInstalled ═══════ */
@@ -223,6 +226,12 @@ describe('PluginService（integration / 真實 SettingsFileService + filesystem
     // installed_plugins.json 沒有這個 plugin → CLI 路徑
     await svc.install('brand-new@mp', 'project');
 
+    // marketplace 不存在 → 來源無法審查，安裝前詢問
+    expect(window.showWarningMessage).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ detail: "brand-new@mp: source can't be reviewed before install" }),
+      'Continue',
+    );
     expect((cli as any).exec).toHaveBeenCalledWith(
       ['plugin', 'install', 'brand-new@mp', '--scope', 'project'],
       expect.objectContaining({ cwd: workspaceDir }),
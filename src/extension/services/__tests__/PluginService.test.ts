@@ -1,10 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { workspace } from 'vscode';
+import { window, workspace } from 'vscode';
 import { PluginService } from '../PluginService';
 import { NoWorkspaceError } from '../../utils/workspace';
+import { SecurityReviewDeclinedError } from '../../utils/errors';
 import { CLI_LONG_TIMEOUT_MS } from '../../constants';
 import type { CliService } from '../CliService';
 import type { SettingsFileService } from '../SettingsFileService';
+import type { MarketplaceService } from '../MarketplaceService';
 import type { InstalledPluginsFile } from '../../../shared/types';
 
 /* ── fs/promises mock（readMcpServers + detectOrphaned + pruneStaleLocalEntries + pruneUnusedCache 內部使用） ── */
@@ -23,6 +25,20 @@ vi.mock('fs/promises', () => ({
 const MOCK_CACHE_DIR = '/mock/plugins/cache';
 vi.mock('../../paths', () => ({
   PLUGINS_CACHE_DIR: '/mock/plugins/cache',
+  PLUGIN_HISTORY_PATH: '/mock/plugins/plugin_history.json',
+  PLUGIN_SECURITY_REVIEWS_PATH: '/mock/plugins/plugin_security_reviews.json',
+  PLUGIN_SOURCES_PATH: '/mock/plugins/plugin_sources.json',
+  PLUGIN_DEV_LINKS_PATH: '/mock/plugins/plugin_dev_links.json',
+  MARKETPLACES_DIR: '/mock/plugins/marketplaces',
+  KNOWN_MARKETPLACES_PATH: '/mock/plugins/known_marketplaces.json',
+}));
+
+/* ── jsonFile mock（plugin_history.json） ── */
+const mockReadJsonFile = vi.hoisted(() => vi.fn());
+const mockWriteJsonFileAtomic = vi.hoisted(() => vi.fn());
+vi.mock('../../utils/jsonFile', () => ({
+  readJsonFile: mockReadJsonFile,
+  writeJsonFileAtomic: mockWriteJsonFileAtomic,
 }));
 
 /* ── fixScriptPermissions mock ── */
@@ -31,6 +47,38 @@ vi.mock('../../utils/fixScriptPermissions', () => ({
   fixScriptPermissions: mockFixScriptPermissions,
 }));
 
+/* ── git / pluginSecurity mock（安全審查） ── */
+const mockReadGitHead = vi.hoisted(() => vi.fn());
+vi.mock('../../utils/git', () => ({
+  readGitHead: mockReadGitHead,
+  runGit: vi.fn(),
+}));
+const mockAnalyzePluginExecutables = vi.hoisted(() => vi.fn());
+const mockReadPluginMcpCommands = vi.hoisted(() => vi.fn());
+vi.mock('../pluginSecurity', () => ({
+  analyzePluginExecutables: mockAnalyzePluginExecutables,
+  readPluginMcpCommands: mockReadPluginMcpCommands,
+}));
+
+/* ── pluginDetails mock（詳情頁） ── */
+const mockReadPluginManifestMetadata = vi.hoisted(() => vi.fn());
+const mockReadPluginReadme = vi.hoisted(() => vi.fn());
+vi.mock('../pluginDetails', () => ({
+  readPluginManifestMetadata: mockReadPluginManifestMetadata,
+  readPluginReadme: mockReadPluginReadme,
+}));
+
+/* ── pluginSourceInstall mock（從 source 安裝） ── */
+const mockFetchPluginSource = vi.hoisted(() => vi.fn());
+const mockReadSourcePluginManifest = vi.hoisted(() => vi.fn());
+const mockCopyPluginToCache = vi.hoisted(() => vi.fn());
+vi.mock('../pluginSourceInstall', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../pluginSourceInstall')>()),
+  fetchPluginSource: mockFetchPluginSource,
+  readSourcePluginManifest: mockReadSourcePluginManifest,
+  copyPluginToCache: mockCopyPluginToCache,
+}));
+
 /* ── helpers ── */
 function createMockCli(): CliService & { exec: ReturnType<typeof vi.fn> } {
   return {
@@ -39,20 +87,32 @@ function createMockCli(): CliService & { exec: ReturnType<typeof vi.fn> } {
   } as unknown as CliService & { exec: ReturnType<typeof vi.fn> };
 }
 
+function createMockMarketplaces(): MarketplaceService & { update: ReturnType<typeof vi.fn> } {
+  return {
+    update: vi.fn().mockResolvedValue([]),
+  } as unknown as MarketplaceService & { update: ReturnType<typeof vi.fn> };
+}
+
 function createMockSettings(): SettingsFileService & Record<string, ReturnType<typeof vi.fn>> {
   return {
     getSettingsPath: vi.fn(),
     readEnabledPlugins: vi.fn().mockResolvedValue({}),
     readAllEnabledPlugins: vi.fn().mockResolvedValue({ user: {}, project: {}, local: {} }),
     setPluginEnabled: vi.fn().mockResolvedValue(undefined),
+    setPluginsEnabled: vi.fn().mockResolvedValue(undefined),
     readInstalledPlugins: vi.fn().mockResolvedValue({ version: 2, plugins: {} }),
     writeInstalledPlugins: vi.fn().mockResolvedValue(undefined),
     addInstallEntry: vi.fn().mockResolvedValue(undefined),
+    addInstallEntries: vi.fn().mockResolvedValue(undefined),
     removeInstallEntry: vi.fn().mockResolvedValue(undefined),
+    removeInstallEntries: vi.fn().mockResolvedValue(undefined),
     updateInstallEntryTimestamp: vi.fn().mockResolvedValue(undefined),
+    updateInstallEntry: vi.fn().mockResolvedValue(undefined),
     scanAvailablePlugins: vi.fn().mockResolvedValue([]),
-    scanPluginContentsAt: vi.fn().mockResolvedValue({ commands: [], skills: [], agents: [], mcpServers: [], hooks: false }),
+    scanPluginContentsAt: vi.fn().mockResolvedValue({ commands: [], skills: [], agents: [], mcpServers: [], hooks: [] }),
     readMarketplaceSources: vi.fn().mockResolvedValue({}),
+    resolvePluginSource: vi.fn().mockResolvedValue(null),
+    scanPluginExecutablesAt: vi.fn().mockResolvedValue({ scripts: [], hookCommands: [] }),
     readScannableMarketplaceNames: vi.fn().mockResolvedValue(new Set<string>()),
     clearAllEnabledPlugins: vi.fn().mockResolvedValue(undefined),
   } as unknown as SettingsFileService & Record<string, ReturnType<typeof vi.fn>>;
@@ -79,6 +139,7 @@ function installedWithUser(pluginId: string): InstalledPluginsFile {
 describe('PluginService', () => {
   let cli: ReturnType<typeof createMockCli>;
   let settings: ReturnType<typeof createMockSettings>;
+  let marketplaces: ReturnType<typeof createMockMarketplaces>;
   let svc: PluginService;
 
   beforeEach(() => {
@@ -87,9 +148,15 @@ describe('PluginService', () => {
     mockStat.mockResolvedValue({});
     mockReaddir.mockResolvedValue([]);
     mockRm.mockResolvedValue(undefined);
+    mockReadJsonFile.mockImplementation(async (_path: string, defaultValue: unknown) => defaultValue);
+    mockWriteJsonFileAtomic.mockResolvedValue(undefined);
     cli = createMockCli();
     settings = createMockSettings();
-    svc = new PluginService(cli, settings);
+    marketplaces = createMockMarketplaces();
+    marketplaces.update.mockResolvedValue([]);
+    // 安全審查 modal 預設確認（個別測試覆寫為取消）
+    vi.mocked(window.showWarningMessage).mockResolvedValue('Continue' as never);
+    svc = new PluginService(cli, settings, marketplaces);
     workspace.workspaceFolders = undefined;
   });
 
@@ -473,6 +540,8 @@ describe('PluginService', () => {
           }],
         },
       };
+      // 安全審查另有測試；略過以固定 install 本身的讀取順序
+      vi.spyOn(svc, 'confirmSecurityReviews').mockResolvedValue([]);
       settings.readInstalledPlugins
         .mockResolvedValueOnce(installedWithUser('my-plugin@mp'))
         .mockResolvedValueOnce(reinstalledData);
@@ -566,6 +635,8 @@ describe('PluginService', () => {
 
     it('reuse 路徑 → fixPluginPermissions 修正執行權限', async () => {
       workspace.workspaceFolders = [{ uri: { fsPath: '/my/project' } }] as any;
+      // 安全審查另有測試；略過以固定 install 本身的讀取順序
+      vi.spyOn(svc, 'confirmSecurityReviews').mockResolvedValue([]);
       // 第一次：install() 開頭讀取現有 entry（觸發 reuse 路徑）
       settings.readInstalledPlugins.mockResolvedValueOnce(installedWithUser('my-plugin@mp'));
       // 第二次：fixPluginPermissions 內部讀取 installPath
@@ -589,21 +660,21 @@ describe('PluginService', () => {
       );
     });
 
-    it('Source path does not exist → 自動 marketplace update 後重試安裝', async () => {
+    it('Source path does not exist → 經 MarketplaceService.update（保留釘選）後重試安裝', async () => {
       settings.readInstalledPlugins.mockResolvedValue(EMPTY_INSTALLED);
       cli.exec
         .mockRejectedValueOnce(new Error('Source path does not exist: /path/to/plugin'))
-        .mockResolvedValueOnce('')  // marketplace update
         .mockResolvedValueOnce(''); // retry install
 
       await svc.install('my-plugin@mp', 'user');
 
-      expect(cli.exec).toHaveBeenCalledTimes(3);
-      expect(cli.exec).toHaveBeenNthCalledWith(2,
+      expect(marketplaces.update).toHaveBeenCalledWith('mp', undefined);
+      expect(cli.exec).not.toHaveBeenCalledWith(
         ['plugin', 'marketplace', 'update', 'mp'],
-        { timeout: CLI_LONG_TIMEOUT_MS },
+        expect.anything(),
       );
-      expect(cli.exec).toHaveBeenNthCalledWith(3,
+      expect(cli.exec).toHaveBeenCalledTimes(2);
+      expect(cli.exec).toHaveBeenNthCalledWith(2,
         ['plugin', 'install', 'my-plugin@mp', '--scope', 'user'],
         { timeout: CLI_LONG_TIMEOUT_MS },
       );
@@ -613,7 +684,6 @@ describe('PluginService', () => {
       settings.readInstalledPlugins.mockResolvedValue(EMPTY_INSTALLED);
       cli.exec
         .mockRejectedValueOnce(new Error('Source path does not exist: /path'))
-        .mockResolvedValueOnce('')  // marketplace update
         .mockRejectedValueOnce(new Error('Still not found')); // retry install
 
       await expect(svc.install('my-plugin@mp', 'user')).rejects.toThrow('Still not found');
@@ -632,18 +702,151 @@ describe('PluginService', () => {
       settings.readInstalledPlugins.mockResolvedValue(EMPTY_INSTALLED);
       cli.exec
         .mockRejectedValueOnce(new Error('Source path does not exist: /path'))
-        .mockResolvedValueOnce('')
         .mockResolvedValueOnce('');
 
       await svc.install('my-plugin@mp', 'project');
 
-      expect(cli.exec).toHaveBeenNthCalledWith(3,
+      expect(cli.exec).toHaveBeenNthCalledWith(2,
         ['plugin', 'install', 'my-plugin@mp', '--scope', 'project'],
         { timeout: CLI_LONG_TIMEOUT_MS, cwd: '/my/project' },
       );
     });
   });
 
+  /* ═══════ installFromSource ═══════ */
+  describe('installFromSource()', () => {
+    const SOURCES_PATH = '/mock/plugins/plugin_sources.json';
+    let cleanup: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      cleanup = vi.fn().mockResolvedValue(undefined);
+      mockFetchPluginSource.mockResolvedValue({
+        rootDir: '/tmp/clone', pluginDir: '/tmp/clone/plugins/tool', gitCommitSha: 'abcdef1234567890', cleanup,
+      });
+      mockReadSourcePluginManifest.mockResolvedValue({ name: 'tool', version: '1.2.0' });
+      mockCopyPluginToCache.mockResolvedValue(undefined);
+      settings.scanPluginContentsAt.mockResolvedValue({
+        commands: [{ name: 'hi', description: '', path: 'commands/hi.md' }], skills: [], agents: [], mcpServers: [], hooks: [],
+      });
+      settings.scanPluginExecutablesAt.mockResolvedValue({ scripts: [], hookCommands: [] });
+      mockReadPluginMcpCommands.mockResolvedValue([]);
+      mockAnalyzePluginExecutables.mockResolvedValue({ findings: [], contentHash: 'hash-1' });
+    });
+
+    it('github owner/repo → 複製到 cache/direct，寫入 entry + enable + 來源', async () => {
+      const pluginId = await svc.installFromSource('owner/repo', 'user', 'plugins/tool');
+
+      const installPath = `${MOCK_CACHE_DIR}/direct/tool/1.2.0`;
+      expect(pluginId).toBe('tool@direct');
+      expect(mockFetchPluginSource).toHaveBeenCalledWith({ type: 'github', source: 'owner/repo', subdir: 'plugins/tool' });
+      expect(settings.scanPluginContentsAt).toHaveBeenCalledWith('/tmp/clone/plugins/tool', '/tmp/clone');
+      expect(mockCopyPluginToCache).toHaveBeenCalledWith('/tmp/clone/plugins/tool', installPath, `${MOCK_CACHE_DIR}/direct/tool`);
+      expect(mockFixScriptPermissions).toHaveBeenCalledWith(installPath);
+      expect(settings.addInstallEntry).toHaveBeenCalledWith('tool@direct', expect.objectContaining({
+        scope: 'user', installPath, version: '1.2.0', gitCommitSha: 'abcdef1234567890',
+      }));
+      expect(settings.setPluginEnabled).toHaveBeenCalledWith('tool@direct', 'user', true);
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledWith(SOURCES_PATH, {
+        'tool@direct': { type: 'github', source: 'owner/repo', subdir: 'plugins/tool', gitCommitSha: 'abcdef1234567890' },
+      });
+      expect(cleanup).toHaveBeenCalled();
+    });
+
+    it('plugin.json 無 version → 以 commit 前 12 碼作為版本', async () => {
+      mockReadSourcePluginManifest.mockResolvedValue({ name: 'tool' });
+      await svc.installFromSource('https://git.example.com/tool.git', 'user');
+      expect(mockCopyPluginToCache).toHaveBeenCalledWith('/tmp/clone/plugins/tool', `${MOCK_CACHE_DIR}/direct/tool/abcdef123456`, `${MOCK_CACHE_DIR}/direct/tool`);
+    });
+
+    it('同 scope 已安裝 → updateInstallEntry 覆寫 installPath', async () => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/my/project' } }] as any;
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: {
+          'tool@direct': [{
+            scope: 'project', projectPath: '/my/project', installPath: '/old', version: '1.0.0',
+            installedAt: '2025-01-01', lastUpdated: '2025-01-01',
+          }],
+        },
+      });
+
+      await svc.installFromSource('/src/tool', 'project');
+
+      expect(settings.addInstallEntry).not.toHaveBeenCalled();
+      expect(settings.updateInstallEntry).toHaveBeenCalledWith('tool@direct', 'project', '/my/project', expect.objectContaining({
+        installPath: `${MOCK_CACHE_DIR}/direct/tool/1.2.0`, version: '1.2.0',
+      }));
+      expect(settings.setPluginEnabled).toHaveBeenCalledWith('tool@direct', 'project', true);
+    });
+
+    it('scanner 找不到任何內容 → 拋錯、不寫入，仍清理 temp dir', async () => {
+      settings.scanPluginContentsAt.mockResolvedValue({
+        commands: [], skills: [], agents: [], mcpServers: [], hooks: [],
+        tokenEstimate: { commands: 0, skills: 0, agents: 0, mcpServers: 0, total: 0 },
+      });
+
+      await expect(svc.installFromSource('owner/repo', 'user'))
+        .rejects.toThrow('No commands, skills, agents, hooks or MCP servers found in "tool".');
+      expect(mockCopyPluginToCache).not.toHaveBeenCalled();
+      expect(settings.addInstallEntry).not.toHaveBeenCalled();
+      expect(cleanup).toHaveBeenCalled();
+    });
+
+    it('有 hooks → 複製前先審查 fetch 下來的目錄；取消則不複製、不 enable，仍清理 temp dir', async () => {
+      settings.scanPluginExecutablesAt.mockResolvedValue({
+        scripts: [], hookCommands: [{ event: 'SessionStart', command: 'curl x | sh' }],
+      });
+      vi.mocked(window.showWarningMessage).mockResolvedValue(undefined);
+
+      await expect(svc.installFromSource('owner/repo', 'user')).rejects.toThrow(SecurityReviewDeclinedError);
+
+      expect(settings.scanPluginExecutablesAt).toHaveBeenCalledWith('/tmp/clone/plugins/tool', '/tmp/clone');
+      expect(window.showWarningMessage).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ modal: true, detail: expect.stringContaining('tool@direct: 1 hook command(s)') }),
+        'Continue',
+      );
+      expect(mockCopyPluginToCache).not.toHaveBeenCalled();
+      expect(settings.setPluginEnabled).not.toHaveBeenCalled();
+      expect(cleanup).toHaveBeenCalled();
+    });
+
+    it('getSourceSecurityReview → 以 <name>@direct 與 commit sha 審查，不安裝', async () => {
+      const report = await svc.getSourceSecurityReview('owner/repo', 'plugins/tool');
+
+      expect(report).toMatchObject({
+        pluginId: 'tool@direct', reviewKey: 'abcdef1234567890', sourceAvailable: true, acknowledged: false,
+      });
+      expect(mockCopyPluginToCache).not.toHaveBeenCalled();
+      expect(cleanup).toHaveBeenCalled();
+    });
+
+    it('無法辨識的 source → 拋錯，不 fetch', async () => {
+      await expect(svc.installFromSource('not a source', 'user')).rejects.toThrow('Unrecognized source');
+      expect(mockFetchPluginSource).not.toHaveBeenCalled();
+    });
+
+    it('listInstalled → 帶出 plugin_sources.json 記錄的來源', async () => {
+      settings.readInstalledPlugins.mockResolvedValue(installedWithUser('tool@direct'));
+      mockReadJsonFile.mockImplementation(async (path: string, defaultValue: unknown) => (
+        path === SOURCES_PATH ? { 'tool@direct': { type: 'local', source: '/src/tool' } } : defaultValue
+      ));
+
+      const [plugin] = await svc.listInstalled();
+      expect(plugin.origin).toEqual({ type: 'local', source: '/src/tool' });
+    });
+
+    it('uninstall 最後一個 scope → 清除來源記錄', async () => {
+      mockReadJsonFile.mockImplementation(async (path: string, defaultValue: unknown) => (
+        path === SOURCES_PATH ? { 'tool@direct': { type: 'local', source: '/src/tool' }, 'x@direct': { type: 'local', source: '/x' } } : defaultValue
+      ));
+
+      await svc.uninstall('tool@direct', 'user');
+
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledWith(SOURCES_PATH, { 'x@direct': { type: 'local', source: '/x' } });
+    });
+  });
+
   /* ═══════ uninstall ═══════ */
   describe('uninstall()', () => {
     it('user scope → removeInstallEntry + disable', async () => {
@@ -776,6 +979,126 @@ describe('PluginService', () => {
     });
   });
 
+  /* ═══════ bulk（多選批次操作） ═══════ */
+  describe('bulk()', () => {
+    it('enable → 單次批次寫入；未安裝在該 scope 的記為失敗', async () => {
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: { ...installedWithUser('a@mp').plugins, ...installedWithUser('b@mp').plugins },
+      });
+
+      const result = await svc.bulk('enable', ['a@mp', 'b@mp', 'c@mp'], 'user');
+
+      expect(settings.setPluginsEnabled).toHaveBeenCalledTimes(1);
+      expect(settings.setPluginsEnabled).toHaveBeenCalledWith(['a@mp', 'b@mp'], 'user', true);
+      expect(settings.setPluginEnabled).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        action: 'enable',
+        scope: 'user',
+        results: [
+          { pluginId: 'a@mp', ok: true },
+          { pluginId: 'b@mp', ok: true },
+          { pluginId: 'c@mp', ok: false, error: 'Not installed in user scope' },
+        ],
+      });
+    });
+
+    it('批次寫入失敗 → 整批記為失敗，不拋錯', async () => {
+      settings.setPluginsEnabled.mockRejectedValue(new Error('EACCES'));
+
+      const result = await svc.bulk('disable', ['a@mp', 'b@mp'], 'user');
+
+      expect(result.results).toEqual([
+        { pluginId: 'a@mp', ok: false, error: 'EACCES' },
+        { pluginId: 'b@mp', ok: false, error: 'EACCES' },
+      ]);
+    });
+
+    it('uninstall project scope → removeInstallEntries + setPluginsEnabled 各一次', async () => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/my/project' } }] as any;
+      const projectEntry = { ...installedWithUser('a@mp').plugins['a@mp'][0], scope: 'project' as const, projectPath: '/my/project' };
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: { 'a@mp': [projectEntry], 'b@mp': [{ ...projectEntry }] },
+      });
+
+      const result = await svc.bulk('uninstall', ['a@mp', 'b@mp'], 'project');
+
+      expect(settings.removeInstallEntries).toHaveBeenCalledWith(['a@mp', 'b@mp'], 'project', '/my/project');
+      expect(settings.setPluginsEnabled).toHaveBeenCalledWith(['a@mp', 'b@mp'], 'project', false);
+      expect(settings.removeInstallEntry).not.toHaveBeenCalled();
+      expect(result.results.every((r) => r.ok)).toBe(true);
+    });
+
+    it('uninstall 移除最後一個 scope → 清除這些 plugin 的來源記錄', async () => {
+      const SOURCES_PATH = '/mock/plugins/plugin_sources.json';
+      settings.readInstalledPlugins
+        .mockResolvedValueOnce({
+          version: 2,
+          plugins: { ...installedWithUser('a@direct').plugins, ...installedWithUser('b@direct').plugins },
+        })
+        .mockResolvedValue({ version: 2, plugins: {} });
+      mockReadJsonFile.mockImplementation(async (path: string, defaultValue: unknown) => (
+        path === SOURCES_PATH
+          ? {
+            'a@direct': { type: 'local', source: '/a' },
+            'b@direct': { type: 'local', source: '/b' },
+            'x@direct': { type: 'local', source: '/x' },
+          }
+          : defaultValue
+      ));
+
+      const result = await svc.bulk('uninstall', ['a@direct', 'b@direct'], 'user');
+
+      expect(result.results.every((r) => r.ok)).toBe(true);
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledTimes(1);
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledWith(SOURCES_PATH, { 'x@direct': { type: 'local', source: '/x' } });
+    });
+
+    it('install → 可複用 cache 的批次寫入，其餘逐一走 CLI；CLI 失敗只影響該 plugin', async () => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/my/project' } }] as any;
+      settings.readInstalledPlugins.mockResolvedValue(installedWithUser('a@mp'));
+      cli.exec.mockImplementation(async (args: string[]) => {
+        if (args[2] === 'c@mp') throw new Error('not found in marketplace');
+        return '';
+      });
+
+      const result = await svc.bulk('install', ['a@mp', 'b@mp', 'c@mp'], 'project');
+
+      expect(settings.addInstallEntries).toHaveBeenCalledWith([
+        { pluginId: 'a@mp', entry: expect.objectContaining({ scope: 'project', installPath: '/existing/path', projectPath: '/my/project' }) },
+      ]);
+      expect(settings.setPluginsEnabled).toHaveBeenCalledWith(['a@mp'], 'project', true);
+      expect(cli.exec).toHaveBeenCalledWith(
+        ['plugin', 'install', 'b@mp', '--scope', 'project'],
+        { timeout: CLI_LONG_TIMEOUT_MS, cwd: '/my/project' },
+      );
+      expect(result.results).toEqual([
+        { pluginId: 'a@mp', ok: true },
+        { pluginId: 'b@mp', ok: true },
+        { pluginId: 'c@mp', ok: false, error: 'not found in marketplace' },
+      ]);
+    });
+
+    it('update → 逐一 CLI update，已是最新版本視為成功', async () => {
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: { ...installedWithUser('a@mp').plugins, ...installedWithUser('b@mp').plugins },
+      });
+      cli.exec
+        .mockResolvedValueOnce('')
+        .mockRejectedValueOnce(new Error('b@mp is already up to date'));
+
+      const result = await svc.bulk('update', ['a@mp', 'b@mp'], 'user');
+
+      expect(cli.exec).toHaveBeenCalledTimes(2);
+      expect(result.results).toEqual([
+        { pluginId: 'a@mp', ok: true },
+        { pluginId: 'b@mp', ok: true },
+      ]);
+    });
+  });
+
   /* ═══════ update（保留 CLI） ═══════ */
   describe('update()', () => {
     it('帶 scope → CLI + 更新 timestamp', async () => {
@@ -803,6 +1126,440 @@ describe('PluginService', () => {
     });
   });
 
+  /* ═══════ updateAll ═══════ */
+  describe('updateAll()', () => {
+    const entry = (scope: 'user' | 'project', lastUpdated: string, projectPath?: string) => ({
+      scope, projectPath, installPath: `/cache/${scope}`, version: '1.0.0', installedAt: '2026-01-01', lastUpdated,
+    });
+
+    beforeEach(() => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/ws' } }];
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: {
+          'alpha@mp': [entry('user', '2026-01-01T00:00:00Z')],
+          'beta@mp': [entry('project', '2026-01-01T00:00:00Z', '/ws'), entry('project', '2026-01-01T00:00:00Z', '/other')],
+          'gamma@mp': [entry('user', '2026-01-01T00:00:00Z')],
+          'delta@mp': [entry('user', '2026-02-01T00:00:00Z')],
+        },
+      });
+      settings.readAllEnabledPlugins.mockResolvedValue({
+        user: { 'alpha@mp': true, 'delta@mp': true },
+        project: { 'beta@mp': true },
+        local: {},
+      });
+      settings.scanAvailablePlugins.mockResolvedValue(
+        ['alpha@mp', 'beta@mp', 'gamma@mp', 'delta@mp'].map((pluginId) => ({
+          pluginId, name: pluginId.split('@')[0], description: '', marketplaceName: 'mp', lastUpdated: '2026-02-01T00:00:00Z',
+        })),
+      );
+    });
+
+    it('只更新已啟用且有更新的 plugin（目前 workspace 的 scope），逐一發出進度', async () => {
+      const progress: unknown[] = [];
+      svc.onUpdateAllProgress((p) => progress.push(p));
+
+      const result = await svc.updateAll();
+
+      expect(cli.exec.mock.calls.map(([args]) => args)).toEqual([
+        ['plugin', 'update', 'alpha@mp', '--scope', 'user'],
+        ['plugin', 'update', 'beta@mp', '--scope', 'project'],
+      ]);
+      expect(progress).toEqual([
+        { pluginId: 'alpha@mp', scope: 'user', current: 1, total: 2 },
+        { pluginId: 'beta@mp', scope: 'project', current: 2, total: 2 },
+      ]);
+      expect(result.results).toEqual([
+        { pluginId: 'alpha@mp', scope: 'user', status: 'updated' },
+        { pluginId: 'beta@mp', scope: 'project', status: 'updated' },
+      ]);
+    });
+
+    it('已是最新版本 → upToDate；其他錯誤 → failed 但不中斷', async () => {
+      cli.exec
+        .mockRejectedValueOnce(new Error('network down'))
+        .mockRejectedValueOnce(new Error('beta@mp is already up to date'));
+
+      const result = await svc.updateAll();
+
+      expect(result.results).toEqual([
+        { pluginId: 'alpha@mp', scope: 'user', status: 'failed', error: 'network down' },
+        { pluginId: 'beta@mp', scope: 'project', status: 'upToDate' },
+      ]);
+    });
+
+    it('帶 plugins → 只考慮指定的 plugin', async () => {
+      const result = await svc.updateAll(['beta@mp', 'gamma@mp']);
+      expect(result.results).toEqual([{ pluginId: 'beta@mp', scope: 'project', status: 'updated' }]);
+    });
+
+    it('retryUpdates → 直接更新指定的 plugin + scope', async () => {
+      const result = await svc.retryUpdates([{ pluginId: 'gamma@mp', scope: 'user' }]);
+      expect(cli.exec).toHaveBeenCalledWith(['plugin', 'update', 'gamma@mp', '--scope', 'user'], { timeout: CLI_LONG_TIMEOUT_MS });
+      expect(result.results).toEqual([{ pluginId: 'gamma@mp', scope: 'user', status: 'updated' }]);
+    });
+  });
+
+  /* ═══════ getChangelog ═══════ */
+  describe('getChangelog()', () => {
+    it('未安裝 → throw', async () => {
+      await expect(svc.getChangelog('alpha@mp')).rejects.toThrow('Plugin "alpha@mp" is not installed.');
+    });
+
+    it('remote source（無 local 目錄）→ throw', async () => {
+      settings.readInstalledPlugins.mockResolvedValue(installedWithUser('alpha@mp'));
+
+      await expect(svc.getChangelog('alpha@mp')).rejects.toThrow('has no local source');
+      expect(settings.resolvePluginSource).toHaveBeenCalledWith('alpha@mp');
+    });
+  });
+
+  /* ═══════ getDetails ═══════ */
+  describe('getDetails()', () => {
+    const entry = (scope: 'user' | 'project', installPath: string, projectPath?: string) => ({
+      scope, installPath, projectPath, version: '1.0.0',
+      installedAt: '2025-01-01', lastUpdated: '2025-01-02', gitCommitSha: `sha-${scope}`,
+    });
+
+    beforeEach(() => {
+      mockReadPluginManifestMetadata.mockResolvedValue({ author: 'Ada', keywords: ['lint'] });
+      mockReadPluginReadme.mockResolvedValue('# Alpha');
+    });
+
+    it('已安裝 → 讀 installPath 的 metadata / README，列出 user 與目前 workspace 的安裝與磁碟用量', async () => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/ws' }, name: 'ws', index: 0 }] as any;
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: {
+          'alpha@mp': [
+            entry('user', '/cache/alpha/user'),
+            entry('project', '/cache/alpha/ws', '/ws'),
+            entry('project', '/cache/alpha/other', '/other'),
+          ],
+        },
+      });
+      settings.resolvePluginSource.mockResolvedValue({ marketplaceDir: '/mp', pluginDir: '/mp/plugins/alpha' });
+      mockReadGitHead.mockResolvedValue('sha-head');
+      mockReaddir.mockImplementation(async (dir: string) => (
+        dir === '/cache/alpha/user' ? [{ name: 'a.md', isDirectory: () => false }] : []
+      ));
+      mockStat.mockResolvedValue({ size: 1200 });
+
+      const details = await svc.getDetails('alpha@mp');
+
+      expect(mockReadPluginManifestMetadata).toHaveBeenCalledWith('/cache/alpha/user');
+      expect(mockReadPluginReadme).toHaveBeenCalledWith('/cache/alpha/user');
+      expect(details).toMatchObject({
+        pluginId: 'alpha@mp',
+        metadata: { author: 'Ada', keywords: ['lint'] },
+        readme: '# Alpha',
+        availableSha: 'sha-head',
+      });
+      expect(details.installs.map((i) => [i.scope, i.gitCommitSha, i.diskBytes])).toEqual([
+        ['user', 'sha-user', 1200],
+        ['project', 'sha-project', 0],
+      ]);
+    });
+
+    it('未安裝 → 讀 marketplace local source；無 source 時 metadata 為空', async () => {
+      settings.resolvePluginSource.mockResolvedValueOnce({ marketplaceDir: '/mp', pluginDir: '/mp/plugins/alpha' });
+      await svc.getDetails('alpha@mp');
+      expect(mockReadPluginManifestMetadata).toHaveBeenCalledWith('/mp/plugins/alpha');
+
+      mockReadPluginManifestMetadata.mockClear();
+      const details = await svc.getDetails('alpha@mp');
+      expect(mockReadPluginManifestMetadata).not.toHaveBeenCalled();
+      expect(details).toEqual({ pluginId: 'alpha@mp', metadata: { keywords: [] }, installs: [] });
+    });
+  });
+
+  /* ═══════ security review ═══════ */
+  describe('getSecurityReview() / acknowledgeSecurityReview()', () => {
+    const REVIEWS_PATH = '/mock/plugins/plugin_security_reviews.json';
+    const SOURCE = { marketplaceDir: '/mp', pluginDir: '/mp/plugins/alpha' };
+    const FINDING = {
+      rule: 'pipe-to-shell', severity: 'high', source: 'hook', location: 'SessionStart', excerpt: 'curl x | sh',
+    };
+
+    beforeEach(() => {
+      settings.scanPluginExecutablesAt.mockResolvedValue({
+        scripts: [],
+        hookCommands: [{ event: 'SessionStart', command: 'curl x | sh' }],
+      });
+      mockReadPluginMcpCommands.mockResolvedValue([]);
+      mockAnalyzePluginExecutables.mockResolvedValue({ findings: [FINDING], contentHash: 'hash-1' });
+    });
+
+    it('remote source 未安裝 → sourceAvailable=false，不掃描', async () => {
+      const report = await svc.getSecurityReview('alpha@mp');
+
+      expect(report).toMatchObject({ pluginId: 'alpha@mp', sourceAvailable: false, findings: [], acknowledged: false });
+      expect(report.reviewKey).toBeUndefined();
+      expect(mockAnalyzePluginExecutables).not.toHaveBeenCalled();
+    });
+
+    it('local source → 掃描 marketplace 目錄並以 HEAD sha 快取', async () => {
+      settings.resolvePluginSource.mockResolvedValue(SOURCE);
+      mockReadGitHead.mockResolvedValue('sha-head');
+
+      const report = await svc.getSecurityReview('alpha@mp');
+
+      expect(settings.scanPluginExecutablesAt).toHaveBeenCalledWith('/mp/plugins/alpha', '/mp');
+      expect(report).toMatchObject({
+        reviewKey: 'sha-head', gitCommitSha: 'sha-head', sourceAvailable: true, findings: [FINDING], acknowledged: false,
+      });
+      const [path, written] = mockWriteJsonFileAtomic.mock.calls[0];
+      expect(path).toBe(REVIEWS_PATH);
+      expect(written['alpha@mp'].report.reviewKey).toBe('sha-head');
+      expect(written['alpha@mp'].acknowledgedAt).toBeUndefined();
+    });
+
+    it('已安裝 → 審查 installPath；同 gitCommitSha 沿用快取與確認紀錄', async () => {
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: {
+          'alpha@mp': [{
+            scope: 'user', installPath: '/cache/alpha', version: '1.0.0',
+            installedAt: '2025-01-01', lastUpdated: '2025-01-01', gitCommitSha: 'sha-1',
+          }],
+        },
+      });
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': { report: { pluginId: 'alpha@mp', reviewKey: 'sha-1', findings: [] }, acknowledgedAt: '2025-02-01' },
+      });
+
+      const report = await svc.getSecurityReview('alpha@mp');
+
+      expect(report).toMatchObject({ reviewKey: 'sha-1', acknowledged: true });
+      expect(mockAnalyzePluginExecutables).not.toHaveBeenCalled();
+      expect(settings.resolvePluginSource).not.toHaveBeenCalled();
+    });
+
+    it('無 git 資訊 → 以內容 hash 為 reviewKey，hash 相同保留確認紀錄', async () => {
+      settings.resolvePluginSource.mockResolvedValue(SOURCE);
+      mockReadGitHead.mockResolvedValue(undefined);
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': { report: { pluginId: 'alpha@mp', reviewKey: 'content:hash-1', findings: [] }, acknowledgedAt: '2025-02-01' },
+      });
+
+      const report = await svc.getSecurityReview('alpha@mp');
+
+      expect(mockAnalyzePluginExecutables).toHaveBeenCalled();
+      expect(report).toMatchObject({ reviewKey: 'content:hash-1', acknowledged: true });
+      expect(report.gitCommitSha).toBeUndefined();
+    });
+
+    it('acknowledge：reviewKey 相符 → 寫入 acknowledgedAt；不符 → throw', async () => {
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': { report: { pluginId: 'alpha@mp', reviewKey: 'sha-1', findings: [] } },
+      });
+
+      await svc.acknowledgeSecurityReview('alpha@mp', 'sha-1');
+      const [, written] = mockWriteJsonFileAtomic.mock.calls[0];
+      expect(typeof written['alpha@mp'].acknowledgedAt).toBe('string');
+
+      await expect(svc.acknowledgeSecurityReview('alpha@mp', 'sha-old')).rejects.toThrow('is out of date');
+    });
+
+    /** plugin_security_reviews.json 以記憶體保存，讓審查與確認前後一致 */
+    function useReviewStore(): Record<string, unknown> {
+      const store: Record<string, unknown> = {};
+      mockReadJsonFile.mockImplementation(async (path: string, defaultValue: unknown) => (
+        path === REVIEWS_PATH ? structuredClone(store) : defaultValue
+      ));
+      mockWriteJsonFileAtomic.mockImplementation(async (path: string, data: Record<string, unknown>) => {
+        if (path === REVIEWS_PATH) Object.assign(store, data);
+      });
+      return store;
+    }
+
+    it('install 遇未確認的 hooks → modal 取消則拋 SecurityReviewDeclinedError，不呼叫 CLI', async () => {
+      settings.resolvePluginSource.mockResolvedValue(SOURCE);
+      mockReadGitHead.mockResolvedValue('sha-head');
+      vi.mocked(window.showWarningMessage).mockResolvedValue(undefined);
+
+      await expect(svc.install('alpha@mp', 'user')).rejects.toThrow(SecurityReviewDeclinedError);
+
+      expect(window.showWarningMessage).toHaveBeenCalledWith(
+        expect.stringContaining('1 plugin(s)'),
+        expect.objectContaining({ modal: true, detail: expect.stringContaining('alpha@mp: 1 hook command(s)') }),
+        'Continue',
+      );
+      expect(cli.exec).not.toHaveBeenCalled();
+    });
+
+    it('modal 確認 → 寫入 acknowledgedAt 後安裝；之後 enable 不再詢問', async () => {
+      settings.resolvePluginSource.mockResolvedValue(SOURCE);
+      mockReadGitHead.mockResolvedValue('sha-head');
+      const store = useReviewStore();
+
+      await svc.install('alpha@mp', 'user');
+      await svc.enable('alpha@mp', 'user');
+
+      expect(window.showWarningMessage).toHaveBeenCalledTimes(1);
+      expect(store['alpha@mp']).toMatchObject({ acknowledgedAt: expect.any(String) });
+      expect(cli.exec).toHaveBeenCalledWith(['plugin', 'install', 'alpha@mp', '--scope', 'user'], expect.anything());
+    });
+
+    it('來源無法審查 → webview 確認（無 reviewKey）只對下一次操作有效', async () => {
+      await svc.acknowledgeSecurityReview('alpha@mp');
+      await svc.enable('alpha@mp', 'user');
+      expect(window.showWarningMessage).not.toHaveBeenCalled();
+
+      vi.mocked(window.showWarningMessage).mockResolvedValue(undefined);
+      await expect(svc.enable('alpha@mp', 'user')).rejects.toThrow(SecurityReviewDeclinedError);
+      expect(settings.setPluginEnabled).toHaveBeenCalledTimes(1);
+    });
+
+    it('bulk enable → 一個 modal 列出全部；取消的 plugin 記為略過，不寫入', async () => {
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: { ...installedWithUser('a@mp').plugins, ...installedWithUser('b@mp').plugins },
+      });
+      vi.mocked(window.showWarningMessage).mockResolvedValue(undefined);
+
+      const result = await svc.bulk('enable', ['a@mp', 'b@mp'], 'user');
+
+      expect(window.showWarningMessage).toHaveBeenCalledTimes(1);
+      expect(settings.setPluginsEnabled).not.toHaveBeenCalled();
+      expect(result.results).toEqual([
+        { pluginId: 'a@mp', ok: false, error: 'Skipped: security review not confirmed' },
+        { pluginId: 'b@mp', ok: false, error: 'Skipped: security review not confirmed' },
+      ]);
+    });
+  });
+
+  /* ═══════ version history / rollback ═══════ */
+  describe('version history', () => {
+    const HISTORY_PATH = '/mock/plugins/plugin_history.json';
+
+    function userEntry(installPath: string, version: string): InstalledPluginsFile {
+      return {
+        version: 2,
+        plugins: {
+          'alpha@mp': [{
+            scope: 'user',
+            installPath,
+            version,
+            installedAt: '2025-01-01',
+            lastUpdated: '2025-01-02',
+            gitCommitSha: `sha-${version}`,
+          }],
+        },
+      };
+    }
+
+    it('update 換了 installPath → 舊版本記入歷史（新的在前）', async () => {
+      settings.readInstalledPlugins
+        .mockResolvedValueOnce(userEntry('/cache/alpha/v1', '1.0.0'))
+        .mockResolvedValue(userEntry('/cache/alpha/v2', '2.0.0'));
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': [{ installPath: '/cache/alpha/v0', version: '0.9.0', lastUpdated: '2024-12-01', replacedAt: '2025-01-01' }],
+      });
+
+      await svc.update('alpha@mp', 'user');
+
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledWith(HISTORY_PATH, {
+        'alpha@mp': [
+          expect.objectContaining({ installPath: '/cache/alpha/v1', version: '1.0.0', gitCommitSha: 'sha-1.0.0' }),
+          expect.objectContaining({ installPath: '/cache/alpha/v0' }),
+        ],
+      });
+    });
+
+    it('update 後 installPath 不變 → 不寫歷史', async () => {
+      settings.readInstalledPlugins.mockResolvedValue(userEntry('/cache/alpha/v1', '1.0.0'));
+
+      await svc.update('alpha@mp', 'user');
+
+      expect(mockWriteJsonFileAtomic).not.toHaveBeenCalled();
+    });
+
+    it('歷史超過上限 → 捨棄最舊版本', async () => {
+      settings.readInstalledPlugins
+        .mockResolvedValueOnce(userEntry('/cache/alpha/v9', '9.0.0'))
+        .mockResolvedValue(userEntry('/cache/alpha/v10', '10.0.0'));
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': [8, 7, 6, 5, 4].map((n) => ({
+          installPath: `/cache/alpha/v${n}`, version: `${n}.0.0`, lastUpdated: '2025-01-01', replacedAt: '2025-01-01',
+        })),
+      });
+
+      await svc.update('alpha@mp');
+
+      const [, history] = mockWriteJsonFileAtomic.mock.calls[0];
+      expect(history['alpha@mp'].map((s: { installPath: string }) => s.installPath)).toEqual([
+        '/cache/alpha/v9', '/cache/alpha/v8', '/cache/alpha/v7', '/cache/alpha/v6', '/cache/alpha/v5',
+      ]);
+    });
+
+    it('getHistory 略過 cache 目錄已不存在的版本', async () => {
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': [
+          { installPath: '/cache/alpha/v1', version: '1.0.0', lastUpdated: '2025-01-01', replacedAt: '2025-02-01' },
+          { installPath: '/cache/alpha/gone', version: '0.5.0', lastUpdated: '2024-01-01', replacedAt: '2025-01-01' },
+        ],
+      });
+      mockStat.mockImplementation(async (path: string) => {
+        if (path === '/cache/alpha/gone') throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+        return {};
+      });
+
+      const history = await svc.getHistory('alpha@mp');
+
+      expect(history.map((s) => s.version)).toEqual(['1.0.0']);
+    });
+
+    it('rollback → installPath 指回歷史版本，目前版本改記入歷史', async () => {
+      settings.readInstalledPlugins.mockResolvedValue(userEntry('/cache/alpha/v2', '2.0.0'));
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': [{ installPath: '/cache/alpha/v1', version: '1.0.0', lastUpdated: '2025-01-01', replacedAt: '2025-02-01' }],
+      });
+
+      await svc.rollback('alpha@mp', 'user', '/cache/alpha/v1');
+
+      expect(settings.updateInstallEntry).toHaveBeenCalledWith('alpha@mp', 'user', undefined, {
+        installPath: '/cache/alpha/v1',
+        version: '1.0.0',
+        gitCommitSha: undefined,
+        lastUpdated: '2025-01-01',
+      });
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledWith(HISTORY_PATH, {
+        'alpha@mp': [expect.objectContaining({ installPath: '/cache/alpha/v2', version: '2.0.0' })],
+      });
+      expect(mockFixScriptPermissions).toHaveBeenCalledWith('/cache/alpha/v1');
+    });
+
+    it('rollback 到不在歷史中的版本 → throw', async () => {
+      settings.readInstalledPlugins.mockResolvedValue(userEntry('/cache/alpha/v2', '2.0.0'));
+
+      await expect(svc.rollback('alpha@mp', 'user', '/cache/alpha/v1'))
+        .rejects.toThrow('no longer available');
+      expect(settings.updateInstallEntry).not.toHaveBeenCalled();
+    });
+
+    it('rollback 未安裝的 scope → throw', async () => {
+      workspace.workspaceFolders = [{ uri: { fsPath: '/my/project' } }] as any;
+      settings.readInstalledPlugins.mockResolvedValue(userEntry('/cache/alpha/v2', '2.0.0'));
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': [{ installPath: '/cache/alpha/v1', version: '1.0.0', lastUpdated: '2025-01-01', replacedAt: '2025-02-01' }],
+      });
+
+      await expect(svc.rollback('alpha@mp', 'project', '/cache/alpha/v1'))
+        .rejects.toThrow('not installed in project scope');
+    });
+
+    it('uninstall 最後一個 scope → 清除歷史', async () => {
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': [{ installPath: '/cache/alpha/v1', version: '1.0.0', lastUpdated: '2025-01-01', replacedAt: '2025-02-01' }],
+      });
+
+      await svc.uninstall('alpha@mp', 'user');
+
+      expect(mockWriteJsonFileAtomic).toHaveBeenCalledWith(HISTORY_PATH, {});
+    });
+  });
+
   /* ═══════ pruneStaleEntries（via listAvailable） ═══════ */
   describe('listAvailable() stale entry pruning', () => {
     /** 每次呼叫回傳新物件，避免 listAvailable 的 `delete data.plugins[id]` mutate 共用 const */
@@ -1138,6 +1895,46 @@ describe('PluginService', () => {
       expect(mockRm).not.toHaveBeenCalled();
     });
 
+    it('歷史版本引用的 hash dir → 保留', async () => {
+      settings.readInstalledPlugins.mockResolvedValue({ version: 2, plugins: {} });
+      mockReadJsonFile.mockResolvedValue({
+        'alpha@mp': [{
+          installPath: `${MOCK_CACHE_DIR}/mp/alpha/hash1`, version: '1.0.0', lastUpdated: '2025-01-01', replacedAt: '2025-02-01',
+        }],
+      });
+      mockReaddir.mockResolvedValueOnce([makeDirent('mp', true)]);
+      mockReaddir.mockResolvedValueOnce([makeDirent('alpha', true)]);
+      mockReaddir.mockResolvedValueOnce([makeDirent('hash1', true)]);
+
+      const result = await svc.pruneUnusedCache();
+
+      expect(result).toEqual({ removedDirs: 0, freedBytes: 0 });
+      expect(mockRm).not.toHaveBeenCalled();
+    });
+
+    it('dev link 前的 cache 版本 → 保留供 unlink 還原', async () => {
+      settings.readInstalledPlugins.mockResolvedValue({ version: 2, plugins: {} });
+      mockReadJsonFile.mockImplementation(async (path: string, defaultValue: unknown) => (
+        path === '/mock/plugins/plugin_dev_links.json'
+          ? {
+            'alpha@mp': [{
+              scope: 'user',
+              path: '/work/alpha',
+              previous: { installPath: `${MOCK_CACHE_DIR}/mp/alpha/hash1`, version: '1.0.0', lastUpdated: '2025-01-01' },
+            }],
+          }
+          : defaultValue
+      ));
+      mockReaddir.mockResolvedValueOnce([makeDirent('mp', true)]);
+      mockReaddir.mockResolvedValueOnce([makeDirent('alpha', true)]);
+      mockReaddir.mockResolvedValueOnce([makeDirent('hash1', true)]);
+
+      const result = await svc.pruneUnusedCache();
+
+      expect(result).toEqual({ removedDirs: 0, freedBytes: 0 });
+      expect(mockRm).not.toHaveBeenCalled();
+    });
+
     it('unreferenced hash dir → 刪除 + 回傳正確 stats', async () => {
       settings.readInstalledPlugins.mockResolvedValue({ version: 2, plugins: {} });
       // Level 1: marketplace dirs
@@ -1262,4 +2059,95 @@ describe('PluginService', () => {
       expect(mockRm).not.toHaveBeenCalled();
     });
   });
+
+  describe('getStorageUsage() / deleteStorageEntries()', () => {
+    const ALPHA = `${MOCK_CACHE_DIR}/mp/alpha`;
+
+    /** 以路徑模擬 filesystem：目錄 → 子項目，檔案 → 大小 */
+    function mockFileTree(tree: Record<string, string[]>, sizes: Record<string, number>): void {
+      mockReaddir.mockImplementation(async (dir: string) => {
+        const children = tree[dir];
+        if (!children) throw new Error('ENOENT');
+        return children.map((name) => ({ name, isDirectory: () => `${dir}/${name}` in tree }));
+      });
+      mockStat.mockImplementation(async (path: string) => ({ size: sizes[path] ?? 0 }));
+    }
+
+    beforeEach(() => {
+      mockFileTree({
+        [MOCK_CACHE_DIR]: ['mp', 'temp_subdir_1'],
+        [`${MOCK_CACHE_DIR}/temp_subdir_1`]: [],
+        [`${MOCK_CACHE_DIR}/mp`]: ['alpha'],
+        [ALPHA]: ['1.1.0', '1.0.0', 'stale'],
+        [`${ALPHA}/1.1.0`]: ['index.js'],
+        [`${ALPHA}/1.0.0`]: ['index.js'],
+        [`${ALPHA}/stale`]: ['index.js'],
+        '/mock/plugins/marketplaces': ['mp', 'removed-mp'],
+        '/mock/plugins/marketplaces/mp': ['marketplace.json'],
+        '/mock/plugins/marketplaces/removed-mp': ['marketplace.json'],
+      }, {
+        [`${ALPHA}/1.1.0/index.js`]: 300,
+        [`${ALPHA}/1.0.0/index.js`]: 200,
+        [`${ALPHA}/stale/index.js`]: 100,
+        '/mock/plugins/marketplaces/mp/marketplace.json': 1000,
+        '/mock/plugins/marketplaces/removed-mp/marketplace.json': 50,
+      });
+      settings.readInstalledPlugins.mockResolvedValue({
+        version: 2,
+        plugins: {
+          'alpha@mp': [{
+            scope: 'user', installPath: `${ALPHA}/1.1.0`, version: '1.1.0', installedAt: '2025-01-01', lastUpdated: '2025-03-01',
+          }],
+        },
+      });
+      mockReadJsonFile.mockImplementation(async (path: string, defaultValue: unknown) => {
+        if (path === '/mock/plugins/plugin_history.json') {
+          return {
+            'alpha@mp': [{ installPath: `${ALPHA}/1.0.0`, version: '1.0.0', lastUpdated: '2025-01-01', replacedAt: '2025-03-01' }],
+          };
+        }
+        if (path === '/mock/plugins/known_marketplaces.json') {
+          return { mp: { installLocation: '/mock/plugins/marketplaces/mp' } };
+        }
+        return defaultValue;
+      });
+    });
+
+    it('回傳各 marketplace clone、plugin cache 與版本的大小及引用來源', async () => {
+      const usage = await svc.getStorageUsage();
+
+      expect(usage.marketplaces).toEqual([
+        { name: 'mp', path: '/mock/plugins/marketplaces/mp', bytes: 1000, known: true },
+        { name: 'removed-mp', path: '/mock/plugins/marketplaces/removed-mp', bytes: 50, known: false },
+      ]);
+      expect(usage.caches).toEqual([{
+        marketplace: 'mp',
+        plugin: 'alpha',
+        path: ALPHA,
+        bytes: 600,
+        versions: [
+          { version: '1.1.0', path: `${ALPHA}/1.1.0`, bytes: 300, reference: 'installed' },
+          { version: '1.0.0', path: `${ALPHA}/1.0.0`, bytes: 200, reference: 'history' },
+          { version: 'stale', path: `${ALPHA}/stale`, bytes: 100 },
+        ],
+      }]);
+      expect(usage.totalBytes).toBe(1650);
+    });
+
+    it('刪除歷史版本與未登記的 marketplace clone → 回傳釋放空間', async () => {
+      const result = await svc.deleteStorageEntries([`${ALPHA}/1.0.0`, '/mock/plugins/marketplaces/removed-mp']);
+
+      expect(result).toEqual({ removedDirs: 2, freedBytes: 250 });
+      expect(mockRm).toHaveBeenCalledWith(`${ALPHA}/1.0.0`, { recursive: true, force: true });
+      expect(mockRm).toHaveBeenCalledWith('/mock/plugins/marketplaces/removed-mp', { recursive: true, force: true });
+    });
+
+    it('使用中的版本、已登記的 marketplace 或 storage 外的路徑 → 拋錯且不刪除', async () => {
+      for (const path of [`${ALPHA}/1.1.0`, '/mock/plugins/marketplaces/mp', '/etc', ALPHA]) {
+        await expect(svc.deleteStorageEntries([`${ALPHA}/stale`, path]))
+          .rejects.toThrow(`Cannot delete ${path}: it is in use or not a plugin storage directory.`);
+      }
+      expect(mockRm).not.toHaveBeenCalled();
+    });
+  });
 });
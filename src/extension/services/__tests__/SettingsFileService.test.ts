@@ -352,6 +352,21 @@ describe('SettingsFileService', () => {
     });
   });
 
+  /* ═══════ setPluginsEnabled ═══════ */
+  describe('setPluginsEnabled()', () => {
+    it('多個 plugin 單次 read-write', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({
+        enabledPlugins: { 'a@mp': true, 'keep@mp': true },
+      }));
+
+      await svc.setPluginsEnabled(['a@mp', 'b@mp'], 'user', false);
+
+      expect(mockWriteFile).toHaveBeenCalledTimes(1);
+      const [, content] = mockWriteFile.mock.calls[0];
+      expect(JSON.parse(content).enabledPlugins).toEqual({ 'keep@mp': true });
+    });
+  });
+
   /* ═══════ addInstallEntry ═══════ */
   describe('addInstallEntry()', () => {
     const baseEntry: PluginInstallEntry = {
@@ -478,6 +493,29 @@ describe('SettingsFileService', () => {
   });
 
   /* ═══════ removeInstallEntry ═══════ */
+  describe('removeInstallEntries()', () => {
+    it('多個 plugin 同 scope → installed_plugins.json 只寫一次', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({
+        version: 2,
+        plugins: {
+          'a@mp': [{ scope: 'user', installPath: '/cache/a', version: '1.0', installedAt: '', lastUpdated: '' }],
+          'b@mp': [
+            { scope: 'user', installPath: '/cache/b', version: '1.0', installedAt: '', lastUpdated: '' },
+            { scope: 'project', projectPath: '/workspace', installPath: '/cache/b', version: '1.0', installedAt: '', lastUpdated: '' },
+          ],
+        },
+      }));
+
+      await svc.removeInstallEntries(['a@mp', 'b@mp', 'missing@mp'], 'user');
+
+      expect(mockWriteFile).toHaveBeenCalledTimes(1);
+      const [, content] = mockWriteFile.mock.calls[0];
+      const written = JSON.parse(content);
+      expect(written.plugins).not.toHaveProperty('a@mp');
+      expect(written.plugins['b@mp']).toEqual([expect.objectContaining({ scope: 'project' })]);
+    });
+  });
+
   describe('removeInstallEntry()', () => {
     it('移除指定 scope + projectPath 的 entry', async () => {
       mockReadFile.mockResolvedValue(JSON.stringify({
@@ -585,6 +623,41 @@ describe('SettingsFileService', () => {
     });
   });
 
+  /* ═══════ updateInstallEntry ═══════ */
+  describe('updateInstallEntry()', () => {
+    it('只覆寫匹配 scope + projectPath 的 entry，undefined 欄位被移除', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({
+        version: 2,
+        plugins: {
+          'my-plugin@mp': [
+            { scope: 'user', installPath: '/cache/v2', version: '2.0', installedAt: '2026-01-01', lastUpdated: '2026-02-01', gitCommitSha: 'abc' },
+            { scope: 'project', projectPath: '/ws', installPath: '/cache/v2', version: '2.0', installedAt: '2026-01-01', lastUpdated: '2026-02-01' },
+          ],
+        },
+      }));
+
+      await svc.updateInstallEntry('my-plugin@mp', 'user', undefined, {
+        installPath: '/cache/v1',
+        version: '1.0',
+        gitCommitSha: undefined,
+        lastUpdated: '2026-01-15',
+      });
+
+      const [, content] = mockWriteFile.mock.calls[0];
+      const [user, project] = JSON.parse(content).plugins['my-plugin@mp'];
+      expect(user).toEqual({ scope: 'user', installPath: '/cache/v1', version: '1.0', installedAt: '2026-01-01', lastUpdated: '2026-01-15' });
+      expect(project.installPath).toBe('/cache/v2');
+    });
+
+    it('entry 不存在 → 不寫入', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({ version: 2, plugins: {} }));
+
+      await svc.updateInstallEntry('nonexistent@mp', 'user', undefined, { installPath: '/cache/v1' });
+
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+  });
+
   /* ═══════ updateInstallEntryTimestamp ═══════ */
   describe('updateInstallEntryTimestamp()', () => {
     it('更新指定 plugin 所有 entries 的 lastUpdated', async () => {
@@ -0,0 +1,106 @@
+/**
+ * pluginChangelog 整合測試。
+ * 真實 filesystem + git repo，驗證 git log 範圍、檔案差異與 CHANGELOG.md 讀取。
+ */
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { diffPluginContentFiles, readPluginChangelog, readPluginGitLog } from '../pluginChangelog';
+
+const SUITE_TMP = mkdtempSync(join(tmpdir(), 'changelog-int-'));
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+function writeFile(path: string, content: string): void {
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, content);
+}
+
+function git(dir: string, ...args: string[]): string {
+  return execFileSync('git', ['-C', dir, '-c', 'user.name=Tester', '-c', 'user.email=t@example.com', ...args], {
+    encoding: 'utf-8',
+  }).trim();
+}
+
+function commitAll(dir: string, message: string): string {
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-q', '-m', message);
+  return git(dir, 'rev-parse', 'HEAD');
+}
+
+describe('pluginChangelog（integration / 真實 filesystem + git）', () => {
+  const mpDir = join(SUITE_TMP, 'mp');
+  const pluginDir = join(mpDir, 'plugins', 'alpha');
+
+  beforeEach(() => {
+    rmSync(mpDir, { recursive: true, force: true });
+    mkdirSync(mpDir, { recursive: true });
+    git(mpDir, 'init', '-q');
+  });
+
+  it('readPluginGitLog 只列出 installed commit 之後觸及 plugin 目錄的 commits', async () => {
+    writeFile(join(pluginDir, 'commands/run.md'), 'v1');
+    const installed = commitAll(mpDir, 'Initial');
+    writeFile(join(mpDir, 'plugins/other/commands/x.md'), 'other');
+    commitAll(mpDir, 'Touch other plugin');
+    writeFile(join(pluginDir, 'commands/run.md'), 'v2');
+    commitAll(mpDir, 'Improve run command');
+
+    const commits = await readPluginGitLog(mpDir, pluginDir, installed);
+
+    expect(commits?.map((c) => c.subject)).toEqual(['Improve run command']);
+    expect(commits?.[0]).toMatchObject({ author: 'Tester', sha: git(mpDir, 'rev-parse', 'HEAD') });
+  });
+
+  it('readPluginGitLog：installed commit 不在 clone 中 → undefined', async () => {
+    writeFile(join(pluginDir, 'commands/run.md'), 'v1');
+    commitAll(mpDir, 'Initial');
+
+    expect(await readPluginGitLog(mpDir, pluginDir, '0'.repeat(40))).toBeUndefined();
+  });
+
+  it('diffPluginContentFiles 依內容分出 added / removed / modified，忽略 contents 以外的檔案', async () => {
+    const installedDir = join(SUITE_TMP, 'cache', 'alpha');
+    rmSync(installedDir, { recursive: true, force: true });
+    writeFile(join(installedDir, 'commands/run.md'), 'v1');
+    writeFile(join(installedDir, 'commands/old.md'), 'old');
+    writeFile(join(installedDir, 'skills/s/SKILL.md'), 'same');
+    writeFile(join(installedDir, 'README.md'), 'v1');
+    writeFile(join(pluginDir, 'commands/run.md'), 'v2');
+    writeFile(join(pluginDir, 'skills/s/SKILL.md'), 'same');
+    writeFile(join(pluginDir, 'agents/new.md'), 'new');
+    writeFile(join(pluginDir, 'README.md'), 'v2');
+
+    expect(await diffPluginContentFiles(installedDir, pluginDir)).toEqual([
+      { path: 'agents/new.md', status: 'added' },
+      { path: 'commands/old.md', status: 'removed' },
+      { path: 'commands/run.md', status: 'modified' },
+    ]);
+  });
+
+  it('readPluginChangelog 讀取 CHANGELOG.md，不存在回傳 undefined', async () => {
+    expect(await readPluginChangelog(pluginDir)).toBeUndefined();
+
+    writeFile(join(pluginDir, 'CHANGELOG.md'), '## 2.0.0\n- New run command\n');
+
+    expect(await readPluginChangelog(pluginDir)).toBe('## 2.0.0\n- New run command\n');
+  });
+
+  it('symlink 指向 plugin 外的 CHANGELOG.md / content 目錄 → 不讀取', async () => {
+    const outsideDir = join(SUITE_TMP, 'outside');
+    writeFile(join(outsideDir, 'secret.md'), 'secret');
+    const installedDir = join(SUITE_TMP, 'cache', 'beta');
+    rmSync(installedDir, { recursive: true, force: true });
+    writeFile(join(installedDir, 'agents/a.md'), 'a');
+    writeFile(join(pluginDir, 'agents/a.md'), 'a');
+    symlinkSync(join(outsideDir, 'secret.md'), join(pluginDir, 'CHANGELOG.md'));
+    symlinkSync(outsideDir, join(pluginDir, 'commands'));
+
+    expect(await readPluginChangelog(pluginDir)).toBeUndefined();
+    expect(await diffPluginContentFiles(installedDir, pluginDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * pluginDetails 整合測試。
+ * 真實 filesystem，驗證 plugin.json metadata 正規化與 README 讀取。
+ */
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readPluginManifestMetadata, readPluginReadme } from '../pluginDetails';
+
+const SUITE_TMP = mkdtempSync(join(tmpdir(), 'details-int-'));
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+describe('pluginDetails（integration / 真實 filesystem）', () => {
+  const pluginDir = join(SUITE_TMP, 'alpha');
+
+  beforeEach(() => {
+    rmSync(pluginDir, { recursive: true, force: true });
+    mkdirSync(join(pluginDir, '.claude-plugin'), { recursive: true });
+  });
+
+  it('author 物件 / repository 物件正規化，keywords 只留字串', async () => {
+    writeFileSync(join(pluginDir, '.claude-plugin', 'plugin.json'), JSON.stringify({
+      name: 'alpha',
+      author: { name: 'Ada Lovelace', email: 'ada@example.com' },
+      homepage: 'https://example.com/alpha',
+      repository: { type: 'git', url: 'https://github.com/example/alpha' },
+      license: 'MIT',
+      keywords: ['lint', 42, '', 'format'],
+    }));
+
+    expect(await readPluginManifestMetadata(pluginDir)).toEqual({
+      author: 'Ada Lovelace',
+      homepage: 'https://example.com/alpha',
+      repository: 'https://github.com/example/alpha',
+      license: 'MIT',
+      keywords: ['lint', 'format'],
+    });
+  });
+
+  it('plugin.json 不存在或格式錯誤 → 空 metadata', async () => {
+    expect(await readPluginManifestMetadata(pluginDir)).toEqual({ keywords: [] });
+
+    writeFileSync(join(pluginDir, '.claude-plugin', 'plugin.json'), '{ not json');
+    expect(await readPluginManifestMetadata(pluginDir)).toEqual({ keywords: [] });
+  });
+
+  it('readPluginReadme：讀取 README.md，不存在回傳 undefined', async () => {
+    expect(await readPluginReadme(pluginDir)).toBeUndefined();
+
+    writeFileSync(join(pluginDir, 'README.md'), '# Alpha\n\nUsage');
+    expect(await readPluginReadme(pluginDir)).toBe('# Alpha\n\nUsage');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * pluginSecurity 整合測試。
+ * 真實 filesystem，驗證風險規則、script 逐行掃描、.mcp.json 解析與內容 hash。
+ */
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzePluginExecutables, matchSecurityRules, readPluginMcpCommands } from '../pluginSecurity';
+
+const SUITE_TMP = mkdtempSync(join(tmpdir(), 'security-int-'));
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+function writeFile(path: string, content: string): void {
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, content);
+}
+
+const rulesOf = (text: string): string[] => matchSecurityRules(text).map((m) => m.rule);
+
+describe('matchSecurityRules', () => {
+  it('curl / wget 接 pipe 到 shell → pipe-to-shell + network', () => {
+    expect(rulesOf('curl -fsSL https://example.com/install.sh | bash')).toEqual(['pipe-to-shell', 'network']);
+    expect(rulesOf('wget -qO- http://x.io/a | sudo sh')).toContain('pipe-to-shell');
+  });
+
+  it('rm 帶 recursive flag → recursive-delete；一般 rm 不算', () => {
+    expect(rulesOf('rm -rf "$HOME/.cache/foo"')).toContain('recursive-delete');
+    expect(rulesOf('rm -f -R build')).toContain('recursive-delete');
+    expect(rulesOf('rm --recursive dist')).toContain('recursive-delete');
+    expect(rulesOf('rm -f build.log')).toEqual([]);
+  });
+
+  it('寫入 home / 絕對路徑 → write-outside-project；/dev/null 與 /tmp 不算', () => {
+    expect(rulesOf('echo x >> ~/.zshrc')).toEqual(['write-outside-project']);
+    expect(rulesOf('cp tool /usr/local/bin/tool')).toEqual(['write-outside-project']);
+    expect(rulesOf('echo "${CLAUDE_PLUGIN_ROOT}" > /dev/null 2>&1')).toEqual([]);
+    expect(rulesOf('echo x > /tmp/log')).toEqual([]);
+  });
+
+  it('base64 decode 或長編碼字串 → obfuscated', () => {
+    expect(rulesOf('echo aGVsbG8= | base64 -d | sh')).toContain('obfuscated');
+    expect(rulesOf(`node -e "${'A'.repeat(150)}"`)).toContain('obfuscated');
+  });
+
+  it('一般指令無 finding', () => {
+    expect(rulesOf('node "${CLAUDE_PLUGIN_ROOT}/scripts/format.js"')).toEqual([]);
+  });
+});
+
+describe('analyzePluginExecutables（integration / 真實 filesystem）', () => {
+  const pluginDir = join(SUITE_TMP, 'alpha');
+
+  beforeEach(() => {
+    rmSync(pluginDir, { recursive: true, force: true });
+    mkdirSync(pluginDir, { recursive: true });
+  });
+
+  it('hook / script（逐行，略過註解）/ MCP 各自回報位置，high 排在 medium 前', async () => {
+    writeFile(join(pluginDir, 'scripts', 'setup.sh'), [
+      '#!/bin/bash',
+      '# curl https://example.com | sh',
+      'mkdir -p out',
+      'rm -rf ~/.cache/alpha',
+    ].join('\n'));
+
+    const { findings } = await analyzePluginExecutables(
+      pluginDir,
+      {
+        scripts: ['scripts/setup.sh'],
+        hookCommands: [{ event: 'PostToolUse', matcher: 'Write', command: 'curl -s https://telemetry.example.com' }],
+      },
+      [{ name: 'remote', url: 'https://mcp.example.com/sse' }],
+    );
+
+    expect(findings).toEqual([
+      { rule: 'recursive-delete', severity: 'high', source: 'script', location: 'scripts/setup.sh:4', excerpt: 'rm -rf ~/.cache/alpha' },
+      { rule: 'network', severity: 'medium', source: 'hook', location: 'PostToolUse (Write)', excerpt: 'curl -s https://telemetry.example.com' },
+      { rule: 'network', severity: 'medium', source: 'mcp', location: 'remote', excerpt: 'https://mcp.example.com/sse' },
+    ]);
+  });
+
+  it('內容 hash 隨 script 內容改變', async () => {
+    const script = join(pluginDir, 'run.sh');
+    const executables = { scripts: ['run.sh'], hookCommands: [] };
+    writeFile(script, 'echo one');
+    const first = await analyzePluginExecutables(pluginDir, executables, []);
+    writeFile(script, 'echo two');
+    const second = await analyzePluginExecutables(pluginDir, executables, []);
+
+    expect(first.contentHash).not.toBe(second.contentHash);
+  });
+
+  it('readPluginMcpCommands：支援 mcpServers 包裝，缺檔回傳空陣列', async () => {
+    expect(await readPluginMcpCommands(pluginDir)).toEqual([]);
+
+    writeFile(join(pluginDir, '.mcp.json'), JSON.stringify({
+      mcpServers: {
+        db: { command: 'npx', args: ['-y', 'db-mcp'] },
+        remote: { url: 'https://mcp.example.com' },
+      },
+    }));
+
+    expect(await readPluginMcpCommands(pluginDir)).toEqual([
+      { name: 'db', command: 'npx', args: ['-y', 'db-mcp'] },
+      { name: 'remote', url: 'https://mcp.example.com' },
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * pluginSourceInstall 整合測試。
+ * 真實 filesystem + 本地 git repo，驗證 source 解析、clone、plugin.json 驗證與複製到 cache。
+ */
+import { describe, it, expect, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  copyPluginToCache,
+  fetchPluginSource,
+  parsePluginSource,
+  readSourcePluginManifest,
+} from '../pluginSourceInstall';
+
+const SUITE_TMP = mkdtempSync(join(tmpdir(), 'source-install-int-'));
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+function writeFile(path: string, content: string): void {
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, content);
+}
+
+/** 建立含 plugins/tool 的 git repo，回傳 repo 路徑 */
+function createRepo(name: string): string {
+  const repo = join(SUITE_TMP, name);
+  writeFile(join(repo, 'plugins', 'tool', '.claude-plugin', 'plugin.json'), JSON.stringify({ name: 'tool', version: '1.0.0' }));
+  writeFile(join(repo, 'plugins', 'tool', 'commands', 'hi.md'), '# hi');
+  const git = (...args: string[]): void => {
+    execFileSync('git', ['-C', repo, ...args], { stdio: 'ignore' });
+  };
+  git('init', '-q');
+  git('add', '-A');
+  git('-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-q', '-m', 'init');
+  return repo;
+}
+
+describe('parsePluginSource', () => {
+  it('owner/repo → github', () => {
+    expect(parsePluginSource(' owner/repo ')).toEqual({ type: 'github', source: 'owner/repo' });
+  });
+
+  it('git URL（https / scp 形式）→ git，subdir 正規化', () => {
+    expect(parsePluginSource('https://example.com/a/b.git', './plugins/tool/')).toEqual({
+      type: 'git', source: 'https://example.com/a/b.git', subdir: 'plugins/tool',
+    });
+    expect(parsePluginSource('git@github.com:owner/repo.git').type).toBe('git');
+  });
+
+  it('~ / 絕對路徑 → local，展開為絕對路徑', () => {
+    expect(parsePluginSource('~/plugins/tool')).toEqual({ type: 'local', source: join(homedir(), 'plugins', 'tool') });
+    expect(parsePluginSource('/opt/tool').source).toBe('/opt/tool');
+  });
+
+  it('空白、無法辨識或跳出 root 的 subdir → 拋錯', () => {
+    expect(() => parsePluginSource('  ')).toThrow('Source is required.');
+    expect(() => parsePluginSource('just-a-name')).toThrow('Unrecognized source');
+    expect(() => parsePluginSource('owner/repo', '../etc')).toThrow('Subdirectory must stay inside the source');
+    expect(() => parsePluginSource('owner/repo', '/etc')).toThrow('Subdirectory must stay inside the source');
+  });
+});
+
+describe('fetchPluginSource', () => {
+  it('本地目錄 → 直接使用並讀取 HEAD commit', async () => {
+    const repo = createRepo('local-repo');
+    const fetched = await fetchPluginSource(parsePluginSource(repo, 'plugins/tool'));
+
+    expect(fetched.rootDir).toBe(repo);
+    expect(fetched.pluginDir).toBe(join(repo, 'plugins', 'tool'));
+    expect(fetched.gitCommitSha).toMatch(/^[0-9a-f]{40}$/);
+    await fetched.cleanup();
+    expect(existsSync(repo)).toBe(true);
+  });
+
+  it('git URL → shallow clone 到 temp dir，cleanup 後移除', async () => {
+    const repo = createRepo('remote-repo');
+    const fetched = await fetchPluginSource(parsePluginSource(`file://${repo}`, 'plugins/tool'));
+
+    expect(fetched.rootDir).not.toBe(repo);
+    expect(existsSync(join(fetched.pluginDir, 'commands', 'hi.md'))).toBe(true);
+    await fetched.cleanup();
+    expect(existsSync(fetched.rootDir)).toBe(false);
+  });
+
+  it('subdir 不存在 → 拋錯', async () => {
+    const repo = createRepo('missing-subdir');
+    await expect(fetchPluginSource(parsePluginSource(repo, 'plugins/nope')))
+      .rejects.toThrow('Subdirectory not found in source: plugins/nope');
+  });
+
+  it('本地目錄不存在 → 拋錯', async () => {
+    await expect(fetchPluginSource(parsePluginSource(join(SUITE_TMP, 'nope'))))
+      .rejects.toThrow('Directory not found');
+  });
+});
+
+describe('readSourcePluginManifest', () => {
+  it('回傳 name / version', async () => {
+    const repo = createRepo('manifest-repo');
+    expect(await readSourcePluginManifest(join(repo, 'plugins', 'tool'))).toEqual({ name: 'tool', version: '1.0.0' });
+  });
+
+  it('缺 plugin.json 或 name 不合法 → 拋錯', async () => {
+    const empty = join(SUITE_TMP, 'empty-plugin');
+    mkdirSync(empty, { recursive: true });
+    await expect(readSourcePluginManifest(empty)).rejects.toThrow('has no .claude-plugin/plugin.json');
+
+    const bad = join(SUITE_TMP, 'bad-plugin');
+    writeFile(join(bad, '.claude-plugin', 'plugin.json'), JSON.stringify({ name: '../x' }));
+    await expect(readSourcePluginManifest(bad)).rejects.toThrow('must have a "name"');
+  });
+
+  it('version 不是單一安全路徑片段 → 忽略 version', async () => {
+    const traversal = join(SUITE_TMP, 'traversal-plugin');
+    writeFile(join(traversal, '.claude-plugin', 'plugin.json'), JSON.stringify({ name: 'tool', version: '../../../../somewhere' }));
+    expect(await readSourcePluginManifest(traversal)).toEqual({ name: 'tool' });
+  });
+});
+
+describe('copyPluginToCache', () => {
+  it('複製內容（不含 .git）並覆寫既有目錄', async () => {
+    const repo = createRepo('copy-repo');
+    const dest = join(SUITE_TMP, 'cache', 'direct', 'tool', '1.0.0');
+    writeFile(join(dest, 'stale.md'), 'old');
+
+    await copyPluginToCache(repo, dest, join(SUITE_TMP, 'cache', 'direct', 'tool'));
+
+    expect(readFileSync(join(dest, 'plugins', 'tool', 'commands', 'hi.md'), 'utf-8')).toBe('# hi');
+    expect(existsSync(join(dest, '.git'))).toBe(false);
+    expect(existsSync(join(dest, 'stale.md'))).toBe(false);
+  });
+
+  it('目的地不在 cache 目錄之下 → 拋錯且不刪除', async () => {
+    const repo = createRepo('escape-repo');
+    const cacheDir = join(SUITE_TMP, 'cache', 'direct', 'tool');
+    const outside = join(SUITE_TMP, 'outside');
+    writeFile(join(outside, 'keep.md'), 'keep');
+
+    await expect(copyPluginToCache(repo, join(cacheDir, '..', '..', '..', 'outside'), cacheDir))
+      .rejects.toThrow('Refusing to write outside the plugin cache');
+    await expect(copyPluginToCache(repo, cacheDir, cacheDir)).rejects.toThrow('Refusing to write outside the plugin cache');
+    expect(readFileSync(join(outside, 'keep.md'), 'utf-8')).toBe('keep');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * pluginUsage 整合測試。
+ * 真實 filesystem 上的 transcript jsonl，驗證 invocation 擷取、增量掃描 cursor 與 plugin 比對。
+ */
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { appendFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createEmptyUsageIndex,
+  extractInvocationKeys,
+  findSharedInvocationKeys,
+  scanTranscripts,
+  summarizePluginUsage,
+} from '../pluginUsage';
+import type { PluginContents } from '../../../shared/types';
+
+const SUITE_TMP = mkdtempSync(join(tmpdir(), 'plugin-usage-int-'));
+const NOW = new Date('2026-03-31T12:00:00.000Z');
+
+afterAll(() => {
+  rmSync(SUITE_TMP, { recursive: true, force: true });
+});
+
+const CONTENTS: PluginContents = {
+  commands: [{ name: 'review', description: '', path: '/p/commands/review.md' }],
+  skills: [{ name: 'lint', description: '', path: '/p/skills/lint/SKILL.md' }],
+  agents: [{ name: 'reviewer', description: '', path: '/p/agents/reviewer.md' }],
+  mcpServers: ['docs'],
+  hooks: [],
+};
+
+function toolUse(timestamp: string, name: string, input: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    type: 'assistant',
+    timestamp,
+    message: { content: [{ type: 'text', text: 'ok' }, { type: 'tool_use', id: 't', name, input }] },
+  }) + '\n';
+}
+
+function slashCommand(timestamp: string, command: string): string {
+  return JSON.stringify({
+    type: 'user',
+    timestamp,
+    message: { role: 'user', content: `<command-message>running</command-message>\n<command-name>/${command}</command-name>` },
+  }) + '\n';
+}
+
+describe('extractInvocationKeys', () => {
+  it('Skill / Task / SlashCommand / mcp tool_use 與 user slash command', () => {
+    const assistant = JSON.parse(toolUse('2026-03-01T00:00:00Z', 'Skill', { skill: 'tools:lint' }));
+    assistant.message.content.push(
+      { type: 'tool_use', name: 'Task', input: { subagent_type: 'tools:reviewer' } },
+      { type: 'tool_use', name: 'SlashCommand', input: { command: '/tools:review src/' } },
+      { type: 'tool_use', name: 'mcp__plugin_tools_docs__search', input: {} },
+      { type: 'tool_use', name: 'Read', input: { file_path: '/x' } },
+    );
+    expect(extractInvocationKeys(assistant)).toEqual([
+      'skill:tools:lint',
+      'agent:tools:reviewer',
+      'command:tools:review',
+      'mcp:plugin_tools_docs',
+    ]);
+    expect(extractInvocationKeys(JSON.parse(slashCommand('2026-03-01T00:00:00Z', 'review')))).toEqual(['command:review']);
+    expect(extractInvocationKeys({ type: 'summary' })).toEqual([]);
+  });
+});
+
+describe('scanTranscripts（integration / 真實 filesystem）', () => {
+  const projectsDir = join(SUITE_TMP, 'projects');
+  const transcript = join(projectsDir, '-work-app', 'session-1.jsonl');
+
+  beforeEach(() => {
+    rmSync(projectsDir, { recursive: true, force: true });
+    mkdirSync(join(projectsDir, '-work-app'), { recursive: true });
+  });
+
+  it('統計 plugin 的 commands / skills / agents / MCP 使用次數與最後使用時間', async () => {
+    writeFileSync(transcript, [
+      slashCommand('2026-03-30T09:00:00.000Z', 'tools:review'),
+      toolUse('2026-03-29T09:00:00.000Z', 'Skill', { skill: 'lint' }),
+      toolUse('2026-03-28T09:00:00.000Z', 'Task', { subagent_type: 'tools:reviewer' }),
+      toolUse('2026-03-31T08:00:00.000Z', 'mcp__plugin_tools_docs__search'),
+      toolUse('2026-01-01T09:00:00.000Z', 'Skill', { skill: 'tools:lint' }),
+      'not json\n',
+      JSON.stringify({ type: 'user', message: { content: 'hello' } }) + '\n',
+    ].join(''));
+
+    const index = await scanTranscripts(projectsDir, createEmptyUsageIndex(), NOW);
+
+    expect(summarizePluginUsage('tools', CONTENTS, index, new Set(), NOW)).toEqual({
+      lastUsed: '2026-03-31T08:00:00.000Z',
+      recentUses: 4,
+    });
+    expect(summarizePluginUsage('other', { ...CONTENTS, commands: [], skills: [], agents: [] }, index, new Set(), NOW))
+      .toEqual({ recentUses: 0 });
+  });
+
+  it('增量掃描：只讀新增的完整行，未寫完的行留待下次', async () => {
+    writeFileSync(transcript, slashCommand('2026-03-30T09:00:00.000Z', 'tools:review'));
+    const index = await scanTranscripts(projectsDir, createEmptyUsageIndex(), NOW);
+    const firstOffset = index.files[transcript];
+
+    const next = toolUse('2026-03-31T09:00:00.000Z', 'Skill', { skill: 'tools:lint' });
+    appendFileSync(transcript, next.slice(0, 20));
+    await scanTranscripts(projectsDir, index, NOW);
+    expect(index.files[transcript]).toBe(firstOffset);
+
+    appendFileSync(transcript, next.slice(20));
+    await scanTranscripts(projectsDir, index, NOW);
+    await scanTranscripts(projectsDir, index, NOW);
+
+    expect(summarizePluginUsage('tools', CONTENTS, index, new Set(), NOW)).toEqual({
+      lastUsed: '2026-03-31T09:00:00.000Z',
+      recentUses: 2,
+    });
+  });
+
+  it('transcript 被改寫變小 → 從頭重讀；刪除的檔案移除 cursor 但保留統計', async () => {
+    writeFileSync(transcript, slashCommand('2026-03-30T09:00:00.000Z', 'tools:review').repeat(3));
+    const index = await scanTranscripts(projectsDir, createEmptyUsageIndex(), NOW);
+
+    writeFileSync(transcript, slashCommand('2026-03-31T09:00:00.000Z', 'review'));
+    await scanTranscripts(projectsDir, index, NOW);
+    expect(summarizePluginUsage('tools', CONTENTS, index, new Set(), NOW).recentUses).toBe(4);
+
+    rmSync(transcript);
+    await scanTranscripts(projectsDir, index, NOW);
+    expect(index.files).toEqual({});
+    expect(summarizePluginUsage('tools', CONTENTS, index, new Set(), NOW).lastUsed).toBe('2026-03-31T09:00:00.000Z');
+  });
+
+  it('統計區間外的每日次數會被移除', async () => {
+    writeFileSync(transcript, toolUse('2026-02-01T09:00:00.000Z', 'Skill', { skill: 'lint' }));
+    const index = await scanTranscripts(projectsDir, createEmptyUsageIndex(), NOW);
+
+    expect(index.invocations['skill:lint']).toEqual({ lastUsed: '2026-02-01T09:00:00.000Z', days: {} });
+  });
+
+  it('兩個 plugin 都有同名 command → 未加 namespace 的呼叫不計入任何一個，namespace 呼叫照常計入', async () => {
+    const other: PluginContents = {
+      commands: [{ name: 'review', description: '', path: '/q/commands/review.md' }],
+      skills: [],
+      agents: [],
+      mcpServers: [],
+      hooks: [],
+    };
+    writeFileSync(transcript, [
+      slashCommand('2026-03-30T09:00:00.000Z', 'review'),
+      slashCommand('2026-03-30T10:00:00.000Z', 'other:review'),
+      toolUse('2026-03-30T11:00:00.000Z', 'Skill', { skill: 'lint' }),
+    ].join(''));
+    const index = await scanTranscripts(projectsDir, createEmptyUsageIndex(), NOW);
+
+    const shared = findSharedInvocationKeys([CONTENTS, other]);
+
+    expect(shared).toEqual(new Set(['command:review']));
+    expect(summarizePluginUsage('tools', CONTENTS, index, shared, NOW)).toEqual({
+      lastUsed: '2026-03-30T11:00:00.000Z',
+      recentUses: 1,
+    });
+    expect(summarizePluginUsage('other', other, index, shared, NOW)).toEqual({
+      lastUsed: '2026-03-30T10:00:00.000Z',
+      recentUses: 1,
+    });
+  });
+});
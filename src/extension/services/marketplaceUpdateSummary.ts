@@ -0,0 +1,89 @@
+import type {
+  AvailablePlugin,
+  MarketplacePluginChange,
+  MarketplaceUpdateSummary,
+  PluginContents,
+  PluginContentsListDiff,
+  PluginHook,
+} from '../../shared/types';
+
+/** 單一 marketplace 在某個時間點的狀態 */
+export interface MarketplaceUpdateSnapshot {
+  commit?: string;
+  plugins: AvailablePlugin[];
+}
+
+/** 比對 update 前後的 snapshot，產生變更摘要 */
+export function buildMarketplaceUpdateSummary(
+  name: string,
+  before: MarketplaceUpdateSnapshot,
+  after: MarketplaceUpdateSnapshot,
+): MarketplaceUpdateSummary {
+  const beforeById = new Map(before.plugins.map((p) => [p.pluginId, p]));
+  const afterById = new Map(after.plugins.map((p) => [p.pluginId, p]));
+
+  const added = after.plugins.filter((p) => !beforeById.has(p.pluginId));
+  const removed = before.plugins.filter((p) => !afterById.has(p.pluginId));
+  const changed: MarketplacePluginChange[] = [];
+
+  for (const next of after.plugins) {
+    const prev = beforeById.get(next.pluginId);
+    if (!prev) continue;
+    const change = diffPlugin(prev, next);
+    if (change) changed.push(change);
+  }
+
+  return {
+    name,
+    fromCommit: before.commit,
+    toCommit: after.commit,
+    added,
+    removed,
+    changed,
+  };
+}
+
+function diffPlugin(prev: AvailablePlugin, next: AvailablePlugin): MarketplacePluginChange | null {
+  const prevContents = prev.contents ?? EMPTY_CONTENTS;
+  const nextContents = next.contents ?? EMPTY_CONTENTS;
+  const change: MarketplacePluginChange = {
+    pluginId: next.pluginId,
+    name: next.name,
+    fromVersion: prev.version,
+    toVersion: next.version,
+    commands: diffNames(prevContents.commands.map((c) => c.name), nextContents.commands.map((c) => c.name)),
+    skills: diffNames(prevContents.skills.map((s) => s.name), nextContents.skills.map((s) => s.name)),
+    agents: diffNames(prevContents.agents.map((a) => a.name), nextContents.agents.map((a) => a.name)),
+    mcpServers: diffNames(prevContents.mcpServers, nextContents.mcpServers),
+    hooksChanged: hookSignature(prevContents.hooks) !== hookSignature(nextContents.hooks),
+  };
+
+  const contentsChanged = [change.commands, change.skills, change.agents, change.mcpServers]
+    .some((d) => d.added.length > 0 || d.removed.length > 0);
+  if (prev.version === next.version && !contentsChanged && !change.hooksChanged) {
+    return null;
+  }
+  return change;
+}
+
+function diffNames(before: string[], after: string[]): PluginContentsListDiff {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter((n) => !beforeSet.has(n)),
+    removed: before.filter((n) => !afterSet.has(n)),
+  };
+}
+
+/** hook 宣告的比對字串（不含 scriptPath，路徑隨 clone 位置改變） */
+function hookSignature(hooks: PluginHook[]): string {
+  return JSON.stringify(hooks.map(({ event, matcher, type, command }) => [event, matcher ?? '', type, command]));
+}
+
+const EMPTY_CONTENTS: PluginContents = {
+  commands: [],
+  skills: [],
+  agents: [],
+  mcpServers: [],
+  hooks: [],
+};
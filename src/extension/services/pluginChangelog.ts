@@ -0,0 +1,122 @@
+import { readFile, readdir } from 'fs/promises';
+import { join, relative } from 'path';
+import type { PluginChangelogCommit, PluginFileChange } from '../../shared/types';
+import { runGit } from '../utils/git';
+import { isRealPathWithinDirectory } from './PluginCatalogScanner';
+
+/** 比對檔案差異的 plugin 子目錄 */
+const CONTENT_DIRS = ['commands', 'skills', 'agents'];
+
+/** git log 最多列出的 commit 數 */
+const MAX_COMMITS = 100;
+
+/** CHANGELOG.md 最多回傳的字元數 */
+const MAX_CHANGELOG_CHARS = 20_000;
+
+/** git log --format 欄位分隔符（unit separator，不會出現在 commit subject） */
+const FIELD_SEP = '\x1f';
+
+/**
+ * fromCommit..HEAD 之間觸及 pluginDir 的 commits（新 → 舊）。
+ * fromCommit 不在 clone 中（shallow clone、force push）或非 git 目錄時回傳 undefined。
+ */
+export async function readPluginGitLog(
+  marketplaceDir: string,
+  pluginDir: string,
+  fromCommit: string,
+): Promise<PluginChangelogCommit[] | undefined> {
+  try {
+    await runGit(marketplaceDir, ['cat-file', '-e', `${fromCommit}^{commit}`]);
+    const output = await runGit(marketplaceDir, [
+      'log',
+      `--max-count=${MAX_COMMITS}`,
+      `--format=%H${FIELD_SEP}%an${FIELD_SEP}%aI${FIELD_SEP}%s`,
+      `${fromCommit}..HEAD`,
+      '--',
+      relative(marketplaceDir, pluginDir) || '.',
+    ]);
+    return output.split('\n').filter(Boolean).map((line) => {
+      const [sha, author, date, ...subject] = line.split(FIELD_SEP);
+      return { sha, author, date, subject: subject.join(FIELD_SEP) };
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/** 比對兩個 plugin 目錄的 commands / skills / agents 檔案（依內容判斷 modified） */
+export async function diffPluginContentFiles(fromDir: string, toDir: string): Promise<PluginFileChange[]> {
+  const [fromFiles, toFiles] = await Promise.all([listContentFiles(fromDir), listContentFiles(toDir)]);
+  const changes: PluginFileChange[] = [];
+
+  for (const path of toFiles) {
+    if (!fromFiles.has(path)) {
+      changes.push({ path, status: 'added' });
+      continue;
+    }
+    const [before, after] = await Promise.all([
+      readContentFile(fromDir, path),
+      readContentFile(toDir, path),
+    ]);
+    if (!before || !after || !before.equals(after)) {
+      changes.push({ path, status: 'modified' });
+    }
+  }
+  for (const path of fromFiles) {
+    if (!toFiles.has(path)) {
+      changes.push({ path, status: 'removed' });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** 讀取 plugin 根目錄的 CHANGELOG.md；不存在或 symlink 指向 plugin 外時回傳 undefined */
+export async function readPluginChangelog(pluginDir: string): Promise<string | undefined> {
+  for (const name of ['CHANGELOG.md', 'changelog.md']) {
+    const changelogPath = join(pluginDir, name);
+    if (!(await isRealPathWithinDirectory(pluginDir, changelogPath))) continue;
+    try {
+      const text = await readFile(changelogPath, 'utf-8');
+      return text.length > MAX_CHANGELOG_CHARS ? `${text.slice(0, MAX_CHANGELOG_CHARS)}\n…` : text;
+    } catch {
+      // try next name
+    }
+  }
+  return undefined;
+}
+
+/** 讀取 plugin 內的檔案；實際路徑在 plugin 外（symlink）或讀取失敗時回傳 null */
+async function readContentFile(pluginDir: string, relPath: string): Promise<Buffer | null> {
+  const filePath = join(pluginDir, relPath);
+  try {
+    if (!(await isRealPathWithinDirectory(pluginDir, filePath))) return null;
+    return await readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/** CONTENT_DIRS 下所有檔案的相對路徑（以 `/` 分隔；不跟隨 symlink，CONTENT_DIRS 本身指向 plugin 外時略過） */
+async function listContentFiles(pluginDir: string): Promise<Set<string>> {
+  const files = new Set<string>();
+  const walk = async (relDir: string): Promise<void> => {
+    let dirents: import('fs').Dirent[];
+    try {
+      const dir = join(pluginDir, relDir);
+      if (!(await isRealPathWithinDirectory(pluginDir, dir))) return;
+      dirents = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const dirent of dirents) {
+      const relPath = `${relDir}/${dirent.name}`;
+      if (dirent.isDirectory()) {
+        await walk(relPath);
+      } else if (dirent.isFile()) {
+        files.add(relPath);
+      }
+    }
+  };
+  await Promise.all(CONTENT_DIRS.map((dir) => walk(dir)));
+  return files;
+}
@@ -0,0 +1,57 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { PluginManifestMetadata } from '../../shared/types';
+import { readJsonFile } from '../utils/jsonFile';
+import { isRealPathWithinDirectory, normalizePluginAuthor } from './PluginCatalogScanner';
+
+/** README.md 最多回傳的字元數 */
+const MAX_README_CHARS = 100_000;
+
+/** 讀取 `.claude-plugin/plugin.json` 的 author / homepage / repository / license / keywords；缺檔或格式錯誤時回傳空 metadata */
+export async function readPluginManifestMetadata(pluginDir: string): Promise<PluginManifestMetadata> {
+  const manifestPath = join(pluginDir, '.claude-plugin', 'plugin.json');
+  let raw: Record<string, unknown> = {};
+  if (await isRealPathWithinDirectory(pluginDir, manifestPath)) {
+    try {
+      const data = await readJsonFile<unknown>(manifestPath, {});
+      if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+        raw = data as Record<string, unknown>;
+      }
+    } catch {
+      // 格式錯誤 → 空 metadata（manifest linter 會另外回報）
+    }
+  }
+
+  const text = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  const repository = typeof raw.repository === 'object' && raw.repository !== null
+    ? text((raw.repository as Record<string, unknown>).url)
+    : text(raw.repository);
+  const author = normalizePluginAuthor(raw.author);
+  const homepage = text(raw.homepage);
+  const license = text(raw.license);
+  return {
+    ...(author ? { author } : {}),
+    ...(homepage ? { homepage } : {}),
+    ...(repository ? { repository } : {}),
+    ...(license ? { license } : {}),
+    keywords: Array.isArray(raw.keywords)
+      ? raw.keywords.filter((k): k is string => typeof k === 'string' && k.trim() !== '')
+      : [],
+  };
+}
+
+/** 讀取 plugin 根目錄的 README.md；不存在回傳 undefined */
+export async function readPluginReadme(pluginDir: string): Promise<string | undefined> {
+  for (const name of ['README.md', 'readme.md', 'Readme.md']) {
+    const readmePath = join(pluginDir, name);
+    if (!(await isRealPathWithinDirectory(pluginDir, readmePath))) continue;
+    try {
+      const text = await readFile(readmePath, 'utf-8');
+      return text.length > MAX_README_CHARS ? `${text.slice(0, MAX_README_CHARS)}\n…` : text;
+    } catch {
+      // try next name
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,154 @@
+import { createHash } from 'crypto';
+import { open } from 'fs/promises';
+import { join } from 'path';
+import type {
+  PluginExecutables,
+  PluginMcpCommand,
+  PluginSecurityFinding,
+  PluginSecurityRule,
+} from '../../shared/types';
+import { readJsonFile } from '../utils/jsonFile';
+import { isRealPathWithinDirectory, unwrapMcpServers } from './PluginCatalogScanner';
+
+/** 單一 script 最多掃描的位元組數 */
+const MAX_SCRIPT_BYTES = 256 * 1024;
+
+/** finding excerpt 最大長度 */
+const MAX_EXCERPT_LENGTH = 200;
+
+interface SecurityRule {
+  rule: PluginSecurityRule;
+  severity: PluginSecurityFinding['severity'];
+  patterns: RegExp[];
+}
+
+/** 依嚴重度排列；同一段文字每條規則最多回報一次 */
+const SECURITY_RULES: SecurityRule[] = [
+  {
+    rule: 'pipe-to-shell',
+    severity: 'high',
+    patterns: [/\b(?:curl|wget)\b[^\n|]*\|\s*(?:sudo\s+)?(?:ba|z|da|k)?sh\b/],
+  },
+  {
+    rule: 'recursive-delete',
+    severity: 'high',
+    patterns: [/\brm\s+(?:-{1,2}[\w-]+\s+)*(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)(?:\s|$)/],
+  },
+  {
+    rule: 'obfuscated',
+    severity: 'high',
+    patterns: [
+      /\bbase64\s+(?:-d|-D|--decode)\b/,
+      /[A-Za-z0-9+/]{120,}={0,2}/,
+      /(?:\\x[0-9a-fA-F]{2}){8,}/,
+    ],
+  },
+  {
+    rule: 'write-outside-project',
+    severity: 'medium',
+    patterns: [
+      /(?:>>?|\btee\b(?:\s+-a)?)\s*["']?(?:~|\$HOME\b|\$\{HOME\}|\/(?!dev\/null\b|tmp\/))/,
+      /\b(?:cp|mv|ln|install)\b[^\n;|&]*\s["']?(?:~\/|\$HOME\/|\/(?:etc|usr|bin|opt|Library|System)\/)/,
+    ],
+  },
+  {
+    rule: 'network',
+    severity: 'medium',
+    patterns: [/\b(?:curl|wget|nc|ncat|netcat|ssh|scp|rsync|ftp|telnet|npx|uvx)\b/, /\bhttps?:\/\//],
+  },
+];
+
+/** 檢查一段指令文字，回傳命中的規則 */
+export function matchSecurityRules(text: string): Array<Pick<SecurityRule, 'rule' | 'severity'>> {
+  return SECURITY_RULES
+    .filter(({ patterns }) => patterns.some((pattern) => pattern.test(text)))
+    .map(({ rule, severity }) => ({ rule, severity }));
+}
+
+/** 讀取 `.mcp.json` 的 server 啟動指令 / URL；檔案不存在、逃出 plugin 目錄或格式錯誤時回傳空陣列 */
+export async function readPluginMcpCommands(pluginDir: string): Promise<PluginMcpCommand[]> {
+  const mcpPath = join(pluginDir, '.mcp.json');
+  if (!(await isRealPathWithinDirectory(pluginDir, mcpPath))) return [];
+  let servers: Record<string, unknown>;
+  try {
+    servers = unwrapMcpServers(await readJsonFile<Record<string, unknown>>(mcpPath, {}));
+  } catch {
+    return [];
+  }
+  return Object.entries(servers).map(([name, config]) => {
+    const cfg = (typeof config === 'object' && config !== null ? config : {}) as Record<string, unknown>;
+    return {
+      name,
+      ...(typeof cfg.command === 'string' ? { command: cfg.command } : {}),
+      ...(Array.isArray(cfg.args) ? { args: cfg.args.filter((a): a is string => typeof a === 'string') } : {}),
+      ...(typeof cfg.url === 'string' ? { url: cfg.url } : {}),
+    };
+  });
+}
+
+/**
+ * 靜態分析 hook commands、shell scripts（逐行）與 MCP server 指令。
+ * 同時回傳所有被分析內容的 hash（無 gitCommitSha 時作為 review key）。
+ */
+export async function analyzePluginExecutables(
+  pluginDir: string,
+  executables: PluginExecutables,
+  mcpServers: PluginMcpCommand[],
+): Promise<{ findings: PluginSecurityFinding[]; contentHash: string }> {
+  const findings: PluginSecurityFinding[] = [];
+  const hash = createHash('sha256');
+  const collect = (source: PluginSecurityFinding['source'], location: string, text: string): void => {
+    for (const { rule, severity } of matchSecurityRules(text)) {
+      findings.push({ rule, severity, source, location, excerpt: toExcerpt(text) });
+    }
+  };
+
+  for (const hook of executables.hookCommands) {
+    hash.update(`hook\0${hook.event}\0${hook.matcher ?? ''}\0${hook.command}\0`);
+    collect('hook', hook.matcher ? `${hook.event} (${hook.matcher})` : hook.event, hook.command);
+  }
+
+  for (const script of executables.scripts) {
+    const content = await readScriptHead(join(pluginDir, script));
+    hash.update(`script\0${script}\0${content}\0`);
+    const seen = new Set<PluginSecurityRule>();
+    content.split('\n').forEach((line, index) => {
+      if (line.trimStart().startsWith('#')) return;
+      for (const { rule, severity } of matchSecurityRules(line)) {
+        if (seen.has(rule)) continue;
+        seen.add(rule);
+        findings.push({ rule, severity, source: 'script', location: `${script}:${index + 1}`, excerpt: toExcerpt(line) });
+      }
+    });
+  }
+
+  for (const server of mcpServers) {
+    const text = server.url ?? [server.command ?? '', ...(server.args ?? [])].join(' ').trim();
+    hash.update(`mcp\0${server.name}\0${text}\0`);
+    collect('mcp', server.name, text);
+  }
+
+  const order = (f: PluginSecurityFinding): number => (f.severity === 'high' ? 0 : 1);
+  findings.sort((a, b) => order(a) - order(b));
+  return { findings, contentHash: hash.digest('hex') };
+}
+
+/** 讀取 script 前 MAX_SCRIPT_BYTES；讀取失敗回傳空字串 */
+async function readScriptHead(filePath: string): Promise<string> {
+  let handle;
+  try {
+    handle = await open(filePath, 'r');
+    const buffer = Buffer.alloc(MAX_SCRIPT_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, MAX_SCRIPT_BYTES, 0);
+    return buffer.subarray(0, bytesRead).toString('utf-8');
+  } catch {
+    return '';
+  } finally {
+    await handle?.close();
+  }
+}
+
+function toExcerpt(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_EXCERPT_LENGTH ? `${trimmed.slice(0, MAX_EXCERPT_LENGTH)}…` : trimmed;
+}
@@ -0,0 +1,133 @@
+import { cp, mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, isAbsolute, join, normalize, relative, resolve } from 'path';
+import type { PluginSourceOrigin } from '../../shared/types';
+import { expandTildePath } from '../utils/pathUtils';
+import { readJsonFile } from '../utils/jsonFile';
+import { readGitHead, runGit } from '../utils/git';
+import { isRealPathWithinDirectory } from './PluginCatalogScanner';
+
+/** 不經 marketplace 安裝的 plugin 掛在這個虛擬 marketplace 下（pluginId 為 `<name>@direct`） */
+export const SOURCE_INSTALL_MARKETPLACE = 'direct';
+
+/** Git clone timeout (60s — shallow clone) */
+const GIT_CLONE_TIMEOUT_MS = 60_000;
+
+/** owner/repo 格式（無 protocol、無 .git suffix） */
+const GITHUB_SHORTHAND_RE = /^[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+$/;
+
+/** git clone 可接受的 URL（https / ssh / git / file protocol 或 scp 形式） */
+const GIT_URL_RE = /^(?:(?:https?|ssh|git|file):\/\/|[\w.-]+@[\w.-]+:)/;
+
+/** plugin.json name：與 `<plugin>@<marketplace>` id 相容 */
+const PLUGIN_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/;
+
+/** plugin.json version：會成為 cache 目錄名稱，只允許單一安全路徑片段 */
+const PLUGIN_VERSION_RE = /^[a-zA-Z0-9][a-zA-Z0-9._+-]*$/;
+
+/** 取得到本地的 source 目錄；cleanup 移除 clone 用的 temp dir */
+export interface FetchedPluginSource {
+  rootDir: string;
+  pluginDir: string;
+  gitCommitSha?: string;
+  cleanup: () => Promise<void>;
+}
+
+/** 解析使用者輸入的 source：`owner/repo`、git URL 或本地目錄（`/`、`~`、`.` 開頭） */
+export function parsePluginSource(input: string, subdir?: string): PluginSourceOrigin {
+  const source = input.trim();
+  if (!source) {
+    throw new Error('Source is required.');
+  }
+  const normalizedSubdir = normalizeSubdir(subdir);
+  const withSubdir = normalizedSubdir ? { subdir: normalizedSubdir } : {};
+
+  if (/^[/~.]/.test(source)) {
+    const dir = resolve(expandTildePath(source));
+    return { type: 'local', source: dir, ...withSubdir };
+  }
+  if (GITHUB_SHORTHAND_RE.test(source)) {
+    return { type: 'github', source: source.replace(/\.git$/, ''), ...withSubdir };
+  }
+  if (GIT_URL_RE.test(source)) {
+    return { type: 'git', source, ...withSubdir };
+  }
+  throw new Error(`Unrecognized source "${source}". Use owner/repo, a git URL or a local directory.`);
+}
+
+/** subdir 僅允許相對路徑且不可跳出 source root */
+function normalizeSubdir(subdir?: string): string | undefined {
+  const trimmed = subdir?.trim().replace(/^\.\/+/, '').replace(/\/+$/, '');
+  if (!trimmed) return undefined;
+  const normalized = normalize(trimmed);
+  if (isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Subdirectory must stay inside the source: "${subdir}"`);
+  }
+  return normalized === '.' ? undefined : normalized;
+}
+
+/** 本地目錄直接使用；git source shallow clone 到 temp dir */
+export async function fetchPluginSource(origin: PluginSourceOrigin): Promise<FetchedPluginSource> {
+  let rootDir: string;
+  let gitCommitSha: string | undefined;
+  let cleanup = async (): Promise<void> => {};
+
+  if (origin.type === 'local') {
+    if (!(await stat(origin.source).then((s) => s.isDirectory(), () => false))) {
+      throw new Error(`Directory not found: ${origin.source}`);
+    }
+    rootDir = origin.source;
+    gitCommitSha = await readGitHead(rootDir);
+  } else {
+    const url = origin.type === 'github' ? `https://github.com/${origin.source}.git` : origin.source;
+    const tempDir = await mkdtemp(join(tmpdir(), 'plugin-source-'));
+    cleanup = () => rm(tempDir, { recursive: true, force: true }).catch(() => {});
+    try {
+      await runGit(tempDir, ['clone', '--depth', '1', '--', url, tempDir], GIT_CLONE_TIMEOUT_MS);
+    } catch (err) {
+      await cleanup();
+      throw err;
+    }
+    rootDir = tempDir;
+    gitCommitSha = await readGitHead(tempDir);
+  }
+
+  const pluginDir = origin.subdir ? join(rootDir, origin.subdir) : rootDir;
+  const isDir = await stat(pluginDir).then((s) => s.isDirectory(), () => false);
+  if (!isDir || !(await isRealPathWithinDirectory(rootDir, pluginDir))) {
+    await cleanup();
+    throw new Error(`Subdirectory not found in source: ${origin.subdir}`);
+  }
+  return { rootDir, pluginDir, ...(gitCommitSha ? { gitCommitSha } : {}), cleanup };
+}
+
+/** 讀取並驗證 `.claude-plugin/plugin.json` 的 name / version；version 不是安全路徑片段時忽略（由呼叫端 fallback） */
+export async function readSourcePluginManifest(pluginDir: string): Promise<{ name: string; version?: string }> {
+  const manifestPath = join(pluginDir, '.claude-plugin', 'plugin.json');
+  if (!(await isRealPathWithinDirectory(pluginDir, manifestPath))) {
+    throw new Error(`Not a plugin: ${basename(pluginDir)} has no .claude-plugin/plugin.json`);
+  }
+  const raw = await readJsonFile<unknown>(manifestPath, null);
+  if (raw === null) {
+    throw new Error(`Not a plugin: ${basename(pluginDir)} has no .claude-plugin/plugin.json`);
+  }
+  const { name, version } = (typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  if (typeof name !== 'string' || !PLUGIN_NAME_RE.test(name)) {
+    throw new Error('.claude-plugin/plugin.json must have a "name" of letters, digits, dots, dashes or underscores.');
+  }
+  return { name, ...(typeof version === 'string' && PLUGIN_VERSION_RE.test(version) ? { version } : {}) };
+}
+
+/** 複製 plugin 目錄到 cache（覆寫既有內容，不含 .git）；destDir 必須位於 cacheDir 之下 */
+export async function copyPluginToCache(pluginDir: string, destDir: string, cacheDir: string): Promise<void> {
+  const root = resolve(pluginDir);
+  const rel = relative(resolve(cacheDir), resolve(destDir));
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Refusing to write outside the plugin cache: ${destDir}`);
+  }
+  await rm(destDir, { recursive: true, force: true });
+  await cp(root, destDir, {
+    recursive: true,
+    filter: (src) => resolve(src) !== join(root, '.git'),
+  });
+}
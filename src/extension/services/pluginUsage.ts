@@ -0,0 +1,261 @@
+import { open, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import type { PluginContents, PluginUsageStats } from '../../shared/types';
+
+/** 「最近使用次數」的統計區間 */
+export const USAGE_WINDOW_DAYS = 30;
+
+/** 每次讀取 transcript 的 chunk 大小 */
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 單一 invocation key 的使用紀錄；days 只保留統計區間內的每日次數 */
+export interface UsageInvocation {
+  lastUsed: string;
+  days: Record<string, number>;
+}
+
+/**
+ * plugin_usage.json：transcript 掃描進度與彙總結果。
+ * files 為每個 transcript 已處理的 byte offset（只計入完整的行）；
+ * invocations key 為 `command:<name>`、`skill:<name>`、`agent:<name>`、`mcp:<server>`。
+ */
+export interface PluginUsageIndex {
+  files: Record<string, number>;
+  invocations: Record<string, UsageInvocation>;
+}
+
+export function createEmptyUsageIndex(): PluginUsageIndex {
+  return { files: {}, invocations: {} };
+}
+
+/**
+ * 增量掃描 projectsDir 下所有 `.jsonl` transcript（含子目錄），從上次的 offset 繼續讀取。
+ * 檔案變小（被改寫）時從頭重讀；已刪除的檔案移除 cursor，但保留已統計的使用紀錄。
+ */
+export async function scanTranscripts(
+  projectsDir: string,
+  index: PluginUsageIndex,
+  now = new Date(),
+): Promise<PluginUsageIndex> {
+  const files = await listTranscripts(projectsDir);
+  const cursors: Record<string, number> = {};
+
+  for (const file of files) {
+    const size = await stat(file).then((s) => s.size, () => null);
+    if (size === null) continue;
+    const previous = index.files[file] ?? 0;
+    const start = previous <= size ? previous : 0;
+    cursors[file] = start === size
+      ? start
+      : await readTranscript(file, start, size, (line) => recordLine(index, line));
+  }
+
+  index.files = cursors;
+  pruneUsageDays(index, now);
+  return index;
+}
+
+/** 遞迴列出 `.jsonl` 檔（不跟隨 symlink） */
+async function listTranscripts(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const nested = await Promise.all(entries.map(async (entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return listTranscripts(path);
+    return entry.isFile() && entry.name.endsWith('.jsonl') ? [path] : [];
+  }));
+  return nested.flat();
+}
+
+/** 從 start 讀到 end，逐行回呼；回傳最後一個完整行之後的 offset（未寫完的行留待下次） */
+async function readTranscript(
+  file: string,
+  start: number,
+  end: number,
+  onLine: (line: string) => void,
+): Promise<number> {
+  const handle = await open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+    let position = start;
+    let consumed = start;
+    let pending = Buffer.alloc(0);
+
+    while (position < end) {
+      const { bytesRead } = await handle.read(buffer, 0, Math.min(READ_CHUNK_BYTES, end - position), position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      let chunk = Buffer.concat([pending, buffer.subarray(0, bytesRead)]);
+      let newline = chunk.indexOf(0x0a);
+      while (newline !== -1) {
+        onLine(chunk.subarray(0, newline).toString('utf-8'));
+        consumed += newline + 1;
+        chunk = chunk.subarray(newline + 1);
+        newline = chunk.indexOf(0x0a);
+      }
+      pending = Buffer.from(chunk);
+    }
+    return consumed;
+  } finally {
+    await handle.close();
+  }
+}
+
+function recordLine(index: PluginUsageIndex, line: string): void {
+  // 大部分行是一般對話內容，先用字串比對略過再 parse
+  if (!line.includes('"tool_use"') && !line.includes('<command-name>')) return;
+  let entry: unknown;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return;
+  }
+  const timestamp = (entry as { timestamp?: unknown }).timestamp;
+  if (typeof timestamp !== 'string' || Number.isNaN(Date.parse(timestamp))) return;
+
+  for (const key of extractInvocationKeys(entry)) {
+    const usage = index.invocations[key] ?? { lastUsed: timestamp, days: {} };
+    if (timestamp > usage.lastUsed) usage.lastUsed = timestamp;
+    const day = timestamp.slice(0, 10);
+    usage.days[day] = (usage.days[day] ?? 0) + 1;
+    index.invocations[key] = usage;
+  }
+}
+
+/**
+ * 從單一 transcript entry 取出 invocation keys：
+ * - assistant tool_use：`Skill`（skill）、`Task` / `Agent`（subagent_type）、`SlashCommand`、`mcp__<server>__<tool>`
+ * - user 訊息中的 `<command-name>/name</command-name>`（使用者輸入的 slash command）
+ */
+export function extractInvocationKeys(entry: unknown): string[] {
+  if (typeof entry !== 'object' || entry === null) return [];
+  const { type, message } = entry as { type?: unknown; message?: { content?: unknown } };
+  const content = message?.content;
+  const keys: string[] = [];
+
+  if (type === 'assistant' && Array.isArray(content)) {
+    for (const block of content) {
+      if (block?.type !== 'tool_use' || typeof block.name !== 'string') continue;
+      const input = (typeof block.input === 'object' && block.input !== null ? block.input : {}) as Record<string, unknown>;
+      if (block.name.startsWith('mcp__')) {
+        const server = block.name.split('__')[1];
+        if (server) keys.push(`mcp:${server}`);
+      } else if (block.name === 'Skill') {
+        const skill = input.skill ?? input.command;
+        if (typeof skill === 'string' && skill) keys.push(`skill:${skill}`);
+      } else if (block.name === 'Task' || block.name === 'Agent') {
+        if (typeof input.subagent_type === 'string' && input.subagent_type) keys.push(`agent:${input.subagent_type}`);
+      } else if (block.name === 'SlashCommand' && typeof input.command === 'string') {
+        const command = input.command.trim().split(/\s+/)[0]?.replace(/^\//, '');
+        if (command) keys.push(`command:${command}`);
+      }
+    }
+  }
+
+  if (type === 'user') {
+    const texts = typeof content === 'string'
+      ? [content]
+      : Array.isArray(content)
+        ? content.filter((block) => block?.type === 'text' && typeof block.text === 'string').map((block) => block.text as string)
+        : [];
+    for (const text of texts) {
+      for (const match of text.matchAll(/<command-name>\/?([^<\s]+)<\/command-name>/g)) {
+        keys.push(`command:${match[1]}`);
+      }
+    }
+  }
+  return keys;
+}
+
+/** 移除統計區間外的每日次數（lastUsed 永久保留） */
+function pruneUsageDays(index: PluginUsageIndex, now: Date): void {
+  const cutoff = windowStartDay(now);
+  for (const usage of Object.values(index.invocations)) {
+    for (const day of Object.keys(usage.days)) {
+      if (day < cutoff) delete usage.days[day];
+    }
+  }
+}
+
+function windowStartDay(now: Date): string {
+  return new Date(now.getTime() - (USAGE_WINDOW_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** commands / skills / agents 的 invocation 名稱（kind 與未加 namespace 的 name） */
+function invocationNames(contents: PluginContents): Array<{ kind: string; name: string }> {
+  const names = (kind: string, items: { name: string }[]) => items.map(({ name }) => ({ kind, name }));
+  return [
+    ...names('command', contents.commands),
+    ...names('skill', contents.skills),
+    // skill 也可用 slash command 觸發
+    ...names('command', contents.skills),
+    ...names('agent', contents.agents),
+  ];
+}
+
+/**
+ * 多個 plugin 都有的未加 namespace invocation key（如兩個 plugin 都有 `review` command 時的 `command:review`）。
+ * 這類 invocation 無法判斷屬於哪個 plugin，不計入任何一個。
+ */
+export function findSharedInvocationKeys(plugins: PluginContents[]): Set<string> {
+  const owners = new Map<string, number>();
+  for (const contents of plugins) {
+    for (const key of new Set(invocationNames(contents).map(({ kind, name }) => `${kind}:${name}`))) {
+      owners.set(key, (owners.get(key) ?? 0) + 1);
+    }
+  }
+  return new Set([...owners].filter(([, count]) => count > 1).map(([key]) => key));
+}
+
+/**
+ * plugin 的 commands / skills / agents / MCP servers 可能出現的 invocation keys。
+ * 接受 `<plugin>:<name>`；未加 namespace 的名稱只在不屬於 sharedKeys 時計入。
+ * plugin MCP server 在 tool name 中為 `plugin_<plugin>_<server>`。
+ */
+export function pluginInvocationKeys(
+  pluginName: string,
+  contents: PluginContents,
+  sharedKeys: ReadonlySet<string>,
+): string[] {
+  return [...new Set([
+    ...invocationNames(contents).flatMap(({ kind, name }) => [
+      `${kind}:${pluginName}:${name}`,
+      ...(sharedKeys.has(`${kind}:${name}`) ? [] : [`${kind}:${name}`]),
+    ]),
+    ...contents.mcpServers.map((server) => `mcp:${toMcpToolSegment(`plugin_${pluginName}_${server}`)}`),
+  ])];
+}
+
+/** Claude Code 組 MCP tool name 時會把非英數、`_`、`-` 的字元換成 `_` */
+function toMcpToolSegment(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/** 彙總 plugin 的最後使用時間與統計區間內的使用次數；sharedKeys 見 findSharedInvocationKeys */
+export function summarizePluginUsage(
+  pluginName: string,
+  contents: PluginContents,
+  index: PluginUsageIndex,
+  sharedKeys: ReadonlySet<string>,
+  now = new Date(),
+): PluginUsageStats {
+  const cutoff = windowStartDay(now);
+  let lastUsed: string | undefined;
+  let recentUses = 0;
+  for (const key of pluginInvocationKeys(pluginName, contents, sharedKeys)) {
+    const usage = index.invocations[key];
+    if (!usage) continue;
+    if (!lastUsed || usage.lastUsed > lastUsed) lastUsed = usage.lastUsed;
+    for (const [day, count] of Object.entries(usage.days)) {
+      if (day >= cutoff) recentUses += count;
+    }
+  }
+  return { ...(lastUsed ? { lastUsed } : {}), recentUses };
+}
@@ -10,3 +10,26 @@ export class CommandError extends Error {
     this.name = this.constructor.name;
   }
 }
+
+/** 使用者透過 `operation.cancel` 取消的長時間操作 */
+export class OperationCancelledError extends Error {
+  constructor(message = 'Operation cancelled') {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+/** install / enable 前的安全審查未獲使用者確認 */
+export class SecurityReviewDeclinedError extends Error {
+  constructor(public readonly pluginIds: string[]) {
+    super(`Security review not confirmed for ${pluginIds.join(', ')}`);
+    this.name = this.constructor.name;
+  }
+}
+
+/** signal 已 abort 時拋出 OperationCancelledError（多階段操作在階段之間檢查） */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+}
@@ -0,0 +1,23 @@
+import { execFile } from 'child_process';
+
+/** 本地 git 指令（rev-parse / checkout / log）timeout */
+export const GIT_LOCAL_TIMEOUT_MS = 5_000;
+
+/** 在 dir 執行 git 指令，回傳 trimmed stdout；失敗時以 stderr 為訊息 reject */
+export function runGit(dir: string, args: string[], timeout = GIT_LOCAL_TIMEOUT_MS): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', ['-C', dir, ...args], { timeout }, (err, stdout, stderr) => {
+      if (err) {
+        const detail = String(stderr ?? '').trim();
+        reject(new Error(detail ? `git ${args[0]} failed: ${detail}` : err.message));
+        return;
+      }
+      resolve(String(stdout ?? '').trim());
+    });
+  });
+}
+
+/** 讀取 git clone 的 HEAD commit；非 git 目錄（如本地路徑 marketplace）回傳 undefined */
+export async function readGitHead(dir: string): Promise<string | undefined> {
+  return runGit(dir, ['rev-parse', 'HEAD']).then((sha) => sha || undefined, () => undefined);
+}
@@ -20,16 +20,23 @@ export interface SpawnOptions {
   cwd?: string;
   timeout: number;
   maxBuffer?: number;
+  /** abort 時 SIGTERM child process，reject `code: 'ABORT_ERR'` */
+  signal?: AbortSignal;
 }
 
 const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024;
 
-/** 執行 child process 並回傳 stdout/stderr，逾時後 SIGTERM。reject 一個 SpawnError plain object（非 Error instance）。 */
+/** 執行 child process 並回傳 stdout/stderr，逾時或 signal abort 後 SIGTERM。reject 一個 SpawnError plain object（非 Error instance）。 */
 export function spawnWithTimeout(options: SpawnOptions): Promise<SpawnResult> {
-  const { command, args, env, cwd, timeout } = options;
+  const { command, args, env, cwd, timeout, signal } = options;
   const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
 
   return new Promise<SpawnResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject({ code: 'ABORT_ERR', stderr: '', message: 'Command was cancelled' } satisfies SpawnError);
+      return;
+    }
+
     const child = spawn(command, args, {
       cwd,
       env,
@@ -47,6 +54,7 @@ export function spawnWithTimeout(options: SpawnOptions): Promise<SpawnResult> {
       if (settled) return;
       settled = true;
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       resolve({ stdout: stdoutValue.trim(), stderr: stderrValue });
     };
 
@@ -54,6 +62,7 @@ export function spawnWithTimeout(options: SpawnOptions): Promise<SpawnResult> {
       if (settled) return;
       settled = true;
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       reject(error);
     };
 
@@ -123,5 +132,12 @@ export function spawnWithTimeout(options: SpawnOptions): Promise<SpawnResult> {
       timedOut = true;
       child.kill('SIGTERM');
     }, timeout);
+
+    // 先 reject 再 kill：close 事件會因 settled 而忽略
+    function onAbort(): void {
+      finishReject({ code: 'ABORT_ERR', stderr, message: 'Command was cancelled' });
+      child.kill('SIGTERM');
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getSourceFormat,
+  validateMarketplacePluginEntries,
+  validateMarketplacePluginEntry,
+} from '../marketplaceManifest';
+import type { MarketplacePluginEntry } from '../types';
+
+function entry(source: MarketplacePluginEntry['source'], name = 'my-plugin'): MarketplacePluginEntry {
+  return { name, source };
+}
+
+describe('getSourceFormat', () => {
+  it('依 source 判斷 6 種格式', () => {
+    expect(getSourceFormat('./plugins/a')).toBe('local-internal');
+    expect(getSourceFormat('./external_plugins/a')).toBe('local-external');
+    expect(getSourceFormat({ source: 'github', repo: 'o/r' })).toBe('github');
+    expect(getSourceFormat({ source: 'url', url: 'https://x/r.git' })).toBe('url');
+    expect(getSourceFormat({ source: 'url', url: 'https://x/r.git', path: 'p' })).toBe('url-subdir');
+    expect(getSourceFormat({ source: 'git-subdir', url: 'https://x/r.git', path: 'p' })).toBe('git-subdir');
+    expect(getSourceFormat({ source: 'npm', package: 'x' })).toBeUndefined();
+  });
+});
+
+describe('validateMarketplacePluginEntry', () => {
+  it('6 種格式的合法 entry 回傳 null', () => {
+    const sources: MarketplacePluginEntry['source'][] = [
+      './plugins/my-plugin',
+      './external_plugins/my-plugin',
+      { source: 'github', repo: 'owner/repo', ref: 'v1' },
+      { source: 'url', url: 'https://example.com/repo.git' },
+      { source: 'url', url: 'https://example.com/repo.git', path: 'plugins/a' },
+      { source: 'git-subdir', url: 'https://example.com/repo.git', path: 'plugins/a' },
+    ];
+    for (const source of sources) {
+      expect(validateMarketplacePluginEntry(entry(source))).toBeNull();
+    }
+  });
+
+  it('名稱為空、含空白或 @ → 錯誤', () => {
+    for (const name of ['', 'my plugin', 'a@b']) {
+      expect(validateMarketplacePluginEntry(entry('./plugins/a', name))).toMatch(/^Name is required/);
+    }
+  });
+
+  it('local source 必須以 ./ 開頭且不可逃出 marketplace', () => {
+    expect(validateMarketplacePluginEntry(entry('plugins/a'))).toMatch(/^Local source/);
+    expect(validateMarketplacePluginEntry(entry('./plugins/../../x'))).toMatch(/^Local source/);
+    expect(validateMarketplacePluginEntry(entry('./'))).toMatch(/^Local source/);
+  });
+
+  it('遠端 source 缺必要欄位 → 對應錯誤', () => {
+    expect(validateMarketplacePluginEntry(entry({ source: 'github', repo: 'no-slash' }))).toMatch(/^GitHub source/);
+    expect(validateMarketplacePluginEntry(entry({ source: 'url', url: ' ' }))).toMatch(/^URL source/);
+    expect(validateMarketplacePluginEntry(entry({ source: 'git-subdir', url: 'https://x/r.git' })))
+      .toMatch(/needs a subdirectory path/);
+    expect(validateMarketplacePluginEntry(entry({ source: 'url', url: 'https://x/r.git', path: '../up' })))
+      .toMatch(/^Subdirectory must be/);
+    expect(validateMarketplacePluginEntry(entry({ source: 'npm', package: 'x' })))
+      .toBe('Unsupported source type "npm"');
+  });
+
+  it('version 非字串 → 錯誤', () => {
+    expect(validateMarketplacePluginEntry({ ...entry('./plugins/a'), version: 1 as unknown as string }))
+      .toBe('Version must be a string');
+  });
+});
+
+describe('validateMarketplacePluginEntries', () => {
+  it('回傳與 entries 對應的錯誤，重複名稱標在後出現的 entry', () => {
+    expect(validateMarketplacePluginEntries([
+      entry('./plugins/a', 'a'),
+      entry('./plugins/b', 'b'),
+      entry('./plugins/a2', 'a'),
+      entry('bad', 'c'),
+    ])).toEqual([
+      null,
+      null,
+      'Duplicate plugin name "a"',
+      expect.stringMatching(/^Local source/),
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { estimatePluginTokens, estimateTextTokens, MCP_SERVER_TOKEN_ESTIMATE } from '../pluginTokenEstimate';
+
+function item(name: string, description: string) {
+  return { name, description, path: `/p/${name}.md` };
+}
+
+describe('estimateTextTokens', () => {
+  it('約每 4 個字元 1 token（無條件進位）', () => {
+    expect(estimateTextTokens('')).toBe(0);
+    expect(estimateTextTokens('abcd')).toBe(1);
+    expect(estimateTextTokens('abcde')).toBe(2);
+  });
+});
+
+describe('estimatePluginTokens', () => {
+  it('依元件分類估計：名稱 + description + 每項格式開銷，MCP server 以固定值計', () => {
+    const estimate = estimatePluginTokens({
+      commands: [item('review', 'Review the current diff')],
+      skills: [item('pdf', 'a'.repeat(400)), item('xlsx', '')],
+      agents: [],
+      mcpServers: ['github', 'sentry'],
+    });
+
+    expect(estimate).toEqual({
+      commands: 8 + 2 + 6,
+      skills: (8 + 1 + 100) + (8 + 1 + 0),
+      agents: 0,
+      mcpServers: 2 * MCP_SERVER_TOKEN_ESTIMATE,
+      total: 16 + 118 + 2 * MCP_SERVER_TOKEN_ESTIMATE,
+    });
+  });
+
+  it('沒有任何元件 → 0', () => {
+    expect(estimatePluginTokens({ commands: [], skills: [], agents: [], mcpServers: [] }).total).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+import type { MarketplacePluginEntry, SourceFormatType } from './types';
+
+/** plugin 名稱不可含空白或 `@`（`@` 是 `<plugin>@<marketplace>` id 的分隔符） */
+const PLUGIN_NAME_RE = /^[^\s@]+$/;
+
+/** GitHub `owner/repo` */
+const GITHUB_REPO_RE = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+
+/** 依 marketplace.json 的 plugin source 欄位判斷來源格式 */
+export function getSourceFormat(source: string | Record<string, unknown>): SourceFormatType | undefined {
+  if (typeof source === 'string') {
+    return source.includes('external_plugins') ? 'local-external' : 'local-internal';
+  }
+  if (typeof source === 'object' && source !== null) {
+    const src = source.source;
+    if (src === 'github') return 'github';
+    if (src === 'git-subdir') return 'git-subdir';
+    if (src === 'url') return typeof source.path === 'string' ? 'url-subdir' : 'url';
+  }
+  return undefined;
+}
+
+/** 相對路徑不得為絕對路徑或含 `..` segment（不可逃出 marketplace / repo） */
+function isSafeRelativePath(value: string): boolean {
+  if (!value || value.startsWith('/') || /^[A-Za-z]:/.test(value)) return false;
+  return !value.split(/[\\/]/).includes('..');
+}
+
+/** 驗證單一 marketplace.json plugin entry，合法時回傳 null，否則回傳錯誤訊息 */
+export function validateMarketplacePluginEntry(entry: MarketplacePluginEntry): string | null {
+  if (typeof entry.name !== 'string' || !PLUGIN_NAME_RE.test(entry.name)) {
+    return 'Name is required and cannot contain spaces or "@"';
+  }
+  if (entry.version !== undefined && typeof entry.version !== 'string') {
+    return 'Version must be a string';
+  }
+
+  const { source } = entry;
+  if (typeof source === 'string') {
+    if (!source.startsWith('./') || !isSafeRelativePath(source.slice(2))) {
+      return 'Local source must be a relative path starting with "./" inside the marketplace';
+    }
+    return null;
+  }
+  if (typeof source !== 'object' || source === null) {
+    return 'Source is required';
+  }
+
+  const str = (key: string): string => (typeof source[key] === 'string' ? (source[key] as string).trim() : '');
+  const subPath = source.path;
+  if (subPath !== undefined && (typeof subPath !== 'string' || !isSafeRelativePath(subPath))) {
+    return 'Subdirectory must be a relative path without ".."';
+  }
+  switch (source.source) {
+    case 'github':
+      return GITHUB_REPO_RE.test(str('repo')) ? null : 'GitHub source needs a repo in "owner/repo" form';
+    case 'url':
+      return str('url') ? null : 'URL source needs a git URL';
+    case 'git-subdir':
+      if (!str('url') && !str('repo')) return 'Git subdirectory source needs a git URL';
+      return str('path') ? null : 'Git subdirectory source needs a subdirectory path';
+    default:
+      return `Unsupported source type ${JSON.stringify(source.source ?? null)}`;
+  }
+}
+
+/** 驗證整份 plugins 陣列；回傳與 entries 對應的錯誤訊息（null = 合法），含重複名稱檢查 */
+export function validateMarketplacePluginEntries(entries: MarketplacePluginEntry[]): Array<string | null> {
+  const seen = new Set<string>();
+  return entries.map((entry) => {
+    const error = validateMarketplacePluginEntry(entry);
+    if (error) return error;
+    if (seen.has(entry.name)) return `Duplicate plugin name "${entry.name}"`;
+    seen.add(entry.name);
+    return null;
+  });
+}
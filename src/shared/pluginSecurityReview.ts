@@ -0,0 +1,11 @@
+import type { PluginSecurityReport } from './types';
+
+/**
+ * 有可執行內容（或來源無法審查）且尚未確認時，install / enable 前需要使用者確認。
+ * webview 的審查 dialog 與 extension 的 PluginService 安全閘門共用此判斷。
+ */
+export function needsSecurityAcknowledgement(report: PluginSecurityReport): boolean {
+  if (report.acknowledged) return false;
+  if (!report.sourceAvailable) return true;
+  return report.hookCommands.length + report.scripts.length + report.mcpServers.length > 0;
+}
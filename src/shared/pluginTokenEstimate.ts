@@ -0,0 +1,43 @@
+import type { PluginContentItem, PluginContents, PluginTokenEstimate } from './types';
+
+/** 英文文字平均每 token 約 4 個字元 */
+const CHARS_PER_TOKEN = 4;
+
+/** 每個 command / skill / agent 在清單中的格式開銷（bullet、plugin 前綴、分隔符） */
+const ITEM_OVERHEAD_TOKENS = 8;
+
+/**
+ * 每個 MCP server 的 tool 清單（名稱、描述、input schema）估計值。
+ * 實際 tool 數量需連線才知道，以常見 server 約 5 個 tools 的中位數估算。
+ */
+export const MCP_SERVER_TOKEN_ESTIMATE = 1_500;
+
+/** 比對用的 context window 大小（預算計量條的分母） */
+export const CONTEXT_WINDOW_TOKENS = 200_000;
+
+/** 粗估文字的 token 數 */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateItemsTokens(items: PluginContentItem[]): number {
+  return items.reduce(
+    (sum, item) => sum + ITEM_OVERHEAD_TOKENS + estimateTextTokens(item.name) + estimateTextTokens(item.description),
+    0,
+  );
+}
+
+/**
+ * 估計 plugin 啟用後常駐 context 的 token 數：
+ * command / skill / agent 的名稱與 frontmatter description，加上每個 MCP server 的 tool 清單。
+ * hooks 只在觸發時執行，不計入。
+ */
+export function estimatePluginTokens(
+  contents: Pick<PluginContents, 'commands' | 'skills' | 'agents' | 'mcpServers'>,
+): PluginTokenEstimate {
+  const commands = estimateItemsTokens(contents.commands);
+  const skills = estimateItemsTokens(contents.skills);
+  const agents = estimateItemsTokens(contents.agents);
+  const mcpServers = contents.mcpServers.length * MCP_SERVER_TOKEN_ESTIMATE;
+  return { commands, skills, agents, mcpServers, total: commands + skills + agents + mcpServers };
+}
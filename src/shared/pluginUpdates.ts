@@ -0,0 +1,16 @@
+/**
+ * marketplace 的 lastUpdated 晚於所有已安裝 entry 中最新的 lastUpdated 時視為有更新。
+ * webview 的 hasPluginUpdate 與 extension 的 PluginService.updateAll 共用此判斷。
+ */
+export function isUpdateAvailable(
+  availableLastUpdated: string | undefined,
+  installedDates: ReadonlyArray<string | undefined>,
+): boolean {
+  if (!availableLastUpdated) return false;
+  const dates = installedDates.filter(Boolean) as string[];
+  if (dates.length === 0) return false;
+  const latestInstalledMs = dates
+    .map((d) => new Date(d).getTime())
+    .reduce((a, b) => Math.max(a, b));
+  return new Date(availableLastUpdated).getTime() > latestInstalledMs;
+}
@@ -31,6 +31,12 @@ export interface Marketplace {
   installLocation: string;
   lastUpdated?: string;
   autoUpdate: boolean;
+  /** 釘選的 git branch / tag / commit（未釘選為 undefined） */
+  pinnedRef?: string;
+  /** clone 目前的 HEAD commit（git/github source 才有） */
+  headSha?: string;
+  /** workspace 內的 directory marketplace，可在 UI 編輯 marketplace.json */
+  editable?: boolean;
 }
 
 export type MarketplaceReinstallPhase =
@@ -39,6 +45,7 @@ export type MarketplaceReinstallPhase =
   | 'addingMarketplaces'
   | 'restoringSettings'
   | 'restoringPlugins'
+  | 'rollingBack'
   | 'completed';
 
 export interface MarketplaceReinstallProgress {
@@ -48,9 +55,277 @@ export interface MarketplaceReinstallProgress {
   detail?: string;
 }
 
+/** 重裝後還原失敗的 plugin */
+export interface PluginRestoreFailure {
+  pluginId: string;
+  scope: PluginScope;
+  error: string;
+}
+
+/** 單一 marketplace 重裝結果 */
+export interface MarketplaceReinstallResult {
+  name: string;
+  /** 成功重裝回來的 plugin install entry 數 */
+  restored: number;
+  failed: PluginRestoreFailure[];
+}
+
+/** 單一類別 plugin 元件（commands/skills/agents/MCP）的增減 */
+export interface PluginContentsListDiff {
+  added: string[];
+  removed: string[];
+}
+
+/** marketplace 更新前後，同一 plugin 的差異 */
+export interface MarketplacePluginChange {
+  pluginId: string;
+  name: string;
+  fromVersion?: string;
+  toVersion?: string;
+  commands: PluginContentsListDiff;
+  skills: PluginContentsListDiff;
+  agents: PluginContentsListDiff;
+  mcpServers: PluginContentsListDiff;
+  /** hooks 宣告（event / matcher / type / command）是否有變更 */
+  hooksChanged: boolean;
+}
+
+/** marketplace update 的變更摘要（manifest + plugin catalog 前後比對） */
+export interface MarketplaceUpdateSummary {
+  name: string;
+  /** clone 更新前的 git commit（非 git 目錄時為 undefined） */
+  fromCommit?: string;
+  toCommit?: string;
+  added: AvailablePlugin[];
+  removed: AvailablePlugin[];
+  changed: MarketplacePluginChange[];
+}
+
+/** plugin 來源目錄在 installed commit 之後的單一 git commit */
+export interface PluginChangelogCommit {
+  sha: string;
+  author: string;
+  /** ISO 8601 */
+  date: string;
+  subject: string;
+}
+
+/** commands / skills / agents 下的單一檔案變更（path 相對 plugin 根目錄） */
+export interface PluginFileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+}
+
+/** 已安裝版本 → marketplace 目前版本的變更（plugin 卡片的 What's changed 面板） */
+export interface PluginChangelog {
+  pluginId: string;
+  installedVersion?: string;
+  availableVersion?: string;
+  fromCommit?: string;
+  toCommit?: string;
+  /** undefined = 無法取得 git log（非 git marketplace、缺少 installed commit 或 commit 不在 clone 中） */
+  commits?: PluginChangelogCommit[];
+  fileChanges: PluginFileChange[];
+  /** plugin 根目錄的 CHANGELOG.md（過長時截斷） */
+  changelog?: string;
+}
+
+/** plugin.json 的 metadata（詳情頁用） */
+export interface PluginManifestMetadata {
+  author?: string;
+  homepage?: string;
+  /** repository 欄位（string 或 `{ url }` → 正規化為 URL） */
+  repository?: string;
+  license?: string;
+  keywords: string[];
+}
+
+/** 單一 scope 的安裝詳情 */
+export interface PluginInstallDetail {
+  scope: PluginScope;
+  projectPath?: string;
+  version: string;
+  installPath: string;
+  gitCommitSha?: string;
+  lastUpdated: string;
+  /** installPath 的磁碟用量（bytes） */
+  diskBytes: number;
+}
+
+/** Plugin 詳情頁資料 */
+export interface PluginDetails {
+  pluginId: string;
+  metadata: PluginManifestMetadata;
+  /** plugin 根目錄的 README.md（過長時截斷） */
+  readme?: string;
+  /** marketplace clone 目前的 commit（可安裝版本）；非 git 或 remote source 時 undefined */
+  availableSha?: string;
+  /** user scope 與目前 workspace 的安裝 */
+  installs: PluginInstallDetail[];
+}
+
+/** 多選批次操作 */
+export type PluginBulkAction = 'install' | 'uninstall' | 'enable' | 'disable' | 'update';
+
+/** 批次操作中單一 plugin 的結果 */
+export interface PluginBulkItemResult {
+  pluginId: string;
+  ok: boolean;
+  error?: string;
+}
+
+/** 批次操作結果摘要（每個 plugin 成功 / 失敗） */
+export interface PluginBulkResult {
+  action: PluginBulkAction;
+  scope: PluginScope;
+  results: PluginBulkItemResult[];
+}
+
+/** Update All 的單一更新目標（plugin + 已安裝的 scope） */
+export interface PluginUpdateTarget {
+  pluginId: string;
+  scope: PluginScope;
+}
+
+/** Update All 單一目標的結果；CLI 回報已是最新版本時為 upToDate */
+export interface PluginUpdateItemResult extends PluginUpdateTarget {
+  status: 'updated' | 'upToDate' | 'failed';
+  error?: string;
+}
+
+/** Update All 結果摘要 */
+export interface PluginUpdateAllResult {
+  results: PluginUpdateItemResult[];
+}
+
+/** Update All 進度（current 為正在更新的第幾個目標，1-based） */
+export interface PluginUpdateAllProgress extends PluginUpdateTarget {
+  current: number;
+  total: number;
+}
+
+/** 具名 plugin profile：各 scope enabledPlugins 的快照（只記錄啟用的 plugin） */
+export interface PluginProfile {
+  name: string;
+  /** 無 workspace 時儲存的 profile 只含 user scope；缺少的 scope 套用時不動 */
+  enabledPlugins: Partial<Record<PluginScope, string[]>>;
+  updatedAt: string;
+}
+
+/** Profile 清單與目前 workspace 最後套用的 profile */
+export interface PluginProfileList {
+  profiles: PluginProfile[];
+  activeProfile?: string;
+}
+
+/** 套用 profile 時單一 plugin 的 enabled 變更 */
+export interface PluginProfileChange {
+  pluginId: string;
+  scope: PluginScope;
+}
+
+/** 套用 profile 前後的差異（寫入前預覽） */
+export interface PluginProfileDiff {
+  name: string;
+  toEnable: PluginProfileChange[];
+  toDisable: PluginProfileChange[];
+}
+
+/** 安全審查規則 */
+export type PluginSecurityRule =
+  | 'pipe-to-shell'
+  | 'recursive-delete'
+  | 'network'
+  | 'write-outside-project'
+  | 'obfuscated';
+
+/** 安全審查命中的單一風險 */
+export interface PluginSecurityFinding {
+  rule: PluginSecurityRule;
+  severity: 'high' | 'medium';
+  source: 'hook' | 'script' | 'mcp';
+  /** hook event、script 路徑（含行號）或 MCP server 名稱 */
+  location: string;
+  excerpt: string;
+}
+
+/** plugin .mcp.json 宣告的 server 啟動方式 */
+export interface PluginMcpCommand {
+  name: string;
+  command?: string;
+  args?: string[];
+  url?: string;
+}
+
+/** install / 首次 enable 前的安全審查結果 */
+export interface PluginSecurityReport {
+  pluginId: string;
+  /** 快取與確認紀錄的依據：gitCommitSha，無 git 資訊時為內容 hash；來源不可用時為 undefined */
+  reviewKey?: string;
+  gitCommitSha?: string;
+  /** false = remote source 尚未下載，安裝前無法審查 */
+  sourceAvailable: boolean;
+  hookCommands: PluginHookCommand[];
+  scripts: string[];
+  mcpServers: PluginMcpCommand[];
+  findings: PluginSecurityFinding[];
+  /** 使用者已確認過此 reviewKey */
+  acknowledged: boolean;
+}
+
 /** Plugin 安裝 scope */
 export type PluginScope = 'user' | 'project' | 'local';
 
+/** 設定包格式版本（結構不相容變更時遞增） */
+export const CONFIG_BUNDLE_VERSION = 1;
+
+/** 設定包中的 marketplace（source 為 CLI `marketplace add` 可接受的字串） */
+export interface ConfigBundleMarketplace {
+  name: string;
+  source: string;
+  autoUpdate: boolean;
+}
+
+/** Marketplace + 各 scope enabledPlugins 的可攜設定包（export / import） */
+export interface ConfigBundle {
+  version: number;
+  exportedAt: string;
+  marketplaces: ConfigBundleMarketplace[];
+  enabledPlugins: Record<PluginScope, EnabledPluginsMap>;
+}
+
+/** Import 時 plugin 被略過的原因 */
+export type ConfigImportSkipReason = 'alreadyEnabled' | 'noWorkspace' | 'unknownMarketplace';
+
+export interface ConfigImportPluginItem {
+  pluginId: string;
+  scope: PluginScope;
+  reason?: ConfigImportSkipReason;
+}
+
+/** Import 前的預覽：將新增 / 啟用 / 略過的項目 */
+export interface ConfigImportPreview {
+  marketplacesToAdd: ConfigBundleMarketplace[];
+  marketplacesSkipped: ConfigBundleMarketplace[];
+  pluginsToEnable: ConfigImportPluginItem[];
+  pluginsSkipped: ConfigImportPluginItem[];
+}
+
+export interface ConfigImportResult {
+  marketplacesAdded: number;
+  pluginsEnabled: number;
+  failed: string[];
+}
+
+export type ConfigImportPhase = 'addingMarketplaces' | 'enablingPlugins' | 'completed';
+
+export interface ConfigImportProgress {
+  phase: ConfigImportPhase;
+  current: number;
+  total: number;
+  detail?: string;
+}
+
 /**
  * installed_plugins.json 中的單一安裝 entry。
  * 一個 plugin 可有多個 entry（不同 scope）。
@@ -65,12 +340,151 @@ export interface PluginInstallEntry {
   gitCommitSha?: string;
 }
 
+/** plugin 被 update / rollback 取代前的版本（保留其 cache 目錄供 rollback） */
+export interface PluginVersionSnapshot {
+  installPath: string;
+  version: string;
+  gitCommitSha?: string;
+  lastUpdated: string;
+  /** 被取代的時間 */
+  replacedAt: string;
+}
+
+/** cache 版本目錄的引用來源（被引用的目錄 pruneUnusedCache 會保留） */
+export type PluginCacheReference = 'installed' | 'history' | 'devLink';
+
+/** plugin cache 單一版本目錄（`cache/<marketplace>/<plugin>/<version>`） */
+export interface PluginCacheVersionUsage {
+  version: string;
+  path: string;
+  bytes: number;
+  /** 未被引用時省略（pruneUnusedCache 會刪除） */
+  reference?: PluginCacheReference;
+}
+
+/** plugin cache 目錄（`cache/<marketplace>/<plugin>`）與其各版本 */
+export interface PluginCacheUsage {
+  marketplace: string;
+  plugin: string;
+  path: string;
+  bytes: number;
+  versions: PluginCacheVersionUsage[];
+}
+
+/** marketplaces/ 下的 clone；known = 仍登記於 known_marketplaces.json */
+export interface MarketplaceCloneUsage {
+  name: string;
+  path: string;
+  bytes: number;
+  known: boolean;
+}
+
+/** Plugin 相關目錄的磁碟用量 */
+export interface PluginStorageUsage {
+  marketplaces: MarketplaceCloneUsage[];
+  caches: PluginCacheUsage[];
+  totalBytes: number;
+}
+
 /** ~/.claude/plugins/installed_plugins.json 完整結構 */
 export interface InstalledPluginsFile {
   version: number;
   plugins: Record<string, PluginInstallEntry[]>;
 }
 
+/** 不經 marketplace、直接從 git / 本地目錄安裝的 plugin 來源（plugin_sources.json） */
+export interface PluginSourceOrigin {
+  type: 'github' | 'git' | 'local';
+  /** owner/repo、git URL 或本地絕對路徑 */
+  source: string;
+  /** repo / 目錄內的 plugin 子目錄 */
+  subdir?: string;
+  gitCommitSha?: string;
+}
+
+/** dev link 目錄的驗證結果（plugin.json、hooks / .mcp.json 結構、frontmatter） */
+export interface PluginDevLinkIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** plugin 某 scope 的 installPath 指向本地工作目錄（dev link） */
+export interface PluginDevLink {
+  pluginId: string;
+  scope: PluginScope;
+  projectPath?: string;
+  /** 工作目錄（目前的 installPath） */
+  path: string;
+  issues: PluginDevLinkIssue[];
+}
+
+/** 從 Claude Code session transcripts 統計的 plugin 使用量 */
+export interface PluginUsageStats {
+  /** 最後一次使用的 ISO timestamp；從未使用時省略 */
+  lastUsed?: string;
+  /** 最近 30 天的使用次數 */
+  recentUses: number;
+}
+
+/** plugins.lock.json 中 marketplace plugin 的 marketplace 來源（對應 known_marketplaces.json 的 source） */
+export interface PluginLockMarketplace {
+  name: string;
+  source: MarketplaceSourceType;
+  repo?: string;
+  url?: string;
+  path?: string;
+}
+
+/** plugins.lock.json 中的單一 plugin；marketplace 與 origin（從 source 直接安裝）二擇一 */
+export interface PluginLockEntry {
+  marketplace?: PluginLockMarketplace;
+  origin?: PluginSourceOrigin;
+  version: string;
+  gitCommitSha?: string;
+  enabled: boolean;
+}
+
+/** workspace `.claude/plugins.lock.json`：project scope plugin 的可重現設定 */
+export interface PluginLockfile {
+  version: 1;
+  plugins: Record<string, PluginLockEntry>;
+}
+
+/**
+ * workspace 與 lockfile 的差異：
+ * missing = project scope 未安裝、commit / version = 安裝的版本不同、enabled / disabled = 啟用狀態應改為
+ */
+export type PluginLockDriftKind = 'missing' | 'commit' | 'version' | 'enabled' | 'disabled';
+
+export interface PluginLockDrift {
+  pluginId: string;
+  kind: PluginLockDriftKind;
+  /** lockfile 記錄的 commit / version */
+  expected?: string;
+  /** 目前安裝的 commit / version */
+  actual?: string;
+}
+
+/** lockfile 狀態；無 workspace 時 path 為 undefined */
+export interface PluginLockStatus {
+  path?: string;
+  exists: boolean;
+  drift: PluginLockDrift[];
+  /** lockfile 無法解析（例如 merge conflict）時的錯誤訊息 */
+  error?: string;
+}
+
+/** Sync from lockfile 的單一 plugin 結果 */
+export interface PluginLockSyncItemResult {
+  pluginId: string;
+  status: 'synced' | 'failed';
+  error?: string;
+}
+
+export interface PluginLockSyncResult {
+  results: PluginLockSyncItemResult[];
+}
+
 /** settings.json 中的 enabledPlugins 區塊 */
 export type EnabledPluginsMap = Record<string, boolean>;
 
@@ -87,6 +501,34 @@ export interface InstalledPlugin {
   description?: string;
   mcpServers?: Record<string, McpServerConfig>;
   contents?: PluginContents;
+  /** 從 source 直接安裝時的來源 */
+  origin?: PluginSourceOrigin;
+}
+
+/** plugin hooks/hooks.json 內宣告的單一 hook command */
+export interface PluginHookCommand {
+  event: string;
+  matcher?: string;
+  command: string;
+}
+
+/** plugin hooks/hooks.json 內宣告的單一 hook（card 展示、搜尋與 AI 解釋用） */
+export interface PluginHook {
+  event: string;
+  matcher?: string;
+  /** hook type（command / prompt / agent / http / mcp_tool） */
+  type: string;
+  /** command hook 的指令；其他 type 為 prompt、URL 或 `server/tool` */
+  command: string;
+  /** 指令引用 `${CLAUDE_PLUGIN_ROOT}` 內既有檔案時的絕對路徑 */
+  scriptPath?: string;
+}
+
+/** plugin 目錄內會被執行的內容 */
+export interface PluginExecutables {
+  /** shell script 路徑（相對 plugin 根目錄） */
+  scripts: string[];
+  hookCommands: PluginHookCommand[];
 }
 
 /** Marketplace preview 的 plugin 摘要（加入前預覽） */
@@ -94,6 +536,31 @@ export interface PreviewPlugin {
   name: string;
   description: string;
   version?: string;
+  sourceFormat?: SourceFormatType;
+  /** 以下僅在 plugin 位於 marketplace repo 內（可本地掃描）時提供 */
+  contents?: PluginContents;
+  scripts?: string[];
+  hookCommands?: PluginHookCommand[];
+}
+
+/** 建立本地 directory marketplace + plugin skeleton 的參數 */
+export interface PluginScaffoldOptions {
+  /** marketplace 目錄建立在此目錄下（`<parentDir>/<marketplaceName>`） */
+  parentDir: string;
+  marketplaceName: string;
+  pluginName: string;
+  description: string;
+  author?: string;
+  includeHooks: boolean;
+  includeMcp: boolean;
+}
+
+/** scaffold 結果 */
+export interface PluginScaffoldResult {
+  marketplaceDir: string;
+  pluginDir: string;
+  /** 建立的檔案（相對 marketplaceDir） */
+  files: string[];
 }
 
 /** marketplace.json 內的單一 plugin entry */
@@ -126,7 +593,19 @@ export interface PluginContents {
   skills: PluginContentItem[];
   agents: PluginContentItem[];
   mcpServers: string[];
-  hooks: boolean;
+  hooks: PluginHook[];
+  /** 啟用後常駐 context 的估計 token 數（掃描時計算） */
+  tokenEstimate?: PluginTokenEstimate;
+}
+
+/** plugin 佔用 context window 的估計 token 數（依元件分類） */
+export interface PluginTokenEstimate {
+  commands: number;
+  skills: number;
+  agents: number;
+  /** MCP server 的 tool 清單（每個 server 以固定值估算） */
+  mcpServers: number;
+  total: number;
 }
 
 /** Webview 用的可安裝 plugin */
@@ -136,8 +615,8 @@ export interface AvailablePlugin {
   description: string;
   marketplaceName: string;
   version?: string;
-  // /** plugin.json 的 author（string 或 { name } → 正規化為 string）。目前 UI 未使用（同 section 同作者）。 */
-  // author?: string;
+  /** plugin.json 的 author（string 或 { name } → 正規化為 string） */
+  author?: string;
   contents?: PluginContents;
   /** marketplace.json 中的 source 欄位（相對路徑，如 ./plugins/foo） */
   sourceDir?: string;
@@ -253,8 +732,8 @@ export interface MergedPlugin {
   marketplaceName?: string;
   description?: string;
   version?: string;
-  // /** plugin.json 的 author。目前 UI 未使用（同 section 同作者）。 */
-  // author?: string;
+  /** plugin.json 的 author（詳情頁顯示） */
+  author?: string;
   contents?: PluginContents;
   /** marketplace.json 中的 source 欄位（相對路徑，如 ./plugins/foo） */
   sourceDir?: string;
@@ -262,6 +741,8 @@ export interface MergedPlugin {
   sourceUrl?: string;
   /** marketplace.json source 欄位的格式分類（6 種） */
   sourceFormat?: SourceFormatType;
+  /** 不經 marketplace、直接從 source 安裝時的來源 */
+  origin?: PluginSourceOrigin;
   /** marketplace 上可用版本的最後修改時間（ISO 8601），用於偵測更新 */
   availableLastUpdated?: string;
   /** 所有已安裝 scope 中最新的 lastUpdated（mergePlugins 預計算，PluginCard 直接讀取） */
@@ -29,7 +29,7 @@ const MULTI_TAG_FIELDS = new Set(['allowed-tools', 'agents']);
 const META_FIELDS = ['model', 'context', 'allowed-tools', 'agents'];
 
 /** 將 markdown body 轉為 HTML（經 DOMPurify sanitize 防 XSS） */
-function renderMarkdown(md: string): string {
+export function renderMarkdown(md: string): string {
   const raw = marked.parse(md, { async: false, gfm: true, breaks: true }) as string;
   return DOMPurify.sanitize(raw);
 }
@@ -7,6 +7,7 @@ import type { ExtensionInfo } from '../../../shared/types';
 import { toErrorMessage } from '../../../shared/errorUtils';
 import './InfoPage.css';
 import { PageHeader } from '../../components/PageHeader';
+import { PluginStorageSection } from './PluginStorageSection';
 
 export function InfoPage(): React.ReactElement {
   const { t } = useI18n();
@@ -138,6 +139,8 @@ export function InfoPage(): React.ReactElement {
             ))}
           </div>
         </div>
+
+        <PluginStorageSection shortenPath={shortenHome} />
       </div>
 
       {showClearConfirm && (
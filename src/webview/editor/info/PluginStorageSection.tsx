@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { sendRequest } from '../../vscode';
+import { useToast } from '../../components/Toast';
+import { useI18n } from '../../i18n/I18nContext';
+import { ConfirmDialog } from '../../components/ConfirmDialog';
+import { formatBytes } from '../../utils/formatBytes';
+import type { PluginCacheReference, PluginCacheVersionUsage, PluginStorageUsage } from '../../../shared/types';
+import { toErrorMessage } from '../../../shared/errorUtils';
+
+/** 遞迴計算目錄大小可能較久（marketplace clone 含 .git） */
+const STORAGE_TIMEOUT_MS = 120_000;
+
+/** 可勾選刪除的版本：未引用或僅供 rollback */
+function isDeletableVersion(version: PluginCacheVersionUsage): boolean {
+  return !version.reference || version.reference === 'history';
+}
+
+/**
+ * Plugin storage 用量：marketplace clone、plugin cache 與各版本的大小及引用狀態。
+ * 按下 Analyze 才掃描；支援勾選刪除，以及先預覽再執行 pruneUnusedCache。
+ */
+export function PluginStorageSection({ shortenPath }: { shortenPath: (p: string) => string }): React.ReactElement {
+  const { t } = useI18n();
+  const { addToast } = useToast();
+  const [usage, setUsage] = useState<PluginStorageUsage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+  const [confirm, setConfirm] = useState<'delete' | 'prune' | null>(null);
+
+  const loadUsage = async (): Promise<void> => {
+    setLoading(true);
+    try {
+      setUsage(await sendRequest<PluginStorageUsage>({ type: 'plugin.storage.usage' }, STORAGE_TIMEOUT_MS));
+      setSelected(new Set());
+    } catch (e) {
+      addToast(`${t('info.storage.loadFailed')}: ${toErrorMessage(e)}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (path: string): void => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const marketplaces = usage?.marketplaces ?? [];
+  const caches = usage?.caches ?? [];
+  const sizeByPath = new Map<string, number>([
+    ...marketplaces.map((mp) => [mp.path, mp.bytes] as const),
+    ...caches.flatMap((c) => c.versions.map((v) => [v.path, v.bytes] as const)),
+  ]);
+  const selectedBytes = [...selected].reduce((sum, p) => sum + (sizeByPath.get(p) ?? 0), 0);
+  const unused = caches.flatMap((c) => c.versions.filter((v) => !v.reference));
+  const unusedBytes = unused.reduce((sum, v) => sum + v.bytes, 0);
+
+  const runCleanup = async (
+    request: { type: 'plugin.storage.delete'; paths: string[] } | { type: 'plugin.pruneUnusedCache' },
+  ): Promise<void> => {
+    setConfirm(null);
+    setBusy(true);
+    try {
+      const result = await sendRequest<{ removedDirs: number; freedBytes: number }>(request, STORAGE_TIMEOUT_MS);
+      addToast(t('info.storage.deleteSuccess', {
+        dirs: String(result.removedDirs),
+        size: formatBytes(result.freedBytes),
+      }), 'success');
+      await loadUsage();
+    } catch (e) {
+      addToast(`${t('info.storage.deleteFailed')}: ${toErrorMessage(e)}`, 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const referenceLabel = (reference: PluginCacheReference | undefined): string => {
+    if (reference === 'installed') return t('info.storage.ref.installed');
+    if (reference === 'devLink') return t('info.storage.ref.devLink');
+    if (reference === 'history') return t('info.storage.ref.history');
+    return t('info.storage.ref.unused');
+  };
+
+  return (
+    <div className="settings-section info-section">
+      <div className="info-storage-header">
+        <h3 className="settings-section-title">{t('info.section.storage')}</h3>
+        <button
+          className="btn btn-secondary info-path-btn"
+          onClick={() => void loadUsage()}
+          disabled={loading || busy}
+        >
+          {loading ? t('info.storage.analyzing') : usage ? t('info.storage.refresh') : t('info.storage.analyze')}
+        </button>
+      </div>
+
+      {!usage && <div className="info-storage-hint">{t('info.storage.hint')}</div>}
+
+      {usage && (
+        <>
+          <div className="info-storage-summary">
+            {t('info.storage.total', { size: formatBytes(usage.totalBytes) })}
+            {' · '}
+            {t('info.storage.unused', { count: String(unused.length), size: formatBytes(unusedBytes) })}
+          </div>
+
+          <div className="info-storage-group-title">{t('info.storage.marketplaces')}</div>
+          {marketplaces.length === 0 && <div className="info-storage-hint">{t('info.storage.empty')}</div>}
+          {marketplaces.map((mp) => (
+            <label key={mp.path} className="info-storage-row">
+              <input
+                type="checkbox"
+                checked={selected.has(mp.path)}
+                disabled={mp.known || busy}
+                onChange={() => toggle(mp.path)}
+                aria-label={mp.name}
+              />
+              <span className="info-storage-name" title={shortenPath(mp.path)}>{mp.name}</span>
+              <span className={`info-storage-badge${mp.known ? '' : ' info-storage-badge--unused'}`}>
+                {mp.known ? t('info.storage.ref.known') : t('info.storage.ref.unknown')}
+              </span>
+              <span className="info-storage-size">{formatBytes(mp.bytes)}</span>
+            </label>
+          ))}
+
+          <div className="info-storage-group-title">{t('info.storage.caches')}</div>
+          {caches.length === 0 && <div className="info-storage-hint">{t('info.storage.empty')}</div>}
+          {caches.map((cache) => (
+            <div key={cache.path} className="info-storage-cache">
+              <div className="info-storage-row info-storage-row--plugin">
+                <span className="info-storage-name" title={shortenPath(cache.path)}>
+                  {cache.plugin}@{cache.marketplace}
+                </span>
+                <span className="info-storage-size">{formatBytes(cache.bytes)}</span>
+              </div>
+              {cache.versions.map((version) => (
+                <label key={version.path} className="info-storage-row info-storage-row--version">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(version.path)}
+                    disabled={!isDeletableVersion(version) || busy}
+                    onChange={() => toggle(version.path)}
+                    aria-label={`${cache.plugin} ${version.version}`}
+                  />
+                  <span className="info-storage-name" title={shortenPath(version.path)}>{version.version}</span>
+                  <span className={`info-storage-badge${version.reference ? '' : ' info-storage-badge--unused'}`}>
+                    {referenceLabel(version.reference)}
+                  </span>
+                  <span className="info-storage-size">{formatBytes(version.bytes)}</span>
+                </label>
+              ))}
+            </div>
+          ))}
+
+          <div className="info-storage-actions">
+            <button
+              className="btn btn-danger info-path-btn"
+              onClick={() => setConfirm('delete')}
+              disabled={selected.size === 0 || busy}
+            >
+              {t('info.storage.deleteSelected', { count: String(selected.size), size: formatBytes(selectedBytes) })}
+            </button>
+            <button
+              className="btn btn-secondary info-path-btn"
+              onClick={() => setConfirm('prune')}
+              disabled={unused.length === 0 || busy}
+            >
+              {t('info.storage.previewPrune')}
+            </button>
+          </div>
+        </>
+      )}
+
+      {confirm === 'delete' && (
+        <ConfirmDialog
+          title={t('info.storage.deleteTitle')}
+          message={t('info.storage.deleteMessage', { count: String(selected.size), size: formatBytes(selectedBytes) })}
+          messageDetail={<PathList paths={[...selected].map(shortenPath)} />}
+          confirmLabel={t('info.storage.deleteConfirm')}
+          danger
+          onConfirm={() => void runCleanup({ type: 'plugin.storage.delete', paths: [...selected] })}
+          onCancel={() => setConfirm(null)}
+        />
+      )}
+
+      {confirm === 'prune' && (
+        <ConfirmDialog
+          title={t('info.storage.pruneTitle')}
+          message={t('info.storage.pruneMessage', { count: String(unused.length), size: formatBytes(unusedBytes) })}
+          messageDetail={<PathList paths={unused.map((v) => shortenPath(v.path))} />}
+          confirmLabel={t('info.storage.pruneConfirm')}
+          danger
+          onConfirm={() => void runCleanup({ type: 'plugin.pruneUnusedCache' })}
+          onCancel={() => setConfirm(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function PathList({ paths }: { paths: string[] }): React.ReactElement {
+  return (
+    <ul className="info-storage-preview">
+      {paths.map((p) => <li key={p}>{p}</li>)}
+    </ul>
+  );
+}
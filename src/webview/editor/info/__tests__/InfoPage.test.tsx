@@ -5,7 +5,7 @@ import React from 'react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { screen, waitFor, fireEvent, cleanup } from '@testing-library/react';
 import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
-import type { ExtensionInfo } from '../../../../shared/types';
+import type { ExtensionInfo, PluginStorageUsage } from '../../../../shared/types';
 
 const { mockSendRequest } = vi.hoisted(() => ({
   mockSendRequest: vi.fn(),
@@ -288,4 +288,91 @@ describe('InfoPage', () => {
       expect(screen.queryByText('~/.claude/plugins/cache')).toBeNull();
     });
   });
+
+  describe('Plugin storage', () => {
+    const CACHE = '/Users/test/.claude/plugins/cache/mp/alpha';
+    const STORAGE: PluginStorageUsage = {
+      marketplaces: [
+        { name: 'mp', path: '/Users/test/.claude/plugins/marketplaces/mp', bytes: 4096, known: true },
+        { name: 'old-mp', path: '/Users/test/.claude/plugins/marketplaces/old-mp', bytes: 512, known: false },
+      ],
+      caches: [{
+        marketplace: 'mp',
+        plugin: 'alpha',
+        path: CACHE,
+        bytes: 3072,
+        versions: [
+          { version: '1.1.0', path: `${CACHE}/1.1.0`, bytes: 1024, reference: 'installed' },
+          { version: '1.0.0', path: `${CACHE}/1.0.0`, bytes: 1024, reference: 'history' },
+          { version: 'stale', path: `${CACHE}/stale`, bytes: 1024 },
+        ],
+      }],
+      totalBytes: 7680,
+    };
+
+    beforeEach(() => {
+      mockSendRequest.mockImplementation(async (req: { type: string }) => {
+        if (req.type === 'extension.getInfo') return makeInfo();
+        if (req.type === 'plugin.storage.usage') return STORAGE;
+        return { removedDirs: 1, freedBytes: 1024 };
+      });
+    });
+
+    it('按 Analyze 才載入，顯示各目錄大小與引用狀態', async () => {
+      renderPage();
+      await waitFor(() => screen.getByRole('button', { name: 'Analyze' }));
+      expect(mockSendRequest).not.toHaveBeenCalledWith({ type: 'plugin.storage.usage' }, expect.anything());
+
+      fireEvent.click(screen.getByRole('button', { name: 'Analyze' }));
+
+      await waitFor(() => screen.getByText('alpha@mp'));
+      expect(screen.getByText(/Total 7\.5 KB/)).toBeTruthy();
+      expect(screen.getByText(/1 unused cache versions \(1\.0 KB\)/)).toBeTruthy();
+      expect(screen.getByText('In use')).toBeTruthy();
+      expect(screen.getByText('Rollback')).toBeTruthy();
+      expect(screen.getByText('Not registered')).toBeTruthy();
+      expect((screen.getByRole('checkbox', { name: 'alpha 1.1.0' }) as HTMLInputElement).disabled).toBe(true);
+      expect((screen.getByRole('checkbox', { name: 'mp' }) as HTMLInputElement).disabled).toBe(true);
+    });
+
+    it('勾選後刪除 → 確認 → 發送 plugin.storage.delete 並重新載入', async () => {
+      renderPage();
+      await waitFor(() => screen.getByRole('button', { name: 'Analyze' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Analyze' }));
+      await waitFor(() => screen.getByText('alpha@mp'));
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'alpha 1.0.0' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: 'old-mp' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Delete selected (2, 1.5 KB)' }));
+      await waitFor(() => screen.getByRole('dialog'));
+      fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+      await waitFor(() => {
+        expect(mockSendRequest).toHaveBeenCalledWith(
+          { type: 'plugin.storage.delete', paths: [`${CACHE}/1.0.0`, '/Users/test/.claude/plugins/marketplaces/old-mp'] },
+          expect.any(Number),
+        );
+        expect(screen.getByText('Removed 1 directories, freed 1.0 KB')).toBeTruthy();
+      });
+      const usageCalls = mockSendRequest.mock.calls.filter(([req]) => (req as { type: string }).type === 'plugin.storage.usage');
+      expect(usageCalls).toHaveLength(2);
+    });
+
+    it('預覽清理列出未引用的版本，確認後呼叫 plugin.pruneUnusedCache', async () => {
+      renderPage();
+      await waitFor(() => screen.getByRole('button', { name: 'Analyze' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Analyze' }));
+      await waitFor(() => screen.getByText('alpha@mp'));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Preview cleanup…' }));
+      await waitFor(() => screen.getByRole('dialog'));
+      expect(screen.getByText('~/.claude/plugins/cache/mp/alpha/stale')).toBeTruthy();
+      expect(screen.queryByText('~/.claude/plugins/cache/mp/alpha/1.0.0')).toBeNull();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Clean' }));
+      await waitFor(() => {
+        expect(mockSendRequest).toHaveBeenCalledWith({ type: 'plugin.pruneUnusedCache' }, expect.any(Number));
+      });
+    });
+  });
 });
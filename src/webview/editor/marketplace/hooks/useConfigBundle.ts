@@ -0,0 +1,117 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+import { onPushMessage, sendRequest } from '../../../vscode';
+import { useI18n } from '../../../i18n/I18nContext';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type {
+  ConfigBundle,
+  ConfigImportPreview,
+  ConfigImportProgress,
+  ConfigImportResult,
+} from '../../../../shared/types';
+
+/** Import 需逐一 add marketplace + install plugin，給足時間 */
+const IMPORT_TIMEOUT_MS = 300_000;
+
+export interface PendingConfigImport {
+  bundle: ConfigBundle;
+  preview: ConfigImportPreview;
+}
+
+interface UseConfigBundleOptions {
+  fetchList: () => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** 設定包匯出 / 匯入（預覽 → 確認 → 進度） */
+export function useConfigBundle({ fetchList, setError }: UseConfigBundleOptions): {
+  exporting: boolean;
+  handleExport: () => Promise<void>;
+  loadingImport: boolean;
+  pendingImport: PendingConfigImport | null;
+  handlePickImport: () => Promise<void>;
+  handleCancelImport: () => void;
+  importing: boolean;
+  importProgress: ConfigImportProgress | null;
+  handleConfirmImport: () => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [exporting, setExporting] = useState(false);
+  const [loadingImport, setLoadingImport] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingConfigImport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<ConfigImportProgress | null>(null);
+
+  useEffect(() => {
+    return onPushMessage((message) => {
+      if (message.type === 'marketplace.importProgress' && message.progress) {
+        setImportProgress(message.progress as ConfigImportProgress);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!importing) {
+      setImportProgress(null);
+    }
+  }, [importing]);
+
+  async function handleExport(): Promise<void> {
+    setExporting(true);
+    await runPageAction({
+      action: () => sendRequest<{ path: string } | null>({ type: 'marketplace.exportConfig' }),
+      onFinally: () => setExporting(false),
+      successToast: (result) => result ? t('plugin.page.exportConfigSuccess', { path: result.path }) : null,
+    });
+  }
+
+  async function handlePickImport(): Promise<void> {
+    setLoadingImport(true);
+    await runPageAction({
+      action: () => sendRequest<PendingConfigImport | null>({ type: 'marketplace.previewImportConfig' }),
+      onSuccess: (result) => setPendingImport(result),
+      onFinally: () => setLoadingImport(false),
+    });
+  }
+
+  function handleCancelImport(): void {
+    setPendingImport(null);
+  }
+
+  async function handleConfirmImport(): Promise<void> {
+    if (!pendingImport) return;
+    const { bundle } = pendingImport;
+    setPendingImport(null);
+    setImporting(true);
+    setImportProgress({ phase: 'addingMarketplaces', current: 0, total: 1 });
+    await runPageAction({
+      action: () => sendRequest<ConfigImportResult>({ type: 'marketplace.importConfig', bundle }, IMPORT_TIMEOUT_MS),
+      onSuccess: async (result) => {
+        if (result.failed.length > 0) {
+          setError(t('plugin.page.importPartial', {
+            count: String(result.failed.length),
+            failures: result.failed.join('; '),
+          }));
+        }
+        await fetchList();
+      },
+      onFinally: () => setImporting(false),
+      successToast: (result) => t('plugin.page.importSuccess', {
+        marketplaces: String(result.marketplacesAdded),
+        plugins: String(result.pluginsEnabled),
+      }),
+    });
+  }
+
+  return {
+    exporting,
+    handleExport,
+    loadingImport,
+    pendingImport,
+    handlePickImport,
+    handleCancelImport,
+    importing,
+    importProgress,
+    handleConfirmImport,
+  };
+}
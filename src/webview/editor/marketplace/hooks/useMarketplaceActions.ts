@@ -1,7 +1,12 @@
-import { useState, type Dispatch, type KeyboardEvent, type MouseEvent, type SetStateAction } from 'react';
+import { useRef, useState, type Dispatch, type KeyboardEvent, type MouseEvent, type SetStateAction } from 'react';
 import { sendRequest } from '../../../vscode';
 import { usePageAction } from '../../../hooks/usePageAction';
-import type { PreviewPlugin } from '../../../../shared/types';
+import { useToast } from '../../../components/Toast';
+import type {
+  MarketplaceReinstallResult,
+  MarketplaceUpdateSummary,
+  PreviewPlugin,
+} from '../../../../shared/types';
 
 type RetryAction = () => Promise<void>;
 
@@ -10,12 +15,22 @@ interface UseMarketplaceActionsOptions {
   setError: Dispatch<SetStateAction<string | null>>;
 }
 
+/** 摘要是否有值得顯示的變更（plugin 增減/變更或 commit 移動） */
+function hasUpdateChanges(summary: MarketplaceUpdateSummary): boolean {
+  return summary.added.length > 0
+    || summary.removed.length > 0
+    || summary.changed.length > 0
+    || summary.fromCommit !== summary.toCommit;
+}
+
 interface RetriableActionOptions<T> {
   action: () => Promise<T>;
   retry?: RetryAction;
   onSuccess?: (result: T) => Promise<void> | void;
   onFinally?: () => Promise<void> | void;
   successToast?: string | ((result: T) => string | null | undefined);
+  /** 可取消操作的 signal；abort 後的錯誤以 info toast 顯示，不進 error banner */
+  signal?: AbortSignal;
 }
 
 export function useMarketplaceActions({
@@ -41,20 +56,32 @@ export function useMarketplaceActions({
   handleAdd: (sourceOverride?: string) => Promise<void>;
   handleRemove: (name: string) => Promise<void>;
   handleUpdate: (name?: string) => Promise<void>;
+  updateSummaries: MarketplaceUpdateSummary[] | null;
+  handleCloseUpdateSummary: () => void;
   handleToggleAutoUpdate: (name: string) => Promise<void>;
+  handlePin: (name: string, ref: string) => Promise<void>;
+  handleUnpin: (name: string) => Promise<void>;
   reinstalling: boolean;
   handleReinstallAll: () => Promise<void>;
+  handleReinstall: (name: string) => Promise<void>;
+  /** 目前的 update / reinstallAll 可取消 */
+  cancellable: boolean;
+  handleCancelOperation: () => void;
 } {
   const [addSource, setAddSource] = useState('');
   const [adding, setAdding] = useState(false);
   const [updating, setUpdating] = useState<string | null>(null);
+  const [updateSummaries, setUpdateSummaries] = useState<MarketplaceUpdateSummary[] | null>(null);
   const [confirmRemove, setConfirmRemove] = useState<string | null>(null);
   const [retryAction, setRetryAction] = useState<RetryAction | null>(null);
   const [reinstalling, setReinstalling] = useState(false);
   const [previewing, setPreviewing] = useState(false);
   const [previewPlugins, setPreviewPlugins] = useState<PreviewPlugin[] | null>(null);
   const [previewSource, setPreviewSource] = useState('');
+  const [cancellable, setCancellable] = useState(false);
+  const operationRef = useRef<AbortController | null>(null);
   const runPageAction = usePageAction({ setError });
+  const { addToast } = useToast();
 
   async function refreshList(): Promise<void> {
     await fetchList();
@@ -66,22 +93,45 @@ export function useMarketplaceActions({
     onSuccess,
     onFinally,
     successToast,
+    signal,
   }: RetriableActionOptions<T>): Promise<void> {
     setRetryAction(null);
     await runPageAction({
       action,
       onSuccess,
-      onError: retry
-        ? (message) => {
-          setError(message);
+      onError: (message) => {
+        if (signal?.aborted) {
+          addToast(message, 'info');
+          return refreshList();
+        }
+        setError(message);
+        if (retry) {
           setRetryAction(() => retry);
         }
-        : undefined,
+      },
       onFinally,
       successToast,
     });
   }
 
+  /** 開始一個可取消操作，回傳其 signal */
+  function startCancellable(): AbortSignal {
+    const controller = new AbortController();
+    operationRef.current = controller;
+    setCancellable(true);
+    return controller.signal;
+  }
+
+  function finishCancellable(signal: AbortSignal): void {
+    if (operationRef.current?.signal !== signal) return;
+    operationRef.current = null;
+    setCancellable(false);
+  }
+
+  function handleCancelOperation(): void {
+    operationRef.current?.abort();
+  }
+
   function handleClosePreview(): void {
     setPreviewPlugins(null);
     setPreviewSource('');
@@ -165,17 +215,30 @@ export function useMarketplaceActions({
 
   async function handleUpdate(name?: string): Promise<void> {
     setUpdating(name ?? '__all__');
+    const signal = startCancellable();
     await runRetriableAction({
-      action: () => sendRequest({ type: 'marketplace.update', name }),
+      action: () => sendRequest<MarketplaceUpdateSummary[]>({ type: 'marketplace.update', name }, undefined, signal),
       retry: () => handleUpdate(name),
-      onSuccess: refreshList,
+      signal,
+      onSuccess: async (summaries) => {
+        const withChanges = (summaries ?? []).filter(hasUpdateChanges);
+        if (withChanges.length > 0) {
+          setUpdateSummaries(withChanges);
+        }
+        await refreshList();
+      },
       onFinally: () => {
         setUpdating(null);
+        finishCancellable(signal);
       },
       successToast: name ? `Updated ${name}` : 'All marketplaces updated',
     });
   }
 
+  function handleCloseUpdateSummary(): void {
+    setUpdateSummaries(null);
+  }
+
   async function handleToggleAutoUpdate(name: string): Promise<void> {
     await runRetriableAction({
       action: () => sendRequest({ type: 'marketplace.toggleAutoUpdate', name }),
@@ -184,18 +247,46 @@ export function useMarketplaceActions({
     });
   }
 
+  async function handlePin(name: string, ref: string): Promise<void> {
+    setUpdating(name);
+    await runRetriableAction({
+      action: () => sendRequest({ type: 'marketplace.pin', name, ref }, 60_000),
+      retry: () => handlePin(name, ref),
+      onSuccess: refreshList,
+      onFinally: () => setUpdating(null),
+      successToast: `Pinned ${name} to ${ref}`,
+    });
+  }
+
+  async function handleUnpin(name: string): Promise<void> {
+    setUpdating(name);
+    await runRetriableAction({
+      action: () => sendRequest({ type: 'marketplace.unpin', name }, 120_000),
+      retry: () => handleUnpin(name),
+      onSuccess: refreshList,
+      onFinally: () => setUpdating(null),
+      successToast: `Unpinned ${name}`,
+    });
+  }
+
   async function handleReinstallAll(): Promise<void> {
     setReinstalling(true);
+    const signal = startCancellable();
     await runRetriableAction({
       action: () => sendRequest<{ total: number; succeeded: number; failed: string[] }>(
         { type: 'marketplace.reinstallAll' },
         120_000,
+        signal,
       ),
       retry: handleReinstallAll,
+      signal,
       onSuccess: async () => {
         await refreshList();
       },
-      onFinally: () => setReinstalling(false),
+      onFinally: () => {
+        setReinstalling(false);
+        finishCancellable(signal);
+      },
       successToast: (result) => {
         if (result.failed.length > 0) {
           return `Reinstalled ${result.succeeded}/${result.total}, failed: ${result.failed.join(', ')}`;
@@ -205,6 +296,26 @@ export function useMarketplaceActions({
     });
   }
 
+  async function handleReinstall(name: string): Promise<void> {
+    setReinstalling(true);
+    await runRetriableAction({
+      action: () => sendRequest<MarketplaceReinstallResult>(
+        { type: 'marketplace.reinstall', name },
+        120_000,
+      ),
+      retry: () => handleReinstall(name),
+      onSuccess: async (result) => {
+        if (result.failed.length > 0) {
+          const details = result.failed.map((f) => `${f.pluginId} (${f.scope}): ${f.error}`).join('; ');
+          setError(`Reinstalled ${name}, but ${result.failed.length} plugin(s) failed to restore — ${details}`);
+        }
+        await refreshList();
+      },
+      onFinally: () => setReinstalling(false),
+      successToast: (result) => (result.failed.length > 0 ? null : `Reinstalled ${name}`),
+    });
+  }
+
   return {
     addSource,
     setAddSource,
@@ -223,8 +334,15 @@ export function useMarketplaceActions({
     handleAdd,
     handleRemove,
     handleUpdate,
+    updateSummaries,
+    handleCloseUpdateSummary,
     handleToggleAutoUpdate,
+    handlePin,
+    handleUnpin,
     reinstalling,
     handleReinstallAll,
+    handleReinstall,
+    cancellable,
+    handleCancelOperation,
   };
 }
@@ -0,0 +1,62 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { sendRequest } from '../../../vscode';
+import { useI18n } from '../../../i18n/I18nContext';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type { MarketplaceManifest, MarketplacePluginEntry } from '../../../../shared/types';
+
+interface UseMarketplaceManifestOptions {
+  fetchList: () => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** 編輯中的 marketplace manifest */
+export interface ManifestEditorTarget {
+  name: string;
+  plugins: MarketplacePluginEntry[];
+}
+
+/** 編輯 workspace 內 directory marketplace 的 marketplace.json（讀取 → 編輯 → 儲存 → 重新整理） */
+export function useMarketplaceManifest({ fetchList, setError }: UseMarketplaceManifestOptions): {
+  manifestTarget: ManifestEditorTarget | null;
+  openManifestEditor: (name: string) => Promise<void>;
+  closeManifestEditor: () => void;
+  savingManifest: boolean;
+  handleSaveManifest: (plugins: MarketplacePluginEntry[]) => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [manifestTarget, setManifestTarget] = useState<ManifestEditorTarget | null>(null);
+  const [savingManifest, setSavingManifest] = useState(false);
+
+  async function openManifestEditor(name: string): Promise<void> {
+    await runPageAction({
+      action: () => sendRequest<MarketplaceManifest>({ type: 'marketplace.readManifest', name }),
+      onSuccess: (manifest) => {
+        setManifestTarget({ name, plugins: Array.isArray(manifest.plugins) ? manifest.plugins : [] });
+      },
+    });
+  }
+
+  async function handleSaveManifest(plugins: MarketplacePluginEntry[]): Promise<void> {
+    if (!manifestTarget) return;
+    const { name } = manifestTarget;
+    setSavingManifest(true);
+    await runPageAction({
+      action: () => sendRequest({ type: 'marketplace.saveManifest', name, plugins }),
+      onSuccess: async () => {
+        setManifestTarget(null);
+        await fetchList();
+      },
+      onFinally: () => setSavingManifest(false),
+      successToast: t('marketplace.manifest.saved', { name }),
+    });
+  }
+
+  return {
+    manifestTarget,
+    openManifestEditor,
+    closeManifestEditor: () => setManifestTarget(null),
+    savingManifest,
+    handleSaveManifest,
+  };
+}
@@ -0,0 +1,58 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { sendRequest } from '../../../vscode';
+import { useI18n } from '../../../i18n/I18nContext';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type { PluginScaffoldOptions, PluginScaffoldResult } from '../../../../shared/types';
+
+/** scaffold 後會呼叫 CLI marketplace add，給足時間 */
+const SCAFFOLD_TIMEOUT_MS = 60_000;
+
+interface UsePluginScaffoldOptions {
+  fetchList: () => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** 建立本地 marketplace + plugin skeleton（wizard 開關 → 建立 → 重新整理） */
+export function usePluginScaffold({ fetchList, setError }: UsePluginScaffoldOptions): {
+  showScaffold: boolean;
+  openScaffold: () => void;
+  closeScaffold: () => void;
+  scaffolding: boolean;
+  handlePickScaffoldDirectory: () => Promise<string | null>;
+  handleScaffold: (options: PluginScaffoldOptions) => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [showScaffold, setShowScaffold] = useState(false);
+  const [scaffolding, setScaffolding] = useState(false);
+
+  async function handlePickScaffoldDirectory(): Promise<string | null> {
+    const picked = await runPageAction({
+      clearError: false,
+      action: () => sendRequest<string | null>({ type: 'plugin.pickScaffoldDirectory' }),
+    });
+    return picked ?? null;
+  }
+
+  async function handleScaffold(options: PluginScaffoldOptions): Promise<void> {
+    setScaffolding(true);
+    await runPageAction({
+      action: () => sendRequest<PluginScaffoldResult>({ type: 'plugin.scaffold', options }, SCAFFOLD_TIMEOUT_MS),
+      onSuccess: async () => {
+        setShowScaffold(false);
+        await fetchList();
+      },
+      onFinally: () => setScaffolding(false),
+      successToast: (result) => t('plugin.scaffold.success', { path: result.marketplaceDir }),
+    });
+  }
+
+  return {
+    showScaffold,
+    openScaffold: () => setShowScaffold(true),
+    closeScaffold: () => setShowScaffold(false),
+    scaffolding,
+    handlePickScaffoldDirectory,
+    handleScaffold,
+  };
+}
@@ -0,0 +1,97 @@
+import React, { useId } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type { ConfigImportPluginItem, ConfigImportPreview } from '../../../shared/types';
+
+interface ConfigImportDialogProps {
+  preview: ConfigImportPreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/** 設定包匯入預覽：列出將新增、啟用、略過的項目 */
+export function ConfigImportDialog({
+  preview,
+  onConfirm,
+  onCancel,
+}: ConfigImportDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const { marketplacesToAdd, marketplacesSkipped, pluginsToEnable, pluginsSkipped } = preview;
+  const skippedCount = marketplacesSkipped.length + pluginsSkipped.length;
+  const nothingToDo = marketplacesToAdd.length === 0 && pluginsToEnable.length === 0;
+
+  const pluginLabel = (item: ConfigImportPluginItem): string => `${item.pluginId} (${item.scope})`;
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onCancel} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('plugin.page.importPreviewTitle')}
+      </div>
+
+      {nothingToDo && (
+        <div className="confirm-dialog-message">{t('plugin.page.importPreviewEmpty')}</div>
+      )}
+
+      {marketplacesToAdd.length > 0 && (
+        <ImportSection title={t('plugin.page.importSection.marketplacesToAdd', { count: marketplacesToAdd.length })}>
+          {marketplacesToAdd.map((mp) => (
+            <div key={mp.name} className="preview-plugin-item">
+              <div className="preview-plugin-name">{mp.name}</div>
+              <div className="preview-plugin-desc">{mp.source}</div>
+            </div>
+          ))}
+        </ImportSection>
+      )}
+
+      {pluginsToEnable.length > 0 && (
+        <ImportSection title={t('plugin.page.importSection.pluginsToEnable', { count: pluginsToEnable.length })}>
+          {pluginsToEnable.map((item) => (
+            <div key={`${item.scope}:${item.pluginId}`} className="preview-plugin-item">
+              <div className="preview-plugin-name">{pluginLabel(item)}</div>
+            </div>
+          ))}
+        </ImportSection>
+      )}
+
+      {skippedCount > 0 && (
+        <ImportSection title={t('plugin.page.importSection.skipped', { count: skippedCount })}>
+          {marketplacesSkipped.map((mp) => (
+            <div key={mp.name} className="preview-plugin-item">
+              <div className="preview-plugin-name">{mp.name}</div>
+              <div className="preview-plugin-desc">{t('plugin.page.importSkip.alreadyAdded')}</div>
+            </div>
+          ))}
+          {pluginsSkipped.map((item) => (
+            <div key={`${item.scope}:${item.pluginId}`} className="preview-plugin-item">
+              <div className="preview-plugin-name">{pluginLabel(item)}</div>
+              {item.reason && (
+                <div className="preview-plugin-desc">
+                  {t(`plugin.page.importSkip.${item.reason}` as Parameters<typeof t>[0])}
+                </div>
+              )}
+            </div>
+          ))}
+        </ImportSection>
+      )}
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary" onClick={onCancel}>
+          {t('confirm.default.cancel')}
+        </button>
+        <button className="btn btn-primary" onClick={onConfirm} disabled={nothingToDo}>
+          {t('plugin.page.importConfirm')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
+
+function ImportSection({ title, children }: { title: string; children: React.ReactNode }): React.ReactElement {
+  return (
+    <>
+      <div className="config-import-section-title">{title}</div>
+      <div className="preview-plugin-list">{children}</div>
+    </>
+  );
+}
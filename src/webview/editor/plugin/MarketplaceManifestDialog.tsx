@@ -0,0 +1,315 @@
+import React, { useId, useRef, useState } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import { SOURCE_FORMAT_LABEL_KEYS } from './MarketplacePreviewDialog';
+import { getSourceFormat, validateMarketplacePluginEntries } from '../../../shared/marketplaceManifest';
+import type { MarketplacePluginEntry, SourceFormatType } from '../../../shared/types';
+
+interface MarketplaceManifestDialogProps {
+  marketplace: string;
+  plugins: MarketplacePluginEntry[];
+  saving: boolean;
+  onSave: (plugins: MarketplacePluginEntry[]) => void;
+  onCancel: () => void;
+}
+
+/** 編輯中的 entry；key 只用於 React reconcile（reorder 時保持 input focus） */
+interface EntryRow {
+  key: number;
+  entry: MarketplacePluginEntry;
+}
+
+type SourceField = 'path' | 'repo' | 'url' | 'ref';
+
+/** 各 source format 顯示的欄位（local 格式的 path 即 source 字串本身） */
+const SOURCE_FIELDS: Record<SourceFormatType, SourceField[]> = {
+  'local-internal': ['path'],
+  'local-external': ['path'],
+  'github': ['repo', 'ref', 'path'],
+  'url': ['url', 'ref'],
+  'url-subdir': ['url', 'path', 'ref'],
+  'git-subdir': ['url', 'path', 'ref'],
+};
+
+const SOURCE_FIELD_LABEL_KEYS: Record<SourceField, TranslationKey> = {
+  path: 'marketplace.manifest.path',
+  repo: 'marketplace.manifest.repo',
+  url: 'marketplace.manifest.url',
+  ref: 'marketplace.manifest.ref',
+};
+
+/**
+ * workspace 內 directory marketplace 的 marketplace.json 編輯器：
+ * 新增 / 移除 / 排序 / 編輯 plugin entries。未知欄位原樣保留。
+ */
+export function MarketplaceManifestDialog({
+  marketplace,
+  plugins,
+  saving,
+  onSave,
+  onCancel,
+}: MarketplaceManifestDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const nextKey = useRef(plugins.length);
+  const [rows, setRows] = useState<EntryRow[]>(() => plugins.map((entry, key) => ({ key, entry })));
+
+  const entries = rows.map((row) => row.entry);
+  const errors = validateMarketplacePluginEntries(entries);
+  const canSave = !saving && errors.every((error) => error === null);
+
+  const updateEntry = (key: number, update: (entry: MarketplacePluginEntry) => MarketplacePluginEntry): void => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { key, entry: update(row.entry) } : row)));
+  };
+
+  const moveRow = (index: number, offset: number): void => {
+    setRows((prev) => {
+      const next = [...prev];
+      const [row] = next.splice(index, 1);
+      next.splice(index + offset, 0, row);
+      return next;
+    });
+  };
+
+  const addRow = (): void => {
+    const key = nextKey.current++;
+    setRows((prev) => [...prev, { key, entry: { name: '', source: './plugins/' } }]);
+  };
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onCancel} className="confirm-dialog--manifest">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('marketplace.manifest.title', { name: marketplace })}
+      </div>
+      <p className="settings-field-description">{t('marketplace.manifest.intro')}</p>
+
+      <div className="manifest-entry-list">
+        {rows.length === 0 && (
+          <div className="manifest-entry-empty">{t('marketplace.manifest.empty')}</div>
+        )}
+        {rows.map((row, index) => (
+          <ManifestEntryEditor
+            key={row.key}
+            entry={row.entry}
+            error={errors[index]}
+            disabled={saving}
+            canMoveUp={index > 0}
+            canMoveDown={index < rows.length - 1}
+            onChange={(update) => updateEntry(row.key, update)}
+            onMoveUp={() => moveRow(index, -1)}
+            onMoveDown={() => moveRow(index, 1)}
+            onRemove={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+          />
+        ))}
+      </div>
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary manifest-add-btn" onClick={addRow} disabled={saving}>
+          {t('marketplace.manifest.addPlugin')}
+        </button>
+        <button className="btn btn-secondary" onClick={onCancel} disabled={saving}>
+          {t('confirm.default.cancel')}
+        </button>
+        <button className="btn btn-primary" onClick={() => onSave(entries)} disabled={!canSave}>
+          {saving ? t('marketplace.manifest.saving') : t('marketplace.manifest.save')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
+
+interface ManifestEntryEditorProps {
+  entry: MarketplacePluginEntry;
+  error: string | null;
+  disabled: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onChange: (update: (entry: MarketplacePluginEntry) => MarketplacePluginEntry) => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onRemove: () => void;
+}
+
+function ManifestEntryEditor({
+  entry,
+  error,
+  disabled,
+  canMoveUp,
+  canMoveDown,
+  onChange,
+  onMoveUp,
+  onMoveDown,
+  onRemove,
+}: ManifestEntryEditorProps): React.ReactElement {
+  const { t } = useI18n();
+  const idPrefix = useId();
+  const format = getSourceFormat(entry.source);
+  const errorId = `${idPrefix}-error`;
+
+  const setField = (key: 'name' | 'description' | 'version', value: string): void => {
+    onChange((prev) => setOptional({ ...prev }, key, value, key !== 'name') as MarketplacePluginEntry);
+  };
+
+  const setSourceField = (field: SourceField, value: string): void => {
+    onChange((prev) => {
+      if (typeof prev.source === 'string') {
+        return { ...prev, source: value };
+      }
+      // url-subdir 以 path 是否存在判斷，保留空字串讓格式不變
+      const removable = field === 'ref' || (field === 'path' && format === 'github');
+      return { ...prev, source: setOptional({ ...prev.source }, field, value, removable) };
+    });
+  };
+
+  const sourceFieldValue = (field: SourceField): string => {
+    if (typeof entry.source === 'string') return entry.source;
+    const value = entry.source[field];
+    return typeof value === 'string' ? value : '';
+  };
+
+  return (
+    <div className="manifest-entry">
+      <div className="manifest-entry-header">
+        <span className="manifest-entry-title">{entry.name || t('marketplace.manifest.unnamed')}</span>
+        <div className="manifest-entry-actions">
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={onMoveUp}
+            disabled={disabled || !canMoveUp}
+            aria-label={t('marketplace.manifest.moveUp')}
+            title={t('marketplace.manifest.moveUp')}
+          >↑</button>
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={onMoveDown}
+            disabled={disabled || !canMoveDown}
+            aria-label={t('marketplace.manifest.moveDown')}
+            title={t('marketplace.manifest.moveDown')}
+          >↓</button>
+          <button className="btn btn-danger btn-sm" onClick={onRemove} disabled={disabled}>
+            {t('marketplace.manifest.remove')}
+          </button>
+        </div>
+      </div>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-name`}>{t('marketplace.manifest.name')}</label>
+        <input
+          id={`${idPrefix}-name`}
+          className="input"
+          value={entry.name}
+          onChange={(e) => setField('name', e.target.value)}
+          aria-describedby={error ? errorId : undefined}
+          disabled={disabled}
+        />
+      </div>
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-desc`}>{t('marketplace.manifest.description')}</label>
+        <input
+          id={`${idPrefix}-desc`}
+          className="input"
+          value={entry.description ?? ''}
+          onChange={(e) => setField('description', e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-version`}>{t('marketplace.manifest.version')}</label>
+        <input
+          id={`${idPrefix}-version`}
+          className="input"
+          value={typeof entry.version === 'string' ? entry.version : ''}
+          onChange={(e) => setField('version', e.target.value)}
+          placeholder="1.0.0"
+          disabled={disabled}
+        />
+      </div>
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-format`}>{t('marketplace.manifest.format')}</label>
+        <select
+          id={`${idPrefix}-format`}
+          className="select"
+          value={format ?? ''}
+          onChange={(e) => {
+            const nextFormat = e.target.value as SourceFormatType;
+            onChange((prev) => ({ ...prev, source: convertSource(prev, nextFormat) }));
+          }}
+          disabled={disabled}
+        >
+          {!format && <option value="">{t('marketplace.manifest.unsupportedFormat')}</option>}
+          {(Object.keys(SOURCE_FORMAT_LABEL_KEYS) as SourceFormatType[]).map((value) => (
+            <option key={value} value={value}>{t(SOURCE_FORMAT_LABEL_KEYS[value])}</option>
+          ))}
+        </select>
+      </div>
+      {format && SOURCE_FIELDS[format].map((field) => (
+        <div className="form-row" key={field}>
+          <label className="form-label" htmlFor={`${idPrefix}-${field}`}>
+            {t(field === 'path' && typeof entry.source !== 'string'
+              ? 'marketplace.manifest.subdir'
+              : SOURCE_FIELD_LABEL_KEYS[field])}
+          </label>
+          <input
+            id={`${idPrefix}-${field}`}
+            className="input"
+            value={sourceFieldValue(field)}
+            onChange={(e) => setSourceField(field, e.target.value)}
+            placeholder={getSourceFieldPlaceholder(format, field, entry.name)}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      {error && <span id={errorId} className="form-hint form-hint--error">{error}</span>}
+    </div>
+  );
+}
+
+/** 空字串且 removable 時刪除欄位，否則寫入 */
+function setOptional<T extends Record<string, unknown>>(target: T, key: string, value: string, removable: boolean): T {
+  if (removable && value === '') {
+    delete target[key];
+  } else {
+    (target as Record<string, unknown>)[key] = value;
+  }
+  return target;
+}
+
+/** 切換 source format：沿用原 source 中仍適用的 url / repo / path / ref，其他欄位捨棄 */
+function convertSource(entry: MarketplacePluginEntry, format: SourceFormatType): MarketplacePluginEntry['source'] {
+  const prev = typeof entry.source === 'string' ? {} : entry.source;
+  const pick = (key: string): string => (typeof prev[key] === 'string' ? prev[key] as string : '');
+  const ref = pick('ref') ? { ref: pick('ref') } : {};
+  const url = pick('url') || (pick('repo') ? `https://github.com/${pick('repo')}.git` : '');
+
+  switch (format) {
+    case 'local-internal':
+      return `./plugins/${entry.name}`;
+    case 'local-external':
+      return `./external_plugins/${entry.name}`;
+    case 'github':
+      return { source: 'github', repo: pick('repo'), ...ref };
+    case 'url':
+      return { source: 'url', url, ...ref };
+    case 'url-subdir':
+      return { source: 'url', url, path: pick('path'), ...ref };
+    case 'git-subdir':
+      return { source: 'git-subdir', url, path: pick('path'), ...ref };
+  }
+}
+
+function getSourceFieldPlaceholder(format: SourceFormatType, field: SourceField, name: string): string {
+  switch (field) {
+    case 'path':
+      if (format === 'local-internal') return `./plugins/${name || 'my-plugin'}`;
+      if (format === 'local-external') return `./external_plugins/${name || 'my-plugin'}`;
+      return `plugins/${name || 'my-plugin'}`;
+    case 'repo':
+      return 'owner/repo';
+    case 'url':
+      return 'https://github.com/owner/repo.git';
+    case 'ref':
+      return 'main';
+  }
+}
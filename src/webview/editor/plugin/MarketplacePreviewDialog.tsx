@@ -0,0 +1,142 @@
+import React, { useId } from 'react';
+import type { KeyboardEvent, MouseEvent } from 'react';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import type { PluginHookCommand, PreviewPlugin, SourceFormatType } from '../../../shared/types';
+
+interface MarketplacePreviewDialogProps {
+  plugins: PreviewPlugin[];
+  adding: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+  onOverlayDismiss: (event: MouseEvent<HTMLDivElement> | KeyboardEvent<HTMLDivElement>) => void;
+}
+
+const CONTENT_KINDS = ['commands', 'skills', 'agents', 'mcpServers'] as const;
+
+/** 各 source format 的顯示名稱 i18n key */
+export const SOURCE_FORMAT_LABEL_KEYS: Record<SourceFormatType, TranslationKey> = {
+  'local-internal': 'filter.source.localInternal',
+  'local-external': 'filter.source.localExternal',
+  'url': 'filter.source.url',
+  'url-subdir': 'filter.source.urlSubdir',
+  'git-subdir': 'filter.source.gitSubdir',
+  'github': 'filter.source.github',
+};
+
+/** 加入 marketplace 前的預覽：每個 plugin 的來源格式、contents、shell scripts 與 hook commands */
+export function MarketplacePreviewDialog({
+  plugins,
+  adding,
+  onCancel,
+  onConfirm,
+  onOverlayDismiss,
+}: MarketplacePreviewDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+
+  return (
+    <div
+      className="confirm-overlay"
+      onClick={onOverlayDismiss}
+      onKeyDown={onOverlayDismiss}
+      tabIndex={0}
+    >
+      <div
+        className="confirm-dialog confirm-dialog--preview"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        <div className="confirm-dialog-title" id={titleId}>
+          {t('plugin.page.preview.title', { count: plugins.length })}
+        </div>
+        <div className="preview-plugin-list">
+          {plugins.map((p) => (
+            <PreviewPluginItem key={p.name} plugin={p} />
+          ))}
+        </div>
+        <div className="confirm-dialog-actions">
+          <button className="btn btn-secondary" onClick={onCancel}>
+            {t('confirm.default.cancel')}
+          </button>
+          <button className="btn btn-primary" onClick={onConfirm} disabled={adding}>
+            {adding ? t('plugin.page.preview.adding') : t('plugin.page.addMarketplace')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PreviewPluginItem({ plugin }: { plugin: PreviewPlugin }): React.ReactElement {
+  const { t } = useI18n();
+  const { contents, scripts = [], hookCommands = [] } = plugin;
+  const contentLines = contents
+    ? CONTENT_KINDS
+      .map((kind) => ({
+        kind,
+        names: kind === 'mcpServers' ? contents.mcpServers : contents[kind].map((item) => item.name),
+      }))
+      .filter(({ names }) => names.length > 0)
+    : [];
+
+  return (
+    <div className="preview-plugin-item">
+      <div className="preview-plugin-name">
+        {plugin.name}
+        {plugin.version && <span className="preview-plugin-version">{plugin.version}</span>}
+      </div>
+      {plugin.description && (
+        <div className="preview-plugin-desc">{plugin.description}</div>
+      )}
+      {plugin.sourceFormat && (
+        <div className="preview-plugin-desc">
+          {t('plugin.page.preview.source', { format: t(SOURCE_FORMAT_LABEL_KEYS[plugin.sourceFormat]) })}
+        </div>
+      )}
+
+      {!contents && (
+        <div className="preview-plugin-desc">{t('plugin.page.preview.remoteContents')}</div>
+      )}
+      {contents && contentLines.length === 0 && (
+        <div className="preview-plugin-desc">{t('plugin.page.preview.noContents')}</div>
+      )}
+      {contentLines.map(({ kind, names }) => (
+        <div key={kind} className="preview-plugin-desc">
+          {t(`plugin.page.preview.kind.${kind}`)}: {names.join(', ')}
+        </div>
+      ))}
+
+      {hookCommands.length > 0 && (
+        <>
+          <div className="preview-plugin-section-label">
+            {t('plugin.page.preview.hookCommands', { count: hookCommands.length })}
+          </div>
+          <ul className="preview-plugin-exec-list">
+            {hookCommands.map((hook, i) => (
+              <li key={i}>{formatHookCommand(hook)}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      {scripts.length > 0 && (
+        <>
+          <div className="preview-plugin-section-label">
+            {t('plugin.page.preview.scripts', { count: scripts.length })}
+          </div>
+          <ul className="preview-plugin-exec-list">
+            {scripts.map((script) => (
+              <li key={script}>{script}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+function formatHookCommand(hook: PluginHookCommand): string {
+  const event = hook.matcher ? `${hook.event} (${hook.matcher})` : hook.event;
+  return `${event}: ${hook.command}`;
+}
@@ -0,0 +1,163 @@
+import React, { useId } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type {
+  MarketplacePluginChange,
+  MarketplaceUpdateSummary,
+  PluginContentsListDiff,
+} from '../../../shared/types';
+
+interface MarketplaceUpdateSummaryDialogProps {
+  summaries: MarketplaceUpdateSummary[];
+  onClose: () => void;
+}
+
+const CONTENT_KINDS = ['commands', 'skills', 'agents', 'mcpServers'] as const;
+
+/** commit hash 顯示前 7 碼 */
+function shortCommit(commit: string): string {
+  return commit.slice(0, 7);
+}
+
+/** marketplace update 後的變更摘要：新增/移除/變更的 plugin 與前後 git commit */
+export function MarketplaceUpdateSummaryDialog({
+  summaries,
+  onClose,
+}: MarketplaceUpdateSummaryDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onClose} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('plugin.page.updateSummary.title', { name: summaries.map((s) => s.name).join(', ') })}
+      </div>
+
+      {summaries.map((summary) => (
+        <SummarySection key={summary.name} summary={summary} showName={summaries.length > 1} />
+      ))}
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-primary" onClick={onClose}>
+          {t('plugin.page.updateSummary.close')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
+
+function SummarySection({
+  summary,
+  showName,
+}: {
+  summary: MarketplaceUpdateSummary;
+  showName: boolean;
+}): React.ReactElement {
+  const { t } = useI18n();
+  const { added, removed, changed, fromCommit, toCommit } = summary;
+  const unknown = t('plugin.page.updateSummary.commitUnknown');
+  const noPluginChanges = added.length === 0 && removed.length === 0 && changed.length === 0;
+
+  return (
+    <>
+      {showName && <div className="config-import-section-title">{summary.name}</div>}
+      <div className="update-summary-commit">
+        {fromCommit && fromCommit === toCommit
+          ? t('plugin.page.updateSummary.commitUnchanged', { commit: shortCommit(fromCommit) })
+          : t('plugin.page.updateSummary.commit', {
+            from: fromCommit ? shortCommit(fromCommit) : unknown,
+            to: toCommit ? shortCommit(toCommit) : unknown,
+          })}
+      </div>
+
+      {noPluginChanges && (
+        <div className="confirm-dialog-message">{t('plugin.page.updateSummary.noPluginChanges')}</div>
+      )}
+
+      {added.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.page.updateSummary.added', { count: added.length })}
+          </div>
+          <div className="preview-plugin-list">
+            {added.map((p) => (
+              <div key={p.pluginId} className="preview-plugin-item">
+                <div className="preview-plugin-name">
+                  {p.name}
+                  {p.version && <span className="preview-plugin-version">{p.version}</span>}
+                </div>
+                {p.description && <div className="preview-plugin-desc">{p.description}</div>}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {removed.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.page.updateSummary.removed', { count: removed.length })}
+          </div>
+          <div className="preview-plugin-list">
+            {removed.map((p) => (
+              <div key={p.pluginId} className="preview-plugin-item">
+                <div className="preview-plugin-name">{p.name}</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {changed.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.page.updateSummary.changed', { count: changed.length })}
+          </div>
+          <div className="preview-plugin-list">
+            {changed.map((change) => (
+              <ChangedPluginItem key={change.pluginId} change={change} />
+            ))}
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+function ChangedPluginItem({ change }: { change: MarketplacePluginChange }): React.ReactElement {
+  const { t } = useI18n();
+  const none = t('plugin.page.updateSummary.versionUnknown');
+
+  return (
+    <div className="preview-plugin-item">
+      <div className="preview-plugin-name">{change.name}</div>
+      {change.fromVersion !== change.toVersion && (
+        <div className="preview-plugin-desc">
+          {t('plugin.page.updateSummary.version', {
+            from: change.fromVersion ?? none,
+            to: change.toVersion ?? none,
+          })}
+        </div>
+      )}
+      {CONTENT_KINDS.map((kind) => (
+        <ContentsDiffLine key={kind} label={t(`plugin.page.updateSummary.kind.${kind}`)} diff={change[kind]} />
+      ))}
+      {change.hooksChanged && (
+        <div className="preview-plugin-desc">{t('plugin.page.updateSummary.hooksChanged')}</div>
+      )}
+    </div>
+  );
+}
+
+function ContentsDiffLine({ label, diff }: { label: string; diff: PluginContentsListDiff }): React.ReactElement | null {
+  if (diff.added.length === 0 && diff.removed.length === 0) return null;
+  const parts = [
+    ...diff.added.map((n) => `+${n}`),
+    ...diff.removed.map((n) => `−${n}`),
+  ];
+  return (
+    <div className="preview-plugin-desc">
+      {label}: {parts.join(', ')}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useId, useState } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+
+interface OperationProgressDialogProps {
+  title: string;
+  /** 目前階段的顯示文字 */
+  phaseLabel: string;
+  current: number;
+  total: number;
+  detail?: string;
+  /** 可取消的操作才提供；按下後等 extension 回復完成 */
+  onCancel?: () => void;
+}
+
+/** 長時間 marketplace 操作（reinstall / import）的進度對話框；只能透過 onCancel 取消，不可直接關閉 */
+export function OperationProgressDialog({
+  title,
+  phaseLabel,
+  current,
+  total,
+  detail,
+  onCancel,
+}: OperationProgressDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const [cancelling, setCancelling] = useState(false);
+  const safeTotal = Math.max(total, 1);
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={() => {}} className="reinstall-progress-dialog">
+      <div className="confirm-dialog-title" id={titleId}>
+        {title}
+      </div>
+      <div className="confirm-dialog-message">
+        {phaseLabel}
+      </div>
+      {total > 0 && (
+        <div className="reinstall-progress-meta">
+          {t('plugin.page.reinstallProgressCount', {
+            current: String(current),
+            total: String(total),
+          })}
+        </div>
+      )}
+      {detail && (
+        <div className="reinstall-progress-detail">
+          {t('plugin.page.reinstallProgressDetail', { detail })}
+        </div>
+      )}
+      <div
+        className="reinstall-progress-bar"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={safeTotal}
+        aria-valuenow={Math.min(current, total)}
+      >
+        <div
+          className="reinstall-progress-bar__fill"
+          style={{ width: `${Math.max(8, Math.min(100, (current / safeTotal) * 100))}%` }}
+        />
+      </div>
+      {onCancel && (
+        <div className="confirm-dialog-actions">
+          <button
+            className="btn btn-secondary"
+            onClick={() => {
+              setCancelling(true);
+              onCancel();
+            }}
+            disabled={cancelling}
+          >
+            {cancelling ? t('plugin.page.operationCancelling') : t('confirm.default.cancel')}
+          </button>
+        </div>
+      )}
+    </DialogOverlay>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useId, useState } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+
+interface PinRefDialogProps {
+  marketplace: string;
+  /** 已釘選時預填目前的 ref */
+  initialRef?: string;
+  onConfirm: (ref: string) => void;
+  onCancel: () => void;
+}
+
+/** 將 marketplace 釘選到 git branch / tag / commit 的輸入 dialog */
+export function PinRefDialog({
+  marketplace,
+  initialRef = '',
+  onConfirm,
+  onCancel,
+}: PinRefDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const inputId = useId();
+  const hintId = useId();
+  const [ref, setRef] = useState(initialRef);
+  const trimmed = ref.trim();
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onCancel}>
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('marketplace.pin.title', { name: marketplace })}
+      </div>
+      <div className="form-row">
+        <label className="form-label" htmlFor={inputId}>{t('marketplace.pin.refLabel')}</label>
+        <input
+          id={inputId}
+          className="input"
+          value={ref}
+          onChange={(e) => setRef(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && trimmed) onConfirm(trimmed);
+          }}
+          placeholder={t('marketplace.pin.refPlaceholder')}
+          aria-describedby={hintId}
+          autoFocus
+        />
+        <span id={hintId} className="form-hint">{t('marketplace.pin.refHint')}</span>
+      </div>
+      <div className="confirm-dialog-actions" style={{ marginTop: 16 }}>
+        <button className="btn btn-secondary" onClick={onCancel}>{t('confirm.default.cancel')}</button>
+        <button
+          className="btn btn-primary"
+          onClick={() => onConfirm(trimmed)}
+          disabled={!trimmed}
+        >{t('marketplace.pin.confirm')}</button>
+      </div>
+    </DialogOverlay>
+  );
+}
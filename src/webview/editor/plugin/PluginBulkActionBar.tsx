@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ConfirmDialog } from '../../components/ConfirmDialog';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import type { PluginBulkAction, PluginScope } from '../../../shared/types';
+
+interface PluginBulkActionBarProps {
+  selectedCount: number;
+  /** 目前篩選結果的 plugin 數（Select all filtered 用） */
+  filteredCount: number;
+  hasWorkspace: boolean;
+  /** 執行中的批次操作 */
+  running: PluginBulkAction | null;
+  onRun: (action: PluginBulkAction, scope: PluginScope) => void;
+  onSelectAllFiltered: () => void;
+  onClearSelection: () => void;
+}
+
+const ACTIONS: PluginBulkAction[] = ['install', 'enable', 'disable', 'update', 'uninstall'];
+
+export const BULK_ACTION_LABEL_KEYS: Record<PluginBulkAction, TranslationKey> = {
+  install: 'plugin.bulk.action.install',
+  uninstall: 'plugin.bulk.action.uninstall',
+  enable: 'plugin.bulk.action.enable',
+  disable: 'plugin.bulk.action.disable',
+  update: 'plugin.bulk.action.update',
+};
+
+export const BULK_SCOPE_LABEL_KEYS: Record<PluginScope, TranslationKey> = {
+  user: 'bulk.scopeUser',
+  project: 'bulk.scopeProject',
+  local: 'bulk.scopeLocal',
+};
+
+/** 多選批次操作列：選擇 scope 後對選取的 plugin 執行 install / enable / disable / update / uninstall */
+export function PluginBulkActionBar({
+  selectedCount,
+  filteredCount,
+  hasWorkspace,
+  running,
+  onRun,
+  onSelectAllFiltered,
+  onClearSelection,
+}: PluginBulkActionBarProps): React.ReactElement {
+  const { t } = useI18n();
+  const [scope, setScope] = useState<PluginScope>('user');
+  const [confirmUninstall, setConfirmUninstall] = useState(false);
+  // workspace 關閉後不保留 project / local
+  const effectiveScope = !hasWorkspace && scope !== 'user' ? 'user' : scope;
+
+  return (
+    <div className="plugin-bulk-bar" role="toolbar" aria-label={t('plugin.bulk.label')}>
+      {selectedCount > 0 && (
+        <>
+          <span className="plugin-bulk-count">{t('plugin.bulk.selected', { count: selectedCount })}</span>
+          <select
+            className="sort-select"
+            value={effectiveScope}
+            onChange={(e) => setScope(e.target.value as PluginScope)}
+            aria-label={t('plugin.bulk.scope')}
+            disabled={!!running}
+          >
+            {(['user', 'project', 'local'] as const).map((s) => (
+              <option key={s} value={s} disabled={s !== 'user' && !hasWorkspace}>
+                {t(BULK_SCOPE_LABEL_KEYS[s])}
+              </option>
+            ))}
+          </select>
+          {ACTIONS.map((action) => (
+            <button
+              key={action}
+              className={`btn btn-sm ${action === 'uninstall' ? 'btn-danger' : 'btn-secondary'}`}
+              disabled={!!running}
+              onClick={() => {
+                if (action === 'uninstall') setConfirmUninstall(true);
+                else onRun(action, effectiveScope);
+              }}
+            >
+              {running === action ? <span className="scope-spinner" /> : t(BULK_ACTION_LABEL_KEYS[action])}
+            </button>
+          ))}
+        </>
+      )}
+      <button
+        className="btn btn-secondary btn-sm"
+        onClick={onSelectAllFiltered}
+        disabled={!!running || filteredCount === 0}
+      >
+        {t('plugin.bulk.selectAllFiltered', { count: filteredCount })}
+      </button>
+      {selectedCount > 0 && (
+        <button className="btn btn-secondary btn-sm" onClick={onClearSelection} disabled={!!running}>
+          {t('plugin.bulk.clear')}
+        </button>
+      )}
+
+      {confirmUninstall && (
+        <ConfirmDialog
+          title={t('plugin.bulk.confirmUninstallTitle')}
+          message={t('plugin.bulk.confirmUninstallMessage', {
+            count: selectedCount,
+            scope: t(BULK_SCOPE_LABEL_KEYS[effectiveScope]),
+          })}
+          confirmLabel={t('plugin.bulk.action.uninstall')}
+          danger
+          onConfirm={() => {
+            setConfirmUninstall(false);
+            onRun('uninstall', effectiveScope);
+          }}
+          onCancel={() => setConfirmUninstall(false)}
+        />
+      )}
+    </div>
+  );
+}
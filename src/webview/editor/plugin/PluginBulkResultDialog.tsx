@@ -0,0 +1,57 @@
+import React, { useId } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import { BULK_ACTION_LABEL_KEYS, BULK_SCOPE_LABEL_KEYS } from './PluginBulkActionBar';
+import type { PluginBulkResult } from '../../../shared/types';
+
+interface PluginBulkResultDialogProps {
+  result: PluginBulkResult;
+  onClose: () => void;
+}
+
+/** 批次操作完成後的摘要：每個 plugin 成功 / 失敗（失敗附錯誤訊息） */
+export function PluginBulkResultDialog({ result, onClose }: PluginBulkResultDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const failed = result.results.filter((r) => !r.ok);
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onClose} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('plugin.bulk.result.title', {
+          action: t(BULK_ACTION_LABEL_KEYS[result.action]),
+          scope: t(BULK_SCOPE_LABEL_KEYS[result.scope]),
+        })}
+      </div>
+      <div className="confirm-dialog-message">
+        {t('plugin.bulk.result.summary', {
+          succeeded: result.results.length - failed.length,
+          failed: failed.length,
+        })}
+      </div>
+
+      <div className="preview-plugin-list">
+        {result.results.map((item) => (
+          <div
+            key={item.pluginId}
+            className={`preview-plugin-item plugin-bulk-result plugin-bulk-result--${item.ok ? 'ok' : 'failed'}`}
+          >
+            <div className="preview-plugin-name">
+              {item.pluginId}
+              <span className="preview-plugin-version">
+                {item.ok ? t('plugin.bulk.result.succeeded') : t('plugin.bulk.result.failed')}
+              </span>
+            </div>
+            {item.error && <div className="plugin-bulk-result-error">{item.error}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-primary" onClick={onClose}>
+          {t('plugin.bulk.result.close')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
@@ -3,12 +3,17 @@ import type {
   MergedPlugin,
   PluginContents,
   PluginContentItem,
+  PluginDevLink,
   PluginScope,
+  PluginUsageStats,
 } from '../../../shared/types';
 import { getInstalledScopes, hasPluginUpdate, isPluginEnabled } from './filterUtils';
 import { sendRequest } from '../../vscode';
 import { useI18n } from '../../i18n/I18nContext';
 import { ScopeToggle } from '../../components/ScopeToggle';
+import { PluginHookList } from './PluginHookList';
+import { formatDate } from '../../utils/formatDate';
+import { formatTokens } from '../../utils/formatTokens';
 
 interface PluginCardProps {
   plugin: MergedPlugin;
@@ -34,6 +39,26 @@ interface PluginCardProps {
   onInstallOnly?: (pluginId: string) => void;
   /** 正在執行 install-only */
   installOnlyLoading?: boolean;
+  /** CLI install 進行中時提供，顯示 Cancel 按鈕 */
+  onCancelInstall?: (pluginId: string) => void;
+  /** 開啟版本歷史（僅已安裝的 plugin 顯示按鈕） */
+  onShowHistory?: (pluginId: string) => void;
+  /** 開啟 What's changed 面板（僅有更新時顯示按鈕） */
+  onShowChangelog?: (pluginId: string) => void;
+  /** 正在讀取 What's changed */
+  changelogLoading?: boolean;
+  /** 開啟詳情頁（README、plugin.json metadata、各 scope 安裝狀態） */
+  onShowDetails?: (pluginId: string) => void;
+  /** 正在讀取詳情 */
+  detailsLoading?: boolean;
+  /** 是否已被多選選取 */
+  selected?: boolean;
+  /** 提供時顯示多選 checkbox */
+  onSelect?: (pluginId: string) => void;
+  /** 各 scope 的 dev link（installPath 指向本地工作目錄），有則顯示 DEV badge */
+  devLinks?: PluginDevLink[];
+  /** 從 transcripts 統計的使用量（僅已安裝的 plugin 顯示） */
+  usage?: PluginUsageStats;
 }
 
 /**
@@ -56,6 +81,16 @@ export const PluginCard = React.memo(function PluginCard({
   onInstallOnly,
   installOnlyLoading,
   globalLoadingScopes,
+  onCancelInstall,
+  onShowHistory,
+  onShowChangelog,
+  changelogLoading,
+  onShowDetails,
+  detailsLoading,
+  selected = false,
+  onSelect,
+  devLinks,
+  usage,
 }: PluginCardProps): React.ReactElement {
   const { t } = useI18n();
   const [expanded, setExpanded] = useState(false);
@@ -63,11 +98,18 @@ export const PluginCard = React.memo(function PluginCard({
 
   const hasWorkspace = !!workspaceName;
   const hasContents = pluginHasContents(plugin.contents);
+  const tokenEstimate = plugin.contents?.tokenEstimate;
   const isExternal = !hasContents && !!plugin.sourceUrl;
   const canExpand = hasContents || isExternal;
   const hasUpdate = isPluginEnabled(plugin) && hasPluginUpdate(plugin);
   const scopeControlsDisabled = !!loadingScopes?.size || !!globalLoadingScopes?.size;
   const projectEnabled = plugin.projectInstalls.some((install) => install.enabled);
+  const isInstalled = getInstalledScopes(plugin).length > 0;
+  const devLinkTitle = devLinks?.map((link) => t('plugin.card.devTitle', {
+    scope: link.scope,
+    path: link.path,
+    count: link.issues.length,
+  })).join('\n');
 
   const handleCardClick = (e: React.MouseEvent) => {
     // 不攔截互動元素的 click
@@ -86,17 +128,39 @@ export const PluginCard = React.memo(function PluginCard({
 
   return (
     <div
-      className={`card${canExpand ? ' card--expandable' : ''}${hidden ? ' card--hidden' : ''}`}
+      className={`card${canExpand ? ' card--expandable' : ''}${hidden ? ' card--hidden' : ''}${selected ? ' card--selected' : ''}`}
       onClick={handleCardClick}
       onKeyDown={handleCardKeyDown}
       tabIndex={0}
       role="group"
       aria-label={plugin.name}
+      data-plugin-id={plugin.id}
       aria-expanded={canExpand ? expanded : undefined}
     >
       <div className="card-header">
-        <div>
+        <div className="card-header-left">
+          {onSelect && (
+            <input
+              type="checkbox"
+              className="plugin-card-select"
+              checked={selected}
+              onChange={() => onSelect(plugin.id)}
+              aria-label={t('plugin.card.select', { name: plugin.name })}
+            />
+          )}
           <span className="card-name">{plugin.name}</span>
+          {plugin.origin && (
+            <span className="card-marketplace" title={plugin.origin.gitCommitSha}>
+              {t(`plugin.card.origin.${plugin.origin.type}`, {
+                source: plugin.origin.subdir ? `${plugin.origin.source} (${plugin.origin.subdir})` : plugin.origin.source,
+              })}
+            </span>
+          )}
+          {devLinks && devLinks.length > 0 && (
+            <span className="scope-badge scope-badge--dev" title={devLinkTitle}>
+              {t('plugin.card.dev')}
+            </span>
+          )}
         </div>
         <div className="card-header-right">
           {hasUpdate && (
@@ -109,6 +173,15 @@ export const PluginCard = React.memo(function PluginCard({
               {loadingScopes?.size ? <span className="scope-spinner" /> : t('plugin.card.updateAvailable')}
             </button>
           )}
+          {hasUpdate && onShowChangelog && (
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={(e) => { e.stopPropagation(); onShowChangelog(plugin.id); }}
+              disabled={changelogLoading}
+            >
+              {changelogLoading ? <span className="scope-spinner" /> : t('plugin.card.whatsChanged')}
+            </button>
+          )}
           {pluginUrl && (
             <button className="btn btn-secondary btn-sm" onClick={() => {
               sendRequest({ type: 'openExternal', url: pluginUrl });
@@ -116,6 +189,23 @@ export const PluginCard = React.memo(function PluginCard({
               {getSourceButtonLabel(pluginUrl)}
             </button>
           )}
+          {onShowDetails && (
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={(e) => { e.stopPropagation(); onShowDetails(plugin.id); }}
+              disabled={detailsLoading}
+            >
+              {detailsLoading ? <span className="scope-spinner" /> : t('plugin.card.details')}
+            </button>
+          )}
+          {onShowHistory && isInstalled && (
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={(e) => { e.stopPropagation(); onShowHistory(plugin.id); }}
+            >
+              {t('plugin.card.history')}
+            </button>
+          )}
           {onToggleHidden && (
             <button
               className="btn btn-secondary btn-sm"
@@ -168,14 +258,47 @@ export const PluginCard = React.memo(function PluginCard({
           disabled={scopeControlsDisabled || !hasWorkspace}
           onToggle={(on) => onToggle(plugin.id, 'local', on)}
         />
+        {onCancelInstall && (
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => onCancelInstall(plugin.id)}
+          >
+            {t('plugin.card.cancelInstall')}
+          </button>
+        )}
         </div>
+        {usage && isInstalled && (
+          <span className="card-usage" title={usage.lastUsed}>
+            {usage.lastUsed
+              ? t('plugin.card.usage', { lastUsed: formatDate(usage.lastUsed), count: usage.recentUses })
+              : t('plugin.card.neverUsed')}
+          </span>
+        )}
+        {tokenEstimate && tokenEstimate.total > 0 && (
+          <span
+            className="card-context-cost"
+            title={t('plugin.card.contextCostTitle', {
+              commands: formatTokens(tokenEstimate.commands),
+              skills: formatTokens(tokenEstimate.skills),
+              agents: formatTokens(tokenEstimate.agents),
+              mcpServers: formatTokens(tokenEstimate.mcpServers),
+            })}
+          >
+            {t('plugin.card.contextCost', { tokens: formatTokens(tokenEstimate.total) })}
+          </span>
+        )}
       </div>
 
       {canExpand && (
         <div className={`plugin-contents${expanded ? '' : ' plugin-contents--collapsed'}`}>
           <div className="section-body-inner">
             {hasContents ? (
-              <PluginContentsView contents={plugin.contents!} translations={translations} onViewItem={onViewContent} />
+              <PluginContentsView
+                contents={plugin.contents!}
+                expanded={expanded}
+                translations={translations}
+                onViewItem={onViewContent}
+              />
             ) : (
               <div className="content-external-hint">
                 <span>{t('plugin.content.external')}</span>
@@ -204,16 +327,18 @@ function pluginHasContents(c?: PluginContents): boolean {
     || c.skills.length > 0
     || c.agents.length > 0
     || c.mcpServers.length > 0
-    || c.hooks;
+    || c.hooks.length > 0;
 }
 
 /** 展開後的 contents 列表 */
 function PluginContentsView({
   contents,
+  expanded,
   translations,
   onViewItem,
 }: {
   contents: PluginContents;
+  expanded: boolean;
   translations?: Record<string, string>;
   onViewItem?: (item: PluginContentItem) => void;
 }): React.ReactElement {
@@ -238,14 +363,7 @@ function PluginContentsView({
           ))}
         </div>
       )}
-      {contents.hooks && (
-        <div className="content-section">
-          <div className="content-section-label">Hooks</div>
-          <div className="content-item">
-            <span className="content-item-name">Lifecycle hooks configured</span>
-          </div>
-        </div>
-      )}
+      {contents.hooks.length > 0 && <PluginHookList hooks={contents.hooks} active={expanded} />}
     </div>
   );
 }
@@ -0,0 +1,101 @@
+import React, { useId } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import { formatDate } from '../../utils/formatDate';
+import type { PluginChangelog, PluginFileChange } from '../../../shared/types';
+
+interface PluginChangelogDialogProps {
+  pluginName: string;
+  changelog: PluginChangelog;
+  /** 提供時顯示 Update 按鈕（讀完變更後直接更新） */
+  onUpdate?: () => void;
+  onClose: () => void;
+}
+
+const FILE_STATUS_KEYS: Record<PluginFileChange['status'], TranslationKey> = {
+  added: 'plugin.changelog.fileAdded',
+  removed: 'plugin.changelog.fileRemoved',
+  modified: 'plugin.changelog.fileModified',
+};
+
+/** 已安裝版本 → marketplace 目前版本的變更：git log、commands/skills/agents 檔案差異、CHANGELOG.md */
+export function PluginChangelogDialog({
+  pluginName,
+  changelog,
+  onUpdate,
+  onClose,
+}: PluginChangelogDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const { commits, fileChanges } = changelog;
+  const unknown = t('plugin.page.updateSummary.versionUnknown');
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onClose} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('plugin.changelog.title', { name: pluginName })}
+      </div>
+      <div className="update-summary-commit">
+        {t('plugin.page.updateSummary.version', {
+          from: changelog.installedVersion ?? unknown,
+          to: changelog.availableVersion ?? unknown,
+        })}
+      </div>
+
+      <div className="config-import-section-title">
+        {t('plugin.changelog.commits', { count: commits?.length ?? 0 })}
+      </div>
+      {!commits ? (
+        <div className="confirm-dialog-message">{t('plugin.changelog.commitsUnavailable')}</div>
+      ) : commits.length === 0 ? (
+        <div className="confirm-dialog-message">{t('plugin.changelog.noCommits')}</div>
+      ) : (
+        <div className="preview-plugin-list">
+          {commits.map((commit) => (
+            <div key={commit.sha} className="preview-plugin-item">
+              <div className="preview-plugin-name">
+                {commit.subject}
+                <span className="preview-plugin-version">{commit.sha.slice(0, 7)}</span>
+              </div>
+              <div className="preview-plugin-desc">
+                {t('plugin.changelog.commitMeta', { author: commit.author, date: formatDate(commit.date) })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="config-import-section-title">
+        {t('plugin.changelog.files', { count: fileChanges.length })}
+      </div>
+      {fileChanges.length === 0 ? (
+        <div className="confirm-dialog-message">{t('plugin.changelog.noFileChanges')}</div>
+      ) : (
+        <ul className="preview-plugin-exec-list">
+          {fileChanges.map((change) => (
+            <li key={change.path}>{t(FILE_STATUS_KEYS[change.status], { path: change.path })}</li>
+          ))}
+        </ul>
+      )}
+
+      {changelog.changelog && (
+        <>
+          <div className="config-import-section-title">CHANGELOG.md</div>
+          <pre className="plugin-changelog-text">{changelog.changelog}</pre>
+        </>
+      )}
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary" onClick={onClose}>
+          {t('plugin.page.updateSummary.close')}
+        </button>
+        {onUpdate && (
+          <button className="btn btn-primary" onClick={onUpdate}>
+            {t('plugin.changelog.update')}
+          </button>
+        )}
+      </div>
+    </DialogOverlay>
+  );
+}
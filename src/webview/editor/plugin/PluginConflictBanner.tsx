@@ -0,0 +1,87 @@
+import React from 'react';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import type { McpScope } from '../../../shared/types';
+import type { ConflictKind, PluginConflict } from './conflictUtils';
+
+const KIND_LABEL_KEYS: Record<ConflictKind, TranslationKey> = {
+  command: 'plugin.conflicts.kind.command',
+  skill: 'plugin.conflicts.kind.skill',
+  agent: 'plugin.conflicts.kind.agent',
+  mcp: 'plugin.conflicts.kind.mcp',
+};
+
+/** 只有 skill / MCP server 會與 plugin 以外的來源衝突 */
+const EXTERNAL_LABEL_KEYS: Partial<Record<ConflictKind, Record<McpScope, TranslationKey>>> = {
+  skill: {
+    user: 'plugin.conflicts.external.userSkill',
+    project: 'plugin.conflicts.external.projectSkill',
+    local: 'plugin.conflicts.external.projectSkill',
+  },
+  mcp: {
+    user: 'plugin.conflicts.external.userMcp',
+    project: 'plugin.conflicts.external.projectMcp',
+    local: 'plugin.conflicts.external.localMcp',
+  },
+};
+
+interface PluginConflictBannerProps {
+  conflicts: PluginConflict[];
+  /** conflicts filter 已開啟時隱藏「只顯示衝突」按鈕 */
+  filterActive: boolean;
+  onJumpToPlugin: (pluginId: string) => void;
+  onShowConflicting: () => void;
+  onDismiss: () => void;
+}
+
+/** 已啟用 plugin 的名稱衝突警告：列出每個衝突名稱與相關 plugin（點擊跳到 card） */
+export function PluginConflictBanner({
+  conflicts,
+  filterActive,
+  onJumpToPlugin,
+  onShowConflicting,
+  onDismiss,
+}: PluginConflictBannerProps): React.ReactElement {
+  const { t } = useI18n();
+
+  return (
+    <div className="warning-banner plugin-conflict-banner" role="status">
+      <div className="plugin-conflict-body">
+        <span className="plugin-conflict-title">{t('plugin.conflicts.title', { count: conflicts.length })}</span>
+        <ul className="plugin-conflict-list">
+          {conflicts.map((conflict) => (
+            <li key={`${conflict.kind}:${conflict.name}`} className="plugin-conflict-item">
+              <span>{t(KIND_LABEL_KEYS[conflict.kind])}</span>
+              <code>{conflict.kind === 'command' ? `/${conflict.name}` : conflict.name}</code>
+              <span aria-hidden="true">—</span>
+              {conflict.pluginIds.map((pluginId) => (
+                <button
+                  key={pluginId}
+                  className="plugin-conflict-link"
+                  onClick={() => onJumpToPlugin(pluginId)}
+                >
+                  {pluginId}
+                </button>
+              ))}
+              {conflict.externalScopes.map((scope) => (
+                <span key={scope} className="plugin-conflict-external">
+                  {t(EXTERNAL_LABEL_KEYS[conflict.kind]![scope])}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="plugin-conflict-actions">
+        {!filterActive && (
+          <button className="btn btn-secondary btn-sm" onClick={onShowConflicting}>
+            {t('plugin.conflicts.showOnly')}
+          </button>
+        )}
+        <button className="btn-dismiss" onClick={onDismiss} aria-label={t('error.dismiss')}>
+          ×
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import React, { useId, useMemo } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { renderMarkdown } from '../../components/ContentDetailPanel';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import { sendRequest } from '../../vscode';
+import { formatBytes } from '../../utils/formatBytes';
+import type { MergedPlugin, PluginDetails, PluginDevLink, PluginScope } from '../../../shared/types';
+
+interface PluginDetailPanelProps {
+  plugin: MergedPlugin;
+  details: PluginDetails;
+  onClose: () => void;
+  /** 此 plugin 各 scope 的 dev link */
+  devLinks?: PluginDevLink[];
+  /** 提供時每個已安裝 scope 顯示 Link folder / Unlink */
+  onDevLink?: (scope: PluginScope) => void;
+  onDevUnlink?: (scope: PluginScope) => void;
+  devLinkBusy?: boolean;
+}
+
+const SCOPES: PluginScope[] = ['user', 'project', 'local'];
+
+const SCOPE_LABEL_KEYS: Record<PluginScope, TranslationKey> = {
+  user: 'bulk.scopeUser',
+  project: 'bulk.scopeProject',
+  local: 'bulk.scopeLocal',
+};
+
+/** 與 PluginCard 的 scope toggle 相同的 enabled 判斷 */
+function isScopeEnabled(plugin: MergedPlugin, scope: PluginScope): boolean {
+  const fromSettings = !!plugin.settingsEnabledScopes?.includes(scope);
+  if (scope === 'project') return plugin.projectInstalls.some((i) => i.enabled) || fromSettings;
+  const install = scope === 'user' ? plugin.userInstall : plugin.localInstall;
+  return install?.enabled ?? fromSettings;
+}
+
+/** Plugin 詳情頁：README、plugin.json metadata、各 scope 安裝狀態（commit、磁碟用量） */
+export function PluginDetailPanel({
+  plugin,
+  details,
+  onClose,
+  devLinks = [],
+  onDevLink,
+  onDevUnlink,
+  devLinkBusy = false,
+}: PluginDetailPanelProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const { metadata, availableSha } = details;
+  const readmeHtml = useMemo(
+    () => (details.readme ? renderMarkdown(details.readme) : ''),
+    [details.readme],
+  );
+  const links = [
+    metadata.homepage && { label: t('plugin.detail.homepage'), url: metadata.homepage },
+    metadata.repository && metadata.repository !== metadata.homepage
+      && { label: t('plugin.detail.repository'), url: metadata.repository },
+  ].filter((link): link is { label: string; url: string } => !!link);
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onClose} className="skill-detail-dialog">
+      <div className="skill-detail-header">
+        <div className="skill-detail-title" id={titleId}>
+          {plugin.name}
+          {plugin.version && <span className="plugin-detail-version">v{plugin.version}</span>}
+        </div>
+        {plugin.description && <div className="skill-detail-desc">{plugin.description}</div>}
+        <div className="skill-detail-tags">
+          {metadata.author && (
+            <span className="skill-detail-tag skill-detail-tag--meta">
+              {t('plugin.detail.author', { name: metadata.author })}
+            </span>
+          )}
+          {metadata.license && (
+            <span className="skill-detail-tag">{t('plugin.detail.license', { license: metadata.license })}</span>
+          )}
+          {metadata.keywords.map((keyword) => (
+            <span key={keyword} className="skill-detail-tag skill-detail-tag--tool">{keyword}</span>
+          ))}
+        </div>
+        {links.length > 0 && (
+          <div className="plugin-detail-links">
+            {links.map((link) => (
+              <button
+                key={link.url}
+                className="btn btn-secondary btn-sm"
+                title={link.url}
+                onClick={() => void sendRequest({ type: 'openExternal', url: link.url })}
+              >
+                {link.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="skill-detail-content">
+        <div className="content-section-label">{t('plugin.detail.installs')}</div>
+        {availableSha && (
+          <div className="update-summary-commit">
+            {t('plugin.detail.availableCommit', { sha: availableSha.slice(0, 7) })}
+          </div>
+        )}
+        <div className="plugin-detail-installs">
+          {SCOPES.map((scope) => {
+            const install = details.installs.find((i) => i.scope === scope);
+            const behind = !!install?.gitCommitSha && !!availableSha && install.gitCommitSha !== availableSha;
+            const devLink = devLinks.find((link) => link.scope === scope);
+            return (
+              <React.Fragment key={scope}>
+                <div className="plugin-detail-install-row" data-scope={scope}>
+                  <span className="plugin-detail-install-scope">{t(SCOPE_LABEL_KEYS[scope])}</span>
+                  {!install ? (
+                    <span className="plugin-detail-install-meta">{t('plugin.detail.notInstalled')}</span>
+                  ) : (
+                    <>
+                      <span className="plugin-detail-install-state">
+                        {isScopeEnabled(plugin, scope) ? t('plugin.detail.enabled') : t('plugin.detail.disabled')}
+                      </span>
+                      <span className="plugin-detail-install-meta">
+                        {[
+                          `v${install.version}`,
+                          install.gitCommitSha ? install.gitCommitSha.slice(0, 7) : t('plugin.detail.commitUnknown'),
+                          formatBytes(install.diskBytes),
+                        ].join(' · ')}
+                      </span>
+                      {behind && !devLink && <span className="plugin-detail-behind">{t('plugin.detail.behind')}</span>}
+                      {devLink && <span className="scope-badge scope-badge--dev">{t('plugin.card.dev')}</span>}
+                      {devLink && onDevUnlink && (
+                        <button
+                          className="btn btn-secondary btn-sm plugin-detail-dev-action"
+                          onClick={() => onDevUnlink(scope)}
+                          disabled={devLinkBusy}
+                        >
+                          {t('plugin.devLink.unlink')}
+                        </button>
+                      )}
+                      {!devLink && onDevLink && (
+                        <button
+                          className="btn btn-secondary btn-sm plugin-detail-dev-action"
+                          onClick={() => onDevLink(scope)}
+                          disabled={devLinkBusy}
+                        >
+                          {t('plugin.devLink.link')}
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+                {devLink && (
+                  <div className="plugin-detail-dev-link" data-scope={scope}>
+                    <div className="plugin-detail-install-meta" title={devLink.path}>
+                      {t('plugin.devLink.path', { path: devLink.path })}
+                    </div>
+                    {devLink.issues.length === 0 ? (
+                      <div className="plugin-detail-dev-ok">{t('plugin.devLink.noIssues')}</div>
+                    ) : (
+                      <ul className="plugin-detail-dev-issues">
+                        {devLink.issues.map((issue, i) => (
+                          <li key={i} className={`plugin-detail-dev-issue plugin-detail-dev-issue--${issue.severity}`}>
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        <div className="content-section-label plugin-detail-readme-label">{t('plugin.detail.readme')}</div>
+        {readmeHtml ? (
+          <div className="detail-markdown" dangerouslySetInnerHTML={{ __html: readmeHtml }} />
+        ) : (
+          <div className="skill-search-hint">{t('plugin.detail.noReadme')}</div>
+        )}
+      </div>
+
+      <div className="skill-detail-actions">
+        <button className="btn btn-secondary" onClick={onClose}>
+          {t('plugin.detail.close')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useId, useState } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import { formatDate } from '../../utils/formatDate';
+import type { InstalledPlugin, MergedPlugin, PluginScope, PluginVersionSnapshot } from '../../../shared/types';
+
+interface PluginHistoryDialogProps {
+  plugin: MergedPlugin;
+  snapshots: PluginVersionSnapshot[];
+  rollingBack: boolean;
+  onRollback: (scope: PluginScope, snapshot: PluginVersionSnapshot) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABEL_KEYS: Record<PluginScope, TranslationKey> = {
+  user: 'bulk.scopeUser',
+  project: 'bulk.scopeProject',
+  local: 'bulk.scopeLocal',
+};
+
+/** 各已安裝 scope 目前使用的 install（project 取當前 workspace 的第一筆） */
+function getCurrentInstalls(plugin: MergedPlugin): Array<[PluginScope, InstalledPlugin]> {
+  const installs: Array<[PluginScope, InstalledPlugin | null | undefined]> = [
+    ['user', plugin.userInstall],
+    ['project', plugin.projectInstalls[0]],
+    ['local', plugin.localInstall],
+  ];
+  return installs.filter((pair): pair is [PluginScope, InstalledPlugin] => !!pair[1]);
+}
+
+/** plugin 版本歷史：列出保留的舊版本，選擇 scope 後 rollback */
+export function PluginHistoryDialog({
+  plugin,
+  snapshots,
+  rollingBack,
+  onRollback,
+  onClose,
+}: PluginHistoryDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const scopeId = useId();
+  const installs = getCurrentInstalls(plugin);
+  const [scope, setScope] = useState<PluginScope | undefined>(installs[0]?.[0]);
+  const current = installs.find(([s]) => s === scope)?.[1];
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onClose} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('plugin.history.title', { name: plugin.name })}
+      </div>
+      <p className="settings-field-description">{t('plugin.history.intro')}</p>
+
+      {installs.length > 1 && (
+        <div className="form-row">
+          <label className="form-label" htmlFor={scopeId}>{t('plugin.history.scope')}</label>
+          <select
+            id={scopeId}
+            className="select"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as PluginScope)}
+            disabled={rollingBack}
+          >
+            {installs.map(([s]) => (
+              <option key={s} value={s}>{t(SCOPE_LABEL_KEYS[s])}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {current && (
+        <div className="update-summary-commit">
+          {t('plugin.history.current', { scope: t(SCOPE_LABEL_KEYS[current.scope]), version: current.version })}
+        </div>
+      )}
+
+      {snapshots.length === 0 ? (
+        <div className="confirm-dialog-message">{t('plugin.history.empty')}</div>
+      ) : (
+        <div className="preview-plugin-list">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.installPath} className="preview-plugin-item history-item">
+              <div>
+                <div className="preview-plugin-name">
+                  {snapshot.version}
+                  {snapshot.gitCommitSha && (
+                    <span className="preview-plugin-version">{snapshot.gitCommitSha.slice(0, 7)}</span>
+                  )}
+                </div>
+                <div className="preview-plugin-desc">
+                  {t('plugin.history.dates', {
+                    updated: formatDate(snapshot.lastUpdated),
+                    replaced: formatDate(snapshot.replacedAt),
+                  })}
+                </div>
+              </div>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => scope && onRollback(scope, snapshot)}
+                disabled={rollingBack || !scope || current?.installPath === snapshot.installPath}
+              >
+                {t('plugin.history.rollback')}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-primary" onClick={onClose} disabled={rollingBack}>
+          {rollingBack ? t('plugin.history.rollingBack') : t('plugin.page.updateSummary.close')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import type { PluginHook } from '../../../shared/types';
+import { sendRequest } from '../../vscode';
+import { useI18n } from '../../i18n/I18nContext';
+import { formatExplainError, renderSimpleMarkdown } from '../../utils/hookExplanation';
+
+interface PluginHookListProps {
+  hooks: PluginHook[];
+  /** card 展開時才載入快取的解釋（收合的 card 不發 request） */
+  active: boolean;
+}
+
+/** 與 HookExplanationService.loadCached 回傳的 key 一致 */
+function explanationKey(hook: PluginHook, locale: string): string {
+  return `${hook.scriptPath ?? hook.command}:${locale}`;
+}
+
+/** Plugin card 展開後的 hooks：event、matcher、type、command，每個 hook 可請 AI 解釋 */
+export function PluginHookList({ hooks, active }: PluginHookListProps): React.ReactElement {
+  const { t, locale } = useI18n();
+  const [explanations, setExplanations] = useState<ReadonlyMap<string, string>>(new Map());
+  const [explaining, setExplaining] = useState<ReadonlySet<string>>(new Set());
+  const [errors, setErrors] = useState<ReadonlyMap<string, string>>(new Map());
+
+  useEffect(() => {
+    if (!active || hooks.length === 0) return;
+    const items = hooks.map((hook) => ({ hookContent: hook.command, locale, filePath: hook.scriptPath }));
+    let cancelled = false;
+    void (async () => {
+      try {
+        const cached = await sendRequest<Record<string, string>>({ type: 'hooks.loadCachedExplanations', items });
+        if (!cancelled && cached && Object.keys(cached).length > 0) {
+          setExplanations((prev) => new Map([...prev, ...Object.entries(cached)]));
+        }
+      } catch { /* ignore */ }
+    })();
+    return () => { cancelled = true; };
+  }, [active, hooks, locale]);
+
+  const handleExplain = async (hook: PluginHook): Promise<void> => {
+    const key = explanationKey(hook, locale);
+    setExplaining((prev) => new Set([...prev, key]));
+    setErrors((prev) => {
+      const next = new Map(prev);
+      next.delete(key);
+      return next;
+    });
+    try {
+      const { explanation } = await sendRequest<{ explanation: string; fromCache: boolean }>({
+        type: 'hooks.explain',
+        hookContent: hook.command,
+        eventType: hook.event,
+        locale,
+        filePath: hook.scriptPath,
+        refresh: explanations.has(key) || undefined,
+      }, 120_000);
+      setExplanations((prev) => new Map([...prev, [key, explanation]]));
+    } catch (e) {
+      setErrors((prev) => new Map([...prev, [key, formatExplainError(t('settings.hooks.explanationError'), e)]]));
+    } finally {
+      setExplaining((prev) => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="content-section plugin-hook-list">
+      <div className="content-section-label">Hooks</div>
+      {hooks.map((hook, i) => {
+        const key = explanationKey(hook, locale);
+        const explanation = explanations.get(key);
+        const error = errors.get(key);
+        const isExplaining = explaining.has(key);
+        return (
+          <div key={i} className="content-item hooks-hook-item-wrapper">
+            <div className="hooks-hook-item" title={hook.command}>
+              <span className="hooks-hook-type">{hook.type}</span>
+              <span className="content-item-name">
+                {hook.matcher ? `${hook.event} (${hook.matcher})` : hook.event}
+              </span>
+              <span className="hooks-hook-label">{hook.command}</span>
+              <button
+                className={`btn btn-sm ${explanation ? 'btn-icon' : 'btn-secondary'}`}
+                type="button"
+                disabled={isExplaining}
+                aria-label={isExplaining ? t('settings.hooks.explaining') : t('settings.hooks.explain')}
+                title={t('settings.hooks.explainTooltip')}
+                onClick={(e) => { e.stopPropagation(); void handleExplain(hook); }}
+              >
+                {isExplaining
+                  ? <span className="scope-spinner hooks-explain-spinner" aria-hidden="true" />
+                  : explanation
+                    ? <svg className="hooks-refresh-icon" viewBox="0 0 16 16" width="14" height="14" aria-hidden="true"><path fill="currentColor" d="M13.45 5.17A6 6 0 0 0 2.05 7H.5l2.5 3 2.5-3H3.95a4.5 4.5 0 0 1 8.53-1.33l.97-.5ZM13 6l-2.5 3h1.55a4.5 4.5 0 0 1-8.53 1.33l-.97.5A6 6 0 0 0 13.95 9H15.5L13 6Z" /></svg>
+                    : t('settings.hooks.explain')}
+              </button>
+            </div>
+            {explanation && (
+              <div
+                className="hooks-explanation-text"
+                dangerouslySetInnerHTML={{ __html: renderSimpleMarkdown(explanation) }}
+              />
+            )}
+            {error && <div className="plugin-hook-explain-error" role="alert">{error}</div>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React from 'react';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import type { PluginLockDriftKind, PluginLockStatus } from '../../../shared/types';
+
+const DRIFT_LABEL_KEYS: Record<PluginLockDriftKind, TranslationKey> = {
+  missing: 'plugin.lock.drift.missing',
+  commit: 'plugin.lock.drift.commit',
+  version: 'plugin.lock.drift.version',
+  enabled: 'plugin.lock.drift.enabled',
+  disabled: 'plugin.lock.drift.disabled',
+};
+
+interface PluginLockfileBannerProps {
+  status: PluginLockStatus;
+  syncing: boolean;
+  onSync: () => void;
+  onJumpToPlugin: (pluginId: string) => void;
+  onDismiss: () => void;
+}
+
+/** workspace 與 `.claude/plugins.lock.json` 不一致時的警告：列出每個差異並提供 Sync from lockfile */
+export function PluginLockfileBanner({
+  status,
+  syncing,
+  onSync,
+  onJumpToPlugin,
+  onDismiss,
+}: PluginLockfileBannerProps): React.ReactElement {
+  const { t } = useI18n();
+  const pluginCount = new Set(status.drift.map((d) => d.pluginId)).size;
+
+  return (
+    <div className="warning-banner plugin-conflict-banner" role="status">
+      <div className="plugin-conflict-body">
+        <span className="plugin-conflict-title">
+          {status.error
+            ? t('plugin.lock.invalid', { error: status.error })
+            : t('plugin.lock.driftTitle', { count: pluginCount })}
+        </span>
+        {!status.error && (
+          <ul className="plugin-conflict-list">
+            {status.drift.map((drift) => (
+              <li key={`${drift.pluginId}:${drift.kind}`} className="plugin-conflict-item">
+                <button className="plugin-conflict-link" onClick={() => onJumpToPlugin(drift.pluginId)}>
+                  {drift.pluginId}
+                </button>
+                <span aria-hidden="true">—</span>
+                <span>{t(DRIFT_LABEL_KEYS[drift.kind])}</span>
+                {drift.expected && (
+                  <code>
+                    {drift.actual ? `${drift.actual.slice(0, 12)} → ` : ''}{drift.expected.slice(0, 12)}
+                  </code>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="plugin-conflict-actions">
+        {!status.error && (
+          <button className="btn btn-secondary btn-sm" onClick={onSync} disabled={syncing}>
+            {syncing ? t('plugin.lock.syncing') : t('plugin.lock.sync')}
+          </button>
+        )}
+        <button className="btn-dismiss" onClick={onDismiss} aria-label={t('error.dismiss')}>
+          ×
+        </button>
+      </div>
+    </div>
+  );
+}
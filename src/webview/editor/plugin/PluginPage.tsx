@@ -6,36 +6,64 @@ import { EmptyState, PluginIcon, NoResultsIcon } from '../../components/EmptySta
 import { ErrorBanner } from '../../components/ErrorBanner';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { DialogOverlay } from '../../components/DialogOverlay';
-import { ActionMenu } from '../../components/ActionMenu';
+import { ActionMenu, type ActionMenuItem } from '../../components/ActionMenu';
 import { PluginDialogs } from './PluginDialogs';
 import { PluginToolbar } from './PluginToolbar';
 import { PluginSections } from './PluginSections';
 import { OrphanedSection } from './OrphanedSection';
 import { ContentDetailPanel } from '../../components/ContentDetailPanel';
-import type { ContentTypeFilter } from './filterUtils';
+import { OperationProgressDialog } from './OperationProgressDialog';
+import { ConfigImportDialog } from './ConfigImportDialog';
+import { MarketplaceUpdateSummaryDialog } from './MarketplaceUpdateSummaryDialog';
+import { MarketplacePreviewDialog } from './MarketplacePreviewDialog';
+import { ScaffoldPluginDialog } from './ScaffoldPluginDialog';
+import { PinRefDialog } from './PinRefDialog';
+import { MarketplaceManifestDialog } from './MarketplaceManifestDialog';
+import { PluginHistoryDialog } from './PluginHistoryDialog';
+import { PluginChangelogDialog } from './PluginChangelogDialog';
+import { PluginConflictBanner } from './PluginConflictBanner';
+import { PluginLockfileBanner } from './PluginLockfileBanner';
+import { PluginSecurityReviewDialog } from './PluginSecurityReviewDialog';
+import { PluginDetailPanel } from './PluginDetailPanel';
+import { PluginBulkActionBar } from './PluginBulkActionBar';
+import { PluginBulkResultDialog } from './PluginBulkResultDialog';
+import { PluginProfileDiffDialog } from './PluginProfileDiffDialog';
+import { PluginUpdateAllSummaryDialog } from './PluginUpdateAllSummaryDialog';
+import { PluginProfileManageDialog } from './PluginProfileManageDialog';
+import { PluginSourceInstallDialog } from './PluginSourceInstallDialog';
+import { getContextBudget, getInstalledScopes, type ContentTypeFilter } from './filterUtils';
 import { usePluginData } from './hooks/usePluginData';
 import { usePluginFilters } from './hooks/usePluginFilters';
 import { usePluginOperations } from './hooks/usePluginOperations';
+import { usePluginHistory } from './hooks/usePluginHistory';
+import { usePluginChangelog } from './hooks/usePluginChangelog';
+import { usePluginDetails } from './hooks/usePluginDetails';
+import { usePluginBulkActions } from './hooks/usePluginBulkActions';
+import { usePluginProfiles } from './hooks/usePluginProfiles';
+import { usePluginSourceInstall } from './hooks/usePluginSourceInstall';
+import { usePluginDevLinks } from './hooks/usePluginDevLinks';
+import { usePluginUsage } from './hooks/usePluginUsage';
+import { usePluginLockfile } from './hooks/usePluginLockfile';
+import { usePluginConflicts } from './hooks/usePluginConflicts';
+import { usePluginSecurityReview } from './hooks/usePluginSecurityReview';
 import { PageHeader } from '../../components/PageHeader';
 import { useTranslation } from './hooks/useTranslation';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 import { usePluginPageViewState } from './hooks/usePluginPageViewState';
 import { useMarketplaceActions } from '../marketplace/hooks/useMarketplaceActions';
+import { useConfigBundle } from '../marketplace/hooks/useConfigBundle';
+import { usePluginScaffold } from '../marketplace/hooks/usePluginScaffold';
+import { useMarketplaceManifest } from '../marketplace/hooks/useMarketplaceManifest';
 import { onPushMessage, sendRequest } from '../../vscode';
 import type {
+  ConfigImportPhase,
   MarketplaceReinstallPhase,
   MarketplaceReinstallProgress,
   PluginContentItem,
   PluginScope,
 } from '../../../shared/types';
 import type { ContentDetail } from '../../components/ContentDetailPanel';
-
-function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
-}
+import { formatBytes } from '../../utils/formatBytes';
 
 function getReinstallPhaseLabel(
   t: ReturnType<typeof useI18n>['t'],
@@ -44,6 +72,13 @@ function getReinstallPhaseLabel(
   return t(`plugin.page.reinstallPhase.${phase}` as Parameters<typeof t>[0]);
 }
 
+function getImportPhaseLabel(
+  t: ReturnType<typeof useI18n>['t'],
+  phase: ConfigImportPhase,
+): string {
+  return t(`plugin.page.importPhase.${phase}` as Parameters<typeof t>[0]);
+}
+
 
 /**
  * Plugin 管理頁面。
@@ -66,6 +101,18 @@ export function PluginPage(): React.ReactElement {
     fetchAll,
   } = usePluginData();
 
+  const { conflicts, conflictingIds } = usePluginConflicts(plugins);
+  const { usage, neverUsedIds } = usePluginUsage(plugins);
+  const contextBudget = getContextBudget(plugins);
+  const {
+    securityReview,
+    acknowledging,
+    confirmSecurityReview,
+    confirmSourceSecurityReview,
+    acknowledgeReview,
+    cancelReview,
+  } = usePluginSecurityReview();
+
   const {
     search,
     setSearch,
@@ -73,6 +120,12 @@ export function PluginPage(): React.ReactElement {
     flushSearch,
     filterEnabled,
     setFilterEnabled,
+    filterUpdates,
+    setFilterUpdates,
+    filterConflicts,
+    setFilterConflicts,
+    filterNeverUsed,
+    setFilterNeverUsed,
     contentTypeFilters,
     setContentTypeFilters,
     sourceFormatFilters,
@@ -92,21 +145,24 @@ export function PluginPage(): React.ReactElement {
     setShowHidden,
     toggleHidden,
     ready,
-  } = usePluginFilters(plugins);
+  } = usePluginFilters(plugins, conflictingIds, neverUsedIds);
 
   const {
     loadingPlugins,
     installError,
     setInstallError,
     updateAllProgress,
-    updateAllErrors,
-    setUpdateAllErrors,
+    updateAllResult,
+    closeUpdateAllResult,
+    retryFailedUpdates,
     handleToggle,
+    installingPlugins,
+    handleCancelInstall,
     handleUpdate,
     handleUpdateAll,
     isUpdatingAll,
     hasInstalledPlugins,
-  } = usePluginOperations(plugins, fetchAll, setError);
+  } = usePluginOperations(plugins, fetchAll, setError, confirmSecurityReview);
 
   const {
     translations,
@@ -161,24 +217,124 @@ export function PluginPage(): React.ReactElement {
     handleAdd,
     handleRemove,
     handleUpdate: handleMarketplaceUpdate,
+    updateSummaries,
+    handleCloseUpdateSummary,
     handleToggleAutoUpdate,
+    handlePin,
+    handleUnpin,
     reinstalling,
     handleReinstallAll,
+    handleReinstall,
+    cancellable: marketplaceCancellable,
+    handleCancelOperation: handleCancelMarketplaceOperation,
   } = useMarketplaceActions({ fetchList: fetchAll, setError });
 
+  const {
+    exporting,
+    handleExport,
+    loadingImport,
+    pendingImport,
+    handlePickImport,
+    handleCancelImport,
+    importing,
+    importProgress,
+    handleConfirmImport,
+  } = useConfigBundle({ fetchList: fetchAll, setError });
+
+  const {
+    showScaffold,
+    openScaffold,
+    closeScaffold,
+    scaffolding,
+    handlePickScaffoldDirectory,
+    handleScaffold,
+  } = usePluginScaffold({ fetchList: fetchAll, setError });
+
+  const {
+    manifestTarget,
+    openManifestEditor,
+    closeManifestEditor,
+    savingManifest,
+    handleSaveManifest,
+  } = useMarketplaceManifest({ fetchList: fetchAll, setError });
+
+  const {
+    historyTarget,
+    openHistory,
+    closeHistory,
+    rollingBack,
+    handleRollback,
+  } = usePluginHistory({ fetchAll, setError });
+  const historyPlugin = historyTarget ? plugins.find((p) => p.id === historyTarget.pluginId) : undefined;
+
+  const {
+    changelog,
+    loadingChangelogId,
+    openChangelog,
+    closeChangelog,
+  } = usePluginChangelog({ setError });
+  const changelogPlugin = changelog ? plugins.find((p) => p.id === changelog.pluginId) : undefined;
+  const {
+    details,
+    loadingDetailsId,
+    openDetails,
+    closeDetails,
+  } = usePluginDetails({ setError });
+  const detailsPlugin = details ? plugins.find((p) => p.id === details.pluginId) : undefined;
+  const {
+    selectedPlugins,
+    toggleSelected,
+    selectAll,
+    clearSelection,
+    bulkRunning,
+    runBulkAction,
+    bulkResult,
+    closeBulkResult,
+  } = usePluginBulkActions({ fetchAll, setError, confirmSecurityReview });
+  const {
+    profiles,
+    activeProfile,
+    profileDiff,
+    profileBusy,
+    previewProfile,
+    applyProfile,
+    closeProfileDiff,
+    saveProfile,
+    deleteProfile,
+  } = usePluginProfiles({ fetchAll, setError });
+  const {
+    showSourceInstall,
+    openSourceInstall,
+    closeSourceInstall,
+    installingSource,
+    handleInstallFromSource,
+  } = usePluginSourceInstall({ fetchAll, setError, confirmSourceSecurityReview });
+  const {
+    devLinksByPlugin,
+    devLinkBusy,
+    handleDevLink,
+    handleDevUnlink,
+  } = usePluginDevLinks({ fetchAll, setError });
+  const { lockStatus, lockBusy, syncLockfile, writeLockfile } = usePluginLockfile({ fetchAll, setError });
+
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showProfileManager, setShowProfileManager] = useState(false);
   const [confirmReinstallAll, setConfirmReinstallAll] = useState(false);
+  const [confirmReinstall, setConfirmReinstall] = useState<string | null>(null);
+  const [pinTarget, setPinTarget] = useState<string | null>(null);
   const [pruningCache, setPruningCache] = useState(false);
   const [reinstallProgress, setReinstallProgress] = useState<MarketplaceReinstallProgress | null>(null);
-  const reinstallDialogTitleId = useId();
 
   useEffect(() => {
     return onPushMessage((message) => {
       if (message.type === 'marketplace.reinstallProgress' && message.progress) {
         setReinstallProgress(message.progress as MarketplaceReinstallProgress);
       }
+      if (message.type === 'plugin.showUpdates') {
+        setFilterUpdates(true);
+      }
     });
-  }, []);
+  }, [setFilterUpdates]);
 
   useEffect(() => {
     if (!reinstalling) {
@@ -186,6 +342,35 @@ export function PluginPage(): React.ReactElement {
     }
   }, [reinstalling]);
 
+  // 衝突 banner 關閉後，衝突內容改變才重新顯示
+  const conflictSignature = conflicts.map((c) => `${c.kind}:${c.name}:${c.pluginIds.join(',')}`).join('|');
+  const [dismissedConflicts, setDismissedConflicts] = useState<string | null>(null);
+  // lockfile banner 同理：差異內容改變才重新顯示
+  const lockDriftSignature = lockStatus?.error
+    ?? (lockStatus?.drift ?? []).map((d) => `${d.pluginId}:${d.kind}:${d.expected ?? ''}`).join('|');
+  const [dismissedLockDrift, setDismissedLockDrift] = useState<string | null>(null);
+  const showLockBanner = !!lockStatus?.exists
+    && (!!lockStatus.error || lockStatus.drift.length > 0)
+    && dismissedLockDrift !== lockDriftSignature;
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+
+  /** 展開 plugin 所屬 marketplace，render 後捲動到該 card */
+  const handleJumpToPlugin = (pluginId: string): void => {
+    const plugin = plugins.find((p) => p.id === pluginId);
+    if (!plugin) return;
+    const marketplace = plugin.marketplaceName ?? 'other';
+    setExpanded((prev) => (prev.has(marketplace) ? prev : new Set(prev).add(marketplace)));
+    setJumpTarget(pluginId);
+  };
+
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const card = document.querySelector<HTMLElement>(`[data-plugin-id="${jumpTarget}"]`);
+    card?.scrollIntoView({ block: 'center' });
+    card?.focus();
+    setJumpTarget(null);
+  }, [jumpTarget]);
+
   const handlePruneCache = async (): Promise<void> => {
     setPruningCache(true);
     try {
@@ -237,6 +422,7 @@ export function PluginPage(): React.ReactElement {
   const handleInstallOnly = async (pluginId: string): Promise<void> => {
     setInstallOnlyId(pluginId);
     try {
+      if (!(await confirmSecurityReview(pluginId))) return;
       await sendRequest({ type: 'plugin.install', plugin: pluginId, scope: 'user' });
       // install auto-enables → immediately disable（disable 失敗不阻斷，但仍 refresh）
       await sendRequest({ type: 'plugin.disable', plugin: pluginId, scope: 'user' }).catch(() => { /* CLI enable/disable exit 1 on duplicate ops */ });
@@ -288,6 +474,18 @@ export function PluginPage(): React.ReactElement {
     cardSelector: '.card[tabindex]',
   });
   const maintenanceActions = [
+    {
+      key: 'scaffold-plugin',
+      label: t('plugin.page.scaffoldPlugin'),
+      onSelect: openScaffold,
+      disabled: loading || scaffolding,
+    },
+    {
+      key: 'install-from-source',
+      label: t('plugin.page.installFromSource'),
+      onSelect: openSourceInstall,
+      disabled: loading || installingSource,
+    },
     {
       key: 'reinstall-all',
       label: reinstalling ? t('plugin.page.reinstallingAll') : t('plugin.page.reinstallAll'),
@@ -301,8 +499,40 @@ export function PluginPage(): React.ReactElement {
       onSelect: handlePruneCache,
       disabled: loading || pruningCache,
     },
+    {
+      key: 'write-lockfile',
+      label: lockBusy ? t('plugin.lock.writing') : t('plugin.lock.write'),
+      onSelect: () => void writeLockfile(),
+      disabled: loading || lockBusy || workspaceFolders.length === 0,
+    },
+    {
+      key: 'export-config',
+      label: exporting ? t('plugin.page.exportingConfig') : t('plugin.page.exportConfig'),
+      onSelect: handleExport,
+      disabled: loading || exporting,
+    },
+    {
+      key: 'import-config',
+      label: loadingImport || importing ? t('plugin.page.importingConfig') : t('plugin.page.importConfig'),
+      onSelect: handlePickImport,
+      disabled: loading || loadingImport || importing || reinstalling,
+    },
   ];
   const maintenanceMenuDisabled = maintenanceActions.every((action) => action.disabled);
+  const profileActions: ActionMenuItem[] = [
+    ...profiles.map((profile) => ({
+      key: `profile-${profile.name}`,
+      label: profile.name === activeProfile ? `✓ ${profile.name}` : profile.name,
+      onSelect: () => void previewProfile(profile.name),
+      disabled: loading || profileBusy,
+    })),
+    {
+      key: 'manage-profiles',
+      label: t('plugin.profile.manageItem'),
+      onSelect: () => setShowProfileManager(true),
+      disabled: loading,
+    },
+  ];
 
   return (
     <div className="page-container">
@@ -323,7 +553,9 @@ export function PluginPage(): React.ReactElement {
               disabled={loading || isUpdatingAll}
             >
               {isUpdatingAll
-                ? t('plugin.page.updating', { current: updateAllProgress?.current ?? 0, total: updateAllProgress?.total ?? 0 })
+                ? updateAllProgress?.total
+                  ? t('plugin.page.updating', { current: updateAllProgress.current, total: updateAllProgress.total })
+                  : t('plugin.page.checkingUpdates')
                 : t('plugin.page.updateAll')}
             </button>
           )}
@@ -336,6 +568,11 @@ export function PluginPage(): React.ReactElement {
           >
             ↻
           </button>
+          <ActionMenu
+            label={activeProfile ? t('plugin.profile.menuActive', { name: activeProfile }) : t('plugin.profile.menu')}
+            menuLabel={t('plugin.profile.menu')}
+            items={profileActions}
+          />
           <ActionMenu
             label={t('plugin.page.more')}
             menuLabel={t('plugin.page.more')}
@@ -356,6 +593,12 @@ export function PluginPage(): React.ReactElement {
         onTranslateOpen={() => { setDraftEmail(translateEmail); setDraftLang(translateLang); setDialogOpen(true); }}
         filterEnabled={filterEnabled}
         onFilterEnabledToggle={() => setFilterEnabled((v) => !v)}
+        filterUpdates={filterUpdates}
+        onFilterUpdatesToggle={() => setFilterUpdates((v) => !v)}
+        filterConflicts={filterConflicts}
+        onFilterConflictsToggle={() => setFilterConflicts((v) => !v)}
+        filterNeverUsed={filterNeverUsed}
+        onFilterNeverUsedToggle={() => setFilterNeverUsed((v) => !v)}
         showHidden={showHidden}
         onShowHiddenToggle={() => setShowHidden((v) => !v)}
         contentTypeFilters={contentTypeFilters}
@@ -374,6 +617,8 @@ export function PluginPage(): React.ReactElement {
         })}
         sortBy={sortBy}
         onSortByChange={setSortBy}
+        contextTokens={contextBudget.tokens}
+        enabledPluginCount={contextBudget.enabledCount}
       />
 
       {error && (
@@ -399,19 +644,22 @@ export function PluginPage(): React.ReactElement {
           }
         />
       )}
-      {updateAllErrors.length > 0 && (
-        <ErrorBanner
-          message={`Update All: ${updateAllErrors.length} failed — ${updateAllErrors.map((e) => `${e.pluginId} (${e.scope})`).join(', ')}`}
-          onDismiss={() => setUpdateAllErrors([])}
-          action={
-            <button
-              className="btn btn-secondary btn-sm"
-              onClick={() => handleUpdateAll(visiblePlugins)}
-              disabled={isUpdatingAll}
-            >
-              {t('plugin.page.retry')}
-            </button>
-          }
+      {!loading && conflicts.length > 0 && dismissedConflicts !== conflictSignature && (
+        <PluginConflictBanner
+          conflicts={conflicts}
+          filterActive={filterConflicts}
+          onJumpToPlugin={handleJumpToPlugin}
+          onShowConflicting={() => setFilterConflicts(true)}
+          onDismiss={() => setDismissedConflicts(conflictSignature)}
+        />
+      )}
+      {!loading && lockStatus && showLockBanner && (
+        <PluginLockfileBanner
+          status={lockStatus}
+          syncing={lockBusy}
+          onSync={() => void syncLockfile()}
+          onJumpToPlugin={handleJumpToPlugin}
+          onDismiss={() => setDismissedLockDrift(lockDriftSignature)}
         />
       )}
       {translateWarning && (
@@ -429,10 +677,22 @@ export function PluginPage(): React.ReactElement {
         />
       )}
 
+      {!loading && ready && totalVisiblePlugins > 0 && (
+        <PluginBulkActionBar
+          selectedCount={selectedPlugins.size}
+          filteredCount={visiblePlugins.length}
+          hasWorkspace={workspaceFolders.length > 0}
+          running={bulkRunning}
+          onRun={(action, scope) => void runBulkAction(action, scope)}
+          onSelectAllFiltered={() => selectAll(visiblePlugins.map((p) => p.id))}
+          onClearSelection={clearSelection}
+        />
+      )}
+
       {loading || !ready ? (
         <PluginCardSkeleton />
       ) : totalVisiblePlugins === 0 ? (
-        debouncedSearch || filterEnabled || contentTypeFilters.size > 0 || sourceFormatFilters.size > 0 || (!showHidden && hiddenPlugins.size > 0) ? (
+        debouncedSearch || filterEnabled || filterUpdates || filterConflicts || filterNeverUsed || contentTypeFilters.size > 0 || sourceFormatFilters.size > 0 || (!showHidden && hiddenPlugins.size > 0) ? (
           <EmptyState
             icon={<NoResultsIcon />}
             title={t('plugin.page.noResults')}
@@ -442,6 +702,9 @@ export function PluginPage(): React.ReactElement {
                 setSearch('');
                 flushSearch('');
                 setFilterEnabled(false);
+                setFilterUpdates(false);
+                setFilterConflicts(false);
+                setFilterNeverUsed(false);
                 setShowHidden(true);
                 setContentTypeFilters(new Set());
                 setSourceFormatFilters(new Set());
@@ -475,6 +738,17 @@ export function PluginPage(): React.ReactElement {
           translations={translations}
           translateStatusMap={translateStatusMap}
           loadingPlugins={loadingPlugins}
+          installingPlugins={installingPlugins}
+          onCancelInstall={handleCancelInstall}
+          onShowHistory={(pluginId) => void openHistory(pluginId)}
+          onShowChangelog={(pluginId) => void openChangelog(pluginId)}
+          loadingChangelogId={loadingChangelogId}
+          onShowDetails={(pluginId) => void openDetails(pluginId)}
+          loadingDetailsId={loadingDetailsId}
+          selectedPlugins={selectedPlugins}
+          onSelectPlugin={toggleSelected}
+          devLinksByPlugin={devLinksByPlugin}
+          usageByPlugin={usage}
           onToggle={handleToggle}
           onUpdate={handleUpdate}
           onToggleHidden={toggleHidden}
@@ -490,6 +764,12 @@ export function PluginPage(): React.ReactElement {
           onMarketplaceUpdate={(name) => handleMarketplaceUpdate(name)}
           onMarketplaceRemove={(name) => setConfirmRemove(name)}
           onMarketplaceToggleAutoUpdate={(name) => handleToggleAutoUpdate(name)}
+          onMarketplaceReinstall={(name) => setConfirmReinstall(name)}
+          marketplaceReinstalling={reinstalling}
+          onMarketplacePin={(name) => setPinTarget(name)}
+          onMarketplaceUnpin={(name) => void handleUnpin(name)}
+          onMarketplaceEditManifest={(name) => void openManifestEditor(name)}
+          onMarketplaceCancelUpdate={marketplaceCancellable ? handleCancelMarketplaceOperation : undefined}
         />
       )}
 
@@ -555,6 +835,24 @@ export function PluginPage(): React.ReactElement {
         </DialogOverlay>
       )}
 
+      {showScaffold && (
+        <ScaffoldPluginDialog
+          scaffolding={scaffolding}
+          onPickDirectory={handlePickScaffoldDirectory}
+          onSubmit={handleScaffold}
+          onCancel={closeScaffold}
+        />
+      )}
+
+      {showSourceInstall && (
+        <PluginSourceInstallDialog
+          hasWorkspace={workspaceFolders.length > 0}
+          installing={installingSource}
+          onSubmit={handleInstallFromSource}
+          onCancel={closeSourceInstall}
+        />
+      )}
+
       {confirmRemove && (
         <ConfirmDialog
           title="Remove Marketplace"
@@ -588,88 +886,164 @@ export function PluginPage(): React.ReactElement {
         />
       )}
 
+      {confirmReinstall && (
+        <ConfirmDialog
+          title={t('plugin.page.reinstallOneTitle')}
+          message={t('plugin.page.reinstallOneMessage', { name: confirmReinstall })}
+          confirmLabel={t('marketplace.card.reinstall')}
+          danger
+          onConfirm={() => {
+            const name = confirmReinstall;
+            setConfirmReinstall(null);
+            setReinstallProgress({ phase: 'clearingCache', current: 0, total: 1 });
+            void handleReinstall(name);
+          }}
+          onCancel={() => setConfirmReinstall(null)}
+        />
+      )}
+
       {(reinstalling || reinstallProgress !== null) && (
-        <DialogOverlay titleId={reinstallDialogTitleId} onClose={() => {}} className="reinstall-progress-dialog">
-          <div className="confirm-dialog-title" id={reinstallDialogTitleId}>
-            {t('plugin.page.reinstallProgressTitle')}
-          </div>
-          <div className="confirm-dialog-message">
-            {getReinstallPhaseLabel(t, reinstallProgress?.phase ?? 'clearingCache')}
-          </div>
-          {reinstallProgress && reinstallProgress.total > 0 && (
-            <div className="reinstall-progress-meta">
-              {t('plugin.page.reinstallProgressCount', {
-                current: String(reinstallProgress.current),
-                total: String(reinstallProgress.total),
-              })}
-            </div>
-          )}
-          {reinstallProgress?.detail && (
-            <div className="reinstall-progress-detail">
-              {t('plugin.page.reinstallProgressDetail', { detail: reinstallProgress.detail })}
-            </div>
-          )}
-          <div
-            className="reinstall-progress-bar"
-            role="progressbar"
-            aria-valuemin={0}
-            aria-valuemax={Math.max(reinstallProgress?.total ?? 1, 1)}
-            aria-valuenow={Math.min(reinstallProgress?.current ?? 0, reinstallProgress?.total ?? 1)}
-          >
-            <div
-              className="reinstall-progress-bar__fill"
-              style={{
-                width: `${Math.max(
-                  8,
-                  Math.min(
-                    100,
-                    (((reinstallProgress?.current ?? 0) / Math.max(reinstallProgress?.total ?? 1, 1)) * 100),
-                  ),
-                )}%`,
-              }}
-            />
-          </div>
-        </DialogOverlay>
+        <OperationProgressDialog
+          title={t('plugin.page.reinstallProgressTitle')}
+          phaseLabel={getReinstallPhaseLabel(t, reinstallProgress?.phase ?? 'clearingCache')}
+          current={reinstallProgress?.current ?? 0}
+          total={reinstallProgress?.total ?? 1}
+          detail={reinstallProgress?.detail}
+          onCancel={marketplaceCancellable ? handleCancelMarketplaceOperation : undefined}
+        />
+      )}
+
+      {pinTarget && (
+        <PinRefDialog
+          marketplace={pinTarget}
+          onConfirm={(ref) => {
+            const name = pinTarget;
+            setPinTarget(null);
+            void handlePin(name, ref);
+          }}
+          onCancel={() => setPinTarget(null)}
+        />
+      )}
+
+      {manifestTarget && (
+        <MarketplaceManifestDialog
+          marketplace={manifestTarget.name}
+          plugins={manifestTarget.plugins}
+          saving={savingManifest}
+          onSave={(plugins) => void handleSaveManifest(plugins)}
+          onCancel={closeManifestEditor}
+        />
+      )}
+
+      {historyTarget && historyPlugin && (
+        <PluginHistoryDialog
+          plugin={historyPlugin}
+          snapshots={historyTarget.snapshots}
+          rollingBack={rollingBack}
+          onRollback={(scope, snapshot) => void handleRollback(scope, snapshot)}
+          onClose={closeHistory}
+        />
+      )}
+
+      {details && detailsPlugin && (
+        <PluginDetailPanel
+          plugin={detailsPlugin}
+          details={details}
+          onClose={closeDetails}
+          devLinks={devLinksByPlugin.get(detailsPlugin.id)}
+          onDevLink={(scope) => void handleDevLink(detailsPlugin.id, scope)}
+          onDevUnlink={(scope) => void handleDevUnlink(detailsPlugin.id, scope)}
+          devLinkBusy={devLinkBusy}
+        />
+      )}
+
+      {updateAllResult && (
+        <PluginUpdateAllSummaryDialog
+          result={updateAllResult}
+          retrying={isUpdatingAll}
+          onRetryFailed={() => void retryFailedUpdates()}
+          onClose={closeUpdateAllResult}
+        />
+      )}
+
+      {bulkResult && (
+        <PluginBulkResultDialog result={bulkResult} onClose={closeBulkResult} />
+      )}
+
+      {profileDiff && (
+        <PluginProfileDiffDialog
+          diff={profileDiff}
+          applying={profileBusy}
+          onApply={() => void applyProfile()}
+          onCancel={closeProfileDiff}
+        />
+      )}
+
+      {showProfileManager && (
+        <PluginProfileManageDialog
+          profiles={profiles}
+          activeProfile={activeProfile}
+          busy={profileBusy}
+          onSave={saveProfile}
+          onDelete={(name) => void deleteProfile(name)}
+          onClose={() => setShowProfileManager(false)}
+        />
+      )}
+
+      {changelog && changelogPlugin && (
+        <PluginChangelogDialog
+          pluginName={changelogPlugin.name}
+          changelog={changelog}
+          onUpdate={() => {
+            closeChangelog();
+            void handleUpdate(changelogPlugin.id, getInstalledScopes(changelogPlugin));
+          }}
+          onClose={closeChangelog}
+        />
+      )}
+
+      {securityReview && (
+        <PluginSecurityReviewDialog
+          report={securityReview}
+          acknowledging={acknowledging}
+          onAcknowledge={() => void acknowledgeReview()}
+          onCancel={cancelReview}
+        />
+      )}
+
+      {updateSummaries && (
+        <MarketplaceUpdateSummaryDialog
+          summaries={updateSummaries}
+          onClose={handleCloseUpdateSummary}
+        />
+      )}
+
+      {pendingImport && (
+        <ConfigImportDialog
+          preview={pendingImport.preview}
+          onConfirm={() => void handleConfirmImport()}
+          onCancel={handleCancelImport}
+        />
+      )}
+
+      {(importing || importProgress !== null) && (
+        <OperationProgressDialog
+          title={t('plugin.page.importProgressTitle')}
+          phaseLabel={getImportPhaseLabel(t, importProgress?.phase ?? 'addingMarketplaces')}
+          current={importProgress?.current ?? 0}
+          total={importProgress?.total ?? 1}
+          detail={importProgress?.detail}
+        />
       )}
 
       {previewPlugins && (
-        <div
-          className="confirm-overlay"
-          onClick={handlePreviewOverlayDismiss}
-          onKeyDown={handlePreviewOverlayDismiss}
-          tabIndex={0}
-        >
-          <div
-            className="confirm-dialog confirm-dialog--preview"
-            role="dialog"
-            aria-modal="true"
-          >
-            <div className="confirm-dialog-title">
-              Marketplace Preview — {previewPlugins.length} plugin{previewPlugins.length !== 1 ? 's' : ''}
-            </div>
-            <div className="preview-plugin-list">
-              {previewPlugins.map((p) => (
-                <div key={p.name} className="preview-plugin-item">
-                  <div className="preview-plugin-name">
-                    {p.name}
-                    {p.version && <span className="preview-plugin-version">{p.version}</span>}
-                  </div>
-                  {p.description && (
-                    <div className="preview-plugin-desc">{p.description}</div>
-                  )}
-                </div>
-              ))}
-            </div>
-            <div className="confirm-dialog-actions">
-              <button className="btn btn-secondary" onClick={handleClosePreview}>
-                Cancel
-              </button>
-              <button className="btn btn-primary" onClick={handleConfirmAdd} disabled={adding}>
-                {adding ? 'Adding...' : 'Add Marketplace'}
-              </button>
-            </div>
-          </div>
-        </div>
+        <MarketplacePreviewDialog
+          plugins={previewPlugins}
+          adding={adding}
+          onCancel={handleClosePreview}
+          onConfirm={handleConfirmAdd}
+          onOverlayDismiss={handlePreviewOverlayDismiss}
+        />
       )}
 
       <PluginDialogs
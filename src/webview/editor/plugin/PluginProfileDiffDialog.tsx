@@ -0,0 +1,79 @@
+import React, { useId } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import { BULK_SCOPE_LABEL_KEYS } from './PluginBulkActionBar';
+import type { PluginProfileChange, PluginProfileDiff } from '../../../shared/types';
+
+interface PluginProfileDiffDialogProps {
+  diff: PluginProfileDiff;
+  applying: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+/** 套用 profile 前的確認：列出將啟用 / 停用的 plugin（含 scope） */
+export function PluginProfileDiffDialog({
+  diff,
+  applying,
+  onApply,
+  onCancel,
+}: PluginProfileDiffDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const unchanged = diff.toEnable.length === 0 && diff.toDisable.length === 0;
+
+  const renderChanges = (changes: PluginProfileChange[], kind: 'enable' | 'disable'): React.ReactNode => (
+    <div className="preview-plugin-list">
+      {changes.map((change) => (
+        <div
+          key={`${change.scope}:${change.pluginId}`}
+          className={`preview-plugin-item plugin-profile-change plugin-profile-change--${kind}`}
+        >
+          <div className="preview-plugin-name">
+            {change.pluginId}
+            <span className="preview-plugin-version">{t(BULK_SCOPE_LABEL_KEYS[change.scope])}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onCancel} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('plugin.profile.diff.title', { name: diff.name })}
+      </div>
+      <div className="confirm-dialog-message">
+        {unchanged
+          ? t('plugin.profile.diff.unchanged')
+          : t('plugin.profile.diff.summary', { enable: diff.toEnable.length, disable: diff.toDisable.length })}
+      </div>
+
+      {diff.toEnable.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.profile.diff.toEnable', { count: diff.toEnable.length })}
+          </div>
+          {renderChanges(diff.toEnable, 'enable')}
+        </>
+      )}
+      {diff.toDisable.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.profile.diff.toDisable', { count: diff.toDisable.length })}
+          </div>
+          {renderChanges(diff.toDisable, 'disable')}
+        </>
+      )}
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary" onClick={onCancel} disabled={applying}>
+          {t('plugin.profile.cancel')}
+        </button>
+        <button className="btn btn-primary" onClick={onApply} disabled={applying}>
+          {applying ? t('plugin.profile.applying') : t('plugin.profile.apply')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
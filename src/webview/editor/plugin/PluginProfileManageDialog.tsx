@@ -0,0 +1,105 @@
+import React, { useId, useState } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import { BULK_SCOPE_LABEL_KEYS } from './PluginBulkActionBar';
+import type { PluginProfile, PluginScope } from '../../../shared/types';
+
+interface PluginProfileManageDialogProps {
+  profiles: PluginProfile[];
+  activeProfile?: string;
+  busy: boolean;
+  /** 儲存成功時 resolve true（清空輸入框） */
+  onSave: (name: string) => Promise<boolean>;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+const SCOPES: PluginScope[] = ['user', 'project', 'local'];
+
+/** 將目前啟用的 plugin 存成 profile，並管理既有 profile（同名覆寫） */
+export function PluginProfileManageDialog({
+  profiles,
+  activeProfile,
+  busy,
+  onSave,
+  onDelete,
+  onClose,
+}: PluginProfileManageDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const inputId = useId();
+  const [name, setName] = useState('');
+  const trimmed = name.trim();
+  const overwriting = profiles.some((p) => p.name === trimmed);
+
+  const handleSave = async (): Promise<void> => {
+    if (!trimmed || busy) return;
+    if (await onSave(trimmed)) setName('');
+  };
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onClose} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>{t('plugin.profile.manage.title')}</div>
+      <p className="settings-field-description">{t('plugin.profile.manage.intro')}</p>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={inputId}>{t('plugin.profile.manage.name')}</label>
+        <input
+          id={inputId}
+          className="input"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') void handleSave(); }}
+          placeholder={t('plugin.profile.manage.namePlaceholder')}
+          disabled={busy}
+          autoFocus
+        />
+        <button className="btn btn-primary" onClick={() => void handleSave()} disabled={busy || !trimmed}>
+          {overwriting ? t('plugin.profile.manage.overwrite') : t('plugin.profile.manage.save')}
+        </button>
+      </div>
+
+      {profiles.length === 0 ? (
+        <div className="confirm-dialog-message">{t('plugin.profile.manage.empty')}</div>
+      ) : (
+        <div className="preview-plugin-list">
+          {profiles.map((profile) => (
+            <div key={profile.name} className="preview-plugin-item history-item">
+              <div>
+                <div className="preview-plugin-name">
+                  {profile.name}
+                  {profile.name === activeProfile && (
+                    <span className="preview-plugin-version">{t('plugin.profile.active')}</span>
+                  )}
+                </div>
+                <div className="preview-plugin-desc">
+                  {SCOPES
+                    .filter((scope) => profile.enabledPlugins[scope])
+                    .map((scope) => t('plugin.profile.manage.scopeCount', {
+                      scope: t(BULK_SCOPE_LABEL_KEYS[scope]),
+                      count: profile.enabledPlugins[scope]!.length,
+                    }))
+                    .join(' · ')}
+                </div>
+              </div>
+              <button
+                className="btn btn-danger btn-sm"
+                onClick={() => onDelete(profile.name)}
+                disabled={busy}
+                aria-label={t('plugin.profile.manage.deleteLabel', { name: profile.name })}
+              >
+                {t('plugin.profile.manage.delete')}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary" onClick={onClose}>
+          {t('plugin.profile.manage.close')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
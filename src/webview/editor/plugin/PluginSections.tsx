@@ -4,7 +4,7 @@ import { CardSection } from '../../components/CardSection';
 import { PluginCard } from './PluginCard';
 import { VirtualCardList } from './VirtualCardList';
 import { getSectionName, getVisibleItems } from './filterUtils';
-import type { Marketplace, MergedPlugin, PluginContentItem, PluginScope } from '../../../shared/types';
+import type { Marketplace, MergedPlugin, PluginContentItem, PluginDevLink, PluginScope, PluginUsageStats } from '../../../shared/types';
 import type { WorkspaceFolder } from './hooks/usePluginData';
 import { useSectionDrop } from './hooks/useSectionDrop';
 
@@ -35,6 +35,23 @@ export interface PluginSectionsProps {
   translations: Record<string, string>;
   translateStatusMap: Map<string, 'translating' | 'queued'>;
   loadingPlugins: Map<string, Set<PluginScope>>;
+  /** 正在 CLI install、可取消的 plugin id */
+  installingPlugins?: ReadonlySet<string>;
+  onCancelInstall?: (pluginId: string) => void;
+  onShowHistory?: (pluginId: string) => void;
+  onShowChangelog?: (pluginId: string) => void;
+  /** 正在讀取 What's changed 的 plugin id */
+  loadingChangelogId?: string | null;
+  onShowDetails?: (pluginId: string) => void;
+  /** 正在讀取詳情的 plugin id */
+  loadingDetailsId?: string | null;
+  /** 多選批次操作的選取狀態；提供 onSelectPlugin 時卡片顯示 checkbox */
+  selectedPlugins?: ReadonlySet<string>;
+  onSelectPlugin?: (pluginId: string) => void;
+  /** pluginId → dev links，有則卡片顯示 DEV badge */
+  devLinksByPlugin?: ReadonlyMap<string, PluginDevLink[]>;
+  /** pluginId → 使用統計 */
+  usageByPlugin?: Record<string, PluginUsageStats> | null;
   onToggle: (pluginId: string, scope: PluginScope, enable: boolean) => Promise<void>;
   onUpdate: (pluginId: string, scopes: PluginScope[]) => Promise<void>;
   onToggleHidden: (pluginId: string) => void;
@@ -51,6 +68,13 @@ export interface PluginSectionsProps {
   onMarketplaceUpdate: (name: string) => void;
   onMarketplaceRemove: (name: string) => void;
   onMarketplaceToggleAutoUpdate: (name: string) => void;
+  onMarketplaceReinstall?: (name: string) => void;
+  marketplaceReinstalling?: boolean;
+  onMarketplacePin?: (name: string) => void;
+  onMarketplaceUnpin?: (name: string) => void;
+  onMarketplaceEditManifest?: (name: string) => void;
+  /** 進行中的 marketplace update 可取消時提供 */
+  onMarketplaceCancelUpdate?: () => void;
 }
 
 interface SectionDropContainerProps {
@@ -100,6 +124,17 @@ export function PluginSections({
   translations,
   translateStatusMap,
   loadingPlugins,
+  installingPlugins,
+  onCancelInstall,
+  onShowHistory,
+  onShowChangelog,
+  loadingChangelogId,
+  onShowDetails,
+  loadingDetailsId,
+  selectedPlugins,
+  onSelectPlugin,
+  devLinksByPlugin,
+  usageByPlugin,
   onToggle,
   onUpdate,
   onToggleHidden,
@@ -115,6 +150,12 @@ export function PluginSections({
   onMarketplaceUpdate,
   onMarketplaceRemove,
   onMarketplaceToggleAutoUpdate,
+  onMarketplaceReinstall,
+  marketplaceReinstalling = false,
+  onMarketplacePin,
+  onMarketplaceUnpin,
+  onMarketplaceEditManifest,
+  onMarketplaceCancelUpdate,
 }: PluginSectionsProps): React.ReactElement {
   const { t } = useI18n();
 
@@ -178,6 +219,14 @@ export function PluginSections({
             {stats.updateCount > 0 && (
               <span className="section-updates">{t(stats.updateCount > 1 ? 'plugin.section.updatesPlural' : 'plugin.section.updates', { count: stats.updateCount })}</span>
             )}
+            {mpData?.pinnedRef && (
+              <span className="section-pinned">{t('marketplace.card.pinnedBadge', { ref: mpData.pinnedRef })}</span>
+            )}
+            {mpData?.headSha && (
+              <span className="section-head-sha" title={mpData.headSha}>
+                {t('marketplace.card.headSha', { sha: mpData.headSha.slice(0, 7) })}
+              </span>
+            )}
             {marketplaceSources[marketplace] && (
               <span className="section-source">{formatMarketplaceSource(marketplaceSources[marketplace])}</span>
             )}
@@ -192,11 +241,15 @@ export function PluginSections({
         })}
         headerActions={mpData ? (
           <div className="section-marketplace-actions" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
-            <label className="toggle-label">
+            <label
+              className="toggle-label"
+              title={mpData.pinnedRef ? t('marketplace.card.pinnedAutoUpdateHint') : undefined}
+            >
               <input
                 type="checkbox"
                 checked={mpData.autoUpdate}
                 onChange={() => onMarketplaceToggleAutoUpdate(marketplace)}
+                disabled={!!mpData.pinnedRef}
               />
               {t('marketplace.card.autoUpdate')}
             </label>
@@ -207,6 +260,50 @@ export function PluginSections({
             >
               {isUpdating ? t('marketplace.card.updating') : t('marketplace.card.update')}
             </button>
+            {isUpdating && onMarketplaceCancelUpdate && (
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={onMarketplaceCancelUpdate}
+              >
+                {t('marketplace.card.cancelUpdate')}
+              </button>
+            )}
+            {mpData.pinnedRef && onMarketplaceUnpin && (
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => onMarketplaceUnpin(marketplace)}
+                disabled={isUpdating || isUpdatingAll}
+              >
+                {t('marketplace.card.unpin')}
+              </button>
+            )}
+            {!mpData.pinnedRef && onMarketplacePin && (mpData.source === 'git' || mpData.source === 'github') && (
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => onMarketplacePin(marketplace)}
+                disabled={isUpdating || isUpdatingAll}
+              >
+                {t('marketplace.card.pin')}
+              </button>
+            )}
+            {mpData.editable && onMarketplaceEditManifest && (
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => onMarketplaceEditManifest(marketplace)}
+                disabled={isUpdating || isUpdatingAll}
+              >
+                {t('marketplace.card.editManifest')}
+              </button>
+            )}
+            {onMarketplaceReinstall && (
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => onMarketplaceReinstall(marketplace)}
+                disabled={isUpdating || isUpdatingAll || marketplaceReinstalling}
+              >
+                {t('marketplace.card.reinstall')}
+              </button>
+            )}
             <button
               className="btn btn-danger btn-sm"
               onClick={() => onMarketplaceRemove(marketplace)}
@@ -247,6 +344,16 @@ export function PluginSections({
               onViewContent={onViewContent}
               onInstallOnly={onInstallOnly}
               installOnlyLoading={installOnlyId === plugin.id}
+              onCancelInstall={installingPlugins?.has(plugin.id) ? onCancelInstall : undefined}
+              onShowHistory={onShowHistory}
+              onShowChangelog={onShowChangelog}
+              changelogLoading={loadingChangelogId === plugin.id}
+              onShowDetails={onShowDetails}
+              detailsLoading={loadingDetailsId === plugin.id}
+              selected={selectedPlugins?.has(plugin.id)}
+              onSelect={onSelectPlugin}
+              devLinks={devLinksByPlugin?.get(plugin.id)}
+              usage={usageByPlugin?.[plugin.id]}
             />
           )}
         />
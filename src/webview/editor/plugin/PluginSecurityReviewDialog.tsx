@@ -0,0 +1,123 @@
+import React, { useId } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import type { PluginMcpCommand, PluginSecurityReport, PluginSecurityRule } from '../../../shared/types';
+
+interface PluginSecurityReviewDialogProps {
+  report: PluginSecurityReport;
+  acknowledging: boolean;
+  onAcknowledge: () => void;
+  onCancel: () => void;
+}
+
+const RULE_LABEL_KEYS: Record<PluginSecurityRule, TranslationKey> = {
+  'pipe-to-shell': 'plugin.security.rule.pipeToShell',
+  'recursive-delete': 'plugin.security.rule.recursiveDelete',
+  'network': 'plugin.security.rule.network',
+  'write-outside-project': 'plugin.security.rule.writeOutsideProject',
+  'obfuscated': 'plugin.security.rule.obfuscated',
+};
+
+/** install / 首次 enable 前的安全審查：列出風險、hook commands、scripts 與 MCP 指令，確認後才繼續 */
+export function PluginSecurityReviewDialog({
+  report,
+  acknowledging,
+  onAcknowledge,
+  onCancel,
+}: PluginSecurityReviewDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const { findings, hookCommands, scripts, mcpServers } = report;
+  const hasHighRisk = findings.some((f) => f.severity === 'high');
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onCancel} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>
+        {t('plugin.security.title', { name: report.pluginId })}
+      </div>
+      <div className="confirm-dialog-message">
+        {report.sourceAvailable ? t('plugin.security.intro') : t('plugin.security.sourceUnavailable')}
+      </div>
+      {report.gitCommitSha && (
+        <div className="update-summary-commit">
+          {t('plugin.security.commit', { sha: report.gitCommitSha.slice(0, 7) })}
+        </div>
+      )}
+
+      {report.sourceAvailable && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.security.findings', { count: findings.length })}
+          </div>
+          {findings.length === 0 ? (
+            <div className="confirm-dialog-message">{t('plugin.security.noFindings')}</div>
+          ) : (
+            <div className="preview-plugin-list">
+              {findings.map((finding, i) => (
+                <div key={i} className={`preview-plugin-item security-finding security-finding--${finding.severity}`}>
+                  <div className="preview-plugin-name">
+                    {t(RULE_LABEL_KEYS[finding.rule])}
+                    <span className="preview-plugin-version">{finding.location}</span>
+                  </div>
+                  <code className="security-finding-excerpt">{finding.excerpt}</code>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {hookCommands.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.page.preview.hookCommands', { count: hookCommands.length })}
+          </div>
+          <ul className="preview-plugin-exec-list">
+            {hookCommands.map((hook, i) => (
+              <li key={i}>{`${hook.matcher ? `${hook.event} (${hook.matcher})` : hook.event}: ${hook.command}`}</li>
+            ))}
+          </ul>
+        </>
+      )}
+      {scripts.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.page.preview.scripts', { count: scripts.length })}
+          </div>
+          <ul className="preview-plugin-exec-list">
+            {scripts.map((script) => <li key={script}>{script}</li>)}
+          </ul>
+        </>
+      )}
+      {mcpServers.length > 0 && (
+        <>
+          <div className="config-import-section-title">
+            {t('plugin.security.mcpServers', { count: mcpServers.length })}
+          </div>
+          <ul className="preview-plugin-exec-list">
+            {mcpServers.map((server) => <li key={server.name}>{formatMcpCommand(server)}</li>)}
+          </ul>
+        </>
+      )}
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary" onClick={onCancel} disabled={acknowledging}>
+          {t('confirm.default.cancel')}
+        </button>
+        <button
+          className={`btn ${hasHighRisk ? 'btn-danger' : 'btn-primary'}`}
+          onClick={onAcknowledge}
+          disabled={acknowledging}
+        >
+          {t('plugin.security.acknowledge')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
+
+function formatMcpCommand(server: PluginMcpCommand): string {
+  const target = server.url ?? [server.command, ...(server.args ?? [])].filter(Boolean).join(' ');
+  return target ? `${server.name}: ${target}` : server.name;
+}
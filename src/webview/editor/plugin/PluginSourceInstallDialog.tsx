@@ -0,0 +1,94 @@
+import React, { useId, useState } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import { BULK_SCOPE_LABEL_KEYS } from './PluginBulkActionBar';
+import type { PluginSourceInstallRequest } from './hooks/usePluginSourceInstall';
+import type { PluginScope } from '../../../shared/types';
+
+interface PluginSourceInstallDialogProps {
+  hasWorkspace: boolean;
+  installing: boolean;
+  onSubmit: (request: PluginSourceInstallRequest) => void;
+  onCancel: () => void;
+}
+
+/** 從 owner/repo、git URL（可指定子目錄）或本地目錄直接安裝 plugin */
+export function PluginSourceInstallDialog({
+  hasWorkspace,
+  installing,
+  onSubmit,
+  onCancel,
+}: PluginSourceInstallDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const idPrefix = useId();
+  const [source, setSource] = useState('');
+  const [subdir, setSubdir] = useState('');
+  const [scope, setScope] = useState<PluginScope>('user');
+  const canSubmit = !installing && source.trim() !== '';
+
+  const handleSubmit = (): void => {
+    if (!canSubmit) return;
+    onSubmit({ source: source.trim(), subdir: subdir.trim() || undefined, scope });
+  };
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onCancel}>
+      <div className="confirm-dialog-title" id={titleId}>{t('plugin.source.title')}</div>
+      <p className="settings-field-description">{t('plugin.source.intro')}</p>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-source`}>{t('plugin.source.source')}</label>
+        <input
+          id={`${idPrefix}-source`}
+          className="input"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+          placeholder={t('plugin.source.sourcePlaceholder')}
+          disabled={installing}
+          autoFocus
+        />
+      </div>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-subdir`}>{t('plugin.source.subdir')}</label>
+        <input
+          id={`${idPrefix}-subdir`}
+          className="input"
+          value={subdir}
+          onChange={(e) => setSubdir(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+          placeholder={t('plugin.source.subdirPlaceholder')}
+          disabled={installing}
+        />
+      </div>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-scope`}>{t('plugin.source.scope')}</label>
+        <select
+          id={`${idPrefix}-scope`}
+          className="sort-select"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as PluginScope)}
+          disabled={installing}
+        >
+          {(['user', 'project', 'local'] as const).map((s) => (
+            <option key={s} value={s} disabled={s !== 'user' && !hasWorkspace}>
+              {t(BULK_SCOPE_LABEL_KEYS[s])}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary" onClick={onCancel} disabled={installing}>
+          {t('confirm.default.cancel')}
+        </button>
+        <button className="btn btn-primary" onClick={handleSubmit} disabled={!canSubmit}>
+          {installing ? t('plugin.source.installing') : t('plugin.source.install')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
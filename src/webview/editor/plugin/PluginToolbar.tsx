@@ -1,13 +1,13 @@
 import React from 'react';
 import { useI18n } from '../../i18n/I18nContext';
-import type { ContentTypeFilter, SourceFormatFilter } from './filterUtils';
+import type { ContentTypeFilter, PluginSortBy, SourceFormatFilter } from './filterUtils';
 import { TRANSLATE_LANGS } from '../../../shared/types';
+import { CONTEXT_WINDOW_TOKENS } from '../../../shared/pluginTokenEstimate';
 import { SearchInput } from '../../components/SearchInput';
 import { FilterChips } from '../../components/FilterChips';
 import { ContentTypeDropdown } from './ContentTypeDropdown';
 import { SourceFormatDropdown } from './SourceFormatDropdown';
-
-type SortBy = 'name' | 'lastUpdated';
+import { formatTokens } from '../../utils/formatTokens';
 
 export interface PluginToolbarProps {
   // Search
@@ -25,6 +25,12 @@ export interface PluginToolbarProps {
   // Filter chips
   filterEnabled: boolean;
   onFilterEnabledToggle: () => void;
+  filterUpdates: boolean;
+  onFilterUpdatesToggle: () => void;
+  filterConflicts: boolean;
+  onFilterConflictsToggle: () => void;
+  filterNeverUsed: boolean;
+  onFilterNeverUsedToggle: () => void;
   showHidden: boolean;
   onShowHiddenToggle: () => void;
   contentTypeFilters: Set<ContentTypeFilter>;
@@ -33,8 +39,12 @@ export interface PluginToolbarProps {
   onSourceFormatFilterToggle: (type: SourceFormatFilter) => void;
 
   // Sort
-  sortBy: SortBy;
-  onSortByChange: (value: SortBy) => void;
+  sortBy: PluginSortBy;
+  onSortByChange: (value: PluginSortBy) => void;
+
+  // Context budget（已啟用 plugin 的估計 token 總和）
+  contextTokens: number;
+  enabledPluginCount: number;
 }
 
 export function PluginToolbar({
@@ -48,6 +58,12 @@ export function PluginToolbar({
   onTranslateOpen,
   filterEnabled,
   onFilterEnabledToggle,
+  filterUpdates,
+  onFilterUpdatesToggle,
+  filterConflicts,
+  onFilterConflictsToggle,
+  filterNeverUsed,
+  onFilterNeverUsedToggle,
   showHidden,
   onShowHiddenToggle,
   contentTypeFilters,
@@ -56,8 +72,14 @@ export function PluginToolbar({
   onSourceFormatFilterToggle,
   sortBy,
   onSortByChange,
+  contextTokens,
+  enabledPluginCount,
 }: PluginToolbarProps): React.ReactElement {
   const { t } = useI18n();
+  const budgetLabel = t('plugin.page.contextBudget', {
+    tokens: formatTokens(contextTokens),
+    limit: formatTokens(CONTEXT_WINDOW_TOKENS),
+  });
 
   return (
     <>
@@ -84,6 +106,9 @@ export function PluginToolbar({
           groups={[
             [
               { key: 'enabled', label: t('plugin.page.filterEnabled'), active: filterEnabled, onSelect: onFilterEnabledToggle },
+              { key: 'updates', label: t('plugin.page.filterUpdates'), active: filterUpdates, onSelect: onFilterUpdatesToggle },
+              { key: 'conflicts', label: t('plugin.page.filterConflicts'), active: filterConflicts, onSelect: onFilterConflictsToggle },
+              { key: 'never-used', label: t('plugin.page.filterNeverUsed'), active: filterNeverUsed, onSelect: onFilterNeverUsedToggle },
               { key: 'hidden', label: t('plugin.page.showHidden'), active: showHidden, onSelect: onShowHiddenToggle },
             ],
           ]}
@@ -100,13 +125,31 @@ export function PluginToolbar({
           <select
             className="sort-select"
             value={sortBy}
-            onChange={(e) => onSortByChange(e.target.value as SortBy)}
+            onChange={(e) => onSortByChange(e.target.value as PluginSortBy)}
             aria-label={t('filter.sortBy')}
           >
             <option value="name">{t('filter.sortName')}</option>
             <option value="lastUpdated">{t('filter.sortLastUpdated')}</option>
+            <option value="contextCost">{t('filter.sortContextCost')}</option>
           </select>
         </div>
+        <div
+          className="context-budget"
+          role="meter"
+          aria-valuemin={0}
+          aria-valuemax={CONTEXT_WINDOW_TOKENS}
+          aria-valuenow={Math.min(contextTokens, CONTEXT_WINDOW_TOKENS)}
+          aria-label={budgetLabel}
+          title={t('plugin.page.contextBudgetTitle', { count: enabledPluginCount })}
+        >
+          <span className="context-budget-label">{budgetLabel}</span>
+          <span className="context-budget-track">
+            <span
+              className="context-budget-fill"
+              style={{ width: `${Math.min(100, (contextTokens / CONTEXT_WINDOW_TOKENS) * 100)}%` }}
+            />
+          </span>
+        </div>
       </div>
     </>
   );
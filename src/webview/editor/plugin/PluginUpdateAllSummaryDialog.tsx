@@ -0,0 +1,70 @@
+import React, { useId } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type { TranslationKey } from '../../i18n/locales/en';
+import { BULK_SCOPE_LABEL_KEYS } from './PluginBulkActionBar';
+import type { PluginUpdateAllResult, PluginUpdateItemResult } from '../../../shared/types';
+
+interface PluginUpdateAllSummaryDialogProps {
+  result: PluginUpdateAllResult;
+  retrying: boolean;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABEL_KEYS: Record<PluginUpdateItemResult['status'], TranslationKey> = {
+  updated: 'plugin.updateAll.status.updated',
+  upToDate: 'plugin.updateAll.status.upToDate',
+  failed: 'plugin.updateAll.status.failed',
+};
+
+/** Update All 完成後的摘要：每個 plugin + scope 的結果，失敗項目可重試 */
+export function PluginUpdateAllSummaryDialog({
+  result,
+  retrying,
+  onRetryFailed,
+  onClose,
+}: PluginUpdateAllSummaryDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const count = (status: PluginUpdateItemResult['status']): number =>
+    result.results.filter((r) => r.status === status).length;
+  const failed = count('failed');
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onClose} className="confirm-dialog--preview">
+      <div className="confirm-dialog-title" id={titleId}>{t('plugin.updateAll.title')}</div>
+      <div className="confirm-dialog-message">
+        {t('plugin.updateAll.summary', { updated: count('updated'), upToDate: count('upToDate'), failed })}
+      </div>
+
+      <div className="preview-plugin-list">
+        {result.results.map((item) => (
+          <div
+            key={`${item.pluginId}:${item.scope}`}
+            className={`preview-plugin-item plugin-bulk-result plugin-bulk-result--${item.status === 'failed' ? 'failed' : 'ok'}`}
+          >
+            <div className="preview-plugin-name">
+              {item.pluginId}
+              <span className="preview-plugin-version">
+                {t(BULK_SCOPE_LABEL_KEYS[item.scope])} · {t(STATUS_LABEL_KEYS[item.status])}
+              </span>
+            </div>
+            {item.error && <div className="plugin-bulk-result-error">{item.error}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="confirm-dialog-actions">
+        {failed > 0 && (
+          <button className="btn btn-secondary" onClick={onRetryFailed} disabled={retrying}>
+            {retrying ? t('plugin.updateAll.retrying') : t('plugin.updateAll.retryFailed', { count: failed })}
+          </button>
+        )}
+        <button className="btn btn-primary" onClick={onClose} disabled={retrying}>
+          {t('plugin.updateAll.close')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useId, useState } from 'react';
+import { DialogOverlay } from '../../components/DialogOverlay';
+import { useI18n } from '../../i18n/I18nContext';
+import type { PluginScaffoldOptions } from '../../../shared/types';
+
+interface ScaffoldPluginDialogProps {
+  scaffolding: boolean;
+  onPickDirectory: () => Promise<string | null>;
+  onSubmit: (options: PluginScaffoldOptions) => void;
+  onCancel: () => void;
+}
+
+/** 與 extension 端 PluginScaffoldService 相同的名稱規則 */
+const NAME_RE = /^[a-z0-9][a-z0-9-]*$/;
+
+/** 建立本地 marketplace + plugin skeleton 的 wizard */
+export function ScaffoldPluginDialog({
+  scaffolding,
+  onPickDirectory,
+  onSubmit,
+  onCancel,
+}: ScaffoldPluginDialogProps): React.ReactElement {
+  const { t } = useI18n();
+  const titleId = useId();
+  const idPrefix = useId();
+  const [parentDir, setParentDir] = useState('');
+  const [marketplaceName, setMarketplaceName] = useState('');
+  const [pluginName, setPluginName] = useState('');
+  const [description, setDescription] = useState('');
+  const [author, setAuthor] = useState('');
+  const [includeHooks, setIncludeHooks] = useState(false);
+  const [includeMcp, setIncludeMcp] = useState(false);
+
+  const marketplaceNameInvalid = marketplaceName !== '' && !NAME_RE.test(marketplaceName);
+  const pluginNameInvalid = pluginName !== '' && !NAME_RE.test(pluginName);
+  const canSubmit = !scaffolding
+    && parentDir.trim() !== ''
+    && NAME_RE.test(marketplaceName)
+    && NAME_RE.test(pluginName);
+
+  const handleBrowse = async (): Promise<void> => {
+    const picked = await onPickDirectory();
+    if (picked) setParentDir(picked);
+  };
+
+  const handleSubmit = (): void => {
+    if (!canSubmit) return;
+    onSubmit({
+      parentDir: parentDir.trim(),
+      marketplaceName,
+      pluginName,
+      description: description.trim(),
+      author: author.trim() || undefined,
+      includeHooks,
+      includeMcp,
+    });
+  };
+
+  return (
+    <DialogOverlay titleId={titleId} onClose={onCancel}>
+      <div className="confirm-dialog-title" id={titleId}>{t('plugin.scaffold.title')}</div>
+      <p className="settings-field-description">{t('plugin.scaffold.intro')}</p>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-dir`}>{t('plugin.scaffold.location')}</label>
+        <input
+          id={`${idPrefix}-dir`}
+          className="input"
+          value={parentDir}
+          onChange={(e) => setParentDir(e.target.value)}
+          placeholder={t('plugin.scaffold.locationPlaceholder')}
+          disabled={scaffolding}
+          autoFocus
+        />
+        <button className="btn btn-secondary" onClick={handleBrowse} disabled={scaffolding}>
+          {t('plugin.scaffold.browse')}
+        </button>
+      </div>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-mp`}>{t('plugin.scaffold.marketplaceName')}</label>
+        <input
+          id={`${idPrefix}-mp`}
+          className="input"
+          value={marketplaceName}
+          onChange={(e) => setMarketplaceName(e.target.value)}
+          placeholder="my-marketplace"
+          aria-invalid={marketplaceNameInvalid}
+          disabled={scaffolding}
+        />
+      </div>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-plugin`}>{t('plugin.scaffold.pluginName')}</label>
+        <input
+          id={`${idPrefix}-plugin`}
+          className="input"
+          value={pluginName}
+          onChange={(e) => setPluginName(e.target.value)}
+          placeholder="my-plugin"
+          aria-invalid={pluginNameInvalid}
+          disabled={scaffolding}
+        />
+        {(marketplaceNameInvalid || pluginNameInvalid) && (
+          <span className="form-hint form-hint--error">{t('plugin.scaffold.nameHint')}</span>
+        )}
+      </div>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-desc`}>{t('plugin.scaffold.description')}</label>
+        <input
+          id={`${idPrefix}-desc`}
+          className="input"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={scaffolding}
+        />
+      </div>
+
+      <div className="form-row">
+        <label className="form-label" htmlFor={`${idPrefix}-author`}>{t('plugin.scaffold.author')}</label>
+        <input
+          id={`${idPrefix}-author`}
+          className="input"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          disabled={scaffolding}
+        />
+      </div>
+
+      <div className="form-row">
+        <label className="toggle-label">
+          <input
+            type="checkbox"
+            checked={includeHooks}
+            onChange={() => setIncludeHooks((v) => !v)}
+            disabled={scaffolding}
+          />
+          {t('plugin.scaffold.includeHooks')}
+        </label>
+        <label className="toggle-label">
+          <input
+            type="checkbox"
+            checked={includeMcp}
+            onChange={() => setIncludeMcp((v) => !v)}
+            disabled={scaffolding}
+          />
+          {t('plugin.scaffold.includeMcp')}
+        </label>
+      </div>
+
+      <div className="confirm-dialog-actions">
+        <button className="btn btn-secondary" onClick={onCancel} disabled={scaffolding}>
+          {t('confirm.default.cancel')}
+        </button>
+        <button className="btn btn-primary" onClick={handleSubmit} disabled={!canSubmit}>
+          {scaffolding ? t('plugin.scaffold.creating') : t('plugin.scaffold.create')}
+        </button>
+      </div>
+    </DialogOverlay>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { MarketplaceManifestDialog } from '../MarketplaceManifestDialog';
+import type { MarketplacePluginEntry } from '../../../../shared/types';
+
+const PLUGINS: MarketplacePluginEntry[] = [
+  { name: 'alpha', source: './plugins/alpha', version: '1.0.0', homepage: 'https://example.com' } as MarketplacePluginEntry,
+  { name: 'beta', source: { source: 'github', repo: 'owner/beta', ref: 'v2' } },
+];
+
+function renderDialog(overrides: Partial<React.ComponentProps<typeof MarketplaceManifestDialog>> = {}) {
+  const props = {
+    marketplace: 'team-mp',
+    plugins: PLUGINS,
+    saving: false,
+    onSave: vi.fn(),
+    onCancel: vi.fn(),
+    ...overrides,
+  };
+  renderWithI18n(<MarketplaceManifestDialog {...props} />);
+  return props;
+}
+
+describe('MarketplaceManifestDialog', () => {
+  afterEach(cleanup);
+
+  it('未修改直接儲存 → entries 原樣回傳（保留未知欄位）', () => {
+    const props = renderDialog();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(props.onSave).toHaveBeenCalledWith(PLUGINS);
+  });
+
+  it('排序、移除與編輯欄位', () => {
+    const props = renderDialog();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Move down' })[0]);
+    fireEvent.change(screen.getAllByLabelText('Ref')[0], { target: { value: '' } });
+    fireEvent.change(screen.getAllByLabelText('Description')[1], { target: { value: 'Alpha tools' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(props.onSave).toHaveBeenCalledWith([
+      { name: 'beta', source: { source: 'github', repo: 'owner/beta' } },
+      { ...PLUGINS[0], description: 'Alpha tools' },
+    ]);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Remove' })[0]);
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    expect(props.onSave).toHaveBeenLastCalledWith([{ ...PLUGINS[0], description: 'Alpha tools' }]);
+  });
+
+  it('新增 entry 並切換 source format → 依格式顯示欄位', () => {
+    const props = renderDialog({ plugins: [] });
+
+    expect(screen.getByText('No plugins yet.')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Add Plugin' }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'gamma' } });
+    fireEvent.change(screen.getByLabelText('Source'), { target: { value: 'git-subdir' } });
+    fireEvent.change(screen.getByLabelText('Git URL'), { target: { value: 'https://example.com/repo.git' } });
+    fireEvent.change(screen.getByLabelText('Subdirectory'), { target: { value: 'plugins/gamma' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(props.onSave).toHaveBeenCalledWith([{
+      name: 'gamma',
+      source: { source: 'git-subdir', url: 'https://example.com/repo.git', path: 'plugins/gamma' },
+    }]);
+  });
+
+  it('entry 不合法時顯示錯誤並停用儲存', () => {
+    renderDialog();
+
+    fireEvent.change(screen.getAllByLabelText('Name')[1], { target: { value: 'alpha' } });
+
+    expect(screen.getByText('Duplicate plugin name "alpha"')).toBeTruthy();
+    expect((screen.getByRole('button', { name: 'Save' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { MarketplacePreviewDialog } from '../MarketplacePreviewDialog';
+import type { PreviewPlugin } from '../../../../shared/types';
+
+function renderDialog(plugins: PreviewPlugin[], overrides: Partial<React.ComponentProps<typeof MarketplacePreviewDialog>> = {}) {
+  const props = {
+    plugins,
+    adding: false,
+    onCancel: vi.fn(),
+    onConfirm: vi.fn(),
+    onOverlayDismiss: vi.fn(),
+    ...overrides,
+  };
+  renderWithI18n(<MarketplacePreviewDialog {...props} />);
+  return props;
+}
+
+describe('MarketplacePreviewDialog', () => {
+  afterEach(cleanup);
+
+  it('顯示來源格式、contents、hook commands 與 shell scripts', () => {
+    renderDialog([{
+      name: 'tool',
+      description: 'A tool',
+      version: '1.2.0',
+      sourceFormat: 'local-internal',
+      contents: {
+        commands: [{ name: 'deploy', description: '', path: '/mp/tool/commands/deploy.md' }],
+        skills: [],
+        agents: [],
+        mcpServers: ['db'],
+        hooks: [{ event: 'PreToolUse', matcher: 'Bash', type: 'command', command: './scripts/guard.sh' }],
+      },
+      scripts: ['scripts/guard.sh'],
+      hookCommands: [{ event: 'PreToolUse', matcher: 'Bash', command: './scripts/guard.sh' }],
+    }]);
+
+    expect(screen.getByText('Marketplace Preview — 1 plugin(s)')).toBeTruthy();
+    expect(screen.getByText('Source: Local Internal')).toBeTruthy();
+    expect(screen.getByText('Commands: deploy')).toBeTruthy();
+    expect(screen.getByText('MCP servers: db')).toBeTruthy();
+    expect(screen.getByText('Hook commands (1)')).toBeTruthy();
+    expect(screen.getByText('PreToolUse (Bash): ./scripts/guard.sh')).toBeTruthy();
+    expect(screen.getByText('Shell scripts (1)')).toBeTruthy();
+    expect(screen.getByText('scripts/guard.sh')).toBeTruthy();
+  });
+
+  it('remote source（無 contents）→ 顯示無法預覽提示', () => {
+    renderDialog([{ name: 'remote', description: '', sourceFormat: 'github' }]);
+
+    expect(screen.getByText('Source: GitHub')).toBeTruthy();
+    expect(screen.getByText('Remote source — contents are fetched on install and cannot be previewed.')).toBeTruthy();
+  });
+
+  it('adding 時停用確認按鈕；Cancel → onCancel', () => {
+    const props = renderDialog([{ name: 'tool', description: '' }], { adding: true });
+
+    expect((screen.getByRole('button', { name: 'Adding...' }) as HTMLButtonElement).disabled).toBe(true);
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(props.onCancel).toHaveBeenCalled();
+  });
+});
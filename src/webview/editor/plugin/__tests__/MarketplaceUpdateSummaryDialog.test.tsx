@@ -0,0 +1,80 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { MarketplaceUpdateSummaryDialog } from '../MarketplaceUpdateSummaryDialog';
+import type { MarketplaceUpdateSummary } from '../../../../shared/types';
+
+const emptyDiff = { added: [], removed: [] };
+
+function createSummary(overrides: Partial<MarketplaceUpdateSummary> = {}): MarketplaceUpdateSummary {
+  return {
+    name: 'mp',
+    fromCommit: 'aaaaaaa1111111',
+    toCommit: 'bbbbbbb2222222',
+    added: [],
+    removed: [],
+    changed: [],
+    ...overrides,
+  };
+}
+
+describe('MarketplaceUpdateSummaryDialog', () => {
+  afterEach(cleanup);
+
+  it('顯示前後 commit 與新增/移除/變更的 plugin', () => {
+    renderWithI18n(
+      <MarketplaceUpdateSummaryDialog
+        summaries={[createSummary({
+          added: [{ pluginId: 'fresh@mp', name: 'fresh', description: 'Brand new', marketplaceName: 'mp', version: '0.1.0' }],
+          removed: [{ pluginId: 'old@mp', name: 'old', description: '', marketplaceName: 'mp' }],
+          changed: [{
+            pluginId: 'tool@mp',
+            name: 'tool',
+            fromVersion: '1.0.0',
+            toVersion: '2.0.0',
+            commands: { added: ['deploy'], removed: ['ship'] },
+            skills: emptyDiff,
+            agents: emptyDiff,
+            mcpServers: emptyDiff,
+            hooksChanged: true,
+          }],
+        })]}
+        onClose={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText('What changed in mp')).toBeTruthy();
+    expect(screen.getByText('Commit aaaaaaa → bbbbbbb')).toBeTruthy();
+    expect(screen.getByText('Added plugins (1)')).toBeTruthy();
+    expect(screen.getByText('Brand new')).toBeTruthy();
+    expect(screen.getByText('Removed plugins (1)')).toBeTruthy();
+    expect(screen.getByText('old')).toBeTruthy();
+    expect(screen.getByText('Version 1.0.0 → 2.0.0')).toBeTruthy();
+    expect(screen.getByText('Commands: +deploy, −ship')).toBeTruthy();
+    expect(screen.getByText('Hooks changed')).toBeTruthy();
+  });
+
+  it('commit 相同且無 plugin 變更 → 顯示未變更提示', () => {
+    renderWithI18n(
+      <MarketplaceUpdateSummaryDialog
+        summaries={[createSummary({ toCommit: 'aaaaaaa1111111' })]}
+        onClose={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText('Commit aaaaaaa (unchanged)')).toBeTruthy();
+    expect(screen.getByText('No plugin changes.')).toBeTruthy();
+  });
+
+  it('點 Close → onClose', () => {
+    const onClose = vi.fn();
+    renderWithI18n(<MarketplaceUpdateSummaryDialog summaries={[createSummary()]} onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
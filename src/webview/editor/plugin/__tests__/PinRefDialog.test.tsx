@@ -0,0 +1,41 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { PinRefDialog } from '../PinRefDialog';
+
+describe('PinRefDialog', () => {
+  afterEach(cleanup);
+
+  it('ref 為空 → Pin 按鈕 disabled', () => {
+    renderWithI18n(<PinRefDialog marketplace="mp" onConfirm={vi.fn()} onCancel={vi.fn()} />);
+
+    expect(screen.getByText('Pin mp to a git ref')).toBeTruthy();
+    expect((screen.getByRole('button', { name: 'Pin' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('輸入 ref → 點 Pin 以 trimmed ref 呼叫 onConfirm', () => {
+    const onConfirm = vi.fn();
+    renderWithI18n(<PinRefDialog marketplace="mp" onConfirm={onConfirm} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Branch, tag or commit'), { target: { value: ' v1.2.0 ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Pin' }));
+
+    expect(onConfirm).toHaveBeenCalledWith('v1.2.0');
+  });
+
+  it('Enter 送出、Cancel 呼叫 onCancel', () => {
+    const onConfirm = vi.fn();
+    const onCancel = vi.fn();
+    renderWithI18n(<PinRefDialog marketplace="mp" initialRef="release" onConfirm={onConfirm} onCancel={onCancel} />);
+
+    fireEvent.keyDown(screen.getByLabelText('Branch, tag or commit'), { key: 'Enter' });
+    expect(onConfirm).toHaveBeenCalledWith('release');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
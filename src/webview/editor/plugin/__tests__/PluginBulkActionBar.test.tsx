@@ -0,0 +1,96 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { PluginBulkActionBar } from '../PluginBulkActionBar';
+import { PluginBulkResultDialog } from '../PluginBulkResultDialog';
+
+function renderBar(overrides: Partial<React.ComponentProps<typeof PluginBulkActionBar>> = {}) {
+  const props = {
+    selectedCount: 2,
+    filteredCount: 5,
+    hasWorkspace: true,
+    running: null,
+    onRun: vi.fn(),
+    onSelectAllFiltered: vi.fn(),
+    onClearSelection: vi.fn(),
+    ...overrides,
+  };
+  renderWithI18n(<PluginBulkActionBar {...props} />);
+  return props;
+}
+
+describe('PluginBulkActionBar', () => {
+  afterEach(cleanup);
+
+  it('未選取 → 只顯示 Select all filtered', () => {
+    const props = renderBar({ selectedCount: 0 });
+
+    expect(screen.queryByRole('button', { name: 'Enable' })).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Select all filtered (5)' }));
+    expect(props.onSelectAllFiltered).toHaveBeenCalledTimes(1);
+  });
+
+  it('選擇 scope 後執行動作 → onRun 帶 action 與 scope', () => {
+    const props = renderBar();
+
+    expect(screen.getByText('2 selected')).toBeTruthy();
+    fireEvent.change(screen.getByRole('combobox', { name: 'Target scope' }), { target: { value: 'project' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Enable' }));
+
+    expect(props.onRun).toHaveBeenCalledWith('enable', 'project');
+  });
+
+  it('Uninstall 需確認後才執行', () => {
+    const props = renderBar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Uninstall' }));
+    expect(props.onRun).not.toHaveBeenCalled();
+    expect(screen.getByText('Uninstall 2 selected plugins from the User scope?')).toBeTruthy();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Uninstall' }).at(-1)!);
+    expect(props.onRun).toHaveBeenCalledWith('uninstall', 'user');
+  });
+
+  it('無 workspace → project / local 選項停用', () => {
+    renderBar({ hasWorkspace: false });
+
+    const options = screen.getAllByRole('option') as HTMLOptionElement[];
+    expect(options.map((o) => o.disabled)).toEqual([false, true, true]);
+  });
+
+  it('執行中 → 所有動作停用', () => {
+    renderBar({ running: 'update' });
+
+    expect((screen.getByRole('button', { name: 'Enable' }) as HTMLButtonElement).disabled).toBe(true);
+    expect((screen.getByRole('button', { name: 'Clear selection' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
+
+describe('PluginBulkResultDialog', () => {
+  afterEach(cleanup);
+
+  it('單一摘要列出每個 plugin 的成功 / 失敗與錯誤訊息', () => {
+    renderWithI18n(
+      <PluginBulkResultDialog
+        result={{
+          action: 'install',
+          scope: 'local',
+          results: [
+            { pluginId: 'a@mp', ok: true },
+            { pluginId: 'b@mp', ok: false, error: 'not found in marketplace' },
+          ],
+        }}
+        onClose={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText('Install — Local')).toBeTruthy();
+    expect(screen.getByText('1 succeeded, 1 failed')).toBeTruthy();
+    expect(screen.getByText('not found in marketplace')).toBeTruthy();
+    expect(screen.getByText('Failed')).toBeTruthy();
+  });
+});
@@ -443,6 +443,80 @@ describe('PluginCard', () => {
     expect(screen.getByText('GitHub')).toBeTruthy();
   });
 
+  it('從 source 安裝 → 名稱旁顯示來源（含子目錄）', () => {
+    renderWithI18n(
+      <PluginCard
+        plugin={createPlugin({
+          id: 'tool@direct',
+          marketplaceName: 'direct',
+          origin: { type: 'github', source: 'owner/repo', subdir: 'plugins/tool' },
+        })}
+        onToggle={onToggle}
+        onUpdate={onUpdate}
+      />,
+    );
+
+    expect(screen.getByText('GitHub: owner/repo (plugins/tool)')).toBeTruthy();
+  });
+
+  it('已安裝 plugin 顯示 transcript 使用統計；未使用顯示 Never used；未安裝不顯示', () => {
+    const installed = createPlugin({
+      userInstall: {
+        id: 'test-plugin@test-mp',
+        version: '1.0.0',
+        scope: 'user' as PluginScope,
+        enabled: true,
+        installPath: '/path',
+        installedAt: '2026-01-01T00:00:00Z',
+        lastUpdated: '2026-01-01T00:00:00Z',
+      },
+    });
+    renderWithI18n(
+      <PluginCard plugin={installed} onToggle={onToggle} onUpdate={onUpdate} usage={{ lastUsed: new Date().toISOString(), recentUses: 12 }} />,
+    );
+    expect(screen.getByText('Last used just now · 12 uses in 30 days')).toBeTruthy();
+
+    cleanup();
+    renderWithI18n(<PluginCard plugin={installed} onToggle={onToggle} onUpdate={onUpdate} usage={{ recentUses: 0 }} />);
+    expect(screen.getByText('Never used')).toBeTruthy();
+
+    cleanup();
+    renderWithI18n(<PluginCard plugin={createPlugin()} onToggle={onToggle} onUpdate={onUpdate} usage={{ recentUses: 0 }} />);
+    expect(screen.queryByText('Never used')).toBeNull();
+  });
+
+  it('有 token 估計 → 顯示 context 用量，title 列出各類元件的估計值', () => {
+    const plugin = createPlugin({
+      contents: {
+        commands: [],
+        skills: [],
+        agents: [],
+        mcpServers: ['github'],
+        hooks: [],
+        tokenEstimate: { commands: 120, skills: 340, agents: 0, mcpServers: 1500, total: 1960 },
+      },
+    });
+    renderWithI18n(<PluginCard plugin={plugin} onToggle={onToggle} onUpdate={onUpdate} />);
+
+    const cost = screen.getByText('~2k tokens');
+    expect(cost.getAttribute('title')).toBe(
+      'Estimated context cost when enabled — commands 120, skills 340, agents 0, MCP servers 1.5k',
+    );
+  });
+
+  it('dev link → 名稱旁顯示 DEV badge，title 含工作目錄與問題數', () => {
+    renderWithI18n(
+      <PluginCard
+        plugin={createPlugin()}
+        onToggle={onToggle}
+        onUpdate={onUpdate}
+        devLinks={[{ pluginId: 'test-plugin@test-mp', scope: 'user', path: '/work/tool', issues: [] }]}
+      />,
+    );
+
+    expect(screen.getByText('DEV').getAttribute('title')).toBe('user: linked to /work/tool (0 issues)');
+  });
+
   it('availableLastUpdated > installed lastUpdated → 顯示 Update available badge', () => {
     const plugin = createPlugin({
       availableLastUpdated: '2026-02-20T00:00:00Z',
@@ -562,7 +636,7 @@ describe('PluginCard', () => {
         skills: [],
         agents: [],
         mcpServers: [],
-        hooks: false,
+        hooks: [],
       },
     });
 
@@ -626,7 +700,7 @@ describe('PluginCard', () => {
           skills: [],
           agents: [],
           mcpServers: [],
-          hooks: false,
+          hooks: [],
         },
       });
 
@@ -647,6 +721,73 @@ describe('PluginCard', () => {
     });
   });
 
+  describe('plugin hooks', () => {
+    const hooks = [
+      { event: 'PreToolUse', matcher: 'Bash', type: 'command', command: 'bash ${CLAUDE_PLUGIN_ROOT}/guard.sh', scriptPath: '/p/guard.sh' },
+      { event: 'Stop', type: 'prompt', command: 'Summarize the session' },
+    ];
+    const renderWithHooks = () => renderWithI18n(
+      <PluginCard
+        plugin={createPlugin({ contents: { commands: [], skills: [], agents: [], mcpServers: [], hooks } })}
+        onToggle={onToggle}
+        onUpdate={onUpdate}
+      />,
+    );
+
+    it('展開後列出 event、matcher、type 與 command，並載入快取的解釋', async () => {
+      mockSendRequest.mockResolvedValue({ '/p/guard.sh:en': 'Blocks **dangerous** commands.' });
+      renderWithHooks();
+
+      expect(mockSendRequest).not.toHaveBeenCalled();
+      fireEvent.keyDown(screen.getByRole('group'), { key: 'Enter' });
+
+      expect(screen.getByText('PreToolUse (Bash)')).toBeTruthy();
+      expect(screen.getByText('Stop')).toBeTruthy();
+      expect(screen.getByText('prompt')).toBeTruthy();
+      expect(screen.getByText('Summarize the session')).toBeTruthy();
+      expect(mockSendRequest).toHaveBeenCalledWith({
+        type: 'hooks.loadCachedExplanations',
+        items: [
+          { hookContent: 'bash ${CLAUDE_PLUGIN_ROOT}/guard.sh', locale: 'en', filePath: '/p/guard.sh' },
+          { hookContent: 'Summarize the session', locale: 'en', filePath: undefined },
+        ],
+      });
+      expect(await screen.findByText('dangerous')).toBeTruthy();
+    });
+
+    it('點擊 Explain → 送 hooks.explain（帶 event 與 scriptPath）並顯示解釋', async () => {
+      mockSendRequest.mockImplementation((msg: { type: string }) => {
+        if (msg.type === 'hooks.explain') return Promise.resolve({ explanation: 'Runs a guard script.', fromCache: false });
+        return Promise.resolve({});
+      });
+      renderWithHooks();
+      fireEvent.keyDown(screen.getByRole('group'), { key: 'Enter' });
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Explain' })[0]);
+
+      expect(await screen.findByText('Runs a guard script.')).toBeTruthy();
+      expect(mockSendRequest).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'hooks.explain',
+        hookContent: 'bash ${CLAUDE_PLUGIN_ROOT}/guard.sh',
+        eventType: 'PreToolUse',
+        filePath: '/p/guard.sh',
+      }), 120_000);
+    });
+
+    it('解釋失敗 → 在該 hook 下顯示錯誤', async () => {
+      mockSendRequest.mockImplementation((msg: { type: string }) => {
+        if (msg.type === 'hooks.explain') return Promise.reject(new Error('CLI timeout after 120000ms'));
+        return Promise.resolve({});
+      });
+      renderWithHooks();
+      fireEvent.keyDown(screen.getByRole('group'), { key: 'Enter' });
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Explain' })[1]);
+
+      expect((await screen.findByRole('alert')).textContent).toContain('CLI timeout after 120000ms');
+    });
+  });
+
   describe('settingsEnabledScopes fallback', () => {
     it('userInstall: null + settingsEnabledScopes: [user] → user checkbox checked', () => {
       const plugin = createPlugin({
@@ -779,6 +920,40 @@ describe('PluginCard', () => {
     });
   });
 
+  describe('多選', () => {
+    it('onSelect 傳入 → 顯示 checkbox，勾選不展開卡片', () => {
+      const onSelect = vi.fn();
+      renderWithI18n(
+        <PluginCard
+          plugin={createPlugin({ contents: { commands: [{ name: 'c', description: '', path: '/c.md' }], skills: [], agents: [], mcpServers: [], hooks: [] } })}
+          onToggle={onToggle}
+          onUpdate={onUpdate}
+          onSelect={onSelect}
+        />,
+      );
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select test-plugin' }));
+
+      expect(onSelect).toHaveBeenCalledWith('test-plugin@test-mp');
+      expect(screen.getByRole('group').getAttribute('aria-expanded')).toBe('false');
+    });
+
+    it('selected=true → checkbox 勾選且卡片有 card--selected class', () => {
+      renderWithI18n(
+        <PluginCard plugin={createPlugin()} onToggle={onToggle} onUpdate={onUpdate} onSelect={vi.fn()} selected />,
+      );
+
+      expect((screen.getByRole('checkbox', { name: 'Select test-plugin' }) as HTMLInputElement).checked).toBe(true);
+      expect(screen.getByRole('group').className).toContain('card--selected');
+    });
+
+    it('onSelect 未傳入 → 不顯示 checkbox', () => {
+      renderWithI18n(<PluginCard plugin={createPlugin()} onToggle={onToggle} onUpdate={onUpdate} />);
+
+      expect(screen.queryByRole('checkbox', { name: 'Select test-plugin' })).toBeNull();
+    });
+  });
+
   describe('隱藏按鈕', () => {
     it('onToggleHidden 傳入 → 顯示 Hide 按鈕', () => {
       const plugin = createPlugin();
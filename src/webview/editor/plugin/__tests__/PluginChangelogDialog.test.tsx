@@ -0,0 +1,63 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { PluginChangelogDialog } from '../PluginChangelogDialog';
+import type { PluginChangelog } from '../../../../shared/types';
+
+const CHANGELOG: PluginChangelog = {
+  pluginId: 'alpha@mp',
+  installedVersion: '1.0.0',
+  availableVersion: '1.1.0',
+  fromCommit: 'aaaaaaa1111',
+  toCommit: 'bbbbbbb2222',
+  commits: [
+    { sha: 'bbbbbbb2222', author: 'Tester', date: '2026-01-01T00:00:00Z', subject: 'Improve run command' },
+  ],
+  fileChanges: [
+    { path: 'agents/new.md', status: 'added' },
+    { path: 'commands/run.md', status: 'modified' },
+  ],
+  changelog: '## 1.1.0\n- Better run',
+};
+
+function renderDialog(overrides: Partial<React.ComponentProps<typeof PluginChangelogDialog>> = {}) {
+  const props = {
+    pluginName: 'alpha',
+    changelog: CHANGELOG,
+    onUpdate: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  renderWithI18n(<PluginChangelogDialog {...props} />);
+  return props;
+}
+
+describe('PluginChangelogDialog', () => {
+  afterEach(cleanup);
+
+  it('顯示版本、commits、檔案差異與 CHANGELOG.md，Update 觸發 onUpdate', () => {
+    const props = renderDialog();
+
+    expect(screen.getByText('Version 1.0.0 → 1.1.0')).toBeTruthy();
+    expect(screen.getByText('Improve run command')).toBeTruthy();
+    expect(screen.getByText('bbbbbbb')).toBeTruthy();
+    expect(screen.getByText('Added: agents/new.md')).toBeTruthy();
+    expect(screen.getByText('Modified: commands/run.md')).toBeTruthy();
+    expect(screen.getByText(/Better run/)).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Update' }));
+    expect(props.onUpdate).toHaveBeenCalled();
+  });
+
+  it('無法取得 git log 且無檔案差異 → 顯示說明', () => {
+    renderDialog({ changelog: { ...CHANGELOG, commits: undefined, fileChanges: [], changelog: undefined } });
+
+    expect(screen.getByText(/Git history is unavailable/)).toBeTruthy();
+    expect(screen.getByText('No command, skill or agent files changed.')).toBeTruthy();
+    expect(screen.queryByText('CHANGELOG.md')).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+
+const mockSendRequest = vi.fn();
+vi.mock('../../../vscode', () => ({
+  sendRequest: (...args: unknown[]) => mockSendRequest(...args),
+}));
+
+import { PluginDetailPanel } from '../PluginDetailPanel';
+import type { InstalledPlugin, MergedPlugin, PluginDetails } from '../../../../shared/types';
+
+const USER_INSTALL: InstalledPlugin = {
+  id: 'alpha@mp',
+  version: '1.0.0',
+  scope: 'user',
+  enabled: true,
+  installPath: '/cache/alpha',
+  installedAt: '2025-01-01',
+  lastUpdated: '2025-01-02',
+};
+
+const PLUGIN: MergedPlugin = {
+  id: 'alpha@mp',
+  name: 'alpha',
+  version: '1.0.0',
+  description: 'Alpha plugin',
+  userInstall: USER_INSTALL,
+  projectInstalls: [],
+  localInstall: null,
+};
+
+const DETAILS: PluginDetails = {
+  pluginId: 'alpha@mp',
+  metadata: {
+    author: 'Ada',
+    homepage: 'https://example.com/alpha',
+    repository: 'https://github.com/example/alpha',
+    license: 'MIT',
+    keywords: ['lint', 'format'],
+  },
+  readme: '# Usage\n\nRun **alpha**.<script>alert(1)</script>',
+  availableSha: 'bbbbbbb2222',
+  installs: [{
+    scope: 'user',
+    version: '1.0.0',
+    installPath: '/cache/alpha',
+    gitCommitSha: 'aaaaaaa1111',
+    lastUpdated: '2025-01-02',
+    diskBytes: 2048,
+  }],
+};
+
+describe('PluginDetailPanel', () => {
+  afterEach(() => {
+    cleanup();
+    mockSendRequest.mockReset();
+  });
+
+  it('顯示 plugin.json metadata 與 sanitize 後的 README', () => {
+    const { container } = renderWithI18n(<PluginDetailPanel plugin={PLUGIN} details={DETAILS} onClose={vi.fn()} />);
+
+    expect(screen.getByText('by Ada')).toBeTruthy();
+    expect(screen.getByText('License: MIT')).toBeTruthy();
+    expect(screen.getByText('lint')).toBeTruthy();
+    expect(screen.getByRole('heading', { name: 'Usage' })).toBeTruthy();
+    expect(container.querySelector('.detail-markdown strong')?.textContent).toBe('alpha');
+    expect(container.querySelector('script')).toBeNull();
+  });
+
+  it('各 scope 安裝狀態：installed sha vs marketplace sha、磁碟用量', () => {
+    const { container } = renderWithI18n(<PluginDetailPanel plugin={PLUGIN} details={DETAILS} onClose={vi.fn()} />);
+
+    expect(screen.getByText('Marketplace commit: bbbbbbb')).toBeTruthy();
+    const userRow = container.querySelector('[data-scope="user"]')!;
+    expect(userRow.textContent).toContain('Enabled');
+    expect(userRow.textContent).toContain('v1.0.0 · aaaaaaa · 2.0 KB');
+    expect(userRow.textContent).toContain('Behind marketplace');
+    expect(container.querySelector('[data-scope="project"]')!.textContent).toContain('Not installed');
+  });
+
+  it('homepage / repository 按鈕開啟外部連結；無 README 顯示提示', () => {
+    renderWithI18n(
+      <PluginDetailPanel plugin={PLUGIN} details={{ ...DETAILS, readme: undefined }} onClose={vi.fn()} />,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Repository' }));
+    expect(mockSendRequest).toHaveBeenCalledWith({ type: 'openExternal', url: 'https://github.com/example/alpha' });
+    expect(screen.getByText('This plugin has no README.md.')).toBeTruthy();
+  });
+
+  it('dev link：已連結 scope 顯示工作目錄、驗證問題與 Unlink，其餘已安裝 scope 可 Link folder', () => {
+    const onDevLink = vi.fn();
+    const onDevUnlink = vi.fn();
+    const { container } = renderWithI18n(
+      <PluginDetailPanel plugin={PLUGIN} details={DETAILS} onClose={vi.fn()} onDevLink={onDevLink} onDevUnlink={onDevUnlink} />,
+    );
+
+    expect(container.querySelector('[data-scope="project"] button')).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Link folder…' }));
+    expect(onDevLink).toHaveBeenCalledWith('user');
+
+    cleanup();
+    const linked = renderWithI18n(
+      <PluginDetailPanel
+        plugin={PLUGIN}
+        details={DETAILS}
+        onClose={vi.fn()}
+        onDevLink={onDevLink}
+        onDevUnlink={onDevUnlink}
+        devLinks={[{
+          pluginId: 'alpha@mp',
+          scope: 'user',
+          path: '/work/alpha',
+          issues: [{ severity: 'error', message: 'hooks/hooks.json is not valid JSON' }],
+        }]}
+      />,
+    );
+
+    expect(screen.getByText('Dev folder: /work/alpha')).toBeTruthy();
+    expect(screen.getByText('hooks/hooks.json is not valid JSON')).toBeTruthy();
+    expect(linked.container.querySelector('[data-scope="user"]')!.textContent).not.toContain('Behind marketplace');
+    fireEvent.click(screen.getByRole('button', { name: 'Unlink' }));
+    expect(onDevUnlink).toHaveBeenCalledWith('user');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { PluginHistoryDialog } from '../PluginHistoryDialog';
+import type { InstalledPlugin, MergedPlugin, PluginVersionSnapshot } from '../../../../shared/types';
+
+function makeInstall(scope: InstalledPlugin['scope'], installPath: string, version: string): InstalledPlugin {
+  return {
+    id: 'alpha@mp',
+    version,
+    scope,
+    enabled: true,
+    installPath,
+    installedAt: '2026-01-01T00:00:00Z',
+    lastUpdated: '2026-02-01T00:00:00Z',
+  };
+}
+
+const PLUGIN: MergedPlugin = {
+  id: 'alpha@mp',
+  name: 'alpha',
+  marketplaceName: 'mp',
+  userInstall: makeInstall('user', '/cache/alpha/v2', '2.0.0'),
+  projectInstalls: [],
+  localInstall: makeInstall('local', '/cache/alpha/v1', '1.0.0'),
+};
+
+const SNAPSHOTS: PluginVersionSnapshot[] = [
+  { installPath: '/cache/alpha/v1', version: '1.0.0', gitCommitSha: 'abcdef1234567', lastUpdated: '2026-01-01T00:00:00Z', replacedAt: '2026-02-01T00:00:00Z' },
+];
+
+function renderDialog(overrides: Partial<React.ComponentProps<typeof PluginHistoryDialog>> = {}) {
+  const props = {
+    plugin: PLUGIN,
+    snapshots: SNAPSHOTS,
+    rollingBack: false,
+    onRollback: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  renderWithI18n(<PluginHistoryDialog {...props} />);
+  return props;
+}
+
+describe('PluginHistoryDialog', () => {
+  afterEach(cleanup);
+
+  it('顯示歷史版本與短 commit，rollback 預設第一個已安裝 scope', () => {
+    const props = renderDialog();
+
+    expect(screen.getByText('Current (User): 2.0.0')).toBeTruthy();
+    expect(screen.getByText('abcdef1')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Roll back' }));
+
+    expect(props.onRollback).toHaveBeenCalledWith('user', SNAPSHOTS[0]);
+  });
+
+  it('切換到已在使用該版本的 scope → rollback 按鈕停用', () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Scope'), { target: { value: 'local' } });
+
+    expect(screen.getByText('Current (Local): 1.0.0')).toBeTruthy();
+    expect((screen.getByRole('button', { name: 'Roll back' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('無歷史版本 → 顯示空狀態', () => {
+    renderDialog({ snapshots: [] });
+
+    expect(screen.getByText(/No previous versions yet/)).toBeTruthy();
+    expect(screen.queryByRole('button', { name: 'Roll back' })).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { PluginProfileDiffDialog } from '../PluginProfileDiffDialog';
+import { PluginProfileManageDialog } from '../PluginProfileManageDialog';
+import type { PluginProfile } from '../../../../shared/types';
+
+const PROFILES: PluginProfile[] = [
+  { name: 'frontend', enabledPlugins: { user: ['a@mp', 'b@mp'], project: ['p@mp'], local: [] }, updatedAt: '' },
+  { name: 'writing', enabledPlugins: { user: ['w@mp'] }, updatedAt: '' },
+];
+
+describe('PluginProfileDiffDialog', () => {
+  afterEach(cleanup);
+
+  it('依 enable / disable 分組列出 plugin 與 scope', () => {
+    const onApply = vi.fn();
+    const { container } = renderWithI18n(
+      <PluginProfileDiffDialog
+        diff={{
+          name: 'frontend',
+          toEnable: [{ pluginId: 'a@mp', scope: 'user' }, { pluginId: 'p@mp', scope: 'project' }],
+          toDisable: [{ pluginId: 'x@mp', scope: 'local' }],
+        }}
+        applying={false}
+        onApply={onApply}
+        onCancel={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText('Apply profile "frontend"')).toBeTruthy();
+    expect(screen.getByText('2 to enable, 1 to disable.')).toBeTruthy();
+    expect(screen.getByText('Enable (2)')).toBeTruthy();
+    expect(screen.getByText('Disable (1)')).toBeTruthy();
+    expect(container.querySelectorAll('.plugin-profile-change--enable')).toHaveLength(2);
+    expect(container.querySelector('.plugin-profile-change--disable')!.textContent).toContain('x@mp');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+    expect(onApply).toHaveBeenCalledTimes(1);
+  });
+
+  it('無差異 → 顯示已一致訊息', () => {
+    renderWithI18n(
+      <PluginProfileDiffDialog
+        diff={{ name: 'frontend', toEnable: [], toDisable: [] }}
+        applying={false}
+        onApply={vi.fn()}
+        onCancel={vi.fn()}
+      />,
+    );
+    expect(screen.getByText('Enabled plugins already match this profile.')).toBeTruthy();
+  });
+
+  it('套用中 → 按鈕 disabled', () => {
+    renderWithI18n(
+      <PluginProfileDiffDialog
+        diff={{ name: 'frontend', toEnable: [{ pluginId: 'a@mp', scope: 'user' }], toDisable: [] }}
+        applying
+        onApply={vi.fn()}
+        onCancel={vi.fn()}
+      />,
+    );
+    expect((screen.getByRole('button', { name: 'Applying...' }) as HTMLButtonElement).disabled).toBe(true);
+    expect((screen.getByRole('button', { name: 'Cancel' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
+
+describe('PluginProfileManageDialog', () => {
+  afterEach(cleanup);
+
+  function renderManage(overrides: Partial<React.ComponentProps<typeof PluginProfileManageDialog>> = {}) {
+    const props = {
+      profiles: PROFILES,
+      activeProfile: 'frontend',
+      busy: false,
+      onSave: vi.fn().mockResolvedValue(true),
+      onDelete: vi.fn(),
+      onClose: vi.fn(),
+      ...overrides,
+    };
+    renderWithI18n(<PluginProfileManageDialog {...props} />);
+    return props;
+  }
+
+  it('列出 profile、active 標記與各 scope 數量', () => {
+    renderManage();
+    expect(screen.getByText('active')).toBeTruthy();
+    expect(screen.getByText('User: 2 · Project: 1 · Local: 0')).toBeTruthy();
+    expect(screen.getByText('User: 1')).toBeTruthy();
+  });
+
+  it('輸入名稱儲存 → onSave 帶 trim 後名稱，成功後清空', async () => {
+    const props = renderManage();
+    const input = screen.getByLabelText('Name') as HTMLInputElement;
+
+    fireEvent.change(input, { target: { value: ' infra ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save current' }));
+
+    expect(props.onSave).toHaveBeenCalledWith('infra');
+    await waitFor(() => expect(input.value).toBe(''));
+  });
+
+  it('名稱與既有 profile 相同 → 按鈕顯示 Overwrite', () => {
+    renderManage();
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'writing' } });
+    expect(screen.getByRole('button', { name: 'Overwrite' })).toBeTruthy();
+  });
+
+  it('Delete → onDelete 帶 profile name', () => {
+    const props = renderManage();
+    fireEvent.click(screen.getByRole('button', { name: 'Delete profile writing' }));
+    expect(props.onDelete).toHaveBeenCalledWith('writing');
+  });
+
+  it('沒有 profile → 顯示空狀態', () => {
+    renderManage({ profiles: [], activeProfile: undefined });
+    expect(screen.getByText('No profiles yet.')).toBeTruthy();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { PluginSecurityReviewDialog } from '../PluginSecurityReviewDialog';
+import type { PluginSecurityReport } from '../../../../shared/types';
+
+const REPORT: PluginSecurityReport = {
+  pluginId: 'alpha@mp',
+  reviewKey: 'abcdef1234567',
+  gitCommitSha: 'abcdef1234567',
+  sourceAvailable: true,
+  hookCommands: [{ event: 'PreToolUse', matcher: 'Bash', command: 'bash ./hooks/check.sh' }],
+  scripts: ['hooks/check.sh'],
+  mcpServers: [{ name: 'db', command: 'npx', args: ['-y', 'db-mcp'] }],
+  findings: [
+    { rule: 'recursive-delete', severity: 'high', source: 'script', location: 'hooks/check.sh:3', excerpt: 'rm -rf ~/tmp' },
+  ],
+  acknowledged: false,
+};
+
+function renderDialog(overrides: Partial<React.ComponentProps<typeof PluginSecurityReviewDialog>> = {}) {
+  const props = {
+    report: REPORT,
+    acknowledging: false,
+    onAcknowledge: vi.fn(),
+    onCancel: vi.fn(),
+    ...overrides,
+  };
+  renderWithI18n(<PluginSecurityReviewDialog {...props} />);
+  return props;
+}
+
+describe('PluginSecurityReviewDialog', () => {
+  afterEach(cleanup);
+
+  it('列出風險、hook、script、MCP 指令與審查的 commit', () => {
+    renderDialog();
+
+    expect(screen.getByText('Reviewed commit abcdef1')).toBeTruthy();
+    expect(screen.getByText('Recursively deletes files')).toBeTruthy();
+    expect(screen.getByText('hooks/check.sh:3')).toBeTruthy();
+    expect(screen.getByText('rm -rf ~/tmp')).toBeTruthy();
+    expect(screen.getByText('PreToolUse (Bash): bash ./hooks/check.sh')).toBeTruthy();
+    expect(screen.getByText('db: npx -y db-mcp')).toBeTruthy();
+  });
+
+  it('有 high 風險時確認按鈕為 danger 樣式，點擊觸發 onAcknowledge', () => {
+    const props = renderDialog();
+    const button = screen.getByRole('button', { name: 'I understand, continue' });
+
+    expect(button.className).toContain('btn-danger');
+    fireEvent.click(button);
+    expect(props.onAcknowledge).toHaveBeenCalledTimes(1);
+  });
+
+  it('remote source → 說明無法事先審查，不列風險區塊', () => {
+    renderDialog({
+      report: { ...REPORT, sourceAvailable: false, reviewKey: undefined, gitCommitSha: undefined, hookCommands: [], scripts: [], mcpServers: [], findings: [] },
+    });
+
+    expect(screen.getByText(/can't be reviewed beforehand/)).toBeTruthy();
+    expect(screen.queryByText(/Risky patterns/)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { PluginSourceInstallDialog } from '../PluginSourceInstallDialog';
+
+describe('PluginSourceInstallDialog', () => {
+  afterEach(cleanup);
+
+  function renderDialog(overrides: Partial<React.ComponentProps<typeof PluginSourceInstallDialog>> = {}) {
+    const props = {
+      hasWorkspace: true,
+      installing: false,
+      onSubmit: vi.fn(),
+      onCancel: vi.fn(),
+      ...overrides,
+    };
+    renderWithI18n(<PluginSourceInstallDialog {...props} />);
+    return props;
+  }
+
+  it('送出 trim 後的 source / subdir 與選擇的 scope', () => {
+    const props = renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Source'), { target: { value: ' owner/repo ' } });
+    fireEvent.change(screen.getByLabelText('Subdirectory'), { target: { value: ' plugins/tool ' } });
+    fireEvent.change(screen.getByLabelText('Scope'), { target: { value: 'project' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Install' }));
+
+    expect(props.onSubmit).toHaveBeenCalledWith({ source: 'owner/repo', subdir: 'plugins/tool', scope: 'project' });
+  });
+
+  it('subdir 空白 → 不帶 subdir；source 空白時按鈕 disabled', () => {
+    const props = renderDialog();
+    expect((screen.getByRole('button', { name: 'Install' }) as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.change(screen.getByLabelText('Source'), { target: { value: '~/plugins/tool' } });
+    fireEvent.keyDown(screen.getByLabelText('Source'), { key: 'Enter' });
+
+    expect(props.onSubmit).toHaveBeenCalledWith({ source: '~/plugins/tool', subdir: undefined, scope: 'user' });
+  });
+
+  it('無 workspace → project / local 選項 disabled', () => {
+    renderDialog({ hasWorkspace: false });
+    const options = screen.getAllByRole('option') as HTMLOptionElement[];
+    expect(options.map((o) => o.disabled)).toEqual([false, true, true]);
+  });
+
+  it('安裝中 → 顯示 Installing... 且無法送出', () => {
+    renderDialog({ installing: true });
+    expect((screen.getByRole('button', { name: 'Installing...' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -25,6 +25,12 @@ function buildProps(overrides: Partial<PluginToolbarProps> = {}): PluginToolbarP
     onTranslateOpen: vi.fn(),
     filterEnabled: false,
     onFilterEnabledToggle: vi.fn(),
+    filterUpdates: false,
+    onFilterUpdatesToggle: vi.fn(),
+    filterConflicts: false,
+    onFilterConflictsToggle: vi.fn(),
+    filterNeverUsed: false,
+    onFilterNeverUsedToggle: vi.fn(),
     showHidden: false,
     onShowHiddenToggle: vi.fn(),
     contentTypeFilters: new Set<ContentTypeFilter>(),
@@ -33,6 +39,8 @@ function buildProps(overrides: Partial<PluginToolbarProps> = {}): PluginToolbarP
     onSourceFormatFilterToggle: vi.fn(),
     sortBy: 'name',
     onSortByChange: vi.fn(),
+    contextTokens: 0,
+    enabledPluginCount: 0,
     ...overrides,
   };
 }
@@ -115,6 +123,20 @@ describe('PluginToolbar', () => {
       expect(onFilterEnabledToggle).toHaveBeenCalledTimes(1);
     });
 
+    it('點擊 Conflicts filter chip 觸發 onFilterConflictsToggle', () => {
+      const onFilterConflictsToggle = vi.fn();
+      renderWithI18n(<PluginToolbar {...buildProps({ onFilterConflictsToggle })} />);
+      fireEvent.click(screen.getByText('Conflicts'));
+      expect(onFilterConflictsToggle).toHaveBeenCalledTimes(1);
+    });
+
+    it('點擊 Never used filter chip 觸發 onFilterNeverUsedToggle', () => {
+      const onFilterNeverUsedToggle = vi.fn();
+      renderWithI18n(<PluginToolbar {...buildProps({ onFilterNeverUsedToggle })} />);
+      fireEvent.click(screen.getByText('Never used'));
+      expect(onFilterNeverUsedToggle).toHaveBeenCalledTimes(1);
+    });
+
     it('點擊 Show Hidden filter chip 觸發 onShowHiddenToggle', () => {
       const onShowHiddenToggle = vi.fn();
       renderWithI18n(<PluginToolbar {...buildProps({ onShowHiddenToggle })} />);
@@ -195,5 +217,32 @@ describe('PluginToolbar', () => {
       const select = screen.getByRole('combobox', { name: 'Sort by' }) as HTMLSelectElement;
       expect(select.value).toBe('lastUpdated');
     });
+
+    it('選擇 Context Cost 觸發 onSortByChange(contextCost)', () => {
+      const onSortByChange = vi.fn();
+      renderWithI18n(<PluginToolbar {...buildProps({ onSortByChange })} />);
+
+      fireEvent.change(screen.getByRole('combobox', { name: 'Sort by' }), { target: { value: 'contextCost' } });
+      expect(onSortByChange).toHaveBeenCalledWith('contextCost');
+    });
+  });
+
+  describe('Context budget 計量條', () => {
+    it('顯示已啟用 plugin 的估計 token 總和與佔 context window 比例', () => {
+      renderWithI18n(<PluginToolbar {...buildProps({ contextTokens: 12_345, enabledPluginCount: 3 })} />);
+
+      const meter = screen.getByRole('meter', { name: 'Context: ~12.3k / 200k tokens' });
+      expect(meter.getAttribute('aria-valuenow')).toBe('12345');
+      expect(meter.getAttribute('title')).toContain('3 enabled plugin(s)');
+      expect((meter.querySelector('.context-budget-fill') as HTMLElement).style.width).toBe('6.1725%');
+    });
+
+    it('超過 context window 時計量條封頂 100%', () => {
+      renderWithI18n(<PluginToolbar {...buildProps({ contextTokens: 250_000 })} />);
+
+      const meter = screen.getByRole('meter');
+      expect(meter.getAttribute('aria-valuenow')).toBe('200000');
+      expect((meter.querySelector('.context-budget-fill') as HTMLElement).style.width).toBe('100%');
+    });
   });
 });
@@ -0,0 +1,63 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
+import { renderWithI18n } from '../../../__test-utils__/renderWithProviders';
+import { ScaffoldPluginDialog } from '../ScaffoldPluginDialog';
+
+function renderDialog(overrides: Partial<React.ComponentProps<typeof ScaffoldPluginDialog>> = {}) {
+  const props = {
+    scaffolding: false,
+    onPickDirectory: vi.fn().mockResolvedValue('/home/user/dev'),
+    onSubmit: vi.fn(),
+    onCancel: vi.fn(),
+    ...overrides,
+  };
+  renderWithI18n(<ScaffoldPluginDialog {...props} />);
+  return props;
+}
+
+describe('ScaffoldPluginDialog', () => {
+  afterEach(cleanup);
+
+  it('Browse 選擇位置後填表 → onSubmit 帶完整 options', async () => {
+    const props = renderDialog();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Browse…' }));
+    await waitFor(() => expect((screen.getByLabelText('Location') as HTMLInputElement).value).toBe('/home/user/dev'));
+    fireEvent.change(screen.getByLabelText('Marketplace'), { target: { value: 'team-mp' } });
+    fireEvent.change(screen.getByLabelText('Plugin'), { target: { value: 'deploy-kit' } });
+    fireEvent.change(screen.getByLabelText('Description'), { target: { value: ' Deploy helpers ' } });
+    fireEvent.click(screen.getByLabelText('Include hooks/hooks.json'));
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    expect(props.onSubmit).toHaveBeenCalledWith({
+      parentDir: '/home/user/dev',
+      marketplaceName: 'team-mp',
+      pluginName: 'deploy-kit',
+      description: 'Deploy helpers',
+      author: undefined,
+      includeHooks: true,
+      includeMcp: false,
+    });
+  });
+
+  it('名稱不合法 → 顯示提示並停用 Create', () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Location'), { target: { value: '/tmp' } });
+    fireEvent.change(screen.getByLabelText('Marketplace'), { target: { value: 'Team MP' } });
+    fireEvent.change(screen.getByLabelText('Plugin'), { target: { value: 'ok' } });
+
+    expect(screen.getByText('Names may only contain lowercase letters, digits and dashes.')).toBeTruthy();
+    expect((screen.getByRole('button', { name: 'Create' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('scaffolding 中顯示 Creating... 並停用按鈕', () => {
+    renderDialog({ scaffolding: true });
+
+    expect((screen.getByRole('button', { name: 'Creating...' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../vscode', () => ({
+  getViewState: (_key: string, fallback: unknown) => fallback,
+  setViewState: vi.fn(),
+  setGlobalState: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { detectPluginConflicts, getConflictingPluginIds } from '../conflictUtils';
+import type { AgentSkill, McpServer, MergedPlugin, PluginContents } from '../../../../shared/types';
+
+function makeContents(overrides: Partial<PluginContents> = {}): PluginContents {
+  return { commands: [], skills: [], agents: [], mcpServers: [], hooks: [], ...overrides };
+}
+
+function item(name: string) {
+  return { name, description: '', path: `/x/${name}.md` };
+}
+
+function makePlugin(id: string, contents: PluginContents, enabled = true): MergedPlugin {
+  const [name, marketplaceName] = id.split('@');
+  return {
+    id,
+    name,
+    marketplaceName,
+    contents,
+    userInstall: {
+      id,
+      version: '1.0.0',
+      scope: 'user',
+      enabled,
+      installPath: `/plugins/${name}`,
+      installedAt: '2026-01-01T00:00:00Z',
+      lastUpdated: '2026-01-01T00:00:00Z',
+    },
+    projectInstalls: [],
+    localInstall: null,
+  };
+}
+
+describe('detectPluginConflicts', () => {
+  it('兩個已啟用 plugin 定義同名 command → 回報衝突', () => {
+    const conflicts = detectPluginConflicts([
+      makePlugin('a@mp', makeContents({ commands: [item('review'), item('lint')] })),
+      makePlugin('b@mp', makeContents({ commands: [item('review')] })),
+    ]);
+    expect(conflicts).toEqual([
+      { kind: 'command', name: 'review', pluginIds: ['a@mp', 'b@mp'], externalScopes: [] },
+    ]);
+  });
+
+  it('停用的 plugin 不參與衝突', () => {
+    const conflicts = detectPluginConflicts([
+      makePlugin('a@mp', makeContents({ skills: [item('tdd')] })),
+      makePlugin('b@mp', makeContents({ skills: [item('tdd')] }), false),
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('不同類型同名不算衝突', () => {
+    const conflicts = detectPluginConflicts([
+      makePlugin('a@mp', makeContents({ commands: [item('review')] })),
+      makePlugin('b@mp', makeContents({ agents: [item('review')] })),
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('plugin skill / MCP server 與 user、project 來源同名 → 回報外部 scope', () => {
+    const skills: AgentSkill[] = [
+      { name: 'tdd', path: '/home/.claude/skills/tdd', scope: 'global', agents: [] },
+      { name: 'other', path: '/repo/.claude/skills/other', scope: 'project', agents: [] },
+    ];
+    const mcpServers: McpServer[] = [
+      { name: 'github', fullName: 'github', command: 'npx github', status: 'pending', scope: 'project' },
+      { name: 'github', fullName: 'plugin:a:github', command: 'npx github', status: 'pending', plugin: { id: 'a@mp', enabled: true } },
+    ];
+    const conflicts = detectPluginConflicts(
+      [makePlugin('a@mp', makeContents({ skills: [item('tdd')], mcpServers: ['github'] }))],
+      { skills, mcpServers },
+    );
+    expect(conflicts).toEqual([
+      { kind: 'skill', name: 'tdd', pluginIds: ['a@mp'], externalScopes: ['user'] },
+      { kind: 'mcp', name: 'github', pluginIds: ['a@mp'], externalScopes: ['project'] },
+    ]);
+  });
+
+  it('getConflictingPluginIds 收集所有衝突中的 plugin', () => {
+    const conflicts = detectPluginConflicts([
+      makePlugin('a@mp', makeContents({ commands: [item('review')], mcpServers: ['db'] })),
+      makePlugin('b@mp', makeContents({ commands: [item('review')] })),
+      makePlugin('c@mp', makeContents({ mcpServers: ['db'] })),
+      makePlugin('d@mp', makeContents({ commands: [item('unique')] })),
+    ]);
+    expect([...getConflictingPluginIds(conflicts)].sort()).toEqual(['a@mp', 'b@mp', 'c@mp']);
+  });
+});
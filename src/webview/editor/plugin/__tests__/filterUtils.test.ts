@@ -26,6 +26,8 @@ import {
   getEnabledScopes,
   compareByName,
   compareByLastUpdated,
+  compareByContextCost,
+  getContextBudget,
   getPluginComparator,
   readPluginSort,
   writePluginSort,
@@ -66,7 +68,7 @@ function makeMerged(opts?: {
       skills: [],
       agents: [],
       mcpServers: [],
-      hooks: false,
+      hooks: [],
       ...opts.contents,
     } : undefined,
   };
@@ -209,6 +211,19 @@ describe('matchesSearch', () => {
       expect(matchesSearch(plugin, 'scrape')).toBe(true);
     });
 
+    it('匹配 hook event / matcher / command', () => {
+      const plugin = makeMerged({
+        name: 'tools',
+        contents: {
+          hooks: [{ event: 'PreToolUse', matcher: 'Bash', type: 'command', command: 'node guard-rails.js' }],
+        },
+      });
+      expect(matchesSearch(plugin, 'pretooluse')).toBe(true);
+      expect(matchesSearch(plugin, 'bash')).toBe(true);
+      expect(matchesSearch(plugin, 'guard-rails')).toBe(true);
+      expect(matchesSearch(plugin, 'stop')).toBe(false);
+    });
+
     it('不搜尋 mcpServers（純 string，非 ContentItem）', () => {
       const plugin = makeMerged({
         name: 'tools',
@@ -425,6 +440,37 @@ describe('compareByLastUpdated', () => {
   });
 });
 
+describe('compareByContextCost', () => {
+  const withTokens = (name: string, total: number): MergedPlugin => makeMerged({
+    name,
+    contents: { tokenEstimate: { commands: total, skills: 0, agents: 0, mcpServers: 0, total } },
+  });
+
+  it('估計 token 多的排前面，無估計值視為 0', () => {
+    const heavy = withTokens('b', 3000);
+    const light = withTokens('a', 200);
+    const unknown = makeMerged({ name: 'c' });
+    expect([light, unknown, heavy].sort(compareByContextCost).map((p) => p.name)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('token 數相同 → fallback 按名稱排序', () => {
+    expect(compareByContextCost(withTokens('alpha', 500), withTokens('beta', 500))).toBeLessThan(0);
+  });
+});
+
+describe('getContextBudget', () => {
+  it('只加總已啟用 plugin 的估計 token', () => {
+    const enabledInstall = { enabled: true } as InstalledPlugin;
+    const plugins: MergedPlugin[] = [
+      { ...makeMerged({ contents: { tokenEstimate: { commands: 100, skills: 0, agents: 0, mcpServers: 0, total: 100 } } }), userInstall: enabledInstall },
+      { ...makeMerged({ contents: { tokenEstimate: { commands: 0, skills: 0, agents: 0, mcpServers: 1500, total: 1500 } } }), settingsEnabledScopes: ['project'] },
+      makeMerged({ contents: { tokenEstimate: { commands: 900, skills: 0, agents: 0, mcpServers: 0, total: 900 } } }),
+      { ...makeMerged(), userInstall: enabledInstall },
+    ];
+    expect(getContextBudget(plugins)).toEqual({ tokens: 1600, enabledCount: 3 });
+  });
+});
+
 describe('getPluginComparator', () => {
   it('name → 回傳 compareByName', () => {
     expect(getPluginComparator('name')).toBe(compareByName);
@@ -433,6 +479,10 @@ describe('getPluginComparator', () => {
   it('lastUpdated → 回傳 compareByLastUpdated', () => {
     expect(getPluginComparator('lastUpdated')).toBe(compareByLastUpdated);
   });
+
+  it('contextCost → 回傳 compareByContextCost', () => {
+    expect(getPluginComparator('contextCost')).toBe(compareByContextCost);
+  });
 });
 
 describe('readPluginSort / writePluginSort', () => {
@@ -449,6 +499,11 @@ describe('readPluginSort / writePluginSort', () => {
     expect(readPluginSort()).toBe('lastUpdated');
   });
 
+  it('write contextCost → read 回 contextCost', () => {
+    writePluginSort('contextCost');
+    expect(readPluginSort()).toBe('contextCost');
+  });
+
   it('write name → read 回 name', () => {
     writePluginSort('name');
     expect(readPluginSort()).toBe('name');
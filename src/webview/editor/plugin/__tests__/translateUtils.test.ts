@@ -25,7 +25,7 @@ function makeContents(overrides: Partial<PluginContents> = {}): PluginContents {
     skills: [],
     agents: [],
     mcpServers: [],
-    hooks: false,
+    hooks: [],
     ...overrides,
   };
 }
@@ -83,7 +83,7 @@ describe('collectPluginTexts', () => {
         description: 'Plugin desc',
         contents: makeContents({
           mcpServers: ['my-server', 'other-server'],
-          hooks: true,
+          hooks: [{ event: 'Stop', type: 'command', command: 'echo done' }],
         }),
       }),
     ];
@@ -0,0 +1,87 @@
+import type { AgentSkill, McpScope, McpServer, MergedPlugin, PluginContents } from '../../../shared/types';
+import { isPluginEnabled } from './filterUtils';
+
+/** 會互相覆蓋的名稱類型 */
+export type ConflictKind = 'command' | 'skill' | 'agent' | 'mcp';
+
+/** 顯示順序 */
+export const CONFLICT_KINDS: ConflictKind[] = ['command', 'skill', 'agent', 'mcp'];
+
+/** 單一名稱衝突 */
+export interface PluginConflict {
+  kind: ConflictKind;
+  name: string;
+  /** 定義此名稱的已啟用 plugin（依 id 排序） */
+  pluginIds: string[];
+  /** 同名的 user / project skill 或 MCP server 所在 scope（skill 的 global 視為 user） */
+  externalScopes: McpScope[];
+}
+
+/** plugin 以外的 skill / MCP server 來源 */
+export interface ExternalContents {
+  skills: AgentSkill[];
+  mcpServers: McpServer[];
+}
+
+/** 各 kind 對應的 plugin contents 名稱 */
+function getContentNames(contents: PluginContents, kind: ConflictKind): string[] {
+  switch (kind) {
+    case 'command': return contents.commands.map((item) => item.name);
+    case 'skill': return contents.skills.map((item) => item.name);
+    case 'agent': return contents.agents.map((item) => item.name);
+    case 'mcp': return contents.mcpServers;
+  }
+}
+
+/**
+ * 找出已啟用 plugin 之間（以及與 user / project skill、MCP server）的同名 command / skill / agent / MCP server。
+ * 至少一方是 plugin 才算衝突；plugin 自帶的 MCP server 已由 contents 計入，不重複計算。
+ */
+export function detectPluginConflicts(
+  plugins: MergedPlugin[],
+  external: ExternalContents = { skills: [], mcpServers: [] },
+): PluginConflict[] {
+  const conflicts: PluginConflict[] = [];
+  const enabled = plugins.filter((p) => p.contents && isPluginEnabled(p));
+
+  for (const kind of CONFLICT_KINDS) {
+    const owners = new Map<string, Set<string>>();
+    for (const plugin of enabled) {
+      for (const name of getContentNames(plugin.contents!, kind)) {
+        const ids = owners.get(name) ?? new Set<string>();
+        ids.add(plugin.id);
+        owners.set(name, ids);
+      }
+    }
+
+    const externalScopes = new Map<string, Set<McpScope>>();
+    const addExternal = (name: string, scope: McpScope): void => {
+      if (!owners.has(name)) return;
+      const scopes = externalScopes.get(name) ?? new Set<McpScope>();
+      scopes.add(scope);
+      externalScopes.set(name, scopes);
+    };
+    if (kind === 'skill') {
+      for (const skill of external.skills) addExternal(skill.name, skill.scope === 'global' ? 'user' : 'project');
+    }
+    if (kind === 'mcp') {
+      for (const server of external.mcpServers) {
+        if (!server.plugin && server.scope) addExternal(server.name, server.scope);
+      }
+    }
+
+    const names = [...owners.keys()].sort((a, b) => a.localeCompare(b));
+    for (const name of names) {
+      const pluginIds = [...owners.get(name)!].sort();
+      const scopes = [...(externalScopes.get(name) ?? [])].sort();
+      if (pluginIds.length + scopes.length < 2) continue;
+      conflicts.push({ kind, name, pluginIds, externalScopes: scopes });
+    }
+  }
+  return conflicts;
+}
+
+/** 參與任一衝突的 plugin id */
+export function getConflictingPluginIds(conflicts: PluginConflict[]): Set<string> {
+  return new Set(conflicts.flatMap((conflict) => conflict.pluginIds));
+}
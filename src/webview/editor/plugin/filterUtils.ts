@@ -1,4 +1,5 @@
 import type { MergedPlugin, PluginScope, SourceFormatType } from '../../../shared/types';
+import { isUpdateAvailable } from '../../../shared/pluginUpdates';
 import { getViewState, setViewState, setGlobalState } from '../../vscode';
 
 /** 過濾出可見（非隱藏）的 plugin */
@@ -69,17 +70,11 @@ export function isInstalledInScope(p: MergedPlugin, scope: PluginScope): boolean
  * 未安裝或無 availableLastUpdated 時回傳 false。
  */
 export function hasPluginUpdate(p: MergedPlugin): boolean {
-  if (!p.availableLastUpdated) return false;
-  const installedDates = [
+  return isUpdateAvailable(p.availableLastUpdated, [
     p.userInstall?.lastUpdated,
     ...p.projectInstalls.map((i) => i.lastUpdated),
     p.localInstall?.lastUpdated,
-  ].filter(Boolean) as string[];
-  if (installedDates.length === 0) return false;
-  const latestInstalledMs = installedDates
-    .map((d) => new Date(d).getTime())
-    .reduce((a, b) => Math.max(a, b));
-  return new Date(p.availableLastUpdated).getTime() > latestInstalledMs;
+  ]);
 }
 
 /** 所有可用的 content type filter chips */
@@ -139,8 +134,8 @@ export function matchesSourceFormat(
 }
 
 /**
- * 搜尋 plugin name/description 以及 contents 內 commands/skills/agents 的 name/description。
- * mcpServers（純 string ID）不列入搜尋。
+ * 搜尋 plugin name/description、contents 內 commands/skills/agents 的 name/description，
+ * 以及 hooks 的 event/matcher/command。mcpServers（純 string ID）不列入搜尋。
  * case-insensitive substring match。空 query 回傳 true。
  */
 export function matchesSearch(plugin: MergedPlugin, query: string): boolean {
@@ -157,13 +152,27 @@ export function matchesSearch(plugin: MergedPlugin, query: string): boolean {
         if (item.description.toLowerCase().includes(q)) return true;
       }
     }
+    for (const hook of plugin.contents.hooks) {
+      if (hook.event.toLowerCase().includes(q)) return true;
+      if (hook.matcher?.toLowerCase().includes(q)) return true;
+      if (hook.command.toLowerCase().includes(q)) return true;
+    }
   }
 
   return false;
 }
 
+/** 已啟用 plugin 的估計 context token 總和（toolbar 預算計量條） */
+export function getContextBudget(plugins: MergedPlugin[]): { tokens: number; enabledCount: number } {
+  const enabled = plugins.filter(isPluginEnabled);
+  return {
+    tokens: enabled.reduce((sum, p) => sum + (p.contents?.tokenEstimate?.total ?? 0), 0),
+    enabledCount: enabled.length,
+  };
+}
+
 /** Plugin 排序方式 */
-export type PluginSortBy = 'name' | 'lastUpdated';
+export type PluginSortBy = 'name' | 'lastUpdated' | 'contextCost';
 
 /** 按名稱升序（case-insensitive） */
 export function compareByName(a: MergedPlugin, b: MergedPlugin): number {
@@ -185,15 +194,26 @@ export function compareByLastUpdated(a: MergedPlugin, b: MergedPlugin): number {
   return diff !== 0 ? diff : a.name.localeCompare(b.name);
 }
 
+/** 按估計 context token 數降序（用量大的在前）。無估計值視為 0，相同 fallback 名稱排序。 */
+export function compareByContextCost(a: MergedPlugin, b: MergedPlugin): number {
+  const diff = (b.contents?.tokenEstimate?.total ?? 0) - (a.contents?.tokenEstimate?.total ?? 0);
+  return diff !== 0 ? diff : a.name.localeCompare(b.name);
+}
+
 /** 取得排序比較函數 */
 export function getPluginComparator(sortBy: PluginSortBy): (a: MergedPlugin, b: MergedPlugin) => number {
-  return sortBy === 'lastUpdated' ? compareByLastUpdated : compareByName;
+  if (sortBy === 'lastUpdated') return compareByLastUpdated;
+  if (sortBy === 'contextCost') return compareByContextCost;
+  return compareByName;
 }
 
 /** VSCode viewState keys for plugin filter persistence */
 export const SOURCE_FORMAT_STORAGE_KEY = 'plugin.filter.sourceFormats';
 export const PLUGIN_SEARCH_KEY = 'plugin.search';
 export const PLUGIN_FILTER_ENABLED_KEY = 'plugin.filter.enabled';
+export const PLUGIN_FILTER_UPDATES_KEY = 'plugin.filter.updates';
+export const PLUGIN_FILTER_CONFLICTS_KEY = 'plugin.filter.conflicts';
+export const PLUGIN_FILTER_NEVER_USED_KEY = 'plugin.filter.neverUsed';
 export const CONTENT_TYPE_STORAGE_KEY = 'plugin.filter.contentTypes';
 export const PLUGIN_SORT_KEY = 'plugin.sort';
 export const PLUGIN_EXPANDED_KEY = 'plugin.expanded';
@@ -239,7 +259,7 @@ export function writeSourceFormatFilters(filters: ReadonlySet<SourceFormatFilter
 /** viewState → PluginSortBy。無效值 fallback 'name'。 */
 export function readPluginSort(): PluginSortBy {
   const raw = getViewState<string>(PLUGIN_SORT_KEY, 'name');
-  return raw === 'lastUpdated' ? 'lastUpdated' : 'name';
+  return raw === 'lastUpdated' || raw === 'contextCost' ? raw : 'name';
 }
 
 /** PluginSortBy → viewState + globalState */
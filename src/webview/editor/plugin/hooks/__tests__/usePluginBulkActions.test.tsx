@@ -0,0 +1,101 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook } from '@testing-library/react';
+
+const { mockSendRequest, addToastMock } = vi.hoisted(() => ({
+  mockSendRequest: vi.fn(),
+  addToastMock: vi.fn(),
+}));
+
+vi.mock('../../../../vscode', () => ({
+  sendRequest: (...args: unknown[]) => mockSendRequest(...args),
+}));
+
+vi.mock('../../../../components/Toast', () => ({
+  useToast: () => ({ addToast: addToastMock }),
+}));
+
+import { usePluginBulkActions } from '../usePluginBulkActions';
+
+describe('usePluginBulkActions', () => {
+  const fetchAll = vi.fn();
+  const setError = vi.fn();
+  const confirmSecurityReview = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchAll.mockResolvedValue(undefined);
+    confirmSecurityReview.mockResolvedValue(true);
+  });
+
+  afterEach(cleanup);
+
+  function renderBulk() {
+    return renderHook(() => usePluginBulkActions({ fetchAll, setError, confirmSecurityReview }));
+  }
+
+  it('toggleSelected / selectAll / clearSelection', () => {
+    const { result } = renderBulk();
+
+    act(() => result.current.toggleSelected('a@mp'));
+    act(() => result.current.selectAll(['b@mp', 'c@mp']));
+    expect([...result.current.selectedPlugins]).toEqual(['a@mp', 'b@mp', 'c@mp']);
+
+    act(() => result.current.toggleSelected('a@mp'));
+    expect(result.current.selectedPlugins.has('a@mp')).toBe(false);
+
+    act(() => result.current.clearSelection());
+    expect(result.current.selectedPlugins.size).toBe(0);
+  });
+
+  it('disable → 單一 plugin.bulk request，結果存為摘要並 refresh', async () => {
+    mockSendRequest.mockResolvedValue({
+      action: 'disable',
+      scope: 'user',
+      results: [{ pluginId: 'a@mp', ok: true }, { pluginId: 'b@mp', ok: true }],
+    });
+    const { result } = renderBulk();
+    act(() => result.current.selectAll(['a@mp', 'b@mp']));
+
+    await act(() => result.current.runBulkAction('disable', 'user'));
+
+    expect(mockSendRequest).toHaveBeenCalledTimes(1);
+    expect(mockSendRequest).toHaveBeenCalledWith(
+      { type: 'plugin.bulk', action: 'disable', plugins: ['a@mp', 'b@mp'], scope: 'user' },
+      expect.any(Number),
+    );
+    expect(confirmSecurityReview).not.toHaveBeenCalled();
+    expect(result.current.bulkResult?.results).toHaveLength(2);
+    expect(result.current.bulkRunning).toBeNull();
+    expect(fetchAll).toHaveBeenCalledWith(false);
+    expect(addToastMock).not.toHaveBeenCalled();
+  });
+
+  it('install → 未通過安全審查的 plugin 不送出，記為失敗', async () => {
+    confirmSecurityReview.mockImplementation(async (id: string) => id !== 'b@mp');
+    mockSendRequest.mockResolvedValue({ action: 'install', scope: 'project', results: [{ pluginId: 'a@mp', ok: true }] });
+    const { result } = renderBulk();
+    act(() => result.current.selectAll(['a@mp', 'b@mp']));
+
+    await act(() => result.current.runBulkAction('install', 'project'));
+
+    expect(mockSendRequest.mock.calls[0][0]).toMatchObject({ plugins: ['a@mp'] });
+    expect(result.current.bulkResult?.results).toEqual([
+      { pluginId: 'a@mp', ok: true },
+      { pluginId: 'b@mp', ok: false, error: 'Skipped: security review not confirmed' },
+    ]);
+  });
+
+  it('request 失敗 → setError，不產生摘要', async () => {
+    mockSendRequest.mockRejectedValue(new Error('No workspace folder open'));
+    const { result } = renderBulk();
+    act(() => result.current.toggleSelected('a@mp'));
+
+    await act(() => result.current.runBulkAction('enable', 'local'));
+
+    expect(setError).toHaveBeenCalledWith('No workspace folder open');
+    expect(result.current.bulkResult).toBeNull();
+  });
+});
@@ -246,6 +246,17 @@ function makeEnabledByScope(
   return { user: {}, project: {}, local: {}, ...overrides };
 }
 
+describe('mergePlugins — origin', () => {
+  it('任一 scope 的 installed 帶 origin → merged plugin 帶出來源', () => {
+    const origin = { type: 'local' as const, source: '/src/tool' };
+    const result = mergePlugins(
+      [makeInstalled('tool', 'direct', 'project'), { ...makeInstalled('tool', 'direct', 'user'), origin }],
+      [],
+    );
+    expect(result[0].origin).toEqual(origin);
+  });
+});
+
 describe('mergePlugins — enabledByScope', () => {
   it('enabledPlugins 有 plugin 但 installed 沒有 → settingsEnabledScopes 包含該 scope', () => {
     const result = mergePlugins(
@@ -125,6 +125,75 @@ describe('usePluginFilters', () => {
     });
   });
 
+  it('filterUpdates 由持久化偏好初始化 → 只保留有更新的已安裝 plugin', async () => {
+    const install = (id: string, lastUpdated: string) => ({
+      id,
+      version: '1.0.0',
+      scope: 'user' as const,
+      enabled: true,
+      installPath: '/plugins/user',
+      installedAt: '2026-01-01T00:00:00Z',
+      lastUpdated,
+    });
+    const stale: MergedPlugin = {
+      ...makePlugin('stale@mp'),
+      userInstall: install('stale@mp', '2026-01-01T00:00:00Z'),
+      availableLastUpdated: '2026-02-01T00:00:00Z',
+    };
+    const current: MergedPlugin = {
+      ...makePlugin('current@mp'),
+      userInstall: install('current@mp', '2026-02-01T00:00:00Z'),
+      availableLastUpdated: '2026-02-01T00:00:00Z',
+    };
+    mockPersistedState['plugin.filter.updates'] = true;
+
+    const { result } = renderHook(() => usePluginFilters([stale, current, makePlugin('fresh@mp')]));
+
+    await waitFor(() => {
+      expect(result.current.filterUpdates).toBe(true);
+    });
+    const ids = result.current.groupedSections.flatMap((s) => [...s.groups.values()].flat()).map((p) => p.id);
+    expect(ids).toEqual(['stale@mp']);
+  });
+
+  it('filterConflicts 只保留有名稱衝突的 plugin，並持久化', async () => {
+    const conflicting = new Set(['alpha@mp']);
+    const { result } = renderHook(() => usePluginFilters(
+      [makePlugin('alpha@mp'), makePlugin('beta@mp')],
+      conflicting,
+    ));
+
+    await waitFor(() => {
+      expect(result.current.ready).toBe(true);
+    });
+    act(() => {
+      result.current.setFilterConflicts(true);
+    });
+
+    const ids = result.current.groupedSections.flatMap((s) => [...s.groups.values()].flat()).map((p) => p.id);
+    expect(ids).toEqual(['alpha@mp']);
+    expect(mockSetGlobalState).toHaveBeenCalledWith('plugin.filter.conflicts', true);
+  });
+
+  it('filterNeverUsed 只保留從未使用的 plugin，並持久化', async () => {
+    const { result } = renderHook(() => usePluginFilters(
+      [makePlugin('alpha@mp'), makePlugin('beta@mp')],
+      undefined,
+      new Set(['beta@mp']),
+    ));
+
+    await waitFor(() => {
+      expect(result.current.ready).toBe(true);
+    });
+    act(() => {
+      result.current.setFilterNeverUsed(true);
+    });
+
+    const ids = result.current.groupedSections.flatMap((s) => [...s.groups.values()].flat()).map((p) => p.id);
+    expect(ids).toEqual(['beta@mp']);
+    expect(mockSetGlobalState).toHaveBeenCalledWith('plugin.filter.neverUsed', true);
+  });
+
   describe('filterEnabled 包含 settings-only plugin', () => {
     it('filterEnabled=true → 包含已安裝啟用 + settings-only；排除已安裝停用', async () => {
       const alpha: MergedPlugin = {
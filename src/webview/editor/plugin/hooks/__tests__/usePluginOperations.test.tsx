@@ -5,13 +5,18 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
 import type { InstalledPlugin, MergedPlugin } from '../../../../../shared/types';
 
-const { mockSendRequest, addToastMock } = vi.hoisted(() => ({
+const { mockSendRequest, addToastMock, pushHandlers } = vi.hoisted(() => ({
   mockSendRequest: vi.fn(),
   addToastMock: vi.fn(),
+  pushHandlers: new Set<(msg: { type: string; [key: string]: unknown }) => void>(),
 }));
 
 vi.mock('../../../../vscode', () => ({
   sendRequest: (...args: unknown[]) => mockSendRequest(...args),
+  onPushMessage: (handler: (msg: { type: string; [key: string]: unknown }) => void) => {
+    pushHandlers.add(handler);
+    return () => pushHandlers.delete(handler);
+  },
 }));
 
 vi.mock('../../../../components/Toast', () => ({
@@ -203,6 +208,7 @@ describe('usePluginOperations', () => {
       expect(mockSendRequest).toHaveBeenCalledWith(
         { type: 'plugin.install', plugin: 'beta@mp', scope: 'user' },
         120_000,
+        expect.any(AbortSignal),
       );
       expect(mockSendRequest).not.toHaveBeenCalledWith(
         expect.objectContaining({ type: 'plugin.enable' }),
@@ -211,117 +217,140 @@ describe('usePluginOperations', () => {
       expect(addToastMock).toHaveBeenCalledWith('Enabled beta@mp');
     });
 
-    it('handleUpdateAll — settings-only plugin 無安裝日期，hasPluginUpdate 回傳 false，不進入更新', async () => {
+    it('handleCancelInstall — abort 進行中的 install，顯示取消 toast 且不設 installError', async () => {
       const fetchAll = vi.fn().mockResolvedValue(undefined);
       const setError = vi.fn();
-      const plugins = [
-        // 已安裝且 enabled 且有可用更新的 plugin → 應被更新
-        makePlugin('alpha@mp', {
-          userInstall: { ...makeInstall('user', true, '2026-01-01T00:00:00Z'), id: 'alpha@mp' },
-          availableLastUpdated: '2026-02-01T00:00:00Z',
-        }),
-        // settings-only：無 install entry → installedDates 為空 → hasPluginUpdate 回傳 false
-        makePlugin('beta@mp', {
-          settingsEnabledScopes: ['user'],
-          availableLastUpdated: '2026-02-01T00:00:00Z',
-        }),
-      ];
-      mockSendRequest.mockResolvedValue(undefined);
+      const plugin = makePlugin('beta@mp');
+      mockSendRequest.mockImplementation((_msg: unknown, _timeout: number, signal?: AbortSignal) =>
+        new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('Request cancelled')));
+        }));
+
+      const { result } = renderHook(() => usePluginOperations([plugin], fetchAll, setError));
 
-      const { result } = renderHook(() => usePluginOperations(plugins, fetchAll, setError));
+      let togglePromise!: Promise<void>;
+      act(() => {
+        togglePromise = result.current.handleToggle('beta@mp', 'user', true);
+      });
+      await waitFor(() => expect(result.current.installingPlugins.has('beta@mp')).toBe(true));
 
       await act(async () => {
-        await result.current.handleUpdateAll();
+        result.current.handleCancelInstall('beta@mp');
+        await togglePromise;
       });
 
-      const updateCalls = mockSendRequest.mock.calls
-        .map(([req]) => req as { type: string; plugin: string })
-        .filter((req) => req.type === 'plugin.update');
-
-      // 只有 alpha 被更新；beta 因無安裝 entry 被跳過
-      expect(updateCalls).toEqual([
-        { type: 'plugin.update', plugin: 'alpha@mp', scope: 'user' },
-      ]);
+      expect(addToastMock).toHaveBeenCalledWith('Cancelled installing beta@mp', 'info');
+      expect(result.current.installError).toBeNull();
+      expect(result.current.installingPlugins.size).toBe(0);
       expect(fetchAll).toHaveBeenCalledWith(false);
-      expect(addToastMock).toHaveBeenCalledWith('All plugins updated');
     });
   });
 
-  it('Update All 跳過 settings-only enabled scope（無 install entry）', async () => {
-    const fetchAll = vi.fn().mockResolvedValue(undefined);
-    const setError = vi.fn();
-    // settingsEnabledScopes 含 local，但 localInstall 為 null → 不該嘗試 local scope update
-    const plugins = [
-      makePlugin('swift-lsp@mp', {
-        projectInstalls: [{ ...makeInstall('project', true, '2026-01-01T00:00:00Z'), id: 'swift-lsp@mp' }],
-        settingsEnabledScopes: ['project', 'local'],
-        availableLastUpdated: '2026-02-01T00:00:00Z',
-      }),
-    ];
-    mockSendRequest.mockResolvedValue(undefined);
+  describe('Update All（extension 端 plugin.updateAll）', () => {
+    const alpha = makePlugin('alpha@mp', {
+      userInstall: { ...makeInstall('user', true), id: 'alpha@mp' },
+      projectInstalls: [{ ...makeInstall('project', true), id: 'alpha@mp' }],
+      availableLastUpdated: '2026-02-01T00:00:00Z',
+    });
 
-    const { result } = renderHook(() => usePluginOperations(plugins, fetchAll, setError));
+    it('傳入可見列表 → 只送出可見 plugin id，完成後保留摘要並重新整理', async () => {
+      const fetchAll = vi.fn().mockResolvedValue(undefined);
+      const summary = { results: [{ pluginId: 'alpha@mp', scope: 'user', status: 'updated' }] };
+      mockSendRequest.mockResolvedValue(summary);
 
-    await act(async () => {
-      await result.current.handleUpdateAll();
+      const { result } = renderHook(() => usePluginOperations([alpha], fetchAll, vi.fn()));
+
+      await act(async () => {
+        await result.current.handleUpdateAll([alpha]);
+      });
+
+      // timeout 依已安裝 scope 數（user + project）放寬
+      expect(mockSendRequest).toHaveBeenCalledWith({ type: 'plugin.updateAll', plugins: ['alpha@mp'] }, 240_000);
+      expect(result.current.updateAllResult).toEqual(summary);
+      expect(result.current.updateAllProgress).toBeNull();
+      expect(fetchAll).toHaveBeenCalledWith(false);
     });
 
-    const updateCalls = mockSendRequest.mock.calls
-      .map(([req]) => req as { type: string; plugin: string; scope: string })
-      .filter((req) => req.type === 'plugin.update');
+    it('沒有待更新項目 → toast，不顯示摘要', async () => {
+      mockSendRequest.mockResolvedValue({ results: [] });
 
-    // 只更新有 install entry 的 project scope，不嘗試 local
-    expect(updateCalls).toEqual([
-      { type: 'plugin.update', plugin: 'swift-lsp@mp', scope: 'project' },
-    ]);
-  });
+      const { result } = renderHook(() => usePluginOperations([alpha], vi.fn().mockResolvedValue(undefined), vi.fn()));
 
-  it('Update All 只更新 enabled 且有更新的 scope，錯誤會累積但不中斷', async () => {
-    const fetchAll = vi.fn().mockResolvedValue(undefined);
-    const setError = vi.fn();
-    const plugins = [
-      makePlugin('alpha@mp', {
-        userInstall: { ...makeInstall('user', true, '2026-01-01T00:00:00Z'), id: 'alpha@mp' },
-        availableLastUpdated: '2026-02-01T00:00:00Z',
-      }),
-      makePlugin('beta@mp', {
-        projectInstalls: [{ ...makeInstall('project', true, '2026-01-01T00:00:00Z'), id: 'beta@mp' }],
-        availableLastUpdated: '2026-02-01T00:00:00Z',
-      }),
-      makePlugin('gamma@mp', {
-        userInstall: { ...makeInstall('user', false, '2026-01-01T00:00:00Z'), id: 'gamma@mp' },
-        availableLastUpdated: '2026-02-01T00:00:00Z',
-      }),
-      makePlugin('delta@mp', {
-        userInstall: { ...makeInstall('user', true, '2026-02-01T00:00:00Z'), id: 'delta@mp' },
-        availableLastUpdated: '2026-02-01T00:00:00Z',
-      }),
-    ];
-    mockSendRequest.mockImplementation(async (request: { type: string; plugin: string }) => {
-      if (request.type === 'plugin.update' && request.plugin === 'beta@mp') {
-        throw new Error('network down');
-      }
-      return undefined;
+      await act(async () => {
+        await result.current.handleUpdateAll();
+      });
+
+      expect(mockSendRequest).toHaveBeenCalledWith({ type: 'plugin.updateAll', plugins: undefined }, 240_000);
+      expect(addToastMock).toHaveBeenCalledWith('All plugins are up to date');
+      expect(result.current.updateAllResult).toBeNull();
     });
 
-    const { result } = renderHook(() => usePluginOperations(plugins, fetchAll, setError));
+    it('plugin.updateAllProgress push → 更新進度', async () => {
+      let resolveUpdate: (value: unknown) => void = () => {};
+      mockSendRequest.mockImplementation(() => new Promise((resolve) => { resolveUpdate = resolve; }));
 
-    await act(async () => {
-      await result.current.handleUpdateAll();
+      const { result } = renderHook(() => usePluginOperations([alpha], vi.fn().mockResolvedValue(undefined), vi.fn()));
+
+      let pending: Promise<void> = Promise.resolve();
+      act(() => {
+        pending = result.current.handleUpdateAll();
+      });
+      expect(result.current.updateAllProgress).toEqual({ current: 0, total: 0 });
+
+      act(() => {
+        pushHandlers.forEach((handler) => handler({
+          type: 'plugin.updateAllProgress',
+          progress: { pluginId: 'alpha@mp', scope: 'user', current: 1, total: 2 },
+        }));
+      });
+      expect(result.current.updateAllProgress).toEqual({ current: 1, total: 2 });
+
+      await act(async () => {
+        resolveUpdate({ results: [] });
+        await pending;
+      });
+      expect(result.current.updateAllProgress).toBeNull();
     });
 
-    const updateCalls = mockSendRequest.mock.calls.map(([request]) => request).filter(
-      (request) => (request as { type: string }).type === 'plugin.update',
-    );
-    expect(updateCalls).toEqual([
-      { type: 'plugin.update', plugin: 'alpha@mp', scope: 'user' },
-      { type: 'plugin.update', plugin: 'beta@mp', scope: 'project' },
-    ]);
-    expect(fetchAll).toHaveBeenCalledWith(false);
-    expect(addToastMock).not.toHaveBeenCalledWith('All plugins updated');
-    expect(result.current.updateAllProgress).toBeNull();
-    expect(result.current.updateAllErrors).toEqual([
-      { pluginId: 'beta@mp', scope: 'project', message: 'network down' },
-    ]);
+    it('retryFailedUpdates → 只重試失敗的 plugin + scope，結果取代摘要', async () => {
+      mockSendRequest.mockResolvedValueOnce({
+        results: [
+          { pluginId: 'alpha@mp', scope: 'user', status: 'updated' },
+          { pluginId: 'alpha@mp', scope: 'project', status: 'failed', error: 'network down' },
+          { pluginId: 'beta@mp', scope: 'user', status: 'upToDate' },
+        ],
+      });
+      const retried = { results: [{ pluginId: 'alpha@mp', scope: 'project', status: 'updated' }] };
+      mockSendRequest.mockResolvedValueOnce(retried);
+
+      const { result } = renderHook(() => usePluginOperations([alpha], vi.fn().mockResolvedValue(undefined), vi.fn()));
+
+      await act(async () => {
+        await result.current.handleUpdateAll();
+      });
+      await act(async () => {
+        await result.current.retryFailedUpdates();
+      });
+
+      expect(mockSendRequest).toHaveBeenLastCalledWith(
+        { type: 'plugin.retryUpdates', targets: [{ pluginId: 'alpha@mp', scope: 'project' }] },
+        120_000,
+      );
+      expect(result.current.updateAllResult).toEqual(retried);
+    });
+
+    it('request 失敗 → setError', async () => {
+      const setError = vi.fn();
+      mockSendRequest.mockRejectedValue(new Error('timeout'));
+
+      const { result } = renderHook(() => usePluginOperations([alpha], vi.fn().mockResolvedValue(undefined), setError));
+
+      await act(async () => {
+        await result.current.handleUpdateAll();
+      });
+
+      expect(setError).toHaveBeenCalledWith('timeout');
+      expect(result.current.updateAllProgress).toBeNull();
+    });
   });
 });
@@ -0,0 +1,105 @@
+import { useCallback, useState, type Dispatch, type SetStateAction } from 'react';
+import { sendRequest } from '../../../vscode';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type {
+  PluginBulkAction,
+  PluginBulkItemResult,
+  PluginBulkResult,
+  PluginScope,
+} from '../../../../shared/types';
+
+/** install / update 在 extension 端逐一跑 CLI，timeout 依 plugin 數量放寬 */
+const BULK_TIMEOUT_PER_PLUGIN_MS = 120_000;
+
+interface UsePluginBulkActionsOptions {
+  fetchAll: (showSpinner?: boolean) => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+  /** install / enable 前的安全審查確認，resolve false 時該 plugin 跳過 */
+  confirmSecurityReview: (pluginId: string) => Promise<boolean>;
+}
+
+/**
+ * Plugin 多選與批次操作。
+ * 選取的 plugin 對指定 scope 一次送出 plugin.bulk，結果以單一摘要呈現（每個 plugin 成功 / 失敗）。
+ */
+export function usePluginBulkActions({
+  fetchAll,
+  setError,
+  confirmSecurityReview,
+}: UsePluginBulkActionsOptions): {
+  selectedPlugins: ReadonlySet<string>;
+  toggleSelected: (pluginId: string) => void;
+  selectAll: (pluginIds: string[]) => void;
+  clearSelection: () => void;
+  bulkRunning: PluginBulkAction | null;
+  runBulkAction: (action: PluginBulkAction, scope: PluginScope) => Promise<void>;
+  bulkResult: PluginBulkResult | null;
+  closeBulkResult: () => void;
+} {
+  const runPageAction = usePageAction({ setError });
+  const [selectedPlugins, setSelectedPlugins] = useState<ReadonlySet<string>>(new Set());
+  const [bulkRunning, setBulkRunning] = useState<PluginBulkAction | null>(null);
+  const [bulkResult, setBulkResult] = useState<PluginBulkResult | null>(null);
+
+  const toggleSelected = useCallback((pluginId: string): void => {
+    setSelectedPlugins((prev) => {
+      const next = new Set(prev);
+      if (next.has(pluginId)) next.delete(pluginId);
+      else next.add(pluginId);
+      return next;
+    });
+  }, []);
+
+  const selectAll = useCallback((pluginIds: string[]): void => {
+    setSelectedPlugins((prev) => new Set([...prev, ...pluginIds]));
+  }, []);
+
+  const clearSelection = useCallback((): void => {
+    setSelectedPlugins(new Set());
+  }, []);
+
+  async function runBulkAction(action: PluginBulkAction, scope: PluginScope): Promise<void> {
+    if (bulkRunning || selectedPlugins.size === 0) return;
+    const pluginIds = [...selectedPlugins];
+    setBulkRunning(action);
+    await runPageAction({
+      action: async () => {
+        // 安全審查逐一確認；未確認的 plugin 不送出，直接記入摘要
+        const targets: string[] = [];
+        const skipped: PluginBulkItemResult[] = [];
+        if (action === 'install' || action === 'enable') {
+          for (const pluginId of pluginIds) {
+            if (await confirmSecurityReview(pluginId)) targets.push(pluginId);
+            else skipped.push({ pluginId, ok: false, error: 'Skipped: security review not confirmed' });
+          }
+        } else {
+          targets.push(...pluginIds);
+        }
+
+        const result: PluginBulkResult = targets.length > 0
+          ? await sendRequest<PluginBulkResult>(
+            { type: 'plugin.bulk', action, plugins: targets, scope },
+            BULK_TIMEOUT_PER_PLUGIN_MS * targets.length,
+          )
+          : { action, scope, results: [] };
+        return { ...result, results: [...result.results, ...skipped] };
+      },
+      onSuccess: async (result) => {
+        setBulkResult(result);
+        try { await fetchAll(false); } catch { /* refresh failure non-blocking */ }
+      },
+      onFinally: () => setBulkRunning(null),
+    });
+  }
+
+  return {
+    selectedPlugins,
+    toggleSelected,
+    selectAll,
+    clearSelection,
+    bulkRunning,
+    runBulkAction,
+    bulkResult,
+    closeBulkResult: () => setBulkResult(null),
+  };
+}
@@ -0,0 +1,39 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { sendRequest } from '../../../vscode';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type { PluginChangelog } from '../../../../shared/types';
+
+/** git log 可能較慢（大型 marketplace clone） */
+const CHANGELOG_TIMEOUT_MS = 60_000;
+
+interface UsePluginChangelogOptions {
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** plugin 卡片的 What's changed 面板：讀取已安裝版本到 marketplace 目前版本的變更 */
+export function usePluginChangelog({ setError }: UsePluginChangelogOptions): {
+  changelog: PluginChangelog | null;
+  loadingChangelogId: string | null;
+  openChangelog: (pluginId: string) => Promise<void>;
+  closeChangelog: () => void;
+} {
+  const runPageAction = usePageAction({ setError });
+  const [changelog, setChangelog] = useState<PluginChangelog | null>(null);
+  const [loadingChangelogId, setLoadingChangelogId] = useState<string | null>(null);
+
+  async function openChangelog(pluginId: string): Promise<void> {
+    setLoadingChangelogId(pluginId);
+    await runPageAction({
+      action: () => sendRequest<PluginChangelog>({ type: 'plugin.changelog', plugin: pluginId }, CHANGELOG_TIMEOUT_MS),
+      onSuccess: setChangelog,
+      onFinally: () => setLoadingChangelogId(null),
+    });
+  }
+
+  return {
+    changelog,
+    loadingChangelogId,
+    openChangelog,
+    closeChangelog: () => setChangelog(null),
+  };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from 'react';
+import { sendRequest } from '../../../vscode';
+import type { AgentSkill, McpServer, MergedPlugin } from '../../../../shared/types';
+import {
+  detectPluginConflicts,
+  getConflictingPluginIds,
+  type ExternalContents,
+  type PluginConflict,
+} from '../conflictUtils';
+
+/**
+ * 已啟用 plugin 的名稱衝突。
+ * mount 時讀取 user / project skill 與 MCP server；讀取失敗只略過外部來源，仍檢查 plugin 之間的衝突。
+ */
+export function usePluginConflicts(plugins: MergedPlugin[]): {
+  conflicts: PluginConflict[];
+  conflictingIds: ReadonlySet<string>;
+} {
+  const [external, setExternal] = useState<ExternalContents>({ skills: [], mcpServers: [] });
+
+  useEffect(() => {
+    let cancelled = false;
+    void Promise.allSettled([
+      sendRequest<AgentSkill[]>({ type: 'skill.list' }),
+      sendRequest<McpServer[]>({ type: 'mcp.list' }),
+    ]).then(([skills, mcpServers]) => {
+      if (cancelled) return;
+      if (skills.status === 'rejected') console.warn('[usePluginConflicts] skill.list failed', skills.reason);
+      if (mcpServers.status === 'rejected') console.warn('[usePluginConflicts] mcp.list failed', mcpServers.reason);
+      setExternal({
+        skills: (skills.status === 'fulfilled' && skills.value) || [],
+        mcpServers: (mcpServers.status === 'fulfilled' && mcpServers.value) || [],
+      });
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const conflicts = useMemo(() => detectPluginConflicts(plugins, external), [plugins, external]);
+  const conflictingIds = useMemo(() => getConflictingPluginIds(conflicts), [conflicts]);
+  return { conflicts, conflictingIds };
+}
@@ -68,6 +68,7 @@ export function mergePlugins(
       }
       // 已安裝的 contents 優先（從 installPath 掃描，比 marketplace 更完整）
       if (inst.contents && !existing.contents) existing.contents = inst.contents;
+      if (inst.origin && !existing.origin) existing.origin = inst.origin;
     } else {
       map.set(inst.id, {
         id: inst.id,
@@ -76,6 +77,7 @@ export function mergePlugins(
         version: inst.version,
         description: inst.description,
         contents: inst.contents,
+        ...(inst.origin ? { origin: inst.origin } : {}),
         userInstall: inst.scope === 'user' ? inst : null,
         projectInstalls: inst.scope === 'project' ? [inst] : [],
         localInstall: inst.scope === 'local' ? inst : null,
@@ -90,6 +92,7 @@ export function mergePlugins(
 
     if (existing) {
       if (avail.description) existing.description = avail.description;
+      if (avail.author) existing.author = avail.author;
       if (avail.contents && !existing.contents) existing.contents = avail.contents;
       if (avail.sourceDir) existing.sourceDir = avail.sourceDir;
       if (avail.sourceUrl) existing.sourceUrl = avail.sourceUrl;
@@ -105,6 +108,7 @@ export function mergePlugins(
         marketplaceName: avail.marketplaceName,
         description: avail.description,
         version: avail.version,
+        author: avail.author,
         contents: avail.contents,
         sourceDir: avail.sourceDir,
         sourceUrl: avail.sourceUrl,
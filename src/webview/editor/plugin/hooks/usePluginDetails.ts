@@ -0,0 +1,39 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { sendRequest } from '../../../vscode';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type { PluginDetails } from '../../../../shared/types';
+
+/** 計算多個 installPath 的磁碟用量可能較慢 */
+const DETAILS_TIMEOUT_MS = 60_000;
+
+interface UsePluginDetailsOptions {
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** plugin 詳情頁：README、plugin.json metadata、各 scope 安裝的 commit 與磁碟用量 */
+export function usePluginDetails({ setError }: UsePluginDetailsOptions): {
+  details: PluginDetails | null;
+  loadingDetailsId: string | null;
+  openDetails: (pluginId: string) => Promise<void>;
+  closeDetails: () => void;
+} {
+  const runPageAction = usePageAction({ setError });
+  const [details, setDetails] = useState<PluginDetails | null>(null);
+  const [loadingDetailsId, setLoadingDetailsId] = useState<string | null>(null);
+
+  async function openDetails(pluginId: string): Promise<void> {
+    setLoadingDetailsId(pluginId);
+    await runPageAction({
+      action: () => sendRequest<PluginDetails>({ type: 'plugin.details', plugin: pluginId }, DETAILS_TIMEOUT_MS),
+      onSuccess: setDetails,
+      onFinally: () => setLoadingDetailsId(null),
+    });
+  }
+
+  return {
+    details,
+    loadingDetailsId,
+    openDetails,
+    closeDetails: () => setDetails(null),
+  };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import { onPushMessage, sendRequest } from '../../../vscode';
+import { useI18n } from '../../../i18n/I18nContext';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type { PluginDevLink, PluginScope } from '../../../../shared/types';
+
+/** link 會開啟資料夾選擇，等使用者挑選 */
+const DEV_LINK_TIMEOUT_MS = 300_000;
+
+interface UsePluginDevLinksOptions {
+  fetchAll: (showSpinner?: boolean) => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** Plugin dev link：installPath 指向本地工作目錄，目錄變更時重新讀取驗證結果與 plugin 內容 */
+export function usePluginDevLinks({ fetchAll, setError }: UsePluginDevLinksOptions): {
+  /** pluginId → 各 scope 的 dev link */
+  devLinksByPlugin: ReadonlyMap<string, PluginDevLink[]>;
+  devLinkBusy: boolean;
+  handleDevLink: (pluginId: string, scope: PluginScope) => Promise<void>;
+  handleDevUnlink: (pluginId: string, scope: PluginScope) => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [devLinks, setDevLinks] = useState<PluginDevLink[]>([]);
+  const [devLinkBusy, setDevLinkBusy] = useState(false);
+
+  const loadDevLinks = useCallback(async (): Promise<void> => {
+    try {
+      setDevLinks((await sendRequest<PluginDevLink[]>({ type: 'plugin.devLink.list' })) ?? []);
+    } catch { /* dev link 狀態非必要，失敗時維持原狀 */ }
+  }, []);
+
+  useEffect(() => {
+    void loadDevLinks();
+  }, [loadDevLinks]);
+
+  // 工作目錄內容變更 → 重新驗證並重新掃描 plugin 內容；installed_plugins.json 變更可能使 link 失效
+  useEffect(() => {
+    return onPushMessage((msg) => {
+      if (msg.type === 'plugin.refresh') void loadDevLinks();
+      if (msg.type !== 'plugin.devLinkChanged') return;
+      void loadDevLinks();
+      fetchAll(false).catch(() => { /* refresh failure non-blocking */ });
+    });
+  }, [loadDevLinks, fetchAll]);
+
+  const devLinksByPlugin = useMemo(() => {
+    const map = new Map<string, PluginDevLink[]>();
+    for (const link of devLinks) {
+      map.set(link.pluginId, [...(map.get(link.pluginId) ?? []), link]);
+    }
+    return map;
+  }, [devLinks]);
+
+  async function runDevLinkAction<T>(
+    action: () => Promise<T>,
+    successToast: (result: T) => string | undefined,
+  ): Promise<void> {
+    setDevLinkBusy(true);
+    await runPageAction({
+      action,
+      onSuccess: async () => {
+        await loadDevLinks();
+        try { await fetchAll(false); } catch { /* refresh failure non-blocking */ }
+      },
+      onFinally: () => setDevLinkBusy(false),
+      successToast,
+    });
+  }
+
+  return {
+    devLinksByPlugin,
+    devLinkBusy,
+    handleDevLink: (pluginId, scope) => runDevLinkAction(
+      () => sendRequest<PluginDevLink | null>({ type: 'plugin.devLink.link', plugin: pluginId, scope }, DEV_LINK_TIMEOUT_MS),
+      (link) => (link ? t('plugin.devLink.linked', { path: link.path }) : undefined),
+    ),
+    handleDevUnlink: (pluginId, scope) => runDevLinkAction(
+      () => sendRequest({ type: 'plugin.devLink.unlink', plugin: pluginId, scope }),
+      () => t('plugin.devLink.unlinked'),
+    ),
+  };
+}
@@ -7,9 +7,13 @@ import {
   matchesSourceFormat,
   matchesSearch,
   isPluginEnabled,
+  hasPluginUpdate,
   getPluginComparator,
   PLUGIN_SEARCH_KEY,
   PLUGIN_FILTER_ENABLED_KEY,
+  PLUGIN_FILTER_UPDATES_KEY,
+  PLUGIN_FILTER_CONFLICTS_KEY,
+  PLUGIN_FILTER_NEVER_USED_KEY,
   CONTENT_TYPE_STORAGE_KEY,
   SOURCE_FORMAT_STORAGE_KEY,
   PLUGIN_SORT_KEY,
@@ -38,6 +42,9 @@ import {
 /** 搜尋欄位 debounce 延遲（ms） */
 const SEARCH_DEBOUNCE_MS = 300;
 
+const NO_CONFLICTS: ReadonlySet<string> = new Set();
+const NO_NEVER_USED: ReadonlySet<string> = new Set();
+
 /** usePluginFilters 回傳值 */
 export interface UsePluginFiltersReturn {
   /** 搜尋框即時值 */
@@ -52,6 +59,18 @@ export interface UsePluginFiltersReturn {
   filterEnabled: boolean;
   /** 切換 filterEnabled */
   setFilterEnabled: React.Dispatch<React.SetStateAction<boolean>>;
+  /** 是否只顯示有更新的 plugin */
+  filterUpdates: boolean;
+  /** 切換 filterUpdates */
+  setFilterUpdates: React.Dispatch<React.SetStateAction<boolean>>;
+  /** 是否只顯示有名稱衝突的 plugin */
+  filterConflicts: boolean;
+  /** 切換 filterConflicts */
+  setFilterConflicts: React.Dispatch<React.SetStateAction<boolean>>;
+  /** 是否只顯示已安裝但從未使用的 plugin */
+  filterNeverUsed: boolean;
+  /** 切換 filterNeverUsed */
+  setFilterNeverUsed: React.Dispatch<React.SetStateAction<boolean>>;
   /** 選取中的 content type 過濾條件 */
   contentTypeFilters: Set<ContentTypeFilter>;
   /** 設定 content type 過濾條件 */
@@ -97,13 +116,28 @@ export interface UsePluginFiltersReturn {
  * 管理搜尋、篩選、展開狀態，並產生動態 N-section 分組列表。
  *
  * @param plugins - 完整 plugin 列表
+ * @param conflictingIds - 有名稱衝突的 plugin id（conflicts filter 使用）
+ * @param neverUsedIds - 已安裝但 transcripts 中從未使用的 plugin id（never used filter 使用）
  */
-export function usePluginFilters(plugins: MergedPlugin[]): UsePluginFiltersReturn {
+export function usePluginFilters(
+  plugins: MergedPlugin[],
+  conflictingIds: ReadonlySet<string> = NO_CONFLICTS,
+  neverUsedIds: ReadonlySet<string> = NO_NEVER_USED,
+): UsePluginFiltersReturn {
   const [search, setSearch] = useState(() => getViewState(PLUGIN_SEARCH_KEY, ''));
   const [debouncedSearch, flushSearch] = useDebouncedValue(search, SEARCH_DEBOUNCE_MS);
   const [filterEnabled, setFilterEnabled] = useState(
     () => getViewState(PLUGIN_FILTER_ENABLED_KEY, false),
   );
+  const [filterUpdates, setFilterUpdates] = useState(
+    () => getViewState(PLUGIN_FILTER_UPDATES_KEY, false),
+  );
+  const [filterConflicts, setFilterConflicts] = useState(
+    () => getViewState(PLUGIN_FILTER_CONFLICTS_KEY, false),
+  );
+  const [filterNeverUsed, setFilterNeverUsed] = useState(
+    () => getViewState(PLUGIN_FILTER_NEVER_USED_KEY, false),
+  );
   const [contentTypeFilters, setContentTypeFilters] = useState<Set<ContentTypeFilter>>(readContentTypeFilters);
   const [sourceFormatFilters, setSourceFormatFilters] = useState<Set<SourceFormatFilter>>(readSourceFormatFilters);
   const [sortBy, setSortBy] = useState<PluginSortBy>(readPluginSort);
@@ -119,6 +153,9 @@ export function usePluginFilters(plugins: MergedPlugin[]): UsePluginFiltersRetur
   useEffect(() => {
     void initGlobalState([
       { key: PLUGIN_FILTER_ENABLED_KEY, fallback: false },
+      { key: PLUGIN_FILTER_UPDATES_KEY, fallback: false },
+      { key: PLUGIN_FILTER_CONFLICTS_KEY, fallback: false },
+      { key: PLUGIN_FILTER_NEVER_USED_KEY, fallback: false },
       { key: CONTENT_TYPE_STORAGE_KEY, fallback: [] },
       { key: SOURCE_FORMAT_STORAGE_KEY, fallback: [] },
       { key: PLUGIN_SORT_KEY, fallback: 'name' },
@@ -131,6 +168,9 @@ export function usePluginFilters(plugins: MergedPlugin[]): UsePluginFiltersRetur
       setSearch(persistedSearch);
       flushSearch(persistedSearch);
       setFilterEnabled(getViewState(PLUGIN_FILTER_ENABLED_KEY, false));
+      setFilterUpdates(getViewState(PLUGIN_FILTER_UPDATES_KEY, false));
+      setFilterConflicts(getViewState(PLUGIN_FILTER_CONFLICTS_KEY, false));
+      setFilterNeverUsed(getViewState(PLUGIN_FILTER_NEVER_USED_KEY, false));
       setContentTypeFilters(readContentTypeFilters());
       setSourceFormatFilters(readSourceFormatFilters());
       setSortBy(readPluginSort());
@@ -150,6 +190,9 @@ export function usePluginFilters(plugins: MergedPlugin[]): UsePluginFiltersRetur
   // ready guard：避免 mount 時用初始值覆蓋尚未讀回的持久化資料
   useEffect(() => { if (!ready) return; setViewState(PLUGIN_SEARCH_KEY, debouncedSearch); }, [debouncedSearch, ready]);
   useEffect(() => { if (!ready) return; setViewState(PLUGIN_FILTER_ENABLED_KEY, filterEnabled); void setGlobalState(PLUGIN_FILTER_ENABLED_KEY, filterEnabled); }, [filterEnabled, ready]);
+  useEffect(() => { if (!ready) return; setViewState(PLUGIN_FILTER_UPDATES_KEY, filterUpdates); void setGlobalState(PLUGIN_FILTER_UPDATES_KEY, filterUpdates); }, [filterUpdates, ready]);
+  useEffect(() => { if (!ready) return; setViewState(PLUGIN_FILTER_CONFLICTS_KEY, filterConflicts); void setGlobalState(PLUGIN_FILTER_CONFLICTS_KEY, filterConflicts); }, [filterConflicts, ready]);
+  useEffect(() => { if (!ready) return; setViewState(PLUGIN_FILTER_NEVER_USED_KEY, filterNeverUsed); void setGlobalState(PLUGIN_FILTER_NEVER_USED_KEY, filterNeverUsed); }, [filterNeverUsed, ready]);
   useEffect(() => { if (!ready) return; writeContentTypeFilters(contentTypeFilters); }, [contentTypeFilters, ready]);
   useEffect(() => { if (!ready) return; writeSourceFormatFilters(sourceFormatFilters); }, [sourceFormatFilters, ready]);
   useEffect(() => { if (!ready) return; writePluginSort(sortBy); }, [sortBy, ready]);
@@ -168,6 +211,18 @@ export function usePluginFilters(plugins: MergedPlugin[]): UsePluginFiltersRetur
       filtered = filtered.filter(isPluginEnabled);
     }
 
+    if (filterUpdates) {
+      filtered = filtered.filter(hasPluginUpdate);
+    }
+
+    if (filterConflicts) {
+      filtered = filtered.filter((p) => conflictingIds.has(p.id));
+    }
+
+    if (filterNeverUsed) {
+      filtered = filtered.filter((p) => neverUsedIds.has(p.id));
+    }
+
     if (contentTypeFilters.size > 0) {
       filtered = filtered.filter((p) => matchesContentType(p, contentTypeFilters));
     }
@@ -261,7 +316,7 @@ export function usePluginFilters(plugins: MergedPlugin[]): UsePluginFiltersRetur
         groups: orderedGroups,
       };
     });
-  }, [plugins, debouncedSearch, filterEnabled, contentTypeFilters, sourceFormatFilters, sortBy, sectionAssignments]);
+  }, [plugins, debouncedSearch, filterEnabled, filterUpdates, filterConflicts, conflictingIds, filterNeverUsed, neverUsedIds, contentTypeFilters, sourceFormatFilters, sortBy, sectionAssignments]);
 
   const moveToSection = (marketplace: string, sectionId: number) => {
     setSectionAssignments((prev) => {
@@ -349,6 +404,12 @@ export function usePluginFilters(plugins: MergedPlugin[]): UsePluginFiltersRetur
     flushSearch,
     filterEnabled,
     setFilterEnabled,
+    filterUpdates,
+    setFilterUpdates,
+    filterConflicts,
+    setFilterConflicts,
+    filterNeverUsed,
+    setFilterNeverUsed,
     contentTypeFilters,
     setContentTypeFilters,
     sourceFormatFilters,
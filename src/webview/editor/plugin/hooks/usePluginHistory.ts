@@ -0,0 +1,65 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { sendRequest } from '../../../vscode';
+import { useI18n } from '../../../i18n/I18nContext';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type { PluginScope, PluginVersionSnapshot } from '../../../../shared/types';
+
+interface UsePluginHistoryOptions {
+  fetchAll: (showSpinner?: boolean) => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/** 開啟中的版本歷史 */
+export interface PluginHistoryTarget {
+  pluginId: string;
+  snapshots: PluginVersionSnapshot[];
+}
+
+/** plugin 版本歷史（讀取 → 選擇版本 → rollback 指定 scope → 重新整理） */
+export function usePluginHistory({ fetchAll, setError }: UsePluginHistoryOptions): {
+  historyTarget: PluginHistoryTarget | null;
+  openHistory: (pluginId: string) => Promise<void>;
+  closeHistory: () => void;
+  rollingBack: boolean;
+  handleRollback: (scope: PluginScope, snapshot: PluginVersionSnapshot) => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [historyTarget, setHistoryTarget] = useState<PluginHistoryTarget | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  async function openHistory(pluginId: string): Promise<void> {
+    await runPageAction({
+      action: () => sendRequest<PluginVersionSnapshot[]>({ type: 'plugin.history', plugin: pluginId }),
+      onSuccess: (snapshots) => setHistoryTarget({ pluginId, snapshots }),
+    });
+  }
+
+  async function handleRollback(scope: PluginScope, snapshot: PluginVersionSnapshot): Promise<void> {
+    if (!historyTarget) return;
+    const { pluginId } = historyTarget;
+    setRollingBack(true);
+    await runPageAction({
+      action: () => sendRequest({
+        type: 'plugin.rollback',
+        plugin: pluginId,
+        scope,
+        installPath: snapshot.installPath,
+      }),
+      onSuccess: async () => {
+        setHistoryTarget(null);
+        await fetchAll(false);
+      },
+      onFinally: () => setRollingBack(false),
+      successToast: t('plugin.history.rolledBack', { name: pluginId, version: snapshot.version }),
+    });
+  }
+
+  return {
+    historyTarget,
+    openHistory,
+    closeHistory: () => setHistoryTarget(null),
+    rollingBack,
+    handleRollback,
+  };
+}
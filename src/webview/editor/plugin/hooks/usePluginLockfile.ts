@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+import { onPushMessage, sendRequest } from '../../../vscode';
+import { usePageAction } from '../../../hooks/usePageAction';
+import { useI18n } from '../../../i18n/I18nContext';
+import type { PluginLockfile, PluginLockStatus, PluginLockSyncResult } from '../../../../shared/types';
+
+/** Sync 可能逐一 CLI install / update 多個 plugin */
+const LOCK_SYNC_TIMEOUT_MS = 600_000;
+
+interface UsePluginLockfileOptions {
+  fetchAll: (showSpinner?: boolean) => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/**
+ * 專案 plugin lockfile（`.claude/plugins.lock.json`）：讀取與 workspace 的差異、寫入 lockfile、Sync from lockfile。
+ * plugin 檔案或 lockfile 變更（plugin.refresh）時重新比對。
+ */
+export function usePluginLockfile({ fetchAll, setError }: UsePluginLockfileOptions): {
+  lockStatus: PluginLockStatus | null;
+  lockBusy: boolean;
+  syncLockfile: () => Promise<void>;
+  writeLockfile: () => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [lockStatus, setLockStatus] = useState<PluginLockStatus | null>(null);
+  const [lockBusy, setLockBusy] = useState(false);
+
+  const loadStatus = useCallback(async (): Promise<void> => {
+    try {
+      setLockStatus((await sendRequest<PluginLockStatus>({ type: 'plugin.lock.status' })) ?? null);
+    } catch { /* lockfile 狀態載入失敗不影響 plugin 頁 */ }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  useEffect(() => {
+    return onPushMessage((msg) => {
+      if (msg.type === 'plugin.refresh') void loadStatus();
+    });
+  }, [loadStatus]);
+
+  async function syncLockfile(): Promise<void> {
+    setLockBusy(true);
+    await runPageAction({
+      action: () => sendRequest<PluginLockSyncResult>({ type: 'plugin.lock.sync' }, LOCK_SYNC_TIMEOUT_MS),
+      onSuccess: async ({ results }) => {
+        const failed = results.filter((r) => r.status === 'failed');
+        if (failed.length > 0) {
+          setError(t('plugin.lock.syncFailed', {
+            count: failed.length,
+            details: failed.map((r) => `${r.pluginId}: ${r.error ?? ''}`).join('; '),
+          }));
+        }
+        await loadStatus();
+        try { await fetchAll(false); } catch { /* refresh failure non-blocking */ }
+      },
+      successToast: ({ results }) => (results.some((r) => r.status === 'synced')
+        ? t('plugin.lock.synced', { count: results.filter((r) => r.status === 'synced').length })
+        : null),
+      onFinally: () => setLockBusy(false),
+    });
+  }
+
+  async function writeLockfile(): Promise<void> {
+    setLockBusy(true);
+    await runPageAction({
+      action: () => sendRequest<PluginLockfile>({ type: 'plugin.lock.write' }),
+      onSuccess: loadStatus,
+      successToast: (lockfile) => t('plugin.lock.written', { count: Object.keys(lockfile.plugins).length }),
+      onFinally: () => setLockBusy(false),
+    });
+  }
+
+  return { lockStatus, lockBusy, syncLockfile, writeLockfile };
+}
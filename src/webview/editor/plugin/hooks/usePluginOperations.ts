@@ -1,13 +1,17 @@
-import { type Dispatch, type SetStateAction, useCallback, useRef, useState } from 'react';
-import { sendRequest } from '../../../vscode';
-import type { MergedPlugin, PluginScope } from '../../../../shared/types';
+import { type Dispatch, type SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { onPushMessage, sendRequest } from '../../../vscode';
+import type {
+  MergedPlugin,
+  PluginScope,
+  PluginUpdateAllProgress,
+  PluginUpdateAllResult,
+  PluginUpdateTarget,
+} from '../../../../shared/types';
 import { toErrorMessage } from '../../../../shared/errorUtils';
 import {
   isPluginInstalled,
-  isPluginEnabled,
   isInstalledInScope,
   getInstalledScopes,
-  hasPluginUpdate,
 } from '../filterUtils';
 import { useToast } from '../../../components/Toast';
 
@@ -19,12 +23,8 @@ interface InstallError {
   enable: boolean;
 }
 
-/** Update All 單一失敗項目 */
-interface UpdateAllError {
-  pluginId: string;
-  scope: PluginScope;
-  message: string;
-}
+/** Update All 在 extension 端逐一跑 CLI update，timeout 依可能的目標數放寬 */
+const UPDATE_TIMEOUT_PER_TARGET_MS = 120_000;
 
 /** usePluginOperations 回傳值 */
 export interface UsePluginOperationsReturn {
@@ -34,14 +34,20 @@ export interface UsePluginOperationsReturn {
   installError: InstallError | null;
   /** 清除 installError */
   setInstallError: Dispatch<SetStateAction<InstallError | null>>;
-  /** Update All 進度（null = 未執行） */
+  /** Update All 進度（null = 未執行；total 為 0 表示仍在計算待更新項目） */
   updateAllProgress: { current: number; total: number } | null;
-  /** Update All 完成後的失敗摘要 */
-  updateAllErrors: UpdateAllError[];
-  /** 清除 updateAllErrors */
-  setUpdateAllErrors: Dispatch<SetStateAction<UpdateAllError[]>>;
+  /** Update All 完成後的摘要（每個 plugin + scope 的結果） */
+  updateAllResult: PluginUpdateAllResult | null;
+  /** 關閉 Update All 摘要 */
+  closeUpdateAllResult: () => void;
+  /** 重試摘要中失敗的 plugin + scope */
+  retryFailedUpdates: () => Promise<void>;
   /** Toggle = 勾 → install + enable，取消勾 → disable */
   handleToggle: (pluginId: string, scope: PluginScope, enable: boolean) => Promise<void>;
+  /** 正在執行（可取消的）CLI install 的 plugin id */
+  installingPlugins: ReadonlySet<string>;
+  /** 取消指定 plugin 進行中的 install */
+  handleCancelInstall: (pluginId: string) => void;
   /** 更新指定 plugin 的指定 scopes */
   handleUpdate: (pluginId: string, scopes: PluginScope[]) => Promise<void>;
   /** 批次更新所有已安裝 plugin（傳入可見列表則只更新可見的） */
@@ -59,17 +65,21 @@ export interface UsePluginOperationsReturn {
  * @param plugins - 完整 plugin 列表
  * @param fetchAll - 重新拉取列表的函數
  * @param setError - 全域錯誤 setter（handleUpdate 使用）
+ * @param confirmSecurityReview - install / enable 前的安全審查確認，resolve false 時中止
  */
 export function usePluginOperations(
   plugins: MergedPlugin[],
   fetchAll: (showSpinner?: boolean) => Promise<void>,
   setError: Dispatch<SetStateAction<string | null>>,
+  confirmSecurityReview?: (pluginId: string) => Promise<boolean>,
 ): UsePluginOperationsReturn {
   const { addToast } = useToast();
   const [loadingPlugins, setLoadingPlugins] = useState<Map<string, Set<PluginScope>>>(new Map());
   const [installError, setInstallError] = useState<InstallError | null>(null);
   const [updateAllProgress, setUpdateAllProgress] = useState<{ current: number; total: number } | null>(null);
-  const [updateAllErrors, setUpdateAllErrors] = useState<UpdateAllError[]>([]);
+  const [updateAllResult, setUpdateAllResult] = useState<PluginUpdateAllResult | null>(null);
+  const [installingPlugins, setInstallingPlugins] = useState<ReadonlySet<string>>(new Set());
+  const installControllersRef = useRef(new Map<string, AbortController>());
   // Refs — 讓 useCallback 內部讀取最新值，避免 stale closure
   const pluginsRef = useRef(plugins);
   pluginsRef.current = plugins;
@@ -102,17 +112,36 @@ export function usePluginOperations(
     setInstallError(null);
     setPluginLoading(pluginId, scope, true);
     try {
+      if (enable && confirmSecurityReview && !(await confirmSecurityReview(pluginId))) return;
       if (enable) {
         const pluginData = pluginsRef.current.find((p) => p.id === pluginId);
         if (pluginData && isInstalledInScope(pluginData, scope)) {
           // 已安裝但停用 → 只需 enable
           await sendRequest({ type: 'plugin.enable', plugin: pluginId, scope });
         } else {
-          // 未安裝 → install（已含 enable）
-          await sendRequest(
-            { type: 'plugin.install', plugin: pluginId, scope },
-            120_000,
-          );
+          // 未安裝 → install（已含 enable），可由卡片上的 Cancel 取消
+          const controller = new AbortController();
+          installControllersRef.current.set(pluginId, controller);
+          setInstallingPlugins((prev) => new Set(prev).add(pluginId));
+          try {
+            await sendRequest(
+              { type: 'plugin.install', plugin: pluginId, scope },
+              120_000,
+              controller.signal,
+            );
+          } catch (e) {
+            if (!controller.signal.aborted) throw e;
+            addToast(`Cancelled installing ${pluginId}`, 'info');
+            await fetchAll(false);
+            return;
+          } finally {
+            installControllersRef.current.delete(pluginId);
+            setInstallingPlugins((prev) => {
+              const next = new Set(prev);
+              next.delete(pluginId);
+              return next;
+            });
+          }
         }
       } else {
         await sendRequest({ type: 'plugin.disable', plugin: pluginId, scope });
@@ -129,7 +158,11 @@ export function usePluginOperations(
     } finally {
       setPluginLoading(pluginId, scope, false);
     }
-  }, [fetchAll, addToast, setPluginLoading]);
+  }, [fetchAll, addToast, setPluginLoading, confirmSecurityReview]);
+
+  const handleCancelInstall = useCallback((pluginId: string): void => {
+    installControllersRef.current.get(pluginId)?.abort();
+  }, []);
 
   /** 更新指定 plugin 的指定 scopes */
   const handleUpdate = useCallback(async (pluginId: string, scopes: PluginScope[]): Promise<void> => {
@@ -145,41 +178,61 @@ export function usePluginOperations(
     }
   }, [setError, fetchAll, addToast]);
 
-  /** 批次更新有可用更新的 plugin（傳入可見列表則只更新可見的） */
-  const handleUpdateAll = async (visiblePlugins?: MergedPlugin[]): Promise<void> => {
-    if (updateAllProgress) return; // guard concurrent invocation
-    const source = visiblePlugins ?? pluginsRef.current;
-    const updatable = source.filter((p) => isPluginEnabled(p) && hasPluginUpdate(p));
-    if (updatable.length === 0) {
-      addToast('All plugins are up to date');
-      return;
-    }
-
-    setUpdateAllErrors([]);
-    setUpdateAllProgress({ current: 0, total: updatable.length });
-    const errors: UpdateAllError[] = [];
-
-    for (let i = 0; i < updatable.length; i++) {
-      setUpdateAllProgress({ current: i + 1, total: updatable.length });
-      const p = updatable[i];
-      for (const scope of getInstalledScopes(p)) {
-        try {
-          await sendRequest({ type: 'plugin.update', plugin: p.id, scope });
-        } catch (e) {
-          errors.push({ pluginId: p.id, scope, message: toErrorMessage(e) });
-        }
+  // extension 端 PluginService.updateAll 逐一更新時推送的進度
+  useEffect(() => {
+    return onPushMessage((msg) => {
+      if (msg.type === 'plugin.updateAllProgress' && msg.progress) {
+        const { current, total } = msg.progress as PluginUpdateAllProgress;
+        setUpdateAllProgress((prev) => (prev ? { current, total } : prev));
       }
-    }
+    });
+  }, []);
 
-    setUpdateAllProgress(null);
-    if (errors.length > 0) {
-      setUpdateAllErrors(errors);
-    } else {
-      addToast('All plugins updated');
+  /** 送出 plugin.updateAll / plugin.retryUpdates，完成後以新結果取代摘要（重試期間摘要保持開啟） */
+  const runUpdates = async (
+    request: Record<string, unknown>,
+    maxTargets: number,
+  ): Promise<void> => {
+    if (updateAllProgress) return; // guard concurrent invocation
+    setUpdateAllProgress({ current: 0, total: 0 });
+    try {
+      const result = await sendRequest<PluginUpdateAllResult>(
+        request,
+        UPDATE_TIMEOUT_PER_TARGET_MS * Math.max(1, maxTargets),
+      );
+      if (result.results.length === 0) {
+        addToast('All plugins are up to date');
+      } else {
+        setUpdateAllResult(result);
+      }
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setUpdateAllProgress(null);
     }
     try { await fetchAll(false); } catch { /* refresh failure non-blocking */ }
   };
 
+  /** 更新所有有可用更新的已啟用 plugin（傳入可見列表則只更新可見的）；判斷與更新都在 extension 端 */
+  const handleUpdateAll = async (visiblePlugins?: MergedPlugin[]): Promise<void> => {
+    if (updateAllProgress) return;
+    setUpdateAllResult(null);
+    const source = visiblePlugins ?? pluginsRef.current;
+    const maxTargets = source.reduce((sum, p) => sum + getInstalledScopes(p).length, 0);
+    await runUpdates(
+      { type: 'plugin.updateAll', plugins: visiblePlugins?.map((p) => p.id) },
+      maxTargets,
+    );
+  };
+
+  const retryFailedUpdates = async (): Promise<void> => {
+    const targets: PluginUpdateTarget[] = (updateAllResult?.results ?? [])
+      .filter((r) => r.status === 'failed')
+      .map(({ pluginId, scope }) => ({ pluginId, scope }));
+    if (targets.length === 0) return;
+    await runUpdates({ type: 'plugin.retryUpdates', targets }, targets.length);
+  };
+
   const isUpdatingAll = updateAllProgress !== null;
   const hasInstalledPlugins = plugins.some(isPluginInstalled);
 
@@ -188,9 +241,12 @@ export function usePluginOperations(
     installError,
     setInstallError,
     updateAllProgress,
-    updateAllErrors,
-    setUpdateAllErrors,
+    updateAllResult,
+    closeUpdateAllResult: () => setUpdateAllResult(null),
+    retryFailedUpdates,
     handleToggle,
+    installingPlugins,
+    handleCancelInstall,
     handleUpdate,
     handleUpdateAll,
     isUpdatingAll,
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+import { onPushMessage, sendRequest } from '../../../vscode';
+import { usePageAction } from '../../../hooks/usePageAction';
+import { useI18n } from '../../../i18n/I18nContext';
+import type { PluginProfile, PluginProfileDiff, PluginProfileList } from '../../../../shared/types';
+
+interface UsePluginProfilesOptions {
+  fetchAll: (showSpinner?: boolean) => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+}
+
+/**
+ * 具名 plugin profile：儲存目前 enabledPlugins、預覽 diff 後套用、刪除。
+ * 套用前一律先 plugin.profile.preview，由 diff dialog 確認後才寫入。
+ */
+export function usePluginProfiles({ fetchAll, setError }: UsePluginProfilesOptions): {
+  profiles: PluginProfile[];
+  activeProfile: string | undefined;
+  profileDiff: PluginProfileDiff | null;
+  profileBusy: boolean;
+  previewProfile: (name: string) => Promise<void>;
+  applyProfile: () => Promise<void>;
+  closeProfileDiff: () => void;
+  saveProfile: (name: string) => Promise<boolean>;
+  deleteProfile: (name: string) => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [list, setList] = useState<PluginProfileList>({ profiles: [] });
+  const [profileDiff, setProfileDiff] = useState<PluginProfileDiff | null>(null);
+  const [profileBusy, setProfileBusy] = useState(false);
+
+  const loadProfiles = useCallback(async (): Promise<void> => {
+    try {
+      const result = await sendRequest<PluginProfileList>({ type: 'plugin.profile.list' });
+      setList({ profiles: result?.profiles ?? [], activeProfile: result?.activeProfile });
+    } catch { /* profile 清單載入失敗不影響 plugin 頁 */ }
+  }, []);
+
+  useEffect(() => {
+    void loadProfiles();
+  }, [loadProfiles]);
+
+  // command palette / sidebar 套用後 settings 變更 → 重新讀取 active profile
+  useEffect(() => {
+    return onPushMessage((msg) => {
+      if (msg.type === 'plugin.refresh') void loadProfiles();
+    });
+  }, [loadProfiles]);
+
+  async function previewProfile(name: string): Promise<void> {
+    setProfileBusy(true);
+    await runPageAction({
+      action: () => sendRequest<PluginProfileDiff>({ type: 'plugin.profile.preview', name }),
+      onSuccess: setProfileDiff,
+      onFinally: () => setProfileBusy(false),
+    });
+  }
+
+  async function applyProfile(): Promise<void> {
+    if (!profileDiff) return;
+    const { name } = profileDiff;
+    setProfileBusy(true);
+    await runPageAction({
+      action: () => sendRequest<PluginProfileDiff>({ type: 'plugin.profile.apply', name }),
+      onSuccess: async () => {
+        setProfileDiff(null);
+        await loadProfiles();
+        try { await fetchAll(false); } catch { /* refresh failure non-blocking */ }
+      },
+      successToast: t('plugin.profile.applied', { name }),
+      onFinally: () => setProfileBusy(false),
+    });
+  }
+
+  async function saveProfile(name: string): Promise<boolean> {
+    setProfileBusy(true);
+    const saved = await runPageAction({
+      action: () => sendRequest<PluginProfile>({ type: 'plugin.profile.save', name }),
+      onSuccess: loadProfiles,
+      successToast: (profile) => t('plugin.profile.saved', { name: profile.name }),
+      onFinally: () => setProfileBusy(false),
+    });
+    return saved !== undefined;
+  }
+
+  async function deleteProfile(name: string): Promise<void> {
+    setProfileBusy(true);
+    await runPageAction({
+      action: () => sendRequest<void>({ type: 'plugin.profile.delete', name }),
+      onSuccess: loadProfiles,
+      onFinally: () => setProfileBusy(false),
+    });
+  }
+
+  return {
+    profiles: list.profiles,
+    activeProfile: list.activeProfile,
+    profileDiff,
+    profileBusy,
+    previewProfile,
+    applyProfile,
+    closeProfileDiff: () => setProfileDiff(null),
+    saveProfile,
+    deleteProfile,
+  };
+}
@@ -0,0 +1,88 @@
+import { useCallback, useRef, useState } from 'react';
+import { sendRequest } from '../../../vscode';
+import type { PluginSecurityReport } from '../../../../shared/types';
+import { needsSecurityAcknowledgement } from '../../../../shared/pluginSecurityReview';
+
+/** 審查可能讀取大量 script，給較長的 timeout */
+const SECURITY_REVIEW_TIMEOUT_MS = 60_000;
+/** 審查 source 需先 git clone，與 source install 相同的 timeout */
+const SOURCE_SECURITY_REVIEW_TIMEOUT_MS = 120_000;
+
+/**
+ * install / 首次 enable 前的安全審查。
+ * confirmSecurityReview（marketplace plugin）/ confirmSourceSecurityReview（install from source）
+ * 在需要確認時開啟 dialog，resolve 為使用者是否同意繼續；讀取或記錄審查失敗時 reject（由呼叫端的錯誤處理顯示）。
+ */
+export function usePluginSecurityReview(): {
+  securityReview: PluginSecurityReport | null;
+  acknowledging: boolean;
+  confirmSecurityReview: (pluginId: string) => Promise<boolean>;
+  confirmSourceSecurityReview: (source: string, subdir?: string) => Promise<boolean>;
+  acknowledgeReview: () => Promise<void>;
+  cancelReview: () => void;
+} {
+  const [securityReview, setSecurityReview] = useState<PluginSecurityReport | null>(null);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const pendingRef = useRef<{ resolve: (ok: boolean) => void; reject: (err: unknown) => void } | null>(null);
+
+  const confirmReport = useCallback((report: PluginSecurityReport): Promise<boolean> => {
+    if (!needsSecurityAcknowledgement(report)) return Promise.resolve(true);
+    // 同時只開一個審查；前一個視為取消
+    pendingRef.current?.resolve(false);
+    return new Promise<boolean>((resolve, reject) => {
+      pendingRef.current = { resolve, reject };
+      setSecurityReview(report);
+    });
+  }, []);
+
+  const confirmSecurityReview = useCallback(async (pluginId: string): Promise<boolean> => {
+    const report = await sendRequest<PluginSecurityReport>(
+      { type: 'plugin.securityReview', plugin: pluginId },
+      SECURITY_REVIEW_TIMEOUT_MS,
+    );
+    return confirmReport(report);
+  }, [confirmReport]);
+
+  const confirmSourceSecurityReview = useCallback(async (source: string, subdir?: string): Promise<boolean> => {
+    const report = await sendRequest<PluginSecurityReport>(
+      { type: 'plugin.sourceSecurityReview', source, subdir },
+      SOURCE_SECURITY_REVIEW_TIMEOUT_MS,
+    );
+    return confirmReport(report);
+  }, [confirmReport]);
+
+  const settle = (fn: (pending: NonNullable<typeof pendingRef.current>) => void): void => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    setSecurityReview(null);
+    if (pending) fn(pending);
+  };
+
+  const acknowledgeReview = async (): Promise<void> => {
+    if (!securityReview) return;
+    const { pluginId, reviewKey } = securityReview;
+    setAcknowledging(true);
+    try {
+      // 來源無法審查時沒有 reviewKey，extension 端的確認只對下一次操作有效
+      await sendRequest({ type: 'plugin.acknowledgeSecurityReview', plugin: pluginId, ...(reviewKey ? { reviewKey } : {}) });
+      settle(({ resolve }) => resolve(true));
+    } catch (err) {
+      settle(({ reject }) => reject(err));
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  const cancelReview = (): void => {
+    settle(({ resolve }) => resolve(false));
+  };
+
+  return {
+    securityReview,
+    acknowledging,
+    confirmSecurityReview,
+    confirmSourceSecurityReview,
+    acknowledgeReview,
+    cancelReview,
+  };
+}
@@ -0,0 +1,68 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { sendRequest } from '../../../vscode';
+import { useI18n } from '../../../i18n/I18nContext';
+import { usePageAction } from '../../../hooks/usePageAction';
+import type { PluginScope } from '../../../../shared/types';
+
+/** git clone + 複製到 cache，給足時間 */
+const SOURCE_INSTALL_TIMEOUT_MS = 120_000;
+
+/** Install from source dialog 送出的內容 */
+export interface PluginSourceInstallRequest {
+  source: string;
+  subdir?: string;
+  scope: PluginScope;
+}
+
+interface UsePluginSourceInstallOptions {
+  fetchAll: (showSpinner?: boolean) => Promise<void>;
+  setError: Dispatch<SetStateAction<string | null>>;
+  /** 安裝前審查 source 的可執行內容，resolve 為使用者是否同意繼續 */
+  confirmSourceSecurityReview: (source: string, subdir?: string) => Promise<boolean>;
+}
+
+/** 不經 marketplace，從 owner/repo、git URL 或本地目錄安裝 plugin（dialog 開關 → 安全審查 → 安裝 → 重新整理） */
+export function usePluginSourceInstall({
+  fetchAll,
+  setError,
+  confirmSourceSecurityReview,
+}: UsePluginSourceInstallOptions): {
+  showSourceInstall: boolean;
+  openSourceInstall: () => void;
+  closeSourceInstall: () => void;
+  installingSource: boolean;
+  handleInstallFromSource: (request: PluginSourceInstallRequest) => Promise<void>;
+} {
+  const { t } = useI18n();
+  const runPageAction = usePageAction({ setError });
+  const [showSourceInstall, setShowSourceInstall] = useState(false);
+  const [installingSource, setInstallingSource] = useState(false);
+
+  async function handleInstallFromSource({ source, subdir, scope }: PluginSourceInstallRequest): Promise<void> {
+    setInstallingSource(true);
+    await runPageAction({
+      action: async () => {
+        if (!(await confirmSourceSecurityReview(source, subdir))) return null;
+        return sendRequest<string>(
+          { type: 'plugin.installFromSource', source, subdir, scope },
+          SOURCE_INSTALL_TIMEOUT_MS,
+        );
+      },
+      onSuccess: async (pluginId) => {
+        if (!pluginId) return;
+        setShowSourceInstall(false);
+        try { await fetchAll(false); } catch { /* refresh failure non-blocking */ }
+      },
+      onFinally: () => setInstallingSource(false),
+      successToast: (pluginId) => (pluginId ? t('plugin.source.success', { pluginId }) : null),
+    });
+  }
+
+  return {
+    showSourceInstall,
+    openSourceInstall: () => setShowSourceInstall(true),
+    closeSourceInstall: () => setShowSourceInstall(false),
+    installingSource,
+    handleInstallFromSource,
+  };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { onPushMessage, sendRequest } from '../../../vscode';
+import type { MergedPlugin, PluginUsageStats } from '../../../../shared/types';
+import { getInstalledScopes } from '../filterUtils';
+
+/** 首次掃描大量 transcript 可能較久 */
+const USAGE_TIMEOUT_MS = 120_000;
+
+const NO_PLUGIN_IDS: ReadonlySet<string> = new Set();
+
+/**
+ * 從 Claude Code transcripts 統計的 plugin 使用量（pluginId → stats）。
+ * usage 尚未載入或載入失敗時為 null；plugin 變更後重新讀取（extension 端為增量掃描）。
+ * neverUsedIds 為已安裝但從未使用的 plugin（usage 載入前為空）。
+ */
+export function usePluginUsage(plugins: MergedPlugin[]): {
+  usage: Record<string, PluginUsageStats> | null;
+  neverUsedIds: ReadonlySet<string>;
+} {
+  const [usage, setUsage] = useState<Record<string, PluginUsageStats> | null>(null);
+
+  const loadUsage = useCallback(async (): Promise<void> => {
+    try {
+      setUsage((await sendRequest<Record<string, PluginUsageStats>>({ type: 'plugin.usage' }, USAGE_TIMEOUT_MS)) ?? null);
+    } catch { /* 使用統計非必要，失敗時不顯示 */ }
+  }, []);
+
+  useEffect(() => {
+    void loadUsage();
+  }, [loadUsage]);
+
+  useEffect(() => {
+    return onPushMessage((msg) => {
+      if (msg.type === 'plugin.refresh') void loadUsage();
+    });
+  }, [loadUsage]);
+
+  const neverUsedIds = useMemo(() => {
+    if (!usage) return NO_PLUGIN_IDS;
+    return new Set(plugins
+      .filter((p) => getInstalledScopes(p).length > 0 && !usage[p.id]?.lastUsed)
+      .map((p) => p.id));
+  }, [plugins, usage]);
+
+  return { usage, neverUsedIds };
+}
@@ -10,6 +10,8 @@ export const en = {
   'sidebar.settings.desc': 'Configure Claude Code settings per scope',
   'sidebar.info': 'Extension Info',
   'sidebar.info.desc': 'View extension info, cache paths, and CLI details',
+  'sidebar.profiles': 'Plugin Profiles',
+  'sidebar.profiles.desc': 'Switch plugin sets with a saved profile',
   // SettingsPage
   'settings.page.title': 'Settings Manager',
   'settings.page.subtitle': 'Configure Claude Code settings.json',
@@ -824,11 +826,25 @@ export const en = {
   'plugin.page.more': 'More',
   'plugin.page.updateAll': 'Update Plugins',
   'plugin.page.updating': 'Updating {current}/{total}...',
+  'plugin.page.checkingUpdates': 'Checking for updates...',
+  'plugin.updateAll.title': 'Update Plugins',
+  'plugin.updateAll.summary': '{updated} updated, {upToDate} already up to date, {failed} failed',
+  'plugin.updateAll.status.updated': 'Updated',
+  'plugin.updateAll.status.upToDate': 'Already up to date',
+  'plugin.updateAll.status.failed': 'Failed',
+  'plugin.updateAll.retryFailed': 'Retry failed ({count})',
+  'plugin.updateAll.retrying': 'Retrying...',
+  'plugin.updateAll.close': 'Close',
   'plugin.page.refresh': 'Refresh',
   'plugin.page.searchPlaceholder': 'Search plugins...',
   'plugin.page.clearSearch': 'Clear search',
   'plugin.page.translate': 'Translate',
   'plugin.page.filterEnabled': 'Enabled',
+  'plugin.page.filterUpdates': 'Has updates',
+  'plugin.page.filterConflicts': 'Conflicts',
+  'plugin.page.filterNeverUsed': 'Never used',
+  'plugin.page.contextBudget': 'Context: ~{tokens} / {limit} tokens',
+  'plugin.page.contextBudgetTitle': 'Estimated tokens that {count} enabled plugin(s) load into every session (command, skill and agent descriptions plus MCP tool listings)',
   'plugin.page.showHidden': 'Show hidden',
   'plugin.page.noResults': 'No plugins match the current filters.',
   // Plugin section (per-marketplace header)
@@ -866,6 +882,8 @@ export const en = {
   'plugin.page.reinstallAllMessage': 'This will clear the plugin cache, remove all marketplaces, and re-add them from their original sources. All plugins will be reinstalled.\n\nDo not close this panel until the operation completes.',
   'plugin.page.reinstallAllWarning.before': 'Warning: the contents of ',
   'plugin.page.reinstallAllWarning.after': ' will also be deleted.',
+  'plugin.page.reinstallOneTitle': 'Reinstall Marketplace',
+  'plugin.page.reinstallOneMessage': 'Remove "{name}", clear its plugin cache, and re-add it from its original source. Its installed plugins and enabled settings will be restored. Other marketplaces are not affected.',
   'plugin.page.reinstallProgressTitle': 'Reinstall in Progress',
   'plugin.page.reinstallProgressCount': 'Step progress: {current}/{total}',
   'plugin.page.reinstallProgressDetail': 'Current item: {detail}',
@@ -875,12 +893,223 @@ export const en = {
   'plugin.page.reinstallPhase.restoringSettings': 'Restoring enabled plugin settings',
   'plugin.page.reinstallPhase.restoringPlugins': 'Reinstalling previously installed plugins',
   'plugin.page.reinstallPhase.completed': 'Reinstall completed',
+  'plugin.page.reinstallPhase.rollingBack': 'Cancelled — restoring previous marketplaces',
+  'plugin.page.operationCancelling': 'Cancelling...',
+  'plugin.page.exportConfig': 'Export Config',
+  'plugin.page.exportingConfig': 'Exporting...',
+  'plugin.page.exportConfigSuccess': 'Config exported to {path}',
+  'plugin.page.importConfig': 'Import Config',
+  'plugin.page.scaffoldPlugin': 'Create Plugin…',
+  'plugin.page.installFromSource': 'Install from Source…',
+  'plugin.page.importingConfig': 'Importing...',
+  'plugin.page.importPreviewTitle': 'Import Config',
+  'plugin.page.importPreviewEmpty': 'Nothing to import: everything in this bundle is already set up.',
+  'plugin.page.importSection.marketplacesToAdd': 'Marketplaces to add ({count})',
+  'plugin.page.importSection.pluginsToEnable': 'Plugins to install / enable ({count})',
+  'plugin.page.importSection.skipped': 'Skipped ({count})',
+  'plugin.page.importSkip.alreadyAdded': 'Already added',
+  'plugin.page.importSkip.alreadyEnabled': 'Already enabled',
+  'plugin.page.importSkip.noWorkspace': 'No workspace open for this scope',
+  'plugin.page.importSkip.unknownMarketplace': 'Marketplace not in bundle',
+  'plugin.page.importConfirm': 'Import',
+  'plugin.page.importSuccess': 'Added {marketplaces} marketplaces, enabled {plugins} plugins',
+  'plugin.page.importPartial': 'Import finished with {count} failures: {failures}',
+  'plugin.page.importProgressTitle': 'Import in Progress',
+  'plugin.page.importPhase.addingMarketplaces': 'Adding marketplaces',
+  'plugin.page.importPhase.enablingPlugins': 'Installing and enabling plugins',
+  'plugin.page.importPhase.completed': 'Import completed',
+  'plugin.page.updateSummary.title': 'What changed in {name}',
+  'plugin.page.updateSummary.commit': 'Commit {from} → {to}',
+  'plugin.page.updateSummary.commitUnchanged': 'Commit {commit} (unchanged)',
+  'plugin.page.updateSummary.commitUnknown': 'unknown',
+  'plugin.page.updateSummary.noPluginChanges': 'No plugin changes.',
+  'plugin.page.updateSummary.added': 'Added plugins ({count})',
+  'plugin.page.updateSummary.removed': 'Removed plugins ({count})',
+  'plugin.page.updateSummary.changed': 'Changed plugins ({count})',
+  'plugin.page.updateSummary.version': 'Version {from} → {to}',
+  'plugin.page.updateSummary.versionUnknown': 'none',
+  'plugin.page.updateSummary.kind.commands': 'Commands',
+  'plugin.page.updateSummary.kind.skills': 'Skills',
+  'plugin.page.updateSummary.kind.agents': 'Agents',
+  'plugin.page.updateSummary.kind.mcpServers': 'MCP servers',
+  'plugin.page.updateSummary.hooksChanged': 'Hooks changed',
+  'plugin.page.updateSummary.close': 'Close',
+  'plugin.page.preview.title': 'Marketplace Preview — {count} plugin(s)',
+  'plugin.page.preview.source': 'Source: {format}',
+  'plugin.page.preview.remoteContents': 'Remote source — contents are fetched on install and cannot be previewed.',
+  'plugin.page.preview.noContents': 'No commands, skills, agents or MCP servers.',
+  'plugin.page.preview.kind.commands': 'Commands',
+  'plugin.page.preview.kind.skills': 'Skills',
+  'plugin.page.preview.kind.agents': 'Agents',
+  'plugin.page.preview.kind.mcpServers': 'MCP servers',
+  'plugin.page.preview.hookCommands': 'Hook commands ({count})',
+  'plugin.page.preview.scripts': 'Shell scripts ({count})',
+  'plugin.page.preview.adding': 'Adding...',
+  'plugin.scaffold.title': 'Create Plugin',
+  'plugin.scaffold.intro': 'Creates a local marketplace with a plugin skeleton (commands, skills, agents) and adds it to Claude Code.',
+  'plugin.scaffold.location': 'Location',
+  'plugin.scaffold.locationPlaceholder': 'Folder to create the marketplace in',
+  'plugin.scaffold.browse': 'Browse…',
+  'plugin.scaffold.marketplaceName': 'Marketplace',
+  'plugin.scaffold.pluginName': 'Plugin',
+  'plugin.scaffold.nameHint': 'Names may only contain lowercase letters, digits and dashes.',
+  'plugin.scaffold.description': 'Description',
+  'plugin.scaffold.author': 'Author',
+  'plugin.scaffold.includeHooks': 'Include hooks/hooks.json',
+  'plugin.scaffold.includeMcp': 'Include .mcp.json',
+  'plugin.scaffold.create': 'Create',
+  'plugin.scaffold.creating': 'Creating...',
+  'plugin.scaffold.success': 'Created marketplace at {path}',
+  'plugin.source.title': 'Install from Source',
+  'plugin.source.intro': 'Installs a plugin directly from GitHub, a git URL or a local folder without adding a marketplace. The plugin folder must contain .claude-plugin/plugin.json.',
+  'plugin.source.source': 'Source',
+  'plugin.source.sourcePlaceholder': 'owner/repo, git URL or /path/to/plugin',
+  'plugin.source.subdir': 'Subdirectory',
+  'plugin.source.subdirPlaceholder': 'Optional, e.g. plugins/my-plugin',
+  'plugin.source.scope': 'Scope',
+  'plugin.source.install': 'Install',
+  'plugin.source.installing': 'Installing...',
+  'plugin.source.success': 'Installed {pluginId}',
   // PluginCard
   'plugin.card.updateAvailable': 'Update available',
+  'plugin.card.cancelInstall': 'Cancel install',
   'plugin.content.external': 'This plugin is from an external repo. Content is available after installation.',
   'plugin.content.installOnly': 'Install (without enabling)',
   'plugin.card.hide': 'Hide',
   'plugin.card.unhide': 'Unhide',
+  'plugin.card.history': 'History',
+  'plugin.card.details': 'Details',
+  'plugin.card.origin.github': 'GitHub: {source}',
+  'plugin.card.origin.git': 'Git: {source}',
+  'plugin.card.origin.local': 'Folder: {source}',
+  'plugin.card.dev': 'DEV',
+  'plugin.card.devTitle': '{scope}: linked to {path} ({count} issues)',
+  'plugin.card.usage': 'Last used {lastUsed} · {count} uses in 30 days',
+  'plugin.card.neverUsed': 'Never used',
+  'plugin.card.contextCost': '~{tokens} tokens',
+  'plugin.card.contextCostTitle': 'Estimated context cost when enabled — commands {commands}, skills {skills}, agents {agents}, MCP servers {mcpServers}',
+  'plugin.card.select': 'Select {name}',
+  'plugin.bulk.label': 'Bulk actions',
+  'plugin.bulk.selected': '{count} selected',
+  'plugin.bulk.scope': 'Target scope',
+  'plugin.bulk.selectAllFiltered': 'Select all filtered ({count})',
+  'plugin.bulk.clear': 'Clear selection',
+  'plugin.bulk.action.install': 'Install',
+  'plugin.bulk.action.uninstall': 'Uninstall',
+  'plugin.bulk.action.enable': 'Enable',
+  'plugin.bulk.action.disable': 'Disable',
+  'plugin.bulk.action.update': 'Update',
+  'plugin.bulk.confirmUninstallTitle': 'Uninstall Plugins',
+  'plugin.bulk.confirmUninstallMessage': 'Uninstall {count} selected plugins from the {scope} scope?',
+  'plugin.bulk.result.title': '{action} — {scope}',
+  'plugin.bulk.result.summary': '{succeeded} succeeded, {failed} failed',
+  'plugin.bulk.result.succeeded': 'Succeeded',
+  'plugin.bulk.result.failed': 'Failed',
+  'plugin.bulk.result.close': 'Close',
+  'plugin.detail.author': 'by {name}',
+  'plugin.detail.license': 'License: {license}',
+  'plugin.detail.homepage': 'Homepage',
+  'plugin.detail.repository': 'Repository',
+  'plugin.detail.installs': 'Install state',
+  'plugin.detail.availableCommit': 'Marketplace commit: {sha}',
+  'plugin.detail.notInstalled': 'Not installed',
+  'plugin.detail.enabled': 'Enabled',
+  'plugin.detail.disabled': 'Installed, disabled',
+  'plugin.detail.commitUnknown': 'commit unknown',
+  'plugin.detail.behind': 'Behind marketplace',
+  'plugin.devLink.link': 'Link folder…',
+  'plugin.devLink.unlink': 'Unlink',
+  'plugin.devLink.path': 'Dev folder: {path}',
+  'plugin.devLink.noIssues': 'Manifest and frontmatter look good.',
+  'plugin.devLink.linked': 'Linked to {path}. Changes apply without reinstalling.',
+  'plugin.devLink.unlinked': 'Restored the installed version.',
+  'plugin.detail.readme': 'README',
+  'plugin.detail.noReadme': 'This plugin has no README.md.',
+  'plugin.detail.close': 'Close',
+  'plugin.profile.menu': 'Profiles',
+  'plugin.profile.menuActive': 'Profile: {name}',
+  'plugin.profile.manageItem': 'Save / manage profiles…',
+  'plugin.profile.active': 'active',
+  'plugin.profile.applied': 'Applied profile "{name}"',
+  'plugin.profile.saved': 'Saved profile "{name}"',
+  'plugin.profile.apply': 'Apply',
+  'plugin.profile.applying': 'Applying...',
+  'plugin.profile.cancel': 'Cancel',
+  'plugin.profile.diff.title': 'Apply profile "{name}"',
+  'plugin.profile.diff.summary': '{enable} to enable, {disable} to disable.',
+  'plugin.profile.diff.unchanged': 'Enabled plugins already match this profile.',
+  'plugin.profile.diff.toEnable': 'Enable ({count})',
+  'plugin.profile.diff.toDisable': 'Disable ({count})',
+  'plugin.profile.manage.title': 'Plugin profiles',
+  'plugin.profile.manage.intro': 'A profile is a snapshot of the plugins enabled in each scope. Without a workspace only the user scope is saved.',
+  'plugin.profile.manage.name': 'Name',
+  'plugin.profile.manage.namePlaceholder': 'frontend',
+  'plugin.profile.manage.save': 'Save current',
+  'plugin.profile.manage.overwrite': 'Overwrite',
+  'plugin.profile.manage.empty': 'No profiles yet.',
+  'plugin.profile.manage.scopeCount': '{scope}: {count}',
+  'plugin.profile.manage.delete': 'Delete',
+  'plugin.profile.manage.deleteLabel': 'Delete profile {name}',
+  'plugin.profile.manage.close': 'Close',
+  'plugin.card.whatsChanged': 'What\'s changed',
+  'plugin.changelog.title': 'What\'s changed — {name}',
+  'plugin.changelog.commits': 'Commits ({count})',
+  'plugin.changelog.commitsUnavailable': 'Git history is unavailable (not a git marketplace, or the installed commit is unknown or no longer in the clone).',
+  'plugin.changelog.noCommits': 'No commits touched this plugin since the installed version.',
+  'plugin.changelog.commitMeta': '{author} · {date}',
+  'plugin.changelog.files': 'Changed commands, skills and agents ({count})',
+  'plugin.changelog.noFileChanges': 'No command, skill or agent files changed.',
+  'plugin.changelog.fileAdded': 'Added: {path}',
+  'plugin.changelog.fileRemoved': 'Removed: {path}',
+  'plugin.changelog.fileModified': 'Modified: {path}',
+  'plugin.changelog.update': 'Update',
+  'plugin.conflicts.title': '{count} name conflict(s) between enabled plugins',
+  'plugin.lock.driftTitle': '{count} plugin(s) differ from .claude/plugins.lock.json',
+  'plugin.lock.invalid': 'Cannot read .claude/plugins.lock.json: {error}',
+  'plugin.lock.drift.missing': 'not installed',
+  'plugin.lock.drift.commit': 'different commit',
+  'plugin.lock.drift.version': 'different version',
+  'plugin.lock.drift.enabled': 'should be enabled',
+  'plugin.lock.drift.disabled': 'should be disabled',
+  'plugin.lock.sync': 'Sync from lockfile',
+  'plugin.lock.syncing': 'Syncing…',
+  'plugin.lock.synced': 'Synced {count} plugin(s) from lockfile',
+  'plugin.lock.syncFailed': '{count} plugin(s) failed to sync from lockfile: {details}',
+  'plugin.lock.write': 'Write Project Lockfile',
+  'plugin.lock.writing': 'Writing Lockfile…',
+  'plugin.lock.written': 'Wrote {count} project plugin(s) to .claude/plugins.lock.json',
+  'plugin.conflicts.kind.command': 'Command',
+  'plugin.conflicts.kind.skill': 'Skill',
+  'plugin.conflicts.kind.agent': 'Agent',
+  'plugin.conflicts.kind.mcp': 'MCP server',
+  'plugin.conflicts.external.userSkill': 'user skill',
+  'plugin.conflicts.external.projectSkill': 'project skill',
+  'plugin.conflicts.external.userMcp': 'user MCP server',
+  'plugin.conflicts.external.projectMcp': 'project MCP server',
+  'plugin.conflicts.external.localMcp': 'local MCP server',
+  'plugin.conflicts.showOnly': 'Show conflicting plugins',
+  'plugin.security.title': 'Security review — {name}',
+  'plugin.security.intro': 'This plugin ships hooks, scripts or MCP servers that run code on your machine. Review them before continuing.',
+  'plugin.security.sourceUnavailable': 'This plugin\'s source is remote and is only downloaded during install, so its hooks, scripts and MCP commands can\'t be reviewed beforehand. Continue only if you trust the source.',
+  'plugin.security.commit': 'Reviewed commit {sha}',
+  'plugin.security.findings': 'Risky patterns ({count})',
+  'plugin.security.noFindings': 'No risky patterns found.',
+  'plugin.security.mcpServers': 'MCP servers ({count})',
+  'plugin.security.acknowledge': 'I understand, continue',
+  'plugin.security.rule.pipeToShell': 'Downloads and runs a remote script',
+  'plugin.security.rule.recursiveDelete': 'Recursively deletes files',
+  'plugin.security.rule.network': 'Makes network requests',
+  'plugin.security.rule.writeOutsideProject': 'Writes outside the project',
+  'plugin.security.rule.obfuscated': 'Obfuscated or encoded payload',
+  'plugin.history.title': 'Version history — {name}',
+  'plugin.history.intro': 'Versions replaced by updates are kept for rollback. Rolling back points the selected scope at the cached copy without reinstalling.',
+  'plugin.history.scope': 'Scope',
+  'plugin.history.current': 'Current ({scope}): {version}',
+  'plugin.history.empty': 'No previous versions yet. A version is recorded each time the plugin is updated.',
+  'plugin.history.dates': 'Updated {updated} · replaced {replaced}',
+  'plugin.history.rollback': 'Roll back',
+  'plugin.history.rollingBack': 'Rolling back...',
+  'plugin.history.rolledBack': 'Rolled back {name} to {version}',
   // BulkEnableScopeDialog
   'bulk.title': 'Enable All — {marketplace}',
   'bulk.message': 'Select scope for enabling {count} plugins:',
@@ -905,7 +1134,41 @@ export const en = {
   'marketplace.card.autoUpdate': 'Auto-update',
   'marketplace.card.update': 'Update',
   'marketplace.card.updating': 'Updating...',
+  'marketplace.card.cancelUpdate': 'Cancel',
   'marketplace.card.remove': 'Remove',
+  'marketplace.card.reinstall': 'Reinstall',
+  'marketplace.card.pin': 'Pin',
+  'marketplace.card.unpin': 'Unpin',
+  'marketplace.card.pinnedBadge': 'Pinned: {ref}',
+  'marketplace.card.pinnedAutoUpdateHint': 'Auto-update is off while the marketplace is pinned',
+  'marketplace.card.headSha': 'HEAD {sha}',
+  'marketplace.pin.title': 'Pin {name} to a git ref',
+  'marketplace.pin.refLabel': 'Branch, tag or commit',
+  'marketplace.pin.refPlaceholder': 'e.g. v1.2.0, release, 3f2a9c1',
+  'marketplace.pin.refHint': 'Update will stay on this ref (a branch still moves to its latest commit). Unpin to resume normal updates.',
+  'marketplace.pin.confirm': 'Pin',
+  'marketplace.card.editManifest': 'Edit Manifest',
+  'marketplace.manifest.title': 'Edit {name} manifest',
+  'marketplace.manifest.intro': 'Add, remove, reorder and edit the plugin entries in .claude-plugin/marketplace.json. Other manifest fields are kept as-is.',
+  'marketplace.manifest.empty': 'No plugins yet.',
+  'marketplace.manifest.unnamed': '(unnamed)',
+  'marketplace.manifest.addPlugin': 'Add Plugin',
+  'marketplace.manifest.moveUp': 'Move up',
+  'marketplace.manifest.moveDown': 'Move down',
+  'marketplace.manifest.remove': 'Remove',
+  'marketplace.manifest.name': 'Name',
+  'marketplace.manifest.description': 'Description',
+  'marketplace.manifest.version': 'Version',
+  'marketplace.manifest.format': 'Source',
+  'marketplace.manifest.unsupportedFormat': 'Unsupported',
+  'marketplace.manifest.path': 'Path',
+  'marketplace.manifest.subdir': 'Subdirectory',
+  'marketplace.manifest.repo': 'Repository',
+  'marketplace.manifest.url': 'Git URL',
+  'marketplace.manifest.ref': 'Ref',
+  'marketplace.manifest.save': 'Save',
+  'marketplace.manifest.saving': 'Saving...',
+  'marketplace.manifest.saved': 'Saved {name} manifest',
   'marketplace.card.updated': 'Updated:',
   // McpServerCard
   'mcp.card.connectionFailed': 'Connection failed',
@@ -958,6 +1221,7 @@ export const en = {
   'filter.sortBy': 'Sort by',
   'filter.sortName': 'Name',
   'filter.sortLastUpdated': 'Last Updated',
+  'filter.sortContextCost': 'Context Cost',
   'filter.source.label': 'Source',
   'filter.source.localInternal': 'Local Internal',
   'filter.source.localExternal': 'Local External',
@@ -996,6 +1260,33 @@ export const en = {
   'info.clearCache.confirm': 'Clear',
   'info.clearCache.success': 'Cache cleared',
   'info.clearCache.failed': 'Failed to clear cache',
+  'info.section.storage': 'Plugin Storage',
+  'info.storage.hint': 'Analyze disk usage of marketplace clones and plugin cache versions.',
+  'info.storage.analyze': 'Analyze',
+  'info.storage.analyzing': 'Analyzing…',
+  'info.storage.refresh': 'Refresh',
+  'info.storage.loadFailed': 'Failed to analyze plugin storage',
+  'info.storage.total': 'Total {size}',
+  'info.storage.unused': '{count} unused cache versions ({size})',
+  'info.storage.marketplaces': 'Marketplace clones',
+  'info.storage.caches': 'Plugin cache',
+  'info.storage.empty': 'None',
+  'info.storage.ref.installed': 'In use',
+  'info.storage.ref.devLink': 'Dev link backup',
+  'info.storage.ref.history': 'Rollback',
+  'info.storage.ref.unused': 'Unused',
+  'info.storage.ref.known': 'Registered',
+  'info.storage.ref.unknown': 'Not registered',
+  'info.storage.deleteSelected': 'Delete selected ({count}, {size})',
+  'info.storage.previewPrune': 'Preview cleanup…',
+  'info.storage.deleteTitle': 'Delete selected directories',
+  'info.storage.deleteMessage': 'Delete {count} directories ({size})? Deleted rollback versions can no longer be restored.',
+  'info.storage.deleteConfirm': 'Delete',
+  'info.storage.pruneTitle': 'Clean unused cache',
+  'info.storage.pruneMessage': 'These {count} cache versions ({size}) are not referenced by any installed plugin, rollback history or dev link and will be removed:',
+  'info.storage.pruneConfirm': 'Clean',
+  'info.storage.deleteSuccess': 'Removed {dirs} directories, freed {size}',
+  'info.storage.deleteFailed': 'Failed to delete plugin storage',
   // SkillsPage
   'skill.page.title': 'Skills Manager',
   'skill.page.subtitle': 'Powered by Vercel Skills CLI & skills.sh',
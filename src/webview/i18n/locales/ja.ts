@@ -12,16 +12,32 @@ export const ja: Partial<Record<TranslationKey, string>> = {
   'sidebar.settings.desc': 'スコープごとに Claude Code を設定',
   'sidebar.info': 'Extension 情報',
   'sidebar.info.desc': 'Extension バージョン・キャッシュパス・CLI 情報を確認',
+  'sidebar.profiles': 'Plugin プロファイル',
+  'sidebar.profiles.desc': '保存したプロファイルで Plugin セットを切り替え',
   // PluginPage
   'plugin.page.title': 'プラグインマネージャー',
   'plugin.page.subtitle': 'Claude Code のフックベースプラグインを管理',
   'plugin.page.more': 'その他',
   'plugin.page.updateAll': 'プラグインを更新',
   'plugin.page.updating': '更新中 {current}/{total}...',
+  'plugin.page.checkingUpdates': '更新を確認中...',
+  'plugin.updateAll.title': 'プラグインを更新',
+  'plugin.updateAll.summary': '更新 {updated} 件、最新 {upToDate} 件、失敗 {failed} 件',
+  'plugin.updateAll.status.updated': '更新済み',
+  'plugin.updateAll.status.upToDate': '最新',
+  'plugin.updateAll.status.failed': '失敗',
+  'plugin.updateAll.retryFailed': '失敗分を再試行（{count}）',
+  'plugin.updateAll.retrying': '再試行中...',
+  'plugin.updateAll.close': '閉じる',
   'plugin.page.refresh': '更新',
   'plugin.page.searchPlaceholder': 'プラグインを検索...',
   'plugin.page.translate': '翻訳',
   'plugin.page.filterEnabled': '有効',
+  'plugin.page.filterUpdates': '更新あり',
+  'plugin.page.filterConflicts': '競合あり',
+  'plugin.page.filterNeverUsed': '未使用',
+  'plugin.page.contextBudget': 'コンテキスト: 約 {tokens} / {limit} トークン',
+  'plugin.page.contextBudgetTitle': '有効な {count} 個の plugin が毎セッション読み込む推定トークン数（command・skill・agent の説明と MCP tool 一覧）',
   'plugin.page.showHidden': '非表示を表示',
   'plugin.page.noResults': '現在のフィルターに一致するプラグインはありません。',
   'plugin.page.clearFilters': 'フィルターをクリア',
@@ -46,6 +62,8 @@ export const ja: Partial<Record<TranslationKey, string>> = {
   'plugin.page.reinstallAllMessage': 'プラグインキャッシュをクリアし、すべてのマーケットプレイスを削除して元のソースから再インストールします。すべてのプラグインが再インストールされます。\n\n操作が完了するまでこのパネルを閉じないでください。',
   'plugin.page.reinstallAllWarning.before': '警告: ',
   'plugin.page.reinstallAllWarning.after': ' の内容も削除されます。',
+  'plugin.page.reinstallOneTitle': 'マーケットプレイスを再インストール',
+  'plugin.page.reinstallOneMessage': '「{name}」を削除し、そのプラグインキャッシュをクリアして元のソースから再追加します。インストール済みプラグインと有効化設定は復元されます。他のマーケットプレイスには影響しません。',
   'plugin.page.reinstallProgressTitle': '再インストール中',
   'plugin.page.reinstallProgressCount': '進捗: {current}/{total}',
   'plugin.page.reinstallProgressDetail': '現在の項目: {detail}',
@@ -55,6 +73,83 @@ export const ja: Partial<Record<TranslationKey, string>> = {
   'plugin.page.reinstallPhase.restoringSettings': '有効化済みプラグイン設定を復元しています',
   'plugin.page.reinstallPhase.restoringPlugins': '以前インストール済みだったプラグインを再インストールしています',
   'plugin.page.reinstallPhase.completed': '再インストールが完了しました',
+  'plugin.page.reinstallPhase.rollingBack': 'キャンセルしました — 以前の marketplace を復元中',
+  'plugin.page.operationCancelling': 'キャンセル中...',
+  'plugin.page.exportConfig': '設定をエクスポート',
+  'plugin.page.exportingConfig': 'エクスポート中...',
+  'plugin.page.exportConfigSuccess': '設定を {path} にエクスポートしました',
+  'plugin.page.importConfig': '設定をインポート',
+  'plugin.page.scaffoldPlugin': 'プラグインを作成…',
+  'plugin.page.installFromSource': 'ソースからインストール…',
+  'plugin.page.importingConfig': 'インポート中...',
+  'plugin.page.importPreviewTitle': '設定をインポート',
+  'plugin.page.importPreviewEmpty': 'インポートする項目はありません。この設定はすべて適用済みです。',
+  'plugin.page.importSection.marketplacesToAdd': '追加するマーケットプレイス ({count})',
+  'plugin.page.importSection.pluginsToEnable': 'インストール / 有効化するプラグイン ({count})',
+  'plugin.page.importSection.skipped': 'スキップ ({count})',
+  'plugin.page.importSkip.alreadyAdded': '追加済み',
+  'plugin.page.importSkip.alreadyEnabled': '有効化済み',
+  'plugin.page.importSkip.noWorkspace': 'このスコープ用のワークスペースが開かれていません',
+  'plugin.page.importSkip.unknownMarketplace': 'マーケットプレイスが設定に含まれていません',
+  'plugin.page.importConfirm': 'インポート',
+  'plugin.page.importSuccess': '{marketplaces} 件のマーケットプレイスを追加し、{plugins} 件のプラグインを有効化しました',
+  'plugin.page.importPartial': 'インポートは完了しましたが {count} 件失敗しました: {failures}',
+  'plugin.page.importProgressTitle': 'インポート中',
+  'plugin.page.importPhase.addingMarketplaces': 'マーケットプレイスを追加しています',
+  'plugin.page.importPhase.enablingPlugins': 'プラグインをインストール・有効化しています',
+  'plugin.page.importPhase.completed': 'インポートが完了しました',
+  'plugin.page.updateSummary.title': '{name} の変更内容',
+  'plugin.page.updateSummary.commit': 'コミット {from} → {to}',
+  'plugin.page.updateSummary.commitUnchanged': 'コミット {commit}（変更なし）',
+  'plugin.page.updateSummary.commitUnknown': '不明',
+  'plugin.page.updateSummary.noPluginChanges': 'プラグインの変更はありません。',
+  'plugin.page.updateSummary.added': '追加されたプラグイン（{count}）',
+  'plugin.page.updateSummary.removed': '削除されたプラグイン（{count}）',
+  'plugin.page.updateSummary.changed': '変更されたプラグイン（{count}）',
+  'plugin.page.updateSummary.version': 'バージョン {from} → {to}',
+  'plugin.page.updateSummary.versionUnknown': 'なし',
+  'plugin.page.updateSummary.kind.commands': 'コマンド',
+  'plugin.page.updateSummary.kind.skills': 'スキル',
+  'plugin.page.updateSummary.kind.agents': 'エージェント',
+  'plugin.page.updateSummary.kind.mcpServers': 'MCP サーバー',
+  'plugin.page.updateSummary.hooksChanged': 'Hooks が変更されました',
+  'plugin.page.updateSummary.close': '閉じる',
+  'plugin.page.preview.title': 'Marketplace プレビュー — {count} 個の plugin',
+  'plugin.page.preview.source': 'ソース: {format}',
+  'plugin.page.preview.remoteContents': 'リモートソース — 内容はインストール時に取得されるためプレビューできません。',
+  'plugin.page.preview.noContents': 'コマンド、スキル、エージェント、MCP サーバーはありません。',
+  'plugin.page.preview.kind.commands': 'コマンド',
+  'plugin.page.preview.kind.skills': 'スキル',
+  'plugin.page.preview.kind.agents': 'エージェント',
+  'plugin.page.preview.kind.mcpServers': 'MCP サーバー',
+  'plugin.page.preview.hookCommands': 'Hook コマンド（{count}）',
+  'plugin.page.preview.scripts': 'シェルスクリプト（{count}）',
+  'plugin.page.preview.adding': '追加中...',
+  'plugin.scaffold.title': 'プラグインを作成',
+  'plugin.scaffold.intro': 'プラグインの雛形（commands、skills、agents）を含むローカル marketplace を作成し、Claude Code に追加します。',
+  'plugin.scaffold.location': '場所',
+  'plugin.scaffold.locationPlaceholder': 'marketplace を作成するフォルダー',
+  'plugin.scaffold.browse': '参照…',
+  'plugin.scaffold.marketplaceName': 'Marketplace',
+  'plugin.scaffold.pluginName': 'プラグイン',
+  'plugin.scaffold.nameHint': '名前には小文字、数字、ハイフンのみ使用できます。',
+  'plugin.scaffold.description': '説明',
+  'plugin.scaffold.author': '作成者',
+  'plugin.scaffold.includeHooks': 'hooks/hooks.json を含める',
+  'plugin.scaffold.includeMcp': '.mcp.json を含める',
+  'plugin.scaffold.create': '作成',
+  'plugin.scaffold.creating': '作成中...',
+  'plugin.scaffold.success': '{path} に marketplace を作成しました',
+  'plugin.source.title': 'ソースからインストール',
+  'plugin.source.intro': 'marketplace を追加せずに、GitHub・git URL・ローカルフォルダから plugin を直接インストールします。plugin フォルダには .claude-plugin/plugin.json が必要です。',
+  'plugin.source.source': 'ソース',
+  'plugin.source.sourcePlaceholder': 'owner/repo、git URL または /path/to/plugin',
+  'plugin.source.subdir': 'サブディレクトリ',
+  'plugin.source.subdirPlaceholder': '任意（例: plugins/my-plugin）',
+  'plugin.source.scope': 'スコープ',
+  'plugin.source.install': 'インストール',
+  'plugin.source.installing': 'インストール中...',
+  'plugin.source.success': '{pluginId} をインストールしました',
   // Plugin section
   'plugin.section.updates': '{count} 件の更新',
   'plugin.section.updatesPlural': '{count} 件の更新',
@@ -71,10 +166,144 @@ export const ja: Partial<Record<TranslationKey, string>> = {
   'plugin.orphan.removing': '削除中...',
   // PluginCard
   'plugin.card.updateAvailable': 'アップデートあり',
+  'plugin.card.cancelInstall': 'インストールをキャンセル',
   'plugin.content.external': 'このプラグインは外部リポジトリです。インストール後にコンテンツを確認できます。',
   'plugin.content.installOnly': 'インストール（有効化せず）',
   'plugin.card.hide': '非表示',
   'plugin.card.unhide': '表示する',
+  'plugin.card.history': '履歴',
+  'plugin.card.details': '詳細',
+  'plugin.card.origin.github': 'GitHub: {source}',
+  'plugin.card.origin.git': 'Git: {source}',
+  'plugin.card.origin.local': 'フォルダ: {source}',
+  'plugin.card.dev': 'DEV',
+  'plugin.card.devTitle': '{scope}: {path} にリンク中（問題 {count} 件）',
+  'plugin.card.usage': '最終使用 {lastUsed} · 30 日間で {count} 回',
+  'plugin.card.neverUsed': '未使用',
+  'plugin.card.contextCost': '約 {tokens} トークン',
+  'plugin.card.contextCostTitle': '有効時のコンテキスト消費の推定 — commands {commands}、skills {skills}、agents {agents}、MCP servers {mcpServers}',
+  'plugin.card.select': '{name} を選択',
+  'plugin.bulk.label': '一括操作',
+  'plugin.bulk.selected': '{count} 件選択中',
+  'plugin.bulk.scope': '対象スコープ',
+  'plugin.bulk.selectAllFiltered': '絞り込み結果をすべて選択（{count}）',
+  'plugin.bulk.clear': '選択解除',
+  'plugin.bulk.action.install': 'インストール',
+  'plugin.bulk.action.uninstall': 'アンインストール',
+  'plugin.bulk.action.enable': '有効化',
+  'plugin.bulk.action.disable': '無効化',
+  'plugin.bulk.action.update': '更新',
+  'plugin.bulk.confirmUninstallTitle': 'Plugin のアンインストール',
+  'plugin.bulk.confirmUninstallMessage': '選択した {count} 件の Plugin を {scope} スコープからアンインストールしますか？',
+  'plugin.bulk.result.title': '{action} — {scope}',
+  'plugin.bulk.result.summary': '成功 {succeeded} 件、失敗 {failed} 件',
+  'plugin.bulk.result.succeeded': '成功',
+  'plugin.bulk.result.failed': '失敗',
+  'plugin.bulk.result.close': '閉じる',
+  'plugin.detail.author': '作成者: {name}',
+  'plugin.detail.license': 'ライセンス: {license}',
+  'plugin.detail.homepage': 'ホームページ',
+  'plugin.detail.repository': 'リポジトリ',
+  'plugin.detail.installs': 'インストール状態',
+  'plugin.detail.availableCommit': 'マーケットプレイスのコミット: {sha}',
+  'plugin.detail.notInstalled': '未インストール',
+  'plugin.detail.enabled': '有効',
+  'plugin.detail.disabled': 'インストール済み・無効',
+  'plugin.detail.commitUnknown': 'コミット不明',
+  'plugin.detail.behind': 'マーケットプレイスより古い',
+  'plugin.devLink.link': 'フォルダをリンク…',
+  'plugin.devLink.unlink': 'リンク解除',
+  'plugin.devLink.path': '開発フォルダ: {path}',
+  'plugin.devLink.noIssues': 'manifest と frontmatter に問題はありません。',
+  'plugin.devLink.linked': '{path} にリンクしました。再インストールなしで変更が反映されます。',
+  'plugin.devLink.unlinked': 'インストール済みのバージョンに戻しました。',
+  'plugin.detail.readme': 'README',
+  'plugin.detail.noReadme': 'このプラグインには README.md がありません。',
+  'plugin.detail.close': '閉じる',
+  'plugin.profile.menu': 'プロファイル',
+  'plugin.profile.menuActive': 'プロファイル: {name}',
+  'plugin.profile.manageItem': 'プロファイルの保存 / 管理…',
+  'plugin.profile.active': '適用中',
+  'plugin.profile.applied': 'プロファイル「{name}」を適用しました',
+  'plugin.profile.saved': 'プロファイル「{name}」を保存しました',
+  'plugin.profile.apply': '適用',
+  'plugin.profile.applying': '適用中...',
+  'plugin.profile.cancel': 'キャンセル',
+  'plugin.profile.diff.title': 'プロファイル「{name}」を適用',
+  'plugin.profile.diff.summary': '有効化 {enable} 件、無効化 {disable} 件。',
+  'plugin.profile.diff.unchanged': '有効な Plugin はすでにこのプロファイルと一致しています。',
+  'plugin.profile.diff.toEnable': '有効化（{count}）',
+  'plugin.profile.diff.toDisable': '無効化（{count}）',
+  'plugin.profile.manage.title': 'Plugin プロファイル',
+  'plugin.profile.manage.intro': 'プロファイルは各スコープで有効な Plugin のスナップショットです。workspace がない場合は user スコープのみ保存されます。',
+  'plugin.profile.manage.name': '名前',
+  'plugin.profile.manage.namePlaceholder': 'frontend',
+  'plugin.profile.manage.save': '現在の状態を保存',
+  'plugin.profile.manage.overwrite': '上書き',
+  'plugin.profile.manage.empty': 'プロファイルはまだありません。',
+  'plugin.profile.manage.scopeCount': '{scope}: {count}',
+  'plugin.profile.manage.delete': '削除',
+  'plugin.profile.manage.deleteLabel': 'プロファイル {name} を削除',
+  'plugin.profile.manage.close': '閉じる',
+  'plugin.card.whatsChanged': '変更内容',
+  'plugin.changelog.title': '変更内容 — {name}',
+  'plugin.changelog.commits': 'コミット ({count})',
+  'plugin.changelog.commitsUnavailable': 'Git 履歴を取得できません（git marketplace ではないか、インストール済みのコミットが不明またはクローンに存在しません）。',
+  'plugin.changelog.noCommits': 'インストール済みバージョン以降、この plugin に関するコミットはありません。',
+  'plugin.changelog.commitMeta': '{author} · {date}',
+  'plugin.changelog.files': '変更された commands / skills / agents ({count})',
+  'plugin.changelog.noFileChanges': 'command / skill / agent ファイルの変更はありません。',
+  'plugin.changelog.fileAdded': '追加: {path}',
+  'plugin.changelog.fileRemoved': '削除: {path}',
+  'plugin.changelog.fileModified': '変更: {path}',
+  'plugin.changelog.update': '更新',
+  'plugin.conflicts.title': '有効な plugin 間で {count} 件の名前の競合があります',
+  'plugin.lock.driftTitle': '{count} 件のプラグインが .claude/plugins.lock.json と異なります',
+  'plugin.lock.invalid': '.claude/plugins.lock.json を読み込めません：{error}',
+  'plugin.lock.drift.missing': '未インストール',
+  'plugin.lock.drift.commit': 'コミットが異なる',
+  'plugin.lock.drift.version': 'バージョンが異なる',
+  'plugin.lock.drift.enabled': '有効にする必要があります',
+  'plugin.lock.drift.disabled': '無効にする必要があります',
+  'plugin.lock.sync': 'ロックファイルから同期',
+  'plugin.lock.syncing': '同期中…',
+  'plugin.lock.synced': 'ロックファイルから {count} 件のプラグインを同期しました',
+  'plugin.lock.syncFailed': '{count} 件のプラグインをロックファイルから同期できませんでした：{details}',
+  'plugin.lock.write': 'プロジェクトのロックファイルを書き出す',
+  'plugin.lock.writing': 'ロックファイルを書き出し中…',
+  'plugin.lock.written': '{count} 件のプロジェクトプラグインを .claude/plugins.lock.json に書き出しました',
+  'plugin.conflicts.kind.command': 'コマンド',
+  'plugin.conflicts.kind.skill': 'スキル',
+  'plugin.conflicts.kind.agent': 'エージェント',
+  'plugin.conflicts.kind.mcp': 'MCP サーバー',
+  'plugin.conflicts.external.userSkill': 'ユーザースキル',
+  'plugin.conflicts.external.projectSkill': 'プロジェクトスキル',
+  'plugin.conflicts.external.userMcp': 'ユーザー MCP サーバー',
+  'plugin.conflicts.external.projectMcp': 'プロジェクト MCP サーバー',
+  'plugin.conflicts.external.localMcp': 'ローカル MCP サーバー',
+  'plugin.conflicts.showOnly': '競合している plugin のみ表示',
+  'plugin.security.title': 'セキュリティレビュー — {name}',
+  'plugin.security.intro': 'この plugin にはマシン上でコードを実行する hook、スクリプト、または MCP サーバーが含まれています。続行する前に確認してください。',
+  'plugin.security.sourceUnavailable': 'この plugin のソースはリモートにあり、インストール時にのみダウンロードされるため、hook・スクリプト・MCP コマンドを事前に確認できません。ソースを信頼できる場合のみ続行してください。',
+  'plugin.security.commit': '確認したコミット {sha}',
+  'plugin.security.findings': '危険なパターン（{count}）',
+  'plugin.security.noFindings': '危険なパターンは見つかりませんでした。',
+  'plugin.security.mcpServers': 'MCP サーバー（{count}）',
+  'plugin.security.acknowledge': '理解したうえで続行',
+  'plugin.security.rule.pipeToShell': 'リモートスクリプトをダウンロードして実行',
+  'plugin.security.rule.recursiveDelete': 'ファイルを再帰的に削除',
+  'plugin.security.rule.network': 'ネットワーク通信を行う',
+  'plugin.security.rule.writeOutsideProject': 'プロジェクト外に書き込む',
+  'plugin.security.rule.obfuscated': '難読化またはエンコードされたペイロード',
+  'plugin.history.title': 'バージョン履歴 — {name}',
+  'plugin.history.intro': '更新で置き換えられたバージョンはロールバック用に保持されます。ロールバックは再インストールせず、選択したスコープをキャッシュ済みのコピーに切り替えます。',
+  'plugin.history.scope': 'スコープ',
+  'plugin.history.current': '現在 ({scope}): {version}',
+  'plugin.history.empty': '以前のバージョンはまだありません。plugin を更新するたびにバージョンが記録されます。',
+  'plugin.history.dates': '更新 {updated} · 置き換え {replaced}',
+  'plugin.history.rollback': 'ロールバック',
+  'plugin.history.rollingBack': 'ロールバック中...',
+  'plugin.history.rolledBack': '{name} を {version} にロールバックしました',
   // BulkEnableScopeDialog
   'bulk.title': 'すべて有効化 — {marketplace}',
   'bulk.message': '{count} 個のプラグインを有効化するスコープを選択:',
@@ -99,7 +328,41 @@ export const ja: Partial<Record<TranslationKey, string>> = {
   'marketplace.card.autoUpdate': '自動更新',
   'marketplace.card.update': '更新',
   'marketplace.card.updating': '更新中...',
+  'marketplace.card.cancelUpdate': 'キャンセル',
   'marketplace.card.remove': '削除',
+  'marketplace.card.reinstall': '再インストール',
+  'marketplace.card.pin': '固定',
+  'marketplace.card.unpin': '固定解除',
+  'marketplace.card.pinnedBadge': '固定: {ref}',
+  'marketplace.card.pinnedAutoUpdateHint': '固定中は自動更新がオフになります',
+  'marketplace.card.headSha': 'HEAD {sha}',
+  'marketplace.pin.title': '{name} を git ref に固定',
+  'marketplace.pin.refLabel': 'ブランチ、タグ、またはコミット',
+  'marketplace.pin.refPlaceholder': '例: v1.2.0、release、3f2a9c1',
+  'marketplace.pin.refHint': '更新はこの ref に留まります（ブランチの場合は最新コミットへ進みます）。固定を解除すると通常の更新に戻ります。',
+  'marketplace.pin.confirm': '固定',
+  'marketplace.card.editManifest': 'マニフェストを編集',
+  'marketplace.manifest.title': '{name} のマニフェストを編集',
+  'marketplace.manifest.intro': '.claude-plugin/marketplace.json の plugin エントリを追加・削除・並べ替え・編集します。その他のフィールドはそのまま保持されます。',
+  'marketplace.manifest.empty': 'plugin がまだありません。',
+  'marketplace.manifest.unnamed': '（名前なし）',
+  'marketplace.manifest.addPlugin': 'Plugin を追加',
+  'marketplace.manifest.moveUp': '上へ移動',
+  'marketplace.manifest.moveDown': '下へ移動',
+  'marketplace.manifest.remove': '削除',
+  'marketplace.manifest.name': '名前',
+  'marketplace.manifest.description': '説明',
+  'marketplace.manifest.version': 'バージョン',
+  'marketplace.manifest.format': 'ソース',
+  'marketplace.manifest.unsupportedFormat': '未対応',
+  'marketplace.manifest.path': 'パス',
+  'marketplace.manifest.subdir': 'サブディレクトリ',
+  'marketplace.manifest.repo': 'リポジトリ',
+  'marketplace.manifest.url': 'Git URL',
+  'marketplace.manifest.ref': 'Ref',
+  'marketplace.manifest.save': '保存',
+  'marketplace.manifest.saving': '保存中...',
+  'marketplace.manifest.saved': '{name} のマニフェストを保存しました',
   'marketplace.card.updated': '更新日:',
   // McpServerCard
   'mcp.card.connectionFailed': '接続失敗',
@@ -152,6 +415,7 @@ export const ja: Partial<Record<TranslationKey, string>> = {
   'filter.sortBy': '並び順',
   'filter.sortName': '名前',
   'filter.sortLastUpdated': '最終更新',
+  'filter.sortContextCost': 'コンテキスト消費',
   'filter.source.label': 'ソース',
   'filter.source.localInternal': 'ローカル内部',
   'filter.source.localExternal': 'ローカル外部',
@@ -191,6 +455,33 @@ export const ja: Partial<Record<TranslationKey, string>> = {
   'info.clearCache.confirm': 'クリア',
   'info.clearCache.success': 'キャッシュをクリアしました',
   'info.clearCache.failed': 'キャッシュのクリアに失敗しました',
+  'info.section.storage': 'プラグインストレージ',
+  'info.storage.hint': 'マーケットプレイスのクローンとプラグインキャッシュの各バージョンのディスク使用量を分析します。',
+  'info.storage.analyze': '分析',
+  'info.storage.analyzing': '分析中…',
+  'info.storage.refresh': '再読み込み',
+  'info.storage.loadFailed': 'プラグインストレージの分析に失敗しました',
+  'info.storage.total': '合計 {size}',
+  'info.storage.unused': '未使用のキャッシュバージョン {count} 件（{size}）',
+  'info.storage.marketplaces': 'マーケットプレイスのクローン',
+  'info.storage.caches': 'プラグインキャッシュ',
+  'info.storage.empty': 'なし',
+  'info.storage.ref.installed': '使用中',
+  'info.storage.ref.devLink': 'Dev link の退避',
+  'info.storage.ref.history': 'ロールバック用',
+  'info.storage.ref.unused': '未使用',
+  'info.storage.ref.known': '登録済み',
+  'info.storage.ref.unknown': '未登録',
+  'info.storage.deleteSelected': '選択項目を削除（{count} 件、{size}）',
+  'info.storage.previewPrune': 'クリーンアップをプレビュー…',
+  'info.storage.deleteTitle': '選択したディレクトリを削除',
+  'info.storage.deleteMessage': '{count} 件のディレクトリ（{size}）を削除しますか？削除したロールバック用バージョンは復元できなくなります。',
+  'info.storage.deleteConfirm': '削除',
+  'info.storage.pruneTitle': '未使用のキャッシュを削除',
+  'info.storage.pruneMessage': '次の {count} 件のキャッシュバージョン（{size}）はインストール済みプラグイン、ロールバック履歴、dev link のいずれからも参照されていないため削除されます：',
+  'info.storage.pruneConfirm': '削除',
+  'info.storage.deleteSuccess': '{dirs} 件のディレクトリを削除し、{size} を解放しました',
+  'info.storage.deleteFailed': 'プラグインストレージの削除に失敗しました',
   // SkillsPage
   'skill.page.title': 'スキル管理',
   'skill.page.subtitle': 'Vercel Skills CLI と skills.sh を使用',
@@ -12,6 +12,8 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'sidebar.settings.desc': '依 scope 設定 Claude Code',
   'sidebar.info': 'Extension 資訊',
   'sidebar.info.desc': '查看 extension 版本、快取路徑及 CLI 資訊',
+  'sidebar.profiles': 'Plugin Profiles',
+  'sidebar.profiles.desc': '以已儲存的 profile 切換 plugin 組合',
   // SettingsPage
   'settings.page.title': '設定管理',
   'settings.page.subtitle': '管理 Claude Code settings.json 設定檔',
@@ -826,10 +828,24 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'plugin.page.more': '更多',
   'plugin.page.updateAll': '更新 Plugins',
   'plugin.page.updating': '更新中 {current}/{total}...',
+  'plugin.page.checkingUpdates': '檢查更新中...',
+  'plugin.updateAll.title': '更新 Plugins',
+  'plugin.updateAll.summary': '{updated} 個已更新、{upToDate} 個已是最新、{failed} 個失敗',
+  'plugin.updateAll.status.updated': '已更新',
+  'plugin.updateAll.status.upToDate': '已是最新',
+  'plugin.updateAll.status.failed': '失敗',
+  'plugin.updateAll.retryFailed': '重試失敗項目（{count}）',
+  'plugin.updateAll.retrying': '重試中...',
+  'plugin.updateAll.close': '關閉',
   'plugin.page.refresh': '重新整理',
   'plugin.page.searchPlaceholder': '搜尋外掛...',
   'plugin.page.translate': '翻譯',
   'plugin.page.filterEnabled': '已啟用',
+  'plugin.page.filterUpdates': '有更新',
+  'plugin.page.filterConflicts': '有衝突',
+  'plugin.page.filterNeverUsed': '從未使用',
+  'plugin.page.contextBudget': 'Context：約 {tokens} / {limit} tokens',
+  'plugin.page.contextBudgetTitle': '{count} 個已啟用 plugin 每次 session 載入的預估 token 數（command、skill、agent 描述與 MCP tool 清單）',
   'plugin.page.showHidden': '顯示隱藏',
   'plugin.page.noResults': '沒有符合條件的外掛。',
   'plugin.page.clearFilters': '清除篩選',
@@ -854,6 +870,8 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'plugin.page.reinstallAllMessage': '將清除所有快取、移除所有 Marketplace 並從原始來源重新安裝，所有 Plugin 都會被重新安裝。\n\n操作完成前請勿關閉此畫面。',
   'plugin.page.reinstallAllWarning.before': '警告：',
   'plugin.page.reinstallAllWarning.after': ' 的內容也會被清除。',
+  'plugin.page.reinstallOneTitle': '重新安裝 Marketplace',
+  'plugin.page.reinstallOneMessage': '將移除「{name}」、清除其外掛快取，並從原始來源重新加入。已安裝的外掛與啟用設定會被還原，其他 Marketplace 不受影響。',
   'plugin.page.reinstallProgressTitle': '重新安裝進行中',
   'plugin.page.reinstallProgressCount': '目前進度：{current}/{total}',
   'plugin.page.reinstallProgressDetail': '當前項目：{detail}',
@@ -863,6 +881,83 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'plugin.page.reinstallPhase.restoringSettings': '還原已啟用外掛設定',
   'plugin.page.reinstallPhase.restoringPlugins': '重新安裝原本已安裝的外掛',
   'plugin.page.reinstallPhase.completed': '重新安裝完成',
+  'plugin.page.reinstallPhase.rollingBack': '已取消 — 正在還原先前的 marketplace',
+  'plugin.page.operationCancelling': '取消中...',
+  'plugin.page.exportConfig': '匯出設定',
+  'plugin.page.exportingConfig': '匯出中...',
+  'plugin.page.exportConfigSuccess': '已匯出設定至 {path}',
+  'plugin.page.importConfig': '匯入設定',
+  'plugin.page.scaffoldPlugin': '建立 Plugin…',
+  'plugin.page.installFromSource': '從來源安裝…',
+  'plugin.page.importingConfig': '匯入中...',
+  'plugin.page.importPreviewTitle': '匯入設定',
+  'plugin.page.importPreviewEmpty': '沒有需要匯入的項目：此設定包的內容皆已套用。',
+  'plugin.page.importSection.marketplacesToAdd': '將新增的 Marketplace（{count}）',
+  'plugin.page.importSection.pluginsToEnable': '將安裝 / 啟用的外掛（{count}）',
+  'plugin.page.importSection.skipped': '略過（{count}）',
+  'plugin.page.importSkip.alreadyAdded': '已加入',
+  'plugin.page.importSkip.alreadyEnabled': '已啟用',
+  'plugin.page.importSkip.noWorkspace': '未開啟此 scope 所需的 workspace',
+  'plugin.page.importSkip.unknownMarketplace': '設定包中沒有此 Marketplace',
+  'plugin.page.importConfirm': '匯入',
+  'plugin.page.importSuccess': '已新增 {marketplaces} 個 Marketplace，啟用 {plugins} 個外掛',
+  'plugin.page.importPartial': '匯入完成，但有 {count} 項失敗：{failures}',
+  'plugin.page.importProgressTitle': '匯入進行中',
+  'plugin.page.importPhase.addingMarketplaces': '加入 Marketplaces',
+  'plugin.page.importPhase.enablingPlugins': '安裝並啟用外掛',
+  'plugin.page.importPhase.completed': '匯入完成',
+  'plugin.page.updateSummary.title': '{name} 的變更內容',
+  'plugin.page.updateSummary.commit': 'Commit {from} → {to}',
+  'plugin.page.updateSummary.commitUnchanged': 'Commit {commit}（未變更）',
+  'plugin.page.updateSummary.commitUnknown': '未知',
+  'plugin.page.updateSummary.noPluginChanges': '沒有 plugin 變更。',
+  'plugin.page.updateSummary.added': '新增的 plugin（{count}）',
+  'plugin.page.updateSummary.removed': '移除的 plugin（{count}）',
+  'plugin.page.updateSummary.changed': '變更的 plugin（{count}）',
+  'plugin.page.updateSummary.version': '版本 {from} → {to}',
+  'plugin.page.updateSummary.versionUnknown': '無',
+  'plugin.page.updateSummary.kind.commands': 'Commands',
+  'plugin.page.updateSummary.kind.skills': 'Skills',
+  'plugin.page.updateSummary.kind.agents': 'Agents',
+  'plugin.page.updateSummary.kind.mcpServers': 'MCP servers',
+  'plugin.page.updateSummary.hooksChanged': 'Hooks 已變更',
+  'plugin.page.updateSummary.close': '關閉',
+  'plugin.page.preview.title': 'Marketplace 預覽 — {count} 個 plugin',
+  'plugin.page.preview.source': '來源：{format}',
+  'plugin.page.preview.remoteContents': '遠端來源 — 內容於安裝時才下載，無法預覽。',
+  'plugin.page.preview.noContents': '沒有 commands、skills、agents 或 MCP servers。',
+  'plugin.page.preview.kind.commands': 'Commands',
+  'plugin.page.preview.kind.skills': 'Skills',
+  'plugin.page.preview.kind.agents': 'Agents',
+  'plugin.page.preview.kind.mcpServers': 'MCP Servers',
+  'plugin.page.preview.hookCommands': 'Hook 指令（{count}）',
+  'plugin.page.preview.scripts': 'Shell scripts（{count}）',
+  'plugin.page.preview.adding': '新增中...',
+  'plugin.scaffold.title': '建立 Plugin',
+  'plugin.scaffold.intro': '建立含 plugin 骨架（commands、skills、agents）的本地 marketplace，並加入 Claude Code。',
+  'plugin.scaffold.location': '位置',
+  'plugin.scaffold.locationPlaceholder': '要建立 marketplace 的資料夾',
+  'plugin.scaffold.browse': '瀏覽…',
+  'plugin.scaffold.marketplaceName': 'Marketplace',
+  'plugin.scaffold.pluginName': 'Plugin',
+  'plugin.scaffold.nameHint': '名稱只能包含小寫字母、數字與連字號。',
+  'plugin.scaffold.description': '描述',
+  'plugin.scaffold.author': '作者',
+  'plugin.scaffold.includeHooks': '包含 hooks/hooks.json',
+  'plugin.scaffold.includeMcp': '包含 .mcp.json',
+  'plugin.scaffold.create': '建立',
+  'plugin.scaffold.creating': '建立中...',
+  'plugin.scaffold.success': '已在 {path} 建立 marketplace',
+  'plugin.source.title': '從來源安裝',
+  'plugin.source.intro': '不需新增 marketplace，直接從 GitHub、git URL 或本地資料夾安裝 plugin。plugin 資料夾需包含 .claude-plugin/plugin.json。',
+  'plugin.source.source': '來源',
+  'plugin.source.sourcePlaceholder': 'owner/repo、git URL 或 /path/to/plugin',
+  'plugin.source.subdir': '子目錄',
+  'plugin.source.subdirPlaceholder': '選填，例如 plugins/my-plugin',
+  'plugin.source.scope': 'Scope',
+  'plugin.source.install': '安裝',
+  'plugin.source.installing': '安裝中...',
+  'plugin.source.success': '已安裝 {pluginId}',
   // Plugin section
   'plugin.section.updates': '{count} 個更新',
   'plugin.section.updatesPlural': '{count} 個更新',
@@ -879,10 +974,144 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'plugin.orphan.removing': '移除中...',
   // PluginCard
   'plugin.card.updateAvailable': '有可用更新',
+  'plugin.card.cancelInstall': '取消安裝',
   'plugin.content.external': '此 plugin 來自外部 repo，安裝後才能檢視內容',
   'plugin.content.installOnly': '安裝（不啟用）',
   'plugin.card.hide': '隱藏',
   'plugin.card.unhide': '取消隱藏',
+  'plugin.card.history': '歷史',
+  'plugin.card.details': '詳情',
+  'plugin.card.origin.github': 'GitHub：{source}',
+  'plugin.card.origin.git': 'Git：{source}',
+  'plugin.card.origin.local': '資料夾：{source}',
+  'plugin.card.dev': 'DEV',
+  'plugin.card.devTitle': '{scope}：已連結至 {path}（{count} 個問題）',
+  'plugin.card.usage': '最後使用 {lastUsed} · 30 天內 {count} 次',
+  'plugin.card.neverUsed': '從未使用',
+  'plugin.card.contextCost': '約 {tokens} tokens',
+  'plugin.card.contextCostTitle': '啟用後預估佔用的 context — commands {commands}、skills {skills}、agents {agents}、MCP servers {mcpServers}',
+  'plugin.card.select': '選取 {name}',
+  'plugin.bulk.label': '批次操作',
+  'plugin.bulk.selected': '已選取 {count} 個',
+  'plugin.bulk.scope': '目標 scope',
+  'plugin.bulk.selectAllFiltered': '全選篩選結果（{count}）',
+  'plugin.bulk.clear': '清除選取',
+  'plugin.bulk.action.install': '安裝',
+  'plugin.bulk.action.uninstall': '解除安裝',
+  'plugin.bulk.action.enable': '啟用',
+  'plugin.bulk.action.disable': '停用',
+  'plugin.bulk.action.update': '更新',
+  'plugin.bulk.confirmUninstallTitle': '解除安裝 Plugin',
+  'plugin.bulk.confirmUninstallMessage': '要從 {scope} scope 解除安裝選取的 {count} 個 plugin 嗎？',
+  'plugin.bulk.result.title': '{action} — {scope}',
+  'plugin.bulk.result.summary': '成功 {succeeded} 個，失敗 {failed} 個',
+  'plugin.bulk.result.succeeded': '成功',
+  'plugin.bulk.result.failed': '失敗',
+  'plugin.bulk.result.close': '關閉',
+  'plugin.detail.author': '作者：{name}',
+  'plugin.detail.license': '授權：{license}',
+  'plugin.detail.homepage': '首頁',
+  'plugin.detail.repository': '原始碼',
+  'plugin.detail.installs': '安裝狀態',
+  'plugin.detail.availableCommit': 'Marketplace commit：{sha}',
+  'plugin.detail.notInstalled': '未安裝',
+  'plugin.detail.enabled': '已啟用',
+  'plugin.detail.disabled': '已安裝、未啟用',
+  'plugin.detail.commitUnknown': 'commit 未知',
+  'plugin.detail.behind': '落後 marketplace',
+  'plugin.devLink.link': '連結資料夾…',
+  'plugin.devLink.unlink': '取消連結',
+  'plugin.devLink.path': '開發資料夾：{path}',
+  'plugin.devLink.noIssues': 'manifest 與 frontmatter 檢查無問題。',
+  'plugin.devLink.linked': '已連結至 {path}，修改免重裝即生效。',
+  'plugin.devLink.unlinked': '已還原為安裝的版本。',
+  'plugin.detail.readme': 'README',
+  'plugin.detail.noReadme': '此 plugin 沒有 README.md。',
+  'plugin.detail.close': '關閉',
+  'plugin.profile.menu': 'Profiles',
+  'plugin.profile.menuActive': 'Profile：{name}',
+  'plugin.profile.manageItem': '儲存 / 管理 profile…',
+  'plugin.profile.active': '使用中',
+  'plugin.profile.applied': '已套用 profile「{name}」',
+  'plugin.profile.saved': '已儲存 profile「{name}」',
+  'plugin.profile.apply': '套用',
+  'plugin.profile.applying': '套用中...',
+  'plugin.profile.cancel': '取消',
+  'plugin.profile.diff.title': '套用 profile「{name}」',
+  'plugin.profile.diff.summary': '將啟用 {enable} 個、停用 {disable} 個。',
+  'plugin.profile.diff.unchanged': '目前啟用的 plugin 已與此 profile 一致。',
+  'plugin.profile.diff.toEnable': '啟用（{count}）',
+  'plugin.profile.diff.toDisable': '停用（{count}）',
+  'plugin.profile.manage.title': 'Plugin profiles',
+  'plugin.profile.manage.intro': 'Profile 是各 scope 已啟用 plugin 的快照。沒有 workspace 時只會儲存 user scope。',
+  'plugin.profile.manage.name': '名稱',
+  'plugin.profile.manage.namePlaceholder': 'frontend',
+  'plugin.profile.manage.save': '儲存目前狀態',
+  'plugin.profile.manage.overwrite': '覆寫',
+  'plugin.profile.manage.empty': '尚未建立任何 profile。',
+  'plugin.profile.manage.scopeCount': '{scope}：{count}',
+  'plugin.profile.manage.delete': '刪除',
+  'plugin.profile.manage.deleteLabel': '刪除 profile {name}',
+  'plugin.profile.manage.close': '關閉',
+  'plugin.card.whatsChanged': '變更內容',
+  'plugin.changelog.title': '變更內容 — {name}',
+  'plugin.changelog.commits': 'Commits（{count}）',
+  'plugin.changelog.commitsUnavailable': '無法取得 git 歷史（非 git marketplace，或已安裝的 commit 未知或已不在 clone 中）。',
+  'plugin.changelog.noCommits': '自已安裝版本後沒有 commit 觸及此 plugin。',
+  'plugin.changelog.commitMeta': '{author} · {date}',
+  'plugin.changelog.files': '變更的 commands / skills / agents（{count}）',
+  'plugin.changelog.noFileChanges': 'command / skill / agent 檔案沒有變更。',
+  'plugin.changelog.fileAdded': '新增：{path}',
+  'plugin.changelog.fileRemoved': '移除：{path}',
+  'plugin.changelog.fileModified': '修改：{path}',
+  'plugin.changelog.update': '更新',
+  'plugin.conflicts.title': '已啟用的 plugin 之間有 {count} 個名稱衝突',
+  'plugin.lock.driftTitle': '{count} 個 plugin 與 .claude/plugins.lock.json 不一致',
+  'plugin.lock.invalid': '無法讀取 .claude/plugins.lock.json：{error}',
+  'plugin.lock.drift.missing': '未安裝',
+  'plugin.lock.drift.commit': 'commit 不同',
+  'plugin.lock.drift.version': '版本不同',
+  'plugin.lock.drift.enabled': '應啟用',
+  'plugin.lock.drift.disabled': '應停用',
+  'plugin.lock.sync': '從 lockfile 同步',
+  'plugin.lock.syncing': '同步中…',
+  'plugin.lock.synced': '已從 lockfile 同步 {count} 個 plugin',
+  'plugin.lock.syncFailed': '{count} 個 plugin 無法從 lockfile 同步：{details}',
+  'plugin.lock.write': '寫入專案 Lockfile',
+  'plugin.lock.writing': '寫入 Lockfile 中…',
+  'plugin.lock.written': '已將 {count} 個專案 plugin 寫入 .claude/plugins.lock.json',
+  'plugin.conflicts.kind.command': '指令',
+  'plugin.conflicts.kind.skill': 'Skill',
+  'plugin.conflicts.kind.agent': 'Agent',
+  'plugin.conflicts.kind.mcp': 'MCP server',
+  'plugin.conflicts.external.userSkill': '使用者 skill',
+  'plugin.conflicts.external.projectSkill': '專案 skill',
+  'plugin.conflicts.external.userMcp': '使用者 MCP server',
+  'plugin.conflicts.external.projectMcp': '專案 MCP server',
+  'plugin.conflicts.external.localMcp': '本機 MCP server',
+  'plugin.conflicts.showOnly': '只顯示衝突的 plugin',
+  'plugin.security.title': '安全審查 — {name}',
+  'plugin.security.intro': '此 plugin 含有會在你的電腦上執行程式碼的 hook、script 或 MCP server，繼續前請先檢查。',
+  'plugin.security.sourceUnavailable': '此 plugin 的來源在遠端，安裝時才會下載，無法事先審查 hook、script 與 MCP 指令。只有在信任來源時才繼續。',
+  'plugin.security.commit': '審查的 commit {sha}',
+  'plugin.security.findings': '風險樣式（{count}）',
+  'plugin.security.noFindings': '未發現風險樣式。',
+  'plugin.security.mcpServers': 'MCP server（{count}）',
+  'plugin.security.acknowledge': '我了解，繼續',
+  'plugin.security.rule.pipeToShell': '下載並執行遠端 script',
+  'plugin.security.rule.recursiveDelete': '遞迴刪除檔案',
+  'plugin.security.rule.network': '發出網路連線',
+  'plugin.security.rule.writeOutsideProject': '寫入專案以外的位置',
+  'plugin.security.rule.obfuscated': '混淆或編碼的內容',
+  'plugin.history.title': '版本歷史 — {name}',
+  'plugin.history.intro': '被更新取代的版本會保留以便回滾。回滾不會重新安裝，而是讓所選 scope 指向已快取的副本。',
+  'plugin.history.scope': 'Scope',
+  'plugin.history.current': '目前（{scope}）：{version}',
+  'plugin.history.empty': '尚無先前版本。每次更新 plugin 時會記錄一個版本。',
+  'plugin.history.dates': '更新於 {updated} · 取代於 {replaced}',
+  'plugin.history.rollback': '回滾',
+  'plugin.history.rollingBack': '回滾中...',
+  'plugin.history.rolledBack': '已將 {name} 回滾至 {version}',
   // BulkEnableScopeDialog
   'bulk.title': '全部啟用 — {marketplace}',
   'bulk.message': '選擇啟用 {count} 個外掛的範圍：',
@@ -907,7 +1136,41 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'marketplace.card.autoUpdate': '自動更新',
   'marketplace.card.update': '更新',
   'marketplace.card.updating': '更新中...',
+  'marketplace.card.cancelUpdate': '取消',
   'marketplace.card.remove': '移除',
+  'marketplace.card.reinstall': '重新安裝',
+  'marketplace.card.pin': '釘選',
+  'marketplace.card.unpin': '取消釘選',
+  'marketplace.card.pinnedBadge': '已釘選：{ref}',
+  'marketplace.card.pinnedAutoUpdateHint': '釘選期間自動更新會關閉',
+  'marketplace.card.headSha': 'HEAD {sha}',
+  'marketplace.pin.title': '將 {name} 釘選到 git ref',
+  'marketplace.pin.refLabel': 'Branch、tag 或 commit',
+  'marketplace.pin.refPlaceholder': '例如 v1.2.0、release、3f2a9c1',
+  'marketplace.pin.refHint': '更新會停留在此 ref（branch 仍會前進到最新 commit）。取消釘選即恢復一般更新。',
+  'marketplace.pin.confirm': '釘選',
+  'marketplace.card.editManifest': '編輯 Manifest',
+  'marketplace.manifest.title': '編輯 {name} 的 manifest',
+  'marketplace.manifest.intro': '新增、移除、排序與編輯 .claude-plugin/marketplace.json 中的 plugin 項目。其他欄位會原樣保留。',
+  'marketplace.manifest.empty': '尚無 plugin。',
+  'marketplace.manifest.unnamed': '（未命名）',
+  'marketplace.manifest.addPlugin': '新增 Plugin',
+  'marketplace.manifest.moveUp': '上移',
+  'marketplace.manifest.moveDown': '下移',
+  'marketplace.manifest.remove': '移除',
+  'marketplace.manifest.name': '名稱',
+  'marketplace.manifest.description': '描述',
+  'marketplace.manifest.version': '版本',
+  'marketplace.manifest.format': '來源',
+  'marketplace.manifest.unsupportedFormat': '不支援',
+  'marketplace.manifest.path': '路徑',
+  'marketplace.manifest.subdir': '子目錄',
+  'marketplace.manifest.repo': 'Repository',
+  'marketplace.manifest.url': 'Git URL',
+  'marketplace.manifest.ref': 'Ref',
+  'marketplace.manifest.save': '儲存',
+  'marketplace.manifest.saving': '儲存中...',
+  'marketplace.manifest.saved': '已儲存 {name} 的 manifest',
   'marketplace.card.updated': '更新時間：',
   // McpServerCard
   'mcp.card.connectionFailed': '連線失敗',
@@ -960,6 +1223,7 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'filter.sortBy': '排序方式',
   'filter.sortName': '名稱',
   'filter.sortLastUpdated': '最後更新',
+  'filter.sortContextCost': 'Context 用量',
   'filter.source.label': '來源',
   'filter.source.localInternal': '本地內部',
   'filter.source.localExternal': '本地外部',
@@ -999,6 +1263,33 @@ export const zhTW: Partial<Record<TranslationKey, string>> = {
   'info.clearCache.confirm': '清除',
   'info.clearCache.success': '快取已清除',
   'info.clearCache.failed': '清除快取失敗',
+  'info.section.storage': 'Plugin 儲存空間',
+  'info.storage.hint': '分析 marketplace clone 與 plugin cache 各版本的磁碟用量。',
+  'info.storage.analyze': '分析',
+  'info.storage.analyzing': '分析中…',
+  'info.storage.refresh': '重新整理',
+  'info.storage.loadFailed': '分析 plugin 儲存空間失敗',
+  'info.storage.total': '共 {size}',
+  'info.storage.unused': '{count} 個未使用的 cache 版本（{size}）',
+  'info.storage.marketplaces': 'Marketplace clone',
+  'info.storage.caches': 'Plugin cache',
+  'info.storage.empty': '無',
+  'info.storage.ref.installed': '使用中',
+  'info.storage.ref.devLink': 'Dev link 備份',
+  'info.storage.ref.history': '供 rollback',
+  'info.storage.ref.unused': '未使用',
+  'info.storage.ref.known': '已登記',
+  'info.storage.ref.unknown': '未登記',
+  'info.storage.deleteSelected': '刪除選取項目（{count} 個，{size}）',
+  'info.storage.previewPrune': '預覽清理…',
+  'info.storage.deleteTitle': '刪除選取的目錄',
+  'info.storage.deleteMessage': '確定刪除 {count} 個目錄（{size}）？刪除的 rollback 版本將無法再還原。',
+  'info.storage.deleteConfirm': '刪除',
+  'info.storage.pruneTitle': '清理未使用的 cache',
+  'info.storage.pruneMessage': '以下 {count} 個 cache 版本（{size}）未被已安裝的 plugin、rollback 歷史或 dev link 引用，將被刪除：',
+  'info.storage.pruneConfirm': '清理',
+  'info.storage.deleteSuccess': '已刪除 {dirs} 個目錄，釋放 {size}',
+  'info.storage.deleteFailed': '刪除 plugin 儲存空間失敗',
   // SkillsPage
   'skill.page.title': 'Skills 管理',
   'skill.page.subtitle': '基於 Vercel Skills CLI 與 skills.sh',
@@ -128,6 +128,17 @@ export function SidebarApp(): React.ReactElement {
             </button>
           );
         })}
+        <button
+          className="sidebar-button"
+          onClick={() => postMessage({ type: 'sidebar.applyProfile' })}
+          title={t('sidebar.profiles.desc')}
+        >
+          <span className="sidebar-button-icon">🗂️</span>
+          <div className="sidebar-button-text">
+            <span className="sidebar-button-label">{t('sidebar.profiles')}</span>
+            <span className="sidebar-button-desc">{t('sidebar.profiles.desc')}</span>
+          </div>
+        </button>
       </div>
     </div>
   );
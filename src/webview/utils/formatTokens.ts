@@ -0,0 +1,5 @@
+/** token 數 → 未滿 1000 顯示原值，以上顯示 12.3k（最多一位小數） */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  return `${Number((tokens / 1000).toFixed(1))}k`;
+}
@@ -0,0 +1,61 @@
+import { toErrorMessage } from '../../shared/errorUtils';
+
+const MAX_EXPLAIN_ERROR_LEN = 120;
+
+/** hook 解釋失敗的 toast 訊息：只保留第一行，timeout / CLI 不存在時給精簡原因 */
+export function formatExplainError(baseMessage: string, error: unknown): string {
+  const message = toErrorMessage(error);
+  const firstLine = message.split(/\r?\n/, 1)[0]?.trim() ?? '';
+  if (!firstLine) return baseMessage;
+
+  const timeoutMatch = firstLine.match(/CLI timeout after \d+ms/);
+  if (timeoutMatch) {
+    return `${baseMessage}: ${timeoutMatch[0]}`;
+  }
+
+  if (firstLine.includes('Claude CLI not found')) {
+    return `${baseMessage}: Claude CLI not found`;
+  }
+
+  const shortReason = firstLine.length > MAX_EXPLAIN_ERROR_LEN
+    ? `${firstLine.slice(0, MAX_EXPLAIN_ERROR_LEN).trimEnd()}...`
+    : firstLine;
+
+  return `${baseMessage}: ${shortReason}`;
+}
+
+function inlineMarkdown(text: string): string {
+  return text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+/** 只保留已知安全的 HTML tag，strip 其餘（defense-in-depth） */
+const ALLOWED_TAG_RE = /^<\/?(strong|em|code|ul|li|p|br\s*\/?)>$/i;
+function stripUnallowedTags(html: string): string {
+  return html.replace(/<\/?[a-z][a-z0-9]*[^>]*\/?>/gi, (tag) =>
+    ALLOWED_TAG_RE.test(tag) ? tag : '',
+  );
+}
+
+/** 簡易 markdown → HTML：bold, code, list, paragraph */
+export function renderSimpleMarkdown(text: string): string {
+  const raw = text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(block => {
+      const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+      if (lines.length === 0) return '';
+      if (lines.every(l => /^[-*]\s+/.test(l))) {
+        return '<ul>' + lines.map(l =>
+          '<li>' + inlineMarkdown(l.replace(/^[-*]\s+/, '')) + '</li>'
+        ).join('') + '</ul>';
+      }
+      return '<p>' + lines.map(l => inlineMarkdown(l)).join('<br/>') + '</p>';
+    })
+    .filter(Boolean)
+    .join('');
+  return stripUnallowedTags(raw);
+}
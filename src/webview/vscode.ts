@@ -59,12 +59,19 @@ window.addEventListener('message', (event: MessageEvent) => {
   }
 });
 
-/** 發送 request 到 extension host，回傳 Promise（30 秒 timeout） */
+/**
+ * 發送 request 到 extension host，回傳 Promise（30 秒 timeout）。
+ * signal abort 時送出 `operation.cancel`；Promise 仍等 extension 回覆（通常為取消錯誤）。
+ */
 export function sendRequest<T>(
   message: Record<string, unknown>,
   timeoutMs = 30000,
+  signal?: AbortSignal,
 ): Promise<T> {
   const requestId = `${SESSION_PREFIX}${++requestIdCounter}`;
+  signal?.addEventListener('abort', () => {
+    sendRequest({ type: 'operation.cancel', targetRequestId: requestId }).catch(() => {});
+  }, { once: true });
   return new Promise<T>((resolve, reject) => {
     const timeoutId = setTimeout(() => {
       pendingRequests.delete(requestId);